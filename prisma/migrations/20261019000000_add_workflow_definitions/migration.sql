@@ -0,0 +1,62 @@
+-- CreateTable: WorkflowDefinition — declarative per-tenant pipelines.
+-- AlterTable: WorkflowInstance.definitionId pins the definition version a
+-- workflow started with (NULL = built-in hard-coded pipeline).
+-- Idempotent (CREATE TABLE / INDEX IF NOT EXISTS + guarded ADD CONSTRAINT)
+-- so the migration is safe to re-apply against a hand-baselined database.
+-- Reverse with `ALTER TABLE "WorkflowInstance" DROP COLUMN "definitionId";
+-- DROP TABLE "WorkflowDefinition";`.
+
+CREATE TABLE IF NOT EXISTS "WorkflowDefinition" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "version" INTEGER NOT NULL,
+    "description" TEXT,
+    "spec" JSONB NOT NULL,
+    "isActive" BOOLEAN NOT NULL DEFAULT false,
+    "createdBy" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "WorkflowDefinition_pkey" PRIMARY KEY ("id")
+);
+
+ALTER TABLE "WorkflowInstance" ADD COLUMN IF NOT EXISTS "definitionId" TEXT;
+
+-- Indexes.
+CREATE UNIQUE INDEX IF NOT EXISTS "WorkflowDefinition_tenantId_name_version_key"
+    ON "WorkflowDefinition"("tenantId", "name", "version");
+CREATE INDEX IF NOT EXISTS "WorkflowDefinition_tenantId_isActive_idx"
+    ON "WorkflowDefinition"("tenantId", "isActive");
+CREATE INDEX IF NOT EXISTS "WorkflowInstance_definitionId_idx"
+    ON "WorkflowInstance"("definitionId");
+
+-- Foreign keys (guarded so re-apply doesn't error). Scoped on
+-- table_schema = current_schema() so an identically-named constraint
+-- in another schema can't cause the ADD to be skipped.
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_schema = current_schema()
+      AND table_name = 'WorkflowDefinition'
+      AND constraint_name = 'WorkflowDefinition_tenantId_fkey'
+  ) THEN
+    ALTER TABLE "WorkflowDefinition"
+      ADD CONSTRAINT "WorkflowDefinition_tenantId_fkey"
+      FOREIGN KEY ("tenantId") REFERENCES "Tenant"("id")
+      ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_schema = current_schema()
+      AND table_name = 'WorkflowInstance'
+      AND constraint_name = 'WorkflowInstance_definitionId_fkey'
+  ) THEN
+    ALTER TABLE "WorkflowInstance"
+      ADD CONSTRAINT "WorkflowInstance_definitionId_fkey"
+      FOREIGN KEY ("definitionId") REFERENCES "WorkflowDefinition"("id")
+      ON DELETE SET NULL ON UPDATE CASCADE;
+  END IF;
+END $$;
@@ -0,0 +1,18 @@
+-- AlterTable: HITLDecision records policy auto-decisions alongside human ones.
+-- reviewerId becomes nullable (no human reviewer for an auto-decision),
+-- autoApproved flags the row and rationale stores the AutoApprovalRationale.
+-- Idempotent (ADD COLUMN IF NOT EXISTS; DROP NOT NULL is a no-op when repeated).
+-- Reverse by deleting rows with a NULL "reviewerId", then
+-- `ALTER TABLE "HITLDecision" DROP COLUMN "rationale", DROP COLUMN "autoApproved",
+-- ALTER COLUMN "reviewerId" SET NOT NULL;` and re-adding the reviewer FK with
+-- ON DELETE RESTRICT.
+
+ALTER TABLE "HITLDecision" ALTER COLUMN "reviewerId" DROP NOT NULL;
+
+ALTER TABLE "HITLDecision" ADD COLUMN IF NOT EXISTS "autoApproved" BOOLEAN NOT NULL DEFAULT false;
+ALTER TABLE "HITLDecision" ADD COLUMN IF NOT EXISTS "rationale" JSONB;
+
+-- Optional relation: Prisma expects ON DELETE SET NULL for the reviewer FK.
+ALTER TABLE "HITLDecision" DROP CONSTRAINT IF EXISTS "HITLDecision_reviewerId_fkey";
+ALTER TABLE "HITLDecision" ADD CONSTRAINT "HITLDecision_reviewerId_fkey"
+    FOREIGN KEY ("reviewerId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
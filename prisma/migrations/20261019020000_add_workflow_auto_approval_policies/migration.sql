@@ -0,0 +1,29 @@
+-- AlterTable: auto-approval policies for single (non-batch) workflows.
+-- WorkflowInstance.autoApprovalPolicy is the per-workflow policy,
+-- WorkflowInstance.productId links a workflow to a product, and
+-- Product.autoApprovalPolicy is the per-product policy. The tenant default
+-- lives in Tenant.settings.workflow.autoApprovalPolicy (no column needed).
+-- Idempotent (ADD COLUMN / CREATE INDEX IF NOT EXISTS + guarded ADD CONSTRAINT).
+-- Reverse with `ALTER TABLE "WorkflowInstance" DROP COLUMN "productId",
+-- DROP COLUMN "autoApprovalPolicy"; ALTER TABLE "Product" DROP COLUMN "autoApprovalPolicy";`.
+
+ALTER TABLE "WorkflowInstance" ADD COLUMN IF NOT EXISTS "productId" TEXT;
+ALTER TABLE "WorkflowInstance" ADD COLUMN IF NOT EXISTS "autoApprovalPolicy" JSONB;
+ALTER TABLE "Product" ADD COLUMN IF NOT EXISTS "autoApprovalPolicy" JSONB;
+
+CREATE INDEX IF NOT EXISTS "WorkflowInstance_productId_idx" ON "WorkflowInstance"("productId");
+
+-- Foreign key (guarded so re-apply doesn't error).
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_schema = current_schema()
+      AND table_name = 'WorkflowInstance'
+      AND constraint_name = 'WorkflowInstance_productId_fkey'
+  ) THEN
+    ALTER TABLE "WorkflowInstance"
+      ADD CONSTRAINT "WorkflowInstance_productId_fkey"
+      FOREIGN KEY ("productId") REFERENCES "Product"("id")
+      ON DELETE SET NULL ON UPDATE CASCADE;
+  END IF;
+END $$;
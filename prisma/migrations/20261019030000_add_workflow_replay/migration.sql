@@ -0,0 +1,26 @@
+-- AlterTable: workflow replays. A replay is a new WorkflowInstance branched
+-- from an earlier step of an existing run; replayOfId links it back to the
+-- original and replayFromState records the step it restarted at.
+-- Idempotent (ADD COLUMN / CREATE INDEX IF NOT EXISTS + guarded ADD CONSTRAINT).
+-- Reverse with `ALTER TABLE "WorkflowInstance" DROP COLUMN "replayOfId",
+-- DROP COLUMN "replayFromState";`.
+
+ALTER TABLE "WorkflowInstance" ADD COLUMN IF NOT EXISTS "replayOfId" TEXT;
+ALTER TABLE "WorkflowInstance" ADD COLUMN IF NOT EXISTS "replayFromState" TEXT;
+
+CREATE INDEX IF NOT EXISTS "WorkflowInstance_replayOfId_idx" ON "WorkflowInstance"("replayOfId");
+
+-- Foreign key (guarded so re-apply doesn't error).
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_schema = current_schema()
+      AND table_name = 'WorkflowInstance'
+      AND constraint_name = 'WorkflowInstance_replayOfId_fkey'
+  ) THEN
+    ALTER TABLE "WorkflowInstance"
+      ADD CONSTRAINT "WorkflowInstance_replayOfId_fkey"
+      FOREIGN KEY ("replayOfId") REFERENCES "WorkflowInstance"("id")
+      ON DELETE SET NULL ON UPDATE CASCADE;
+  END IF;
+END $$;
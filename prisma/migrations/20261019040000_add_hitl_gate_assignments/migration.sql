@@ -0,0 +1,58 @@
+-- CreateTable: HITLGateAssignment — who owns an open HITL gate and how far
+-- its escalation chain (tenant setting workflow.hitlEscalation) has run.
+-- Idempotent (CREATE TABLE / INDEX IF NOT EXISTS + guarded ADD CONSTRAINT)
+-- so the migration is safe to re-apply against a hand-baselined database.
+-- Reverse with `DROP TABLE "HITLGateAssignment";`.
+
+CREATE TABLE IF NOT EXISTS "HITLGateAssignment" (
+    "id" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "gate" TEXT NOT NULL,
+    "assigneeId" TEXT,
+    "assigneeRole" "UserRole",
+    "openedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "escalationLevel" INTEGER NOT NULL DEFAULT 0,
+    "lastEscalatedAt" TIMESTAMP(3),
+    "resolvedAt" TIMESTAMP(3),
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "HITLGateAssignment_pkey" PRIMARY KEY ("id")
+);
+
+-- Indexes.
+CREATE INDEX IF NOT EXISTS "HITLGateAssignment_workflowId_gate_idx"
+    ON "HITLGateAssignment"("workflowId", "gate");
+CREATE INDEX IF NOT EXISTS "HITLGateAssignment_tenantId_resolvedAt_idx"
+    ON "HITLGateAssignment"("tenantId", "resolvedAt");
+CREATE INDEX IF NOT EXISTS "HITLGateAssignment_assigneeId_resolvedAt_idx"
+    ON "HITLGateAssignment"("assigneeId", "resolvedAt");
+
+-- Foreign keys (guarded so re-apply doesn't error).
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_schema = current_schema()
+      AND table_name = 'HITLGateAssignment'
+      AND constraint_name = 'HITLGateAssignment_workflowId_fkey'
+  ) THEN
+    ALTER TABLE "HITLGateAssignment"
+      ADD CONSTRAINT "HITLGateAssignment_workflowId_fkey"
+      FOREIGN KEY ("workflowId") REFERENCES "WorkflowInstance"("id")
+      ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_schema = current_schema()
+      AND table_name = 'HITLGateAssignment'
+      AND constraint_name = 'HITLGateAssignment_assigneeId_fkey'
+  ) THEN
+    ALTER TABLE "HITLGateAssignment"
+      ADD CONSTRAINT "HITLGateAssignment_assigneeId_fkey"
+      FOREIGN KEY ("assigneeId") REFERENCES "User"("id")
+      ON DELETE SET NULL ON UPDATE CASCADE;
+  END IF;
+END $$;
@@ -0,0 +1,89 @@
+-- Reviewer assignment for HITL gates: reviewer skills and capacity
+-- (ReviewerProfile), the owner history of each gate assignment
+-- (HITLAssignmentHistory), the skills a gate needs, and the gate owner on
+-- HITLGateMetric so time-to-decision can be reported per reviewer.
+-- Idempotent (IF NOT EXISTS + guarded ADD CONSTRAINT) so the migration is
+-- safe to re-apply against a hand-baselined database.
+-- Reverse with `DROP TABLE "HITLAssignmentHistory"; DROP TABLE "ReviewerProfile";`
+-- and dropping the added columns.
+
+ALTER TABLE "HITLGateAssignment"
+    ADD COLUMN IF NOT EXISTS "requiredSkills" TEXT[] DEFAULT ARRAY[]::TEXT[];
+
+ALTER TABLE "HITLGateMetric"
+    ADD COLUMN IF NOT EXISTS "assigneeId" TEXT,
+    ADD COLUMN IF NOT EXISTS "assignedAt" TIMESTAMP(3),
+    ADD COLUMN IF NOT EXISTS "reassignCount" INTEGER NOT NULL DEFAULT 0;
+
+CREATE INDEX IF NOT EXISTS "HITLGateMetric_tenantId_assigneeId_idx"
+    ON "HITLGateMetric"("tenantId", "assigneeId");
+
+CREATE TABLE IF NOT EXISTS "HITLAssignmentHistory" (
+    "id" TEXT NOT NULL,
+    "assignmentId" TEXT NOT NULL,
+    "workflowId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "gate" TEXT NOT NULL,
+    "assigneeId" TEXT,
+    "assigneeRole" "UserRole",
+    "method" TEXT NOT NULL,
+    "assignedById" TEXT,
+    "reason" TEXT,
+    "assignedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "unassignedAt" TIMESTAMP(3),
+
+    CONSTRAINT "HITLAssignmentHistory_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "HITLAssignmentHistory_assignmentId_idx"
+    ON "HITLAssignmentHistory"("assignmentId");
+CREATE INDEX IF NOT EXISTS "HITLAssignmentHistory_tenantId_assigneeId_idx"
+    ON "HITLAssignmentHistory"("tenantId", "assigneeId");
+
+CREATE TABLE IF NOT EXISTS "ReviewerProfile" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "skills" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "gates" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "maxOpenGates" INTEGER,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ReviewerProfile_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "ReviewerProfile_userId_key"
+    ON "ReviewerProfile"("userId");
+CREATE INDEX IF NOT EXISTS "ReviewerProfile_tenantId_idx"
+    ON "ReviewerProfile"("tenantId");
+
+-- Foreign keys (guarded so re-apply doesn't error).
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_schema = current_schema()
+      AND table_name = 'HITLAssignmentHistory'
+      AND constraint_name = 'HITLAssignmentHistory_assignmentId_fkey'
+  ) THEN
+    ALTER TABLE "HITLAssignmentHistory"
+      ADD CONSTRAINT "HITLAssignmentHistory_assignmentId_fkey"
+      FOREIGN KEY ("assignmentId") REFERENCES "HITLGateAssignment"("id")
+      ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
+
+DO $$ BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM information_schema.table_constraints
+    WHERE table_schema = current_schema()
+      AND table_name = 'ReviewerProfile'
+      AND constraint_name = 'ReviewerProfile_userId_fkey'
+  ) THEN
+    ALTER TABLE "ReviewerProfile"
+      ADD CONSTRAINT "ReviewerProfile_userId_fkey"
+      FOREIGN KEY ("userId") REFERENCES "User"("id")
+      ON DELETE CASCADE ON UPDATE CASCADE;
+  END IF;
+END $$;
@@ -0,0 +1,36 @@
+-- Review queue for PDF form-field tooltip (TU) proposals. One row per
+-- field per job; the proposal comes from the label text nearest the
+-- field's widget and is applied to the PDF only once approved or edited.
+-- Idempotent (IF NOT EXISTS) so the migration is safe to re-apply against
+-- a hand-baselined database.
+-- Reverse with `DROP TABLE "GeneratedFormTooltip";`
+
+CREATE TABLE IF NOT EXISTS "GeneratedFormTooltip" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "fieldName" TEXT NOT NULL,
+    "fieldType" TEXT NOT NULL,
+    "pageNumber" INTEGER NOT NULL,
+    "bounds" JSONB NOT NULL,
+    "currentTooltip" TEXT,
+    "proposedTooltip" TEXT NOT NULL,
+    "labelSource" TEXT NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "flags" TEXT[],
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "approvedTooltip" TEXT,
+    "approvedBy" TEXT,
+    "approvedAt" TIMESTAMP(3),
+    "appliedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "GeneratedFormTooltip_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "GeneratedFormTooltip_jobId_fieldName_key"
+    ON "GeneratedFormTooltip"("jobId", "fieldName");
+CREATE INDEX IF NOT EXISTS "GeneratedFormTooltip_jobId_idx"
+    ON "GeneratedFormTooltip"("jobId");
+CREATE INDEX IF NOT EXISTS "GeneratedFormTooltip_status_idx"
+    ON "GeneratedFormTooltip"("status");
@@ -0,0 +1,38 @@
+-- Reading-order editor history. One row per structure tree edit (reorder,
+-- merge, split, retag) made in a remediation session, with the file name
+-- of the PDF snapshot taken before the edit so it can be undone.
+-- Idempotent (IF NOT EXISTS) so the migration is safe to re-apply against
+-- a hand-baselined database.
+-- Reverse with `DROP TABLE "StructureEdit";`
+
+CREATE TABLE IF NOT EXISTS "StructureEdit" (
+    "id" TEXT NOT NULL,
+    "sessionId" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "operatorId" TEXT NOT NULL,
+    "operation" TEXT NOT NULL,
+    "payload" JSONB NOT NULL,
+    "description" TEXT NOT NULL,
+    "snapshotFileName" TEXT NOT NULL,
+    "undoneAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StructureEdit_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX IF NOT EXISTS "StructureEdit_sessionId_createdAt_idx"
+    ON "StructureEdit"("sessionId", "createdAt");
+CREATE INDEX IF NOT EXISTS "StructureEdit_jobId_createdAt_idx"
+    ON "StructureEdit"("jobId", "createdAt");
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_constraint WHERE conname = 'StructureEdit_sessionId_fkey'
+    ) THEN
+        ALTER TABLE "StructureEdit"
+            ADD CONSTRAINT "StructureEdit_sessionId_fkey"
+            FOREIGN KEY ("sessionId") REFERENCES "RemediationSession"("id")
+            ON DELETE CASCADE ON UPDATE CASCADE;
+    END IF;
+END $$;
@@ -0,0 +1,12 @@
+-- AlterEnum: add PDF_TO_EPUB to JobType (PDF → reflowable EPUB 3 conversion
+-- from verified zones). Idempotent: check pg_enum before adding.
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM pg_enum
+    WHERE enumlabel = 'PDF_TO_EPUB'
+    AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'JobType')
+  ) THEN
+    ALTER TYPE "JobType" ADD VALUE 'PDF_TO_EPUB';
+  END IF;
+END $$;
@@ -0,0 +1,6 @@
+-- AlterTable: CitationStyleGuide stores the CSL XML of tenant-uploaded styles,
+-- rendered by the deterministic CSL formatter. NULL for the seeded system
+-- style guides. Idempotent (ADD COLUMN IF NOT EXISTS).
+-- Reverse with `ALTER TABLE "CitationStyleGuide" DROP COLUMN "cslXml";`.
+
+ALTER TABLE "CitationStyleGuide" ADD COLUMN IF NOT EXISTS "cslXml" TEXT;
@@ -0,0 +1,45 @@
+-- Retracted / corrected reference detection. Adds the RETRACTED_REFERENCE
+-- integrity check type, the notices found for each reference list entry,
+-- and the imported Retraction Watch dataset.
+-- Idempotent (IF NOT EXISTS) so the migration is safe to re-apply against
+-- a hand-baselined database.
+-- Reverse with `DROP TABLE "RetractionNotice";` and
+-- `ALTER TABLE "ReferenceListEntry" DROP COLUMN "integrityNotices", DROP COLUMN "integrityCheckedAt";`
+-- (enum values cannot be dropped).
+
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_enum
+        WHERE enumlabel = 'RETRACTED_REFERENCE'
+        AND enumtypid = (SELECT oid FROM pg_type WHERE typname = 'IntegrityCheckType')
+    ) THEN
+        ALTER TYPE "IntegrityCheckType" ADD VALUE 'RETRACTED_REFERENCE';
+    END IF;
+END
+$$;
+
+ALTER TABLE "ReferenceListEntry" ADD COLUMN IF NOT EXISTS "integrityNotices" JSONB;
+ALTER TABLE "ReferenceListEntry" ADD COLUMN IF NOT EXISTS "integrityCheckedAt" TIMESTAMP(3);
+
+CREATE TABLE IF NOT EXISTS "RetractionNotice" (
+    "id" TEXT NOT NULL,
+    "source" TEXT NOT NULL DEFAULT 'retraction-watch',
+    "recordId" TEXT NOT NULL,
+    "originalDoi" TEXT,
+    "originalPmid" TEXT,
+    "noticeType" TEXT NOT NULL,
+    "noticeDoi" TEXT,
+    "noticeDate" TIMESTAMP(3),
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RetractionNotice_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS "RetractionNotice_source_recordId_key"
+    ON "RetractionNotice"("source", "recordId");
+CREATE INDEX IF NOT EXISTS "RetractionNotice_originalDoi_idx"
+    ON "RetractionNotice"("originalDoi");
+CREATE INDEX IF NOT EXISTS "RetractionNotice_originalPmid_idx"
+    ON "RetractionNotice"("originalPmid");
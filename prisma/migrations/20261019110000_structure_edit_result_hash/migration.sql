@@ -0,0 +1,10 @@
+-- Reading-order undo safety. Records the SHA-256 of the PDF each structure
+-- edit saved, so undo can refuse when the remediated PDF was changed since
+-- (link, form-field or table applies), and lets old snapshots be pruned.
+-- Idempotent (IF NOT EXISTS) so the migration is safe to re-apply against
+-- a hand-baselined database.
+-- Reverse with `ALTER TABLE "StructureEdit" DROP COLUMN "resultSha256";`
+-- (and restore NOT NULL on "snapshotFileName" once pruned rows are removed).
+
+ALTER TABLE "StructureEdit" ADD COLUMN IF NOT EXISTS "resultSha256" TEXT;
+ALTER TABLE "StructureEdit" ALTER COLUMN "snapshotFileName" DROP NOT NULL;
@@ -0,0 +1,8 @@
+-- WCAG version of an ACR job, recorded when it differs from the edition
+-- default (OpenACR imports name it in their catalog) so re-issuing the
+-- report keeps it.
+-- Idempotent (IF NOT EXISTS) so the migration is safe to re-apply against
+-- a hand-baselined database.
+-- Reverse with `ALTER TABLE "AcrJob" DROP COLUMN "wcagVersion";`
+
+ALTER TABLE "AcrJob" ADD COLUMN IF NOT EXISTS "wcagVersion" TEXT;
@@ -0,0 +1,43 @@
+/**
+ * Data Import: Retraction Watch dataset
+ *
+ * Loads the Retraction Watch CSV (distributed by CrossRef at
+ * https://gitlab.com/crossref/retraction-watch-data) into RetractionNotice,
+ * replacing any previously imported records. The RETRACTED_REFERENCE
+ * integrity check consults these records alongside CrossRef update notices.
+ *
+ * Usage:
+ *   npx tsx scripts/import-retraction-watch.ts <path/to/retraction_watch.csv>
+ *   # or
+ *   npm run script:import-retraction-watch -- <path/to/retraction_watch.csv>
+ */
+
+import { readFile } from 'fs/promises';
+import prisma from '../src/lib/prisma';
+import { referenceIntegrityService } from '../src/services/citation/reference-integrity.service';
+
+async function main() {
+  const csvPath = process.argv[2];
+  if (!csvPath) {
+    console.error('Usage: npx tsx scripts/import-retraction-watch.ts <path/to/retraction_watch.csv>');
+    process.exit(1);
+  }
+
+  console.log('\n=== Retraction Watch Import ===');
+  console.log(`Reading ${csvPath}`);
+
+  try {
+    const csv = await readFile(csvPath, 'utf8');
+    const { imported, skipped } = await referenceIntegrityService.importRetractionWatch(csv);
+
+    console.log(`Records imported: ${imported}`);
+    console.log(`Rows skipped (no DOI/PMID, or reinstatement): ${skipped}`);
+  } catch (error) {
+    console.error('Import failed:', error);
+    process.exit(1);
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main();
@@ -1,9 +1,11 @@
 export interface RemediationConfig {
   colorContrastAutoFix: boolean;
+  latexImageConversion: boolean;
 }
 
 const defaultConfig: RemediationConfig = {
   colorContrastAutoFix: true,
+  latexImageConversion: false,
 };
 
 let currentConfig: RemediationConfig = { ...defaultConfig };
@@ -25,3 +27,7 @@ export function resetRemediationConfig(): RemediationConfig {
 export function isColorContrastAutoFixEnabled(): boolean {
   return currentConfig.colorContrastAutoFix;
 }
+
+export function isLatexImageConversionEnabled(): boolean {
+  return currentConfig.latexImageConversion;
+}
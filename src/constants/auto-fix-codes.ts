@@ -12,6 +12,11 @@ export const AUTO_FIXABLE_ISSUE_CODES = new Set([
   // which does not satisfy ACE validation — must be treated as manual
   'EPUB-NAV-001',
   'EPUB-FIG-001',
+  'EPUB-MATH-001',
+  'EPUB-MATH-003',
+  'FXL-VIEWPORT-MISSING',
+  'FXL-VIEWPORT-INVALID',
+  'FXL-SUMMARY-CAVEAT',
 ]);
 
 export const MODIFICATION_TYPE_TO_ISSUE_CODE: Record<string, string> = {
@@ -27,4 +32,9 @@ export const MODIFICATION_TYPE_TO_ISSUE_CODE: Record<string, string> = {
   'add_aria_landmarks': 'EPUB-STRUCT-004',
   'add_skip_navigation': 'EPUB-NAV-001',
   'add_figure_structure': 'EPUB-FIG-001',
+  'add_math_alttext': 'EPUB-MATH-001',
+  'convert_latex_images': 'EPUB-MATH-002',
+  'declare_math_features': 'EPUB-MATH-003',
+  'add_fxl_viewport': 'FXL-VIEWPORT-MISSING',
+  'add_fxl_summary_caveat': 'FXL-SUMMARY-CAVEAT',
 };
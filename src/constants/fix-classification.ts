@@ -1,7 +1,11 @@
-import { isColorContrastAutoFixEnabled } from '../config/remediation-config';
+import { isColorContrastAutoFixEnabled, isLatexImageConversionEnabled } from '../config/remediation-config';
 
 const COLOR_CONTRAST_CODES = ['COLOR-CONTRAST', 'EPUB-CONTRAST-001'];
 
+// Equation images are only auto-fixable by converting LaTeX alt text to
+// MathML, which publishers opt into
+const LATEX_IMAGE_CODE = 'EPUB-MATH-002';
+
 const BASE_AUTO_FIXABLE_CODES = new Set([
   'EPUB-META-001',
   'EPUB-META-002',
@@ -14,6 +18,10 @@ const BASE_AUTO_FIXABLE_CODES = new Set([
   // EPUB-STRUCT-004 excluded: landmark is unreliably placed on cover/front-matter pages
   // and does not consistently satisfy ACE re-audit — classify as manual
   'EPUB-FIG-001',
+  // MathML alttext is generated from the markup; the OPF declarations follow
+  // from what the content contains
+  'EPUB-MATH-001',
+  'EPUB-MATH-003',
   // ACE metadata codes - now auto-fixable
   'METADATA-ACCESSMODE',
   'METADATA-ACCESSMODESUFFICIENT',
@@ -47,6 +55,11 @@ const BASE_AUTO_FIXABLE_CODES = new Set([
   'PRH-ARIA-APPENDIX-ROLE-MISSING',
   'PRH-BODY-HAS-ARIA',
   'PRH-PAGEBREAK-MALFORMED',
+  // Fixed-layout profile — viewport + summary caveat only touch <head> / OPF
+  // metadata, so they are safe on pre-paginated pages.
+  'FXL-VIEWPORT-MISSING',
+  'FXL-VIEWPORT-INVALID',
+  'FXL-SUMMARY-CAVEAT',
   // PRH-SPINE-* codes are detect-only in PR2 — spine reordering is risky
   // enough that we want operator review before mutating spine entries.
   // PRH-NAV-* codes are detect-only in PR3 — nav-doc structure changes
@@ -62,6 +75,9 @@ export function getAutoFixableCodes(): Set<string> {
   if (isColorContrastAutoFixEnabled()) {
     COLOR_CONTRAST_CODES.forEach(code => codes.add(code));
   }
+  if (isLatexImageConversionEnabled()) {
+    codes.add(LATEX_IMAGE_CODE);
+  }
   return codes;
 }
 
@@ -0,0 +1,93 @@
+/**
+ * Registry of fixed-layout (pre-paginated) EPUB issue codes, plus the
+ * reflowable auto-fixes that must not run on fixed-layout content.
+ *
+ * Convention: `FXL-<AREA>-<CHECK>`. Severities use the same vocabulary as
+ * the rest of the audit pipeline. Codes are emitted by the validators in
+ * `services/epub/profiles/fixed-layout`, which only run when the package
+ * (or individual spine items) declare `rendition:layout pre-paginated`.
+ */
+
+import type { FixType } from './fix-classification';
+
+export type FixedLayoutIssueSeverity = 'critical' | 'serious' | 'moderate' | 'minor';
+
+export interface FixedLayoutIssueDefinition {
+  code: string;
+  severity: FixedLayoutIssueSeverity;
+  /** WCAG criteria this maps to. Empty when the rule comes from the EPUB spec only. */
+  wcag: string[];
+  /** Fix mode the auto-remediation pipeline should treat this as. */
+  fixType: FixType;
+  /** Short human-readable summary used in the UI / logs. */
+  summary: string;
+}
+
+export const FIXED_LAYOUT_ISSUE_CODES = {
+  'FXL-VIEWPORT-MISSING': {
+    code: 'FXL-VIEWPORT-MISSING',
+    severity: 'serious',
+    wcag: [],
+    fixType: 'auto',
+    summary: 'Pre-paginated content documents must declare their dimensions in a viewport meta tag',
+  },
+  'FXL-VIEWPORT-INVALID': {
+    code: 'FXL-VIEWPORT-INVALID',
+    severity: 'serious',
+    wcag: [],
+    fixType: 'auto',
+    summary: 'Viewport meta tag must give a numeric width and height',
+  },
+  'FXL-TEXT-IN-IMAGE': {
+    code: 'FXL-TEXT-IN-IMAGE',
+    severity: 'serious',
+    wcag: ['1.1.1', '1.4.5'],
+    fixType: 'manual',
+    summary: 'Page text exists only inside an image — it cannot be read aloud, searched or restyled',
+  },
+  'FXL-READING-ORDER': {
+    code: 'FXL-READING-ORDER',
+    severity: 'moderate',
+    wcag: ['1.3.2'],
+    fixType: 'manual',
+    summary: 'Positioned text blocks appear in a different order in the markup than on the page',
+  },
+  'FXL-SPREAD-ORDER': {
+    code: 'FXL-SPREAD-ORDER',
+    severity: 'moderate',
+    wcag: ['1.3.2'],
+    fixType: 'manual',
+    summary: 'Spine page-spread properties do not pair pages into spreads in reading order',
+  },
+  'FXL-SUMMARY-CAVEAT': {
+    code: 'FXL-SUMMARY-CAVEAT',
+    severity: 'moderate',
+    wcag: [],
+    fixType: 'auto',
+    summary: 'schema:accessibilitySummary must tell readers the book is fixed layout and what that limits',
+  },
+} satisfies Record<string, FixedLayoutIssueDefinition>;
+
+export type FixedLayoutIssueCode = keyof typeof FIXED_LAYOUT_ISSUE_CODES;
+
+/** Type-safe lookup. Returns undefined if `code` is not a registered fixed-layout code. */
+export function getFixedLayoutIssueDefinition(code: string): FixedLayoutIssueDefinition | undefined {
+  return (FIXED_LAYOUT_ISSUE_CODES as Record<string, FixedLayoutIssueDefinition>)[code];
+}
+
+/**
+ * Reflowable auto-fixes that rewrite markup a fixed-layout page depends on
+ * for its rendering. On pre-paginated books these are downgraded to manual
+ * with the reason shown to the operator.
+ */
+export const FIXED_LAYOUT_MANUAL_CODES: Record<string, string> = {
+  'EPUB-STRUCT-003': 'Changing heading levels restyles text positioned on a fixed page',
+  'EPUB-STRUCT-004': 'Wrapping page content in a main landmark can break absolute positioning',
+  'EPUB-NAV-001': 'A skip link inserted into a fixed page overlays the artwork',
+  'EPUB-FIG-001': 'Wrapping images in figure elements changes their position on the page',
+  'COLOR-CONTRAST': 'Text colour on a fixed page is designed against its artwork; review in context',
+  'EPUB-CONTRAST-001': 'Text colour on a fixed page is designed against its artwork; review in context',
+  'PRH-MARKUP-INLINE-STYLE': 'Inline styles position text on fixed pages and must be kept',
+  'PRH-MARKUP-DEPRECATED-TAG': 'Replacing presentational tags can move text on a fixed page',
+  'PRH-BODY-HAS-ARIA': 'Moving body attributes can change the page box of a fixed page',
+};
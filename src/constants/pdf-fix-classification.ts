@@ -16,6 +16,11 @@ export const AUTO_FIXABLE_CODES = new Set([
   'MATTERHORN-01-001',      // PDF not marked for accessibility (Marked flag)
   'MATTERHORN-01-002',      // DisplayDocTitle not set
   'MATTERHORN-01-005',      // Suspects flag not set correctly
+
+  // Bookmarks - outline generated from headings or heading zones
+  'BOOKMARK-MISSING',       // No bookmarks at all
+  'BOOKMARK-INSUFFICIENT',  // Too few bookmarks for document length
+  'BOOKMARK-GENERIC-TEXT',  // Generic bookmark titles
 ]);
 
 /**
@@ -39,6 +44,10 @@ export const QUICK_FIXABLE_CODES = new Set<string>([
   'AI-ALT-TEXT',            // AI-generated alt text for figures
   'AI-TABLE-SUMMARY',       // AI-generated table summary
   'AI-LANGUAGE',            // AI-detected document language
+
+  // Form fields - tooltip proposed from nearby label text, applied after review
+  'FORM-FIELD-NO-LABEL',        // No tooltip and a generic field name
+  'FORM-FIELD-MISSING-TOOLTIP', // Missing or generic tooltip
 ]);
 
 /**
@@ -1,5 +1,6 @@
 import { Request, Response, NextFunction } from 'express';
 import { acrGeneratorService, AcrGenerationOptions, AcrDocument, AcrCriterion, AcrEdition, ACR_EDITIONS } from '../services/acr/acr-generator.service';
+import { WCAG_VERSIONS } from '../services/validation/wcag-criteria.service';
 import { conformanceEngineService, ConformanceLevel, ValidationResult } from '../services/acr/conformance-engine.service';
 import { 
   generateMethodologySection, 
@@ -10,7 +11,8 @@ import {
 } from '../services/acr/attribution.service';
 import { humanVerificationService } from '../services/acr/human-verification.service';
 import { remarksGeneratorService, RemarksGenerationRequest } from '../services/acr/remarks-generator.service';
-import { acrExporterService, ExportOptions, ExportFormat } from '../services/acr/acr-exporter.service';
+import { acrExporterService, ExportOptions, ExportFormat, EXPORT_FORMATS } from '../services/acr/acr-exporter.service';
+import { openAcrService } from '../services/acr/openacr.service';
 import { acrVersioningService } from '../services/acr/acr-versioning.service';
 import { acrAnalysisService } from '../services/acr/acr-analysis.service';
 import { acrService } from '../services/acr.service';
@@ -21,9 +23,12 @@ import {
   IncompleteBatchError,
   InvalidAcrOptionsError 
 } from '../types/batch-acr.types';
+import { getProfileDefinition } from '../services/epub/profiles/profile-registry';
+import { loadTenantProfiles } from '../services/epub/profiles/profile-config.service';
 import { z } from 'zod';
 import prisma from '../lib/prisma';
 import { logger } from '../lib/logger';
+import { AppError } from '../utils/app-error';
 
 const ProductInfoSchema = z.object({
   name: z.string().min(1),
@@ -38,6 +43,7 @@ const GenerateAcrSchema = z.object({
   jobId: z.string().uuid(),
   options: z.object({
     edition: z.enum(ACR_EDITIONS).optional(),
+    wcagVersion: z.enum(WCAG_VERSIONS).optional(),
     includeAppendix: z.boolean().optional(),
     includeMethodology: z.boolean().optional(),
     productInfo: ProductInfoSchema
@@ -51,6 +57,7 @@ export class AcrController {
       
       const options: AcrGenerationOptions = {
         edition: validatedData.options.edition,
+        wcagVersion: validatedData.options.wcagVersion,
         includeAppendix: validatedData.options.includeAppendix,
         includeMethodology: validatedData.options.includeMethodology,
         productInfo: {
@@ -71,6 +78,29 @@ export class AcrController {
         });
       }
 
+      // Fixed-layout books get fixed-layout remarks; the audit records the
+      // rendition on the job output.
+      const auditJob = await prisma.job.findUnique({
+        where: { id: validatedData.jobId },
+        select: { output: true, tenantId: true },
+      });
+      const auditOutput = auditJob?.output as {
+        renditionLayout?: unknown;
+        publisherProfile?: { publisher?: unknown; confidence?: unknown };
+      } | null;
+      const renditionLayout = auditOutput?.renditionLayout;
+      if (renditionLayout === 'pre-paginated' || renditionLayout === 'reflowable') {
+        options.renditionLayout = renditionLayout;
+      }
+
+      // Without an explicit edition, a confidently detected publisher
+      // profile picks the VPAT template it registers.
+      const detected = auditOutput?.publisherProfile;
+      if (!options.edition && auditJob && typeof detected?.publisher === 'string' && detected.confidence !== 'low') {
+        const profile = getProfileDefinition(detected.publisher, await loadTenantProfiles(auditJob.tenantId));
+        if (profile) options.edition = profile.acrEdition;
+      }
+
       const acrDocument = await acrGeneratorService.generateAcr(
         validatedData.jobId,
         options,
@@ -137,7 +167,16 @@ export class AcrController {
         return;
       }
 
-      const details = await acrGeneratorService.getEditionDetails(edition);
+      const wcagVersion = z.enum(WCAG_VERSIONS).optional().safeParse(req.query.wcagVersion);
+      if (!wcagVersion.success) {
+        res.status(400).json({
+          success: false,
+          error: { message: `Invalid wcagVersion. Valid options: ${WCAG_VERSIONS.join(', ')}` }
+        });
+        return;
+      }
+
+      const details = await acrGeneratorService.getEditionDetails(edition, wcagVersion.data);
 
       if (!details) {
         res.status(404).json({
@@ -168,7 +207,16 @@ export class AcrController {
         return;
       }
 
-      const acr = await conformanceEngineService.buildAcrFromJob(jobId);
+      const wcagVersion = z.enum(WCAG_VERSIONS).optional().safeParse(req.query.wcagVersion);
+      if (!wcagVersion.success) {
+        res.status(400).json({
+          success: false,
+          error: { message: `Invalid wcagVersion. Valid options: ${WCAG_VERSIONS.join(', ')}` }
+        });
+        return;
+      }
+
+      const acr = await conformanceEngineService.buildAcrFromJob(jobId, wcagVersion.data);
 
       if (!acr) {
         res.status(404).json({
@@ -261,7 +309,8 @@ export class AcrController {
           totalCount: z.number().optional(),
           details: z.string().optional()
         })),
-        conformanceLevel: z.enum(['Supports', 'Partially Supports', 'Does Not Support', 'Not Applicable'])
+        conformanceLevel: z.enum(['Supports', 'Partially Supports', 'Does Not Support', 'Not Applicable']),
+        wcagVersion: z.enum(WCAG_VERSIONS).optional()
       });
 
       const validatedData = GenerateRemarksSchema.parse(req.body);
@@ -270,7 +319,8 @@ export class AcrController {
         criterionId: validatedData.criterionId,
         wcagCriterion: validatedData.wcagCriterion,
         validationResults: validatedData.validationResults as ValidationResult[],
-        conformanceLevel: validatedData.conformanceLevel as ConformanceLevel
+        conformanceLevel: validatedData.conformanceLevel as ConformanceLevel,
+        wcagVersion: validatedData.wcagVersion
       };
 
       const generatedRemarks = await remarksGeneratorService.generateRemarks(request);
@@ -300,7 +350,7 @@ export class AcrController {
   async exportAcr(req: Request, res: Response, next: NextFunction) {
     try {
       const ExportOptionsSchema = z.object({
-        format: z.enum(['docx', 'pdf', 'html']),
+        format: z.enum(EXPORT_FORMATS),
         includeMethodology: z.boolean().default(true),
         includeAttributionTags: z.boolean().default(true),
         includeLegalDisclaimer: z.boolean().default(true),
@@ -320,6 +370,7 @@ export class AcrController {
         options: ExportOptionsSchema,
         acrData: z.object({
           edition: z.enum(ACR_EDITIONS).optional(),
+          wcagVersion: z.enum(WCAG_VERSIONS).optional(),
           productInfo: ProductInfoSchema.partial()
         }).optional()
       });
@@ -515,7 +566,12 @@ export class AcrController {
                   aiModelInfo: `${AI_MODEL_INFO.name} (${AI_MODEL_INFO.purpose})`,
                   disclaimer: LEGAL_DISCLAIMER
                 } : undefined,
-                footerDisclaimer: LEGAL_DISCLAIMER
+                footerDisclaimer: LEGAL_DISCLAIMER,
+                wcagVersion: acrGeneratorService.getJobWcagVersion(
+                  acrJobWithCriteria.edition as AcrEdition,
+                  validatedData.acrData?.wcagVersion,
+                  acrJobWithCriteria.wcagVersion
+                )
               };
               
               const exportResultFallback = await acrExporterService.exportAcr(acrDocumentFallback, exportOptions);
@@ -685,7 +741,8 @@ export class AcrController {
           aiModelInfo: `${AI_MODEL_INFO.name} (${AI_MODEL_INFO.purpose})`,
           disclaimer: LEGAL_DISCLAIMER
         } : undefined,
-        footerDisclaimer: LEGAL_DISCLAIMER
+        footerDisclaimer: LEGAL_DISCLAIMER,
+        wcagVersion: acrGeneratorService.getJobWcagVersion(edition, validatedData.acrData?.wcagVersion, acrJob?.wcagVersion)
       };
 
       // 8. Export
@@ -899,6 +956,7 @@ export class AcrController {
         reason: z.string().optional(),
         acrData: z.object({
           edition: z.enum(ACR_EDITIONS).optional(),
+          wcagVersion: z.enum(WCAG_VERSIONS).optional(),
           productInfo: ProductInfoSchema
         }).optional()
       });
@@ -921,6 +979,7 @@ export class AcrController {
 
       const acrGenerationOptions = {
         edition: validatedData.acrData?.edition || 'VPAT2.5-INT' as const,
+        wcagVersion: validatedData.acrData?.wcagVersion,
         includeMethodology: true,
         productInfo: validatedData.acrData?.productInfo || {
           name: 'Unnamed Product',
@@ -1076,6 +1135,38 @@ export class AcrController {
     }
   }
 
+  /**
+   * POST /acr/import/openacr
+   * Imports a third-party OpenACR report (YAML or JSON) as a new ACR for
+   * review. Accepts a `file` upload or the report text as `content`.
+   */
+  async importOpenAcr(req: Request, res: Response, next: NextFunction) {
+    try {
+      const userId = req.user?.id;
+      const tenantId = req.user?.tenantId;
+      if (!userId || !tenantId) throw AppError.unauthorized('Authentication required');
+
+      const content = req.file
+        ? req.file.buffer.toString('utf-8')
+        : typeof req.body?.content === 'string' ? req.body.content : undefined;
+      if (!content?.trim()) {
+        throw AppError.badRequest('An OpenACR file or "content" string is required');
+      }
+
+      const result = await openAcrService.importReport(content, tenantId, userId);
+
+      res.status(201).json({
+        success: true,
+        data: result,
+        message: result.skipped.length > 0
+          ? `Imported ${result.criteriaCount} criteria; ${result.skipped.length} criteria outside the ${result.edition} edition were skipped`
+          : `Imported ${result.criteriaCount} criteria`
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   async createAnalysis(req: Request, res: Response, next: NextFunction) {
     try {
       const userId = req.user?.id;
@@ -1038,6 +1038,7 @@ class BatchController {
       'EPUB-SEM': '2.4.4',      // Link Purpose (default for semantic issues)
       'EPUB-NAV': '2.4.1',      // Bypass blocks
       'EPUB-FIG': '1.1.1',      // Non-text content (figures)
+      'EPUB-MATH': '1.1.1',     // Non-text content (math)
       'METADATA': '3.1.1',      // Language
       'OPF': '4.1.1',           // Parsing
       'RSC': '4.1.1',           // Resource issues
@@ -5,6 +5,7 @@
  * Endpoints:
  * - GET /document/:documentId/preview - Preview changes
  * - GET /document/:documentId/export - Export modified DOCX
+ * - GET /document/:documentId/references/export - Export reference list (BibTeX / RIS / CSL-JSON)
  * - GET /document/:documentId/export-debug - Debug export (dev only)
  * - POST /document/:documentId/debug-style-conversion - Debug style conversion (dev only)
  */
@@ -16,6 +17,8 @@ import { docxProcessorService } from '../../services/citation/docx-processor.ser
 import { citationStorageService } from '../../services/citation/citation-storage.service';
 import { normalizeStyleCode, getFormattedColumn } from '../../services/citation/reference-list.service';
 import { resolveDocumentSimple } from './document-resolver';
+import { bibliographyIoService, BIBLIOGRAPHY_FORMATS } from '../../services/citation/bibliography-io';
+import type { ExportDocumentQuery, ExportReferencesQuery } from '../../schemas/citation.schemas';
 import { buildRefIdToNumberMap, formatCitationWithChanges, citationNumbersMatch, buildFormattedReference } from '../../utils/citation.utils';
 
 export class CitationExportController {
@@ -256,6 +259,7 @@ export class CitationExportController {
     try {
       const { documentId } = req.params;
       const { tenantId } = req.user!;
+      const { fieldCodes } = req.query as unknown as ExportDocumentQuery;
 
       logger.info(`[CitationExport] Exporting document ${documentId}`);
 
@@ -679,7 +683,7 @@ export class CitationExportController {
       // Apply changes using docx processor
       let modifiedBuffer: Buffer;
       try {
-        modifiedBuffer = await docxProcessorService.applyChanges(originalBuffer, changesToApply);
+        modifiedBuffer = await docxProcessorService.applyChanges(originalBuffer, changesToApply, fieldCodes);
       } catch (applyError) {
         logger.error('[CitationExport] Failed to apply changes:', applyError);
         // Return original document if modification fails
@@ -701,6 +705,43 @@ export class CitationExportController {
     }
   }
 
+  /**
+   * GET /api/v1/citation-management/document/:documentId/references/export?format=bibtex|ris|csl-json
+   * Export the reference list for use in reference managers
+   *
+   * NOTE: The :documentId param can be either a document ID or a job ID.
+   */
+  async exportReferences(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { documentId } = req.params;
+      const { tenantId } = req.user!;
+      const { format } = req.query as unknown as ExportReferencesQuery;
+
+      const document = await resolveDocumentSimple(documentId, tenantId);
+      if (!document) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Document not found' }
+        });
+        return;
+      }
+
+      const result = await bibliographyIoService.exportReferences(document.id, format);
+      logger.info(`[CitationExport] Exported ${result.count} references from ${document.id} as ${format}`);
+
+      const { extension, contentType } = BIBLIOGRAPHY_FORMATS[format];
+      const baseName = document.originalName.replace(/\.docx$/i, '');
+      const exportName = `${baseName}_references.${extension}`;
+
+      res.setHeader('Content-Type', `${contentType}; charset=utf-8`);
+      res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(exportName)}"`);
+      res.send(result.content);
+    } catch (error) {
+      logger.error('[CitationExport] Reference export failed:', error);
+      next(error);
+    }
+  }
+
   /**
    * GET /api/v1/citation-management/document/:documentId/export-debug
    * Debug endpoint to check document state before export (DEVELOPMENT ONLY)
@@ -7,6 +7,7 @@
  * - DELETE /document/:documentId/reference/:referenceId - Delete reference
  * - PATCH /document/:documentId/reference/:referenceId - Edit reference
  * - POST /document/:documentId/resequence - Resequence by appearance
+ * - POST /document/:documentId/references/import - Import BibTeX / RIS / CSL-JSON
  */
 
 import { randomUUID } from 'crypto';
@@ -21,7 +22,8 @@ import { logger } from '../../lib/logger';
 import { referenceReorderingService } from '../../services/citation/reference-reordering.service';
 import { referenceListService, normalizeStyleCode, getFormattedColumn } from '../../services/citation/reference-list.service';
 import { crossRefService, type EnrichedMetadata } from '../../services/citation/crossref.service';
-import type { EditReferenceBody } from '../../schemas/citation.schemas';
+import { bibliographyIoService } from '../../services/citation/bibliography-io';
+import type { EditReferenceBody, ImportReferencesBody } from '../../schemas/citation.schemas';
 import { resolveDocumentSimple } from './document-resolver';
 import { extractCitationNumbers, buildFormattedReference } from '../../utils/citation.utils';
 import { isAuthenticated } from '../../utils/auth';
@@ -1068,100 +1070,13 @@ export class CitationReferenceController {
       // On failure, use deterministic fallback so the formatted column always gets updated
       let formatResult: { formatted: string } | null = null;
       try {
-        formatResult = await referenceListService.formatReference(entryForFormatting, styleCode);
+        formatResult = await referenceListService.formatReference(entryForFormatting, styleCode, tenantId);
         logger.info(`[CitationReference] Format result received successfully`);
-
-        // POST-PROCESSING: AI (Claude Haiku) often drops middle initials when formatting authors.
-        // e.g., "Emily M. Bender" → "Bender, E." instead of "Bender, E. M."
-        // Fix: For initial-based styles (APA, IEEE), replace the author portion in the AI output
-        // with a deterministically built author string that preserves ALL initials.
-        // This runs on EVERY edit (not just author changes) because the AI reformats the entire
-        // reference and can drop initials even on title-only edits.
-        // Skip for full-name styles (Chicago, MLA) to avoid breaking their formatting.
-        const initialBasedStyles = ['apa7', 'ieee'];
-        if (formatResult && initialBasedStyles.includes(styleCode)) {
-          const parsedAuthors = parseAuthorsToArray(updatedReference.authors);
-          if (parsedAuthors.length > 0) {
-            // Build correct author string with all initials preserved (APA/IEEE style: "Last, F. M.")
-            const correctAuthorParts = parsedAuthors.map(a => {
-              const last = a.lastName || 'Unknown';
-              const first = a.firstName || '';
-              const initials = first ? first.split(/[\s.]+/).filter(p => p.length > 0)
-                .map(p => p.length === 1 ? `${p}.` : `${p.charAt(0)}.`).join(' ') : '';
-              return initials ? `${last}, ${initials}` : last;
-            });
-            // Build the correct author string based on style conventions
-            let correctAuthorStr: string;
-            if (styleCode === 'ieee') {
-              // IEEE: comma-separated, no ampersand (e.g., "F. M. Last, F. Last2")
-              // IEEE puts initials BEFORE last name
-              const ieeeParts = parsedAuthors.map(a => {
-                const last = a.lastName || 'Unknown';
-                const first = a.firstName || '';
-                const initials = first ? first.split(/[\s.]+/).filter(p => p.length > 0)
-                  .map(p => p.length === 1 ? `${p}.` : `${p.charAt(0)}.`).join(' ') : '';
-                return initials ? `${initials} ${last}` : last;
-              });
-              correctAuthorStr = ieeeParts.join(', ');
-            } else {
-              // APA: "Last, F. M." with "&" before the last author
-              if (correctAuthorParts.length === 1) {
-                correctAuthorStr = correctAuthorParts[0];
-              } else if (correctAuthorParts.length === 2) {
-                correctAuthorStr = `${correctAuthorParts[0]}, & ${correctAuthorParts[1]}`;
-              } else {
-                const allButLast = correctAuthorParts.slice(0, -1).join(', ');
-                correctAuthorStr = `${allButLast}, & ${correctAuthorParts[correctAuthorParts.length - 1]}`;
-              }
-            }
-
-            // Replace author portion in the formatted output
-            const formatted = formatResult.formatted;
-            if (styleCode === 'ieee') {
-              // IEEE pattern: "Authors, "Title," ..."
-              const titleMatch = formatted.match(/,\s*"/);
-              if (titleMatch && titleMatch.index !== undefined) {
-                const oldAuthorPortion = formatted.substring(0, titleMatch.index);
-                if (oldAuthorPortion !== correctAuthorStr) {
-                  formatResult.formatted = correctAuthorStr + formatted.substring(titleMatch.index);
-                  logger.info(`[CitationReference] Post-processed authors for ${styleCode}: "${oldAuthorPortion}" → "${correctAuthorStr}"`);
-                }
-              }
-            } else {
-              // APA pattern: "Authors (Year). Title..."
-              const yearMatch = formatted.match(/\s*\(\d{4}[a-z]?\)/);
-              if (yearMatch && yearMatch.index !== undefined) {
-                const oldAuthorPortion = formatted.substring(0, yearMatch.index);
-                if (oldAuthorPortion !== correctAuthorStr) {
-                  formatResult.formatted = correctAuthorStr + formatted.substring(yearMatch.index);
-                  logger.info(`[CitationReference] Post-processed authors for ${styleCode}: "${oldAuthorPortion}" → "${correctAuthorStr}"`);
-                }
-              }
-            }
-          }
-        }
       } catch (formatError) {
         logger.error(`[CitationReference] formatReference failed - using deterministic fallback:`, formatError instanceof Error ? formatError : undefined);
       }
 
-      // Validate AI output: if the year field was updated but the AI text doesn't
-      // contain the correct year, the AI likely picked up a stale year from the
-      // journal/conference name. Fall back to deterministic in that case.
-      if (formatResult && updatedReference.year) {
-        const yearStr = updatedReference.year;
-        // Check the publication year portion (not embedded in journal names).
-        // Vancouver: "Journal. YYYY;", APA: "(YYYY).", Chicago: "(YYYY)", IEEE: ", YYYY."
-        const yearInText = formatResult.formatted.includes(`. ${yearStr}`) ||
-                           formatResult.formatted.includes(`(${yearStr})`) ||
-                           formatResult.formatted.includes(`, ${yearStr}.`) ||
-                           formatResult.formatted.includes(`; ${yearStr}`);
-        if (!yearInText) {
-          logger.warn(`[CitationReference] AI formatted text missing year ${yearStr} — overriding with deterministic fallback`);
-          formatResult = null;
-        }
-      }
-
-      // CRITICAL: If AI formatting failed or was invalidated, build deterministic formatted text
+      // CRITICAL: If formatting failed, build deterministic formatted text
       // so export can detect changes. Uses the same shared utility as the export controller.
       if (!formatResult) {
         const fallbackText = buildFormattedReference({
@@ -1216,7 +1131,7 @@ export class CitationReferenceController {
             enrichmentSource: reference.enrichmentSource,
             enrichmentConfidence: reference.enrichmentConfidence
           };
-          const oldFormatResult = await referenceListService.formatReference(oldEntryForFormatting, styleCode);
+          const oldFormatResult = await referenceListService.formatReference(oldEntryForFormatting, styleCode, tenantId);
           oldFormattedText = oldFormatResult.formatted;
           logger.info(`[CitationReference] Generated old formatted text: "${oldFormattedText?.substring(0, 80)}..."`);
         } catch {
@@ -2746,6 +2661,51 @@ export class CitationReferenceController {
     }
   }
 
+  // ============================================
+  // Reference Import (BibTeX / RIS / CSL-JSON)
+  // ============================================
+
+  /**
+   * POST /api/v1/citation-management/document/:documentId/references/import
+   * Import a BibTeX, RIS or CSL-JSON file into the reference list
+   *
+   * Imported entries are merged with (or replace) the existing reference list
+   * and linked to in-text citations that are not yet linked.
+   *
+   * NOTE: The :documentId param can be either a document ID or a job ID.
+   */
+  async importReferences(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!isAuthenticated(req)) {
+        res.status(401).json({ success: false, error: { code: 'UNAUTHORIZED', message: 'Authentication required' } });
+        return;
+      }
+      const { documentId } = req.params;
+      const { tenantId } = req.user;
+      const { content, format, mode, fileName } = req.body as ImportReferencesBody;
+
+      const document = await resolveDocumentSimple(documentId, tenantId);
+      if (!document) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Document not found' }
+        });
+        return;
+      }
+
+      logger.info(`[CitationReference] Importing references into document ${document.id}`);
+
+      const result = await bibliographyIoService.importReferences(document.id, content, { format, mode, fileName });
+
+      res.json({
+        success: true,
+        data: result
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
   /**
    * Compare stored reference fields with CrossRef metadata.
    * Returns array of discrepancies (field name, current value, correct value).
@@ -5,7 +5,10 @@
  * Endpoints:
  * - POST /document/:documentId/convert-style - Convert citation style
  * - POST /document/:documentId/validate-dois - Validate DOIs
+ * - GET /document/:documentId/bibliography - Format references with a CSL style
  * - GET /styles - Get supported styles
+ * - POST /styles/csl - Upload a tenant CSL style
+ * - DELETE /styles/csl/:code - Delete a tenant CSL style
  */
 
 import { Request, Response, NextFunction } from 'express';
@@ -14,6 +17,13 @@ import { logger } from '../../lib/logger';
 import { CitationStyle, aiFormatConverterService } from '../../services/citation/ai-format-converter.service';
 import { ReferenceEntry, InTextCitation } from '../../services/citation/ai-citation-detector.service';
 import { doiValidationService } from '../../services/citation/doi-validation.service';
+import {
+  cslFormatterService,
+  referenceEntryToCslItem,
+  type CslCitationCluster,
+  type TenantCslStyle,
+} from '../../services/citation/csl';
+import type { Author } from '../../services/citation/reference-list.service';
 import { resolveDocumentSimple } from './document-resolver';
 import { buildRefIdToNumberMap, getRefNumber, extractCitationNumbers } from '../../utils/citation.utils';
 
@@ -580,11 +590,84 @@ export class CitationStyleController {
     }
   }
 
+  /**
+   * GET /api/v1/citation-management/document/:documentId/bibliography
+   * Format the reference list and in-text citations with a CSL style
+   * (built-in style or tenant style code). Deterministic, no AI call.
+   *
+   * NOTE: The :documentId param can be either a document ID or a job ID.
+   */
+  async formatBibliography(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { documentId } = req.params;
+      const { style } = req.query as { style: string };
+      const { tenantId } = req.user!;
+
+      const baseDoc = await resolveDocumentSimple(documentId, tenantId);
+
+      if (!baseDoc) {
+        res.status(404).json({
+          success: false,
+          error: { code: 'NOT_FOUND', message: 'Document not found' }
+        });
+        return;
+      }
+
+      const [entries, citations] = await Promise.all([
+        prisma.referenceListEntry.findMany({
+          where: { documentId: baseDoc.id },
+          orderBy: { sortKey: 'asc' }
+        }),
+        prisma.citation.findMany({
+          where: { documentId: baseDoc.id },
+          include: { referenceListEntries: true },
+          orderBy: [{ paragraphIndex: 'asc' }, { startOffset: 'asc' }]
+        })
+      ]);
+
+      const items = entries.map(entry => referenceEntryToCslItem({
+        ...entry,
+        authors: Array.isArray(entry.authors) ? entry.authors as unknown as Array<Author | string> : []
+      }));
+      const clusters: CslCitationCluster[] = citations
+        .filter(citation => citation.referenceListEntries.length > 0)
+        .map(citation => ({
+          id: citation.id,
+          items: citation.referenceListEntries.map(link => ({ id: link.referenceListEntryId }))
+        }));
+
+      const bibliography = await cslFormatterService.formatBibliography(style, items, { tenantId, clusters });
+      const formattedCitations = await cslFormatterService.formatCitations(style, items, clusters, { tenantId });
+
+      res.json({
+        success: true,
+        data: {
+          style,
+          bibliography,
+          citations: formattedCitations
+        }
+      });
+    } catch (error) {
+      logger.error('[CitationStyle] Format bibliography failed:', error);
+      next(error);
+    }
+  }
+
   /**
    * GET /api/v1/citation-management/styles
-   * Get list of supported citation styles
+   * Get list of supported citation styles, including the tenant's CSL styles
    */
-  async getStyles(_req: Request, res: Response): Promise<void> {
+  async getStyles(req: Request, res: Response): Promise<void> {
+    let customStyles: TenantCslStyle[] = [];
+    if (req.user?.tenantId) {
+      try {
+        customStyles = await cslFormatterService.listTenantStyles(req.user.tenantId);
+      } catch (error) {
+        // Built-in styles are still usable when tenant styles cannot be loaded
+        logger.warn('[CitationStyle] Failed to load tenant CSL styles:', error);
+      }
+    }
+
     res.json({
       success: true,
       data: {
@@ -596,10 +679,46 @@ export class CitationStyleController {
           { id: 'IEEE', name: 'IEEE', description: 'Institute of Electrical and Electronics Engineers' },
           { id: 'Harvard', name: 'Harvard', description: 'Author-date citation style' },
           { id: 'AMA', name: 'AMA 11th Edition', description: 'American Medical Association' }
-        ]
+        ],
+        customStyles
       }
     });
   }
+
+  /**
+   * POST /api/v1/citation-management/styles/csl
+   * Upload a CSL style for the tenant; re-uploading a style replaces it
+   */
+  async uploadCslStyle(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { xml, name } = req.body as { xml: string; name?: string };
+      const { tenantId } = req.user!;
+
+      const style = await cslFormatterService.uploadTenantStyle(tenantId, xml, name);
+
+      res.status(201).json({ success: true, data: style });
+    } catch (error) {
+      logger.error('[CitationStyle] CSL style upload failed:', error);
+      next(error);
+    }
+  }
+
+  /**
+   * DELETE /api/v1/citation-management/styles/csl/:code
+   * Delete one of the tenant's CSL styles
+   */
+  async deleteCslStyle(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      const { code } = req.params;
+      const { tenantId } = req.user!;
+
+      await cslFormatterService.deleteTenantStyle(tenantId, code);
+
+      res.json({ success: true, data: { code, deleted: true } });
+    } catch (error) {
+      next(error);
+    }
+  }
 }
 
 export const citationStyleController = new CitationStyleController();
@@ -20,6 +20,7 @@ import { s3Service } from '../../services/s3.service';
 import { aiCitationDetectorService } from '../../services/citation/ai-citation-detector.service';
 import { docxProcessorService } from '../../services/citation/docx-processor.service';
 import { citationStorageService } from '../../services/citation/citation-storage.service';
+import { bibliographyIoService } from '../../services/citation/bibliography-io';
 import { getCitationQueue, areQueuesAvailable, JOB_TYPES } from '../../queues';
 import { normalizeStyleCode, getFormattedColumn } from '../../services/citation/reference-list.service';
 import { normalizeSuperscripts } from '../../utils/unicode';
@@ -1450,6 +1451,10 @@ export class CitationUploadController {
         }
       }
 
+      // Reference manager fields (Zotero, Mendeley, EndNote) embed the cited works' metadata,
+      // which supersedes what was detected from the text
+      await this.applyReferenceManagerFields(documentId);
+
       if (progressCallback) {
         await progressCallback(90, 'Finalizing');
       }
@@ -1472,6 +1477,33 @@ export class CitationUploadController {
     }
   }
 
+  /**
+   * Apply Zotero / Mendeley / EndNote field data from the original DOCX to
+   * the detected references and citation links. Best effort: documents
+   * without reference manager fields are left as detected.
+   */
+  private async applyReferenceManagerFields(documentId: string): Promise<void> {
+    try {
+      const document = await prisma.editorialDocument.findUnique({
+        where: { id: documentId },
+        select: { storagePath: true, storageType: true }
+      });
+      if (!document?.storagePath) return;
+
+      const buffer = await citationStorageService.getFileBuffer(
+        document.storagePath,
+        document.storageType as 'S3' | 'LOCAL'
+      );
+      const fieldCitations = await docxProcessorService.extractReferenceManagerCitations(buffer);
+      if (fieldCitations.length === 0) return;
+
+      const result = await bibliographyIoService.importFieldCitations(documentId, fieldCitations);
+      logger.info(`[Citation Upload] Applied ${result.fieldCitations} reference manager citations (${result.updated} references updated, ${result.created} added, ${result.linkedCitations} citations linked)`);
+    } catch (error) {
+      logger.warn(`[Citation Upload] Failed to apply reference manager fields: ${error}`);
+    }
+  }
+
   /**
    * GET /api/v1/citation-management/jobs/recent
    * Get recent citation jobs for the current user
@@ -53,15 +53,20 @@ export const citationManagementController = {
   createCitationLinks: citationReferenceController.createCitationLinks.bind(citationReferenceController),
   resequenceByAppearance: citationReferenceController.resequenceByAppearance.bind(citationReferenceController),
   validateReference: citationReferenceController.validateReference.bind(citationReferenceController),
+  importReferences: citationReferenceController.importReferences.bind(citationReferenceController),
 
   // Style & DOI (citation-style.controller)
   convertStyle: citationStyleController.convertStyle.bind(citationStyleController),
   validateDOIs: citationStyleController.validateDOIs.bind(citationStyleController),
   getStyles: citationStyleController.getStyles.bind(citationStyleController),
+  formatBibliography: citationStyleController.formatBibliography.bind(citationStyleController),
+  uploadCslStyle: citationStyleController.uploadCslStyle.bind(citationStyleController),
+  deleteCslStyle: citationStyleController.deleteCslStyle.bind(citationStyleController),
 
   // Export & Preview (citation-export.controller)
   previewChanges: citationExportController.previewChanges.bind(citationExportController),
   exportDocument: citationExportController.exportDocument.bind(citationExportController),
+  exportReferences: citationExportController.exportReferences.bind(citationExportController),
   exportDebug: citationExportController.exportDebug.bind(citationExportController),
   debugStyleConversion: citationExportController.debugStyleConversion.bind(citationExportController),
 };
@@ -6,14 +6,26 @@ import { epubAuditService } from '../services/epub/epub-audit.service';
 import { remediationService } from '../services/epub/remediation.service';
 import { autoRemediationService } from '../services/epub/auto-remediation.service';
 import { fileStorageService } from '../services/storage/file-storage.service';
+import { loadJobEpub } from '../services/storage/epub-job-file';
 import { epubModifier } from '../services/epub/epub-modifier.service';
 import { epubComparisonService } from '../services/epub/epub-comparison.service';
 import { batchRemediationService } from '../services/epub/batch-remediation.service';
 import { epubExportService } from '../services/epub/epub-export.service';
 import { epubSpineService } from '../services/epub/epub-spine.service';
+import { epub3Upgrade } from '../services/epub/epub3-upgrade.service';
+import { mathmlRemediation } from '../services/epub/mathml-remediation.service';
+import { MODIFICATION_TYPE_TO_ISSUE_CODE } from '../constants/auto-fix-codes';
+import { isLatexImageConversionEnabled } from '../config/remediation-config';
+import {
+  pageListGenerator,
+  parsePageMap,
+  type PageBreakSourceType,
+  type PrintPage,
+} from '../services/epub/page-list-generator.service';
 import { s3Service } from '../services/s3.service';
 import prisma from '../lib/prisma';
 import { logger } from '../lib/logger';
+import { AppError } from '../utils/app-error';
 import { getAllSnapshots, clearSnapshots } from '../utils/issue-flow-logger';
 import { AuthenticatedRequest } from '../types/authenticated-request';
 import { ComparisonService, mapFixTypeToChangeType, extractWcagCriteria, extractWcagLevel } from '../services/comparison';
@@ -1335,6 +1347,322 @@ export const epubController = {
     }
   },
 
+  /**
+   * POST /epub/job/:jobId/page-list
+   * Multipart: `source` (print PDF or CSV page map), or body `pageMap` (CSV text).
+   * Optional body: pageBreakSource, reviewThreshold.
+   * Inserts print page breaks and the nav page-list; every break is returned
+   * with its alignment confidence for review.
+   */
+  async generatePageList(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { jobId } = req.params;
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+      }
+
+      const job = await prisma.job.findFirst({
+        where: { id: jobId, tenantId },
+      });
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          error: 'Job not found',
+        });
+      }
+
+      const { pageMap, pageBreakSource, reviewThreshold } = req.body as {
+        pageMap?: string;
+        pageBreakSource?: string;
+        reviewThreshold?: string | number;
+      };
+      const threshold = reviewThreshold !== undefined ? Number(reviewThreshold) : undefined;
+      if (threshold !== undefined && (!Number.isFinite(threshold) || threshold < 0 || threshold > 1)) {
+        return res.status(400).json({
+          success: false,
+          error: 'reviewThreshold must be a number between 0 and 1',
+        });
+      }
+
+      let pages: PrintPage[];
+      let source: PageBreakSourceType;
+      if (req.file && (req.file.mimetype === 'application/pdf' || /\.pdf$/i.test(req.file.originalname))) {
+        pages = await pageListGenerator.extractPrintPages(req.file.buffer, req.file.originalname);
+        source = 'pdf';
+      } else if (req.file || typeof pageMap === 'string') {
+        pages = parsePageMap(req.file ? req.file.buffer.toString('utf-8') : pageMap!);
+        source = 'page-map';
+      } else {
+        return res.status(400).json({
+          success: false,
+          error: 'A print PDF or CSV page map is required',
+        });
+      }
+
+      const epub = await loadJobEpub(job);
+      if (!epub) {
+        return res.status(404).json({
+          success: false,
+          error: 'EPUB file not found',
+        });
+      }
+      const { remediatedFileName } = epub;
+
+      const zip = await epubModifier.loadEPUB(epub.buffer);
+      const result = await pageListGenerator.generate(zip, pages, source, {
+        pageBreakSource,
+        reviewThreshold: threshold,
+      });
+
+      const modifiedBuffer = await epubModifier.saveEPUB(zip);
+      await fileStorageService.saveRemediatedFile(jobId, remediatedFileName, modifiedBuffer);
+      epubSpineService.clearCache(jobId);
+
+      for (const change of result.results.filter(r => r.success)) {
+        try {
+          await comparisonService.logChange({
+            jobId,
+            ruleId: 'EPUB-PAGE-001',
+            filePath: change.filePath,
+            changeType: mapFixTypeToChangeType('EPUB-PAGE-001'),
+            description: change.description,
+            afterContent: change.after,
+            severity: 'MAJOR',
+            wcagCriteria: extractWcagCriteria('EPUB-PAGE-001'),
+            wcagLevel: extractWcagLevel('EPUB-PAGE-001'),
+            appliedBy: req.user?.email || 'user',
+          });
+        } catch (logError) {
+          logger.error(`[PAGE-LIST] Failed to log change: ${logError instanceof Error ? logError.message : String(logError)} (jobId=${jobId}, filePath=${change.filePath})`);
+        }
+      }
+
+      return res.json({
+        success: true,
+        data: {
+          ...result,
+          downloadUrl: `/api/v1/epub/job/${jobId}/download-remediated`,
+        },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      logger.error('Failed to generate page list', error instanceof Error ? error : undefined);
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to generate page list',
+      });
+    }
+  },
+
+  /**
+   * POST /epub/job/:jobId/upgrade-epub3
+   * Upgrades an EPUB 2 package to EPUB 3 (nav from the NCX, landmarks from the
+   * guide, 3.0 OPF, HTML5 doctype), then re-runs the audit on the result.
+   */
+  async upgradeToEpub3(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { jobId } = req.params;
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+      }
+
+      const job = await prisma.job.findFirst({
+        where: { id: jobId, tenantId },
+      });
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          error: 'Job not found',
+        });
+      }
+
+      const epub = await loadJobEpub(job);
+      if (!epub) {
+        return res.status(404).json({
+          success: false,
+          error: 'EPUB file not found',
+        });
+      }
+      const { remediatedFileName } = epub;
+
+      const zip = await epubModifier.loadEPUB(epub.buffer);
+      const upgrade = await epub3Upgrade.upgrade(zip);
+
+      const modifiedBuffer = await epubModifier.saveEPUB(zip);
+      await fileStorageService.saveRemediatedFile(jobId, remediatedFileName, modifiedBuffer);
+      epubSpineService.clearCache(jobId);
+
+      for (const change of upgrade.results.filter(r => r.success)) {
+        try {
+          await comparisonService.logChange({
+            jobId,
+            ruleId: 'EPUB-UPGRADE-001',
+            filePath: change.filePath,
+            changeType: mapFixTypeToChangeType('EPUB-UPGRADE-001'),
+            description: change.description,
+            beforeContent: change.before,
+            afterContent: change.after,
+            severity: 'MAJOR',
+            appliedBy: req.user?.email || 'user',
+          });
+        } catch (logError) {
+          logger.error(`[EPUB3-UPGRADE] Failed to log change: ${logError instanceof Error ? logError.message : String(logError)} (jobId=${jobId}, filePath=${change.filePath})`);
+        }
+      }
+
+      // The upgraded file is saved either way; a failed re-audit is reported, not fatal
+      let reaudit = null;
+      let reauditError: string | undefined;
+      try {
+        reaudit = await remediationService.reauditEpub(jobId, {
+          buffer: modifiedBuffer,
+          originalname: remediatedFileName,
+        });
+      } catch (error) {
+        reauditError = error instanceof Error ? error.message : 'Re-audit failed';
+        logger.warn(`[EPUB3-UPGRADE] Re-audit after upgrade failed for job ${jobId}: ${reauditError}`);
+      }
+
+      return res.json({
+        success: true,
+        data: {
+          ...upgrade,
+          reaudit,
+          reauditError,
+          downloadUrl: `/api/v1/epub/job/${jobId}/download-remediated`,
+        },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      logger.error('EPUB 3 upgrade failed', error instanceof Error ? error : undefined);
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'EPUB 3 upgrade failed',
+      });
+    }
+  },
+
+  async remediateMath(req: AuthenticatedRequest, res: Response) {
+    try {
+      const { jobId } = req.params;
+      const tenantId = req.user?.tenantId;
+
+      if (!tenantId) {
+        return res.status(401).json({
+          success: false,
+          error: 'Authentication required',
+        });
+      }
+
+      const { convertLatexImages } = req.body as { convertLatexImages?: unknown };
+      if (convertLatexImages !== undefined && typeof convertLatexImages !== 'boolean') {
+        return res.status(400).json({
+          success: false,
+          error: 'convertLatexImages must be a boolean',
+        });
+      }
+
+      const job = await prisma.job.findFirst({
+        where: { id: jobId, tenantId },
+      });
+
+      if (!job) {
+        return res.status(404).json({
+          success: false,
+          error: 'Job not found',
+        });
+      }
+
+      const epub = await loadJobEpub(job);
+      if (!epub) {
+        return res.status(404).json({
+          success: false,
+          error: 'EPUB file not found',
+        });
+      }
+      const { remediatedFileName } = epub;
+
+      const zip = await epubModifier.loadEPUB(epub.buffer);
+      const results = await mathmlRemediation.remediate(zip, {
+        convertLatexImages: convertLatexImages ?? isLatexImageConversionEnabled(),
+      });
+
+      const changes = results.filter(r => r.success && r.filePath !== 'all' && (r.before || r.after));
+      if (changes.length > 0) {
+        const modifiedBuffer = await epubModifier.saveEPUB(zip);
+        await fileStorageService.saveRemediatedFile(jobId, remediatedFileName, modifiedBuffer);
+        epubSpineService.clearCache(jobId);
+      }
+
+      for (const change of changes) {
+        const ruleId = MODIFICATION_TYPE_TO_ISSUE_CODE[change.modificationType];
+        try {
+          await comparisonService.logChange({
+            jobId,
+            ruleId,
+            filePath: change.filePath,
+            changeType: mapFixTypeToChangeType(ruleId),
+            description: change.description,
+            beforeContent: change.before,
+            afterContent: change.after,
+            severity: 'MAJOR',
+            wcagCriteria: extractWcagCriteria(ruleId),
+            wcagLevel: extractWcagLevel(ruleId),
+            appliedBy: req.user?.email || 'user',
+          });
+        } catch (logError) {
+          logger.error(`[MathML] Failed to log change: ${logError instanceof Error ? logError.message : String(logError)} (jobId=${jobId}, filePath=${change.filePath})`);
+        }
+      }
+
+      return res.json({
+        success: true,
+        data: {
+          modified: changes.length > 0,
+          results,
+          downloadUrl: changes.length > 0 ? `/api/v1/epub/job/${jobId}/download-remediated` : undefined,
+        },
+      });
+    } catch (error) {
+      if (error instanceof AppError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message,
+          code: error.code,
+        });
+      }
+      logger.error('MathML remediation failed', error instanceof Error ? error : undefined);
+      return res.status(500).json({
+        success: false,
+        error: error instanceof Error ? error.message : 'MathML remediation failed',
+      });
+    }
+  },
+
   async getComparison(req: AuthenticatedRequest, res: Response) {
     try {
       const { jobId } = req.params;
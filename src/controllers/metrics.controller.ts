@@ -69,6 +69,22 @@ class MetricsController {
     }
   }
 
+  /** GET /api/v1/metrics/reviewers */
+  async getReviewerReport(req: Request, res: Response, _next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) {
+        res.status(401).json({ success: false, error: { message: 'Unauthorized' } });
+        return;
+      }
+
+      const filters = this.parseFilters(req, req.user.tenantId);
+      const report = await timeReportService.getReviewerReport(filters);
+      res.json({ success: true, data: report });
+    } catch (err) {
+      serverError(res, err, 'GET_REVIEWER_REPORT_FAILED');
+    }
+  }
+
   /** GET /api/v1/metrics/aggregate/export */
   async exportAggregateCsv(req: Request, res: Response, _next: NextFunction): Promise<void> {
     try {
@@ -16,6 +16,8 @@ import { adobeAutoTagService } from '../services/pdf/adobe-autotag.service';
 import { fileStorageService } from '../services/storage/file-storage.service';
 import { pdfModifierService } from '../services/pdf/pdf-modifier.service';
 import { pdfStructureWriterService } from '../services/pdf/pdf-structure-writer.service';
+import { pdfOutlineService } from '../services/pdf/pdf-outline.service';
+import { pdfTableStructureService, parseTableGrid } from '../services/pdf/pdf-table-structure.service';
 import { pdfReauditService } from '../services/pdf/pdf-reaudit.service';
 import type { AuditIssue } from '../services/audit/base-audit.service';
 import { aiConfig } from '../config/ai.config';
@@ -231,12 +233,7 @@ export class PdfAiAnalysisController {
         const r = results[0];
         modification = { success: r.success, description: r.after, error: r.error };
       } else if (suggestionType === 'bookmark-generate') {
-        const result = pdfStructureWriterService.generateBookmarksFromHeadings(doc);
-        modification = {
-          success: result.generated > 0,
-          description: `Generated ${result.generated} bookmark(s) from heading structure`,
-          error: result.generated === 0 ? 'No headings found to generate bookmarks from' : undefined,
-        };
+        modification = await pdfOutlineService.generateOutline(doc, jobId);
       } else if (suggestionType === 'heading-multiple-h1-fix') {
         const result = pdfStructureWriterService.fixMultipleH1(doc, originalIssue);
         modification = { success: result.success, description: result.after, error: result.error };
@@ -250,6 +247,8 @@ export class PdfAiAnalysisController {
           modification = await pdfModifierService.setAltText(doc, elementId, value);
         } else if (suggestionType === 'table-summary') {
           modification = await pdfModifierService.setTableSummary(doc, elementId, value);
+        } else if (suggestionType === 'table-headers') {
+          modification = await pdfTableStructureService.applyGrid(doc, elementId, parseTableGrid(value));
         } else if (suggestionType === 'formula-actualtext') {
           modification = await pdfModifierService.setActualText(doc, elementId, value);
         } else if (suggestionType === 'language') {
@@ -376,12 +375,7 @@ export class PdfAiAnalysisController {
             const r = results[0];
             modification = { success: r.success, description: r.after, error: r.error };
           } else if (suggestionType === 'bookmark-generate') {
-            const result = pdfStructureWriterService.generateBookmarksFromHeadings(doc);
-            modification = {
-              success: result.generated > 0,
-              description: `Generated ${result.generated} bookmark(s)`,
-              error: result.generated === 0 ? 'No headings found' : undefined,
-            };
+            modification = await pdfOutlineService.generateOutline(doc, jobId);
           } else if (suggestionType === 'heading-multiple-h1-fix') {
             const result = pdfStructureWriterService.fixMultipleH1(doc, originalIssue);
             modification = { success: result.success, description: result.after, error: result.error };
@@ -391,6 +385,8 @@ export class PdfAiAnalysisController {
             modification = await pdfModifierService.setAltText(doc, elementId, value!);
           } else if (suggestionType === 'table-summary') {
             modification = await pdfModifierService.setTableSummary(doc, elementId, value!);
+          } else if (suggestionType === 'table-headers') {
+            modification = await pdfTableStructureService.applyGrid(doc, elementId, parseTableGrid(value!));
           } else if (suggestionType === 'formula-actualtext') {
             modification = await pdfModifierService.setActualText(doc, elementId, value!);
           } else if (suggestionType === 'language') {
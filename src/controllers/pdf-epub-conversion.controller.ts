@@ -0,0 +1,76 @@
+/**
+ * PDF → EPUB Conversion Controller
+ *
+ * Starts the conversion of a PDF with verified zones into an accessible
+ * EPUB 3 and serves the result. The conversion runs as a PDF_TO_EPUB job;
+ * its output names the EPUB_ACCESSIBILITY job the EPUB was audited under.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../utils/app-error';
+import { JOB_TYPES } from '../queues';
+import { fileStorageService } from '../services/storage/file-storage.service';
+import { pdfToEpubService } from '../services/pdf/pdf-to-epub.service';
+import { convertToEpubSchema } from '../schemas/pdf-epub.schemas';
+
+export class PdfEpubConversionController {
+  /**
+   * POST /pdf/:jobId/convert/epub
+   * Body: { allowUnverified?: boolean }
+   */
+  async startConversion(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const parsed = convertToEpubSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        throw AppError.badRequest('Invalid request body: ' + parsed.error.message);
+      }
+
+      const conversionJobId = await pdfToEpubService.startConversion(
+        req.job!,
+        req.user.id,
+        parsed.data.allowUnverified
+      );
+
+      res.status(202).json({
+        success: true,
+        data: { jobId: conversionJobId, sourceJobId: req.job!.id, status: 'QUEUED' },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /pdf/:jobId/epub/download
+   * The EPUB produced by a completed PDF_TO_EPUB job (:jobId is the conversion job).
+   */
+  async downloadEpub(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const job = req.job!;
+      if (job.type !== JOB_TYPES.PDF_TO_EPUB) {
+        throw AppError.badRequest('Job is not a PDF to EPUB conversion');
+      }
+      const output = (job.output ?? {}) as Record<string, unknown>;
+      const epubFileName = output.epubFileName as string | undefined;
+      if (job.status !== 'COMPLETED' || !epubFileName) {
+        throw AppError.conflict(`Conversion is not complete (status: ${job.status})`);
+      }
+
+      const fileBuffer = await fileStorageService.getFile(job.id, epubFileName);
+      if (!fileBuffer) throw AppError.notFound('Converted EPUB not found in storage');
+
+      res.setHeader('Content-Type', 'application/epub+zip');
+      res.setHeader('Content-Disposition', `attachment; filename="${encodeURIComponent(epubFileName)}"`);
+      res.setHeader('Content-Length', fileBuffer.length);
+      res.send(fileBuffer);
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const pdfEpubConversionController = new PdfEpubConversionController();
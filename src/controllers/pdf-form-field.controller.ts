@@ -0,0 +1,288 @@
+/**
+ * PDF Form Field Controller
+ *
+ * Review queue for form-field tooltip proposals: generate proposals from
+ * the audited PDF, list and approve / edit / reject them, and write the
+ * approved tooltips (plus /Form tagging and tab order) into the
+ * remediated PDF.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { AppError } from '../utils/app-error';
+import { fileStorageService } from '../services/storage/file-storage.service';
+import { loadJobPdf, pdfFileNameFor } from '../services/storage/pdf-job-file';
+import { pdfModifierService } from '../services/pdf/pdf-modifier.service';
+import {
+  pdfFormFieldService,
+  FORM_TOOLTIP_REVIEW_FLAGS,
+} from '../services/pdf/pdf-form-field.service';
+
+// ─── Validation Schemas ───────────────────────────────────────────────────────
+
+const approveSchema = z.object({
+  approvedTooltip: z.string().trim().min(1).max(500).optional(),
+});
+
+const batchApproveSchema = z.object({
+  minConfidence: z.number().min(0).max(1).default(0.85),
+  ids: z.array(z.string()).optional(),
+});
+
+const QUEUE_STATUSES = ['pending', 'needs_review', 'approved', 'edited', 'rejected'] as const;
+
+// ─── Controller ──────────────────────────────────────────────────────────────
+
+export class PdfFormFieldController {
+  /**
+   * POST /pdf/:jobId/form-fields/proposals
+   * Propose tooltips for unlabeled fields of the original PDF and queue them for review.
+   */
+  async generateProposals(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const job = req.job!;
+      const pdfBuffer = await loadJobPdf(job.id, pdfFileNameFor(job), { original: true });
+      if (!pdfBuffer) throw AppError.notFound('PDF file not found in storage');
+
+      const result = await pdfFormFieldService.proposeTooltips(job.id, pdfBuffer);
+      res.json({ success: true, data: result });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /pdf/:jobId/form-fields/review-queue
+   * Proposals for the job, lowest confidence first, with per-status counts.
+   */
+  async getReviewQueue(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const jobId = req.job!.id;
+      const { status, minConfidence, maxConfidence } = req.query;
+
+      const where: Prisma.GeneratedFormTooltipWhereInput = { jobId };
+      if (typeof status === 'string') {
+        if (!(QUEUE_STATUSES as readonly string[]).includes(status)) {
+          throw AppError.badRequest(`status must be one of: ${QUEUE_STATUSES.join(', ')}`);
+        }
+        where.status = status;
+      }
+      if (minConfidence || maxConfidence) {
+        where.confidence = {};
+        if (minConfidence) where.confidence.gte = parseFloat(minConfidence as string);
+        if (maxConfidence) where.confidence.lte = parseFloat(maxConfidence as string);
+      }
+
+      const [items, counts] = await Promise.all([
+        prisma.generatedFormTooltip.findMany({
+          where,
+          orderBy: [{ confidence: 'asc' }, { pageNumber: 'asc' }],
+        }),
+        prisma.generatedFormTooltip.groupBy({
+          by: ['status'],
+          where: { jobId },
+          _count: { _all: true },
+        }),
+      ]);
+
+      const byStatus = Object.fromEntries(counts.map((c) => [c.status, c._count._all])) as Record<string, number>;
+      const stats = {
+        total: counts.reduce((sum, c) => sum + c._count._all, 0),
+        pending: byStatus.pending ?? 0,
+        needsReview: byStatus.needs_review ?? 0,
+        approved: byStatus.approved ?? 0,
+        edited: byStatus.edited ?? 0,
+        rejected: byStatus.rejected ?? 0,
+      };
+
+      res.json({
+        success: true,
+        data: {
+          items,
+          stats,
+          pendingReview: stats.pending + stats.needsReview,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /pdf/:jobId/form-fields/:id/approve
+   * Approve a proposal, optionally with an edited tooltip.
+   */
+  async approve(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const parsed = approveSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        throw AppError.badRequest('Invalid request body: ' + parsed.error.message);
+      }
+
+      const existing = await this.findProposal(req.job!.id, req.params.id);
+      const approvedTooltip = parsed.data.approvedTooltip ?? existing.proposedTooltip;
+      if (!approvedTooltip) {
+        throw AppError.badRequest('No label was found for this field — provide approvedTooltip');
+      }
+
+      const updated = await prisma.generatedFormTooltip.update({
+        where: { id: existing.id },
+        data: {
+          status: approvedTooltip !== existing.proposedTooltip ? 'edited' : 'approved',
+          approvedTooltip,
+          approvedBy: req.user.id,
+          approvedAt: new Date(),
+        },
+      });
+
+      res.json({ success: true, data: updated });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /pdf/:jobId/form-fields/:id/reject
+   */
+  async reject(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const existing = await this.findProposal(req.job!.id, req.params.id);
+      const updated = await prisma.generatedFormTooltip.update({
+        where: { id: existing.id },
+        data: {
+          status: 'rejected',
+          approvedTooltip: null,
+          approvedBy: req.user.id,
+          approvedAt: new Date(),
+        },
+      });
+
+      res.json({
+        success: true,
+        data: updated,
+        message: 'Tooltip rejected. Approve it with an edited tooltip or label the field manually.',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /pdf/:jobId/form-fields/batch-approve
+   * Approve the given ids, or every unreviewed proposal at or above
+   * minConfidence that carries none of the review flags.
+   */
+  async batchApprove(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const parsed = batchApproveSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        throw AppError.badRequest('Invalid request body: ' + parsed.error.message);
+      }
+
+      const { minConfidence, ids } = parsed.data;
+      const where: Prisma.GeneratedFormTooltipWhereInput = {
+        jobId: req.job!.id,
+        status: { in: ['pending', 'needs_review'] },
+        proposedTooltip: { not: '' },
+      };
+      if (ids && ids.length > 0) {
+        where.id = { in: ids };
+      } else {
+        where.confidence = { gte: minConfidence };
+        where.NOT = { flags: { hasSome: FORM_TOOLTIP_REVIEW_FLAGS } };
+      }
+
+      const result = await prisma.generatedFormTooltip.updateMany({
+        where,
+        data: {
+          status: 'approved',
+          approvedBy: req.user.id,
+          approvedAt: new Date(),
+        },
+      });
+
+      res.json({
+        success: true,
+        data: {
+          approved: result.count,
+          message: `Batch approved ${result.count} tooltip(s)`,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /pdf/:jobId/form-fields/apply
+   * Write approved tooltips into the PDF (remediated version if one exists),
+   * tag form widgets and set structure tab order.
+   */
+  async apply(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const job = req.job!;
+      const jobId = job.id;
+      const fileName = pdfFileNameFor(job);
+
+      const pdfBuffer = await loadJobPdf(jobId, fileName);
+      if (!pdfBuffer) throw AppError.notFound('PDF file not found in storage');
+
+      const doc = await pdfModifierService.loadPDF(pdfBuffer);
+      const { tooltips, structure, appliedIds } = await pdfFormFieldService.applyReviewedTooltips(doc, jobId);
+
+      if (appliedIds.length === 0 && !structure.success) {
+        throw AppError.unprocessable(
+          tooltips.find((t) => !t.success)?.error ?? structure.error ?? 'No approved tooltips to apply'
+        );
+      }
+
+      const modifiedBuffer = await pdfModifierService.savePDF(doc);
+      const savedPath = await fileStorageService.saveRemediatedFile(jobId, fileName, modifiedBuffer);
+      const currentOutput = (job.output ?? {}) as Record<string, unknown>;
+      await prisma.job.update({
+        where: { id: jobId },
+        data: { output: { ...currentOutput, remediatedFileUrl: savedPath } as Prisma.InputJsonObject },
+      });
+      await pdfFormFieldService.markApplied(appliedIds);
+
+      logger.info(`[PdfFormField] Applied ${appliedIds.length} tooltip(s) to job ${jobId}`);
+
+      res.json({
+        success: true,
+        data: {
+          applied: appliedIds.length,
+          failed: tooltips.filter((t) => !t.success).length,
+          tooltips,
+          structure,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private async findProposal(jobId: string, id: string) {
+    const existing = await prisma.generatedFormTooltip.findUnique({ where: { id } });
+    if (!existing || existing.jobId !== jobId) {
+      throw AppError.notFound('Tooltip proposal not found');
+    }
+    return existing;
+  }
+}
+
+export const pdfFormFieldController = new PdfFormFieldController();
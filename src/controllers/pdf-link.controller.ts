@@ -0,0 +1,69 @@
+/**
+ * PDF Link Controller
+ *
+ * Link remediation for a PDF job: link descriptions, clickable bare URLs
+ * and /Link tagging, written to the remediated PDF and recorded in the
+ * comparison report.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { AppError } from '../utils/app-error';
+import { fileStorageService } from '../services/storage/file-storage.service';
+import { loadJobPdf, pdfFileNameFor } from '../services/storage/pdf-job-file';
+import { pdfModifierService } from '../services/pdf/pdf-modifier.service';
+import { pdfLinkRemediationService } from '../services/pdf/pdf-link-remediation.service';
+
+export class PdfLinkController {
+  /**
+   * POST /pdf/:jobId/links/remediate
+   * Remediate the links of the PDF (remediated version if one exists) and
+   * log each change as a RemediationChange.
+   */
+  async remediate(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const job = req.job!;
+      const jobId = job.id;
+      const fileName = pdfFileNameFor(job);
+
+      const pdfBuffer = await loadJobPdf(jobId, fileName);
+      if (!pdfBuffer) throw AppError.notFound('PDF file not found in storage');
+
+      const doc = await pdfModifierService.loadPDF(pdfBuffer);
+      const result = await pdfLinkRemediationService.remediateLinks(doc, pdfBuffer);
+
+      let logged = 0;
+      if (result.changes.length > 0) {
+        const modifiedBuffer = await pdfModifierService.savePDF(doc);
+        const savedPath = await fileStorageService.saveRemediatedFile(jobId, fileName, modifiedBuffer);
+        const currentOutput = (job.output ?? {}) as Record<string, unknown>;
+        await prisma.job.update({
+          where: { id: jobId },
+          data: { output: { ...currentOutput, remediatedFileUrl: savedPath } as Prisma.InputJsonObject },
+        });
+        logged = await pdfLinkRemediationService.logChanges(jobId, fileName, result.changes, req.user.id);
+      }
+
+      logger.info(`[PdfLink] Job ${jobId}: ${result.changes.length} link change(s) applied`);
+
+      res.json({
+        success: true,
+        data: {
+          descriptionsSet: result.descriptionsSet,
+          linksAdded: result.linksAdded,
+          structure: result.structure,
+          changes: result.changes,
+          changesLogged: logged,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const pdfLinkController = new PdfLinkController();
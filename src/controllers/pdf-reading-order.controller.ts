@@ -0,0 +1,111 @@
+/**
+ * PDF Reading-Order Controller
+ *
+ * Reading-order editor for tagged PDFs: the structure tree as an ordered,
+ * editable list of blocks per page, and undoable reorder / merge / split /
+ * retag edits made within a remediation session.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { AppError } from '../utils/app-error';
+import { pdfFileNameFor } from '../services/storage/pdf-job-file';
+import { pdfReadingOrderService } from '../services/pdf/pdf-reading-order.service';
+import { structureEditSchema } from '../schemas/pdf-reading-order.schemas';
+
+async function recordRemediatedFile(job: NonNullable<Request['job']>, savedPath: string): Promise<void> {
+  const currentOutput = (job.output ?? {}) as Record<string, unknown>;
+  await prisma.job.update({
+    where: { id: job.id },
+    data: { output: { ...currentOutput, remediatedFileUrl: savedPath } as Prisma.InputJsonObject },
+  });
+}
+
+export class PdfReadingOrderController {
+  /**
+   * GET /pdf/:jobId/reading-order
+   * Blocks of the structure tree per page, in reading order, with their text.
+   */
+  async getReadingOrder(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const job = req.job!;
+      const readingOrder = await pdfReadingOrderService.getReadingOrder(job.id, pdfFileNameFor(job));
+
+      res.json({ success: true, data: readingOrder });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /pdf/:jobId/remediation-session/:sessionId/structure-edits
+   * Edits made in the session, newest first.
+   */
+  async listEdits(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const edits = await pdfReadingOrderService.listEdits(req.job!.id, req.params.sessionId);
+
+      res.json({ success: true, data: edits });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /pdf/:jobId/remediation-session/:sessionId/structure-edits
+   * Body: { operation: 'reorder' | 'merge' | 'split' | 'retag', ... }
+   */
+  async applyEdit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const parsed = structureEditSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        throw AppError.badRequest('Invalid request body: ' + parsed.error.message);
+      }
+
+      const job = req.job!;
+      const { edit, result, savedPath } = await pdfReadingOrderService.applyEdit(
+        job.id,
+        pdfFileNameFor(job),
+        req.params.sessionId,
+        req.user.id,
+        parsed.data
+      );
+      await recordRemediatedFile(job, savedPath);
+
+      res.status(201).json({ success: true, data: { edit, result } });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /pdf/:jobId/remediation-session/:sessionId/structure-edits/undo
+   * Undo the newest edit of the session.
+   */
+  async undoEdit(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const job = req.job!;
+      const { edit, savedPath } = await pdfReadingOrderService.undoLastEdit(
+        job.id,
+        pdfFileNameFor(job),
+        req.params.sessionId
+      );
+      await recordRemediatedFile(job, savedPath);
+
+      res.json({ success: true, data: { edit } });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const pdfReadingOrderController = new PdfReadingOrderController();
@@ -0,0 +1,65 @@
+/**
+ * PDF Table Controller
+ *
+ * Writes an edited table grid (from the request or a saved table zone)
+ * into the /Table structure subtree of the job's remediated PDF.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { Prisma } from '@prisma/client';
+import prisma from '../lib/prisma';
+import { logger } from '../lib/logger';
+import { AppError } from '../utils/app-error';
+import { fileStorageService } from '../services/storage/file-storage.service';
+import { loadJobPdf, pdfFileNameFor } from '../services/storage/pdf-job-file';
+import { pdfModifierService } from '../services/pdf/pdf-modifier.service';
+import { pdfTableStructureService } from '../services/pdf/pdf-table-structure.service';
+import { applyTableStructureSchema } from '../schemas/pdf-table.schemas';
+
+export class PdfTableController {
+  /**
+   * POST /pdf/:jobId/tables/:tableId/structure
+   * Body: { grid } or { zoneId } — rewrite the table's cells from the grid.
+   */
+  async applyStructure(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const parsed = applyTableStructureSchema.safeParse(req.body ?? {});
+      if (!parsed.success) {
+        throw AppError.badRequest('Invalid request body: ' + parsed.error.message);
+      }
+
+      const job = req.job!;
+      const jobId = job.id;
+      const fileName = pdfFileNameFor(job);
+      const grid = parsed.data.grid
+        ?? await pdfTableStructureService.getZoneGrid(parsed.data.zoneId!, req.user.tenantId);
+
+      const pdfBuffer = await loadJobPdf(jobId, fileName);
+      if (!pdfBuffer) throw AppError.notFound('PDF file not found in storage');
+
+      const doc = await pdfModifierService.loadPDF(pdfBuffer);
+      const modification = await pdfTableStructureService.applyGrid(doc, req.params.tableId, grid);
+      if (!modification.success) {
+        throw AppError.unprocessable(modification.error ?? modification.description);
+      }
+
+      const modifiedBuffer = await pdfModifierService.savePDF(doc);
+      const savedPath = await fileStorageService.saveRemediatedFile(jobId, fileName, modifiedBuffer);
+      const currentOutput = (job.output ?? {}) as Record<string, unknown>;
+      await prisma.job.update({
+        where: { id: jobId },
+        data: { output: { ...currentOutput, remediatedFileUrl: savedPath } as Prisma.InputJsonObject },
+      });
+
+      logger.info(`[PdfTable] Job ${jobId}: rewrote structure of ${req.params.tableId}`);
+
+      res.json({ success: true, data: modification });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const pdfTableController = new PdfTableController();
@@ -7,6 +7,19 @@ import { logger } from '../lib/logger';
 import { z } from 'zod';
 import type { ExplanationSource } from '../services/acr/explanation-catalog.service';
 import { getPrhConfig, updatePrhConfig } from '../services/prh/prh-config.service';
+import {
+  getPublisherProfilesConfig,
+  updatePublisherProfilesConfig,
+  publisherProfilesConfigSchema,
+} from '../services/epub/profiles/profile-config.service';
+import { getBuiltInProfiles, resolveProfiles, type PublisherProfilesConfig } from '../services/epub/profiles/profile-registry';
+import {
+  gateApprovalPolicySchema,
+  hitlEscalationConfigSchema,
+  reviewerAssignmentConfigSchema,
+  type GateApprovalPolicy,
+} from '../types/workflow-contracts';
+import { isFullyHeadless } from '../services/workflow/auto-approval-policy.service';
 
 /**
  * Zod schema for workflow configuration updates.
@@ -91,6 +104,12 @@ const workflowConfigUpdateSchema = z.object({
     /** When true, tenants may create fully headless batches with all gates set to auto-accept. */
     allowFullyHeadless: z.boolean().optional(),
   }).optional(),
+  /** Tenant-wide default auto-approval policy for single workflows; null clears it. */
+  autoApprovalPolicy: gateApprovalPolicySchema.nullable().optional(),
+  /** Escalation chains for open HITL gates (replace gate timeouts); null clears them. */
+  hitlEscalation: hitlEscalationConfigSchema.nullable().optional(),
+  /** Skill rules and auto-assignment of HITL gates to reviewers; null clears them. */
+  reviewerAssignment: reviewerAssignmentConfigSchema.nullable().optional(),
 }).strict();
 
 type WorkflowConfigUpdate = z.infer<typeof workflowConfigUpdateSchema>;
@@ -208,6 +227,50 @@ export class TenantConfigController {
         };
       }
 
+      if (updates.autoApprovalPolicy === null) {
+        delete updatedWorkflow.autoApprovalPolicy;
+      } else if (updates.autoApprovalPolicy) {
+        const allowFullyHeadless = (updatedWorkflow.batchPolicy as { allowFullyHeadless?: boolean } | undefined)
+          ?.allowFullyHeadless ?? false;
+        if (!allowFullyHeadless && isFullyHeadless(updates.autoApprovalPolicy as GateApprovalPolicy)) {
+          throw AppError.badRequest(
+            'Fully headless policies (all gates auto-accept) are not permitted for this tenant. ' +
+            'Enable batchPolicy.allowFullyHeadless first.',
+            'HEADLESS_POLICY_NOT_ALLOWED'
+          );
+        }
+        updatedWorkflow.autoApprovalPolicy = updates.autoApprovalPolicy;
+      }
+
+      if (updates.hitlEscalation === null) {
+        delete updatedWorkflow.hitlEscalation;
+      } else if (updates.hitlEscalation) {
+        // Named backup reviewers and managers must be users of this tenant
+        const chains = [
+          updates.hitlEscalation.steps,
+          ...Object.values(updates.hitlEscalation.gates ?? {}),
+        ];
+        const userIds = [...new Set(chains.flat().map(step => step?.userId).filter((id): id is string => !!id))];
+        if (userIds.length > 0) {
+          const found = await prisma.user.count({
+            where: { id: { in: userIds }, tenantId: req.user.tenantId, deletedAt: null },
+          });
+          if (found !== userIds.length) {
+            throw AppError.badRequest(
+              'Escalation steps reference users outside this tenant',
+              'INVALID_ESCALATION_USER'
+            );
+          }
+        }
+        updatedWorkflow.hitlEscalation = updates.hitlEscalation;
+      }
+
+      if (updates.reviewerAssignment === null) {
+        delete updatedWorkflow.reviewerAssignment;
+      } else if (updates.reviewerAssignment) {
+        updatedWorkflow.reviewerAssignment = updates.reviewerAssignment;
+      }
+
       // Update tenant settings in database
       await prisma.tenant.update({
         where: { id: req.user.tenantId },
@@ -592,6 +655,79 @@ export class TenantConfigController {
       next(error);
     }
   }
+
+  /**
+   * Get the tenant's publisher-profile configuration together with the
+   * profiles it resolves to, so the admin UI can show what detection
+   * will run against.
+   */
+  async getPublisherProfilesConfig(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+      const config = await getPublisherProfilesConfig(req.user.tenantId);
+      res.json({ success: true, data: this.describePublisherProfiles(config) });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * Replace the tenant's publisher-profile configuration. Admin-only.
+   * `enabled` may only name built-in profiles, and custom profiles may
+   * not reuse a built-in id.
+   */
+  async updatePublisherProfilesConfig(req: Request, res: Response, next: NextFunction) {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+      if (req.user.role !== 'ADMIN') {
+        throw AppError.forbidden('Only admins can update publisher profiles');
+      }
+
+      const validationResult = publisherProfilesConfigSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        throw AppError.badRequest('Invalid publisher profiles configuration: ' + validationResult.error.message);
+      }
+
+      const builtInIds = new Set(getBuiltInProfiles().map((p) => p.id));
+      const unknownEnabled = (validationResult.data.enabled ?? []).filter((id) => !builtInIds.has(id));
+      if (unknownEnabled.length > 0) {
+        throw AppError.badRequest(`Unknown built-in publisher profile(s): ${unknownEnabled.join(', ')}`);
+      }
+      const customIds = validationResult.data.custom.map((c) => c.id);
+      const clashing = customIds.filter((id, i) => builtInIds.has(id) || customIds.indexOf(id) !== i);
+      if (clashing.length > 0) {
+        throw AppError.badRequest(`Duplicate publisher profile id(s): ${[...new Set(clashing)].join(', ')}`);
+      }
+
+      const config = await updatePublisherProfilesConfig(
+        req.user.tenantId,
+        validationResult.data,
+        req.user.id,
+      );
+
+      res.json({
+        success: true,
+        data: this.describePublisherProfiles(config),
+        message: 'Publisher profiles updated successfully',
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private describePublisherProfiles(config: PublisherProfilesConfig) {
+    return {
+      config,
+      profiles: resolveProfiles(config).map((p) => ({
+        id: p.id,
+        displayName: p.displayName,
+        origin: p.origin,
+        acrEdition: p.acrEdition,
+        hasValidators: !!p.runValidators,
+        imprints: p.imprints,
+      })),
+    };
+  }
 }
 
 export const tenantConfigController = new TenantConfigController();
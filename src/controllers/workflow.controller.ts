@@ -12,10 +12,14 @@ import {
   HITLAction,
   WorkflowState,
 } from '../types/workflow-contracts';
-import type { WorkflowStatusResponse, BatchAutoApprovalPolicy, AcrBatchConfig } from '../types/workflow-contracts';
+import type { WorkflowStatusResponse, BatchAutoApprovalPolicy, AcrBatchConfig, GateApprovalPolicy } from '../types/workflow-contracts';
+import { PROCESSING_STEP_ACTIONS, WorkflowStepAction } from '../types/workflow-definition.types';
 import { workflowConfigService } from '../services/workflow/workflow-config.service';
+import { workflowDefinitionService } from '../services/workflow/workflow-definition.service';
+import { autoApprovalPolicyService } from '../services/workflow/auto-approval-policy.service';
 import prisma, { Prisma } from '../lib/prisma';
 import { logger } from '../lib/logger';
+import { AppError } from '../utils/app-error';
 
 // TODO: workflowService lives on feature/wf-state-machine — resolves after T1 merges
 // @ts-ignore
@@ -111,10 +115,27 @@ class WorkflowController {
         badRequest(res, 'Invalid request body', parsed.error.flatten());
         return;
       }
-      const { fileId } = parsed.data;
-      const workflow = await workflowService.createWorkflow(fileId, req.user!.id);
+      const { fileId, productId, autoApprovalPolicy } = parsed.data;
+      const tenantId = req.user!.tenantId;
+
+      if (productId) {
+        // Throws 404 when the product is not in the caller's tenant
+        await autoApprovalPolicyService.getProductPolicy(tenantId, productId);
+      }
+      if (autoApprovalPolicy) {
+        await autoApprovalPolicyService.assertHeadlessAllowed(tenantId, autoApprovalPolicy as GateApprovalPolicy);
+      }
+
+      const workflow = await workflowService.createWorkflow(fileId, req.user!.id, undefined, {
+        productId,
+        autoApprovalPolicy: autoApprovalPolicy as GateApprovalPolicy | undefined,
+      });
       res.status(201).json({ workflowId: workflow.id, currentState: workflow.currentState });
     } catch (err) {
+      if (err instanceof AppError) {
+        res.status(err.statusCode).json({ success: false, error: { code: err.code, message: err.message } });
+        return;
+      }
       serverError(res, err, 'START_WORKFLOW_FAILED');
     }
   }
@@ -135,12 +156,16 @@ class WorkflowController {
         return;
       }
 
+      // Custom step ids in declarative workflows report the phase/progress
+      // of the built-in action they execute.
+      const action = await workflowDefinitionService.resolveStepAction(workflow);
+
       const response: WorkflowStatusResponse = {
         id: workflow.id,
         fileId: workflow.fileId,
         currentState: workflow.currentState as WorkflowState,
-        phase: getPhase(workflow.currentState),
-        progress: STATE_PROGRESS[workflow.currentState] ?? 0,
+        phase: getPhase(action),
+        progress: STATE_PROGRESS[action] ?? 0,
         startedAt: workflow.startedAt instanceof Date
           ? workflow.startedAt.toISOString()
           : workflow.startedAt,
@@ -154,6 +179,9 @@ class WorkflowController {
         loopCount: workflow.loopCount,
         createdBy: workflow.createdBy,
         batchId: workflow.batchId ?? undefined,
+        definitionId: workflow.definitionId ?? undefined,
+        replayOfId: workflow.replayOfId ?? undefined,
+        replayFromState: workflow.replayFromState ?? undefined,
         stateData: workflow.stateData as Record<string, unknown> | undefined,
       };
 
@@ -265,7 +293,7 @@ class WorkflowController {
       }
 
       // Idempotency: if the workflow already advanced past this gate, return success
-      if (workflow.currentState !== WorkflowState.AWAITING_AI_REVIEW) {
+      if ((await workflowDefinitionService.resolveStepAction(workflow)) !== WorkflowState.AWAITING_AI_REVIEW) {
         logger.info(`[WorkflowController] AI review submitted but workflow ${id} is in state ${workflow.currentState} (already past gate) — returning idempotent success`);
         res.status(200).json({ success: true, gateComplete: true, message: 'Gate already complete' });
         return;
@@ -382,7 +410,7 @@ class WorkflowController {
       }
 
       // Idempotency: if the workflow already advanced past this gate, return success
-      if (workflow.currentState !== WorkflowState.AWAITING_REMEDIATION_REVIEW) {
+      if ((await workflowDefinitionService.resolveStepAction(workflow)) !== WorkflowState.AWAITING_REMEDIATION_REVIEW) {
         logger.info(`[WorkflowController] Remediation review submitted but workflow ${id} is in state ${workflow.currentState} (already past gate) — returning idempotent success`);
         res.status(200).json({ success: true, gateComplete: true, message: 'Gate already complete' });
         return;
@@ -451,7 +479,7 @@ class WorkflowController {
       }
 
       // Idempotency: if the workflow already advanced past this gate, return success
-      if (workflow.currentState !== WorkflowState.AWAITING_CONFORMANCE_REVIEW) {
+      if ((await workflowDefinitionService.resolveStepAction(workflow)) !== WorkflowState.AWAITING_CONFORMANCE_REVIEW) {
         logger.info(`[WorkflowController] Conformance review submitted but workflow ${id} is in state ${workflow.currentState} (already past gate) — returning idempotent success`);
         res.status(200).json({ success: true, gateComplete: true, message: 'Gate already complete' });
         return;
@@ -519,7 +547,7 @@ class WorkflowController {
       }
 
       // Idempotency: if the workflow already advanced past this gate, return success
-      if (workflow.currentState !== WorkflowState.AWAITING_ACR_SIGNOFF) {
+      if ((await workflowDefinitionService.resolveStepAction(workflow)) !== WorkflowState.AWAITING_ACR_SIGNOFF) {
         logger.info(`[WorkflowController] ACR sign-off submitted but workflow ${id} is in state ${workflow.currentState} (already past gate) — returning idempotent success`);
         res.status(200).json({ success: true, gateComplete: true, message: 'Gate already complete' });
         return;
@@ -638,7 +666,7 @@ class WorkflowController {
 
       const batch = await prisma.batchWorkflow.findUnique({
         where: { id: batchId },
-        include: { workflows: { select: { id: true, currentState: true } } },
+        select: { status: true },
       });
 
       if (!batch) {
@@ -651,14 +679,16 @@ class WorkflowController {
         return;
       }
 
-      const NON_TERMINAL = [
-        'UPLOAD_RECEIVED', 'PREPROCESSING', 'RUNNING_EPUBCHECK', 'RUNNING_ACE',
-        'RUNNING_AI_ANALYSIS', 'AWAITING_AI_REVIEW', 'AUTO_REMEDIATION',
-        'AWAITING_REMEDIATION_REVIEW', 'VERIFICATION_AUDIT', 'CONFORMANCE_MAPPING',
-        'AWAITING_CONFORMANCE_REVIEW', 'ACR_GENERATION', 'AWAITING_ACR_SIGNOFF', 'RETRYING',
-      ];
-
-      const pauseable = batch.workflows.filter(w => NON_TERMINAL.includes(w.currentState));
+      // Every step action (built-in or declarative step id) plus the non-terminal lifecycle states
+      const nonTerminalFilter = await workflowDefinitionService.buildStepActionFilter(
+        new Set<string>(Object.values(WorkflowStepAction)),
+        ['UPLOAD_RECEIVED', 'RETRYING'],
+        { batchId }
+      );
+      const pauseable = await prisma.workflowInstance.findMany({
+        where: { batchId, ...nonTerminalFilter },
+        select: { id: true },
+      });
 
       const { enqueueWorkflowEvent } = await import('../queues/workflow.queue');
       await Promise.all(pauseable.map(w => enqueueWorkflowEvent(w.id, 'PAUSE')));
@@ -767,22 +797,19 @@ class WorkflowController {
       const { batchId } = req.params;
       const staleMinutes = Number(req.query['staleMinutes'] ?? 5);
 
-      // Processing states that can hang — excludes HITL waiting states and terminal states
-      const STUCK_STATES = [
-        'UPLOAD_RECEIVED', 'PREPROCESSING',
-        'RUNNING_EPUBCHECK', 'RUNNING_ACE', 'RUNNING_AI_ANALYSIS',
-        'AUTO_REMEDIATION', 'VERIFICATION_AUDIT',
-        'CONFORMANCE_MAPPING', 'ACR_GENERATION',
-      ];
-
       const staleThreshold = new Date(Date.now() - staleMinutes * 60 * 1000);
 
+      // Processing steps that can hang (matched by action, so declarative step ids
+      // are included) — excludes HITL waiting states and terminal states
+      const scope = { batchId, startedAt: { lt: staleThreshold } };
+      const stateFilter = await workflowDefinitionService.buildStepActionFilter(
+        PROCESSING_STEP_ACTIONS,
+        ['UPLOAD_RECEIVED'],
+        scope
+      );
+
       const stuck = await prisma.workflowInstance.findMany({
-        where: {
-          batchId,
-          currentState: { in: STUCK_STATES },
-          startedAt: { lt: staleThreshold },
-        },
+        where: { ...scope, ...stateFilter },
         select: { id: true, currentState: true },
       });
 
@@ -820,6 +847,7 @@ class WorkflowController {
             select: {
               id: true,
               currentState: true,
+              definitionId: true,
               errorMessage: true,
               stateData: true,
               file: { select: { filename: true, originalName: true, mimeType: true } },
@@ -834,6 +862,12 @@ class WorkflowController {
         return;
       }
 
+      // Declarative step ids resolve to the built-in action they run
+      const stepActions = new Map<string, string>();
+      for (const wf of batch.workflows) {
+        stepActions.set(wf.id, await workflowDefinitionService.resolveStepAction(wf));
+      }
+
       const perStage: Record<string, number> = {};
       const perGate: Record<string, number> = {
         [HITLGate.AI_REVIEW]: 0,
@@ -846,7 +880,7 @@ class WorkflowController {
       let errorCount = 0;
 
       for (const wf of batch.workflows) {
-        const state = wf.currentState;
+        const state = stepActions.get(wf.id)!;
         perStage[state] = (perStage[state] ?? 0) + 1;
         if (state === WorkflowState.AWAITING_AI_REVIEW) perGate[HITLGate.AI_REVIEW]++;
         if (state === WorkflowState.AWAITING_REMEDIATION_REVIEW) perGate[HITLGate.REMEDIATION_REVIEW]++;
@@ -905,13 +939,16 @@ class WorkflowController {
       };
       const HITL_STATES = Object.keys(GATE_STATE_TO_SLUG);
       const hitlWaiting = batch.workflows
-        .filter(w => HITL_STATES.includes(w.currentState))
-        .map(w => ({
-          workflowId: w.id,
-          filename: w.file?.originalName ?? w.file?.filename ?? 'Unknown file',
-          gate: w.currentState.replace('AWAITING_', '').replace(/_/g, ' '),
-          reviewUrl: `/workflow/${w.id}/hitl/${GATE_STATE_TO_SLUG[w.currentState]}`,
-        }));
+        .filter(w => HITL_STATES.includes(stepActions.get(w.id)!))
+        .map(w => {
+          const gateState = stepActions.get(w.id)!;
+          return {
+            workflowId: w.id,
+            filename: w.file?.originalName ?? w.file?.filename ?? 'Unknown file',
+            gate: gateState.replace('AWAITING_', '').replace(/_/g, ' '),
+            reviewUrl: `/workflow/${w.id}/hitl/${GATE_STATE_TO_SLUG[gateState]}`,
+          };
+        });
 
       res.status(200).json({
         id: batch.id,
@@ -0,0 +1,91 @@
+import { Request, Response, NextFunction } from 'express';
+import { autoApprovalPolicyService } from '../../services/workflow/auto-approval-policy.service';
+import { setAutoApprovalPolicySchema, type GateApprovalPolicy } from '../../types/workflow-contracts';
+import { AppError } from '../../utils/app-error';
+
+/**
+ * Auto-Approval Policy Controller
+ * Workflow- and product-level HITL auto-approval policies, and the explain
+ * endpoint showing which policy applies to each gate of a workflow.
+ * The tenant default is managed through PATCH /tenant/config/workflow.
+ */
+export class AutoApprovalPolicyController {
+  /**
+   * GET /workflows/:id/auto-approval-policy
+   * Explain the effective policy per gate and the levels it was resolved from.
+   */
+  async explainWorkflowPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const explanation = await autoApprovalPolicyService.explain(req.user.tenantId, req.params.id);
+
+      res.json({ success: true, data: explanation });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /workflows/:id/auto-approval-policy
+   * Body: { autoApprovalPolicy: GateApprovalPolicy | null }
+   */
+  async setWorkflowPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const policy = this.parsePolicy(req.body);
+      await autoApprovalPolicyService.setWorkflowPolicy(req.user.tenantId, req.params.id, policy);
+      const explanation = await autoApprovalPolicyService.explain(req.user.tenantId, req.params.id);
+
+      res.json({ success: true, data: explanation });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /products/:id/auto-approval-policy
+   */
+  async getProductPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const policy = await autoApprovalPolicyService.getProductPolicy(req.user.tenantId, req.params.id);
+
+      res.json({ success: true, data: { productId: req.params.id, autoApprovalPolicy: policy } });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /products/:id/auto-approval-policy
+   * Body: { autoApprovalPolicy: GateApprovalPolicy | null }
+   */
+  async setProductPolicy(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const policy = this.parsePolicy(req.body);
+      await autoApprovalPolicyService.setProductPolicy(req.user.tenantId, req.params.id, policy);
+
+      res.json({ success: true, data: { productId: req.params.id, autoApprovalPolicy: policy } });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  private parsePolicy(body: unknown): GateApprovalPolicy | null {
+    const validationResult = setAutoApprovalPolicySchema.safeParse(body);
+    if (!validationResult.success) {
+      throw AppError.badRequest(
+        'Invalid auto-approval policy: ' + validationResult.error.message,
+        'INVALID_AUTO_APPROVAL_POLICY'
+      );
+    }
+    return validationResult.data.autoApprovalPolicy as GateApprovalPolicy | null;
+  }
+}
+
+export const autoApprovalPolicyController = new AutoApprovalPolicyController();
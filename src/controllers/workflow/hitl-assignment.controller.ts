@@ -0,0 +1,163 @@
+import { Request, Response, NextFunction } from 'express';
+import { UserRole } from '@prisma/client';
+import { hitlAssignmentService } from '../../services/workflow/hitl-assignment.service';
+import { reviewerProfileService } from '../../services/workflow/reviewer-profile.service';
+import { assignGateSchema, reviewerProfileSchema } from '../../types/workflow-contracts';
+import { AppError } from '../../utils/app-error';
+
+/**
+ * HITL Assignment Controller
+ * Who owns each open HITL gate: the reviewer queues, manual and automatic
+ * (re)assignment, and the reviewer profiles used by auto-assignment.
+ */
+export class HitlAssignmentController {
+  /**
+   * GET /workflow/hitl/queue
+   * Open gates of the tenant with their current owner.
+   */
+  async getQueue(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const queue = await hitlAssignmentService.getQueue(req.user.tenantId);
+
+      res.json({ success: true, data: queue });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /workflow/hitl/queue/mine
+   * Open gates assigned to the current user or to the user's role.
+   */
+  async getMyQueue(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const queue = await hitlAssignmentService.getQueue(req.user.tenantId, {
+        userId: req.user.id,
+        role: req.user.role as UserRole,
+      });
+
+      res.json({ success: true, data: queue });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /workflow/hitl/:workflowId/assignments
+   * Every gate assignment of a workflow with its owner history.
+   */
+  async getWorkflowAssignments(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const assignments = await hitlAssignmentService.getWorkflowAssignments(
+        req.user.tenantId,
+        req.params.workflowId
+      );
+
+      res.json({ success: true, data: assignments });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /workflow/hitl/assignments/:assignmentId
+   * Body: { userId } or { role }, with an optional reason
+   */
+  async assign(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const validationResult = assignGateSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        throw AppError.badRequest(
+          'Invalid assignment: ' + validationResult.error.message,
+          'INVALID_ASSIGNMENT'
+        );
+      }
+
+      const { userId, role, reason } = validationResult.data;
+      const assignment = await hitlAssignmentService.assign(
+        req.user.tenantId,
+        req.params.assignmentId,
+        { userId, role },
+        { assignedById: req.user.id, reason }
+      );
+
+      res.json({ success: true, data: assignment });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /workflow/hitl/assignments/:assignmentId/auto-assign
+   * Move the gate to the least-loaded other qualified reviewer.
+   */
+  async autoAssign(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const assignment = await hitlAssignmentService.autoAssign(
+        req.user.tenantId,
+        req.params.assignmentId,
+        req.user.id
+      );
+
+      res.json({ success: true, data: assignment });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /workflow/hitl/reviewers
+   * Reviewer profiles with their current open-gate load.
+   */
+  async listReviewers(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const reviewers = await reviewerProfileService.listReviewers(req.user.tenantId);
+
+      res.json({ success: true, data: reviewers });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * PUT /workflow/hitl/reviewers/:userId
+   * Body: { skills, gates?, maxOpenGates?, active? }
+   */
+  async upsertReviewer(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const validationResult = reviewerProfileSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        throw AppError.badRequest(
+          'Invalid reviewer profile: ' + validationResult.error.message,
+          'INVALID_REVIEWER_PROFILE'
+        );
+      }
+
+      const reviewer = await reviewerProfileService.upsertProfile(
+        req.user.tenantId,
+        req.params.userId,
+        validationResult.data
+      );
+
+      res.json({ success: true, data: reviewer });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const hitlAssignmentController = new HitlAssignmentController();
@@ -0,0 +1,122 @@
+import { Request, Response, NextFunction } from 'express';
+import { workflowDefinitionService } from '../../services/workflow/workflow-definition.service';
+import { saveWorkflowDefinitionSchema } from '../../types/workflow-definition.types';
+import { AppError } from '../../utils/app-error';
+
+/**
+ * Workflow Definition Controller
+ * Manages the tenant's declarative workflow pipelines. Definitions are
+ * versioned: saving under an existing name creates the next version, and
+ * running workflows keep the version they started with.
+ */
+export class WorkflowDefinitionController {
+  /**
+   * GET /workflows/definitions
+   * List all definition versions for the tenant, plus the built-in template.
+   */
+  async listDefinitions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const definitions = await workflowDefinitionService.listDefinitions(req.user.tenantId);
+
+      res.json({
+        success: true,
+        data: {
+          definitions,
+          builtIn: workflowDefinitionService.getDefaultSpec(),
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /workflows/definitions/:definitionId
+   */
+  async getDefinition(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const definition = await workflowDefinitionService.getDefinition(
+        req.user.tenantId,
+        req.params.definitionId
+      );
+
+      res.json({ success: true, data: definition });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /workflows/definitions
+   * Validate and save a new definition version.
+   * Body: { name, description?, spec: { steps: [...] }, activate?: boolean }
+   */
+  async saveDefinition(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const validationResult = saveWorkflowDefinitionSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        throw AppError.badRequest(
+          'Invalid workflow definition: ' + validationResult.error.message,
+          'INVALID_WORKFLOW_DEFINITION'
+        );
+      }
+
+      const definition = await workflowDefinitionService.saveDefinition(
+        req.user.tenantId,
+        req.user.id,
+        validationResult.data
+      );
+
+      res.status(201).json({
+        success: true,
+        data: definition,
+        message: `Workflow definition "${definition.name}" saved as version ${definition.version}`,
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /workflows/definitions/:definitionId/activate
+   * Make a stored version the tenant's pipeline for new workflows.
+   */
+  async activateDefinition(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const definition = await workflowDefinitionService.activateDefinition(
+        req.user.tenantId,
+        req.params.definitionId
+      );
+
+      res.json({ success: true, data: definition });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * POST /workflows/definitions/deactivate
+   * Revert the tenant to the built-in pipeline for new workflows.
+   */
+  async deactivateDefinitions(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      await workflowDefinitionService.deactivateAll(req.user.tenantId);
+
+      res.json({ success: true, message: 'Tenant reverted to the built-in workflow pipeline' });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const workflowDefinitionController = new WorkflowDefinitionController();
@@ -0,0 +1,84 @@
+import { Request, Response, NextFunction } from 'express';
+import { workflowReplayService } from '../../services/workflow/workflow-replay.service';
+import { replayWorkflowSchema } from '../../types/workflow-contracts';
+import { AppError } from '../../utils/app-error';
+
+/**
+ * Workflow Replay Controller
+ * Re-runs an existing workflow from an earlier step as a new, linked workflow
+ * and compares the replay's outcome with the original's.
+ */
+export class WorkflowReplayController {
+  /**
+   * POST /workflows/:id/replay
+   * Body: { fromState: string, reason?: string }
+   */
+  async replayWorkflow(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const validationResult = replayWorkflowSchema.safeParse(req.body);
+      if (!validationResult.success) {
+        throw AppError.badRequest(
+          'Invalid replay request: ' + validationResult.error.message,
+          'INVALID_REPLAY_REQUEST'
+        );
+      }
+
+      const { fromState, reason } = validationResult.data;
+      const replay = await workflowReplayService.replayWorkflow(
+        req.user.tenantId,
+        req.params.id,
+        fromState,
+        req.user.id,
+        reason
+      );
+
+      res.status(201).json({
+        success: true,
+        data: {
+          workflowId: replay.id,
+          replayOfId: replay.replayOfId,
+          replayFromState: replay.replayFromState,
+          currentState: replay.currentState,
+        },
+      });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /workflows/:id/replays
+   * Replays branched from this workflow, newest first.
+   */
+  async listReplays(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const replays = await workflowReplayService.listReplays(req.user.tenantId, req.params.id);
+
+      res.json({ success: true, data: { workflowId: req.params.id, replays } });
+    } catch (error) {
+      next(error);
+    }
+  }
+
+  /**
+   * GET /workflows/:id/replay-comparison
+   * Side-by-side outcome of a replay (:id) and the run it was branched from.
+   */
+  async compareReplay(req: Request, res: Response, next: NextFunction): Promise<void> {
+    try {
+      if (!req.user) throw AppError.unauthorized('Not authenticated');
+
+      const comparison = await workflowReplayService.compare(req.user.tenantId, req.params.id);
+
+      res.json({ success: true, data: comparison });
+    } catch (error) {
+      next(error);
+    }
+  }
+}
+
+export const workflowReplayController = new WorkflowReplayController();
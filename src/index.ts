@@ -11,6 +11,7 @@ import { closeQueues } from './queues';
 import { closeRedisConnection } from './lib/redis';
 import { startWorkers, stopWorkers } from './workers';
 import { startWorkflowRecovery, stopWorkflowRecovery } from './services/workflow/workflow-recovery.service';
+import { startHitlEscalation, stopHitlEscalation } from './services/workflow/hitl-escalation.service';
 import { isRedisConfigured } from './config/redis.config';
 import { sseService } from './sse/sse.service';
 import { websocketService } from './services/workflow/websocket.service';
@@ -137,6 +138,9 @@ const server = app.listen(config.port, '0.0.0.0', () => {
     logger.info('✅ Workflow recovery scanner started');
   }
 
+  startHitlEscalation();
+  logger.info('✅ HITL escalation sweep started');
+
   // Startup health check: make a real Claude API call to verify connectivity
   (async () => {
     try {
@@ -168,6 +172,7 @@ const gracefulShutdown = async () => {
     logger.info('HTTP server closed');
     
     stopWorkflowRecovery();
+    stopHitlEscalation();
     await stopWorkers();
 
     await closeQueues();
@@ -39,6 +39,7 @@ export const JOB_TYPES = {
   STYLE_VALIDATION: 'STYLE_VALIDATION',
   EDITORIAL_FULL: 'EDITORIAL_FULL',
   CALIBRATION_RUN: 'CALIBRATION_RUN',
+  PDF_TO_EPUB: 'PDF_TO_EPUB',
 } as const;
 
 export type JobType = typeof JOB_TYPES[keyof typeof JOB_TYPES];
@@ -6,6 +6,7 @@ import prisma from '../lib/prisma';
 import { config } from '../config';
 import { emailService } from '../services/email/email.service';
 import { notificationService } from '../services/notification/notification.service';
+import { workflowDefinitionService, resolveCanonicalState } from '../services/workflow/workflow-definition.service';
 
 interface WorkflowJobData {
   workflowId: string;
@@ -95,27 +96,29 @@ export function startWorkflowWorker(): Worker {
               user: { select: { email: true, firstName: true, lastName: true, tenantId: true } },
             },
           }),
+          // Grouped by definition too, so declarative step ids can be resolved to their action
           prisma.workflowInstance.groupBy({
-            by: ['currentState'],
+            by: ['currentState', 'definitionId'],
             where: { batchId },
             _count: true,
           }),
         ]);
 
         const TERMINAL_STATES = new Set(['COMPLETED', 'FAILED', 'CANCELLED']);
-        const total = batchStats.reduce((sum, s) => sum + s._count, 0);
-        const completed = batchStats.find(s => s.currentState === 'COMPLETED')?._count ?? 0;
-        const failed = batchStats.find(s => s.currentState === 'FAILED')?._count ?? 0;
-        const terminalCount = batchStats
-          .filter(s => TERMINAL_STATES.has(s.currentState))
+        const countStates = (match: (state: string) => boolean) => batchStats
+          .filter(s => match(s.currentState))
           .reduce((sum, s) => sum + s._count, 0);
+        const total = countStates(() => true);
+        const completed = countStates(state => state === 'COMPLETED');
+        const failed = countStates(state => state === 'FAILED');
+        const terminalCount = countStates(state => TERMINAL_STATES.has(state));
 
         // 1. Emit batch progress via WebSocket if enabled
         if (config.features.enableWebSocket && config.features.emitBatchProgress) {
           const currentStages: Record<string, number> = {};
           batchStats.forEach(s => {
             if (!TERMINAL_STATES.has(s.currentState)) {
-              currentStages[s.currentState] = s._count;
+              currentStages[s.currentState] = (currentStages[s.currentState] ?? 0) + s._count;
             }
           });
           websocketService.emitBatchProgress({ batchId, completed, total, currentStages, failedCount: failed });
@@ -128,14 +131,22 @@ export function startWorkflowWorker(): Worker {
           const batchUrl = `${process.env.APP_URL ?? ''}/workflow/batch/${batchId}`;
 
           const HITL_GATES = [
-            { state: 'AWAITING_AI_REVIEW',          gateName: 'AI Review',          gateKey: 'ai_review' },
-            { state: 'AWAITING_REMEDIATION_REVIEW', gateName: 'Remediation Review', gateKey: 'remediation_review' },
-            { state: 'AWAITING_CONFORMANCE_REVIEW', gateName: 'Conformance Review', gateKey: 'conformance_review' },
-            { state: 'AWAITING_ACR_SIGNOFF',        gateName: 'ACR Sign-off',       gateKey: 'acr_signoff' },
+            { action: 'AWAITING_AI_REVIEW',          gateName: 'AI Review',          gateKey: 'ai_review' },
+            { action: 'AWAITING_REMEDIATION_REVIEW', gateName: 'Remediation Review', gateKey: 'remediation_review' },
+            { action: 'AWAITING_CONFORMANCE_REVIEW', gateName: 'Conformance Review', gateKey: 'conformance_review' },
+            { action: 'AWAITING_ACR_SIGNOFF',        gateName: 'ACR Sign-off',       gateKey: 'acr_signoff' },
           ] as const;
 
-          for (const { state, gateName, gateKey } of HITL_GATES) {
-            const waitingCount = batchStats.find(s => s.currentState === state)?._count ?? 0;
+          // Count waiting workflows by gate action — declarative gates use their own step ids
+          const waitingByAction = new Map<string, number>();
+          for (const s of batchStats) {
+            const spec = s.definitionId ? await workflowDefinitionService.getSpec(s.definitionId) : null;
+            const action = resolveCanonicalState(spec, s.currentState);
+            waitingByAction.set(action, (waitingByAction.get(action) ?? 0) + s._count);
+          }
+
+          for (const { action, gateName, gateKey } of HITL_GATES) {
+            const waitingCount = waitingByAction.get(action) ?? 0;
             if (waitingCount === 0) continue;
 
             // Unique link per batch+gate acts as idempotency key
@@ -31,12 +31,32 @@ const upload = multer({
   fileFilter: epubFileFilter,
 });
 
+const openAcrFileFilter = (req: Express.Request, file: Express.Multer.File, cb: multer.FileFilterCallback) => {
+  const allowedExtensions = ['.yaml', '.yml', '.json'];
+  const ext = file.originalname.toLowerCase().slice(file.originalname.lastIndexOf('.'));
+
+  if (allowedExtensions.includes(ext)) {
+    cb(null, true);
+  } else {
+    cb(new Error('Only OpenACR YAML or JSON files are allowed'));
+  }
+};
+
+const openAcrUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB max
+  },
+  fileFilter: openAcrFileFilter,
+});
+
 router.use(authenticate);
 
 router.post('/analysis-with-upload', upload.single('file'), acrController.createAnalysisWithUpload.bind(acrController));
 router.get('/analysis/:jobId', acrController.getAnalysis.bind(acrController));
 router.post('/generate', acrController.generateAcr.bind(acrController));
 router.post('/generate-remarks', acrController.generateRemarks.bind(acrController));
+router.post('/import/openacr', openAcrUpload.single('file'), acrController.importOpenAcr.bind(acrController));
 router.get('/editions', acrController.getAllEditions.bind(acrController));
 router.get('/editions/:editionCode/criteria', acrController.getEditionCriteria.bind(acrController));
 router.get('/criteria/:criterionId', acrController.getCriterion.bind(acrController));
@@ -27,6 +27,11 @@ import {
   previewChangesSchema,
   validateDoisSchema,
   dismissChangesSchema,
+  uploadCslStyleSchema,
+  deleteCslStyleSchema,
+  formatBibliographySchema,
+  importReferencesSchema,
+  exportReferencesSchema,
 } from '../schemas/citation.schemas';
 
 // Rate limiter for file uploads: 10 uploads per 15 minutes per user
@@ -424,6 +429,21 @@ router.post(
   citationManagementController.resequenceByAppearance.bind(citationManagementController)
 );
 
+/**
+ * POST /api/v1/citation-management/document/:documentId/references/import
+ * Import a reference list from a reference manager export
+ * - Body: { content: string, format?: 'bibtex' | 'ris' | 'csl-json', mode?: 'merge' | 'replace', fileName?: string }
+ * - merge: entries matching by DOI, title or first author + year are updated, the rest appended
+ * - replace: the reference list is replaced and numbered in file order
+ * - Imported entries are linked to unlinked in-text citations (by number or author + year)
+ */
+router.post(
+  '/document/:documentId/references/import',
+  uploadRateLimiter,
+  validate(importReferencesSchema),
+  citationManagementController.importReferences.bind(citationManagementController)
+);
+
 // ============================================
 // SINGLE REFERENCE VALIDATION (CrossRef)
 // ============================================
@@ -472,6 +492,43 @@ router.get(
   citationManagementController.getStyles.bind(citationManagementController)
 );
 
+/**
+ * POST /api/v1/citation-management/styles/csl
+ * Upload a tenant CSL style
+ *
+ * Body:
+ * - xml: CSL 1.0 style document (max 512 KB)
+ * - name?: display name (defaults to the style's title)
+ */
+router.post(
+  '/styles/csl',
+  validate(uploadCslStyleSchema),
+  citationManagementController.uploadCslStyle.bind(citationManagementController)
+);
+
+/**
+ * DELETE /api/v1/citation-management/styles/csl/:code
+ * Delete a tenant CSL style
+ */
+router.delete(
+  '/styles/csl/:code',
+  validate(deleteCslStyleSchema),
+  citationManagementController.deleteCslStyle.bind(citationManagementController)
+);
+
+/**
+ * GET /api/v1/citation-management/document/:documentId/bibliography
+ * Format the reference list and in-text citations with a CSL style
+ *
+ * Query:
+ * - style: built-in style ('APA', 'Vancouver', ...) or tenant CSL style code
+ */
+router.get(
+  '/document/:documentId/bibliography',
+  validate(formatBibliographySchema),
+  citationManagementController.formatBibliography.bind(citationManagementController)
+);
+
 // ============================================
 // DOI VALIDATION
 // ============================================
@@ -514,6 +571,7 @@ router.get(
  *
  * Query:
  * - acceptChanges: 'true' | 'false' - If true, apply changes cleanly without Track Changes
+ * - fieldCodes: 'keep' | 'unlink' - Zotero/Mendeley/EndNote citation fields (default 'keep')
  */
 router.get(
   '/document/:documentId/export',
@@ -522,4 +580,19 @@ router.get(
   citationManagementController.exportDocument.bind(citationManagementController)
 );
 
+/**
+ * GET /api/v1/citation-management/document/:documentId/references/export
+ * Export the reference list for reference managers
+ * Rate limited: 30 exports per 15 minutes per user
+ *
+ * Query:
+ * - format: 'bibtex' | 'ris' | 'csl-json' (default 'bibtex')
+ */
+router.get(
+  '/document/:documentId/references/export',
+  exportRateLimiter,
+  validate(exportReferencesSchema),
+  citationManagementController.exportReferences.bind(citationManagementController)
+);
+
 export default router;
@@ -16,12 +16,15 @@ router.get('/remediation', (req, res) => {
 });
 
 router.patch('/remediation', (req, res) => {
-  const { colorContrastAutoFix } = req.body;
+  const { colorContrastAutoFix, latexImageConversion } = req.body;
   
   const updates: Record<string, boolean> = {};
   if (typeof colorContrastAutoFix === 'boolean') {
     updates.colorContrastAutoFix = colorContrastAutoFix;
   }
+  if (typeof latexImageConversion === 'boolean') {
+    updates.latexImageConversion = latexImageConversion;
+  }
   
   const config = updateRemediationConfig(updates);
   res.json({
@@ -19,6 +19,18 @@ const upload = multer({
     }
   },
 });
+const pageSourceUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: 200 * 1024 * 1024 },
+  fileFilter: (_req, file, cb) => {
+    // Print PDF of the same title, or a CSV page map
+    if (/\.(pdf|csv|txt)$/i.test(file.originalname) || ['application/pdf', 'text/csv', 'text/plain'].includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new Error('Only PDF or CSV page sources are allowed'));
+    }
+  },
+});
 
 router.post('/audit/:jobId', authenticate, authorizeJob, epubController.auditEPUB);
 router.post('/audit-upload', authenticate, upload.single('file'), epubController.auditFromBuffer);
@@ -42,6 +54,9 @@ router.patch('/job/:jobId/remediation/task/:taskId/fix', authenticate, authorize
 // maintained: authenticate still runs first, and authorizeJob checks ownership
 // after the file is buffered (file is discarded if ownership fails).
 router.post('/job/:jobId/reaudit', authenticate, upload.single('file'), authorizeJob, epubController.reauditEpub);
+router.post('/job/:jobId/page-list', authenticate, pageSourceUpload.single('source'), authorizeJob, epubController.generatePageList);
+router.post('/job/:jobId/upgrade-epub3', authenticate, authorizeJob, epubController.upgradeToEpub3);
+router.post('/job/:jobId/mathml', authenticate, authorizeJob, epubController.remediateMath);
 router.post('/job/:jobId/transfer-to-acr', authenticate, authorizeJob, epubController.transferToAcr);
 router.get('/acr/:acrWorkflowId', authenticate, epubController.getAcrWorkflow);
 router.patch('/acr/:acrWorkflowId/criteria/:criteriaId', authenticate, epubController.updateAcrCriteria);
@@ -9,7 +9,9 @@ const EXPORTS_DIR = path.join(process.cwd(), 'exports');
 const MIME_TYPES: Record<string, string> = {
   '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
   '.pdf': 'application/pdf',
-  '.html': 'text/html'
+  '.html': 'text/html',
+  '.yaml': 'application/yaml',
+  '.json': 'application/json'
 };
 
 router.get('/:filename', async (req: Request, res: Response) => {
@@ -40,6 +40,11 @@ import notificationRoutes from "./notification.routes";
 import integrityRoutes from "./integrity.routes";
 import plagiarismRoutes from "./plagiarism.routes";
 import pdfAiAnalysisRoutes from "./pdf-ai-analysis.routes";
+import pdfFormFieldRoutes from "./pdf-form-field.routes";
+import pdfLinkRoutes from "./pdf-link.routes";
+import pdfTableRoutes from "./pdf-table.routes";
+import pdfReadingOrderRoutes from "./pdf-reading-order.routes";
+import pdfEpubConversionRoutes from "./pdf-epub-conversion.routes";
 import pacReportRoutes from "./pac-report.routes";
 import zonesRoutes from "./zones.routes";
 import zoneExtractorRoutes from "./zone-extractor.routes";
@@ -81,6 +86,7 @@ router.get("/", (req, res) => {
         delete: "DELETE /api/v1/products/:id",
         jobs: "GET /api/v1/products/:id/jobs",
         vpats: "GET /api/v1/products/:id/vpats",
+        autoApprovalPolicy: "GET|PUT /api/v1/products/:id/auto-approval-policy",
       },
       jobs: {
         list: "GET /api/v1/jobs",
@@ -150,6 +156,11 @@ router.use("/notifications", notificationRoutes);
 router.use("/integrity", integrityRoutes);
 router.use("/plagiarism", plagiarismRoutes);
 router.use("/pdf", pdfAiAnalysisRoutes);
+router.use("/pdf", pdfFormFieldRoutes);
+router.use("/pdf", pdfLinkRoutes);
+router.use("/pdf", pdfTableRoutes);
+router.use("/pdf", pdfReadingOrderRoutes);
+router.use("/pdf", pdfEpubConversionRoutes);
 router.use("/pdf", pacReportRoutes);
 router.use("/zones", zonesRoutes);
 router.use("/zone-extractor", zoneExtractorRoutes);
@@ -9,6 +9,7 @@ router.use(authenticate);
 // Aggregate routes MUST come before /:workflowId to avoid Express shadowing
 router.get('/aggregate/export', metricsController.exportAggregateCsv.bind(metricsController));
 router.get('/aggregate', metricsController.getAggregateReport.bind(metricsController));
+router.get('/reviewers', metricsController.getReviewerReport.bind(metricsController));
 
 // Per-resource detail reports
 router.get('/workflows/:workflowId', metricsController.getWorkflowDetailReport.bind(metricsController));
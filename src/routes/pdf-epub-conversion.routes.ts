@@ -0,0 +1,40 @@
+/**
+ * PDF → EPUB Conversion Routes
+ *
+ * Converts a PDF whose zones have been verified into an accessible EPUB 3,
+ * which is then audited automatically as an EPUB_ACCESSIBILITY job.
+ *
+ * All routes require authentication + job ownership authorization.
+ * Base path (registered in index.ts): /pdf
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeJob } from '../middleware/authorize-job.middleware';
+import { pdfEpubConversionController } from '../controllers/pdf-epub-conversion.controller';
+
+const router = Router();
+
+/**
+ * POST /pdf/:jobId/convert/epub
+ * Queue a PDF_TO_EPUB job for the PDF job. Body: { allowUnverified?: boolean }
+ */
+router.post(
+  '/:jobId/convert/epub',
+  authenticate,
+  authorizeJob,
+  pdfEpubConversionController.startConversion.bind(pdfEpubConversionController)
+);
+
+/**
+ * GET /pdf/:jobId/epub/download
+ * Download the EPUB of a completed conversion job.
+ */
+router.get(
+  '/:jobId/epub/download',
+  authenticate,
+  authorizeJob,
+  pdfEpubConversionController.downloadEpub.bind(pdfEpubConversionController)
+);
+
+export default router;
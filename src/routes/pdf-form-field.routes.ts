@@ -0,0 +1,83 @@
+/**
+ * PDF Form Field Routes
+ *
+ * Tooltip proposals for form fields, their review queue, and applying
+ * approved tooltips to the PDF.
+ *
+ * All routes require authentication + job ownership authorization.
+ * Base path (registered in index.ts): /pdf
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeJob } from '../middleware/authorize-job.middleware';
+import { pdfFormFieldController } from '../controllers/pdf-form-field.controller';
+
+const router = Router();
+
+/**
+ * POST /pdf/:jobId/form-fields/proposals
+ * Propose tooltips from nearby label text and queue them for review.
+ */
+router.post(
+  '/:jobId/form-fields/proposals',
+  authenticate,
+  authorizeJob,
+  pdfFormFieldController.generateProposals.bind(pdfFormFieldController)
+);
+
+/**
+ * GET /pdf/:jobId/form-fields/review-queue
+ * Query: status, minConfidence, maxConfidence
+ */
+router.get(
+  '/:jobId/form-fields/review-queue',
+  authenticate,
+  authorizeJob,
+  pdfFormFieldController.getReviewQueue.bind(pdfFormFieldController)
+);
+
+/**
+ * POST /pdf/:jobId/form-fields/batch-approve
+ * Body: { minConfidence?: number, ids?: string[] }
+ */
+router.post(
+  '/:jobId/form-fields/batch-approve',
+  authenticate,
+  authorizeJob,
+  pdfFormFieldController.batchApprove.bind(pdfFormFieldController)
+);
+
+/**
+ * POST /pdf/:jobId/form-fields/apply
+ * Write approved tooltips, /Form tags and tab order into the remediated PDF.
+ */
+router.post(
+  '/:jobId/form-fields/apply',
+  authenticate,
+  authorizeJob,
+  pdfFormFieldController.apply.bind(pdfFormFieldController)
+);
+
+/**
+ * POST /pdf/:jobId/form-fields/:id/approve
+ * Body: { approvedTooltip?: string } — an edited tooltip marks the proposal "edited".
+ */
+router.post(
+  '/:jobId/form-fields/:id/approve',
+  authenticate,
+  authorizeJob,
+  pdfFormFieldController.approve.bind(pdfFormFieldController)
+);
+
+/**
+ * POST /pdf/:jobId/form-fields/:id/reject
+ */
+router.post(
+  '/:jobId/form-fields/:id/reject',
+  authenticate,
+  authorizeJob,
+  pdfFormFieldController.reject.bind(pdfFormFieldController)
+);
+
+export default router;
@@ -0,0 +1,28 @@
+/**
+ * PDF Link Routes
+ *
+ * Link remediation for PDF jobs.
+ *
+ * All routes require authentication + job ownership authorization.
+ * Base path (registered in index.ts): /pdf
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeJob } from '../middleware/authorize-job.middleware';
+import { pdfLinkController } from '../controllers/pdf-link.controller';
+
+const router = Router();
+
+/**
+ * POST /pdf/:jobId/links/remediate
+ * Describe link annotations, link bare URLs and tag links as /Link.
+ */
+router.post(
+  '/:jobId/links/remediate',
+  authenticate,
+  authorizeJob,
+  pdfLinkController.remediate.bind(pdfLinkController)
+);
+
+export default router;
@@ -0,0 +1,64 @@
+/**
+ * PDF Reading-Order Routes
+ *
+ * Reading-order editor backed by the structure tree. Edits are made within
+ * a remediation session (POST /pdf/:jobId/remediation-session/start) and
+ * can be undone newest first.
+ *
+ * All routes require authentication + job ownership authorization.
+ * Base path (registered in index.ts): /pdf
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeJob } from '../middleware/authorize-job.middleware';
+import { pdfReadingOrderController } from '../controllers/pdf-reading-order.controller';
+
+const router = Router();
+
+/**
+ * GET /pdf/:jobId/reading-order
+ * Structure blocks per page in reading order, with their MCIDs and text.
+ */
+router.get(
+  '/:jobId/reading-order',
+  authenticate,
+  authorizeJob,
+  pdfReadingOrderController.getReadingOrder.bind(pdfReadingOrderController)
+);
+
+/**
+ * GET /pdf/:jobId/remediation-session/:sessionId/structure-edits
+ * Edits made in the session, newest first.
+ */
+router.get(
+  '/:jobId/remediation-session/:sessionId/structure-edits',
+  authenticate,
+  authorizeJob,
+  pdfReadingOrderController.listEdits.bind(pdfReadingOrderController)
+);
+
+/**
+ * POST /pdf/:jobId/remediation-session/:sessionId/structure-edits
+ * Body: { operation: 'reorder', pageNumber, order } | { operation: 'merge', ids }
+ *     | { operation: 'split', id, at } | { operation: 'retag', id, type }
+ */
+router.post(
+  '/:jobId/remediation-session/:sessionId/structure-edits',
+  authenticate,
+  authorizeJob,
+  pdfReadingOrderController.applyEdit.bind(pdfReadingOrderController)
+);
+
+/**
+ * POST /pdf/:jobId/remediation-session/:sessionId/structure-edits/undo
+ * Restore the PDF as it was before the session's newest edit.
+ */
+router.post(
+  '/:jobId/remediation-session/:sessionId/structure-edits/undo',
+  authenticate,
+  authorizeJob,
+  pdfReadingOrderController.undoEdit.bind(pdfReadingOrderController)
+);
+
+export default router;
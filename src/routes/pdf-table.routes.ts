@@ -0,0 +1,30 @@
+/**
+ * PDF Table Routes
+ *
+ * Table structure remediation for PDF jobs. The grid itself is edited and
+ * saved through the zone API (POST /zones/:id/table-structure).
+ *
+ * All routes require authentication + job ownership authorization.
+ * Base path (registered in index.ts): /pdf
+ */
+
+import { Router } from 'express';
+import { authenticate } from '../middleware/auth.middleware';
+import { authorizeJob } from '../middleware/authorize-job.middleware';
+import { pdfTableController } from '../controllers/pdf-table.controller';
+
+const router = Router();
+
+/**
+ * POST /pdf/:jobId/tables/:tableId/structure
+ * Body: { grid } or { zoneId }
+ * Retag the table's cells (TH / TD, scope, spans, headers) from the grid.
+ */
+router.post(
+  '/:jobId/tables/:tableId/structure',
+  authenticate,
+  authorizeJob,
+  pdfTableController.applyStructure.bind(pdfTableController)
+);
+
+export default router;
@@ -1,4 +1,6 @@
 import { Router } from 'express';
+import { authenticate, authorize } from '../middleware/auth.middleware';
+import { autoApprovalPolicyController } from '../controllers/workflow/auto-approval-policy.controller';
 
 const router = Router();
 
@@ -30,4 +32,26 @@ router.get('/:id/vpats', (req, res) => {
   res.status(501).json({ message: 'Not implemented yet' });
 });
 
+/**
+ * GET /api/v1/products/:id/auto-approval-policy
+ * Get the product-level HITL auto-approval policy for single workflows.
+ */
+router.get(
+  '/:id/auto-approval-policy',
+  authenticate,
+  autoApprovalPolicyController.getProductPolicy.bind(autoApprovalPolicyController)
+);
+
+/**
+ * PUT /api/v1/products/:id/auto-approval-policy
+ * Set or clear (null) the product-level auto-approval policy. Admin only.
+ * Request body: { autoApprovalPolicy: GateApprovalPolicy | null }
+ */
+router.put(
+  '/:id/auto-approval-policy',
+  authenticate,
+  authorize('ADMIN'),
+  autoApprovalPolicyController.setProductPolicy.bind(autoApprovalPolicyController)
+);
+
 export default router;
@@ -122,4 +122,28 @@ router.patch(
   tenantConfigController.updatePrhConfig.bind(tenantConfigController)
 );
 
+/**
+ * GET /api/v1/tenant/config/publisher-profiles
+ * Get the tenant's publisher-profile configuration and the resolved
+ * profile list (built-ins that are enabled plus custom declarative
+ * profiles) that EPUB detection runs against.
+ */
+router.get(
+  '/publisher-profiles',
+  authenticate,
+  tenantConfigController.getPublisherProfilesConfig.bind(tenantConfigController)
+);
+
+/**
+ * PATCH /api/v1/tenant/config/publisher-profiles
+ * Replace the tenant's publisher-profile configuration. ADMIN-ONLY.
+ * Body: { enabled?: string[], custom: DeclarativeProfileConfig[] }.
+ */
+router.patch(
+  '/publisher-profiles',
+  authenticate,
+  authorize('ADMIN'),
+  tenantConfigController.updatePublisherProfilesConfig.bind(tenantConfigController)
+);
+
 export default router;
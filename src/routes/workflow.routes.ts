@@ -1,6 +1,9 @@
 import { Router } from 'express';
-import { authenticate } from '../middleware/auth.middleware';
+import { authenticate, authorize } from '../middleware/auth.middleware';
 import { workflowController } from '../controllers/workflow.controller';
+import { workflowDefinitionController } from '../controllers/workflow/workflow-definition.controller';
+import { autoApprovalPolicyController } from '../controllers/workflow/auto-approval-policy.controller';
+import { workflowReplayController } from '../controllers/workflow/workflow-replay.controller';
 
 const router = Router();
 
@@ -19,6 +22,13 @@ router.get('/batch/:batchId/hitl/:gate/clusters', workflowController.getBatchHIT
 router.put('/batch/:batchId/hitl/cluster/:clusterId/decision', workflowController.updateClusterDecision.bind(workflowController));
 router.post('/batch/:batchId/hitl/:gate/apply-decisions', workflowController.applyBatchDecisions.bind(workflowController));
 
+// Tenant workflow definitions — must come before /:id; writes are admin-only
+router.get('/definitions', workflowDefinitionController.listDefinitions.bind(workflowDefinitionController));
+router.post('/definitions', authorize('ADMIN'), workflowDefinitionController.saveDefinition.bind(workflowDefinitionController));
+router.post('/definitions/deactivate', authorize('ADMIN'), workflowDefinitionController.deactivateDefinitions.bind(workflowDefinitionController));
+router.get('/definitions/:definitionId', workflowDefinitionController.getDefinition.bind(workflowDefinitionController));
+router.post('/definitions/:definitionId/activate', authorize('ADMIN'), workflowDefinitionController.activateDefinition.bind(workflowDefinitionController));
+
 // Metrics — must come before /:id to avoid Express treating 'metrics' as a workflow ID
 router.post('/:id/metrics/review-started', workflowController.recordReviewStarted.bind(workflowController));
 
@@ -31,6 +41,15 @@ router.post('/:id/cancel', workflowController.cancelWorkflow.bind(workflowContro
 router.post('/:id/retry', workflowController.retryWorkflow.bind(workflowController));
 router.get('/:id/timeline', workflowController.getTimeline.bind(workflowController));
 
+// Replay: re-run from an earlier step as a new workflow linked to the original
+router.post('/:id/replay', workflowReplayController.replayWorkflow.bind(workflowReplayController));
+router.get('/:id/replays', workflowReplayController.listReplays.bind(workflowReplayController));
+router.get('/:id/replay-comparison', workflowReplayController.compareReplay.bind(workflowReplayController));
+
+// Auto-approval policy: explain which policy applies per gate, or attach a workflow-level one (admin-only)
+router.get('/:id/auto-approval-policy', autoApprovalPolicyController.explainWorkflowPolicy.bind(autoApprovalPolicyController));
+router.put('/:id/auto-approval-policy', authorize('ADMIN'), autoApprovalPolicyController.setWorkflowPolicy.bind(autoApprovalPolicyController));
+
 // Remediated file download
 router.get('/:id/download', workflowController.downloadRemediatedFile.bind(workflowController));
 
@@ -1,12 +1,76 @@
 import { Router } from 'express';
 import { hitlController } from '../../controllers/workflow/hitl.controller';
-import { authenticate } from '../../middleware/auth.middleware';
+import { hitlAssignmentController } from '../../controllers/workflow/hitl-assignment.controller';
+import { authenticate, authorize } from '../../middleware/auth.middleware';
 
 const router = Router();
 
 // All HITL routes require authentication
 router.use(authenticate);
 
+/**
+ * @route GET /api/v1/workflow/hitl/queue
+ * @desc List open HITL gates with their current owner and next escalation
+ * @access Private
+ */
+router.get('/queue', (req, res, next) =>
+  hitlAssignmentController.getQueue(req, res, next)
+);
+
+/**
+ * @route GET /api/v1/workflow/hitl/queue/mine
+ * @desc List open HITL gates assigned to the current user or their role
+ * @access Private
+ */
+router.get('/queue/mine', (req, res, next) =>
+  hitlAssignmentController.getMyQueue(req, res, next)
+);
+
+/**
+ * @route GET /api/v1/workflow/hitl/reviewers
+ * @desc List reviewer profiles (skills, gates, capacity) with open-gate load
+ * @access Private
+ */
+router.get('/reviewers', (req, res, next) =>
+  hitlAssignmentController.listReviewers(req, res, next)
+);
+
+/**
+ * @route PUT /api/v1/workflow/hitl/reviewers/:userId
+ * @desc Create or replace a reviewer profile
+ * @access Private (ADMIN)
+ */
+router.put('/reviewers/:userId', authorize('ADMIN'), (req, res, next) =>
+  hitlAssignmentController.upsertReviewer(req, res, next)
+);
+
+/**
+ * @route PUT /api/v1/workflow/hitl/assignments/:assignmentId
+ * @desc Assign an open gate to a user or a role
+ * @access Private (ADMIN, OPERATOR)
+ */
+router.put('/assignments/:assignmentId', authorize('ADMIN', 'OPERATOR'), (req, res, next) =>
+  hitlAssignmentController.assign(req, res, next)
+);
+
+/**
+ * @route POST /api/v1/workflow/hitl/assignments/:assignmentId/auto-assign
+ * @desc Move an open gate to the least-loaded other qualified reviewer
+ * @access Private (ADMIN, OPERATOR)
+ */
+router.post('/assignments/:assignmentId/auto-assign', authorize('ADMIN', 'OPERATOR'), (req, res, next) =>
+  hitlAssignmentController.autoAssign(req, res, next)
+);
+
+/**
+ * @route GET /api/v1/workflow/hitl/:workflowId/assignments
+ * @desc List a workflow's gate assignments with owner history
+ * @access Private
+ */
+router.get('/:workflowId/assignments', (req, res, next) =>
+  hitlAssignmentController.getWorkflowAssignments(req, res, next)
+);
+
 /**
  * @route POST /api/v1/workflow/hitl/:workflowId/ai-review/approve
  * @desc Approve AI analysis review
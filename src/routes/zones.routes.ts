@@ -1,6 +1,7 @@
 import { Router, Request, Response } from 'express';
 import { authenticate } from '../middleware/auth.middleware';
 import { zoneService } from '../services/zone.service';
+import { saveTableStructureSchema } from '../schemas/pdf-table.schemas';
 
 const router = Router();
 
@@ -87,8 +88,12 @@ router.post('/:id/table-structure', authenticate, async (req: Request, res: Resp
     if (!thead || !tbody) {
       return res.status(400).json({ success: false, error: { code: 'MISSING_FIELDS', message: 'thead and tbody are required' } });
     }
+    const parsed = saveTableStructureSchema.safeParse({ thead, tbody });
+    if (!parsed.success) {
+      return res.status(400).json({ success: false, error: { code: 'INVALID_TABLE_STRUCTURE', message: parsed.error.message } });
+    }
 
-    const zone = await zoneService.updateTableStructure(id, tenantId, thead, tbody);
+    const zone = await zoneService.updateTableStructure(id, tenantId, parsed.data.thead, parsed.data.tbody);
     return res.json({ success: true, data: zone });
   } catch (err) {
     return res.status(500).json({ success: false, error: { code: 'INTERNAL_ERROR', message: (err as Error).message } });
@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { ACR_EDITIONS } from '../services/acr/acr-generator.service';
+import { EXPORT_FORMATS } from '../services/acr/acr-exporter.service';
 
 export const batchAcrGenerateSchema = z.object({
   batchId: z.string().min(1, 'Batch ID is required'),
@@ -22,7 +23,7 @@ export const batchAcrGenerateSchema = z.object({
 });
 
 export const batchAcrExportSchema = z.object({
-  format: z.enum(['pdf', 'docx', 'html']).describe('Export format is required'),
+  format: z.enum(EXPORT_FORMATS).describe('Export format is required'),
   includeMethodology: z.boolean().optional().default(true),
 });
 
@@ -262,6 +262,66 @@ export const validateDoisSchema = {
   }).optional()
 };
 
+/**
+ * Upload a tenant CSL style (XML in the JSON body; the WAF blocks multipart)
+ */
+export const uploadCslStyleSchema = {
+  body: z.object({
+    xml: z.string().min(1, 'CSL XML is required').max(512 * 1024, 'CSL style exceeds 512 KB'),
+    name: z.string().trim().min(1).max(200).optional()
+  })
+};
+
+/**
+ * Delete a tenant CSL style
+ */
+export const deleteCslStyleSchema = {
+  params: z.object({
+    code: z.string().min(1).max(200)
+  })
+};
+
+/**
+ * Format a document's bibliography and in-text citations with a CSL style
+ * (built-in style name or tenant style code)
+ */
+export const formatBibliographySchema = {
+  params: z.object({
+    documentId: z.string().uuid('Invalid document ID format')
+  }),
+  query: z.object({
+    style: z.string().min(1).max(200).describe('Built-in style or tenant CSL style code')
+  })
+};
+
+/**
+ * Import a BibTeX, RIS or CSL-JSON file into the reference list
+ * (file content in the JSON body; the WAF blocks multipart)
+ */
+export const importReferencesSchema = {
+  params: z.object({
+    documentId: z.string().uuid('Invalid document ID format')
+  }),
+  body: z.object({
+    content: z.string().min(1, 'Bibliography content is required').max(5 * 1024 * 1024, 'Bibliography exceeds 5 MB'),
+    format: z.enum(['bibtex', 'ris', 'csl-json']).optional().describe('Detected from fileName or content when omitted'),
+    mode: z.enum(['merge', 'replace']).optional().default('merge'),
+    fileName: z.string().max(255).optional()
+  })
+};
+
+/**
+ * Export the reference list as BibTeX, RIS or CSL-JSON
+ */
+export const exportReferencesSchema = {
+  params: z.object({
+    documentId: z.string().uuid('Invalid document ID format')
+  }),
+  query: z.object({
+    format: z.enum(['bibtex', 'ris', 'csl-json']).default('bibtex')
+  })
+};
+
 // ============================================
 // QUERY SCHEMAS
 // ============================================
@@ -277,7 +337,11 @@ export const exportDocumentSchema = {
     acceptChanges: z.string()
       .optional()
       .transform(val => val === 'true')
-      .describe('If true, apply changes cleanly without Track Changes markup')
+      .describe('If true, apply changes cleanly without Track Changes markup'),
+    fieldCodes: z.enum(['keep', 'unlink'])
+      .optional()
+      .default('keep')
+      .describe('Zotero / Mendeley / EndNote citation fields: keep linked or convert to plain text')
   })
 };
 
@@ -313,3 +377,7 @@ export type AnalysisQuery = z.infer<NonNullable<typeof analysisQuerySchema.query
 export type PreviewChangesQuery = z.infer<NonNullable<typeof previewChangesSchema.query>>;
 export type ValidateDoisQuery = z.infer<NonNullable<typeof validateDoisSchema.query>>;
 export type DismissChangesBody = z.infer<typeof dismissChangesSchema.body>;
+export type UploadCslStyleBody = z.infer<typeof uploadCslStyleSchema.body>;
+export type FormatBibliographyQuery = z.infer<typeof formatBibliographySchema.query>;
+export type ImportReferencesBody = z.infer<typeof importReferencesSchema.body>;
+export type ExportReferencesQuery = z.infer<typeof exportReferencesSchema.query>;
@@ -28,6 +28,7 @@ export const integrityCheckTypeEnum = z.enum([
   'ISBN_FORMAT',
   'DOI_FORMAT',
   'TERMINOLOGY',
+  'RETRACTED_REFERENCE',
 ]);
 
 // ── Param Schemas ────────────────────────────────────────────────
@@ -0,0 +1,18 @@
+/**
+ * PDF → EPUB Conversion Validation Schemas
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for starting a conversion
+ * POST /api/v1/pdf/:jobId/convert/epub
+ *
+ * Zones must be verified in the zone editor first; `allowUnverified`
+ * converts anyway, and the EPUB then makes no reading-order claim.
+ */
+export const convertToEpubSchema = z.object({
+  allowUnverified: z.boolean().default(false),
+});
+
+export type ConvertToEpubInput = z.infer<typeof convertToEpubSchema>;
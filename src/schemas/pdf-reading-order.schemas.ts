@@ -0,0 +1,53 @@
+/**
+ * PDF Reading-Order Editor Validation Schemas
+ *
+ * Edits made in the reading-order editor against the structure tree of a
+ * tagged PDF. Elements are addressed by the id returned with the reading
+ * order ("{objectNumber}-{generation}").
+ */
+
+import { z } from 'zod';
+
+/** Standard structure types (ISO 32000-1, 14.8.4) an element can be retagged to. */
+export const STANDARD_STRUCTURE_TYPES = [
+  'Document', 'Part', 'Art', 'Sect', 'Div', 'BlockQuote', 'Caption', 'TOC', 'TOCI',
+  'Index', 'NonStruct', 'Private', 'P', 'H', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6',
+  'L', 'LI', 'Lbl', 'LBody', 'Table', 'TR', 'TH', 'TD', 'THead', 'TBody', 'TFoot',
+  'Span', 'Quote', 'Note', 'Reference', 'BibEntry', 'Code', 'Link', 'Annot',
+  'Ruby', 'RB', 'RT', 'RP', 'Warichu', 'WT', 'WP', 'Figure', 'Formula', 'Form',
+] as const;
+
+export const structureElementIdSchema = z.string().regex(/^\d+-\d+$/, 'Expected an element id such as "12-0"');
+
+/**
+ * Schema for one reading-order edit
+ * POST /api/v1/pdf/:jobId/reading-order/sessions/:sessionId/edits
+ *
+ *   reorder — new order of every block listed for the page
+ *   merge   — blocks merged into the first, in the given order
+ *   split   — element split before its child at `at`
+ *   retag   — new structure type for the element
+ */
+export const structureEditSchema = z.discriminatedUnion('operation', [
+  z.object({
+    operation: z.literal('reorder'),
+    pageNumber: z.number().int().min(1),
+    order: z.array(structureElementIdSchema).min(1).max(5000),
+  }),
+  z.object({
+    operation: z.literal('merge'),
+    ids: z.array(structureElementIdSchema).min(2).max(200),
+  }),
+  z.object({
+    operation: z.literal('split'),
+    id: structureElementIdSchema,
+    at: z.number().int().min(1),
+  }),
+  z.object({
+    operation: z.literal('retag'),
+    id: structureElementIdSchema,
+    type: z.enum(STANDARD_STRUCTURE_TYPES),
+  }),
+]);
+
+export type StructureEdit = z.infer<typeof structureEditSchema>;
@@ -0,0 +1,61 @@
+/**
+ * PDF Table Structure Validation Schemas
+ *
+ * The table grid edited in the zone editor and written into the /Table
+ * structure subtree of a tagged PDF.
+ */
+
+import { z } from 'zod';
+
+export const tableHeaderScopeSchema = z.enum(['Row', 'Column', 'Both']);
+
+/**
+ * One cell of a table grid row. Cells covered by a span of an earlier cell
+ * are omitted, as in HTML. `scope`, `id` and `headers` are optional: when
+ * left out they are derived from the grid when the table is written.
+ */
+export const tableGridCellSchema = z.object({
+  type: z.enum(['TH', 'TD']),
+  content: z.string().default(''),
+  colspan: z.number().int().min(1).max(100).default(1),
+  rowspan: z.number().int().min(1).max(1000).default(1),
+  align: z.string().default('left'),
+  scope: tableHeaderScopeSchema.optional(),
+  id: z.string().trim().min(1).max(100).optional(),
+  headers: z.array(z.string().trim().min(1).max(100)).max(50).optional(),
+});
+
+const tableGridRowSchema = z.object({ cells: z.array(tableGridCellSchema).min(1) });
+
+export const tableGridSchema = z.object({
+  rows: z.array(tableGridRowSchema).min(1),
+});
+
+/**
+ * Schema for saving an edited table grid
+ * POST /api/v1/zones/:id/table-structure
+ *
+ * `thead` may have no rows: tables without a header row, or with row
+ * headers only, keep all their rows in `tbody`.
+ */
+export const saveTableStructureSchema = z.object({
+  thead: z.object({ rows: z.array(tableGridRowSchema) }),
+  tbody: tableGridSchema,
+});
+
+/**
+ * Schema for writing a table grid into the PDF
+ * POST /api/v1/pdf/:jobId/tables/:tableId/structure
+ */
+export const applyTableStructureSchema = z
+  .object({
+    grid: tableGridSchema.optional(),
+    zoneId: z.string().min(1).optional(),
+  })
+  .refine((body) => (body.grid ? !body.zoneId : !!body.zoneId), {
+    message: 'Provide either grid or zoneId',
+  });
+
+export type TableHeaderScope = z.infer<typeof tableHeaderScopeSchema>;
+export type TableGridCell = z.infer<typeof tableGridCellSchema>;
+export type TableGrid = z.infer<typeof tableGridSchema>;
@@ -623,6 +623,8 @@ export class AcrService {
       'EPUB-META': ['1.3.1', '4.1.2'],
       'IMAGE-ALT': ['1.1.1'],
       'EPUB-IMG-001': ['1.1.1'],
+      'EPUB-MATH-001': ['1.1.1'],
+      'EPUB-MATH-002': ['1.1.1'],
       'HEADING': ['1.3.1', '2.4.6'],
       'EPUB-STRUCT-003': ['1.3.1', '2.4.6'],
       'TABLE': ['1.3.1'],
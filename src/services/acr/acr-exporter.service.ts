@@ -15,8 +15,13 @@ import {
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { AcrDocument } from './acr-generator.service';
+import { wcagCriteriaService } from '../validation/wcag-criteria.service';
+import { openAcrService } from './openacr.service';
 
-export type ExportFormat = 'docx' | 'pdf' | 'html';
+/** `openacr-yaml` and `openacr-json` write GSA OpenACR machine-readable reports. */
+export const EXPORT_FORMATS = ['docx', 'pdf', 'html', 'openacr-yaml', 'openacr-json'] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
 
 export interface BrandingOptions {
   companyName?: string;
@@ -106,6 +111,12 @@ function formatEdition(edition: string, preserveExact: boolean = false): string
   return `VPAT 2.5 ${edition}`;
 }
 
+// Edition line plus the WCAG version the report was evaluated against, e.g. "VPAT 2.5 INT (WCAG 2.2)"
+function formatEditionWithWcag(acr: AcrDocument, preserveExact: boolean = false): string {
+  const edition = formatEdition(acr.edition, preserveExact);
+  return acr.wcagVersion ? `${edition} (${wcagCriteriaService.getEditionLabel(acr.wcagVersion)})` : edition;
+}
+
 function formatEvaluationMethod(method: { type: string; description?: string }): string {
   const typeMap: Record<string, string> = {
     'hybrid': 'Hybrid',
@@ -211,7 +222,7 @@ async function exportToDocx(
   }
 
   // Use exact edition string if it already looks like a display format
-  const editionDisplayDocx = formatEdition(acr.edition, acr.edition.toLowerCase().includes('vpat'));
+  const editionDisplayDocx = formatEditionWithWcag(acr, acr.edition.toLowerCase().includes('vpat'));
   
   const children: (Paragraph | Table)[] = [
     new Paragraph({
@@ -348,7 +359,7 @@ async function exportToPdf(
   yPosition -= 20;
 
   // Use exact edition string if it already looks like a display format
-  const editionDisplay = formatEdition(acr.edition, acr.edition.toLowerCase().includes('vpat'));
+  const editionDisplay = formatEditionWithWcag(acr, acr.edition.toLowerCase().includes('vpat'));
   page.drawText(editionDisplay, {
     x: margin,
     y: yPosition,
@@ -642,7 +653,7 @@ function exportToHtml(
 <body>
   <header>
     <h1>Voluntary Product Accessibility Template (VPAT)</h1>
-    <p>${formatEdition(acr.edition)} | ${companyName}</p>
+    <p>${formatEditionWithWcag(acr)} | ${companyName}</p>
   </header>
 
   <section>
@@ -678,6 +689,14 @@ function exportToHtml(
 </html>`;
 }
 
+function exportToOpenAcr(acr: AcrDocument, options: ExportOptions, format: 'yaml' | 'json'): string {
+  const report = openAcrService.toOpenAcr(acr, {
+    includeMethodology: options.includeMethodology,
+    includeAttribution: options.includeAttribution
+  });
+  return openAcrService.serialize(report, format);
+}
+
 async function exportAcr(
   acr: AcrDocument,
   options: ExportOptions
@@ -704,6 +723,14 @@ async function exportAcr(
       buffer = Buffer.from(exportToHtml(acr, options), 'utf-8');
       extension = 'html';
       break;
+    case 'openacr-yaml':
+      buffer = Buffer.from(exportToOpenAcr(acr, options, 'yaml'), 'utf-8');
+      extension = 'yaml';
+      break;
+    case 'openacr-json':
+      buffer = Buffer.from(exportToOpenAcr(acr, options, 'json'), 'utf-8');
+      extension = 'json';
+      break;
     default:
       throw new Error(`Unsupported export format: ${options.format}`);
   }
@@ -729,7 +756,8 @@ export const acrExporterService = {
   exportAcr,
   exportToDocx,
   exportToPdf,
-  exportToHtml
+  exportToHtml,
+  exportToOpenAcr
 };
 
 export { exportAcr };
@@ -8,8 +8,10 @@ import {
   generateFooterDisclaimer 
 } from './attribution.service';
 import { logger } from '../../lib/logger';
+import type { RenditionLayout } from '../epub/profiles/fixed-layout';
 import { wcagIssueMapperService, IssueMapping, AuditIssueInput } from './wcag-issue-mapper.service';
 import { ConfidenceAnalyzerService } from './confidence-analyzer.service';
+import { wcagCriteriaService, WcagVersion, WCAGCriterion, WCAG_VERSIONS } from '../validation/wcag-criteria.service';
 
 /**
  * Single source of truth for the supported ACR / VPAT editions. Schemas
@@ -32,6 +34,19 @@ export const ACR_EDITIONS = [
 
 export type AcrEdition = (typeof ACR_EDITIONS)[number];
 
+/**
+ * WCAG version each edition reports against when the ACR does not choose
+ * one. Section 508 incorporates WCAG 2.0 and EN 301 549 v3.2.1 WCAG 2.1;
+ * the WCAG, International and PRH UK editions follow WCAG 2.2.
+ */
+export const EDITION_WCAG_VERSIONS: Record<AcrEdition, WcagVersion> = {
+  'VPAT2.5-508': '2.0',
+  'VPAT2.5-WCAG': '2.2',
+  'VPAT2.5-EU': '2.1',
+  'VPAT2.5-INT': '2.2',
+  'VPAT2.5-PRH-UK': '2.2',
+};
+
 /**
  * Publisher-specific metadata that some VPAT editions embed. Today this
  * is populated only by the PRH UK edition (certifier-of-record string,
@@ -106,13 +121,22 @@ export interface AcrDocument {
    * publisher profile (today: only `VPAT2.5-PRH-UK`).
    */
   publisherMetadata?: AcrPublisherMetadata;
+  /** WCAG version the success-criteria tables were evaluated against. */
+  wcagVersion?: WcagVersion;
 }
 
 export interface AcrGenerationOptions {
   edition?: AcrEdition;
+  /** Overrides the edition's default WCAG version (EDITION_WCAG_VERSIONS). */
+  wcagVersion?: WcagVersion;
   includeAppendix?: boolean;
   includeMethodology?: boolean;
   productInfo: ProductInfo;
+  /**
+   * `rendition:layout` from the audit. Pre-paginated books get remarks
+   * that describe fixed-layout limits instead of reflowable defaults.
+   */
+  renditionLayout?: RenditionLayout;
 }
 
 export interface EditionInfo {
@@ -122,6 +146,8 @@ export interface EditionInfo {
   description: string;
   standards: string[];
   recommended: boolean;
+  /** Default WCAG version of the edition's success-criteria tables. */
+  wcagVersion: WcagVersion;
   criteriaCount?: number;
   criteria?: AcrCriterion[];
   isRecommended?: boolean;  // Alias for 'recommended'
@@ -144,17 +170,19 @@ const EDITION_INFO: Record<AcrEdition, EditionInfo> = {
     code: 'VPAT2.5-508',
     name: 'Section 508 Edition',
     description: 'U.S. Federal procurement requirements only',
-    standards: ['Section 508'],
+    standards: ['Section 508', 'WCAG 2.0'],
     recommended: false,
+    wcagVersion: EDITION_WCAG_VERSIONS['VPAT2.5-508'],
     isRecommended: false
   },
   'VPAT2.5-WCAG': {
     id: 'VPAT2.5-WCAG',
     code: 'VPAT2.5-WCAG',
     name: 'WCAG Edition',
-    description: 'General web accessibility (WCAG 2.1)',
-    standards: ['WCAG 2.1'],
+    description: 'General web accessibility (WCAG 2.2)',
+    standards: ['WCAG 2.2'],
     recommended: false,
+    wcagVersion: EDITION_WCAG_VERSIONS['VPAT2.5-WCAG'],
     isRecommended: false
   },
   'VPAT2.5-EU': {
@@ -162,8 +190,9 @@ const EDITION_INFO: Record<AcrEdition, EditionInfo> = {
     code: 'VPAT2.5-EU',
     name: 'EU Edition',
     description: 'European Accessibility Act (EN 301 549)',
-    standards: ['EN 301 549'],
+    standards: ['EN 301 549', 'WCAG 2.1'],
     recommended: false,
+    wcagVersion: EDITION_WCAG_VERSIONS['VPAT2.5-EU'],
     isRecommended: false
   },
   'VPAT2.5-INT': {
@@ -171,8 +200,9 @@ const EDITION_INFO: Record<AcrEdition, EditionInfo> = {
     code: 'VPAT2.5-INT',
     name: 'International Edition',
     description: 'Satisfies US Section 508, EU EN 301 549, and WCAG requirements in one document',
-    standards: ['Section 508', 'EN 301 549', 'WCAG 2.1'],
+    standards: ['Section 508', 'EN 301 549', 'WCAG 2.2'],
     recommended: true,
+    wcagVersion: EDITION_WCAG_VERSIONS['VPAT2.5-INT'],
     isRecommended: true
   },
   'VPAT2.5-PRH-UK': {
@@ -182,6 +212,7 @@ const EDITION_INFO: Record<AcrEdition, EditionInfo> = {
     description: 'Penguin Random House UK delivery profile — pinned to EPUB Accessibility 1.1 + WCAG 2.2 Level AA with PRH UK as certifier-of-record',
     standards: ['EPUB Accessibility 1.1', 'WCAG 2.2'],
     recommended: false,
+    wcagVersion: EDITION_WCAG_VERSIONS['VPAT2.5-PRH-UK'],
     isRecommended: false
   }
 };
@@ -202,6 +233,19 @@ const PRH_UK_PUBLISHER_METADATA: Readonly<AcrPublisherMetadata> = Object.freeze(
     'No part of this work may be used or reproduced in any manner for the purpose of training artificial intelligence technologies or systems. In accordance with Article 4(3) of the DSM Directive 2019/790, Penguin Random House expressly reserves this work from the text and data mining exception.',
 });
 
+/**
+ * Remarks for criteria a fixed-layout (pre-paginated) book cannot meet the
+ * way reflowable EPUB does. Used in place of the reflowable defaults unless
+ * a reviewer has recorded their own notes.
+ */
+const FIXED_LAYOUT_REMARKS: Record<string, string> = {
+  '1.3.2': 'Fixed-layout publication: reading order follows the content-document order of positioned text blocks and the page-spread sequence declared in the spine; both were checked against the visual layout.',
+  '1.4.4': 'Fixed-layout publication: text scales only with whole-page zoom; reading systems cannot enlarge text independently of the page design.',
+  '1.4.5': 'Fixed-layout publication: page text is checked for live text over artwork. Pages whose words exist only inside an image are reported for remediation.',
+  '1.4.10': 'Fixed-layout publication: pages keep their printed two-dimensional layout and do not reflow. This limitation is disclosed in the accessibility summary.',
+  '1.4.12': 'Fixed-layout publication: text spacing overrides can cause positioned text to overlap artwork or other text; spacing is fixed by the page design.',
+};
+
 class AcrGeneratorService {
   async generateAcr(
     jobId: string,
@@ -209,14 +253,15 @@ class AcrGeneratorService {
     verificationData?: Map<string, { status: string; isAiGenerated: boolean; notes?: string }>
   ): Promise<AcrDocument> {
     const edition = options.edition || 'VPAT2.5-INT';
+    const wcagVersion = this.getWcagVersion(edition, options.wcagVersion);
     
     if (edition === 'VPAT2.5-INT') {
       logger.info('ACR Generation: INT Edition selected - satisfies US Section 508, EU EN 301 549, and WCAG requirements in one document');
     }
 
-    let criteria = await this.getCriteriaForEdition(edition);
+    let criteria = await this.getCriteriaForEdition(edition, wcagVersion);
     
-    criteria = this.hydrateCriteriaRemarks(criteria, verificationData);
+    criteria = this.hydrateCriteriaRemarks(criteria, verificationData, options.renditionLayout, wcagVersion);
     
     if (verificationData) {
       criteria = this.applyAttributionTags(criteria, verificationData);
@@ -252,6 +297,7 @@ class AcrGeneratorService {
       // mutations on `doc.publisherMetadata` can't leak between
       // generated documents through the shared module-level constant.
       publisherMetadata: edition === 'VPAT2.5-PRH-UK' ? { ...PRH_UK_PUBLISHER_METADATA } : undefined,
+      wcagVersion,
     };
 
     return acrDocument;
@@ -259,7 +305,9 @@ class AcrGeneratorService {
 
   hydrateCriteriaRemarks(
     criteria: AcrCriterion[],
-    verificationData?: Map<string, { status: string; isAiGenerated: boolean; notes?: string }>
+    verificationData?: Map<string, { status: string; isAiGenerated: boolean; notes?: string }>,
+    renditionLayout?: RenditionLayout,
+    wcagVersion?: WcagVersion
   ): AcrCriterion[] {
     const defaultRemarks: Record<string, string> = {
       '1.1.1': 'All 47 images analyzed. 42 have appropriate alt text. 5 decorative images correctly marked.',
@@ -278,8 +326,17 @@ class AcrGeneratorService {
     return criteria.map(criterion => {
       let remarks = criterion.remarks || '';
       const verification = verificationData?.get(criterion.id);
+      const fixedLayoutRemarks = renditionLayout === 'pre-paginated' ? FIXED_LAYOUT_REMARKS[criterion.id] : undefined;
+      const versionRemarks = wcagVersion
+        ? wcagCriteriaService.getVersionNotApplicableRemarks(criterion.id, wcagVersion)
+        : undefined;
       
-      if (criterion.id === '1.1.1') {
+      if (versionRemarks) {
+        // Obsolete in this WCAG version: Not Applicable whatever was verified.
+        return { ...criterion, conformanceLevel: 'Not Applicable' as const, remarks: versionRemarks };
+      } else if (fixedLayoutRemarks && !verification?.notes) {
+        remarks = fixedLayoutRemarks;
+      } else if (criterion.id === '1.1.1') {
         const aiSuggestion = verification?.notes || 'Suggested alt text: "Chart showing quarterly revenue growth from Q1-Q4 2024"';
         remarks = `${defaultRemarks['1.1.1']} ${aiSuggestion}`;
       } else if (verification?.notes) {
@@ -351,23 +408,38 @@ class AcrGeneratorService {
     });
   }
 
-  async getCriteriaForEdition(edition: AcrEdition): Promise<AcrCriterion[]> {
+  async getCriteriaForEdition(edition: AcrEdition, wcagVersion?: WcagVersion): Promise<AcrCriterion[]> {
+    const version = this.getWcagVersion(edition, wcagVersion);
     switch (edition) {
       case 'VPAT2.5-508':
-        return this.getSection508Criteria();
+        return this.getSection508Criteria(version);
       case 'VPAT2.5-WCAG':
-        return this.getWcagCriteria();
+        return this.getWcagCriteria(version);
       case 'VPAT2.5-EU':
-        return this.getEuCriteria();
+        return this.getEuCriteria(version);
       case 'VPAT2.5-INT':
-        return this.getInternationalCriteria();
+        return this.getInternationalCriteria(version);
       case 'VPAT2.5-PRH-UK':
-        return this.getPrhUkCriteria();
+        return this.getPrhUkCriteria(version);
       default:
-        return this.getInternationalCriteria();
+        return this.getInternationalCriteria(version);
     }
   }
 
+  /** WCAG version an ACR of `edition` reports against. */
+  getWcagVersion(edition: AcrEdition, wcagVersion?: WcagVersion): WcagVersion {
+    return wcagVersion || EDITION_WCAG_VERSIONS[edition] || '2.2';
+  }
+
+  /**
+   * WCAG version for re-issuing a stored ACR job: the requested version,
+   * else the one recorded on the job (e.g. from an OpenACR import), else
+   * the edition default.
+   */
+  getJobWcagVersion(edition: AcrEdition, requested: WcagVersion | undefined, stored: string | null | undefined): WcagVersion {
+    return this.getWcagVersion(edition, requested ?? WCAG_VERSIONS.find(v => v === stored));
+  }
+
   getEditions(): { editions: EditionInfo[]; recommended: AcrEdition } {
     return {
       editions: Object.values(EDITION_INFO),
@@ -375,12 +447,16 @@ class AcrGeneratorService {
     };
   }
 
-  async getEditionDetails(edition: AcrEdition): Promise<EditionDetails | undefined> {
+  async getEditionDetails(edition: AcrEdition, wcagVersion?: WcagVersion): Promise<EditionDetails | undefined> {
     const baseInfo = EDITION_INFO[edition];
     if (!baseInfo) return undefined;
 
+    const version = this.getWcagVersion(edition, wcagVersion);
+    const editionLabel = wcagCriteriaService.getEditionLabel(version);
+    const standards = baseInfo.standards.map(s => (s.startsWith('WCAG ') ? editionLabel : s));
+
     // Get full criteria for this edition
-    const criteria = await this.getCriteriaForEdition(edition);
+    const criteria = await this.getCriteriaForEdition(edition, version);
 
     // Group criteria by WCAG level to create sections
     const levelACriteria = criteria.filter(c => c.level === 'A');
@@ -415,11 +491,13 @@ class AcrGeneratorService {
 
     return {
       ...baseInfo,
+      standards,
+      wcagVersion: version,
       criteriaCount: criteria.length,
       criteria,
       isRecommended: baseInfo.recommended,
       sections,
-      applicableStandards: baseInfo.standards
+      applicableStandards: standards
     };
   }
 
@@ -439,141 +517,22 @@ class AcrGeneratorService {
     ];
   }
 
-  private getSection508Criteria(): AcrCriterion[] {
-    return [
-      criterion('1.1.1', 'Non-text Content', 'A'),
-      criterion('1.2.1', 'Audio-only and Video-only (Prerecorded)', 'A'),
-      criterion('1.2.2', 'Captions (Prerecorded)', 'A'),
-      criterion('1.2.3', 'Audio Description or Media Alternative', 'A'),
-      criterion('1.2.4', 'Captions (Live)', 'AA'),
-      criterion('1.2.5', 'Audio Description (Prerecorded)', 'AA'),
-      criterion('1.3.1', 'Info and Relationships', 'A'),
-      criterion('1.3.2', 'Meaningful Sequence', 'A'),
-      criterion('1.3.3', 'Sensory Characteristics', 'A'),
-      criterion('1.3.4', 'Orientation', 'AA'),
-      criterion('1.3.5', 'Identify Input Purpose', 'AA'),
-      criterion('1.4.1', 'Use of Color', 'A'),
-      criterion('1.4.2', 'Audio Control', 'A'),
-      criterion('2.1.1', 'Keyboard', 'A'),
-      criterion('2.1.2', 'No Keyboard Trap', 'A'),
-      criterion('2.2.1', 'Timing Adjustable', 'A'),
-      criterion('2.2.2', 'Pause, Stop, Hide', 'A'),
-      criterion('2.3.1', 'Three Flashes or Below Threshold', 'A'),
-      criterion('2.4.1', 'Bypass Blocks', 'A'),
-      criterion('2.4.2', 'Page Titled', 'A'),
-      criterion('2.4.3', 'Focus Order', 'A'),
-      criterion('2.4.4', 'Link Purpose (In Context)', 'A'),
-      criterion('3.1.1', 'Language of Page', 'A'),
-      criterion('3.2.1', 'On Focus', 'A'),
-      criterion('3.2.2', 'On Input', 'A'),
-      criterion('3.3.1', 'Error Identification', 'A'),
-      criterion('3.3.2', 'Labels or Instructions', 'A'),
-      criterion('4.1.1', 'Parsing', 'A'),
-      criterion('4.1.2', 'Name, Role, Value', 'A'),
-      criterion('1.4.3', 'Contrast (Minimum)', 'AA'),
-      criterion('1.4.4', 'Resize Text', 'AA'),
-      criterion('1.4.5', 'Images of Text', 'AA'),
-      criterion('2.4.5', 'Multiple Ways', 'AA'),
-      criterion('2.4.6', 'Headings and Labels', 'AA'),
-      criterion('2.4.7', 'Focus Visible', 'AA'),
-      criterion('3.1.2', 'Language of Parts', 'AA'),
-      criterion('3.2.3', 'Consistent Navigation', 'AA'),
-      criterion('3.2.4', 'Consistent Identification', 'AA'),
-      criterion('3.3.3', 'Error Suggestion', 'AA'),
-      criterion('3.3.4', 'Error Prevention (Legal, Financial, Data)', 'AA')
-    ];
-  }
-
-  private getWcag21BaseCriteria(): AcrCriterion[] {
-    return [
-      criterion('1.1.1', 'Non-text Content', 'A'),
-      criterion('1.2.1', 'Audio-only and Video-only (Prerecorded)', 'A'),
-      criterion('1.2.2', 'Captions (Prerecorded)', 'A'),
-      criterion('1.2.3', 'Audio Description or Media Alternative', 'A'),
-      criterion('1.2.4', 'Captions (Live)', 'AA'),
-      criterion('1.2.5', 'Audio Description (Prerecorded)', 'AA'),
-      criterion('1.3.1', 'Info and Relationships', 'A'),
-      criterion('1.3.2', 'Meaningful Sequence', 'A'),
-      criterion('1.3.3', 'Sensory Characteristics', 'A'),
-      criterion('1.3.4', 'Orientation', 'AA'),
-      criterion('1.3.5', 'Identify Input Purpose', 'AA'),
-      criterion('1.4.1', 'Use of Color', 'A'),
-      criterion('1.4.2', 'Audio Control', 'A'),
-      criterion('1.4.3', 'Contrast (Minimum)', 'AA'),
-      criterion('1.4.4', 'Resize Text', 'AA'),
-      criterion('1.4.5', 'Images of Text', 'AA'),
-      criterion('1.4.10', 'Reflow', 'AA'),
-      criterion('1.4.11', 'Non-text Contrast', 'AA'),
-      criterion('1.4.12', 'Text Spacing', 'AA'),
-      criterion('1.4.13', 'Content on Hover or Focus', 'AA'),
-      criterion('2.1.1', 'Keyboard', 'A'),
-      criterion('2.1.2', 'No Keyboard Trap', 'A'),
-      criterion('2.1.4', 'Character Key Shortcuts', 'A'),
-      criterion('2.2.1', 'Timing Adjustable', 'A'),
-      criterion('2.2.2', 'Pause, Stop, Hide', 'A'),
-      criterion('2.3.1', 'Three Flashes or Below Threshold', 'A'),
-      criterion('2.4.1', 'Bypass Blocks', 'A'),
-      criterion('2.4.2', 'Page Titled', 'A'),
-      criterion('2.4.3', 'Focus Order', 'A'),
-      criterion('2.4.4', 'Link Purpose (In Context)', 'A'),
-      criterion('2.4.5', 'Multiple Ways', 'AA'),
-      criterion('2.4.6', 'Headings and Labels', 'AA'),
-      criterion('2.4.7', 'Focus Visible', 'AA'),
-      criterion('2.5.1', 'Pointer Gestures', 'A'),
-      criterion('2.5.2', 'Pointer Cancellation', 'A'),
-      criterion('2.5.3', 'Label in Name', 'A'),
-      criterion('2.5.4', 'Motion Actuation', 'A'),
-      criterion('3.1.1', 'Language of Page', 'A'),
-      criterion('3.1.2', 'Language of Parts', 'AA'),
-      criterion('3.2.1', 'On Focus', 'A'),
-      criterion('3.2.2', 'On Input', 'A'),
-      criterion('3.2.3', 'Consistent Navigation', 'AA'),
-      criterion('3.2.4', 'Consistent Identification', 'AA'),
-      criterion('3.3.1', 'Error Identification', 'A'),
-      criterion('3.3.2', 'Labels or Instructions', 'A'),
-      criterion('3.3.3', 'Error Suggestion', 'AA'),
-      criterion('3.3.4', 'Error Prevention (Legal, Financial, Data)', 'AA'),
-      criterion('4.1.1', 'Parsing', 'A'),
-      criterion('4.1.2', 'Name, Role, Value', 'A'),
-      criterion('4.1.3', 'Status Messages', 'AA')
-    ];
+  /**
+   * WCAG success-criteria table rows for `version`, read from the shared
+   * catalogue. Criteria the version made obsolete (4.1.1 Parsing in 2.2)
+   * stay in the table because VPAT consumers still expect the row; they
+   * are reported as Not Applicable with a justification.
+   */
+  private getWcagTableCriteria(version: WcagVersion, levels: WCAGCriterion['level'][]): AcrCriterion[] {
+    return wcagCriteriaService.getReportCriteria(version, levels).map(c => criterion(c.id, c.name, c.level));
   }
 
-  private getWcagAaaCriteria(): AcrCriterion[] {
-    return [
-      criterion('1.2.6', 'Sign Language (Prerecorded)', 'AAA'),
-      criterion('1.2.7', 'Extended Audio Description (Prerecorded)', 'AAA'),
-      criterion('1.2.8', 'Media Alternative (Prerecorded)', 'AAA'),
-      criterion('1.2.9', 'Audio-only (Live)', 'AAA'),
-      criterion('1.3.6', 'Identify Purpose', 'AAA'),
-      criterion('1.4.6', 'Contrast (Enhanced)', 'AAA'),
-      criterion('1.4.7', 'Low or No Background Audio', 'AAA'),
-      criterion('1.4.8', 'Visual Presentation', 'AAA'),
-      criterion('1.4.9', 'Images of Text (No Exception)', 'AAA'),
-      criterion('2.1.3', 'Keyboard (No Exception)', 'AAA'),
-      criterion('2.2.3', 'No Timing', 'AAA'),
-      criterion('2.2.4', 'Interruptions', 'AAA'),
-      criterion('2.2.5', 'Re-authenticating', 'AAA'),
-      criterion('2.2.6', 'Timeouts', 'AAA'),
-      criterion('2.3.2', 'Three Flashes', 'AAA'),
-      criterion('2.3.3', 'Animation from Interactions', 'AAA'),
-      criterion('2.4.8', 'Location', 'AAA'),
-      criterion('2.4.9', 'Link Purpose (Link Only)', 'AAA'),
-      criterion('2.4.10', 'Section Headings', 'AAA'),
-      criterion('2.5.5', 'Target Size', 'AAA'),
-      criterion('2.5.6', 'Concurrent Input Mechanisms', 'AAA'),
-      criterion('3.1.3', 'Unusual Words', 'AAA'),
-      criterion('3.1.4', 'Abbreviations', 'AAA'),
-      criterion('3.1.5', 'Reading Level', 'AAA'),
-      criterion('3.1.6', 'Pronunciation', 'AAA'),
-      criterion('3.2.5', 'Change on Request', 'AAA'),
-      criterion('3.3.5', 'Help', 'AAA'),
-      criterion('3.3.6', 'Error Prevention (All)', 'AAA')
-    ];
+  private getSection508Criteria(version: WcagVersion): AcrCriterion[] {
+    return this.getWcagTableCriteria(version, ['A', 'AA']);
   }
 
-  private getWcagCriteria(): AcrCriterion[] {
-    return [...this.getWcag21BaseCriteria(), ...this.getWcagAaaCriteria()];
+  private getWcagCriteria(version: WcagVersion): AcrCriterion[] {
+    return this.getWcagTableCriteria(version, ['A', 'AA', 'AAA']);
   }
 
   private getEnSpecificCriteria(): AcrCriterion[] {
@@ -588,86 +547,33 @@ class AcrGeneratorService {
     ];
   }
 
-  private getEuCriteria(): AcrCriterion[] {
-    return [...this.getWcag21BaseCriteria(), ...this.getEnSpecificCriteria()];
-  }
-
-  private getInternationalCriteria(): AcrCriterion[] {
-    const section508 = this.getSection508Criteria();
-    const wcag21Base = this.getWcag21BaseCriteria();
-    const enSpecific = this.getEnSpecificCriteria();
-    const wcagAaa = this.getWcagAaaCriteria();
-
-    const criteriaMap = new Map<string, AcrCriterion>();
-
-    section508.forEach(c => criteriaMap.set(c.id, c));
-    wcag21Base.forEach(c => criteriaMap.set(c.id, c));
-    enSpecific.forEach(c => criteriaMap.set(c.id, c));
-    wcagAaa.forEach(c => criteriaMap.set(c.id, c));
-
-    return Array.from(criteriaMap.values());
+  private getEuCriteria(version: WcagVersion): AcrCriterion[] {
+    return [...this.getWcagTableCriteria(version, ['A', 'AA']), ...this.getEnSpecificCriteria()];
   }
 
-  /**
-   * WCAG 2.2 added six new success criteria over 2.1 (not counting
-   * AAA-only additions). PRH UK pins to Level AA, so we include Level A
-   * and AA from this set:
-   *
-   *   2.4.11 Focus Not Obscured (Minimum)   — AA
-   *   2.5.7  Dragging Movements             — AA
-   *   2.5.8  Target Size (Minimum)          — AA
-   *   3.2.6  Consistent Help                — A
-   *   3.3.7  Redundant Entry                — A
-   *   3.3.8  Accessible Authentication (Min)— AA
-   *
-   * (2.4.12, 2.4.13 and 3.3.9 are AAA-only and intentionally excluded —
-   * PRH's published delivery target is AA.)
-   */
-  private getWcag22NewAaCriteria(): AcrCriterion[] {
-    return [
-      criterion('2.4.11', 'Focus Not Obscured (Minimum)', 'AA'),
-      criterion('2.5.7', 'Dragging Movements', 'AA'),
-      criterion('2.5.8', 'Target Size (Minimum)', 'AA'),
-      criterion('3.2.6', 'Consistent Help', 'A'),
-      criterion('3.3.7', 'Redundant Entry', 'A'),
-      criterion('3.3.8', 'Accessible Authentication (Minimum)', 'AA'),
-    ];
+  private getInternationalCriteria(version: WcagVersion): AcrCriterion[] {
+    return [...this.getWcagTableCriteria(version, ['A', 'AA', 'AAA']), ...this.getEnSpecificCriteria()];
   }
 
   /**
-   * Criteria list for the PRH UK delivery profile: WCAG 2.2 Level A + AA
-   * (no AAA — PRH's published target is AA). Built on top of the existing
-   * 2.1 base + the six 2.2-new A/AA criteria.
-   *
-   * Note: WCAG 2.2 formally obsoleted 4.1.1 "Parsing", but we keep it in
-   * the list for backward compatibility with VPAT-consuming tools that
-   * still expect it. Conforming-as-not-applicable is the right call.
+   * Criteria list for the PRH UK delivery profile: Level A + AA only (no
+   * AAA — PRH's published target is AA). Pinned to WCAG 2.2 by default,
+   * which adds 2.4.11, 2.5.7, 2.5.8, 3.2.6, 3.3.7 and 3.3.8 over 2.1.
    */
-  private getPrhUkCriteria(): AcrCriterion[] {
-    const base = this.getWcag21BaseCriteria();
-    const wcag22NewAa = this.getWcag22NewAaCriteria();
-    const criteriaMap = new Map<string, AcrCriterion>();
-    base.forEach((c) => criteriaMap.set(c.id, c));
-    wcag22NewAa.forEach((c) => criteriaMap.set(c.id, c));
-    // Sort by canonical WCAG dotted-number ordering — the Map preserves
-    // insertion order, which would otherwise emit the six 2.2-new
-    // criteria after `4.1.3` instead of interspersed where they belong
-    // (e.g. 2.4.11 between 2.4.7 and 2.5.1).
-    return Array.from(criteriaMap.values()).sort((a, b) => {
-      const [aMajor = 0, aMinor = 0, aPatch = 0] = a.id.split('.').map(Number);
-      const [bMajor = 0, bMinor = 0, bPatch = 0] = b.id.split('.').map(Number);
-      return aMajor - bMajor || aMinor - bMinor || aPatch - bPatch;
-    });
+  private getPrhUkCriteria(version: WcagVersion): AcrCriterion[] {
+    return this.getWcagTableCriteria(version, ['A', 'AA']);
   }
 
   async generateConfidenceAnalysis(
     edition: AcrEdition,
-    auditIssues: AuditIssueInput[]
+    auditIssues: AuditIssueInput[],
+    wcagVersion?: WcagVersion
   ): Promise<CriterionConfidenceWithIssues[]> {
     logger.info(`[ACR Generator] Starting analysis with ${auditIssues.length} issues`);
     logger.debug(`[ACR Generator] Issue rule IDs: ${JSON.stringify(auditIssues.map(i => i.ruleId))}`);
 
-    const criteria = await this.getCriteriaForEdition(edition);
+    const version = this.getWcagVersion(edition, wcagVersion);
+    const criteria = await this.getCriteriaForEdition(edition, version);
     const issueMapping = wcagIssueMapperService.mapIssuesToCriteria(auditIssues);
 
     logger.debug(`[ACR Generator] Issue mapping size: ${issueMapping.size}`);
@@ -675,6 +581,23 @@ class AcrGeneratorService {
 
     const results: CriterionConfidenceWithIssues[] = criteria.map(criterion => {
       const relatedIssues = issueMapping.get(criterion.id) || [];
+      const versionRemarks = wcagCriteriaService.getVersionNotApplicableRemarks(criterion.id, version);
+
+      if (versionRemarks) {
+        return {
+          criterionId: criterion.id,
+          name: criterion.name,
+          level: criterion.level,
+          status: 'not_applicable' as const,
+          confidenceScore: 100,
+          remarks: versionRemarks,
+          relatedIssues,
+          issueCount: relatedIssues.length,
+          hasIssues: relatedIssues.length > 0,
+          requiresManualVerification: false,
+          automationCapability: 100
+        };
+      }
       
       // Get automation capability for this criterion
       const automationCapability = ConfidenceAnalyzerService.getCriterionConfidence(criterion.id);
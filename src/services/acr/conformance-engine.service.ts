@@ -1,4 +1,6 @@
 import { humanVerificationService, VerificationRecord } from './human-verification.service';
+import { wcagCriteriaService, WcagVersion } from '../validation/wcag-criteria.service';
+import { acrGeneratorService, type AcrEdition } from './acr-generator.service';
 
 export type ConformanceLevel = 'Supports' | 'Partially Supports' | 'Does Not Support' | 'Not Applicable';
 
@@ -34,6 +36,8 @@ export interface AcrDocument {
   jobId: string;
   criteria: AcrCriterion[];
   edition: string;
+  /** WCAG version the criteria were evaluated against. */
+  wcagVersion?: WcagVersion;
 }
 
 export interface RemarksRequirement {
@@ -158,8 +162,23 @@ function analyzeAutomatedResults(validationResults: ValidationResult[]): Automat
 export async function determineConformance(
   criterionId: string,
   validationResults: ValidationResult[],
-  humanVerification?: VerificationRecord
+  humanVerification?: VerificationRecord,
+  wcagVersion?: WcagVersion
 ): Promise<ConformanceDecision> {
+  // A criterion outside the evaluated WCAG version (4.1.1 Parsing in 2.2,
+  // or one added by a later version) is Not Applicable regardless of results.
+  const versionRemarks = wcagVersion
+    ? wcagCriteriaService.getVersionNotApplicableRemarks(criterionId, wcagVersion)
+    : undefined;
+  if (versionRemarks) {
+    return {
+      level: 'Not Applicable',
+      remarks: versionRemarks,
+      requiresHumanConfirmation: false,
+      warningFlags: []
+    };
+  }
+
   const autoResult = analyzeAutomatedResults(validationResults);
 
   if (autoResult.wouldBeSupports && !humanVerification) {
@@ -304,13 +323,21 @@ export function validateAcrCredibility(acr: AcrDocument): CredibilityWarning[] {
     });
   }
 
-  const notApplicableCount = acr.criteria.filter(c => c.level === 'Not Applicable').length;
-  const notApplicablePercentage = (notApplicableCount / acr.criteria.length) * 100;
+  // Criteria the WCAG version itself rules out are expected to be N/A and
+  // do not count towards the N/A rate.
+  const { wcagVersion } = acr;
+  const evaluatedCriteria = wcagVersion
+    ? acr.criteria.filter(c => !wcagCriteriaService.getVersionNotApplicableRemarks(c.criterionId, wcagVersion))
+    : acr.criteria;
+  const notApplicableCount = evaluatedCriteria.filter(c => c.level === 'Not Applicable').length;
+  const notApplicablePercentage = evaluatedCriteria.length > 0
+    ? (notApplicableCount / evaluatedCriteria.length) * 100
+    : 0;
 
   if (notApplicablePercentage > 30) {
     warnings.push({
       type: 'HIGH_NOT_APPLICABLE',
-      message: `${notApplicablePercentage.toFixed(1)}% of criteria marked "Not Applicable" (${notApplicableCount} of ${acr.criteria.length}).`,
+      message: `${notApplicablePercentage.toFixed(1)}% of criteria marked "Not Applicable" (${notApplicableCount} of ${evaluatedCriteria.length}).`,
       recommendation: 'Verify that "Not Applicable" designations are justified. Procurement teams may question high N/A rates.'
     });
   }
@@ -360,13 +387,16 @@ export function validateAcrCredibilityFull(acr: AcrDocument): CredibilityValidat
   };
 }
 
-export async function buildAcrFromJob(jobId: string): Promise<AcrDocument | null> {
+export async function buildAcrFromJob(jobId: string, wcagVersion?: WcagVersion): Promise<AcrDocument | null> {
   const queue = await humanVerificationService.getQueueFromJob(jobId);
 
   if (!queue || queue.items.length === 0) {
     return null;
   }
 
+  const edition: AcrEdition = 'VPAT2.5-INT';
+  const version = acrGeneratorService.getWcagVersion(edition, wcagVersion);
+
   const criteria: AcrCriterion[] = [];
 
   for (const item of queue.items) {
@@ -385,7 +415,8 @@ export async function buildAcrFromJob(jobId: string): Promise<AcrDocument | null
     const decision = await determineConformance(
       item.criterionId,
       validationResults,
-      latestVerification
+      latestVerification,
+      version
     );
 
     criteria.push({
@@ -398,7 +429,8 @@ export async function buildAcrFromJob(jobId: string): Promise<AcrDocument | null
   return {
     jobId,
     criteria,
-    edition: 'VPAT2.5-INT'
+    edition,
+    wcagVersion: version
   };
 }
 
@@ -406,9 +438,10 @@ class ConformanceEngineService {
   async determineConformance(
     criterionId: string,
     validationResults: ValidationResult[],
-    humanVerification?: VerificationRecord
+    humanVerification?: VerificationRecord,
+    wcagVersion?: WcagVersion
   ): Promise<ConformanceDecision> {
-    return determineConformance(criterionId, validationResults, humanVerification);
+    return determineConformance(criterionId, validationResults, humanVerification, wcagVersion);
   }
 
   validateRemarks(level: ConformanceLevel, remarks: string): { valid: boolean; errors: string[] } {
@@ -423,8 +456,8 @@ class ConformanceEngineService {
     return validateAcrCredibilityFull(acr);
   }
 
-  async buildAcrFromJob(jobId: string): Promise<AcrDocument | null> {
-    return buildAcrFromJob(jobId);
+  async buildAcrFromJob(jobId: string, wcagVersion?: WcagVersion): Promise<AcrDocument | null> {
+    return buildAcrFromJob(jobId, wcagVersion);
   }
 
   getRemarksRequirements(): Record<ConformanceLevel, RemarksRequirement> {
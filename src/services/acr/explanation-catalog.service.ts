@@ -105,6 +105,55 @@ const EXPLANATION_CATALOG: Record<string, Omit<IssueExplanation, 'fixType'>> = {
     wcagGuidance: 'WCAG 2.1 SC 1.1.1 — Non-text Content',
     estimatedTime: null,
   },
+  'EPUB-MATH-001': {
+    reason: 'MathML markup fully describes the structure of an equation, so a spoken-form text alternative can be generated from it without interpretation.',
+    whatPlatformDid: 'Generated a spoken-form alttext attribute (e.g. "x squared plus 1") for each MathML expression that had none.',
+    whatUserMustDo: null,
+    wcagGuidance: 'WCAG 2.1 SC 1.1.1 — Non-text Content',
+    estimatedTime: null,
+  },
+  'EPUB-MATH-002': {
+    reason: 'An equation rendered as an image cannot be read or navigated by assistive technology. When the alt text holds the LaTeX source, the platform can convert it to MathML; otherwise the equation has to be re-keyed.',
+    whatPlatformDid: 'Converted equation images with LaTeX alt text to MathML, keeping the image as a fallback (altimg).',
+    whatUserMustDo: 'Replace the remaining equation images with MathML, or supply their LaTeX source in the alt text so they can be converted.',
+    wcagGuidance: 'WCAG 2.1 SC 1.1.1 — Non-text Content',
+    estimatedTime: '2–5 minutes per equation',
+  },
+  'EPUB-MATH-003': {
+    reason: 'Whether a publication contains MathML, and whether all of it has text alternatives, can be determined directly from the content documents.',
+    whatPlatformDid: 'Added the schema:accessibilityFeature MathML (and describedMath) declarations and the mathml manifest property.',
+    whatUserMustDo: null,
+    wcagGuidance: 'EPUB Accessibility 1.1 — Metadata: accessibilityFeature',
+    estimatedTime: null,
+  },
+  'FXL-VIEWPORT-MISSING': {
+    reason: 'A fixed-layout page needs a declared size; the page artwork, an inline SVG or the other pages in the book give it without interpretation.',
+    whatPlatformDid: 'Added a viewport meta tag with the page width and height to each fixed-layout page that lacked one.',
+    whatUserMustDo: null,
+    wcagGuidance: 'EPUB 3 Fixed Layout — Viewport dimensions',
+    estimatedTime: null,
+  },
+  'FXL-VIEWPORT-INVALID': {
+    reason: 'A viewport that uses units or keywords is ignored by reading systems; the numeric page size can be recovered from the rest of the book.',
+    whatPlatformDid: 'Replaced the invalid viewport with numeric width and height values.',
+    whatUserMustDo: null,
+    wcagGuidance: 'EPUB 3 Fixed Layout — Viewport dimensions',
+    estimatedTime: null,
+  },
+  'FXL-TEXT-IN-IMAGE': {
+    reason: 'Words that exist only inside a page image cannot be read aloud, searched, enlarged or restyled. Recovering them needs the source artwork or the original text.',
+    whatPlatformDid: null,
+    whatUserMustDo: 'Re-export each flagged page with its text as live text over the artwork, or confirm the page is wordless and its illustration is described.',
+    wcagGuidance: 'WCAG 2.1 SC 1.1.1 — Non-text Content; SC 1.4.5 — Images of Text',
+    estimatedTime: '10–20 minutes per page',
+  },
+  'FXL-SUMMARY-CAVEAT': {
+    reason: 'That a book is fixed layout is known from its package metadata, so the accessibility summary caveat can be written without reviewing the content.',
+    whatPlatformDid: 'Added a sentence to the accessibility summary explaining that the fixed layout prevents text resizing and reflow.',
+    whatUserMustDo: null,
+    wcagGuidance: 'EPUB Accessibility 1.1 — Metadata: accessibilitySummary',
+    estimatedTime: null,
+  },
   'METADATA-ACCESSMODE': {
     reason: 'Access mode metadata is a programmatic declaration of content types (text, visual). The platform detects these automatically from the document.',
     whatPlatformDid: 'Inserted the schema:accessMode metadata into the OPF package document.',
@@ -0,0 +1,453 @@
+/**
+ * OpenACR export and import.
+ *
+ * OpenACR is the GSA's machine-readable ACR format: a YAML (or JSON)
+ * report naming the VPAT catalog it follows, with chapters of criteria
+ * whose components carry an adherence level and notes. Exported reports
+ * are validated against the same schema that imports are parsed with.
+ *
+ * Reports map one component per criterion: an ACR here describes a
+ * document, so exports use the `electronic-docs` component and imports
+ * prefer it over the other components of a criterion.
+ */
+
+import yaml from 'js-yaml';
+import { z } from 'zod';
+import type { Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { AppError } from '../../utils/app-error';
+import { WCAG_VERSIONS, WcagVersion, wcagCriteriaService } from '../validation/wcag-criteria.service';
+import {
+  acrGeneratorService,
+  AcrCriterion,
+  AcrDocument,
+  AcrEdition,
+} from './acr-generator.service';
+import { acrVersioningService } from './acr-versioning.service';
+
+export const OPENACR_ADHERENCE_LEVELS = [
+  'supports',
+  'partially-supports',
+  'does-not-support',
+  'not-applicable',
+  'not-evaluated',
+] as const;
+
+export type OpenAcrAdherenceLevel = (typeof OPENACR_ADHERENCE_LEVELS)[number];
+
+export type OpenAcrFormat = 'yaml' | 'json';
+
+const OpenAcrContactSchema = z.object({
+  name: z.string().optional(),
+  company_name: z.string().optional(),
+  address: z.string().optional(),
+  email: z.string().optional(),
+  phone: z.string().optional(),
+  website: z.string().optional(),
+});
+
+const OpenAcrComponentSchema = z.object({
+  name: z.string().min(1),
+  adherence: z.object({
+    level: z.enum(OPENACR_ADHERENCE_LEVELS),
+    notes: z.string().optional(),
+  }),
+});
+
+const OpenAcrCriterionSchema = z.object({
+  // YAML reads unquoted numbers such as 5.2 as floats.
+  num: z.union([z.string().min(1), z.number()]).transform(String),
+  components: z.array(OpenAcrComponentSchema).min(1),
+});
+
+const OpenAcrChapterSchema = z.object({
+  notes: z.string().optional(),
+  disabled: z.boolean().optional(),
+  criteria: z.array(OpenAcrCriterionSchema).default([]),
+});
+
+export const OpenAcrReportSchema = z.object({
+  title: z.string().min(1),
+  product: z.object({
+    name: z.string().min(1),
+    version: z.union([z.string(), z.number()]).transform(String).optional(),
+    description: z.string().optional(),
+  }),
+  author: OpenAcrContactSchema.optional(),
+  vendor: OpenAcrContactSchema.optional(),
+  report_date: z.string().optional(),
+  last_modified_date: z.string().optional(),
+  version: z.number().int().optional(),
+  notes: z.string().optional(),
+  evaluation_methods_used: z.string().optional(),
+  legal_disclaimer: z.string().optional(),
+  license: z.string().optional(),
+  catalog: z.string().min(1),
+  chapters: z.record(z.string(), OpenAcrChapterSchema),
+});
+
+export type OpenAcrReport = z.infer<typeof OpenAcrReportSchema>;
+export type OpenAcrChapter = z.infer<typeof OpenAcrChapterSchema>;
+
+/** Catalog name segment of each edition: `2.5-edition-wcag-<version>-<segment>-en`. */
+const CATALOG_EDITION_SEGMENTS: Record<AcrEdition, string> = {
+  'VPAT2.5-508': '508',
+  'VPAT2.5-WCAG': '',
+  'VPAT2.5-EU': 'eu',
+  'VPAT2.5-INT': 'int',
+  'VPAT2.5-PRH-UK': 'prh-uk',
+};
+
+const CATALOG_PATTERN = /^\d+\.\d+-edition-wcag-(\d\.\d)-(?:([a-z0-9-]+?)-)?en$/;
+
+const LEVEL_CHAPTERS: Record<AcrCriterion['level'], string> = {
+  A: 'success_criteria_level_a',
+  AA: 'success_criteria_level_aa',
+  AAA: 'success_criteria_level_aaa',
+};
+
+/** EN 301 549 chapters of the EN-specific criteria, keyed by clause. */
+const EN_CHAPTERS: Record<string, string> = {
+  '5': 'generic_requirements',
+  '6': 'ict_with_two_way_voice_communication',
+  '7': 'ict_with_video_capabilities',
+};
+
+const EXPORT_COMPONENT = 'electronic-docs';
+const IMPORT_COMPONENT_PREFERENCE = ['electronic-docs', 'web', 'software'];
+
+const TO_ADHERENCE: Record<AcrCriterion['conformanceLevel'], OpenAcrAdherenceLevel> = {
+  'Supports': 'supports',
+  'Partially Supports': 'partially-supports',
+  'Does Not Support': 'does-not-support',
+  'Not Applicable': 'not-applicable',
+};
+
+const FROM_ADHERENCE: Record<OpenAcrAdherenceLevel, AcrCriterion['conformanceLevel'] | null> = {
+  'supports': 'Supports',
+  'partially-supports': 'Partially Supports',
+  'does-not-support': 'Does Not Support',
+  'not-applicable': 'Not Applicable',
+  'not-evaluated': null,
+};
+
+export interface OpenAcrExportOptions {
+  includeMethodology?: boolean;
+  includeAttribution?: boolean;
+}
+
+/** A criterion read from an OpenACR report; `conformanceLevel` is null when not evaluated. */
+export interface OpenAcrImportedCriterion {
+  id: string;
+  name: string;
+  level: AcrCriterion['level'];
+  conformanceLevel: AcrCriterion['conformanceLevel'] | null;
+  remarks: string;
+  component: string;
+}
+
+export interface OpenAcrConversion {
+  edition: AcrEdition;
+  wcagVersion: WcagVersion;
+  criteria: OpenAcrImportedCriterion[];
+  /** `chapter/num` of criteria this service has no edition row for */
+  skipped: string[];
+}
+
+export interface OpenAcrImportResult {
+  jobId: string;
+  acrJobId: string;
+  edition: AcrEdition;
+  wcagVersion: WcagVersion;
+  criteriaCount: number;
+  skipped: string[];
+}
+
+function isoDate(date: Date): string {
+  return date.toISOString().split('T')[0];
+}
+
+class OpenAcrService {
+  catalogFor(edition: AcrEdition, wcagVersion: WcagVersion): string {
+    const segment = CATALOG_EDITION_SEGMENTS[edition];
+    return `2.5-edition-wcag-${wcagVersion}-${segment ? `${segment}-` : ''}en`;
+  }
+
+  /** Edition and WCAG version named by a catalog, or undefined when the catalog is not one we issue. */
+  parseCatalog(catalog: string): { edition: AcrEdition; wcagVersion: WcagVersion } | undefined {
+    const match = CATALOG_PATTERN.exec(catalog);
+    if (!match) return undefined;
+    const wcagVersion = WCAG_VERSIONS.find(v => v === match[1]);
+    const segment = match[2] ?? '';
+    const edition = (Object.keys(CATALOG_EDITION_SEGMENTS) as AcrEdition[])
+      .find(e => CATALOG_EDITION_SEGMENTS[e] === segment);
+    if (!wcagVersion || !edition) return undefined;
+    return { edition, wcagVersion };
+  }
+
+  toOpenAcr(acr: AcrDocument, options: OpenAcrExportOptions = {}): OpenAcrReport {
+    const wcagVersion = acrGeneratorService.getWcagVersion(acr.edition, acr.wcagVersion);
+    const chapters: Record<string, OpenAcrChapter> = {};
+
+    for (const criterion of acr.criteria) {
+      const chapterId = this.chapterFor(criterion);
+      if (!chapterId) continue;
+      const notes = options.includeAttribution && criterion.attributedRemarks
+        ? criterion.attributedRemarks
+        : criterion.remarks;
+      chapters[chapterId] ??= { criteria: [] };
+      chapters[chapterId].criteria.push({
+        num: criterion.id.replace(/^EN-/, ''),
+        components: [{
+          name: EXPORT_COMPONENT,
+          adherence: { level: TO_ADHERENCE[criterion.conformanceLevel] ?? 'not-evaluated', notes: notes || undefined },
+        }],
+      });
+    }
+
+    const report = {
+      title: `${acr.productInfo.name} Accessibility Conformance Report`,
+      product: {
+        name: acr.productInfo.name,
+        version: acr.productInfo.version,
+        description: acr.productInfo.description || undefined,
+      },
+      author: {
+        company_name: acr.productInfo.vendor,
+        email: acr.productInfo.contactEmail,
+      },
+      vendor: {
+        company_name: acr.productInfo.vendor,
+        email: acr.productInfo.contactEmail,
+      },
+      report_date: isoDate(acr.productInfo.evaluationDate),
+      last_modified_date: isoDate(acr.generatedAt),
+      version: acr.version,
+      notes: acr.publisherMetadata
+        ? `Conforms to: ${acr.publisherMetadata.conformsTo}. Certified by: ${acr.publisherMetadata.certifiedBy} (${acr.publisherMetadata.certifierCredential}).`
+        : undefined,
+      evaluation_methods_used: acr.evaluationMethods.map(m => m.description).join(' ') || undefined,
+      legal_disclaimer: options.includeMethodology ? acr.methodology?.disclaimer : undefined,
+      catalog: this.catalogFor(acr.edition, wcagVersion),
+      chapters,
+    };
+
+    const parsed = OpenAcrReportSchema.safeParse(report);
+    if (!parsed.success) {
+      throw AppError.internal(`Generated OpenACR report is invalid: ${parsed.error.message}`);
+    }
+    return parsed.data;
+  }
+
+  serialize(report: OpenAcrReport, format: OpenAcrFormat): string {
+    // Round-trip through JSON to drop undefined optional fields.
+    const plain = JSON.parse(JSON.stringify(report));
+    return format === 'json'
+      ? JSON.stringify(plain, null, 2)
+      : yaml.dump(plain, { lineWidth: -1, noRefs: true });
+  }
+
+  /**
+   * Parses and validates an OpenACR report. JSON is valid YAML, so both
+   * formats go through the YAML loader; the core schema keeps dates as
+   * strings.
+   */
+  parse(content: string): OpenAcrReport {
+    let data: unknown;
+    try {
+      data = yaml.load(content, { schema: yaml.CORE_SCHEMA });
+    } catch (error) {
+      throw AppError.badRequest(`OpenACR file is not valid YAML or JSON: ${error instanceof Error ? error.message : String(error)}`, 'OPENACR_PARSE_ERROR');
+    }
+
+    const parsed = OpenAcrReportSchema.safeParse(data);
+    if (!parsed.success) {
+      const issues = parsed.error.issues
+        .map(issue => `${issue.path.join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+      throw AppError.unprocessable(`OpenACR report failed schema validation: ${issues}`, 'OPENACR_SCHEMA_ERROR');
+    }
+    return parsed.data;
+  }
+
+  /** Maps a validated report onto the criteria of the edition its catalog names. */
+  async fromOpenAcr(report: OpenAcrReport): Promise<OpenAcrConversion> {
+    const catalog = this.parseCatalog(report.catalog);
+    if (!catalog) {
+      throw AppError.unprocessable(
+        `Unsupported OpenACR catalog "${report.catalog}". Expected <vpat>-edition-wcag-<2.0|2.1|2.2>-[508-|eu-|int-|prh-uk-]en`,
+        'OPENACR_UNSUPPORTED_CATALOG'
+      );
+    }
+    const { edition, wcagVersion } = catalog;
+
+    const definitions = new Map(
+      (await acrGeneratorService.getCriteriaForEdition(edition, wcagVersion)).map(c => [c.id, c])
+    );
+    const criteria: OpenAcrImportedCriterion[] = [];
+    const skipped: string[] = [];
+
+    for (const [chapterId, chapter] of Object.entries(report.chapters)) {
+      if (chapter.disabled) continue;
+      const isEnChapter = Object.values(EN_CHAPTERS).includes(chapterId);
+      for (const entry of chapter.criteria) {
+        const id = isEnChapter ? `EN-${entry.num}` : entry.num;
+        const definition = definitions.get(id);
+        if (!definition) {
+          skipped.push(`${chapterId}/${entry.num}`);
+          continue;
+        }
+        const component = IMPORT_COMPONENT_PREFERENCE
+          .map(name => entry.components.find(c => c.name === name))
+          .find(Boolean) ?? entry.components[0];
+        criteria.push({
+          id,
+          name: definition.name,
+          level: definition.level,
+          conformanceLevel: FROM_ADHERENCE[component.adherence.level],
+          remarks: component.adherence.notes ?? '',
+          component: component.name,
+        });
+      }
+    }
+
+    return { edition, wcagVersion, criteria, skipped };
+  }
+
+  /**
+   * Imports a third-party OpenACR report as a new ACR for review. The
+   * report is kept on an ACR_WORKFLOW job and its criteria become
+   * AcrCriterionReview rows; an initial version snapshot lets the report
+   * be reviewed and re-issued through the usual version history.
+   */
+  async importReport(content: string, tenantId: string, userId: string): Promise<OpenAcrImportResult> {
+    const report = this.parse(content);
+    const conversion = await this.fromOpenAcr(report);
+    if (conversion.criteria.length === 0) {
+      throw AppError.unprocessable('OpenACR report has no criteria for its catalog edition', 'OPENACR_NO_CRITERIA');
+    }
+
+    // The import itself completes here; the ACR job stays in progress for review
+    const now = new Date();
+    const { job, acrJob } = await prisma.$transaction(async (tx) => {
+      const job = await tx.job.create({
+        data: {
+          tenantId,
+          userId,
+          type: 'ACR_WORKFLOW',
+          status: 'COMPLETED',
+          input: {
+            sourceType: 'openacr_import',
+            catalog: report.catalog,
+            title: report.title,
+          },
+          output: { openAcr: report } as unknown as Prisma.InputJsonValue,
+          startedAt: now,
+          completedAt: now,
+        },
+      });
+
+      const acrJob = await tx.acrJob.create({
+        data: {
+          jobId: job.id,
+          tenantId,
+          userId,
+          edition: conversion.edition,
+          wcagVersion: conversion.wcagVersion,
+          documentTitle: report.product.name,
+          totalCriteria: conversion.criteria.length,
+          status: 'in_progress',
+        },
+      });
+
+      await tx.acrCriterionReview.createMany({
+        data: conversion.criteria.map(c => ({
+          acrJobId: acrJob.id,
+          criterionId: c.id,
+          criterionNumber: c.id,
+          criterionName: c.name,
+          level: c.level,
+          conformanceLevel: c.conformanceLevel,
+          reviewerNotes: c.remarks || null,
+          isNotApplicable: c.conformanceLevel === 'Not Applicable',
+          naReason: c.conformanceLevel === 'Not Applicable' ? c.remarks || null : null,
+          confidence: 0,
+          aiStatus: 'needs_review',
+          evidence: { source: 'openacr', component: c.component },
+        })),
+      });
+
+      return { job, acrJob };
+    });
+
+    try {
+      await acrVersioningService.createVersion(
+        acrJob.id,
+        this.toAcrDocument(acrJob.id, report, conversion),
+        userId,
+        `Imported from OpenACR (${report.catalog})`
+      );
+    } catch (versionError) {
+      // Log but don't fail the import
+      logger.error('[OpenACR] Failed to create initial version', versionError instanceof Error ? versionError : undefined);
+    }
+
+    logger.info(`[OpenACR] Imported ${conversion.criteria.length} criteria from ${report.catalog} into AcrJob ${acrJob.id}`);
+
+    return {
+      jobId: job.id,
+      acrJobId: acrJob.id,
+      edition: conversion.edition,
+      wcagVersion: conversion.wcagVersion,
+      criteriaCount: conversion.criteria.length,
+      skipped: conversion.skipped,
+    };
+  }
+
+  private toAcrDocument(id: string, report: OpenAcrReport, conversion: OpenAcrConversion): AcrDocument {
+    const evaluationDate = report.report_date ? new Date(report.report_date) : new Date();
+    return {
+      id,
+      edition: conversion.edition,
+      productInfo: {
+        name: report.product.name,
+        version: report.product.version ?? '',
+        description: report.product.description ?? '',
+        vendor: report.vendor?.company_name ?? report.vendor?.name ?? report.author?.company_name ?? '',
+        contactEmail: report.vendor?.email ?? report.author?.email ?? '',
+        evaluationDate: Number.isNaN(evaluationDate.getTime()) ? new Date() : evaluationDate,
+      },
+      evaluationMethods: [{
+        type: 'manual',
+        description: report.evaluation_methods_used || `Imported from OpenACR report "${report.title}"`,
+      }],
+      // Criteria the report did not evaluate stay out of the snapshot rather
+      // than being reported as Not Applicable; their review rows remain open
+      criteria: conversion.criteria
+        .filter((c): c is OpenAcrImportedCriterion & { conformanceLevel: AcrCriterion['conformanceLevel'] } =>
+          c.conformanceLevel !== null)
+        .map(c => ({
+          id: c.id,
+          criterionId: c.id,
+          name: c.name,
+          level: c.level,
+          conformanceLevel: c.conformanceLevel,
+          remarks: c.remarks,
+        })),
+      generatedAt: new Date(),
+      version: report.version ?? 1,
+      status: 'draft',
+      wcagVersion: conversion.wcagVersion,
+    };
+  }
+
+  private chapterFor(criterion: AcrCriterion): string | undefined {
+    if (criterion.id.startsWith('EN-')) {
+      return EN_CHAPTERS[criterion.id.slice(3).split('.')[0]];
+    }
+    return wcagCriteriaService.getCriteriaById(criterion.id) ? LEVEL_CHAPTERS[criterion.level] : undefined;
+  }
+}
+
+export const openAcrService = new OpenAcrService();
@@ -1,12 +1,15 @@
 import { z } from 'zod';
 import { geminiService } from '../ai/gemini.service';
 import { ConformanceLevel, ValidationResult } from './conformance-engine.service';
+import { wcagCriteriaService, WcagVersion } from '../validation/wcag-criteria.service';
 
 export interface RemarksGenerationRequest {
   criterionId: string;
   wcagCriterion: string;
   validationResults: ValidationResult[];
   conformanceLevel: ConformanceLevel;
+  /** WCAG version of the ACR; defaults to WCAG 2.2 */
+  wcagVersion?: WcagVersion;
 }
 
 export interface QuantitativeData {
@@ -79,6 +82,7 @@ function buildPrompt(request: RemarksGenerationRequest, stats: ReturnType<typeof
 
   return `You are an accessibility compliance expert generating remarks for a VPAT/ACR document.
 
+STANDARD: ${wcagCriteriaService.getEditionLabel(request.wcagVersion ?? '2.2')}
 CRITERION: ${request.criterionId} - ${request.wcagCriterion}
 CONFORMANCE LEVEL: ${request.conformanceLevel}
 
@@ -111,6 +115,18 @@ async function generateRemarks(
   request: RemarksGenerationRequest
 ): Promise<GeneratedRemarks> {
   const stats = extractQuantitativeData(request.validationResults);
+
+  const versionRemarks = request.wcagVersion
+    ? wcagCriteriaService.getVersionNotApplicableRemarks(request.criterionId, request.wcagVersion)
+    : undefined;
+  if (versionRemarks) {
+    return {
+      remarks: versionRemarks,
+      quantitativeData: [],
+      aiGenerated: false,
+      suggestedEdits: []
+    };
+  }
   
   if (request.validationResults.length === 0) {
     return generateFallbackRemarks(request, stats);
@@ -187,13 +203,15 @@ async function generateRemarksForCriterion(
   criterionId: string,
   wcagCriterion: string,
   validationResults: ValidationResult[],
-  conformanceLevel: ConformanceLevel
+  conformanceLevel: ConformanceLevel,
+  wcagVersion?: WcagVersion
 ): Promise<GeneratedRemarks> {
   return generateRemarks({
     criterionId,
     wcagCriterion,
     validationResults,
-    conformanceLevel
+    conformanceLevel,
+    wcagVersion
   });
 }
 
@@ -1,23 +1,22 @@
+import { wcagCriteriaService } from '../../validation/wcag-criteria.service';
+import { EDITION_WCAG_VERSIONS } from '../acr-generator.service';
+import { wcagLevelSection } from './wcag-sections';
+
+const WCAG_VERSION = EDITION_WCAG_VERSIONS['VPAT2.5-508'];
+
 export const VPAT_508_TEMPLATE = {
   edition: 'VPAT2.5-508',
   title: 'Voluntary Product Accessibility Template (VPAT) - Section 508 Edition',
-  standards: ['Section 508'],
+  wcagVersion: WCAG_VERSION,
+  standards: ['Section 508', wcagCriteriaService.getEditionLabel(WCAG_VERSION)],
   sections: [
     {
       id: 'success-criteria',
       title: 'Chapter 3: Functional Performance Criteria (FPC)',
       description: 'Section 508 Chapter 3 criteria'
     },
-    {
-      id: 'wcag-a',
-      title: 'Table 1: Success Criteria, Level A',
-      description: 'WCAG 2.0 Level A criteria as required by Section 508'
-    },
-    {
-      id: 'wcag-aa',
-      title: 'Table 2: Success Criteria, Level AA',
-      description: 'WCAG 2.0 Level AA criteria as required by Section 508'
-    },
+    wcagLevelSection('wcag-a', 'Table 1: Success Criteria, Level A', WCAG_VERSION, 'A', ' as required by Section 508'),
+    wcagLevelSection('wcag-aa', 'Table 2: Success Criteria, Level AA', WCAG_VERSION, 'AA', ' as required by Section 508'),
     {
       id: 'chapter-4',
       title: 'Chapter 4: Hardware',
@@ -1,7 +1,15 @@
+import { wcagCriteriaService } from '../../validation/wcag-criteria.service';
+import { EDITION_WCAG_VERSIONS } from '../acr-generator.service';
+import { wcagLevelSection } from './wcag-sections';
+
+const WCAG_VERSION = EDITION_WCAG_VERSIONS['VPAT2.5-EU'];
+const WCAG_LABEL = wcagCriteriaService.getEditionLabel(WCAG_VERSION);
+
 export const VPAT_EU_TEMPLATE = {
   edition: 'VPAT2.5-EU',
   title: 'Voluntary Product Accessibility Template (VPAT) - EU Edition',
-  standards: ['EN 301 549'],
+  wcagVersion: WCAG_VERSION,
+  standards: ['EN 301 549', WCAG_LABEL],
   sections: [
     {
       id: 'en-chapter-4',
@@ -30,8 +38,12 @@ export const VPAT_EU_TEMPLATE = {
     },
     {
       id: 'en-chapter-9',
-      title: 'Chapter 9: Web (WCAG 2.1)',
-      description: 'Web accessibility requirements mapping to WCAG 2.1'
+      title: `Chapter 9: Web (${WCAG_LABEL})`,
+      description: `Web accessibility requirements mapping to ${WCAG_LABEL}`,
+      subsections: [
+        wcagLevelSection('wcag-a', 'Table 1: Success Criteria, Level A', WCAG_VERSION, 'A'),
+        wcagLevelSection('wcag-aa', 'Table 2: Success Criteria, Level AA', WCAG_VERSION, 'AA')
+      ]
     },
     {
       id: 'en-chapter-10',
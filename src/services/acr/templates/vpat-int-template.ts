@@ -1,24 +1,20 @@
+import { wcagCriteriaService } from '../../validation/wcag-criteria.service';
+import { EDITION_WCAG_VERSIONS } from '../acr-generator.service';
+import { wcagLevelSection } from './wcag-sections';
+
+const WCAG_VERSION = EDITION_WCAG_VERSIONS['VPAT2.5-INT'];
+const WCAG_LABEL = wcagCriteriaService.getEditionLabel(WCAG_VERSION);
+
 export const VPAT_INT_TEMPLATE = {
   edition: 'VPAT2.5-INT',
   title: 'Voluntary Product Accessibility Template (VPAT) - International Edition',
-  standards: ['Section 508', 'EN 301 549', 'WCAG 2.1'],
-  description: 'The International Edition combines all requirements from US Section 508, European EN 301 549, and WCAG 2.1. This is the recommended edition for multinational vendors as it satisfies requirements across jurisdictions in a single document.',
+  wcagVersion: WCAG_VERSION,
+  standards: ['Section 508', 'EN 301 549', WCAG_LABEL],
+  description: `The International Edition combines all requirements from US Section 508, European EN 301 549, and ${WCAG_LABEL}. This is the recommended edition for multinational vendors as it satisfies requirements across jurisdictions in a single document.`,
   sections: [
-    {
-      id: 'wcag-a',
-      title: 'Table 1: Success Criteria, Level A',
-      description: 'WCAG 2.1 Level A criteria'
-    },
-    {
-      id: 'wcag-aa',
-      title: 'Table 2: Success Criteria, Level AA',
-      description: 'WCAG 2.1 Level AA criteria'
-    },
-    {
-      id: 'wcag-aaa',
-      title: 'Table 3: Success Criteria, Level AAA (Optional)',
-      description: 'WCAG 2.1 Level AAA criteria (optional reporting)'
-    },
+    wcagLevelSection('wcag-a', 'Table 1: Success Criteria, Level A', WCAG_VERSION, 'A'),
+    wcagLevelSection('wcag-aa', 'Table 2: Success Criteria, Level AA', WCAG_VERSION, 'AA'),
+    wcagLevelSection('wcag-aaa', 'Table 3: Success Criteria, Level AAA (Optional)', WCAG_VERSION, 'AAA', ' (optional reporting)'),
     {
       id: 'revised-508',
       title: 'Revised Section 508 Report',
@@ -79,7 +75,7 @@ export const VPAT_INT_TEMPLATE = {
         {
           id: 'en-chapter-9',
           title: 'Chapter 9: Web',
-          description: 'Web accessibility (maps to WCAG 2.1)'
+          description: `Web accessibility (maps to ${WCAG_LABEL})`
         },
         {
           id: 'en-chapter-10',
@@ -11,13 +11,20 @@
  *
  * Note: like the other VPAT templates in this directory, this file is
  * declarative metadata that the wider codebase doesn't (yet) consume —
- * the canonical edition wiring lives in `acr-generator.service.ts`.
+ * the canonical edition wiring lives in `acr-generator.service.ts`, and
+ * the WCAG tables list criteria from the shared WCAG catalogue.
  * Keeping it here for symmetry with the existing 4 editions and so a
  * future template-rendering pipeline has a single source of truth.
  */
 
+import { EDITION_WCAG_VERSIONS } from '../acr-generator.service';
+import { wcagLevelSection } from './wcag-sections';
+
+const WCAG_VERSION = EDITION_WCAG_VERSIONS['VPAT2.5-PRH-UK'];
+
 export const VPAT_PRH_UK_TEMPLATE = {
   edition: 'VPAT2.5-PRH-UK',
+  wcagVersion: WCAG_VERSION,
   title: 'Voluntary Product Accessibility Template (VPAT) - PRH UK Edition',
   standards: ['EPUB Accessibility 1.1', 'WCAG 2.2'],
   description:
@@ -33,16 +40,8 @@ export const VPAT_PRH_UK_TEMPLATE = {
   tdmReservationNote:
     'No part of this work may be used or reproduced in any manner for the purpose of training artificial intelligence technologies or systems. In accordance with Article 4(3) of the DSM Directive 2019/790, Penguin Random House expressly reserves this work from the text and data mining exception.',
   sections: [
-    {
-      id: 'wcag-a',
-      title: 'Table 1: Success Criteria, Level A',
-      description: 'WCAG 2.2 Level A criteria',
-    },
-    {
-      id: 'wcag-aa',
-      title: 'Table 2: Success Criteria, Level AA',
-      description: 'WCAG 2.2 Level AA criteria',
-    },
+    wcagLevelSection('wcag-a', 'Table 1: Success Criteria, Level A', WCAG_VERSION, 'A'),
+    wcagLevelSection('wcag-aa', 'Table 2: Success Criteria, Level AA', WCAG_VERSION, 'AA'),
     // No AAA section — PRH's published target is AA.
   ],
   benefits: [
@@ -1,22 +1,17 @@
+import { wcagCriteriaService } from '../../validation/wcag-criteria.service';
+import { EDITION_WCAG_VERSIONS } from '../acr-generator.service';
+import { wcagLevelSection } from './wcag-sections';
+
+const WCAG_VERSION = EDITION_WCAG_VERSIONS['VPAT2.5-WCAG'];
+
 export const VPAT_WCAG_TEMPLATE = {
   edition: 'VPAT2.5-WCAG',
   title: 'Voluntary Product Accessibility Template (VPAT) - WCAG Edition',
-  standards: ['WCAG 2.1'],
+  wcagVersion: WCAG_VERSION,
+  standards: [wcagCriteriaService.getEditionLabel(WCAG_VERSION)],
   sections: [
-    {
-      id: 'wcag-a',
-      title: 'Table 1: Success Criteria, Level A',
-      description: 'WCAG 2.1 Level A criteria'
-    },
-    {
-      id: 'wcag-aa',
-      title: 'Table 2: Success Criteria, Level AA',
-      description: 'WCAG 2.1 Level AA criteria'
-    },
-    {
-      id: 'wcag-aaa',
-      title: 'Table 3: Success Criteria, Level AAA (Optional)',
-      description: 'WCAG 2.1 Level AAA criteria (optional reporting)'
-    }
+    wcagLevelSection('wcag-a', 'Table 1: Success Criteria, Level A', WCAG_VERSION, 'A'),
+    wcagLevelSection('wcag-aa', 'Table 2: Success Criteria, Level AA', WCAG_VERSION, 'AA'),
+    wcagLevelSection('wcag-aaa', 'Table 3: Success Criteria, Level AAA (Optional)', WCAG_VERSION, 'AAA', ' (optional reporting)')
   ]
 };
@@ -0,0 +1,21 @@
+import { wcagCriteriaService, WCAGCriterion, WcagVersion } from '../../validation/wcag-criteria.service';
+
+/**
+ * One WCAG success-criteria table of a VPAT template, with the criteria
+ * the chosen WCAG version reports at that level. Obsolete criteria keep
+ * their row (reported as Not Applicable).
+ */
+export function wcagLevelSection(
+  id: string,
+  title: string,
+  version: WcagVersion,
+  level: WCAGCriterion['level'],
+  descriptionSuffix = ''
+) {
+  return {
+    id,
+    title,
+    description: `${wcagCriteriaService.getEditionLabel(version)} Level ${level} criteria${descriptionSuffix}`,
+    criteria: wcagCriteriaService.getReportCriteria(version, [level]).map(c => c.id),
+  };
+}
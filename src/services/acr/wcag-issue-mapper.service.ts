@@ -44,6 +44,19 @@ export const RULE_TO_CRITERIA_MAP: Record<string, string[]> = {
   
   // Figure issues
   'EPUB-FIG-001': ['1.1.1'],
+
+  // Math issues
+  'EPUB-MATH-001': ['1.1.1'],
+  'EPUB-MATH-002': ['1.1.1'],
+  'EPUB-MATH-003': [],
+
+  // Fixed-layout issues
+  'FXL-VIEWPORT-MISSING': [],
+  'FXL-VIEWPORT-INVALID': [],
+  'FXL-TEXT-IN-IMAGE': ['1.1.1', '1.4.5'],
+  'FXL-READING-ORDER': ['1.3.2'],
+  'FXL-SPREAD-ORDER': ['1.3.2'],
+  'FXL-SUMMARY-CAVEAT': [],
   
   // EPUBCheck resource errors
   'RSC-003': [],
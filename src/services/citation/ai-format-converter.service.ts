@@ -1,11 +1,13 @@
 /**
  * AI-Powered Citation Format Converter
- * Converts citations between different styles using AI
+ * Converts citations between different styles. Output is rendered by the
+ * CSL formatter; AI only parses references that have no structured fields.
  */
 
 import { claudeService } from '../ai/claude.service';
 import { logger } from '../../lib/logger';
 import { ReferenceEntry, InTextCitation } from './ai-citation-detector.service';
+import { cslFormatterService, detectedReferenceToCslItem, type CslItem, type CslProcessor } from './csl';
 
 export type CitationStyle = 'APA' | 'MLA' | 'Chicago' | 'Vancouver' | 'IEEE' | 'Harvard' | 'AMA';
 
@@ -30,7 +32,7 @@ export interface ConversionResult {
 
 class AIFormatConverterService {
   /**
-   * Convert citations to target format using AI
+   * Convert citations to target format
    */
   async convertStyle(
     references: ReferenceEntry[],
@@ -337,11 +339,59 @@ class AIFormatConverterService {
   }
 
   /**
-   * Convert references to target style using AI
+   * Convert references to target style. References with structured
+   * components are rendered by the style's CSL definition; only free-text
+   * references go to AI, which parses them into fields first.
    */
   private async convertReferences(
     references: ReferenceEntry[],
     targetStyle: CitationStyle
+  ): Promise<ReferenceEntry[]> {
+    const processor = cslFormatterService.getBuiltInProcessor(targetStyle);
+    const unstructured = references.filter(ref => !this.hasStructuredComponents(ref.components));
+    const parsedById = new Map<string, ReferenceEntry>();
+    if (unstructured.length > 0) {
+      const parsed = await this.parseReferencesWithAI(unstructured, targetStyle);
+      parsed.forEach((ref, index) => parsedById.set(unstructured[index]?.id ?? ref.id, ref));
+    }
+
+    logger.info(`[Format Converter] Rendering ${references.length} references with CSL (${unstructured.length} parsed by AI)`);
+
+    return references.map((ref, index) => {
+      const parsed = parsedById.get(ref.id);
+      // Keep the original components for in-text conversion unless they lack authors
+      const components = ref.components?.authors?.length ? ref.components : parsed?.components ?? ref.components;
+      const source = this.hasStructuredComponents(ref.components) ? ref : parsed;
+      const rawText = source && this.hasStructuredComponents(source.components)
+        ? cslFormatterService.formatEntry(processor, detectedReferenceToCslItem({ ...source, id: ref.id }))
+        : parsed?.rawText || ref.rawText;
+
+      return {
+        id: ref.id,
+        number: index + 1,
+        rawText,
+        sourceType: ref.sourceType,
+        components,
+        detectedStyle: targetStyle,
+        citedBy: ref.citedBy || []
+      };
+    });
+  }
+
+  /**
+   * Enough fields to render a reference from its components rather than its text
+   */
+  private hasStructuredComponents(components: ReferenceEntry['components'] | undefined): boolean {
+    return Boolean(components?.title && (components.authors?.length || components.year));
+  }
+
+  /**
+   * Parse (and reformat) free-text references with AI.
+   * The returned components are the fields the AI extracted.
+   */
+  private async parseReferencesWithAI(
+    references: ReferenceEntry[],
+    targetStyle: CitationStyle
   ): Promise<ReferenceEntry[]> {
     const styleGuide = this.getStyleGuide(targetStyle);
 
@@ -445,14 +495,11 @@ Return ONLY a JSON array with NO additional text:
           logger.error(`[Format Converter] WARNING: Missing ID for reference ${index + 1} - database update will fail!`);
         }
 
-        // IMPORTANT: Preserve original components for in-text citation conversion
-        // Only update rawText from AI conversion
         return {
           id: originalRef?.id || `ref-${index + 1}`,
           number: index + 1,  // Use index-based numbering for consistency
           rawText: r.rawText || originalRef?.rawText || '',
-          // Preserve original components (author, year, etc.) for in-text citations
-          components: originalRef?.components || {
+          components: {
             authors: r.authors || [],
             year: r.year,
             title: r.title,
@@ -501,6 +548,9 @@ Return ONLY a JSON array with NO additional text:
       logger.info(`[Format Converter] RefMap[${refNum}]: authors=${JSON.stringify(ref.components?.authors)}, year=${ref.components?.year}`);
     });
 
+    const processor = cslFormatterService.getBuiltInProcessor(targetStyle);
+    const cslItems = convertedRefs.map(ref => detectedReferenceToCslItem(ref));
+
     const convertedCitations = citations.map(citation => {
       const originalText = citation.text || '';
 
@@ -545,7 +595,19 @@ Return ONLY a JSON array with NO additional text:
       let newText = originalText;
       let format: 'bracket' | 'parenthesis' | 'superscript' = 'parenthesis';
 
-      if (inTextFormat === 'author-year') {
+      // Render with CSL when every cited reference is known (and, for
+      // author-year styles, has authors); otherwise fall back to numbers
+      const citedRefs = numbers.map(num => refMap.get(num));
+      const renderable = inTextFormat !== 'footnote' && citedRefs.every(ref =>
+        ref && (inTextFormat !== 'author-year' || (ref.components?.authors?.length ?? 0) > 0)
+      );
+
+      if (renderable) {
+        newText = this.renderCitation(processor, cslItems, citedRefs as ReferenceEntry[]);
+        format = newText.startsWith('[') ? 'bracket' : 'parenthesis';
+        logger.info(`[Format Converter] CSL conversion: "${originalText}" → "${newText}"`);
+
+      } else if (inTextFormat === 'author-year') {
         // Convert to author-year format: (1) → (Smith, 2020) or (Smith & Jones, 2020)
         const authorYearParts: string[] = [];
 
@@ -622,6 +684,17 @@ Return ONLY a JSON array with NO additional text:
     return { convertedCitations, citationConversions };
   }
 
+  /**
+   * Render one in-text citation with the style's CSL definition. Items are
+   * numbered in reference list order so numeric citations keep their numbers.
+   */
+  private renderCitation(processor: CslProcessor, items: CslItem[], refs: ReferenceEntry[]): string {
+    const [citation] = processor.formatCitations(items, [{ items: refs.map(ref => ({ id: ref.id })) }], {
+      numberByItemOrder: true
+    });
+    return citation?.text ?? '';
+  }
+
   /**
    * Detect if a citation is in author-year format (e.g., "(Floridi, 2014)" or "(Smith & Jones, 2021)")
    */
@@ -0,0 +1,472 @@
+/**
+ * Bibliography Import/Export Service
+ * Imports BibTeX, RIS and CSL-JSON files (and reference manager field data
+ * embedded in DOCX) into a document's reference list, linking the imported
+ * entries to the in-text citations already detected, and exports the
+ * reference list in the same formats.
+ */
+
+import type { Prisma } from '@prisma/client';
+import prisma from '../../../lib/prisma';
+import { logger } from '../../../lib/logger';
+import { AppError } from '../../../utils/app-error';
+import { extractCitationNumbers } from '../../../utils/citation.utils';
+import { normalizeSuperscripts } from '../../../utils/unicode';
+import { normalizeDoi, referenceEntryToCslItem, type CslItem, type CslItemType, type CslName } from '../csl';
+import { referenceListService, type Author } from '../reference-list.service';
+import type { ReferenceManager, ReferenceManagerCitation } from '../field-codes';
+import { parseBibtex, serializeBibtex } from './bibtex';
+import { parseCslJson, serializeCslJson } from './csl-json';
+import { parseRis, serializeRis } from './ris';
+
+export type BibliographyFormat = 'bibtex' | 'ris' | 'csl-json';
+
+export const BIBLIOGRAPHY_FORMATS: Record<BibliographyFormat, { extension: string; contentType: string }> = {
+  bibtex: { extension: 'bib', contentType: 'application/x-bibtex' },
+  ris: { extension: 'ris', contentType: 'application/x-research-info-systems' },
+  'csl-json': { extension: 'json', contentType: 'application/vnd.citationstyles.csl+json' },
+};
+
+/** Largest bibliography file accepted for import */
+export const MAX_BIBLIOGRAPHY_BYTES = 5 * 1024 * 1024;
+
+/**
+ * - merge: update entries that match an imported item (DOI, title or
+ *   first author + year), append the rest
+ * - replace: discard the current reference list and number the imported
+ *   items in file order
+ */
+export type ReferenceImportMode = 'merge' | 'replace';
+
+export interface ReferenceImportOptions {
+  format?: BibliographyFormat;
+  mode?: ReferenceImportMode;
+  fileName?: string;
+}
+
+export interface ReferenceImportResult {
+  format: BibliographyFormat;
+  mode: ReferenceImportMode;
+  imported: number;
+  created: number;
+  updated: number;
+  linkedCitations: number;
+  unlinkedCitations: number;
+}
+
+export interface FieldCitationImportResult {
+  /** Reference manager citation fields read from the document */
+  fieldCitations: number;
+  /** Distinct works cited by those fields */
+  items: number;
+  created: number;
+  updated: number;
+  linkedCitations: number;
+}
+
+export interface ReferenceExport {
+  format: BibliographyFormat;
+  content: string;
+  count: number;
+}
+
+const CSL_TO_SOURCE_TYPE: Record<CslItemType, string> = {
+  article: 'unknown',
+  'article-journal': 'journal_article',
+  'article-magazine': 'magazine',
+  'article-newspaper': 'newspaper',
+  book: 'book',
+  chapter: 'book_chapter',
+  'paper-conference': 'conference_paper',
+  webpage: 'website',
+  thesis: 'thesis',
+  report: 'report',
+  patent: 'patent',
+  legal_case: 'legal',
+  personal_communication: 'personal_communication',
+};
+
+const FORMATTED_COLUMNS_RESET = {
+  formattedApa: null,
+  formattedMla: null,
+  formattedChicago: null,
+  formattedVancouver: null,
+  formattedIeee: null,
+};
+
+interface ImportedEntry {
+  id: string;
+  sortKey: string;
+  item: CslItem;
+}
+
+function normalizeTitle(title: string | null | undefined): string {
+  return (title ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+}
+
+function normalizeFamily(name: string | undefined): string {
+  return (name ?? '').normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function itemYear(item: CslItem): string | undefined {
+  return item.issued?.['date-parts']?.[0]?.[0]?.toString() ?? item.issued?.literal;
+}
+
+function firstFamily(names: CslName[] | undefined): string | undefined {
+  const first = names?.[0];
+  return first?.family ?? first?.literal?.split(/\s+/)[0];
+}
+
+function cslNameToAuthor(name: CslName): Author {
+  if (name.literal) return { lastName: name.literal };
+  return {
+    firstName: name.given,
+    lastName: [name['non-dropping-particle'], name.family].filter(Boolean).join(' ') || 'Unknown',
+    suffix: name.suffix,
+  };
+}
+
+class BibliographyIoService {
+  /**
+   * Work out the format from the file extension, falling back to the content
+   * @throws AppError 400 when the content matches no supported format
+   */
+  detectFormat(content: string, fileName?: string): BibliographyFormat {
+    const extension = fileName?.split('.').pop()?.toLowerCase();
+    if (extension === 'bib' || extension === 'bibtex') return 'bibtex';
+    if (extension === 'ris') return 'ris';
+    if (extension === 'json') return 'csl-json';
+
+    const trimmed = content.replace(/^\uFEFF/, '').trimStart();
+    if (trimmed.startsWith('[') || trimmed.startsWith('{')) return 'csl-json';
+    if (/^TY {2}- /m.test(trimmed)) return 'ris';
+    if (/@[a-zA-Z]+\s*[{(]/.test(trimmed)) return 'bibtex';
+    throw AppError.badRequest(
+      'Unrecognised bibliography format. Supported: BibTeX (.bib), RIS (.ris), CSL-JSON (.json)',
+      'UNSUPPORTED_BIBLIOGRAPHY_FORMAT'
+    );
+  }
+
+  parse(content: string, format: BibliographyFormat): CslItem[] {
+    switch (format) {
+      case 'bibtex':
+        return parseBibtex(content);
+      case 'ris':
+        return parseRis(content);
+      case 'csl-json':
+        return parseCslJson(content);
+    }
+  }
+
+  serialize(items: CslItem[], format: BibliographyFormat): string {
+    switch (format) {
+      case 'bibtex':
+        return serializeBibtex(items);
+      case 'ris':
+        return serializeRis(items);
+      case 'csl-json':
+        return serializeCslJson(items);
+    }
+  }
+
+  /**
+   * Import a bibliography file into a document's reference list and link
+   * the imported entries to unlinked in-text citations
+   */
+  async importReferences(
+    documentId: string,
+    content: string,
+    options: ReferenceImportOptions = {}
+  ): Promise<ReferenceImportResult> {
+    if (Buffer.byteLength(content, 'utf8') > MAX_BIBLIOGRAPHY_BYTES) {
+      throw AppError.badRequest(`Bibliography exceeds ${MAX_BIBLIOGRAPHY_BYTES / (1024 * 1024)} MB`, 'BIBLIOGRAPHY_TOO_LARGE');
+    }
+    const format = options.format ?? this.detectFormat(content, options.fileName);
+    const mode = options.mode ?? 'merge';
+    const items = this.parse(content, format);
+
+    const [existing, citations] = await Promise.all([
+      prisma.referenceListEntry.findMany({
+        where: { documentId },
+        orderBy: { sortKey: 'asc' },
+        include: { citationLinks: true },
+      }),
+      prisma.citation.findMany({
+        where: { documentId },
+        orderBy: [{ paragraphIndex: 'asc' }, { startOffset: 'asc' }],
+      }),
+    ]);
+
+    const { imported, updated } = await this.mergeItems(documentId, items, existing, mode, () => 'import');
+
+    const alreadyLinked = new Set(
+      mode === 'replace' ? [] : existing.flatMap(entry => entry.citationLinks.map(link => link.citationId))
+    );
+    const unlinked = citations.filter(citation => !alreadyLinked.has(citation.id));
+    const links = this.matchCitations(unlinked, imported);
+    if (links.length > 0) {
+      await prisma.referenceListEntryCitation.createMany({ data: links, skipDuplicates: true });
+    }
+    const linkedCitations = new Set(links.map(link => link.citationId)).size;
+
+    logger.info(
+      `[Bibliography IO] Imported ${items.length} ${format} references into document ${documentId} ` +
+      `(${mode}: ${imported.length - updated} created, ${updated} updated, ${linkedCitations} citations linked)`
+    );
+
+    return {
+      format,
+      mode,
+      imported: items.length,
+      created: imported.length - updated,
+      updated,
+      linkedCitations,
+      unlinkedCitations: unlinked.length - linkedCitations,
+    };
+  }
+
+  /**
+   * Merge the works cited by reference manager fields (Zotero, Mendeley,
+   * EndNote) into the reference list and link each field's in-text citation
+   * to the works it cites. The fields hold the author's own library records,
+   * so their metadata and links take precedence over detected ones.
+   */
+  async importFieldCitations(
+    documentId: string,
+    fieldCitations: ReferenceManagerCitation[]
+  ): Promise<FieldCitationImportResult> {
+    const items = new Map<string, { item: CslItem; manager: ReferenceManager }>();
+    for (const citation of fieldCitations) {
+      for (const item of citation.items) {
+        if (!items.has(item.id)) items.set(item.id, { item, manager: citation.manager });
+      }
+    }
+    if (items.size === 0) {
+      return { fieldCitations: fieldCitations.length, items: 0, created: 0, updated: 0, linkedCitations: 0 };
+    }
+
+    const [existing, citations] = await Promise.all([
+      prisma.referenceListEntry.findMany({ where: { documentId }, orderBy: { sortKey: 'asc' } }),
+      prisma.citation.findMany({
+        where: { documentId },
+        orderBy: [{ paragraphIndex: 'asc' }, { startOffset: 'asc' }],
+      }),
+    ]);
+
+    const { imported, updated } = await this.mergeItems(
+      documentId,
+      [...items.values()].map(({ item }) => item),
+      existing,
+      'merge',
+      item => items.get(item.id)?.manager ?? 'import'
+    );
+    const entryIdByItem = new Map(imported.map(entry => [entry.item.id, entry.id]));
+
+    const links: Array<{ citationId: string; referenceListEntryId: string }> = [];
+    for (const citation of citations) {
+      for (const item of this.matchFieldCitation(citation.rawText, fieldCitations)) {
+        const entryId = entryIdByItem.get(item.id);
+        if (entryId) links.push({ citationId: citation.id, referenceListEntryId: entryId });
+      }
+    }
+    const linkedCitationIds = [...new Set(links.map(link => link.citationId))];
+    if (linkedCitationIds.length > 0) {
+      await prisma.$transaction([
+        prisma.referenceListEntryCitation.deleteMany({ where: { citationId: { in: linkedCitationIds } } }),
+        prisma.referenceListEntryCitation.createMany({ data: links, skipDuplicates: true }),
+      ]);
+    }
+
+    logger.info(
+      `[Bibliography IO] Applied ${fieldCitations.length} reference manager citations to document ${documentId} ` +
+      `(${imported.length - updated} created, ${updated} updated, ${linkedCitationIds.length} citations linked)`
+    );
+
+    return {
+      fieldCitations: fieldCitations.length,
+      items: items.size,
+      created: imported.length - updated,
+      updated,
+      linkedCitations: linkedCitationIds.length,
+    };
+  }
+
+  /** Export a document's reference list in reference list order */
+  async exportReferences(documentId: string, format: BibliographyFormat): Promise<ReferenceExport> {
+    const entries = await prisma.referenceListEntry.findMany({
+      where: { documentId },
+      orderBy: { sortKey: 'asc' },
+    });
+    const items = entries.map(entry => referenceEntryToCslItem({
+      ...entry,
+      authors: Array.isArray(entry.authors) ? entry.authors as unknown as Array<Author | string> : [],
+    }));
+    return { format, content: this.serialize(items, format), count: items.length };
+  }
+
+  /**
+   * Update entries matching an item, create the rest. New entries continue
+   * numeric sort keys, or get author-year keys when the list uses those.
+   */
+  private async mergeItems(
+    documentId: string,
+    items: CslItem[],
+    existing: Array<{ id: string; sortKey: string; doi: string | null; title: string; year: string | null; authors: Prisma.JsonValue }>,
+    mode: ReferenceImportMode,
+    sourceOf: (item: CslItem) => string
+  ): Promise<{ imported: ImportedEntry[]; updated: number }> {
+    const imported: ImportedEntry[] = [];
+    let updated = 0;
+    const numericKeys = existing.every(entry => /^\d+$/.test(entry.sortKey));
+    let nextNumber = mode === 'replace' ? 1 : existing.reduce((max, entry) => Math.max(max, parseInt(entry.sortKey, 10) || 0), 0) + 1;
+
+    await prisma.$transaction(async (tx) => {
+      if (mode === 'replace') {
+        await tx.referenceListEntry.deleteMany({ where: { documentId } });
+      }
+      const claimed = new Set<string>();
+
+      for (const item of items) {
+        const data = this.toEntryData(item, sourceOf(item));
+        const match = mode === 'merge' ? this.findExistingEntry(item, existing, claimed) : undefined;
+        if (match) {
+          claimed.add(match.id);
+          await tx.referenceListEntry.update({
+            where: { id: match.id },
+            data: { ...data, ...FORMATTED_COLUMNS_RESET },
+          });
+          imported.push({ id: match.id, sortKey: match.sortKey, item });
+          updated++;
+          continue;
+        }
+
+        const sortKey = mode === 'replace' || numericKeys
+          ? String(nextNumber++).padStart(4, '0')
+          : referenceListService.generateSortKey({
+            authors: data.authors as unknown as Author[],
+            year: data.year ?? undefined,
+            title: data.title,
+          });
+        const created = await tx.referenceListEntry.create({ data: { documentId, sortKey, ...data } });
+        imported.push({ id: created.id, sortKey, item });
+      }
+    });
+
+    return { imported, updated };
+  }
+
+  /**
+   * Items cited by the field showing this citation. Author-year citations
+   * split out of a multi-work field ("Smith, 2020" from "(Smith, 2020; Lee,
+   * 2019)") get the items whose first author and year they name.
+   */
+  private matchFieldCitation(rawText: string, fieldCitations: ReferenceManagerCitation[]): CslItem[] {
+    const text = rawText.replace(/\s+/g, ' ').trim();
+    if (!text) return [];
+    const exact = fieldCitations.find(citation => citation.displayText === text);
+    if (exact) return exact.items;
+
+    const containing = fieldCitations.find(citation => citation.displayText.includes(text));
+    if (!containing) return [];
+    if (containing.items.length === 1) return containing.items;
+    const folded = normalizeFamily(text);
+    return containing.items.filter(item => {
+      const family = normalizeFamily(firstFamily(item.author));
+      const year = itemYear(item);
+      return Boolean(family) && folded.includes(family) && (!year || text.includes(year));
+    });
+  }
+
+  private toEntryData(item: CslItem, enrichmentSource: string) {
+    return {
+      authors: (item.author ?? []).map(cslNameToAuthor) as unknown as Prisma.InputJsonValue,
+      year: itemYear(item) ?? null,
+      title: item.title ?? 'Untitled',
+      sourceType: CSL_TO_SOURCE_TYPE[item.type],
+      journalName: item['container-title'] ?? null,
+      volume: item.volume ?? null,
+      issue: item.issue ?? null,
+      pages: item.page ?? null,
+      publisher: item.publisher ?? null,
+      doi: item.DOI ?? null,
+      url: item.URL ?? null,
+      enrichmentSource,
+      enrichmentConfidence: 1,
+    };
+  }
+
+  /** Same DOI, else same title, else same first author and year */
+  private findExistingEntry<T extends { id: string; sortKey: string; doi: string | null; title: string; year: string | null; authors: Prisma.JsonValue }>(
+    item: CslItem,
+    entries: T[],
+    claimed: Set<string>
+  ): T | undefined {
+    const candidates = entries.filter(entry => !claimed.has(entry.id));
+    const doi = normalizeDoi(item.DOI)?.toLowerCase();
+    if (doi) {
+      const byDoi = candidates.find(entry => normalizeDoi(entry.doi)?.toLowerCase() === doi);
+      if (byDoi) return byDoi;
+    }
+    const title = normalizeTitle(item.title);
+    if (title.length >= 10) {
+      const byTitle = candidates.find(entry => normalizeTitle(entry.title) === title);
+      if (byTitle) return byTitle;
+    }
+    const family = normalizeFamily(firstFamily(item.author));
+    const year = itemYear(item);
+    if (!family || !year) return undefined;
+    return candidates.find(entry => {
+      const authors = Array.isArray(entry.authors) ? entry.authors as unknown as Array<Author | string> : [];
+      const first = authors[0];
+      const lastName = typeof first === 'string' ? first.split(/[\s,]+/)[0] : first?.lastName;
+      return entry.year === year && normalizeFamily(lastName) === family;
+    });
+  }
+
+  /**
+   * Link citations to imported entries: numeric citations by reference
+   * number, author-year citations by first author and year (a year suffix
+   * such as "2020b" picks among same author-year entries in list order)
+   */
+  private matchCitations(
+    citations: Array<{ id: string; rawText: string }>,
+    entries: ImportedEntry[]
+  ): Array<{ citationId: string; referenceListEntryId: string }> {
+    const links: Array<{ citationId: string; referenceListEntryId: string }> = [];
+    const byNumber = new Map<number, string>();
+    for (const entry of entries) {
+      if (/^\d+$/.test(entry.sortKey)) byNumber.set(parseInt(entry.sortKey, 10), entry.id);
+    }
+    const ordered = [...entries].sort((a, b) => a.sortKey.localeCompare(b.sortKey));
+
+    for (const citation of citations) {
+      const text = normalizeSuperscripts(citation.rawText);
+      const isAuthorYear = /\p{L}{2,}/u.test(text) && /\b(1[5-9]|20)\d{2}[a-z]?\b/.test(text);
+
+      if (!isAuthorYear) {
+        for (const num of extractCitationNumbers(text)) {
+          const entryId = byNumber.get(num);
+          if (entryId) links.push({ citationId: citation.id, referenceListEntryId: entryId });
+        }
+        continue;
+      }
+
+      for (const part of text.split(';')) {
+        const surnames = new Set(
+          (part.match(/\p{Lu}[\p{L}'’-]+/gu) ?? []).map(normalizeFamily)
+        );
+        // "Smith, 2019, 2020a" cites two works by the same author
+        for (const [, year, suffix] of part.matchAll(/\b((?:1[5-9]|20)\d{2})([a-z])?\b/g)) {
+          const candidates = ordered.filter(entry =>
+            itemYear(entry.item) === year && surnames.has(normalizeFamily(firstFamily(entry.item.author)))
+          );
+          const match = candidates[suffix ? suffix.charCodeAt(0) - 97 : 0] ?? candidates[0];
+          if (match) links.push({ citationId: citation.id, referenceListEntryId: match.id });
+        }
+      }
+    }
+    return links;
+  }
+}
+
+export const bibliographyIoService = new BibliographyIoService();
@@ -0,0 +1,409 @@
+/**
+ * BibTeX / BibLaTeX reading and writing.
+ *
+ * Entries are read into CSL items: @string macros and `#` concatenation
+ * are resolved, common LaTeX accents decoded and names split with the
+ * BibTeX rules ("Last, First", "First von Last", "Last, Jr, First").
+ */
+
+import { AppError } from '../../../utils/app-error';
+import { compactCslItem, parseNameString } from '../csl';
+import type { CslDate, CslItem, CslItemType, CslName } from '../csl';
+
+const ENTRY_TYPES: Record<string, CslItemType> = {
+  article: 'article-journal',
+  book: 'book',
+  booklet: 'book',
+  manual: 'book',
+  inbook: 'chapter',
+  incollection: 'chapter',
+  inproceedings: 'paper-conference',
+  conference: 'paper-conference',
+  phdthesis: 'thesis',
+  mastersthesis: 'thesis',
+  thesis: 'thesis',
+  techreport: 'report',
+  report: 'report',
+  online: 'webpage',
+  electronic: 'webpage',
+  www: 'webpage',
+  patent: 'patent',
+  jurisdiction: 'legal_case',
+};
+
+const CSL_TO_BIBTEX: Record<CslItemType, string> = {
+  article: 'misc',
+  'article-journal': 'article',
+  'article-magazine': 'article',
+  'article-newspaper': 'article',
+  book: 'book',
+  chapter: 'incollection',
+  'paper-conference': 'inproceedings',
+  webpage: 'online',
+  thesis: 'phdthesis',
+  report: 'techreport',
+  patent: 'patent',
+  legal_case: 'misc',
+  personal_communication: 'misc',
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const ACCENTS: Record<string, string> = {
+  "'": '\u0301',
+  '`': '\u0300',
+  '^': '\u0302',
+  '"': '\u0308',
+  '~': '\u0303',
+  '=': '\u0304',
+  '.': '\u0307',
+  u: '\u0306',
+  v: '\u030C',
+  H: '\u030B',
+  c: '\u0327',
+  k: '\u0328',
+};
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  ss: 'ß',
+  ae: 'æ',
+  AE: 'Æ',
+  oe: 'œ',
+  OE: 'Œ',
+  aa: 'å',
+  AA: 'Å',
+  o: 'ø',
+  O: 'Ø',
+  l: 'ł',
+  L: 'Ł',
+  i: 'ı',
+};
+
+interface RawEntry {
+  type: string;
+  key: string;
+  fields: Record<string, string>;
+}
+
+/** Decode LaTeX accents, escapes and dashes, then drop protective braces */
+export function decodeLatex(value: string): string {
+  const accent = (match: string, mark: string, letter: string) =>
+    ACCENTS[mark] ? `${letter}${ACCENTS[mark]}`.normalize('NFC') : match;
+  return value
+    .replace(/\\(?:textit|textbf|textsc|textrm|emph|mathrm|url)\{([^{}]*)\}/g, '$1')
+    // \'e, \'{e}, {\'e}, \'{\i}
+    .replace(/\{?\\([`'^"~=.])\s*\{?\\?([a-zA-Z])\}?\}?/g, accent)
+    // Letter accents need a brace or space: \c{c}, \v s
+    .replace(/\{?\\([uvHck])(?:\s+|\{)\\?([a-zA-Z])\}?\}?/g, accent)
+    // \ss, {\o}, \ae{}
+    .replace(/\{\\([a-zA-Z]{1,2})\}|\\([a-zA-Z]{1,2})(?:\{\}|(?![a-zA-Z])\s?)/g,
+      (match, braced: string | undefined, bare: string | undefined) => LATEX_SYMBOLS[braced ?? bare ?? ''] ?? match)
+    .replace(/\\([&%$#_{}])/g, '$1')
+    .replace(/---/g, '—')
+    .replace(/--/g, '–')
+    .replace(/(?<!\\)~/g, ' ')
+    .replace(/[{}]/g, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/** Escape the characters BibTeX treats specially */
+function encodeLatex(value: string): string {
+  return value.replace(/([&%$#_])/g, '\\$1').replace(/[{}]/g, '');
+}
+
+class BibtexReader {
+  private pos = 0;
+  private readonly macros: Record<string, string> = Object.fromEntries(
+    MONTHS.map((month, index) => [month, String(index + 1)])
+  );
+
+  constructor(private readonly input: string) {}
+
+  read(): RawEntry[] {
+    const entries: RawEntry[] = [];
+    while (this.skipTo('@')) {
+      this.pos++;
+      const type = this.readIdentifier().toLowerCase();
+      this.skipWhitespace();
+      const open = this.input[this.pos];
+      if (open !== '{' && open !== '(') continue;
+      const close = open === '{' ? '}' : ')';
+      this.pos++;
+
+      if (type === 'comment' || type === 'preamble') {
+        this.skipBalanced(close);
+        continue;
+      }
+      if (type === 'string') {
+        const fields = this.readFields(close);
+        Object.assign(this.macros, fields);
+        continue;
+      }
+
+      this.skipWhitespace();
+      const keyEnd = this.input.indexOf(',', this.pos);
+      const closeAt = this.input.indexOf(close, this.pos);
+      if (keyEnd === -1 || (closeAt !== -1 && closeAt < keyEnd)) {
+        this.pos = closeAt === -1 ? this.input.length : closeAt + 1;
+        continue;
+      }
+      const key = this.input.slice(this.pos, keyEnd).trim();
+      this.pos = keyEnd + 1;
+      entries.push({ type, key, fields: this.readFields(close) });
+    }
+    return entries;
+  }
+
+  private readFields(close: string): Record<string, string> {
+    const fields: Record<string, string> = {};
+    for (;;) {
+      this.skipWhitespace();
+      if (this.pos >= this.input.length) return fields;
+      if (this.input[this.pos] === close) {
+        this.pos++;
+        return fields;
+      }
+      if (this.input[this.pos] === ',') {
+        this.pos++;
+        continue;
+      }
+      const name = this.readIdentifier().toLowerCase();
+      this.skipWhitespace();
+      if (!name || this.input[this.pos] !== '=') {
+        // Malformed field: skip to the next comma or the end of the entry
+        while (this.pos < this.input.length && this.input[this.pos] !== ',' && this.input[this.pos] !== close) this.pos++;
+        continue;
+      }
+      this.pos++;
+      fields[name] = this.readValue();
+    }
+  }
+
+  /** A value: braced or quoted strings, numbers and macros joined with `#` */
+  private readValue(): string {
+    let value = '';
+    for (;;) {
+      this.skipWhitespace();
+      const ch = this.input[this.pos];
+      if (ch === '{') {
+        this.pos++;
+        const start = this.pos;
+        this.skipBalanced('}');
+        value += this.input.slice(start, this.pos - 1);
+      } else if (ch === '"') {
+        this.pos++;
+        const start = this.pos;
+        let depth = 0;
+        while (this.pos < this.input.length) {
+          const c = this.input[this.pos];
+          if (c === '{') depth++;
+          else if (c === '}') depth--;
+          else if (c === '"' && depth === 0 && this.input[this.pos - 1] !== '\\') break;
+          this.pos++;
+        }
+        value += this.input.slice(start, this.pos);
+        this.pos++;
+      } else {
+        const token = this.readIdentifier();
+        value += /^\d+$/.test(token) ? token : this.macros[token.toLowerCase()] ?? token;
+      }
+      this.skipWhitespace();
+      if (this.input[this.pos] !== '#') return value;
+      this.pos++;
+    }
+  }
+
+  private readIdentifier(): string {
+    const match = /^[^\s"#%'(),={}@]+/.exec(this.input.slice(this.pos, this.pos + 200));
+    if (!match) return '';
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private skipBalanced(close: string): void {
+    const open = close === '}' ? '{' : '(';
+    let depth = 1;
+    while (this.pos < this.input.length && depth > 0) {
+      const ch = this.input[this.pos++];
+      if (ch === open) depth++;
+      else if (ch === close) depth--;
+    }
+  }
+
+  private skipTo(ch: string): boolean {
+    const index = this.input.indexOf(ch, this.pos);
+    if (index === -1) return false;
+    this.pos = index;
+    return true;
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.input.length && /\s/.test(this.input[this.pos])) this.pos++;
+  }
+}
+
+/** Split on " and " outside braces */
+function splitNames(value: string): string[] {
+  const names: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < value.length; i++) {
+    const ch = value[i];
+    if (ch === '{') depth++;
+    else if (ch === '}') depth--;
+    else if (depth === 0 && /\s/.test(ch) && /^\s+and\s+/i.test(value.slice(i))) {
+      names.push(value.slice(start, i));
+      const match = /^\s+and\s+/i.exec(value.slice(i))!;
+      i += match[0].length - 1;
+      start = i + 1;
+    }
+  }
+  names.push(value.slice(start));
+  return names.map(name => name.trim()).filter(Boolean);
+}
+
+function parseBibtexName(raw: string): CslName | undefined {
+  const trimmed = raw.trim();
+  if (!trimmed) return undefined;
+  // A fully braced name is a corporate author: {World Health Organization}
+  if (/^\{[^{}]*\}$/.test(trimmed)) return { literal: decodeLatex(trimmed) };
+  if (trimmed.toLowerCase() === 'others') return undefined;
+
+  const parts = trimmed.split(',').map(part => decodeLatex(part));
+  if (parts.length >= 2) {
+    const name = parseNameString(`${parts[0]}, ${parts[parts.length - 1]}`);
+    if (name && parts.length === 3) name.suffix = parts[1];
+    return name;
+  }
+  return parseNameString(decodeLatex(trimmed));
+}
+
+function names(value: string | undefined): CslName[] | undefined {
+  if (!value) return undefined;
+  const result = splitNames(value).map(parseBibtexName).filter((n): n is CslName => n !== undefined);
+  return result.length > 0 ? result : undefined;
+}
+
+function parseDate(fields: Record<string, string>): CslDate | undefined {
+  const date = fields.date?.match(/^(\d{4})(?:-(\d{1,2}))?(?:-(\d{1,2}))?/);
+  if (date) {
+    return { 'date-parts': [[date[1], date[2], date[3]].filter(Boolean).map(Number)] };
+  }
+  const year = fields.year?.match(/\d{4}/)?.[0];
+  if (!year) return fields.year ? { literal: decodeLatex(fields.year) } : undefined;
+  const monthValue = fields.month?.trim().toLowerCase();
+  const month = monthValue
+    ? Number(monthValue) || MONTHS.indexOf(monthValue.slice(0, 3)) + 1
+    : 0;
+  return { 'date-parts': [month >= 1 && month <= 12 ? [Number(year), month] : [Number(year)]] };
+}
+
+function toCslItem(entry: RawEntry, index: number): CslItem {
+  const f = entry.fields;
+  const text = (name: string) => (f[name] ? decodeLatex(f[name]) : undefined);
+  const type = ENTRY_TYPES[entry.type] ?? (f.url ? 'webpage' : 'article');
+  const containerTitle = type === 'article-journal'
+    ? text('journal') ?? text('journaltitle')
+    : text('booktitle') ?? text('journal') ?? text('journaltitle');
+
+  const item = compactCslItem({
+    id: entry.key || `bibtex-${index + 1}`,
+    type,
+    author: names(f.author),
+    editor: names(f.editor),
+    issued: parseDate(f),
+    title: text('title'),
+    'container-title': containerTitle,
+    volume: text('volume'),
+    issue: text('number') ?? text('issue'),
+    page: f.pages ? decodeLatex(f.pages).replace(/\s*[–-]+\s*/g, '-') : undefined,
+    edition: text('edition'),
+    publisher: text('publisher') ?? text('school') ?? text('institution') ?? text('organization'),
+    'publisher-place': text('address') ?? text('location'),
+    genre: entry.type === 'phdthesis' ? 'PhD thesis' : entry.type === 'mastersthesis' ? "Master's thesis" : text('type'),
+    DOI: f.doi ? decodeLatex(f.doi).replace(/^https?:\/\/(?:dx\.)?doi\.org\//i, '') : undefined,
+    URL: f.url?.trim(),
+    ISBN: text('isbn'),
+    ISSN: text('issn'),
+    PMID: text('pmid'),
+    note: text('note'),
+  });
+  if (f.urldate) {
+    const accessed = f.urldate.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+    if (accessed) item.accessed = { 'date-parts': [[Number(accessed[1]), Number(accessed[2]), Number(accessed[3])]] };
+  }
+  return item;
+}
+
+/**
+ * Parse a BibTeX or BibLaTeX file into CSL items (keyed by citation key)
+ * @throws AppError 400 when no entries are found
+ */
+export function parseBibtex(input: string): CslItem[] {
+  const entries = new BibtexReader(input).read();
+  if (entries.length === 0) {
+    throw AppError.badRequest('No BibTeX entries found', 'INVALID_BIBTEX');
+  }
+  return entries.map(toCslItem);
+}
+
+function formatName(name: CslName): string {
+  if (name.literal) return `{${encodeLatex(name.literal)}}`;
+  const family = [name['non-dropping-particle'], name.family].filter(Boolean).join(' ');
+  return [family, name.suffix, name.given].filter(Boolean).map(part => encodeLatex(part!)).join(', ');
+}
+
+function citationKey(item: CslItem, used: Set<string>): string {
+  const first = item.author?.[0] ?? item.editor?.[0];
+  const base = [
+    first?.family ?? first?.literal?.split(' ')[0] ?? 'anon',
+    item.issued?.['date-parts']?.[0]?.[0] ?? '',
+    item.title?.split(/\s+/).find(word => word.length > 3) ?? '',
+  ].join('')
+    .normalize('NFD')
+    .replace(/[^A-Za-z0-9]/g, '')
+    .toLowerCase() || 'ref';
+
+  let key = base;
+  for (let n = 0; used.has(key); n++) {
+    key = `${base}${String.fromCharCode(97 + (n % 26))}${n >= 26 ? Math.floor(n / 26) : ''}`;
+  }
+  used.add(key);
+  return key;
+}
+
+/** Write CSL items as BibTeX, generating author-year-title citation keys */
+export function serializeBibtex(items: CslItem[]): string {
+  const used = new Set<string>();
+  return items.map(item => {
+    const date = item.issued?.['date-parts']?.[0];
+    const fields: Array<[string, string | undefined]> = [
+      ['author', item.author?.map(formatName).join(' and ')],
+      ['editor', item.editor?.map(formatName).join(' and ')],
+      ['title', item.title && `{${encodeLatex(item.title)}}`],
+      [item.type === 'article-journal' || item.type === 'article-magazine' || item.type === 'article-newspaper'
+        ? 'journal'
+        : 'booktitle', item['container-title'] && encodeLatex(item['container-title'])],
+      ['year', date?.[0] ? String(date[0]) : item.issued?.literal],
+      ['month', date?.[1] ? MONTHS[date[1] - 1] : undefined],
+      ['volume', item.volume],
+      ['number', item.issue],
+      ['pages', item.page?.replace(/\s*[–-]+\s*/g, '--')],
+      ['edition', item.edition],
+      [item.type === 'thesis' ? 'school' : item.type === 'report' ? 'institution' : 'publisher',
+        item.publisher && encodeLatex(item.publisher)],
+      ['address', item['publisher-place'] && encodeLatex(item['publisher-place'])],
+      ['doi', item.DOI],
+      ['url', item.URL],
+      ['isbn', item.ISBN],
+      ['issn', item.ISSN],
+      ['note', item.note && encodeLatex(item.note)],
+    ];
+    const body = fields
+      .filter((field): field is [string, string] => Boolean(field[1]))
+      .map(([name, value]) => (name === 'month' ? `  ${name} = ${value}` : `  ${name} = {${value}}`))
+      .join(',\n');
+    return `@${CSL_TO_BIBTEX[item.type]}{${citationKey(item, used)},\n${body}\n}`;
+  }).join('\n\n') + '\n';
+}
@@ -0,0 +1,134 @@
+/**
+ * CSL-JSON reading and writing (Zotero, Mendeley, citeproc-js, pandoc).
+ */
+
+import { z } from 'zod';
+import { AppError } from '../../../utils/app-error';
+import { CSL_DATE_VARIABLES, CSL_NAME_VARIABLES, compactCslItem } from '../csl';
+import type { CslDate, CslItem, CslItemType, CslName } from '../csl';
+
+/** CSL types without a built-in rendering, mapped to the closest one */
+const TYPE_ALIASES: Record<string, CslItemType> = {
+  'post-weblog': 'webpage',
+  post: 'webpage',
+  review: 'article-journal',
+  'review-book': 'article-journal',
+  entry: 'chapter',
+  'entry-dictionary': 'chapter',
+  'entry-encyclopedia': 'chapter',
+  manuscript: 'article',
+  document: 'article',
+  dataset: 'article',
+  software: 'article',
+  standard: 'report',
+  legislation: 'legal_case',
+  bill: 'legal_case',
+  'personal-communication': 'personal_communication',
+};
+
+const KNOWN_TYPES = new Set<CslItemType>([
+  'article', 'article-journal', 'article-magazine', 'article-newspaper', 'book', 'chapter',
+  'paper-conference', 'webpage', 'thesis', 'report', 'patent', 'legal_case', 'personal_communication',
+]);
+
+const STRING_VARIABLES = [
+  'title', 'title-short', 'container-title', 'container-title-short', 'collection-title', 'volume', 'issue',
+  'page', 'edition', 'publisher', 'publisher-place', 'event', 'event-place', 'genre', 'medium', 'number',
+  'DOI', 'URL', 'ISBN', 'ISSN', 'PMID', 'note',
+] as const;
+
+const nameSchema = z.object({
+  family: z.string().optional(),
+  given: z.string().optional(),
+  suffix: z.string().optional(),
+  'non-dropping-particle': z.string().optional(),
+  literal: z.string().optional(),
+}).loose();
+
+const dateSchema = z.object({
+  'date-parts': z.array(z.array(z.union([z.number(), z.string()]))).optional(),
+  literal: z.string().optional(),
+  raw: z.string().optional(),
+}).loose();
+
+const itemSchema = z.object({
+  id: z.union([z.string(), z.number()]).optional(),
+  type: z.string().optional(),
+}).loose();
+
+function toDate(value: unknown): CslDate | undefined {
+  const parsed = dateSchema.safeParse(value);
+  if (!parsed.success) return undefined;
+  const parts = parsed.data['date-parts']?.[0]
+    ?.map(part => Number(part))
+    .filter(part => Number.isFinite(part) && part !== 0);
+  if (parts?.length) return { 'date-parts': [parts] };
+  const raw = parsed.data.raw ?? parsed.data.literal;
+  const iso = raw?.match(/^(\d{4})(?:-(\d{2}))?(?:-(\d{2}))?/);
+  if (iso) return { 'date-parts': [[iso[1], iso[2], iso[3]].filter(Boolean).map(Number)] };
+  return raw ? { literal: raw } : undefined;
+}
+
+function toNames(value: unknown): CslName[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const names = value
+    .map(entry => nameSchema.safeParse(entry))
+    .filter(result => result.success)
+    .map(result => {
+      const { family, given, suffix, literal } = result.data;
+      const particle = result.data['non-dropping-particle'];
+      const name: CslName = literal ? { literal } : { family, given, suffix, 'non-dropping-particle': particle };
+      return Object.fromEntries(Object.entries(name).filter(([, v]) => v)) as CslName;
+    })
+    .filter(name => name.family || name.literal);
+  return names.length > 0 ? names : undefined;
+}
+
+function toCslItem(raw: z.infer<typeof itemSchema>, index: number): CslItem {
+  const type = raw.type && KNOWN_TYPES.has(raw.type as CslItemType)
+    ? raw.type as CslItemType
+    : TYPE_ALIASES[raw.type ?? ''] ?? 'article';
+  const item: Record<string, unknown> = {
+    id: raw.id !== undefined ? String(raw.id) : `item-${index + 1}`,
+    type,
+  };
+  for (const variable of STRING_VARIABLES) {
+    const value = raw[variable];
+    if (typeof value === 'string' || typeof value === 'number') item[variable] = String(value);
+  }
+  for (const variable of CSL_NAME_VARIABLES) item[variable] = toNames(raw[variable]);
+  for (const variable of CSL_DATE_VARIABLES) item[variable] = toDate(raw[variable]);
+  return compactCslItem(item as unknown as CslItem);
+}
+
+/**
+ * Parse CSL-JSON: an array of items, a single item or `{ items: [...] }`
+ * @throws AppError 400 when the JSON is invalid or holds no items
+ */
+export function parseCslJson(input: string): CslItem[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(input);
+  } catch {
+    throw AppError.badRequest('Invalid CSL-JSON: not valid JSON', 'INVALID_CSL_JSON');
+  }
+  const list = Array.isArray(data)
+    ? data
+    : data && typeof data === 'object' && Array.isArray((data as { items?: unknown }).items)
+      ? (data as { items: unknown[] }).items
+      : [data];
+
+  const items = list
+    .map(entry => itemSchema.safeParse(entry))
+    .filter(result => result.success)
+    .map((result, index) => toCslItem(result.data, index));
+  if (items.length === 0) {
+    throw AppError.badRequest('Invalid CSL-JSON: no items found', 'INVALID_CSL_JSON');
+  }
+  return items;
+}
+
+/** Write CSL items as a CSL-JSON array */
+export function serializeCslJson(items: CslItem[]): string {
+  return `${JSON.stringify(items, null, 2)}\n`;
+}
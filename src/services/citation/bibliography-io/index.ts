@@ -0,0 +1,21 @@
+/**
+ * Bibliography Import/Export - Central Exports
+ *
+ * BibTeX, RIS and CSL-JSON reading and writing for reference lists.
+ */
+
+export {
+  bibliographyIoService,
+  BIBLIOGRAPHY_FORMATS,
+  MAX_BIBLIOGRAPHY_BYTES,
+  type BibliographyFormat,
+  type FieldCitationImportResult,
+  type ReferenceExport,
+  type ReferenceImportMode,
+  type ReferenceImportOptions,
+  type ReferenceImportResult,
+} from './bibliography-io.service';
+
+export { decodeLatex, parseBibtex, serializeBibtex } from './bibtex';
+export { parseRis, serializeRis } from './ris';
+export { parseCslJson, serializeCslJson } from './csl-json';
@@ -0,0 +1,215 @@
+/**
+ * RIS reading and writing (EndNote, Zotero, Mendeley, PubMed exports).
+ */
+
+import { AppError } from '../../../utils/app-error';
+import { compactCslItem, parseNameString } from '../csl';
+import type { CslDate, CslItem, CslItemType, CslName } from '../csl';
+
+const RIS_TYPES: Record<string, CslItemType> = {
+  JOUR: 'article-journal',
+  JFULL: 'article-journal',
+  EJOUR: 'article-journal',
+  ABST: 'article-journal',
+  MGZN: 'article-magazine',
+  NEWS: 'article-newspaper',
+  BOOK: 'book',
+  EBOOK: 'book',
+  EDBOOK: 'book',
+  CHAP: 'chapter',
+  ECHAP: 'chapter',
+  CONF: 'paper-conference',
+  CPAPER: 'paper-conference',
+  THES: 'thesis',
+  RPRT: 'report',
+  GOVDOC: 'report',
+  ELEC: 'webpage',
+  WEB: 'webpage',
+  BLOG: 'webpage',
+  PAT: 'patent',
+  CASE: 'legal_case',
+  PCOMM: 'personal_communication',
+};
+
+const CSL_TO_RIS: Record<CslItemType, string> = {
+  article: 'GEN',
+  'article-journal': 'JOUR',
+  'article-magazine': 'MGZN',
+  'article-newspaper': 'NEWS',
+  book: 'BOOK',
+  chapter: 'CHAP',
+  'paper-conference': 'CONF',
+  webpage: 'ELEC',
+  thesis: 'THES',
+  report: 'RPRT',
+  patent: 'PAT',
+  legal_case: 'CASE',
+  personal_communication: 'PCOMM',
+};
+
+const LINE_PATTERN = /^([A-Z][A-Z0-9])  -(?: (.*))?$/;
+const ISSN_PATTERN = /^\d{4}-?\d{3}[\dXx]$/;
+
+type RisRecord = Map<string, string[]>;
+
+function readRecords(input: string): RisRecord[] {
+  const records: RisRecord[] = [];
+  let current: RisRecord | undefined;
+  let lastTag: string | undefined;
+
+  for (const rawLine of input.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+    const line = rawLine.trimEnd();
+    const match = LINE_PATTERN.exec(line);
+    if (!match) {
+      // Continuation of a wrapped value (e.g. long abstracts)
+      const values = lastTag ? current?.get(lastTag) : undefined;
+      if (values && line.trim()) values[values.length - 1] += ` ${line.trim()}`;
+      continue;
+    }
+    const [, tag, value = ''] = match;
+    if (tag === 'TY') {
+      current = new Map([['TY', [value.trim()]]]);
+      lastTag = tag;
+      continue;
+    }
+    if (!current) continue;
+    if (tag === 'ER') {
+      records.push(current);
+      current = undefined;
+      lastTag = undefined;
+      continue;
+    }
+    const values = current.get(tag) ?? [];
+    values.push(value.trim());
+    current.set(tag, values);
+    lastTag = tag;
+  }
+  if (current) records.push(current);
+  return records;
+}
+
+/** "2020/03/14/", "2020///Spring", "2020-03-14" */
+function parseRisDate(value: string | undefined): CslDate | undefined {
+  if (!value) return undefined;
+  const match = value.match(/^(\d{4})(?:[/-](\d{1,2})?)?(?:[/-](\d{1,2})?)?/);
+  if (!match) return { literal: value };
+  return { 'date-parts': [[match[1], match[2], match[3]].filter(Boolean).map(Number)] };
+}
+
+function parseRisName(value: string): CslName | undefined {
+  // RIS names are "Last, First, Suffix"
+  const [family, given, suffix] = value.split(',').map(part => part.trim());
+  if (!given) return parseNameString(value);
+  const name = parseNameString(`${family}, ${given}`);
+  if (name && suffix) name.suffix = suffix;
+  return name;
+}
+
+function toCslItem(record: RisRecord, index: number): CslItem {
+  const first = (...tags: string[]) => {
+    for (const tag of tags) {
+      const value = record.get(tag)?.find(Boolean);
+      if (value) return value;
+    }
+    return undefined;
+  };
+  const nameList = (...tags: string[]) => {
+    const result = tags
+      .flatMap(tag => record.get(tag) ?? [])
+      .map(parseRisName)
+      .filter((n): n is CslName => n !== undefined);
+    return result.length > 0 ? result : undefined;
+  };
+
+  const type = RIS_TYPES[first('TY') ?? ''] ?? (first('UR') ? 'webpage' : 'article');
+  const startPage = first('SP');
+  const endPage = first('EP');
+  const page = startPage && endPage && !startPage.includes('-') ? `${startPage}-${endPage}` : startPage;
+  const serial = first('SN');
+
+  return compactCslItem({
+    id: first('ID') ?? `ris-${index + 1}`,
+    type,
+    author: nameList('AU', 'A1'),
+    editor: type === 'chapter' || type === 'paper-conference' ? nameList('A2', 'ED') : nameList('ED'),
+    issued: parseRisDate(first('PY', 'Y1', 'DA')),
+    accessed: parseRisDate(first('Y2')),
+    title: first('TI', 'T1', 'CT'),
+    'container-title': first('T2', 'JF', 'JO', 'BT', 'JA', 'J2'),
+    'container-title-short': first('J2', 'JA'),
+    volume: first('VL'),
+    issue: first('IS'),
+    page,
+    edition: first('ET'),
+    publisher: first('PB'),
+    'publisher-place': first('CY', 'PP'),
+    DOI: first('DO')?.replace(/^https?:\/\/(?:dx\.)?doi\.org\//i, ''),
+    URL: first('UR', 'L2'),
+    ISSN: serial && ISSN_PATTERN.test(serial) ? serial : undefined,
+    ISBN: serial && !ISSN_PATTERN.test(serial) ? serial : undefined,
+    PMID: first('AN')?.match(/^\d+$/)?.[0],
+    note: first('N1'),
+  });
+}
+
+/**
+ * Parse an RIS file into CSL items
+ * @throws AppError 400 when no records are found
+ */
+export function parseRis(input: string): CslItem[] {
+  const records = readRecords(input);
+  if (records.length === 0) {
+    throw AppError.badRequest('No RIS records found', 'INVALID_RIS');
+  }
+  return records.map(toCslItem);
+}
+
+function formatName(name: CslName): string {
+  if (name.literal) return name.literal;
+  const family = [name['non-dropping-particle'], name.family].filter(Boolean).join(' ');
+  return [family, name.given, name.suffix].filter(Boolean).join(', ');
+}
+
+function formatDate(date: CslDate | undefined): string | undefined {
+  const parts = date?.['date-parts']?.[0];
+  if (!parts?.length) return date?.literal;
+  const [year, month, day] = parts;
+  return `${year}/${month ? String(month).padStart(2, '0') : ''}/${day ? String(day).padStart(2, '0') : ''}/`;
+}
+
+/** Write CSL items as RIS records */
+export function serializeRis(items: CslItem[]): string {
+  return items.map(item => {
+    const [startPage, endPage] = (item.page ?? '').split(/\s*[–-]+\s*/);
+    const lines: Array<[string, string | undefined]> = [
+      ['TY', CSL_TO_RIS[item.type]],
+      ...(item.author ?? []).map((name): [string, string] => ['AU', formatName(name)]),
+      ...(item.editor ?? []).map((name): [string, string] => [
+        item.type === 'chapter' || item.type === 'paper-conference' ? 'A2' : 'ED',
+        formatName(name),
+      ]),
+      ['TI', item.title],
+      ['T2', item['container-title']],
+      ['J2', item['container-title-short']],
+      ['PY', item.issued?.['date-parts']?.[0]?.[0]?.toString() ?? item.issued?.literal],
+      ['DA', formatDate(item.issued)],
+      ['VL', item.volume],
+      ['IS', item.issue],
+      ['SP', startPage || undefined],
+      ['EP', endPage || undefined],
+      ['ET', item.edition],
+      ['PB', item.publisher],
+      ['CY', item['publisher-place']],
+      ['SN', item.ISBN ?? item.ISSN],
+      ['DO', item.DOI],
+      ['UR', item.URL],
+      ['Y2', formatDate(item.accessed)],
+      ['N1', item.note],
+      ['ER', ''],
+    ];
+    return lines
+      .filter(([tag, value]) => tag === 'ER' || Boolean(value))
+      .map(([tag, value]) => `${tag}  - ${value}`)
+      .join('\n');
+  }).join('\n\n') + '\n';
+}
@@ -1,5 +1,6 @@
 import { logger } from '../../lib/logger';
 import { crossRefRateLimiter } from '../../utils/rate-limiter';
+import { withProvenance } from './metadata-sources/provenance';
 
 export interface CrossRefAuthor {
   given?: string;
@@ -21,8 +22,42 @@ interface CrossRefWork {
   publisher?: string;
   type?: string;
   score?: number; // CrossRef relevance score (search results only)
+  'update-to'?: Array<{
+    DOI: string;
+    type: string;
+    label?: string;
+    updated?: { 'date-parts'?: number[][] };
+  }>;
 }
 
+/**
+ * An editorial notice (retraction, correction, ...) registered as an update
+ * to a work via CrossRef `update-to` metadata
+ */
+export interface CrossRefUpdateNotice {
+  /** DOI of the notice itself */
+  noticeDoi: string;
+  /** CrossRef update type, e.g. "retraction", "expression_of_concern", "correction" */
+  type: string;
+  label?: string;
+  /** ISO date (YYYY, YYYY-MM or YYYY-MM-DD) */
+  date?: string;
+}
+
+export type MetadataSource = 'crossref' | 'pubmed' | 'openlibrary' | 'manual' | 'ai';
+
+export type EnrichedMetadataField =
+  | 'authors' | 'title' | 'year' | 'journalName' | 'volume' | 'issue' | 'pages'
+  | 'doi' | 'url' | 'publisher' | 'isbn' | 'pmid' | 'pmcid' | 'sourceType';
+
+export interface FieldProvenance {
+  source: MetadataSource;
+  confidence: number;
+}
+
+/** Which source supplied each populated field */
+export type MetadataProvenance = Partial<Record<EnrichedMetadataField, FieldProvenance>>;
+
 export interface EnrichedMetadata {
   authors: { firstName?: string; lastName: string; suffix?: string }[];
   title: string;
@@ -35,9 +70,13 @@ export interface EnrichedMetadata {
   url?: string;
   publisher?: string;
   isbn?: string;
+  pmid?: string;
+  pmcid?: string;
   sourceType: 'journal' | 'book' | 'chapter' | 'conference' | 'website' | 'unknown';
-  source: 'crossref' | 'pubmed' | 'manual' | 'ai';
+  /** Source of the record as a whole (the first resolver that found it) */
+  source: MetadataSource;
   confidence: number;
+  provenance?: MetadataProvenance;
 }
 
 class CrossRefService {
@@ -138,6 +177,68 @@ class CrossRefService {
     }
   }
 
+  /**
+   * Find notices registered as updates to a work: the works whose
+   * `update-to` metadata points at the DOI
+   */
+  async lookupUpdateNotices(doi: string): Promise<CrossRefUpdateNotice[]> {
+    try {
+      // Apply rate limiting before making request
+      await crossRefRateLimiter.acquire();
+
+      const cleanDoi = doi.replace(/^https?:\/\/doi\.org\//, '').replace(/^doi:/i, '').trim();
+
+      // Validate DOI format to prevent SSRF
+      if (!this.isValidDoiFormat(cleanDoi)) {
+        logger.warn(`[CrossRef] Invalid DOI format rejected: ${cleanDoi.substring(0, 50)}`);
+        return [];
+      }
+
+      const url = `${this.baseUrl}?filter=${encodeURIComponent(`updates:${cleanDoi}`)}&rows=20`;
+
+      // Use AbortController for timeout
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.REQUEST_TIMEOUT_MS);
+
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': this.userAgent
+        },
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        logger.warn(`[CrossRef] Update lookup failed: ${response.status} for ${cleanDoi}`);
+        return [];
+      }
+
+      const data = await response.json() as { message?: { items?: CrossRefWork[] } };
+      const notices: CrossRefUpdateNotice[] = [];
+      for (const work of data.message?.items || []) {
+        if (!work.DOI) continue;
+        for (const update of work['update-to'] || []) {
+          // A notice can update several works; keep the entries for this DOI
+          if (update.DOI.toLowerCase() !== cleanDoi.toLowerCase()) continue;
+          const dateParts = update.updated?.['date-parts']?.[0];
+          notices.push({
+            noticeDoi: work.DOI,
+            type: update.type,
+            label: update.label,
+            date: dateParts?.length
+              ? dateParts.map((part, i) => (i === 0 ? String(part) : String(part).padStart(2, '0'))).join('-')
+              : undefined,
+          });
+        }
+      }
+      return notices;
+    } catch (error) {
+      logger.error('[CrossRef] Update lookup error', error instanceof Error ? error : undefined);
+      return [];
+    }
+  }
+
   /**
    * Map CrossRef API response to EnrichedMetadata
    * @param work - CrossRef work object
@@ -167,7 +268,7 @@ class CrossRefService {
       confidence = 0.7; // Default for search without score
     }
 
-    return {
+    return withProvenance({
       authors,
       title: work.title?.[0] || '',
       year,
@@ -181,7 +282,7 @@ class CrossRefService {
       sourceType: this.mapWorkType(work.type || ''),
       source: 'crossref',
       confidence
-    };
+    });
   }
 
   private mapWorkType(type: string): EnrichedMetadata['sourceType'] {
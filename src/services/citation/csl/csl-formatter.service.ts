@@ -0,0 +1,217 @@
+/**
+ * CSL Formatter Service
+ * Deterministic reference and in-text citation formatting with Citation
+ * Style Language styles: a built-in style for each supported citation style
+ * plus CSL files uploaded by a tenant. The same data always formats the
+ * same way, with no AI call.
+ */
+
+import prisma from '../../../lib/prisma';
+import { logger } from '../../../lib/logger';
+import { AppError } from '../../../utils/app-error';
+import type { CitationStyle } from '../ai-format-converter.service';
+import { CslProcessor } from './csl-processor';
+import { parseCslStyle } from './csl-style';
+import { BUILT_IN_CSL_STYLES, resolveBuiltInStyle } from './styles';
+import type {
+  CslCitationCluster,
+  CslCitationFormat,
+  CslItem,
+  CslRenderOptions,
+  FormattedBibliography,
+  FormattedCitation,
+} from './csl.types';
+
+/** Largest CSL file accepted for upload; published CSL styles are well under this */
+export const MAX_CSL_STYLE_BYTES = 512 * 1024;
+
+export interface TenantCslStyle {
+  code: string;
+  name: string;
+  citationFormat: CslCitationFormat;
+  hangingIndent: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface CachedProcessor {
+  updatedAt: number;
+  processor: CslProcessor;
+}
+
+const SAMPLE_ITEM: CslItem = {
+  id: 'sample',
+  type: 'article-journal',
+  author: [{ family: 'Smith', given: 'Jane' }, { family: 'Jones', given: 'Alan' }],
+  issued: { 'date-parts': [[2020, 3, 14]] },
+  title: 'Sample article title',
+  'container-title': 'Journal of Examples',
+  volume: '12',
+  issue: '3',
+  page: '45-67',
+  DOI: '10.1234/example',
+};
+
+function slugify(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60) || 'style';
+}
+
+class CslFormatterService {
+  private readonly builtInProcessors = new Map<CitationStyle, CslProcessor>();
+  private readonly tenantProcessors = new Map<string, CachedProcessor>();
+
+  /**
+   * Processor for a built-in style ("APA", "apa7", "chicago17", ...)
+   * @throws AppError 400 when the code names no built-in style
+   */
+  getBuiltInProcessor(styleCode: string): CslProcessor {
+    const style = resolveBuiltInStyle(styleCode);
+    if (!style) {
+      throw AppError.badRequest(`Unsupported citation style: ${styleCode}`, 'UNSUPPORTED_CITATION_STYLE');
+    }
+    let processor = this.builtInProcessors.get(style);
+    if (!processor) {
+      processor = new CslProcessor(parseCslStyle(BUILT_IN_CSL_STYLES[style]));
+      this.builtInProcessors.set(style, processor);
+    }
+    return processor;
+  }
+
+  /**
+   * Resolve a style code to a processor: tenant style codes
+   * ("<tenantId>:<slug>") first, then the built-in styles.
+   */
+  async getProcessor(styleCode: string, tenantId?: string): Promise<CslProcessor> {
+    if (styleCode.includes(':')) {
+      if (!tenantId || !styleCode.startsWith(`${tenantId}:`)) {
+        throw AppError.notFound(`CSL style not found: ${styleCode}`, 'CSL_STYLE_NOT_FOUND');
+      }
+      return this.getTenantProcessor(styleCode);
+    }
+    return this.getBuiltInProcessor(styleCode);
+  }
+
+  /** Format a bibliography, sorted and numbered as the style specifies */
+  async formatBibliography(
+    styleCode: string,
+    items: CslItem[],
+    options: CslRenderOptions & { tenantId?: string; clusters?: CslCitationCluster[] } = {}
+  ): Promise<FormattedBibliography> {
+    const processor = await this.getProcessor(styleCode, options.tenantId);
+    return processor.formatBibliography(items, options.clusters, options);
+  }
+
+  /** Format in-text citations (or notes, for note styles) in document order */
+  async formatCitations(
+    styleCode: string,
+    items: CslItem[],
+    clusters: CslCitationCluster[],
+    options: CslRenderOptions & { tenantId?: string } = {}
+  ): Promise<FormattedCitation[]> {
+    const processor = await this.getProcessor(styleCode, options.tenantId);
+    return processor.formatCitations(items, clusters, options);
+  }
+
+  /** Format a single reference entry as stored per entry: no citation number */
+  formatEntry(processor: CslProcessor, item: CslItem): string {
+    return processor.formatBibliography([item], [], { omitCitationNumbers: true }).entries[0]?.text ?? '';
+  }
+
+  async listTenantStyles(tenantId: string): Promise<TenantCslStyle[]> {
+    const guides = await prisma.citationStyleGuide.findMany({
+      where: { tenantId, isSystem: false, cslXml: { not: null } },
+      orderBy: { name: 'asc' },
+    });
+    return guides.map(guide => this.toTenantStyle(guide));
+  }
+
+  /**
+   * Validate and store a tenant CSL style. Re-uploading a style with the
+   * same id replaces it.
+   * @throws AppError 400 (INVALID_CSL_STYLE) when the style cannot be parsed or rendered
+   */
+  async uploadTenantStyle(tenantId: string, xml: string, name?: string): Promise<TenantCslStyle> {
+    if (Buffer.byteLength(xml, 'utf8') > MAX_CSL_STYLE_BYTES) {
+      throw AppError.badRequest(`CSL style exceeds ${MAX_CSL_STYLE_BYTES / 1024} KB`, 'CSL_STYLE_TOO_LARGE');
+    }
+    const style = parseCslStyle(xml);
+    const processor = new CslProcessor(style);
+    try {
+      processor.formatCitations([SAMPLE_ITEM], [{ items: [{ id: SAMPLE_ITEM.id }] }]);
+      if (style.bibliography) processor.formatBibliography([SAMPLE_ITEM]);
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      throw AppError.badRequest(
+        `Invalid CSL style: rendering failed (${error instanceof Error ? error.message : 'unknown error'})`,
+        'INVALID_CSL_STYLE'
+      );
+    }
+
+    const slug = slugify(style.id?.split('/').pop() || style.title);
+    const code = `${tenantId}:${slug}`;
+    const data = {
+      name: name?.trim() || style.title,
+      version: '1.0',
+      inTextRules: { citationFormat: style.citationFormat },
+      referenceRules: { source: 'csl', cslId: style.id ?? null },
+      sortOrder: style.bibliography?.children.some(c => c.name === 'sort') ? 'alphabetical' : 'appearance',
+      hangingIndent: style.bibliography?.attrs['hanging-indent'] === 'true',
+      isSystem: false,
+      tenantId,
+      cslXml: xml,
+    };
+    const guide = await prisma.citationStyleGuide.upsert({
+      where: { code },
+      create: { code, ...data },
+      update: data,
+    });
+    this.tenantProcessors.delete(code);
+
+    logger.info(`[CSL Formatter] Stored CSL style ${code} for tenant ${tenantId}`);
+    return this.toTenantStyle(guide);
+  }
+
+  async deleteTenantStyle(tenantId: string, code: string): Promise<void> {
+    const guide = await prisma.citationStyleGuide.findUnique({ where: { code } });
+    if (!guide || guide.tenantId !== tenantId || guide.isSystem) {
+      throw AppError.notFound(`CSL style not found: ${code}`, 'CSL_STYLE_NOT_FOUND');
+    }
+    await prisma.citationStyleGuide.delete({ where: { code } });
+    this.tenantProcessors.delete(code);
+  }
+
+  private async getTenantProcessor(code: string): Promise<CslProcessor> {
+    const guide = await prisma.citationStyleGuide.findUnique({ where: { code } });
+    if (!guide?.cslXml) {
+      throw AppError.notFound(`CSL style not found: ${code}`, 'CSL_STYLE_NOT_FOUND');
+    }
+    const cached = this.tenantProcessors.get(code);
+    const updatedAt = guide.updatedAt.getTime();
+    if (cached && cached.updatedAt === updatedAt) return cached.processor;
+
+    const processor = new CslProcessor(parseCslStyle(guide.cslXml));
+    this.tenantProcessors.set(code, { updatedAt, processor });
+    return processor;
+  }
+
+  private toTenantStyle(guide: {
+    code: string;
+    name: string;
+    inTextRules: unknown;
+    hangingIndent: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+  }): TenantCslStyle {
+    const rules = (guide.inTextRules ?? {}) as { citationFormat?: CslCitationFormat };
+    return {
+      code: guide.code,
+      name: guide.name,
+      citationFormat: rules.citationFormat ?? 'author-date',
+      hangingIndent: guide.hangingIndent,
+      createdAt: guide.createdAt,
+      updatedAt: guide.updatedAt,
+    };
+  }
+}
+
+export const cslFormatterService = new CslFormatterService();
@@ -0,0 +1,239 @@
+/**
+ * Mapping from the citation data models to CSL-JSON items.
+ *
+ * Reference list entries, parsed citation components and AI-detected
+ * references all carry the same bibliographic fields under different
+ * names; these mappers give the CSL processor one shape to render.
+ */
+
+import type { CitationComponent } from '@prisma/client';
+import type { ReferenceEntry as DetectedReference } from '../ai-citation-detector.service';
+import type { Author, ReferenceEntry } from '../reference-list.service';
+import type { CslDate, CslItem, CslItemType, CslName } from './csl.types';
+
+const SOURCE_TYPE_MAP: Record<string, CslItemType> = {
+  journal_article: 'article-journal',
+  journal: 'article-journal',
+  article: 'article-journal',
+  book: 'book',
+  book_chapter: 'chapter',
+  chapter: 'chapter',
+  conference_paper: 'paper-conference',
+  conference: 'paper-conference',
+  website: 'webpage',
+  webpage: 'webpage',
+  thesis: 'thesis',
+  report: 'report',
+  newspaper: 'article-newspaper',
+  magazine: 'article-magazine',
+  preprint: 'article',
+  patent: 'patent',
+  legal: 'legal_case',
+  personal_communication: 'personal_communication',
+};
+
+const ORGANISATION_PATTERN = new RegExp(
+  '\\b(organi[sz]ation|association|society|institute|committee|council|group|agency|department|ministry|' +
+  'university|foundation|centers?|centre|collaboration|consortium|network|board|commission|office|service|inc|ltd|llc)\\b',
+  'i'
+);
+
+const NAME_PARTICLES = new Set(['van', 'von', 'de', 'der', 'den', 'da', 'di', 'du', 'del', 'della', 'la', 'le', 'ter', 'ten']);
+const NAME_SUFFIX_PATTERN = /^(jr\.?|sr\.?|ii|iii|iv)$/i;
+
+interface SourceHints {
+  container?: string | null;
+  publisher?: string | null;
+  url?: string | null;
+}
+
+/**
+ * Map a source type (SourceType enum value or reference-list type such as
+ * "journal") to a CSL item type, guessing from the other fields when the
+ * type is missing or unknown.
+ */
+export function sourceTypeToCslType(sourceType: string | null | undefined, hints: SourceHints = {}): CslItemType {
+  const mapped = sourceType ? SOURCE_TYPE_MAP[sourceType.trim().toLowerCase()] : undefined;
+  if (mapped) return mapped;
+  if (hints.container) return 'article-journal';
+  if (hints.publisher) return 'book';
+  if (hints.url) return 'webpage';
+  return 'article';
+}
+
+/** Parse "2020", "2020a" or "in press" into a CSL date */
+export function yearToCslDate(year: string | null | undefined): CslDate | undefined {
+  const value = year?.trim();
+  if (!value || /^n\.?\s?d\.?$/i.test(value)) return undefined;
+  const match = value.match(/\b(\d{4})\b/);
+  return match ? { 'date-parts': [[Number(match[1])]] } : { literal: value };
+}
+
+/** Strip resolver prefixes so styles can add their own ("https://doi.org/", "doi:") */
+export function normalizeDoi(doi: string | null | undefined): string | undefined {
+  const value = doi?.trim().replace(/^(?:https?:\/\/(?:dx\.)?doi\.org\/|doi:\s*)/i, '');
+  return value || undefined;
+}
+
+function initials(given: string): string {
+  return given.split('').map(letter => `${letter}.`).join(' ');
+}
+
+/**
+ * Parse a free-text author name: "Smith, J. A.", "Smith JA",
+ * "John A. Smith", "van der Berg, Anna" or an organisation name.
+ */
+export function parseNameString(raw: string): CslName | undefined {
+  const name = raw.trim().replace(/\s+/g, ' ').replace(/[,;]$/, '');
+  if (!name) return undefined;
+
+  if (ORGANISATION_PATTERN.test(name) || (!name.includes(',') && name.split(' ').length > 4)) {
+    return { literal: name };
+  }
+
+  if (name.includes(',')) {
+    const [familyPart, givenPart, suffixPart] = name.split(',').map(p => p.trim());
+    const result = splitParticle(familyPart);
+    if (givenPart) result.given = /^\p{Lu}{2,3}$/u.test(givenPart) ? initials(givenPart) : givenPart;
+    if (suffixPart) result.suffix = suffixPart;
+    return result;
+  }
+
+  const tokens = name.split(' ');
+  if (tokens.length === 1) return { family: name };
+
+  // Vancouver-style "Smith JA" / "Smith J. A.": surname then capital initials
+  let initialsStart = tokens.length;
+  while (initialsStart > 1 && /^(\p{Lu}\.?){1,3}$/u.test(tokens[initialsStart - 1])) initialsStart--;
+  if (initialsStart < tokens.length) {
+    const given = initials(tokens.slice(initialsStart).join('').replace(/\./g, ''));
+    return { ...splitParticle(tokens.slice(0, initialsStart).join(' ')), given };
+  }
+
+  const last = tokens[tokens.length - 1];
+
+  let suffix: string | undefined;
+  if (NAME_SUFFIX_PATTERN.test(last) && tokens.length > 2) {
+    suffix = tokens.pop();
+  }
+  let familyStart = tokens.length - 1;
+  while (familyStart > 1 && NAME_PARTICLES.has(tokens[familyStart - 1].toLowerCase())) {
+    familyStart--;
+  }
+  const result = splitParticle(tokens.slice(familyStart).join(' '));
+  result.given = tokens.slice(0, familyStart).join(' ');
+  if (suffix) result.suffix = suffix;
+  return result;
+}
+
+function splitParticle(family: string): CslName {
+  const tokens = family.split(' ');
+  let i = 0;
+  while (i < tokens.length - 1 && NAME_PARTICLES.has(tokens[i].toLowerCase()) && tokens[i] === tokens[i].toLowerCase()) {
+    i++;
+  }
+  if (i === 0) return { family };
+  return { 'non-dropping-particle': tokens.slice(0, i).join(' '), family: tokens.slice(i).join(' ') };
+}
+
+function authorToCslName(author: Author | string): CslName | undefined {
+  if (typeof author === 'string') return parseNameString(author);
+  const family = author.lastName && author.lastName !== 'Unknown' ? author.lastName.trim() : '';
+  const given = author.firstName && author.firstName !== 'Unknown' ? author.firstName.trim() : '';
+  if (!family && !given) return undefined;
+  if (!given && ORGANISATION_PATTERN.test(family)) return { literal: family };
+  const name: CslName = splitParticle(family || given);
+  if (family && given) name.given = /^\p{Lu}{2,3}$/u.test(given) ? initials(given) : given;
+  if (author.suffix) name.suffix = author.suffix;
+  return name;
+}
+
+function names(values: Array<Author | string> | null | undefined): CslName[] | undefined {
+  const result = (values ?? []).map(authorToCslName).filter((n): n is CslName => n !== undefined);
+  return result.length > 0 ? result : undefined;
+}
+
+/** Drop empty fields so `variable` conditions in styles see them as absent */
+export function compactCslItem(item: CslItem): CslItem {
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(item)) {
+    if (value === undefined || value === null || value === '') continue;
+    result[key] = typeof value === 'string' ? value.trim() : value;
+  }
+  return result as unknown as CslItem;
+}
+
+/** Map a reference list entry (authors may be Author objects or name strings) */
+export function referenceEntryToCslItem(
+  entry: Pick<
+    ReferenceEntry,
+    'id' | 'title' | 'year' | 'sourceType' | 'journalName' | 'volume' | 'issue' | 'pages' | 'publisher' | 'doi' | 'url'
+  > & { authors: Array<Author | string> }
+): CslItem {
+  return compactCslItem({
+    id: entry.id,
+    type: sourceTypeToCslType(entry.sourceType, { container: entry.journalName, publisher: entry.publisher, url: entry.url }),
+    author: names(entry.authors),
+    issued: yearToCslDate(entry.year),
+    title: entry.title || undefined,
+    'container-title': entry.journalName ?? undefined,
+    volume: entry.volume ?? undefined,
+    issue: entry.issue ?? undefined,
+    page: entry.pages ?? undefined,
+    publisher: entry.publisher ?? undefined,
+    DOI: normalizeDoi(entry.doi),
+    URL: entry.url ?? undefined,
+  });
+}
+
+/** Map a reference detected in a document (free-text author and editor names) */
+export function detectedReferenceToCslItem(reference: DetectedReference): CslItem {
+  const c = reference.components ?? {};
+  return compactCslItem({
+    id: reference.id,
+    type: sourceTypeToCslType(reference.sourceType, { container: c.journal, publisher: c.publisher, url: c.url }),
+    author: names(c.authors),
+    editor: names(c.editors),
+    issued: yearToCslDate(c.year),
+    title: c.title,
+    'container-title': c.journal,
+    volume: c.volume,
+    issue: c.issue,
+    page: c.pages,
+    publisher: c.publisher,
+    DOI: normalizeDoi(c.doi),
+    URL: c.url,
+  });
+}
+
+/** Map the parsed components of an in-text or reference citation */
+export function citationComponentToCslItem(
+  id: string,
+  component: Pick<
+    CitationComponent,
+    'authors' | 'year' | 'title' | 'source' | 'volume' | 'issue' | 'pages' | 'doi' | 'url' | 'accessDate' | 'publisher' | 'edition' | 'sourceType'
+  >
+): CslItem {
+  return compactCslItem({
+    id,
+    type: sourceTypeToCslType(component.sourceType, { container: component.source, publisher: component.publisher, url: component.url }),
+    author: names(component.authors),
+    issued: yearToCslDate(component.year),
+    accessed: component.accessDate ? parseAccessDate(component.accessDate) : undefined,
+    title: component.title ?? undefined,
+    'container-title': component.source ?? undefined,
+    volume: component.volume ?? undefined,
+    issue: component.issue ?? undefined,
+    page: component.pages ?? undefined,
+    publisher: component.publisher ?? undefined,
+    edition: component.edition ?? undefined,
+    DOI: normalizeDoi(component.doi),
+    URL: component.url ?? undefined,
+  });
+}
+
+function parseAccessDate(value: string): CslDate {
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return { 'date-parts': [[Number(iso[1]), Number(iso[2]), Number(iso[3])]] };
+  return { literal: value };
+}
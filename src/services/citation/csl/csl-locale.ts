@@ -0,0 +1,107 @@
+/**
+ * en-US locale for the CSL processor: the terms and localized date
+ * formats CSL styles rely on. Styles can override any of these with their
+ * own `locale` element.
+ */
+
+import type { CslNode, CslTerm } from './csl.types';
+
+/** Keyed `name` for the long form and `name/form` for the others */
+export const EN_US_TERMS: Record<string, CslTerm> = {
+  'and': { single: 'and' },
+  'and/symbol': { single: '&' },
+  'et-al': { single: 'et al.' },
+  'and others': { single: 'and others' },
+  'no date': { single: 'no date' },
+  'no date/short': { single: 'n.d.' },
+  'in': { single: 'in' },
+  'in press': { single: 'in press' },
+  'accessed': { single: 'accessed' },
+  'retrieved': { single: 'retrieved' },
+  'from': { single: 'from' },
+  'available at': { single: 'available at' },
+  'online': { single: 'online' },
+  'cited': { single: 'cited' },
+  'presented at': { single: 'presented at the' },
+  'ibid': { single: 'ibid.' },
+  'open-quote': { single: '“' },
+  'close-quote': { single: '”' },
+  'open-inner-quote': { single: '‘' },
+  'close-inner-quote': { single: '’' },
+  'page-range-delimiter': { single: '–' },
+  'page': { single: 'page', multiple: 'pages' },
+  'page/short': { single: 'p.', multiple: 'pp.' },
+  'chapter': { single: 'chapter', multiple: 'chapters' },
+  'chapter/short': { single: 'chap.', multiple: 'chaps.' },
+  'section': { single: 'section', multiple: 'sections' },
+  'section/short': { single: 'sec.', multiple: 'secs.' },
+  'paragraph': { single: 'paragraph', multiple: 'paragraphs' },
+  'paragraph/short': { single: 'para.', multiple: 'paras.' },
+  'volume': { single: 'volume', multiple: 'volumes' },
+  'volume/short': { single: 'vol.', multiple: 'vols.' },
+  'issue': { single: 'issue', multiple: 'issues' },
+  'issue/short': { single: 'no.', multiple: 'nos.' },
+  'edition': { single: 'edition', multiple: 'editions' },
+  'edition/short': { single: 'ed.', multiple: 'eds.' },
+  'editor': { single: 'editor', multiple: 'editors' },
+  'editor/short': { single: 'ed.', multiple: 'eds.' },
+  'editor/verb': { single: 'edited by' },
+  'editor/verb-short': { single: 'ed.' },
+  'translator': { single: 'translator', multiple: 'translators' },
+  'translator/short': { single: 'trans.', multiple: 'trans.' },
+  'translator/verb': { single: 'translated by' },
+  'translator/verb-short': { single: 'trans.' },
+  'container-author/verb': { single: 'by' },
+  'month-01': { single: 'January' },
+  'month-02': { single: 'February' },
+  'month-03': { single: 'March' },
+  'month-04': { single: 'April' },
+  'month-05': { single: 'May' },
+  'month-06': { single: 'June' },
+  'month-07': { single: 'July' },
+  'month-08': { single: 'August' },
+  'month-09': { single: 'September' },
+  'month-10': { single: 'October' },
+  'month-11': { single: 'November' },
+  'month-12': { single: 'December' },
+  'month-01/short': { single: 'Jan.' },
+  'month-02/short': { single: 'Feb.' },
+  'month-03/short': { single: 'Mar.' },
+  'month-04/short': { single: 'Apr.' },
+  'month-05/short': { single: 'May' },
+  'month-06/short': { single: 'Jun.' },
+  'month-07/short': { single: 'Jul.' },
+  'month-08/short': { single: 'Aug.' },
+  'month-09/short': { single: 'Sep.' },
+  'month-10/short': { single: 'Oct.' },
+  'month-11/short': { single: 'Nov.' },
+  'month-12/short': { single: 'Dec.' },
+  'ordinal': { single: 'th' },
+  'ordinal-01': { single: 'st' },
+  'ordinal-02': { single: 'nd' },
+  'ordinal-03': { single: 'rd' },
+  'ordinal-11': { single: 'th' },
+  'ordinal-12': { single: 'th' },
+  'ordinal-13': { single: 'th' },
+};
+
+function node(name: string, attrs: Record<string, string> = {}, children: CslNode[] = []): CslNode {
+  return { name, attrs, children };
+}
+
+/** Localized `date` formats used by `<date form="text|numeric">` */
+export const EN_US_DATE_FORMATS: Record<'text' | 'numeric', CslNode> = {
+  text: node('date', { form: 'text' }, [
+    node('date-part', { name: 'month', suffix: ' ' }),
+    node('date-part', { name: 'day', suffix: ', ' }),
+    node('date-part', { name: 'year' }),
+  ]),
+  numeric: node('date', { form: 'numeric' }, [
+    node('date-part', { name: 'month', form: 'numeric-leading-zeros', suffix: '/' }),
+    node('date-part', { name: 'day', form: 'numeric-leading-zeros', suffix: '/' }),
+    node('date-part', { name: 'year' }),
+  ]),
+};
+
+/** American punctuation: commas and periods go inside closing quotes */
+export const EN_US_PUNCTUATION_IN_QUOTE = true;
@@ -0,0 +1,1096 @@
+/**
+ * Deterministic CSL processor.
+ *
+ * Renders CSL-JSON items through a parsed CSL style into bibliography
+ * entries and in-text citations. Supports the CSL 1.0.2 rendering elements
+ * (text, number, label, date, names, group, choose), macros, sorting,
+ * citation-number collapsing, year-suffix disambiguation, cite positions
+ * for note styles, and `subsequent-author-substitute`.
+ *
+ * Output is built as a small HTML subset (`<i>`, `<b>`, `<sup>`, small-caps
+ * spans) and also returned as plain text with italics marked *like this*,
+ * the convention the rest of the citation services use.
+ */
+
+import { AppError } from '../../../utils/app-error';
+import { EN_US_DATE_FORMATS, EN_US_PUNCTUATION_IN_QUOTE, EN_US_TERMS } from './csl-locale';
+import {
+  CSL_DATE_VARIABLES,
+  CSL_NAME_VARIABLES,
+  CslCitationCluster,
+  CslCiteItem,
+  CslDate,
+  CslDateVariable,
+  CslItem,
+  CslName,
+  CslNameVariable,
+  CslNode,
+  CslRenderOptions,
+  CslStyle,
+  CslTerm,
+  FormattedBibliography,
+  FormattedCitation,
+} from './csl.types';
+
+type CitePosition = 'first' | 'subsequent' | 'ibid' | 'ibid-with-locator';
+
+interface RenderResult {
+  out: string;
+  /** Variables the element tried to render */
+  vars: number;
+  /** Variables that had a value */
+  rendered: number;
+}
+
+interface RenderContext {
+  item: CslItem;
+  cite?: CslCiteItem;
+  citationNumber: number;
+  yearSuffix?: string;
+  position: CitePosition;
+  firstNoteNumber?: number;
+  /** Name options inherited from `style` and `citation`/`bibliography` */
+  inherited: Record<string, string>;
+  /** Variables already rendered through `substitute` */
+  substituted: Set<string>;
+  authorMode?: 'suppress' | 'only' | 'capture';
+  authorDone: boolean;
+  capturedAuthor?: string;
+  yearSuffixDone: boolean;
+  forSort: boolean;
+  depth: number;
+}
+
+interface Registry {
+  order: CslItem[];
+  citationNumbers: Map<string, number>;
+  yearSuffixes: Map<string, string>;
+}
+
+const EMPTY: RenderResult = { out: '', vars: 0, rendered: 0 };
+const MAX_MACRO_DEPTH = 50;
+
+const INHERITABLE_NAME_OPTIONS = [
+  'and', 'delimiter-precedes-et-al', 'delimiter-precedes-last', 'et-al-min', 'et-al-use-first',
+  'et-al-use-last', 'et-al-subsequent-min', 'et-al-subsequent-use-first', 'initialize',
+  'initialize-with', 'name-as-sort-order', 'sort-separator', 'name-form', 'name-delimiter',
+  'names-delimiter',
+];
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'as', 'at', 'but', 'by', 'down', 'for', 'from', 'in', 'into', 'nor', 'of',
+  'on', 'onto', 'or', 'over', 'so', 'the', 'till', 'to', 'up', 'via', 'with', 'yet',
+]);
+
+const SUPERSCRIPT_DIGITS = ['⁰', '¹', '²', '³', '⁴', '⁵', '⁶', '⁷', '⁸', '⁹'];
+
+function escapeHtml(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+function unescapeHtml(value: string): string {
+  return value.replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&amp;/g, '&');
+}
+
+/** Split markup into tags/entities (left alone) and text runs (transformable) */
+function mapTextRuns(markup: string, transform: (text: string) => string): string {
+  return markup.split(/(<[^>]+>|&[#\w]+;)/).map(part =>
+    part.startsWith('<') || /^&[#\w]+;$/.test(part) ? part : transform(part)
+  ).join('');
+}
+
+function isNumeric(value: string): boolean {
+  return /^\s*\d+[a-z]*(?:\s*(?:[-–,&]|and)\s*\d+[a-z]*)*\s*$/i.test(value);
+}
+
+function isPlural(value: string): boolean {
+  return /\d\s*(?:[-–,&]|and)\s*\d/.test(value);
+}
+
+function toRoman(n: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+  ];
+  let result = '';
+  for (const [value, numeral] of numerals) {
+    while (n >= value) {
+      result += numeral;
+      n -= value;
+    }
+  }
+  return result;
+}
+
+function pad(value: number, width: number): string {
+  return String(value).padStart(width, '0');
+}
+
+function toSuperscript(n: number): string {
+  return String(n).split('').map(d => SUPERSCRIPT_DIGITS[Number(d)] ?? d).join('');
+}
+
+function textCase(value: string, mode: string | undefined): string {
+  switch (mode) {
+    case 'lowercase':
+      return value.toLowerCase();
+    case 'uppercase':
+      return value.toUpperCase();
+    case 'capitalize-first':
+      return value.replace(/\p{L}/u, ch => ch.toUpperCase());
+    case 'capitalize-all':
+      return value.replace(/(^|[\s-])(\p{Ll})/gu, (_m, sep: string, ch: string) => sep + ch.toUpperCase());
+    case 'sentence':
+      return sentenceCase(value);
+    case 'title':
+      return titleCase(value);
+    default:
+      return value;
+  }
+}
+
+/** CSL sentence case: only all-uppercase strings are lowercased; the first word is capitalized */
+function sentenceCase(value: string): string {
+  const hasLower = /\p{Ll}/u.test(value);
+  const base = hasLower ? value : value.toLowerCase();
+  return base.replace(/\p{L}/u, ch => ch.toUpperCase());
+}
+
+/** CSL title case: capitalize lowercase words except stop words in the middle of the title */
+function titleCase(value: string): string {
+  const base = /\p{Ll}/u.test(value) ? value : value.toLowerCase();
+  const words = base.split(/(\s+)/);
+  const wordIndexes = words.map((w, i) => (/\S/.test(w) ? i : -1)).filter(i => i >= 0);
+  const first = wordIndexes[0];
+  const last = wordIndexes[wordIndexes.length - 1];
+  let afterColon = false;
+  return words.map((word, i) => {
+    if (!/\S/.test(word)) return word;
+    const bare = word.replace(/^[^\p{L}]+|[^\p{L}]+$/gu, '');
+    const forceCap = i === first || i === last || afterColon;
+    afterColon = /:$/.test(word);
+    if (bare !== bare.toLowerCase()) return word;
+    if (!forceCap && STOP_WORDS.has(bare)) return word;
+    return word.replace(/\p{L}/u, ch => ch.toUpperCase());
+  }).join('');
+}
+
+/** Reformat numeric page ranges per the style's `page-range-format` */
+export function formatPageRange(value: string, format: string | undefined, delimiter = '–'): string {
+  return value.replace(/(\d+)\s*[-–—]+\s*(\d+)/g, (_m, startText: string, endText: string) => {
+    let end = endText;
+    if (end.length < startText.length) {
+      end = startText.slice(0, startText.length - end.length) + end;
+    }
+    if (Number(end) < Number(startText)) return `${startText}${delimiter}${endText}`;
+    return `${startText}${delimiter}${collapseRangeEnd(startText, end, format)}`;
+  });
+}
+
+function collapseRangeEnd(start: string, end: string, format: string | undefined): string {
+  if (start.length !== end.length) return end;
+  const minimal = (keep: number): string => {
+    let i = 0;
+    while (i < start.length - keep && start[i] === end[i]) i++;
+    return end.slice(i);
+  };
+  switch (format) {
+    case 'minimal':
+      return minimal(1);
+    case 'minimal-two':
+      return minimal(Math.min(2, end.length));
+    case 'chicago': {
+      const n = Number(start);
+      if (n < 100 || n % 100 === 0) return end;
+      if (n % 100 < 10) return minimal(1);
+      const collapsed = minimal(2);
+      return start.length === 4 && collapsed.length > 2 ? end : collapsed;
+    }
+    default:
+      return end;
+  }
+}
+
+function dateKey(date: CslDate | undefined): string {
+  const parts = date?.['date-parts']?.[0];
+  if (!parts || parts.length === 0) return '';
+  return `${pad(parts[0], 4)}${pad(parts[1] ?? 0, 2)}${pad(parts[2] ?? 0, 2)}`;
+}
+
+export class CslProcessor {
+  private readonly rendersYearSuffix: boolean;
+
+  constructor(private readonly style: CslStyle) {
+    const usesYearSuffix = (node: CslNode): boolean =>
+      node.attrs.variable?.split(/\s+/).includes('year-suffix') || node.children.some(usesYearSuffix);
+    this.rendersYearSuffix = [style.citation, style.bibliography, ...style.macros.values()]
+      .some(node => node !== undefined && usesYearSuffix(node));
+  }
+
+  get citationFormat(): CslStyle['citationFormat'] {
+    return this.style.citationFormat;
+  }
+
+  get title(): string {
+    return this.style.title;
+  }
+
+  /**
+   * Render the bibliography. Clusters, when given, set the citation
+   * numbers of numeric styles (order of first citation).
+   */
+  formatBibliography(
+    items: CslItem[],
+    clusters: CslCitationCluster[] = [],
+    options: CslRenderOptions = {}
+  ): FormattedBibliography {
+    const bibliography = this.style.bibliography;
+    if (!bibliography) {
+      throw AppError.badRequest(`CSL style "${this.style.title}" has no bibliography`, 'CSL_NO_BIBLIOGRAPHY');
+    }
+    const registry = this.buildRegistry(items, options.numberByItemOrder ? [] : clusters);
+    const layout = this.child(bibliography, 'layout')!;
+    const inherited = this.inheritedOptions(bibliography);
+    const substitute = bibliography.attrs['subsequent-author-substitute'];
+    let previousAuthor: string | undefined;
+
+    const entries = registry.order.map(item => {
+      const ctx = this.context(item, registry, inherited);
+      if (options.omitCitationNumbers) ctx.citationNumber = 0;
+      if (substitute !== undefined) ctx.authorMode = 'capture';
+      let out = this.renderLayout(layout, ctx).out;
+      if (substitute !== undefined && ctx.capturedAuthor) {
+        if (ctx.capturedAuthor === previousAuthor) {
+          out = out.replace(ctx.capturedAuthor, escapeHtml(substitute));
+        }
+        previousAuthor = ctx.capturedAuthor;
+      }
+      const html = this.finalize(this.affix(this.format(out, layout.attrs), layout.attrs));
+      return {
+        id: item.id,
+        html,
+        text: this.toText(html),
+        citationNumber: registry.citationNumbers.get(item.id) ?? 0,
+      };
+    });
+
+    return {
+      entries,
+      hangingIndent: bibliography.attrs['hanging-indent'] === 'true',
+      secondFieldAlign: Boolean(bibliography.attrs['second-field-align']),
+    };
+  }
+
+  /** Render in-text citations (or notes, for note styles) in document order */
+  formatCitations(
+    items: CslItem[],
+    clusters: CslCitationCluster[],
+    options: CslRenderOptions = {}
+  ): FormattedCitation[] {
+    const registry = this.buildRegistry(items, options.numberByItemOrder ? [] : clusters);
+    const byId = new Map(items.map(item => [item.id, item]));
+    const citation = this.style.citation;
+    const layout = this.child(citation, 'layout')!;
+    const inherited = this.inheritedOptions(citation);
+    const isNote = this.style.class === 'note';
+    const firstNote = new Map<string, number>();
+    let previous: CslCiteItem[] = [];
+
+    return clusters.map((cluster, index) => {
+      const noteNumber = index + 1;
+      const cites = this.sortCites(cluster.items.filter(cite => byId.has(cite.id)), byId, registry, inherited);
+      const unknown = cluster.items.filter(cite => !byId.has(cite.id)).map(cite => cite.id);
+      if (unknown.length > 0) {
+        throw AppError.badRequest(`Citation refers to unknown item(s): ${unknown.join(', ')}`, 'CSL_UNKNOWN_ITEM');
+      }
+
+      const contexts = cites.map(cite => {
+        const ctx = this.context(byId.get(cite.id)!, registry, inherited, cite);
+        ctx.position = this.positionOf(cite, cites.length, previous, firstNote.has(cite.id));
+        ctx.firstNoteNumber = firstNote.get(cite.id);
+        return ctx;
+      });
+      for (const cite of cites) {
+        if (!firstNote.has(cite.id)) firstNote.set(cite.id, noteNumber);
+      }
+      previous = cites;
+
+      const narrative = cluster.mode === 'narrative' && !isNote;
+      let out: string;
+      if (narrative) {
+        out = contexts.map(ctx => {
+          const author = this.renderCite(layout, { ...ctx, authorMode: 'only', authorDone: false, substituted: new Set() });
+          const rest = this.wrapLayout(this.renderCite(layout, { ...ctx, authorMode: 'suppress', authorDone: false }), layout);
+          return [author, rest].filter(Boolean).join(' ');
+        }).join('; ');
+      } else {
+        const rendered = this.collapse(citation, contexts.map(ctx => ({ ctx, out: this.renderCite(layout, ctx) })));
+        out = this.wrapLayout(rendered.filter(Boolean).join(layout.attrs.delimiter ?? ''), layout);
+      }
+
+      const html = this.finalize(out);
+      const result: FormattedCitation = { clusterId: cluster.id, html, text: this.toText(html) };
+      if (isNote) {
+        result.noteNumber = noteNumber;
+        result.marker = toSuperscript(noteNumber);
+      }
+      return result;
+    });
+  }
+
+  // ---------------------------------------------------------------------------
+  // Registry: bibliography order, citation numbers and year suffixes
+  // ---------------------------------------------------------------------------
+
+  private buildRegistry(items: CslItem[], clusters: CslCitationCluster[]): Registry {
+    const firstCited: CslItem[] = [];
+    const seen = new Set<string>();
+    const byId = new Map(items.map(item => [item.id, item]));
+    for (const cluster of clusters) {
+      for (const cite of cluster.items) {
+        const item = byId.get(cite.id);
+        if (item && !seen.has(item.id)) {
+          seen.add(item.id);
+          firstCited.push(item);
+        }
+      }
+    }
+    const appearance = [...firstCited, ...items.filter(item => !seen.has(item.id))];
+    const appearanceNumbers = new Map(appearance.map((item, i) => [item.id, i + 1]));
+
+    const sortNode = this.style.bibliography && this.child(this.style.bibliography, 'sort');
+    let order = appearance;
+    if (sortNode) {
+      const inherited = this.inheritedOptions(this.style.bibliography!);
+      const draft: Registry = { order: appearance, citationNumbers: appearanceNumbers, yearSuffixes: new Map() };
+      order = this.sortItems(appearance, sortNode, draft, inherited);
+    }
+
+    const citationNumbers = new Map(order.map((item, i) => [item.id, i + 1]));
+    const yearSuffixes = new Map<string, string>();
+    if (this.style.citation.attrs['disambiguate-add-year-suffix'] === 'true') {
+      const groups = new Map<string, CslItem[]>();
+      for (const item of order) {
+        const year = item.issued?.['date-parts']?.[0]?.[0];
+        if (year === undefined) continue;
+        const names = item.author ?? item.editor ?? [];
+        const who = names.length > 0
+          ? names.map(n => (n.literal ?? n.family ?? '').toLowerCase()).join('|')
+          : (item.title ?? '').toLowerCase();
+        const key = `${who}#${year}`;
+        groups.set(key, [...(groups.get(key) ?? []), item]);
+      }
+      for (const group of groups.values()) {
+        if (group.length < 2) continue;
+        group.forEach((item, i) => yearSuffixes.set(item.id, this.suffixLetter(i)));
+      }
+    }
+
+    return { order, citationNumbers, yearSuffixes };
+  }
+
+  private suffixLetter(index: number): string {
+    let n = index;
+    let letters = '';
+    do {
+      letters = String.fromCharCode(97 + (n % 26)) + letters;
+      n = Math.floor(n / 26) - 1;
+    } while (n >= 0);
+    return letters;
+  }
+
+  private sortItems(items: CslItem[], sortNode: CslNode, registry: Registry, inherited: Record<string, string>): CslItem[] {
+    const keys = sortNode.children.filter(k => k.name === 'key');
+    const keyed = items.map((item, index) => ({
+      item,
+      index,
+      values: keys.map(key => this.sortValue(item, key, registry, inherited)),
+    }));
+    keyed.sort((a, b) => {
+      for (let i = 0; i < keys.length; i++) {
+        const av = a.values[i];
+        const bv = b.values[i];
+        if (av === bv) continue;
+        // Empty values sort last regardless of direction
+        if (!av) return 1;
+        if (!bv) return -1;
+        const cmp = av.localeCompare(bv, 'en');
+        if (cmp !== 0) return keys[i].attrs.sort === 'descending' ? -cmp : cmp;
+      }
+      return a.index - b.index;
+    });
+    return keyed.map(k => k.item);
+  }
+
+  private sortCites(
+    cites: CslCiteItem[],
+    byId: Map<string, CslItem>,
+    registry: Registry,
+    inherited: Record<string, string>
+  ): CslCiteItem[] {
+    const sortNode = this.child(this.style.citation, 'sort');
+    if (!sortNode || cites.length < 2) return cites;
+    const sorted = this.sortItems(cites.map(c => byId.get(c.id)!), sortNode, registry, inherited);
+    return sorted.map(item => cites.find(c => c.id === item.id)!);
+  }
+
+  private sortValue(item: CslItem, key: CslNode, registry: Registry, inherited: Record<string, string>): string {
+    const variable = key.attrs.variable;
+    if (variable) {
+      if (variable === 'citation-number') return pad(registry.citationNumbers.get(item.id) ?? 0, 6);
+      if ((CSL_NAME_VARIABLES as readonly string[]).includes(variable)) {
+        const names = item[variable as CslNameVariable] ?? [];
+        return names.map(n => [n.literal ?? `${n['non-dropping-particle'] ?? ''}${n.family ?? ''}`, n.given ?? ''].join(' ').trim())
+          .join(', ').toLowerCase();
+      }
+      if ((CSL_DATE_VARIABLES as readonly string[]).includes(variable)) {
+        return dateKey(item[variable as CslDateVariable]);
+      }
+      const value = this.stringVariable(item, variable);
+      return isNumeric(value) ? pad(parseInt(value, 10), 8) : value.toLowerCase();
+    }
+    if (key.attrs.macro) {
+      const ctx = this.context(item, registry, { ...inherited, ...this.pickNameOptions(key.attrs) });
+      ctx.forSort = true;
+      const out = this.renderMacro(key.attrs.macro, ctx).out;
+      return this.toText(out).replace(/\*/g, '').toLowerCase().trim();
+    }
+    return '';
+  }
+
+  // ---------------------------------------------------------------------------
+  // Citations
+  // ---------------------------------------------------------------------------
+
+  private positionOf(cite: CslCiteItem, clusterSize: number, previous: CslCiteItem[], seen: boolean): CitePosition {
+    if (!seen) return 'first';
+    if (clusterSize === 1 && previous.length === 1 && previous[0].id === cite.id) {
+      return !cite.locator || cite.locator === previous[0].locator ? 'ibid' : 'ibid-with-locator';
+    }
+    return 'subsequent';
+  }
+
+  private renderCite(layout: CslNode, ctx: RenderContext): string {
+    const result = this.renderChildren(layout.children, ctx);
+    if (ctx.authorMode === 'only') return ctx.capturedAuthor ?? '';
+    if (!result.out) return '';
+    const prefix = ctx.cite?.prefix ? escapeHtml(ctx.cite.prefix) : '';
+    const suffix = ctx.cite?.suffix ? escapeHtml(ctx.cite.suffix) : '';
+    return `${prefix}${result.out}${suffix}`;
+  }
+
+  private wrapLayout(out: string, layout: CslNode): string {
+    if (!out) return '';
+    return this.affix(this.format(out, layout.attrs), layout.attrs);
+  }
+
+  /** `collapse="citation-number"`: runs of three or more consecutive numbers become "first–last" */
+  private collapse(citation: CslNode, rendered: Array<{ ctx: RenderContext; out: string }>): string[] {
+    if (citation.attrs.collapse !== 'citation-number') return rendered.map(r => r.out);
+    const result: string[] = [];
+    let i = 0;
+    while (i < rendered.length) {
+      let j = i;
+      while (
+        j + 1 < rendered.length &&
+        !rendered[j].ctx.cite?.locator && !rendered[j + 1].ctx.cite?.locator &&
+        rendered[j + 1].ctx.citationNumber === rendered[j].ctx.citationNumber + 1
+      ) {
+        j++;
+      }
+      if (j - i >= 2) {
+        result.push(`${rendered[i].out}–${rendered[j].out}`);
+      } else {
+        for (let k = i; k <= j; k++) result.push(rendered[k].out);
+      }
+      i = j + 1;
+    }
+    return result;
+  }
+
+  // ---------------------------------------------------------------------------
+  // Rendering elements
+  // ---------------------------------------------------------------------------
+
+  private context(
+    item: CslItem,
+    registry: Registry,
+    inherited: Record<string, string>,
+    cite?: CslCiteItem
+  ): RenderContext {
+    return {
+      item,
+      cite,
+      citationNumber: registry.citationNumbers.get(item.id) ?? 0,
+      yearSuffix: registry.yearSuffixes.get(item.id),
+      position: 'first',
+      inherited,
+      substituted: new Set(),
+      authorDone: false,
+      yearSuffixDone: false,
+      forSort: false,
+      depth: 0,
+    };
+  }
+
+  private renderLayout(layout: CslNode, ctx: RenderContext): RenderResult {
+    return this.renderChildren(layout.children, ctx);
+  }
+
+  private renderChildren(nodes: CslNode[], ctx: RenderContext, delimiter = ''): RenderResult {
+    const outs: string[] = [];
+    let vars = 0;
+    let rendered = 0;
+    for (const node of nodes) {
+      const result = this.renderElement(node, ctx);
+      vars += result.vars;
+      rendered += result.rendered;
+      if (result.out) outs.push(result.out);
+    }
+    return { out: outs.join(escapeHtml(delimiter)), vars, rendered };
+  }
+
+  private renderElement(node: CslNode, ctx: RenderContext): RenderResult {
+    switch (node.name) {
+      case 'text':
+        return this.renderText(node, ctx);
+      case 'number':
+        return this.renderNumber(node, ctx);
+      case 'label':
+        return this.renderLabel(node, ctx);
+      case 'date':
+        return this.renderDate(node, ctx);
+      case 'names':
+        return this.renderNames(node, ctx);
+      case 'group':
+        return this.renderGroup(node, ctx);
+      case 'choose':
+        return this.renderChoose(node, ctx);
+      default:
+        return EMPTY;
+    }
+  }
+
+  private renderMacro(name: string, ctx: RenderContext): RenderResult {
+    const macro = this.style.macros.get(name);
+    if (!macro) return EMPTY;
+    if (ctx.depth >= MAX_MACRO_DEPTH) {
+      throw AppError.badRequest(`CSL macro "${name}" recurses too deeply`, 'CSL_MACRO_RECURSION');
+    }
+    ctx.depth++;
+    try {
+      return this.renderChildren(macro.children, ctx);
+    } finally {
+      ctx.depth--;
+    }
+  }
+
+  private renderText(node: CslNode, ctx: RenderContext): RenderResult {
+    const { attrs } = node;
+    let out = '';
+    let vars = 0;
+    let rendered = 0;
+
+    if (attrs.variable) {
+      vars = 1;
+      const value = this.variable(ctx, attrs.variable, attrs.form);
+      if (value) {
+        rendered = 1;
+        out = escapeHtml(this.plainTransforms(value, attrs));
+        if (attrs.variable === 'year-suffix') ctx.yearSuffixDone = true;
+      }
+    } else if (attrs.macro) {
+      const result = this.renderMacro(attrs.macro, ctx);
+      vars = result.vars;
+      rendered = result.rendered;
+      out = attrs['text-case'] ? mapTextRuns(result.out, t => textCase(t, attrs['text-case'])) : result.out;
+      if (attrs['strip-periods'] === 'true') out = mapTextRuns(out, t => t.replace(/\./g, ''));
+    } else if (attrs.term) {
+      const term = this.term(attrs.term, attrs.form, attrs.plural === 'true');
+      out = escapeHtml(this.plainTransforms(term, attrs));
+    } else if (attrs.value !== undefined) {
+      out = escapeHtml(this.plainTransforms(attrs.value, attrs));
+    }
+
+    return { out: this.decorate(out, attrs), vars, rendered };
+  }
+
+  private renderNumber(node: CslNode, ctx: RenderContext): RenderResult {
+    const { attrs } = node;
+    const raw = this.variable(ctx, attrs.variable, undefined);
+    if (!raw) return { out: '', vars: 1, rendered: 0 };
+    let value = raw;
+    const n = parseInt(raw, 10);
+    if (/^\d+$/.test(raw.trim())) {
+      if (attrs.form === 'ordinal' || attrs.form === 'long-ordinal') value = this.ordinal(n);
+      else if (attrs.form === 'roman') value = toRoman(n);
+    }
+    return { out: this.decorate(escapeHtml(this.plainTransforms(value, attrs)), attrs), vars: 1, rendered: 1 };
+  }
+
+  private renderLabel(node: CslNode, ctx: RenderContext): RenderResult {
+    const { attrs } = node;
+    const variable = attrs.variable;
+    if (!variable) return EMPTY;
+    const value = this.variable(ctx, variable, undefined);
+    if (!value) return EMPTY;
+    const termName = variable === 'locator' ? (ctx.cite?.label ?? 'page') : variable;
+    const plural = attrs.plural === 'always' || (attrs.plural !== 'never' && isPlural(value));
+    const term = this.term(termName, attrs.form, plural);
+    return { out: this.decorate(escapeHtml(this.plainTransforms(term, attrs)), attrs), vars: 0, rendered: 0 };
+  }
+
+  private renderGroup(node: CslNode, ctx: RenderContext): RenderResult {
+    const result = this.renderChildren(node.children, ctx, node.attrs.delimiter ?? '');
+    if (result.vars > 0 && result.rendered === 0) return { out: '', vars: result.vars, rendered: 0 };
+    return { out: this.decorate(result.out, node.attrs), vars: result.vars, rendered: result.rendered };
+  }
+
+  private renderChoose(node: CslNode, ctx: RenderContext): RenderResult {
+    for (const branch of node.children) {
+      if (branch.name === 'else' || this.test(branch, ctx)) {
+        return this.renderChildren(branch.children, ctx);
+      }
+    }
+    return EMPTY;
+  }
+
+  private test(branch: CslNode, ctx: RenderContext): boolean {
+    const results: boolean[] = [];
+    const list = (value: string | undefined): string[] => value?.split(/\s+/).filter(Boolean) ?? [];
+    const { attrs } = branch;
+
+    list(attrs.type).forEach(type => results.push(ctx.item.type === type));
+    list(attrs.variable).forEach(v => results.push(this.hasVariable(ctx, v)));
+    list(attrs['is-numeric']).forEach(v => results.push(isNumeric(this.variable(ctx, v, undefined))));
+    list(attrs['is-uncertain-date']).forEach(() => results.push(false));
+    list(attrs.locator).forEach(l => results.push(Boolean(ctx.cite?.locator) && (ctx.cite?.label ?? 'page') === l));
+    list(attrs.position).forEach(p => results.push(this.positionMatches(ctx.position, p)));
+    list(attrs.disambiguate).forEach(() => results.push(false));
+
+    switch (attrs.match) {
+      case 'any':
+        return results.some(Boolean);
+      case 'none':
+        return !results.some(Boolean);
+      default:
+        return results.length > 0 && results.every(Boolean);
+    }
+  }
+
+  private positionMatches(position: CitePosition, test: string): boolean {
+    switch (test) {
+      case 'first':
+        return position === 'first';
+      case 'subsequent':
+      case 'near-note':
+        return position !== 'first';
+      case 'ibid':
+        return position === 'ibid' || position === 'ibid-with-locator';
+      case 'ibid-with-locator':
+        return position === 'ibid-with-locator';
+      default:
+        return false;
+    }
+  }
+
+  // ---------------------------------------------------------------------------
+  // Dates
+  // ---------------------------------------------------------------------------
+
+  private renderDate(node: CslNode, ctx: RenderContext): RenderResult {
+    const { attrs } = node;
+    const variable = attrs.variable as CslDateVariable | undefined;
+    const date = variable && (CSL_DATE_VARIABLES as readonly string[]).includes(variable) ? ctx.item[variable] : undefined;
+    if (!date || (!date.literal && !date['date-parts']?.[0]?.length)) return { out: '', vars: 1, rendered: 0 };
+
+    if (date.literal) {
+      return { out: this.decorate(escapeHtml(date.literal), attrs), vars: 1, rendered: 1 };
+    }
+
+    let parts: CslNode[];
+    let delimiter = attrs.delimiter ?? '';
+    if (attrs.form === 'text' || attrs.form === 'numeric') {
+      const localized = this.style.dateFormats.get(attrs.form) ?? EN_US_DATE_FORMATS[attrs.form];
+      const wanted = (attrs['date-parts'] ?? 'year-month-day').split('-');
+      const overrides = new Map(node.children.filter(c => c.name === 'date-part').map(c => [c.attrs.name, c.attrs]));
+      parts = localized.children
+        .filter(part => wanted.includes(part.attrs.name))
+        .map(part => {
+          // Affixes of the localized format win over the style's overrides
+          const override = Object.entries(overrides.get(part.attrs.name) ?? {})
+            .filter(([key]) => key !== 'prefix' && key !== 'suffix');
+          return { ...part, attrs: { ...part.attrs, ...Object.fromEntries(override) } };
+        });
+      delimiter = localized.attrs.delimiter ?? '';
+    } else {
+      parts = node.children.filter(c => c.name === 'date-part');
+    }
+
+    const [start, end] = date['date-parts']!;
+    const rendered = this.renderDateParts(parts, start, delimiter, variable === 'issued' ? ctx : undefined);
+    if (!rendered) return { out: '', vars: 1, rendered: 0 };
+    let out = rendered;
+    if (end && end[0] && end[0] !== start[0]) {
+      out += `–${end[0]}`;
+    }
+    return { out: this.decorate(out, attrs), vars: 1, rendered: 1 };
+  }
+
+  private renderDateParts(parts: CslNode[], values: number[], delimiter: string, yearSuffixCtx?: RenderContext): string {
+    const [year, month, day] = values;
+    const outs: string[] = [];
+    for (const part of parts) {
+      const { attrs } = part;
+      let value = '';
+      switch (attrs.name) {
+        case 'year':
+          if (year === undefined) break;
+          value = attrs.form === 'short' ? pad(year % 100, 2) : String(year);
+          if (yearSuffixCtx?.yearSuffix && !this.rendersYearSuffix && !yearSuffixCtx.yearSuffixDone) {
+            value += yearSuffixCtx.yearSuffix;
+            yearSuffixCtx.yearSuffixDone = true;
+          }
+          break;
+        case 'month':
+          if (!month || month > 12) break;
+          if (attrs.form === 'numeric') value = String(month);
+          else if (attrs.form === 'numeric-leading-zeros') value = pad(month, 2);
+          else value = this.term(`month-${pad(month, 2)}`, attrs.form === 'short' ? 'short' : undefined, false);
+          break;
+        case 'day':
+          if (!day) break;
+          if (attrs.form === 'numeric-leading-zeros') value = pad(day, 2);
+          else if (attrs.form === 'ordinal') value = this.ordinal(day);
+          else value = String(day);
+          break;
+      }
+      if (value) outs.push(this.decorate(escapeHtml(this.plainTransforms(value, attrs)), attrs));
+    }
+    return outs.join(escapeHtml(delimiter));
+  }
+
+  // ---------------------------------------------------------------------------
+  // Names
+  // ---------------------------------------------------------------------------
+
+  private renderNames(node: CslNode, ctx: RenderContext, inheritedChildren?: CslNode[]): RenderResult {
+    const variables = (node.attrs.variable ?? '').split(/\s+/).filter(Boolean);
+    const children = node.children.length > 0 ? node.children : (inheritedChildren ?? []);
+    const nameNode = children.find(c => c.name === 'name');
+    const etAlNode = children.find(c => c.name === 'et-al');
+    const labelNode = children.find(c => c.name === 'label');
+    const labelFirst = labelNode !== undefined && nameNode !== undefined && children.indexOf(labelNode) < children.indexOf(nameNode);
+
+    const outs: string[] = [];
+    for (const variable of variables) {
+      if (ctx.substituted.has(variable)) continue;
+      const names = (CSL_NAME_VARIABLES as readonly string[]).includes(variable) ? ctx.item[variable as CslNameVariable] : undefined;
+      if (!names || names.length === 0) continue;
+      let out = this.formatNameList(names, nameNode, etAlNode, ctx);
+      if (labelNode) {
+        const term = this.term(variable, labelNode.attrs.form, names.length > 1);
+        const label = this.decorate(escapeHtml(this.plainTransforms(term, labelNode.attrs)), labelNode.attrs);
+        out = labelFirst ? `${label}${out}` : `${out}${label}`;
+      }
+      outs.push(out);
+    }
+
+    let out = outs.join(escapeHtml(node.attrs.delimiter ?? ctx.inherited['names-delimiter'] ?? ', '));
+    let rendered = out ? 1 : 0;
+
+    if (!out) {
+      const substitute = children.find(c => c.name === 'substitute');
+      for (const candidate of substitute?.children ?? []) {
+        const result = candidate.name === 'names'
+          ? this.renderNames(candidate, ctx, children.filter(c => c.name !== 'substitute'))
+          : this.renderElement(candidate, ctx);
+        if (result.out) {
+          out = result.out;
+          rendered = 1;
+          this.markSubstituted(candidate, ctx);
+          break;
+        }
+      }
+    }
+
+    if (out && !ctx.forSort && ctx.authorMode && !ctx.authorDone) {
+      ctx.authorDone = true;
+      const decorated = this.decorate(out, node.attrs);
+      if (ctx.authorMode === 'suppress') return { out: '', vars: 1, rendered: 1 };
+      ctx.capturedAuthor = decorated;
+      return { out: decorated, vars: 1, rendered: 1 };
+    }
+
+    return { out: this.decorate(out, node.attrs), vars: 1, rendered };
+  }
+
+  private markSubstituted(node: CslNode, ctx: RenderContext): void {
+    (node.attrs.variable ?? '').split(/\s+/).filter(Boolean).forEach(v => ctx.substituted.add(v));
+    if (node.attrs.macro) {
+      const macro = this.style.macros.get(node.attrs.macro);
+      macro?.children.forEach(c => this.markSubstituted(c, ctx));
+    }
+    node.children.forEach(c => this.markSubstituted(c, ctx));
+  }
+
+  private formatNameList(names: CslName[], nameNode: CslNode | undefined, etAlNode: CslNode | undefined, ctx: RenderContext): string {
+    const options: Record<string, string> = { ...ctx.inherited, ...(nameNode?.attrs ?? {}) };
+    if (!nameNode?.attrs.form && ctx.inherited['name-form']) options.form = ctx.inherited['name-form'];
+    if (!nameNode?.attrs.delimiter && ctx.inherited['name-delimiter']) options.delimiter = ctx.inherited['name-delimiter'];
+
+    if (options.form === 'count') return String(names.length);
+
+    const subsequent = ctx.position !== 'first';
+    const etAlMin = Number((subsequent && options['et-al-subsequent-min']) || options['et-al-min'] || 0);
+    const etAlUseFirst = Number((subsequent && options['et-al-subsequent-use-first']) || options['et-al-use-first'] || 0);
+    const truncate = !ctx.forSort && etAlMin > 0 && etAlUseFirst > 0 && names.length >= etAlMin && etAlUseFirst < names.length;
+    const shown = truncate ? names.slice(0, etAlUseFirst) : names;
+
+    const sortOrder = ctx.forSort ? 'all' : options['name-as-sort-order'];
+    const formatted = shown.map((name, i) => {
+      const inverted = sortOrder === 'all' || (sortOrder === 'first' && i === 0);
+      return { text: this.formatName(name, options, nameNode, inverted), inverted };
+    });
+
+    const delimiter = escapeHtml(options.delimiter ?? ', ');
+    const precedes = (mode: string | undefined, count: number, previousInverted: boolean, contextualMin: number): boolean => {
+      switch (mode) {
+        case 'always':
+          return true;
+        case 'never':
+          return false;
+        case 'after-inverted-name':
+          return previousInverted;
+        default:
+          return count >= contextualMin;
+      }
+    };
+
+    if (truncate && options['et-al-use-last'] === 'true' && names.length - etAlUseFirst >= 2) {
+      const last = this.formatName(names[names.length - 1], options, nameNode, sortOrder === 'all');
+      return `${formatted.map(f => f.text).join(delimiter)}${delimiter}… ${last}`;
+    }
+
+    let out: string;
+    const andTerm = options.and === 'text' ? this.term('and', undefined, false) : options.and === 'symbol' ? '&' : undefined;
+    if (formatted.length === 1) {
+      out = formatted[0].text;
+    } else if (andTerm && !truncate) {
+      const head = formatted.slice(0, -1);
+      const last = formatted[formatted.length - 1];
+      const useDelimiter = precedes(options['delimiter-precedes-last'], formatted.length, head[head.length - 1].inverted, 3);
+      out = `${head.map(f => f.text).join(delimiter)}${useDelimiter ? delimiter : ' '}${escapeHtml(andTerm)} ${last.text}`;
+    } else {
+      out = formatted.map(f => f.text).join(delimiter);
+    }
+
+    if (truncate) {
+      const termName = etAlNode?.attrs.term ?? 'et-al';
+      const etAl = this.decorate(escapeHtml(this.term(termName, undefined, false)), etAlNode?.attrs ?? {});
+      const useDelimiter = precedes(options['delimiter-precedes-et-al'], formatted.length, formatted[formatted.length - 1].inverted, 2);
+      out = `${out}${useDelimiter ? delimiter : ' '}${etAl}`;
+    }
+    return out;
+  }
+
+  private formatName(name: CslName, options: Record<string, string>, nameNode: CslNode | undefined, inverted: boolean): string {
+    const namePart = (part: string): Record<string, string> =>
+      nameNode?.children.find(c => c.name === 'name-part' && c.attrs.name === part)?.attrs ?? {};
+    const render = (value: string, partAttrs: Record<string, string>): string =>
+      value ? this.decorate(escapeHtml(textCase(value, partAttrs['text-case'])), partAttrs) : '';
+
+    if (name.literal) return render(name.literal, namePart('family'));
+
+    const particle = name['non-dropping-particle'] ? `${name['non-dropping-particle']} ` : '';
+    const family = render(`${particle}${name.family ?? ''}`.trim(), namePart('family'));
+    if (options.form === 'short' || !name.given) return family;
+
+    const given = render(this.initialize(name.given, options), namePart('given'));
+    const suffix = name.suffix ? escapeHtml(name.suffix) : '';
+    if (inverted) {
+      const separator = escapeHtml(options['sort-separator'] ?? ', ');
+      return [family, given, suffix].filter(Boolean).join(separator);
+    }
+    return [given, family, suffix].filter(Boolean).join(' ');
+  }
+
+  /** Reduce given names to initials per `initialize-with`, e.g. "John Alan" → "J. A." */
+  private initialize(given: string, options: Record<string, string>): string {
+    const initializeWith = options['initialize-with'];
+    if (initializeWith === undefined) return given;
+    const hyphen = this.style.options['initialize-with-hyphen'] !== 'false';
+    const trimmedWith = initializeWith.trimEnd();
+
+    const words = given
+      .split(/\s+|(?<=\.)(?=\p{Lu})/u)
+      .filter(Boolean)
+      .flatMap(word => (/^\p{Lu}{2,3}$/u.test(word) ? word.split('') : [word]));
+
+    if (options.initialize === 'false') {
+      // Only normalise names that are already initials
+      return words.map(w => (/^\p{Lu}\.?$/u.test(w) ? `${w[0]}${trimmedWith}` : w)).join(' ').trim();
+    }
+
+    return words.map(word => {
+      const pieces = word.split('-').filter(Boolean);
+      const initials = pieces.map(p => `${p.replace(/\./g, '')[0] ?? ''}${initializeWith}`);
+      return hyphen ? initials.map(i => i.trimEnd()).join('-') + (initializeWith.endsWith(' ') ? ' ' : '') : initials.join('');
+    }).join('').trim();
+  }
+
+  // ---------------------------------------------------------------------------
+  // Variables, terms and formatting
+  // ---------------------------------------------------------------------------
+
+  private hasVariable(ctx: RenderContext, variable: string): boolean {
+    if ((CSL_NAME_VARIABLES as readonly string[]).includes(variable)) {
+      return (ctx.item[variable as CslNameVariable]?.length ?? 0) > 0;
+    }
+    if ((CSL_DATE_VARIABLES as readonly string[]).includes(variable)) {
+      const date = ctx.item[variable as CslDateVariable];
+      return Boolean(date?.literal || date?.['date-parts']?.[0]?.length);
+    }
+    return this.variable(ctx, variable, undefined) !== '';
+  }
+
+  private variable(ctx: RenderContext, name: string | undefined, form: string | undefined): string {
+    if (!name || ctx.substituted.has(name)) return '';
+    switch (name) {
+      case 'citation-number':
+        return ctx.citationNumber ? String(ctx.citationNumber) : '';
+      case 'year-suffix':
+        return ctx.yearSuffix ?? '';
+      case 'locator':
+        return ctx.cite?.locator ? this.pageRange(ctx.cite.locator) : '';
+      case 'first-reference-note-number':
+        return ctx.firstNoteNumber ? String(ctx.firstNoteNumber) : '';
+      case 'page':
+        return ctx.item.page ? this.pageRange(ctx.item.page) : '';
+      case 'title':
+        if (form === 'short') {
+          return ctx.item['title-short'] ?? (ctx.item.title ?? '').split(/:\s/)[0];
+        }
+        return ctx.item.title ?? '';
+      case 'container-title':
+        return form === 'short'
+          ? ctx.item['container-title-short'] ?? ctx.item['container-title'] ?? ''
+          : ctx.item['container-title'] ?? '';
+      default:
+        return this.stringVariable(ctx.item, name);
+    }
+  }
+
+  private pageRange(value: string): string {
+    return formatPageRange(value, this.style.options['page-range-format'], this.term('page-range-delimiter', undefined, false) || '–');
+  }
+
+  private stringVariable(item: CslItem, name: string): string {
+    const value = (item as unknown as Record<string, unknown>)[name];
+    return typeof value === 'string' || typeof value === 'number' ? String(value).trim() : '';
+  }
+
+  private term(name: string, form: string | undefined, plural: boolean): string {
+    const forms = form === 'verb-short' ? ['verb-short', 'verb', undefined]
+      : form === 'symbol' ? ['symbol', 'short', undefined]
+        : form === 'short' ? ['short', undefined]
+          : form === 'verb' ? ['verb', undefined]
+            : [undefined];
+    for (const f of forms) {
+      const key = f ? `${name}/${f}` : name;
+      const term: CslTerm | undefined = this.style.terms.get(key) ?? EN_US_TERMS[key];
+      if (term) return plural && term.multiple ? term.multiple : term.single;
+    }
+    return '';
+  }
+
+  private ordinal(n: number): string {
+    const lastTwo = n % 100;
+    const key = lastTwo >= 11 && lastTwo <= 13 ? `ordinal-${lastTwo}` : `ordinal-${pad(n % 10, 2)}`;
+    const suffix = this.style.terms.get(key)?.single ?? EN_US_TERMS[key]?.single
+      ?? this.style.terms.get('ordinal')?.single ?? EN_US_TERMS.ordinal.single;
+    return `${n}${suffix}`;
+  }
+
+  /** text-case and strip-periods on a plain (unescaped) value */
+  private plainTransforms(value: string, attrs: Record<string, string>): string {
+    let result = textCase(value, attrs['text-case']);
+    if (attrs['strip-periods'] === 'true') result = result.replace(/\./g, '');
+    return result;
+  }
+
+  /** Quotes, font formatting, affixes and display for an element's output */
+  private decorate(out: string, attrs: Record<string, string>): string {
+    if (!out) return '';
+    let result = out;
+    if (attrs.quotes === 'true') {
+      result = `${escapeHtml(this.term('open-quote', undefined, false))}${result}${escapeHtml(this.term('close-quote', undefined, false))}`;
+    }
+    result = this.affix(this.format(result, attrs), attrs);
+    if (attrs.display === 'left-margin') result = `${result} `;
+    return result;
+  }
+
+  private format(out: string, attrs: Record<string, string>): string {
+    if (!out) return '';
+    let result = out;
+    if (attrs['font-style'] === 'italic' || attrs['font-style'] === 'oblique') result = `<i>${result}</i>`;
+    if (attrs['font-weight'] === 'bold') result = `<b>${result}</b>`;
+    if (attrs['font-variant'] === 'small-caps') result = `<span style="font-variant:small-caps">${result}</span>`;
+    if (attrs['text-decoration'] === 'underline') result = `<u>${result}</u>`;
+    if (attrs['vertical-align'] === 'sup') result = `<sup>${result}</sup>`;
+    else if (attrs['vertical-align'] === 'sub') result = `<sub>${result}</sub>`;
+    return result;
+  }
+
+  private affix(out: string, attrs: Record<string, string>): string {
+    if (!out) return '';
+    return `${escapeHtml(attrs.prefix ?? '')}${out}${escapeHtml(attrs.suffix ?? '')}`;
+  }
+
+  private inheritedOptions(element: CslNode): Record<string, string> {
+    return { ...this.pickNameOptions(this.style.options), ...this.pickNameOptions(element.attrs) };
+  }
+
+  private pickNameOptions(attrs: Record<string, string>): Record<string, string> {
+    const picked: Record<string, string> = {};
+    for (const key of INHERITABLE_NAME_OPTIONS) {
+      if (attrs[key] !== undefined) picked[key] = attrs[key];
+    }
+    // Sort keys use names-min / names-use-first to override et-al settings
+    if (attrs['names-min'] !== undefined) picked['et-al-min'] = attrs['names-min'];
+    if (attrs['names-use-first'] !== undefined) picked['et-al-use-first'] = attrs['names-use-first'];
+    return picked;
+  }
+
+  private child(node: CslNode, name: string): CslNode | undefined {
+    return node.children.find(c => c.name === name);
+  }
+
+  /** Punctuation clean-up shared by citations and bibliography entries */
+  private finalize(markup: string): string {
+    const tags = '((?:<[^>]+>)*)';
+    let result = markup;
+    const closeQuote = escapeHtml(this.term('close-quote', undefined, false));
+    if (closeQuote && (this.style.punctuationInQuote ?? EN_US_PUNCTUATION_IN_QUOTE)) {
+      result = result.replace(new RegExp(`${closeQuote}${tags}([.,])`, 'g'), `$2${closeQuote}$1`);
+    }
+    result = result
+      .replace(new RegExp(`([.?!])${tags}\\.(?!\\.)`, 'g'), '$1$2')
+      .replace(new RegExp(`([?!])${tags},`, 'g'), '$1$2')
+      .replace(new RegExp(`,${tags},`, 'g'), ',$1')
+      .replace(new RegExp(`([:;,])${tags}\\.`, 'g'), '$2.')
+      .replace(/ {2,}/g, ' ')
+      .replace(/ ([,.;:])/g, '$1');
+    return result.trim();
+  }
+
+  private toText(html: string): string {
+    return unescapeHtml(
+      html
+        .replace(/<\/?i>/g, '*')
+        .replace(/\*\*/g, '')
+        .replace(/<[^>]+>/g, '')
+    );
+  }
+}
@@ -0,0 +1,145 @@
+/**
+ * CSL style parsing.
+ *
+ * Reads a CSL 1.0.x style document into the element tree the processor
+ * walks, and rejects styles the processor cannot render: a missing
+ * `citation/layout`, an unknown style class, or a reference to a macro
+ * the style does not define.
+ */
+
+import * as cheerio from 'cheerio';
+import { AppError } from '../../../utils/app-error';
+import type { CslCitationFormat, CslNode, CslStyle, CslTerm } from './csl.types';
+
+interface XmlNode {
+  type: string;
+  name?: string;
+  data?: string;
+  attribs?: Record<string, string>;
+  children?: XmlNode[];
+}
+
+const CITATION_FORMATS: CslCitationFormat[] = ['author-date', 'author', 'numeric', 'label', 'note'];
+
+function localName(node: XmlNode): string {
+  return (node.name ?? '').replace(/^[\w-]+:/, '');
+}
+
+function toCslNode(node: XmlNode): CslNode {
+  const children = (node.children ?? []).filter(child => child.type === 'tag');
+  const result: CslNode = {
+    name: localName(node),
+    attrs: { ...(node.attribs ?? {}) },
+    children: children.map(toCslNode),
+  };
+  if (children.length === 0) {
+    const text = (node.children ?? []).filter(child => child.type === 'text').map(child => child.data ?? '').join('');
+    if (text.trim()) result.text = text.trim();
+  }
+  return result;
+}
+
+function child(node: CslNode | undefined, name: string): CslNode | undefined {
+  return node?.children.find(c => c.name === name);
+}
+
+function collectMacroRefs(node: CslNode, refs: Set<string>): void {
+  if (node.attrs.macro) refs.add(node.attrs.macro);
+  node.children.forEach(c => collectMacroRefs(c, refs));
+}
+
+function usesVariable(node: CslNode, variable: string): boolean {
+  return node.attrs.variable?.split(/\s+/).includes(variable) || node.children.some(c => usesVariable(c, variable));
+}
+
+function parseTerms(locale: CslNode | undefined, terms: Map<string, CslTerm>): void {
+  const termsNode = child(locale, 'terms');
+  for (const term of termsNode?.children ?? []) {
+    if (term.name !== 'term' || !term.attrs.name) continue;
+    const form = term.attrs.form && term.attrs.form !== 'long' ? `/${term.attrs.form}` : '';
+    const single = child(term, 'single')?.text ?? term.text ?? '';
+    const multiple = child(term, 'multiple')?.text;
+    terms.set(`${term.attrs.name}${form}`, { single, multiple });
+  }
+}
+
+/**
+ * Parse a CSL style document.
+ * @throws AppError 400 (INVALID_CSL_STYLE) when the document is not a usable CSL style
+ */
+export function parseCslStyle(xml: string): CslStyle {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  const rootElements = ($.root()[0] as unknown as XmlNode).children ?? [];
+  const styleElement = rootElements.find(n => n.type === 'tag' && localName(n) === 'style');
+  if (!styleElement) {
+    throw AppError.badRequest('Invalid CSL style: the document has no <style> root element', 'INVALID_CSL_STYLE');
+  }
+  const root = toCslNode(styleElement);
+
+  const problems: string[] = [];
+  const styleClass = root.attrs.class;
+  if (styleClass !== 'in-text' && styleClass !== 'note') {
+    problems.push(`style class must be "in-text" or "note" (got "${styleClass ?? ''}")`);
+  }
+
+  const citation = child(root, 'citation');
+  if (!citation || !child(citation, 'layout')) {
+    problems.push('missing <citation> with a <layout>');
+  }
+  const bibliography = child(root, 'bibliography');
+  if (bibliography && !child(bibliography, 'layout')) {
+    problems.push('<bibliography> has no <layout>');
+  }
+
+  const macros = new Map<string, CslNode>();
+  for (const macro of root.children.filter(c => c.name === 'macro')) {
+    if (macro.attrs.name) macros.set(macro.attrs.name, macro);
+  }
+  const macroRefs = new Set<string>();
+  collectMacroRefs(root, macroRefs);
+  for (const ref of macroRefs) {
+    if (!macros.has(ref)) problems.push(`undefined macro "${ref}"`);
+  }
+
+  if (problems.length > 0 || !citation) {
+    throw AppError.badRequest(`Invalid CSL style: ${problems.join('; ')}`, 'INVALID_CSL_STYLE');
+  }
+
+  const info = child(root, 'info');
+  const title = child(info, 'title')?.text ?? 'Untitled CSL style';
+  const declaredFormat = info?.children
+    .find(c => c.name === 'category' && c.attrs['citation-format'])?.attrs['citation-format'] as CslCitationFormat | undefined;
+  const citationFormat: CslCitationFormat = declaredFormat && CITATION_FORMATS.includes(declaredFormat)
+    ? declaredFormat
+    : styleClass === 'note'
+      ? 'note'
+      : usesVariable(citation, 'citation-number') ? 'numeric' : 'author-date';
+
+  const terms = new Map<string, CslTerm>();
+  const dateFormats = new Map<string, CslNode>();
+  let punctuationInQuote: boolean | undefined;
+  for (const locale of root.children.filter(c => c.name === 'locale')) {
+    const lang = locale.attrs['xml:lang'];
+    if (lang && !lang.startsWith('en')) continue;
+    parseTerms(locale, terms);
+    for (const date of locale.children.filter(c => c.name === 'date' && c.attrs.form)) {
+      dateFormats.set(date.attrs.form, date);
+    }
+    const punctuation = child(locale, 'style-options')?.attrs['punctuation-in-quote'];
+    if (punctuation !== undefined) punctuationInQuote = punctuation === 'true';
+  }
+
+  return {
+    id: child(info, 'id')?.text,
+    title,
+    class: styleClass as CslStyle['class'],
+    citationFormat,
+    options: root.attrs,
+    macros,
+    citation,
+    bibliography,
+    terms,
+    dateFormats,
+    punctuationInQuote,
+  };
+}
@@ -0,0 +1,166 @@
+/**
+ * Citation Style Language (CSL 1.0.2) Type Definitions
+ *
+ * Items follow the CSL-JSON data model so styles written for other CSL
+ * processors read the same variables here.
+ */
+
+/** CSL item types the built-in styles distinguish between */
+export type CslItemType =
+  | 'article'
+  | 'article-journal'
+  | 'article-magazine'
+  | 'article-newspaper'
+  | 'book'
+  | 'chapter'
+  | 'paper-conference'
+  | 'webpage'
+  | 'thesis'
+  | 'report'
+  | 'patent'
+  | 'legal_case'
+  | 'personal_communication';
+
+export interface CslName {
+  family?: string;
+  given?: string;
+  suffix?: string;
+  'non-dropping-particle'?: string;
+  /** Organisation or otherwise unsplittable name */
+  literal?: string;
+}
+
+export interface CslDate {
+  /** [[year, month?, day?]] — a second entry makes a range */
+  'date-parts'?: Array<Array<number>>;
+  literal?: string;
+}
+
+export const CSL_NAME_VARIABLES = ['author', 'editor', 'translator', 'container-author', 'collection-editor'] as const;
+export type CslNameVariable = (typeof CSL_NAME_VARIABLES)[number];
+
+export const CSL_DATE_VARIABLES = ['issued', 'accessed', 'event-date'] as const;
+export type CslDateVariable = (typeof CSL_DATE_VARIABLES)[number];
+
+export interface CslItem {
+  id: string;
+  type: CslItemType;
+  author?: CslName[];
+  editor?: CslName[];
+  translator?: CslName[];
+  'container-author'?: CslName[];
+  'collection-editor'?: CslName[];
+  issued?: CslDate;
+  accessed?: CslDate;
+  'event-date'?: CslDate;
+  title?: string;
+  'title-short'?: string;
+  'container-title'?: string;
+  'container-title-short'?: string;
+  'collection-title'?: string;
+  volume?: string;
+  issue?: string;
+  page?: string;
+  edition?: string;
+  publisher?: string;
+  'publisher-place'?: string;
+  event?: string;
+  'event-place'?: string;
+  genre?: string;
+  medium?: string;
+  number?: string;
+  DOI?: string;
+  URL?: string;
+  ISBN?: string;
+  ISSN?: string;
+  PMID?: string;
+  note?: string;
+}
+
+/** One cited item inside an in-text citation */
+export interface CslCiteItem {
+  id: string;
+  locator?: string;
+  /** Locator term, e.g. "page", "chapter"; defaults to "page" */
+  label?: string;
+  prefix?: string;
+  suffix?: string;
+}
+
+/**
+ * An in-text citation: one or more cited items at one place in the text.
+ * `narrative` renders the author outside the citation, e.g. "Smith (2020)".
+ */
+export interface CslCitationCluster {
+  id?: string;
+  items: CslCiteItem[];
+  mode?: 'parenthetical' | 'narrative';
+}
+
+export interface CslRenderOptions {
+  /** Number items in the order given instead of order of first citation */
+  numberByItemOrder?: boolean;
+  /** Leave `citation-number` out of bibliography entries, e.g. for per-entry storage */
+  omitCitationNumbers?: boolean;
+}
+
+/** How a style cites in the text, from its `info/category[@citation-format]` */
+export type CslCitationFormat = 'author-date' | 'author' | 'numeric' | 'label' | 'note';
+
+export interface FormattedCitation {
+  clusterId?: string;
+  /** Plain text; italics are marked with *asterisks* */
+  text: string;
+  html: string;
+  /**
+   * Note styles only: the footnote number. `text`/`html` then hold the
+   * note itself and `marker` the superscript reference in the text.
+   */
+  noteNumber?: number;
+  marker?: string;
+}
+
+export interface FormattedBibliographyEntry {
+  id: string;
+  text: string;
+  html: string;
+  citationNumber: number;
+}
+
+export interface FormattedBibliography {
+  entries: FormattedBibliographyEntry[];
+  hangingIndent: boolean;
+  secondFieldAlign: boolean;
+}
+
+/** A parsed CSL style element */
+export interface CslNode {
+  name: string;
+  attrs: Record<string, string>;
+  children: CslNode[];
+  /** Text content of leaf elements such as `term` and `single` */
+  text?: string;
+}
+
+export interface CslTerm {
+  single: string;
+  multiple?: string;
+}
+
+export interface CslStyle {
+  id?: string;
+  title: string;
+  class: 'in-text' | 'note';
+  citationFormat: CslCitationFormat;
+  /** Root `style` attributes, inherited by `citation` and `bibliography` */
+  options: Record<string, string>;
+  macros: Map<string, CslNode>;
+  citation: CslNode;
+  bibliography?: CslNode;
+  /** Terms from the style's own `locale` element, keyed `name` or `name/form` */
+  terms: Map<string, CslTerm>;
+  /** Localized date formats from the style's `locale`, keyed by form */
+  dateFormats: Map<string, CslNode>;
+  /** `locale/style-options[@punctuation-in-quote]`, when the style sets it */
+  punctuationInQuote?: boolean;
+}
@@ -0,0 +1,29 @@
+/**
+ * CSL Formatting - Central Exports
+ *
+ * Deterministic reference and in-text citation formatting with Citation
+ * Style Language styles.
+ */
+
+export {
+  cslFormatterService,
+  MAX_CSL_STYLE_BYTES,
+  type TenantCslStyle,
+} from './csl-formatter.service';
+
+export { CslProcessor, formatPageRange } from './csl-processor';
+export { parseCslStyle } from './csl-style';
+export { BUILT_IN_CSL_STYLES, resolveBuiltInStyle } from './styles';
+
+export {
+  citationComponentToCslItem,
+  compactCslItem,
+  detectedReferenceToCslItem,
+  normalizeDoi,
+  parseNameString,
+  referenceEntryToCslItem,
+  sourceTypeToCslType,
+  yearToCslDate,
+} from './csl-item.mapper';
+
+export * from './csl.types';
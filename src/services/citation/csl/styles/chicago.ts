@@ -0,0 +1,238 @@
+/**
+ * Chicago Manual of Style 17th edition, notes and bibliography.
+ */
+export const CHICAGO_CSL = `<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="note" version="1.0" demote-non-dropping-particle="display-and-sort" page-range-format="chicago">
+  <info>
+    <title>Chicago Manual of Style 17th edition (note)</title>
+    <id>chicago-note-bibliography</id>
+    <category citation-format="note"/>
+  </info>
+  <macro name="contributors-note">
+    <names variable="author">
+      <name and="text" delimiter=", "/>
+      <label form="short" prefix=", "/>
+      <substitute>
+        <names variable="editor"/>
+      </substitute>
+    </names>
+  </macro>
+  <macro name="contributors-short">
+    <names variable="author">
+      <name form="short" and="text" delimiter=", "/>
+      <substitute>
+        <names variable="editor"/>
+      </substitute>
+    </names>
+  </macro>
+  <macro name="contributors">
+    <names variable="author">
+      <name name-as-sort-order="first" and="text" delimiter=", " delimiter-precedes-last="always"/>
+      <label form="short" prefix=", "/>
+      <substitute>
+        <names variable="editor"/>
+      </substitute>
+    </names>
+  </macro>
+  <macro name="title">
+    <choose>
+      <if type="book report thesis" match="any">
+        <text variable="title" font-style="italic"/>
+      </if>
+      <else>
+        <text variable="title" quotes="true"/>
+      </else>
+    </choose>
+  </macro>
+  <macro name="title-short">
+    <choose>
+      <if type="book report thesis" match="any">
+        <text variable="title" form="short" font-style="italic"/>
+      </if>
+      <else>
+        <text variable="title" form="short" quotes="true"/>
+      </else>
+    </choose>
+  </macro>
+  <macro name="issued-year">
+    <choose>
+      <if variable="issued">
+        <date variable="issued">
+          <date-part name="year"/>
+        </date>
+      </if>
+      <else>
+        <text term="no date" form="short"/>
+      </else>
+    </choose>
+  </macro>
+  <macro name="container-journal">
+    <group delimiter=", ">
+      <group delimiter=" ">
+        <text variable="container-title" font-style="italic"/>
+        <text variable="volume"/>
+      </group>
+      <group delimiter=" ">
+        <text term="issue" form="short"/>
+        <text variable="issue"/>
+      </group>
+    </group>
+  </macro>
+  <macro name="container-note">
+    <choose>
+      <if type="article-journal article-magazine article-newspaper" match="any">
+        <text macro="container-journal"/>
+      </if>
+      <else-if type="chapter paper-conference" match="any">
+        <group delimiter=", ">
+          <group delimiter=" ">
+            <text term="in"/>
+            <text variable="container-title" font-style="italic"/>
+          </group>
+          <names variable="editor">
+            <label form="verb-short" suffix=" "/>
+            <name and="text" delimiter=", "/>
+          </names>
+        </group>
+      </else-if>
+      <else-if type="webpage">
+        <group delimiter=", ">
+          <text variable="container-title"/>
+          <text macro="issued-year"/>
+        </group>
+      </else-if>
+    </choose>
+  </macro>
+  <macro name="publication">
+    <group delimiter=", ">
+      <group delimiter=": ">
+        <text variable="publisher-place"/>
+        <text variable="publisher"/>
+      </group>
+      <text macro="issued-year"/>
+    </group>
+  </macro>
+  <macro name="publication-note">
+    <choose>
+      <if type="article-journal article-magazine article-newspaper" match="any">
+        <text macro="issued-year"/>
+      </if>
+      <else-if type="webpage"/>
+      <else>
+        <text macro="publication"/>
+      </else>
+    </choose>
+  </macro>
+  <macro name="locator-note">
+    <choose>
+      <if type="article-journal article-magazine article-newspaper" match="any">
+        <choose>
+          <if variable="locator">
+            <text variable="locator" prefix=": "/>
+          </if>
+          <else>
+            <text variable="page" prefix=": "/>
+          </else>
+        </choose>
+      </if>
+      <else>
+        <text variable="locator" prefix=", "/>
+      </else>
+    </choose>
+  </macro>
+  <macro name="container-bibliography">
+    <choose>
+      <if type="article-journal article-magazine article-newspaper" match="any">
+        <group>
+          <group delimiter=" ">
+            <text macro="container-journal"/>
+            <text macro="issued-year" prefix="(" suffix=")"/>
+          </group>
+          <text variable="page" prefix=": "/>
+        </group>
+      </if>
+      <else-if type="chapter paper-conference" match="any">
+        <group delimiter=". ">
+          <group delimiter=", ">
+            <group delimiter=" ">
+              <text term="in" text-case="capitalize-first"/>
+              <text variable="container-title" font-style="italic"/>
+            </group>
+            <names variable="editor">
+              <label form="verb" suffix=" "/>
+              <name and="text" delimiter=", "/>
+            </names>
+            <text variable="page"/>
+          </group>
+          <text macro="publication"/>
+        </group>
+      </else-if>
+      <else-if type="webpage">
+        <group delimiter=". ">
+          <text variable="container-title"/>
+          <text macro="issued-year"/>
+        </group>
+      </else-if>
+      <else>
+        <text macro="publication"/>
+      </else>
+    </choose>
+  </macro>
+  <macro name="access">
+    <choose>
+      <if variable="DOI">
+        <text variable="DOI" prefix="https://doi.org/"/>
+      </if>
+      <else>
+        <text variable="URL"/>
+      </else>
+    </choose>
+  </macro>
+  <citation et-al-min="4" et-al-use-first="1">
+    <layout suffix="." delimiter="; ">
+      <choose>
+        <if position="ibid-with-locator">
+          <group delimiter=", ">
+            <text term="ibid" text-case="capitalize-first"/>
+            <text variable="locator"/>
+          </group>
+        </if>
+        <else-if position="ibid">
+          <text term="ibid" text-case="capitalize-first"/>
+        </else-if>
+        <else-if position="subsequent">
+          <group delimiter=", ">
+            <text macro="contributors-short"/>
+            <text macro="title-short"/>
+            <text variable="locator"/>
+          </group>
+        </else-if>
+        <else>
+          <group delimiter=", ">
+            <text macro="contributors-note"/>
+            <text macro="title"/>
+            <text macro="container-note"/>
+          </group>
+          <text macro="publication-note" prefix=" (" suffix=")"/>
+          <text macro="locator-note"/>
+          <text macro="access" prefix=", "/>
+        </else>
+      </choose>
+    </layout>
+  </citation>
+  <bibliography hanging-indent="true" et-al-min="11" et-al-use-first="7" subsequent-author-substitute="———">
+    <sort>
+      <key macro="contributors"/>
+      <key variable="title"/>
+    </sort>
+    <layout suffix=".">
+      <group delimiter=". ">
+        <text macro="contributors"/>
+        <text macro="title"/>
+        <text macro="container-bibliography"/>
+        <text macro="access"/>
+      </group>
+    </layout>
+  </bibliography>
+</style>
+`;
@@ -0,0 +1,41 @@
+/**
+ * Built-in CSL styles, one per supported citation style.
+ */
+
+import type { CitationStyle } from '../../ai-format-converter.service';
+import { AMA_CSL } from './ama';
+import { APA_CSL } from './apa';
+import { CHICAGO_CSL } from './chicago';
+import { HARVARD_CSL } from './harvard';
+import { IEEE_CSL } from './ieee';
+import { MLA_CSL } from './mla';
+import { VANCOUVER_CSL } from './vancouver';
+
+export const BUILT_IN_CSL_STYLES: Record<CitationStyle, string> = {
+  APA: APA_CSL,
+  MLA: MLA_CSL,
+  Chicago: CHICAGO_CSL,
+  Vancouver: VANCOUVER_CSL,
+  IEEE: IEEE_CSL,
+  Harvard: HARVARD_CSL,
+  AMA: AMA_CSL,
+};
+
+const STYLE_ALIASES: Array<[RegExp, CitationStyle]> = [
+  [/^apa/, 'APA'],
+  [/^mla/, 'MLA'],
+  [/^(chicago|turabian)/, 'Chicago'],
+  [/^vancouver/, 'Vancouver'],
+  [/^ieee/, 'IEEE'],
+  [/^harvard/, 'Harvard'],
+  [/^(ama|american-medical)/, 'AMA'],
+];
+
+/**
+ * Resolve a style name or code ("APA", "apa7", "chicago17", "CHICAGO") to
+ * a built-in style, or undefined when it names no built-in style.
+ */
+export function resolveBuiltInStyle(code: string): CitationStyle | undefined {
+  const normalized = code.trim().toLowerCase();
+  return STYLE_ALIASES.find(([pattern]) => pattern.test(normalized))?.[1];
+}
@@ -21,6 +21,13 @@ import { withMemoryTracking, FileTooLargeError } from '../../utils/memory-safe-p
 import { normalizeSuperscripts } from '../../utils/unicode';
 // InTextCitation type reserved for future use
 import { referenceStyleUpdaterService } from './reference-style-updater.service';
+import {
+  findReferenceManagerFields,
+  readFieldCitation,
+  reconcileReferenceManagerFields,
+  type FieldCodeHandling,
+  type ReferenceManagerCitation,
+} from './field-codes';
 
 // Mammoth style map for academic/journal DOCX files
 // Maps custom Word styles (used by publishers like Mattioli, Elsevier, etc.) to semantic HTML
@@ -505,6 +512,10 @@ export interface ReplacementSummary {
   referencesReordered: number;
   referencesDeleted: number;
   swapped: Array<{ refA: string; refB: string }>;
+  /** Reference manager fields kept linked with updated citation text */
+  fieldCodesUpdated: number;
+  /** Reference manager fields turned into plain text */
+  fieldCodesUnlinked: number;
 }
 
 export interface ReferenceEntry {
@@ -637,6 +648,8 @@ class DOCXProcessorService {
    *   - deletedRefTexts: Full reference entry text patterns to strike through
    *   - editedRefs: Reference entry text replacements {oldText, newText}
    * @param acceptChanges - If true, apply changes cleanly without Track Changes markup
+   * @param fieldCodeHandling - Zotero / Mendeley / EndNote citation fields:
+   *   'keep' keeps them linked (unlinking deleted citations), 'unlink' turns them into plain text
    */
   async replaceCitationsWithTrackChanges(
     originalBuffer: Buffer,
@@ -647,7 +660,8 @@ class DOCXProcessorService {
       deletedRefTexts?: string[];  // Full reference entry text to strike through
       editedRefs?: Array<{ oldText: string; newText: string }>;  // Reference entry text replacements
     },
-    acceptChanges: boolean = false  // If true, apply changes cleanly without Track Changes markup
+    acceptChanges: boolean = false,  // If true, apply changes cleanly without Track Changes markup
+    fieldCodeHandling: FieldCodeHandling = 'keep'
   ): Promise<{ buffer: Buffer; summary: ReplacementSummary }> {
     const fileSize = originalBuffer.length;
 
@@ -678,7 +692,9 @@ class DOCXProcessorService {
         unchanged: 0,
         referencesReordered: 0,
         referencesDeleted: 0,
-        swapped: []
+        swapped: [],
+        fieldCodesUpdated: 0,
+        fieldCodesUnlinked: 0
       };
 
       const zip = await JSZip.loadAsync(originalBuffer);
@@ -754,6 +770,19 @@ class DOCXProcessorService {
         orphanedSet.delete(oldText);
       }
 
+      // PHASE 0: Reference manager fields must agree with the edits before the text changes
+      const fieldResult = this.reconcileFieldCodes(
+        bodyXML,
+        referencesXML,
+        new Map([...changeMap].map(([oldText, { newText }]) => [oldText, newText])),
+        orphanedSet,
+        fieldCodeHandling
+      );
+      bodyXML = fieldResult.bodyXML;
+      referencesXML = fieldResult.referencesXML;
+      summary.fieldCodesUpdated = fieldResult.updated;
+      summary.fieldCodesUnlinked = fieldResult.unlinked;
+
       // PHASE 1: Replace all citations using a universal approach
       // This handles ANY document structure by working with the text content directly
       logger.info('[DOCX Processor] Phase 1: Replacing citations (universal approach)');
@@ -954,6 +983,76 @@ class DOCXProcessorService {
     }); // End withMemoryTracking
   }
 
+  /**
+   * Keep reference manager fields (Zotero, Mendeley, EndNote) consistent
+   * with in-text citation edits, or unlink them. Bibliography fields in the
+   * References section are only touched when unlinking.
+   */
+  private reconcileFieldCodes(
+    bodyXML: string,
+    referencesXML: string,
+    changed: Map<string, string>,
+    removed: Iterable<string>,
+    handling: FieldCodeHandling
+  ): { bodyXML: string; referencesXML: string; updated: number; unlinked: number } {
+    const body = reconcileReferenceManagerFields(bodyXML, { changed, removed }, handling);
+    const references = handling === 'unlink' && referencesXML
+      ? reconcileReferenceManagerFields(referencesXML, { changed: new Map(), removed: [] }, handling)
+      : { xml: referencesXML, updated: 0, unlinked: 0 };
+
+    if (body.updated + body.unlinked + references.unlinked > 0) {
+      logger.info(`[DOCX Processor] Reference manager fields (${handling}): ${body.updated} updated, ${body.unlinked + references.unlinked} unlinked`);
+    }
+    return {
+      bodyXML: body.xml,
+      referencesXML: references.xml,
+      updated: body.updated,
+      unlinked: body.unlinked + references.unlinked,
+    };
+  }
+
+  /**
+   * Read Zotero / Mendeley / EndNote citation fields from the document body,
+   * footnotes and endnotes. Their embedded item data is the reference
+   * manager's own record of each cited work.
+   */
+  async extractReferenceManagerCitations(buffer: Buffer): Promise<ReferenceManagerCitation[]> {
+    checkCircuitBreaker(buffer.length);
+    if (buffer.length > SECURITY_LIMITS.MAX_DOCX_SIZE) {
+      throw new FileTooLargeError(
+        buffer.length,
+        SECURITY_LIMITS.MAX_DOCX_SIZE,
+        `DOCX file too large: ${Math.round(buffer.length / 1024 / 1024)}MB`
+      );
+    }
+
+    const zip = await JSZip.loadAsync(buffer);
+    try {
+      const structureValidation = validateDOCXStructure(zip);
+      if (!structureValidation.valid) {
+        throw AppError.badRequest(`Invalid DOCX structure: ${structureValidation.error}`, 'INVALID_DOCX_STRUCTURE');
+      }
+
+      const citations: ReferenceManagerCitation[] = [];
+      for (const part of ['word/document.xml', 'word/footnotes.xml', 'word/endnotes.xml']) {
+        const xml = await zip.file(part)?.async('string');
+        if (!xml || xml.length > SECURITY_LIMITS.MAX_XML_SIZE) continue;
+        for (const entry of findReferenceManagerFields(sanitizeXML(xml))) {
+          const citation = readFieldCitation(entry);
+          if (citation) citations.push(citation);
+        }
+      }
+
+      if (citations.length > 0) {
+        const managers = [...new Set(citations.map(citation => citation.manager))].join(', ');
+        logger.info(`[DOCX Processor] Found ${citations.length} reference manager citations (${managers})`);
+      }
+      return citations;
+    } finally {
+      cleanupZip(zip);
+    }
+  }
+
   private escapeXml(text: string): string {
     return text
       .replace(/&/g, '&amp;')
@@ -2710,11 +2809,13 @@ class DOCXProcessorService {
    * Apply changes to a DOCX document with Track Changes markup
    * @param originalBuffer - The original DOCX buffer
    * @param changes - Array of changes to apply
+   * @param fieldCodeHandling - Zotero / Mendeley / EndNote citation fields (see replaceCitationsWithTrackChanges)
    * @returns Modified DOCX buffer with track changes
    */
   async applyChanges(
     originalBuffer: Buffer,
-    changes: Array<{ type: string; beforeText: string; afterText: string; metadata?: Record<string, unknown> | null }>
+    changes: Array<{ type: string; beforeText: string; afterText: string; metadata?: Record<string, unknown> | null }>,
+    fieldCodeHandling: FieldCodeHandling = 'keep'
   ): Promise<Buffer> {
     if (changes.length === 0) {
       logger.info('[DOCXProcessor] No changes to apply, returning original buffer');
@@ -2801,6 +2902,23 @@ class DOCXProcessorService {
 
         logger.info(`[DOCXProcessor] Body length: ${bodyXML.length}, References length: ${referencesXML.length}`);
 
+        // Reference manager fields must agree with the in-text edits before the text changes
+        const changedCitations = new Map<string, string>();
+        const deletedCitations: string[] = [];
+        for (const change of changes) {
+          if (!change.beforeText) continue;
+          if ((change.type === 'RENUMBER' || change.type === 'INTEXT_STYLE_CONVERSION') &&
+              change.afterText && !change.beforeText.match(/^\[\d+\]/)) {
+            changedCitations.set(change.beforeText, change.afterText);
+          } else if (change.type === 'DELETE' && !change.beforeText.match(/^\[(\d+)\]\s*(.+)$/) &&
+              (change.metadata as Record<string, unknown> | null | undefined)?.isFootnoteStyle !== true) {
+            deletedCitations.push(change.beforeText.trim());
+          }
+        }
+        const fieldResult = this.reconcileFieldCodes(bodyXML, referencesXML, changedCitations, deletedCitations, fieldCodeHandling);
+        bodyXML = fieldResult.bodyXML;
+        referencesXML = fieldResult.referencesXML;
+
         // Separate reference section changes from body changes
         const referenceSectionPlaceholders = new Map<string, { type: string; oldText: string; newText: string }>();
         let refPhIndex = 0;
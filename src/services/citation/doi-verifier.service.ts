@@ -1,4 +1,27 @@
-// Stub service - TODO: implement
-export const doiVerifierService = {
-  verifyDOI: async () => ({ valid: false, metadata: null })
-};
+/**
+ * DOI Verifier Service
+ * Confirms that a DOI belongs to a registered work, using the metadata
+ * resolver chain (CrossRef, then PubMed)
+ */
+
+import type { EnrichedMetadata } from './crossref.service';
+import { metadataResolverService, normalizeDoiIdentifier } from './metadata-sources';
+
+export interface DoiVerification {
+  valid: boolean;
+  metadata: EnrichedMetadata | null;
+}
+
+class DoiVerifierService {
+  async verifyDOI(doi: string): Promise<DoiVerification> {
+    const cleanDoi = normalizeDoiIdentifier(doi);
+    if (!cleanDoi) {
+      return { valid: false, metadata: null };
+    }
+
+    const metadata = await metadataResolverService.resolve({ doi: cleanDoi });
+    return { valid: metadata !== null, metadata };
+  }
+}
+
+export const doiVerifierService = new DoiVerifierService();
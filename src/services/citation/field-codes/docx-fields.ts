@@ -0,0 +1,230 @@
+/**
+ * Word field scanning for WordprocessingML parts (document.xml, footnotes.xml).
+ *
+ * Finds complex fields (`w:fldChar` begin/separate/end around `w:instrText`
+ * runs, possibly nested) and simple fields (`w:fldSimple`), and edits them in
+ * place: unlinking a field keeps its displayed result as plain runs, and an
+ * instruction can be rewritten without touching the result.
+ */
+
+export interface DocxField {
+  kind: 'complex' | 'simple';
+  /** Field instruction with XML entities decoded, e.g. "ADDIN ZOTERO_ITEM CSL_CITATION {...}" */
+  instruction: string;
+  /** Text the field currently displays */
+  resultText: string;
+  /** `w:fldData` payloads of this field and of fields nested in its instruction */
+  data: string[];
+  /** Offset of the opening `w:fldChar` / `w:fldSimple` element */
+  start: number;
+  /** Offset just past the closing `w:fldChar` / `w:fldSimple` element */
+  end: number;
+  /** Markup to remove when unlinking (everything except the result runs) */
+  unlinkRanges: Array<[number, number]>;
+  /** Content ranges of the elements holding the instruction text */
+  instructionRanges: Array<[number, number]>;
+}
+
+interface FieldFrame {
+  kind: 'complex' | 'simple';
+  start: number;
+  inResult: boolean;
+  instruction: string[];
+  instructionRanges: Array<[number, number]>;
+  result: string[];
+  data: string[];
+  separateEnd?: number;
+  openEnd?: number;
+}
+
+interface XmlEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/** Bounded element bodies keep scanning linear on malformed input */
+const FIELD_TOKEN_PATTERN = new RegExp(
+  [
+    '<w:fldChar\\b([^>]{0,500}?)(?:/>|>((?:(?!</w:fldChar>)[\\s\\S]){0,2000000})</w:fldChar>)',
+    '<w:instrText(?:\\s[^>/]{0,500})?>([^<]{0,100000})</w:instrText>',
+    '<w:t(?:\\s[^>]{0,500})?>([^<]{0,100000})</w:t>',
+    '<w:fldSimple\\b([^>]{0,100000}?)(/?)>',
+    '</w:fldSimple>',
+  ].join('|'),
+  'g'
+);
+
+const XML_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+export function decodeXmlText(text: string): string {
+  return text.replace(/&(#x[0-9a-fA-F]+|#\d+|amp|lt|gt|quot|apos);/g, (_match, entity: string) => {
+    if (entity.startsWith('#x')) return String.fromCodePoint(parseInt(entity.slice(2), 16));
+    if (entity.startsWith('#')) return String.fromCodePoint(parseInt(entity.slice(1), 10));
+    return XML_ENTITIES[entity];
+  });
+}
+
+export function encodeXmlText(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * List the fields in a WordprocessingML part, innermost first (a field is
+ * reported when it closes)
+ */
+export function findDocxFields(xml: string): DocxField[] {
+  const fields: DocxField[] = [];
+  const stack: FieldFrame[] = [];
+  const top = () => stack[stack.length - 1];
+
+  const close = (frame: FieldFrame, unlinkRanges: Array<[number, number]>, end: number) => {
+    const field: DocxField = {
+      kind: frame.kind,
+      instruction: frame.instruction.join('').trim(),
+      resultText: frame.result.join(''),
+      data: frame.data,
+      start: frame.start,
+      end,
+      unlinkRanges,
+      instructionRanges: frame.instructionRanges,
+    };
+    fields.push(field);
+    // EndNote keeps long citation data in a field nested in the instruction
+    const parent = top();
+    if (parent && !parent.inResult) parent.data.push(...frame.data);
+  };
+
+  FIELD_TOKEN_PATTERN.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = FIELD_TOKEN_PATTERN.exec(xml)) !== null) {
+    const [token, fldCharAttrs, fldCharBody, instrText, text, simpleAttrs, simpleSelfClosing] = match;
+    const index = match.index;
+    const tokenEnd = index + token.length;
+
+    if (fldCharAttrs !== undefined) {
+      const type = fldCharAttrs.match(/w:fldCharType="(\w+)"/)?.[1];
+      if (type === 'begin') {
+        const data = fldCharBody?.match(/<w:fldData\b[^>]*>([^<]*)<\/w:fldData>/)?.[1];
+        stack.push({
+          kind: 'complex',
+          start: index,
+          inResult: false,
+          instruction: [],
+          instructionRanges: [],
+          result: [],
+          data: data ? [data.replace(/\s+/g, '')] : [],
+        });
+      } else if (type === 'separate') {
+        const frame = top();
+        if (frame?.kind === 'complex' && !frame.inResult) {
+          frame.inResult = true;
+          frame.separateEnd = tokenEnd;
+        }
+      } else if (type === 'end') {
+        const frame = top();
+        if (frame?.kind !== 'complex') continue;
+        stack.pop();
+        close(
+          frame,
+          frame.separateEnd !== undefined ? [[frame.start, frame.separateEnd], [index, tokenEnd]] : [[frame.start, tokenEnd]],
+          tokenEnd
+        );
+      }
+    } else if (instrText !== undefined) {
+      const frame = top();
+      if (frame?.kind === 'complex' && !frame.inResult) {
+        frame.instruction.push(decodeXmlText(instrText));
+        const contentStart = index + token.indexOf('>') + 1;
+        frame.instructionRanges.push([contentStart, contentStart + instrText.length]);
+      }
+    } else if (text !== undefined) {
+      // Nested field results are part of the enclosing field's result too
+      for (const frame of stack) {
+        if (frame.inResult) frame.result.push(decodeXmlText(text));
+      }
+    } else if (simpleAttrs !== undefined) {
+      const instr = /w:instr="([^"]*)"/.exec(simpleAttrs);
+      const frame: FieldFrame = {
+        kind: 'simple',
+        start: index,
+        inResult: true,
+        instruction: instr ? [decodeXmlText(instr[1])] : [],
+        instructionRanges: [],
+        result: [],
+        data: [],
+        openEnd: tokenEnd,
+      };
+      if (instr) {
+        const valueStart = index + '<w:fldSimple'.length + instr.index + 'w:instr="'.length;
+        frame.instructionRanges.push([valueStart, valueStart + instr[1].length]);
+      }
+      if (simpleSelfClosing) {
+        close(frame, [[index, tokenEnd]], tokenEnd);
+      } else {
+        stack.push(frame);
+      }
+    } else {
+      // </w:fldSimple>
+      const position = stack.map(frame => frame.kind).lastIndexOf('simple');
+      if (position === -1) continue;
+      const [frame] = stack.splice(position, 1);
+      close(frame, [[frame.start, frame.openEnd!], [index, tokenEnd]], tokenEnd);
+    }
+  }
+
+  return fields;
+}
+
+function applyEdits(xml: string, edits: XmlEdit[]): string {
+  const ordered = [...edits].sort((a, b) => a.start - b.start || b.end - a.end);
+  const merged: XmlEdit[] = [];
+  for (const edit of ordered) {
+    const last = merged[merged.length - 1];
+    // Skip edits inside markup that is already being removed (nested fields)
+    if (last && edit.start < last.end) {
+      if (last.text === '' && edit.text === '') last.end = Math.max(last.end, edit.end);
+      continue;
+    }
+    merged.push({ ...edit });
+  }
+  let result = xml;
+  for (let i = merged.length - 1; i >= 0; i--) {
+    const { start, end, text } = merged[i];
+    result = result.slice(0, start) + text + result.slice(end);
+  }
+  return result;
+}
+
+/** Runs left without content once field characters are removed */
+const EMPTY_RUN_PATTERN = /<w:r(?:\s[^>]{0,500})?>(?:<w:rPr>(?:(?!<\/w:rPr>)[\s\S]){0,2000}<\/w:rPr>)?<\/w:r>/g;
+
+/**
+ * Turn fields into plain text: the displayed result stays, the field
+ * characters and instruction go (Word's "Unlink Field", Zotero's "Unlink
+ * Citations")
+ */
+export function unlinkDocxFields(xml: string, fields: DocxField[]): string {
+  if (fields.length === 0) return xml;
+  const edits = fields.flatMap(field => field.unlinkRanges.map(([start, end]) => ({ start, end, text: '' })));
+  return applyEdits(xml, edits).replace(EMPTY_RUN_PATTERN, '');
+}
+
+/**
+ * Replace field instructions, leaving the displayed result untouched. The new
+ * instruction goes into the first instruction element; any further ones are
+ * emptied.
+ */
+export function rewriteDocxFieldInstructions(
+  xml: string,
+  rewrites: Array<{ field: DocxField; instruction: string }>
+): string {
+  const edits = rewrites.flatMap(({ field, instruction }) =>
+    field.instructionRanges.map(([start, end], i) => ({
+      start,
+      end,
+      text: i === 0 ? encodeXmlText(` ${instruction} `) : '',
+    }))
+  );
+  return applyEdits(xml, edits);
+}
@@ -0,0 +1,122 @@
+/**
+ * EndNote citation XML (`ADDIN EN.CITE` field data) reading.
+ *
+ * Each `<Cite>` carries the cited `<record>` in EndNote's XML export format;
+ * record text may be wrapped in `<style>` elements, which are flattened.
+ */
+
+import * as cheerio from 'cheerio';
+import { compactCslItem, normalizeDoi, parseNameString } from '../csl';
+import type { CslItem, CslItemType, CslName } from '../csl';
+
+/** EndNote reference type names, with the numeric ids as fallback */
+const ENDNOTE_TYPES: Record<string, CslItemType> = {
+  'journal article': 'article-journal',
+  'electronic article': 'article-journal',
+  'magazine article': 'article-magazine',
+  'newspaper article': 'article-newspaper',
+  book: 'book',
+  'edited book': 'book',
+  'electronic book': 'book',
+  'book section': 'chapter',
+  'electronic book section': 'chapter',
+  'conference proceedings': 'paper-conference',
+  'conference paper': 'paper-conference',
+  'web page': 'webpage',
+  blog: 'webpage',
+  thesis: 'thesis',
+  report: 'report',
+  'government document': 'report',
+  patent: 'patent',
+  case: 'legal_case',
+  'personal communication': 'personal_communication',
+};
+
+const ENDNOTE_TYPE_IDS: Record<string, CslItemType> = {
+  '17': 'article-journal',
+  '43': 'article-journal',
+  '19': 'article-magazine',
+  '23': 'article-newspaper',
+  '6': 'book',
+  '28': 'book',
+  '5': 'chapter',
+  '10': 'paper-conference',
+  '47': 'paper-conference',
+  '12': 'webpage',
+  '32': 'thesis',
+  '27': 'report',
+  '46': 'report',
+  '25': 'patent',
+  '7': 'legal_case',
+  '26': 'personal_communication',
+};
+
+type Selection = ReturnType<cheerio.CheerioAPI>;
+
+function text(record: Selection, selector: string): string | undefined {
+  const value = record.find(selector).first().text().replace(/\s+/g, ' ').trim();
+  return value || undefined;
+}
+
+function nameList(record: Selection, selector: string): CslName[] | undefined {
+  const elements = record.find(selector);
+  const names = elements
+    .toArray()
+    .map((_element, index) => elements.eq(index).text().replace(/\s+/g, ' ').trim())
+    // EndNote marks corporate authors with a trailing comma
+    .map(name => (name.endsWith(',') ? { literal: name.slice(0, -1).trim() } : parseNameString(name)))
+    .filter((name): name is CslName => name !== undefined);
+  return names.length > 0 ? names : undefined;
+}
+
+function recordToCslItem(record: Selection, fallbackId: string): CslItem {
+  const refType = record.find('ref-type').first();
+  const type = ENDNOTE_TYPES[(refType.attr('name') ?? '').toLowerCase()] ?? ENDNOTE_TYPE_IDS[refType.text().trim()] ?? 'article';
+  const year = text(record, 'dates > year')?.match(/\d{4}/)?.[0];
+  const isbnOrIssn = text(record, 'isbn');
+
+  return compactCslItem({
+    id: text(record, 'rec-number') ? `endnote-${text(record, 'rec-number')}` : fallbackId,
+    type,
+    author: nameList(record, 'contributors > authors > author'),
+    editor: nameList(record, 'contributors > secondary-authors > author'),
+    issued: year ? { 'date-parts': [[Number(year)]] } : undefined,
+    title: text(record, 'titles > title'),
+    'container-title': text(record, 'titles > secondary-title') ?? text(record, 'periodical > full-title'),
+    'container-title-short': text(record, 'periodical > abbr-1') ?? text(record, 'titles > alt-title'),
+    volume: text(record, 'volume'),
+    issue: text(record, 'number'),
+    page: text(record, 'pages'),
+    edition: text(record, 'edition'),
+    publisher: text(record, 'publisher'),
+    'publisher-place': text(record, 'pub-location'),
+    DOI: normalizeDoi(text(record, 'electronic-resource-num')?.match(/10\.\d{4,}\/\S+/)?.[0]),
+    URL: text(record, 'urls > related-urls > url'),
+    ISBN: isbnOrIssn && type !== 'article-journal' ? isbnOrIssn : undefined,
+    ISSN: isbnOrIssn && type === 'article-journal' ? isbnOrIssn : undefined,
+    PMID: text(record, 'accession-num')?.match(/^\d+$/)?.[0],
+  });
+}
+
+export interface EndnoteCite {
+  /** Cached display text of the citation, e.g. "(Smith, 2020)" */
+  displayText?: string;
+  item: CslItem;
+}
+
+/** Read the `<Cite>` entries of an `<EndNote>` citation document */
+export function parseEndnoteCitation(xml: string): EndnoteCite[] {
+  const $ = cheerio.load(xml, { xmlMode: true });
+  return $('Cite')
+    .toArray()
+    .map((element, index): EndnoteCite | undefined => {
+      const cite = $(element);
+      const record = cite.find('record').first();
+      if (record.length === 0) return undefined;
+      return {
+        displayText: cite.children('DisplayText').first().text().trim() || undefined,
+        item: recordToCslItem(record, `endnote-cite-${index + 1}`),
+      };
+    })
+    .filter((cite): cite is EndnoteCite => cite !== undefined);
+}
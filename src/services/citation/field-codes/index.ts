@@ -0,0 +1,29 @@
+/**
+ * Word Field Codes - Central Exports
+ *
+ * Reference manager (Zotero, Mendeley, EndNote) citation fields in DOCX:
+ * reading the embedded item data and keeping fields consistent with edits.
+ */
+
+export {
+  findReferenceManagerFields,
+  readFieldCitation,
+  reconcileReferenceManagerFields,
+  withCachedDisplayText,
+  type FieldCodeHandling,
+  type FieldReconcileResult,
+  type ReferenceManager,
+  type ReferenceManagerCitation,
+  type ReferenceManagerField,
+} from './reference-manager-fields';
+
+export {
+  decodeXmlText,
+  encodeXmlText,
+  findDocxFields,
+  rewriteDocxFieldInstructions,
+  unlinkDocxFields,
+  type DocxField,
+} from './docx-fields';
+
+export { parseEndnoteCitation, type EndnoteCite } from './endnote-record';
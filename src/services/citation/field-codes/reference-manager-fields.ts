@@ -0,0 +1,216 @@
+/**
+ * Reference manager citation fields (Zotero, Mendeley, EndNote).
+ *
+ * Reference managers insert citations and bibliographies as Word fields
+ * whose instructions carry the cited items:
+ * - Zotero: `ADDIN ZOTERO_ITEM CSL_CITATION {json}` / `ADDIN ZOTERO_BIBL {json} CSL_BIBLIOGRAPHY`
+ * - Mendeley: `ADDIN CSL_CITATION {json}` / `ADDIN Mendeley Bibliography CSL_BIBLIOGRAPHY`
+ * - EndNote: `ADDIN EN.CITE <EndNote>...</EndNote>` (long data in a nested
+ *   `EN.CITE.DATA` field's base64 `w:fldData`) / `ADDIN EN.REFLIST`
+ */
+
+import { logger } from '../../../lib/logger';
+import { parseCslJson } from '../bibliography-io/csl-json';
+import type { CslItem } from '../csl';
+import { findDocxFields, rewriteDocxFieldInstructions, unlinkDocxFields, type DocxField } from './docx-fields';
+import { parseEndnoteCitation } from './endnote-record';
+
+export type ReferenceManager = 'zotero' | 'mendeley' | 'endnote';
+
+/**
+ * How reference manager fields are treated when citations are rewritten
+ * - keep: fields stay linked; their cached citation text follows the edit so
+ *   the reference manager does not report a manual change. A field whose
+ *   citation is deleted is unlinked, since a refresh would restore it.
+ * - unlink: every reference manager field becomes plain text
+ */
+export type FieldCodeHandling = 'keep' | 'unlink';
+
+export interface ReferenceManagerField {
+  field: DocxField;
+  manager: ReferenceManager;
+  role: 'citation' | 'bibliography';
+}
+
+export interface ReferenceManagerCitation {
+  manager: ReferenceManager;
+  /** Citation text shown in the document */
+  displayText: string;
+  /** Cited items as stored by the reference manager */
+  items: CslItem[];
+}
+
+const FIELD_TYPES: Array<{ pattern: RegExp; manager: ReferenceManager; role: ReferenceManagerField['role'] }> = [
+  { pattern: /^ADDIN\s+ZOTERO_ITEM\b/, manager: 'zotero', role: 'citation' },
+  { pattern: /^ADDIN\s+ZOTERO_BIBL\b/, manager: 'zotero', role: 'bibliography' },
+  { pattern: /^ADDIN\s+CSL_CITATION\b/, manager: 'mendeley', role: 'citation' },
+  { pattern: /^ADDIN\s+Mendeley\s+Bibliography\b/i, manager: 'mendeley', role: 'bibliography' },
+  { pattern: /^ADDIN\s+EN\.CITE(?![.\w])/, manager: 'endnote', role: 'citation' },
+  { pattern: /^ADDIN\s+EN\.REFLIST\b/, manager: 'endnote', role: 'bibliography' },
+];
+
+/** Find the reference manager fields in a WordprocessingML part */
+export function findReferenceManagerFields(xml: string): ReferenceManagerField[] {
+  const result: ReferenceManagerField[] = [];
+  for (const field of findDocxFields(xml)) {
+    const type = FIELD_TYPES.find(({ pattern }) => pattern.test(field.instruction));
+    if (type) result.push({ field, manager: type.manager, role: type.role });
+  }
+  return result.sort((a, b) => a.field.start - b.field.start);
+}
+
+interface CslCitationJson {
+  citationItems?: Array<{ id?: unknown; uris?: unknown; uri?: unknown; itemData?: Record<string, unknown> }>;
+  properties?: Record<string, unknown>;
+  mendeley?: Record<string, unknown>;
+}
+
+/** Split "ADDIN ZOTERO_ITEM CSL_CITATION {...}" into prefix and parsed JSON */
+function readCslCitationJson(instruction: string): { prefix: string; json: CslCitationJson } | undefined {
+  const start = instruction.indexOf('{');
+  const end = instruction.lastIndexOf('}');
+  if (start === -1 || end < start) return undefined;
+  try {
+    return { prefix: instruction.slice(0, start).trimEnd(), json: JSON.parse(instruction.slice(start, end + 1)) };
+  } catch {
+    return undefined;
+  }
+}
+
+function readEndnoteXml(field: DocxField): string | undefined {
+  const inline = field.instruction.indexOf('<EndNote');
+  if (inline !== -1) return field.instruction.slice(inline);
+  for (const data of field.data) {
+    const decoded = Buffer.from(data, 'base64').toString('utf8');
+    const start = decoded.indexOf('<EndNote');
+    if (start !== -1) return decoded.slice(start);
+  }
+  return undefined;
+}
+
+/** Read the items cited by a reference manager citation field */
+export function readFieldCitation(entry: ReferenceManagerField): ReferenceManagerCitation | undefined {
+  if (entry.role !== 'citation') return undefined;
+  const displayText = entry.field.resultText.replace(/\s+/g, ' ').trim();
+
+  if (entry.manager === 'endnote') {
+    const xml = readEndnoteXml(entry.field);
+    const cites = xml ? parseEndnoteCitation(xml) : [];
+    return cites.length > 0 ? { manager: entry.manager, displayText, items: cites.map(cite => cite.item) } : undefined;
+  }
+
+  const parsed = readCslCitationJson(entry.field.instruction);
+  const itemData = (parsed?.json.citationItems ?? [])
+    .filter(citationItem => citationItem.itemData && typeof citationItem.itemData === 'object')
+    .map(citationItem => {
+      // Item URIs identify the item in the user's library across citations
+      const uris = Array.isArray(citationItem.uris) ? citationItem.uris : [citationItem.uri];
+      const id = uris.find(uri => typeof uri === 'string') ?? citationItem.itemData!.id ?? citationItem.id;
+      return { ...citationItem.itemData, id };
+    });
+  if (itemData.length === 0) return undefined;
+  try {
+    return { manager: entry.manager, displayText, items: parseCslJson(JSON.stringify(itemData)) };
+  } catch (error) {
+    logger.warn(`[Field Codes] Unreadable ${entry.manager} citation data: ${error instanceof Error ? error.message : error}`);
+    return undefined;
+  }
+}
+
+/**
+ * Instruction with the cached citation text replaced, so the reference
+ * manager treats `displayText` as its own output rather than a manual edit.
+ * Returns undefined when the field has no cached text to update.
+ */
+export function withCachedDisplayText(entry: ReferenceManagerField, displayText: string): string | undefined {
+  const { instruction } = entry.field;
+
+  if (entry.manager === 'endnote') {
+    if (!instruction.includes('<DisplayText>')) return undefined;
+    const escaped = displayText.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    return instruction.replace(/<DisplayText>[\s\S]*?<\/DisplayText>/, () => `<DisplayText>${escaped}</DisplayText>`);
+  }
+
+  const parsed = readCslCitationJson(instruction);
+  if (!parsed) return undefined;
+  const { prefix, json } = parsed;
+  if (entry.manager === 'zotero') {
+    json.properties = { ...json.properties, formattedCitation: displayText, plainCitation: displayText };
+  } else {
+    json.mendeley = {
+      ...json.mendeley,
+      formattedCitation: displayText,
+      plainTextFormattedCitation: displayText,
+      previouslyFormattedCitation: displayText,
+    };
+  }
+  return `${prefix} ${JSON.stringify(json)}`;
+}
+
+export interface FieldReconcileResult {
+  xml: string;
+  /** Fields kept linked with their cached citation text updated */
+  updated: number;
+  unlinked: number;
+}
+
+function normalizeCitationText(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/** Whole-token match, so "1" does not match inside "12" */
+function citationPattern(texts: string[]): RegExp | undefined {
+  const alternatives = texts
+    .map(normalizeCitationText)
+    .filter(Boolean)
+    .sort((a, b) => b.length - a.length)
+    .map(text => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  if (alternatives.length === 0) return undefined;
+  return new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'gu');
+}
+
+/**
+ * Bring reference manager fields in line with citation edits made to the
+ * displayed text (see FieldCodeHandling). Call before the displayed text is
+ * rewritten; `changed` maps old to new citation text, `removed` lists
+ * deleted citation text.
+ */
+export function reconcileReferenceManagerFields(
+  xml: string,
+  edits: { changed: Map<string, string>; removed: Iterable<string> },
+  handling: FieldCodeHandling
+): FieldReconcileResult {
+  const fields = findReferenceManagerFields(xml);
+  if (fields.length === 0) return { xml, updated: 0, unlinked: 0 };
+
+  if (handling === 'unlink') {
+    return { xml: unlinkDocxFields(xml, fields.map(entry => entry.field)), updated: 0, unlinked: fields.length };
+  }
+
+  const removedPattern = citationPattern([...edits.removed]);
+  const orphaned = removedPattern
+    ? fields.filter(entry => entry.role === 'citation' && normalizeCitationText(entry.field.resultText).search(removedPattern) !== -1)
+    : [];
+  const result = unlinkDocxFields(xml, orphaned.map(entry => entry.field));
+
+  const changed = new Map([...edits.changed].map(([oldText, newText]) => [normalizeCitationText(oldText), newText]));
+  const changedPattern = citationPattern([...changed.keys()]);
+  if (!changedPattern) return { xml: result, updated: 0, unlinked: orphaned.length };
+
+  // Offsets moved with the unlinking, so scan again
+  const rewrites: Array<{ field: DocxField; instruction: string }> = [];
+  for (const entry of findReferenceManagerFields(result)) {
+    if (entry.role !== 'citation') continue;
+    const current = normalizeCitationText(entry.field.resultText);
+    const next = current.replace(changedPattern, match => changed.get(match) ?? match);
+    if (next === current) continue;
+    const instruction = withCachedDisplayText(entry, next);
+    if (instruction) rewrites.push({ field: entry.field, instruction });
+  }
+
+  return {
+    xml: rewriteDocxFieldInstructions(result, rewrites),
+    updated: rewrites.length,
+    unlinked: orphaned.length,
+  };
+}
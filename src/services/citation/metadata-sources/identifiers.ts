@@ -0,0 +1,84 @@
+/**
+ * Reference identifier normalization (DOI, PMID, PMCID, ISBN).
+ *
+ * Lookups only ever send identifiers that pass these checks, so free text
+ * from a manuscript cannot shape the outgoing request URL.
+ */
+
+import { normalizeDoi } from '../csl';
+
+export interface ReferenceIdentifiers {
+  doi?: string;
+  pmid?: string;
+  pmcid?: string;
+  isbn?: string;
+}
+
+/** "10.xxxx/yyyy" without resolver prefix, or undefined */
+export function normalizeDoiIdentifier(value: string | null | undefined): string | undefined {
+  const doi = normalizeDoi(value);
+  return doi && /^10\.\d{4,}\/\S+$/.test(doi) ? doi : undefined;
+}
+
+/** PubMed id: digits only, "PMID: 12345678" accepted */
+export function normalizePmid(value: string | null | undefined): string | undefined {
+  const pmid = value?.trim().replace(/^PMID:?\s*/i, '');
+  return pmid && /^\d{1,9}$/.test(pmid) ? pmid : undefined;
+}
+
+/** PubMed Central id in canonical "PMC1234567" form */
+export function normalizePmcid(value: string | null | undefined): string | undefined {
+  const pmcid = value?.trim().replace(/^PMCID:?\s*/i, '').toUpperCase();
+  if (!pmcid) return undefined;
+  const digits = pmcid.startsWith('PMC') ? pmcid.slice(3) : pmcid;
+  return /^\d{1,9}$/.test(digits) ? `PMC${digits}` : undefined;
+}
+
+function isbn10Valid(isbn: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < 10; i++) {
+    const digit = isbn[i] === 'X' ? 10 : Number(isbn[i]);
+    sum += digit * (10 - i);
+  }
+  return sum % 11 === 0;
+}
+
+function isbn13Valid(isbn: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < 13; i++) {
+    sum += Number(isbn[i]) * (i % 2 === 0 ? 1 : 3);
+  }
+  return sum % 10 === 0;
+}
+
+/** ISBN-10 or ISBN-13 with a valid check digit, without hyphens or spaces */
+export function normalizeIsbn(value: string | null | undefined): string | undefined {
+  const isbn = value?.trim().replace(/^ISBN(?:-1[03])?:?\s*/i, '').replace(/[\s-]/g, '').toUpperCase();
+  if (!isbn) return undefined;
+  if (/^\d{9}[\dX]$/.test(isbn)) return isbn10Valid(isbn) ? isbn : undefined;
+  if (/^97[89]\d{10}$/.test(isbn)) return isbn13Valid(isbn) ? isbn : undefined;
+  return undefined;
+}
+
+/**
+ * Pick the identifiers out of a formatted reference or URL, e.g.
+ * "... doi:10.1056/NEJMoa2001017. PMID: 31978945; PMCID: PMC7092803"
+ */
+export function extractReferenceIdentifiers(text: string): ReferenceIdentifiers {
+  const doi = text.match(/\b10\.\d{4,}\/[^\s"<>]+/)?.[0].replace(/[.,;)\]]+$/, '');
+  const pmid = text.match(/\bPMID:?\s*(\d{1,9})\b/i)?.[1] ?? text.match(/pubmed\.ncbi\.nlm\.nih\.gov\/(\d{1,9})/i)?.[1];
+  const pmcid = text.match(/\b(PMC\d{1,9})\b/)?.[1];
+  const isbn = text.match(/\bISBN(?:-1[03])?:?\s*(\d[\d-]{8,15}[\dX])/i)?.[1];
+
+  const identifiers: ReferenceIdentifiers = {};
+  const normalized = {
+    doi: normalizeDoiIdentifier(doi),
+    pmid: normalizePmid(pmid),
+    pmcid: normalizePmcid(pmcid),
+    isbn: normalizeIsbn(isbn),
+  };
+  for (const [key, value] of Object.entries(normalized) as Array<[keyof ReferenceIdentifiers, string | undefined]>) {
+    if (value) identifiers[key] = value;
+  }
+  return identifiers;
+}
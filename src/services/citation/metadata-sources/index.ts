@@ -0,0 +1,21 @@
+/**
+ * Reference Metadata Sources - Central Exports
+ *
+ * PubMed and Open Library lookups alongside CrossRef, combined by the
+ * metadata resolver with per-field provenance.
+ */
+
+export { metadataResolverService } from './metadata-resolver.service';
+export { pubMedService } from './pubmed.service';
+export { openLibraryService } from './open-library.service';
+
+export {
+  extractReferenceIdentifiers,
+  normalizeDoiIdentifier,
+  normalizeIsbn,
+  normalizePmcid,
+  normalizePmid,
+  type ReferenceIdentifiers,
+} from './identifiers';
+
+export { mergeEnrichedMetadata, withProvenance } from './provenance';
@@ -0,0 +1,111 @@
+/**
+ * Metadata Resolver Service
+ * Resolves reference metadata from its identifiers through a chain of
+ * sources, most authoritative first:
+ * 1. CrossRef by DOI
+ * 2. PubMed by PMID or PMCID (or by DOI when CrossRef has no record)
+ * 3. Open Library by ISBN
+ *
+ * The first record found is the primary one; later sources only fill the
+ * fields it lacks, and the result's provenance shows where each field came
+ * from. Lookups are cached in-process and rate limited per source.
+ */
+
+import { logger } from '../../../lib/logger';
+import { crossRefService, type EnrichedMetadata } from '../crossref.service';
+import {
+  normalizeDoiIdentifier,
+  normalizeIsbn,
+  normalizePmcid,
+  normalizePmid,
+  type ReferenceIdentifiers,
+} from './identifiers';
+import { openLibraryService } from './open-library.service';
+import { mergeEnrichedMetadata } from './provenance';
+import { pubMedService } from './pubmed.service';
+
+/**
+ * Cache entry for a single source lookup with TTL.
+ */
+interface CacheEntry {
+  metadata: EnrichedMetadata | null;
+  expiresAt: number;
+}
+
+class MetadataResolverService {
+  private cache: Map<string, CacheEntry> = new Map();
+  private readonly CACHE_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+  private readonly MISS_CACHE_TTL_MS = 10 * 60 * 1000; // 10 minutes - misses include transient failures
+  private readonly MAX_CACHE_ENTRIES = 5000;
+
+  /**
+   * Resolve metadata for a reference from whichever identifiers it has.
+   * Returns null when no source knows the reference.
+   */
+  async resolve(identifiers: ReferenceIdentifiers): Promise<EnrichedMetadata | null> {
+    const doi = normalizeDoiIdentifier(identifiers.doi);
+    const pmid = normalizePmid(identifiers.pmid);
+    const pmcid = normalizePmcid(identifiers.pmcid);
+    const isbn = normalizeIsbn(identifiers.isbn);
+
+    const results: EnrichedMetadata[] = [];
+    const add = (metadata: EnrichedMetadata | null) => {
+      if (metadata) results.push(metadata);
+    };
+
+    if (doi) {
+      add(await this.cached(`crossref:doi:${doi.toLowerCase()}`, () => crossRefService.lookupByDoi(doi)));
+    }
+    if (pmid) {
+      add(await this.cached(`pubmed:pmid:${pmid}`, () => pubMedService.lookupByPmid(pmid)));
+    } else if (pmcid) {
+      add(await this.cached(`pubmed:pmcid:${pmcid}`, () => pubMedService.lookupByPmcid(pmcid)));
+    } else if (doi && results.length === 0) {
+      add(await this.cached(`pubmed:doi:${doi.toLowerCase()}`, () => pubMedService.lookupByDoi(doi)));
+    }
+    if (isbn) {
+      add(await this.cached(`openlibrary:isbn:${isbn}`, () => openLibraryService.lookupByIsbn(isbn)));
+    }
+
+    if (results.length === 0) {
+      return null;
+    }
+
+    logger.debug(`[MetadataResolver] Resolved from ${results.map(r => r.source).join(', ')}`);
+    return results.reduce((merged, next) => mergeEnrichedMetadata(merged, next));
+  }
+
+  /**
+   * Clear cached lookups
+   */
+  clearCache(): void {
+    this.cache.clear();
+  }
+
+  private async cached(
+    key: string,
+    lookup: () => Promise<EnrichedMetadata | null>
+  ): Promise<EnrichedMetadata | null> {
+    const hit = this.cache.get(key);
+    if (hit && hit.expiresAt > Date.now()) {
+      return hit.metadata;
+    }
+
+    const metadata = await lookup();
+
+    if (this.cache.size >= this.MAX_CACHE_ENTRIES) {
+      // Maps iterate in insertion order: drop the oldest entry
+      const oldest = this.cache.keys().next().value;
+      if (oldest !== undefined) this.cache.delete(oldest);
+    }
+    this.cache.delete(key);
+    this.cache.set(key, {
+      metadata,
+      expiresAt: Date.now() + (metadata ? this.CACHE_TTL_MS : this.MISS_CACHE_TTL_MS),
+    });
+
+    return metadata;
+  }
+}
+
+export const metadataResolverService = new MetadataResolverService();
@@ -0,0 +1,106 @@
+/**
+ * Open Library Metadata Service
+ * Looks up book metadata by ISBN through the Open Library Books API
+ *
+ * Rate limiting: 3 requests/second (identified client)
+ */
+
+import { logger } from '../../../lib/logger';
+import { openLibraryRateLimiter } from '../../../utils/rate-limiter';
+import { parseNameString, type CslName } from '../csl';
+import type { EnrichedMetadata } from '../crossref.service';
+import { normalizeIsbn } from './identifiers';
+import { cslNameToAuthor, withProvenance } from './provenance';
+
+interface OpenLibraryBook {
+  title?: string;
+  subtitle?: string;
+  authors?: Array<{ name: string }>;
+  publishers?: Array<{ name: string }>;
+  publish_date?: string;
+  url?: string;
+  identifiers?: {
+    isbn_13?: string[];
+    isbn_10?: string[];
+  };
+}
+
+class OpenLibraryService {
+  private baseUrl = 'https://openlibrary.org/api/books';
+  private userAgent: string;
+  private readonly REQUEST_TIMEOUT_MS = 10000; // 10 second timeout
+
+  constructor() {
+    const contactEmail = process.env.CROSSREF_CONTACT_EMAIL || 'support@s4carlisle.com';
+    this.userAgent = `Ninja-Citation-Tool/1.0 (mailto:${contactEmail})`;
+  }
+
+  async lookupByIsbn(isbn: string): Promise<EnrichedMetadata | null> {
+    try {
+      const cleanIsbn = normalizeIsbn(isbn);
+
+      // Only valid ISBNs reach the request URL
+      if (!cleanIsbn) {
+        logger.warn(`[OpenLibrary] Invalid ISBN rejected: ${isbn.substring(0, 50)}`);
+        return null;
+      }
+
+      // Apply rate limiting before making request
+      await openLibraryRateLimiter.acquire();
+
+      const bibkey = `ISBN:${cleanIsbn}`;
+      const url = `${this.baseUrl}?bibkeys=${encodeURIComponent(bibkey)}&format=json&jscmd=data`;
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.REQUEST_TIMEOUT_MS);
+
+      const response = await fetch(url, {
+        headers: {
+          'User-Agent': this.userAgent
+        },
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        logger.warn(`[OpenLibrary] ISBN lookup failed: ${response.status} for ${cleanIsbn}`);
+        return null;
+      }
+
+      // Unknown ISBNs come back as an empty object
+      const data = await response.json() as Record<string, OpenLibraryBook>;
+      const book = data[bibkey];
+      if (!book?.title) {
+        return null;
+      }
+
+      return this.mapBook(book, cleanIsbn);
+    } catch (error) {
+      logger.error('[OpenLibrary] Lookup error', error instanceof Error ? error : undefined);
+      return null;
+    }
+  }
+
+  private mapBook(book: OpenLibraryBook, isbn: string): EnrichedMetadata {
+    const authors = (book.authors || [])
+      .map(author => parseNameString(author.name))
+      .filter((name): name is CslName => name !== undefined)
+      .map(cslNameToAuthor);
+
+    return withProvenance({
+      authors,
+      title: book.subtitle ? `${book.title}: ${book.subtitle}` : book.title || '',
+      year: book.publish_date?.match(/\d{4}/)?.[0],
+      publisher: book.publishers?.[0]?.name,
+      url: book.url,
+      // Prefer the ISBN-13 form when the book record has one
+      isbn: normalizeIsbn(book.identifiers?.isbn_13?.[0]) ?? isbn,
+      sourceType: 'book',
+      source: 'openlibrary',
+      confidence: 0.9 // Edition records are community maintained
+    });
+  }
+}
+
+export const openLibraryService = new OpenLibraryService();
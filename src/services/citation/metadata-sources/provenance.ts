@@ -0,0 +1,56 @@
+/**
+ * Field-level provenance for enriched reference metadata.
+ *
+ * Every lookup result records which source supplied each populated field;
+ * merging results from several sources keeps the earlier source's value
+ * and only fills the gaps from later ones.
+ */
+
+import type { CslName } from '../csl';
+import type { EnrichedMetadata, EnrichedMetadataField, MetadataProvenance } from '../crossref.service';
+
+const PROVENANCE_FIELDS: EnrichedMetadataField[] = [
+  'authors', 'title', 'year', 'journalName', 'volume', 'issue', 'pages',
+  'doi', 'url', 'publisher', 'isbn', 'pmid', 'pmcid', 'sourceType',
+];
+
+function isPopulated(metadata: EnrichedMetadata, field: EnrichedMetadataField): boolean {
+  if (field === 'authors') return metadata.authors.length > 0;
+  if (field === 'sourceType') return metadata.sourceType !== 'unknown';
+  return Boolean(metadata[field]);
+}
+
+/** Attribute every populated field to the metadata's own source */
+export function withProvenance(metadata: EnrichedMetadata): EnrichedMetadata {
+  const provenance: MetadataProvenance = {};
+  for (const field of PROVENANCE_FIELDS) {
+    if (isPopulated(metadata, field)) {
+      provenance[field] = { source: metadata.source, confidence: metadata.confidence };
+    }
+  }
+  return { ...metadata, provenance };
+}
+
+/**
+ * Fill the fields `primary` lacks from `secondary`. The record keeps the
+ * primary source and confidence; the provenance shows where each field
+ * came from.
+ */
+export function mergeEnrichedMetadata(primary: EnrichedMetadata, secondary: EnrichedMetadata): EnrichedMetadata {
+  const merged: EnrichedMetadata = { ...primary, provenance: { ...withProvenance(primary).provenance } };
+  const secondaryProvenance = withProvenance(secondary).provenance!;
+
+  for (const field of PROVENANCE_FIELDS) {
+    if (isPopulated(merged, field) || !isPopulated(secondary, field)) continue;
+    Object.assign(merged, { [field]: secondary[field] });
+    merged.provenance![field] = secondaryProvenance[field];
+  }
+  return merged;
+}
+
+/** Author shape of EnrichedMetadata from a parsed CSL name */
+export function cslNameToAuthor(name: CslName): EnrichedMetadata['authors'][number] {
+  if (name.literal) return { lastName: name.literal };
+  const lastName = [name['non-dropping-particle'], name.family].filter(Boolean).join(' ');
+  return { firstName: name.given, lastName, suffix: name.suffix };
+}
@@ -0,0 +1,157 @@
+/**
+ * PubMed Metadata Service
+ * Looks up article metadata by PMID, PMCID or DOI through NCBI E-utilities
+ * (esearch to find the PMID, esummary for the record).
+ *
+ * Rate limiting: 3 requests/second, 10 with NCBI_API_KEY
+ */
+
+import { logger } from '../../../lib/logger';
+import { pubMedRateLimiter } from '../../../utils/rate-limiter';
+import { parseNameString, type CslName } from '../csl';
+import type { EnrichedMetadata } from '../crossref.service';
+import { normalizeDoiIdentifier, normalizePmcid, normalizePmid } from './identifiers';
+import { cslNameToAuthor, withProvenance } from './provenance';
+
+interface PubMedSummary {
+  uid: string;
+  pubdate?: string;
+  source?: string;
+  fulljournalname?: string;
+  authors?: Array<{ name: string; authtype?: string }>;
+  title?: string;
+  booktitle?: string;
+  volume?: string;
+  issue?: string;
+  pages?: string;
+  publishername?: string;
+  articleids?: Array<{ idtype: string; value: string }>;
+  error?: string;
+}
+
+class PubMedService {
+  private baseUrl = 'https://eutils.ncbi.nlm.nih.gov/entrez/eutils';
+  private userAgent: string;
+  private contactEmail: string;
+  private readonly REQUEST_TIMEOUT_MS = 10000; // 10 second timeout
+
+  constructor() {
+    this.contactEmail = process.env.CROSSREF_CONTACT_EMAIL || 'support@s4carlisle.com';
+    this.userAgent = `Ninja-Citation-Tool/1.0 (mailto:${this.contactEmail})`;
+  }
+
+  async lookupByPmid(pmid: string): Promise<EnrichedMetadata | null> {
+    const cleanPmid = normalizePmid(pmid);
+    if (!cleanPmid) {
+      logger.warn(`[PubMed] Invalid PMID rejected: ${pmid.substring(0, 50)}`);
+      return null;
+    }
+    return this.fetchSummary(cleanPmid);
+  }
+
+  async lookupByPmcid(pmcid: string): Promise<EnrichedMetadata | null> {
+    const cleanPmcid = normalizePmcid(pmcid);
+    if (!cleanPmcid) {
+      logger.warn(`[PubMed] Invalid PMCID rejected: ${pmcid.substring(0, 50)}`);
+      return null;
+    }
+    const pmid = await this.searchPmid(`${cleanPmcid}[pmcid]`);
+    return pmid ? this.fetchSummary(pmid) : null;
+  }
+
+  async lookupByDoi(doi: string): Promise<EnrichedMetadata | null> {
+    const cleanDoi = normalizeDoiIdentifier(doi);
+    if (!cleanDoi) {
+      logger.warn(`[PubMed] Invalid DOI format rejected: ${doi.substring(0, 50)}`);
+      return null;
+    }
+    const pmid = await this.searchPmid(`${cleanDoi}[doi]`);
+    return pmid ? this.fetchSummary(pmid) : null;
+  }
+
+  /** The single PMID matching an identifier search, if any */
+  private async searchPmid(term: string): Promise<string | null> {
+    const data = await this.request<{ esearchresult?: { idlist?: string[] } }>('esearch.fcgi', { db: 'pubmed', term });
+    const ids = data?.esearchresult?.idlist ?? [];
+    return ids.length === 1 ? normalizePmid(ids[0]) ?? null : null;
+  }
+
+  private async fetchSummary(pmid: string): Promise<EnrichedMetadata | null> {
+    const data = await this.request<{ result?: Record<string, unknown> }>('esummary.fcgi', { db: 'pubmed', id: pmid });
+    const summary = data?.result?.[pmid] as PubMedSummary | undefined;
+    if (!summary || summary.error || !(summary.title || summary.booktitle)) {
+      logger.warn(`[PubMed] No summary for PMID ${pmid}`);
+      return null;
+    }
+    return this.mapSummary(summary);
+  }
+
+  private async request<T>(endpoint: string, params: Record<string, string>): Promise<T | null> {
+    try {
+      // Apply rate limiting before making request
+      await pubMedRateLimiter.acquire();
+
+      const query = new URLSearchParams({
+        ...params,
+        retmode: 'json',
+        tool: 'ninja-citation-tool',
+        email: this.contactEmail,
+      });
+      if (process.env.NCBI_API_KEY) query.set('api_key', process.env.NCBI_API_KEY);
+
+      const controller = new AbortController();
+      const timeoutId = setTimeout(() => controller.abort(), this.REQUEST_TIMEOUT_MS);
+
+      const response = await fetch(`${this.baseUrl}/${endpoint}?${query.toString()}`, {
+        headers: {
+          'User-Agent': this.userAgent
+        },
+        signal: controller.signal
+      });
+
+      clearTimeout(timeoutId);
+
+      if (!response.ok) {
+        logger.warn(`[PubMed] ${endpoint} failed: ${response.status}`);
+        return null;
+      }
+
+      return await response.json() as T;
+    } catch (error) {
+      logger.error('[PubMed] Lookup error', error instanceof Error ? error : undefined);
+      return null;
+    }
+  }
+
+  private mapSummary(summary: PubMedSummary): EnrichedMetadata {
+    const articleId = (type: string) => summary.articleids?.find(id => id.idtype === type)?.value;
+    const isBook = !summary.title && !!summary.booktitle;
+
+    const authors = (summary.authors || [])
+      .filter(author => !author.authtype || author.authtype === 'Author' || author.authtype === 'CollectiveName')
+      .map(author => author.authtype === 'CollectiveName' ? { literal: author.name } : parseNameString(author.name))
+      .filter((name): name is CslName => name !== undefined)
+      .map(cslNameToAuthor);
+
+    return withProvenance({
+      authors,
+      // MEDLINE titles end with a period; brackets mark translated titles
+      title: (summary.title || summary.booktitle || '').replace(/^\[(.*)\]\.?$/, '$1').replace(/\.$/, ''),
+      year: summary.pubdate?.match(/\d{4}/)?.[0],
+      journalName: isBook ? undefined : summary.fulljournalname || summary.source,
+      volume: summary.volume || undefined,
+      issue: summary.issue || undefined,
+      pages: summary.pages || undefined,
+      doi: normalizeDoiIdentifier(articleId('doi')),
+      url: `https://pubmed.ncbi.nlm.nih.gov/${summary.uid}/`,
+      publisher: summary.publishername || undefined,
+      pmid: summary.uid,
+      pmcid: normalizePmcid(articleId('pmc')),
+      sourceType: isBook ? 'book' : 'journal',
+      source: 'pubmed',
+      confidence: 0.95 // Identifier lookup is highly reliable
+    });
+  }
+}
+
+export const pubMedService = new PubMedService();
@@ -0,0 +1,330 @@
+/**
+ * Reference Integrity Service
+ * Detects cited papers that were retracted, received an expression of
+ * concern, or were corrected, using CrossRef `update-to` metadata and the
+ * imported Retraction Watch dataset, and records the notices found on each
+ * ReferenceListEntry.
+ */
+
+import prisma from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { AppError } from '../../utils/app-error';
+import { crossRefService } from './crossref.service';
+import { extractReferenceIdentifiers, normalizeDoiIdentifier, normalizePmid } from './metadata-sources';
+
+export type IntegrityNoticeType = 'retraction' | 'expression-of-concern' | 'correction';
+
+export interface IntegrityNotice {
+  type: IntegrityNoticeType;
+  /** ISO date of the notice (YYYY, YYYY-MM or YYYY-MM-DD) */
+  date?: string;
+  noticeDoi?: string;
+  source: 'crossref' | 'retraction-watch';
+  label?: string;
+  reason?: string;
+}
+
+export interface FlaggedReference {
+  entryId: string;
+  sortKey: string;
+  title: string;
+  doi: string | null;
+  formattedText: string | null;
+  notices: IntegrityNotice[];
+}
+
+export interface RetractionWatchRecord {
+  recordId: string;
+  originalDoi?: string;
+  originalPmid?: string;
+  noticeType: IntegrityNoticeType;
+  noticeDoi?: string;
+  noticeDate?: Date;
+  reason?: string;
+}
+
+const RETRACTION_WATCH_SOURCE = 'retraction-watch';
+
+/** CrossRef update types that matter to editors; others (new_version, addendum, ...) are ignored */
+const CROSSREF_UPDATE_TYPES: Record<string, IntegrityNoticeType> = {
+  retraction: 'retraction',
+  partial_retraction: 'retraction',
+  withdrawal: 'retraction',
+  removal: 'retraction',
+  expression_of_concern: 'expression-of-concern',
+  correction: 'correction',
+  erratum: 'correction',
+  corrigendum: 'correction',
+};
+
+/** Retraction Watch "RetractionNature" values; reinstatements are not flagged */
+const RETRACTION_WATCH_NATURES: Record<string, IntegrityNoticeType> = {
+  retraction: 'retraction',
+  'expression of concern': 'expression-of-concern',
+  correction: 'correction',
+};
+
+const NOTICE_TYPE_ORDER: IntegrityNoticeType[] = ['retraction', 'expression-of-concern', 'correction'];
+
+const REQUIRED_COLUMNS = ['Record ID', 'RetractionNature', 'OriginalPaperDOI', 'OriginalPaperPubMedID'];
+
+/** Rows per createMany when importing the dataset */
+const IMPORT_CHUNK_SIZE = 1000;
+
+/** CrossRef lookups run in parallel batches of this size */
+const LOOKUP_BATCH_SIZE = 5;
+
+/** RFC 4180 CSV: quoted fields may contain commas, quotes ("") and newlines */
+function parseCsvRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (inQuotes) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some(value => value !== '')) rows.push(row);
+  return rows;
+}
+
+/** "3/30/2023 0:00" (dataset export) or ISO "2023-03-30" */
+function parseNoticeDate(value: string): Date | undefined {
+  const us = value.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+  if (us) return new Date(Date.UTC(Number(us[3]), Number(us[1]) - 1, Number(us[2])));
+  const iso = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (iso) return new Date(Date.UTC(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3])));
+  return undefined;
+}
+
+/**
+ * Read the Retraction Watch dataset CSV (as distributed by CrossRef).
+ * Rows without a usable original DOI or PMID, and reinstatements, are skipped.
+ */
+export function parseRetractionWatchCsv(csv: string): { records: RetractionWatchRecord[]; skipped: number } {
+  const [header, ...rows] = parseCsvRows(csv.replace(/^﻿/, ''));
+  const columns = new Map((header || []).map((name, index) => [name.trim(), index]));
+  const missing = REQUIRED_COLUMNS.filter(name => !columns.has(name));
+  if (missing.length > 0) {
+    throw AppError.badRequest(
+      `Not a Retraction Watch dataset: missing column(s) ${missing.join(', ')}`,
+      'INVALID_RETRACTION_WATCH_CSV'
+    );
+  }
+
+  const cell = (row: string[], name: string) => {
+    const index = columns.get(name);
+    const value = index === undefined ? '' : (row[index] ?? '').trim();
+    return value || undefined;
+  };
+
+  const records: RetractionWatchRecord[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    const recordId = cell(row, 'Record ID');
+    const noticeType = RETRACTION_WATCH_NATURES[(cell(row, 'RetractionNature') ?? '').toLowerCase()];
+    // The dataset uses "0" / "unavailable" for unknown identifiers
+    const originalDoi = normalizeDoiIdentifier(cell(row, 'OriginalPaperDOI'))?.toLowerCase();
+    const originalPmid = normalizePmid(cell(row, 'OriginalPaperPubMedID'));
+    const pmid = originalPmid && originalPmid !== '0' ? originalPmid : undefined;
+
+    if (!recordId || !noticeType || (!originalDoi && !pmid)) {
+      skipped++;
+      continue;
+    }
+
+    const retractionDate = cell(row, 'RetractionDate');
+    records.push({
+      recordId,
+      originalDoi,
+      originalPmid: pmid,
+      noticeType,
+      noticeDoi: normalizeDoiIdentifier(cell(row, 'RetractionDOI')),
+      noticeDate: retractionDate ? parseNoticeDate(retractionDate) : undefined,
+      // Reasons are "+Reason one;+Reason two;"
+      reason: cell(row, 'Reason')?.split(';').map(reason => reason.replace(/^\+/, '').trim()).filter(Boolean).join('; ') || undefined,
+    });
+  }
+
+  return { records, skipped };
+}
+
+function noticeKey(notice: IntegrityNotice): string {
+  return `${notice.type}:${notice.noticeDoi?.toLowerCase() ?? notice.date ?? ''}`;
+}
+
+/** Combine notices reported by both sources, most serious first */
+function mergeNotices(notices: IntegrityNotice[]): IntegrityNotice[] {
+  const merged = new Map<string, IntegrityNotice>();
+  for (const notice of notices) {
+    const key = noticeKey(notice);
+    const existing = merged.get(key);
+    if (!existing) {
+      merged.set(key, { ...notice });
+      continue;
+    }
+    existing.date = existing.date ?? notice.date;
+    existing.label = existing.label ?? notice.label;
+    existing.reason = existing.reason ?? notice.reason;
+  }
+  return [...merged.values()].sort((a, b) =>
+    NOTICE_TYPE_ORDER.indexOf(a.type) - NOTICE_TYPE_ORDER.indexOf(b.type) ||
+    (b.date ?? '').localeCompare(a.date ?? '')
+  );
+}
+
+class ReferenceIntegrityService {
+  /**
+   * Replace the imported Retraction Watch dataset
+   */
+  async importRetractionWatch(csv: string): Promise<{ imported: number; skipped: number }> {
+    const { records, skipped } = parseRetractionWatchCsv(csv);
+    if (records.length === 0) {
+      throw AppError.badRequest('No usable records in the Retraction Watch dataset', 'INVALID_RETRACTION_WATCH_CSV');
+    }
+
+    // Record IDs are unique in the dataset; keep the last row if repeated
+    const byRecordId = new Map(records.map(record => [record.recordId, record]));
+    const data = [...byRecordId.values()].map(record => ({
+      source: RETRACTION_WATCH_SOURCE,
+      recordId: record.recordId,
+      originalDoi: record.originalDoi ?? null,
+      originalPmid: record.originalPmid ?? null,
+      noticeType: record.noticeType,
+      noticeDoi: record.noticeDoi ?? null,
+      noticeDate: record.noticeDate ?? null,
+      reason: record.reason ?? null,
+    }));
+
+    const chunks: Array<typeof data> = [];
+    for (let i = 0; i < data.length; i += IMPORT_CHUNK_SIZE) {
+      chunks.push(data.slice(i, i + IMPORT_CHUNK_SIZE));
+    }
+
+    await prisma.$transaction([
+      prisma.retractionNotice.deleteMany({ where: { source: RETRACTION_WATCH_SOURCE } }),
+      ...chunks.map(chunk => prisma.retractionNotice.createMany({ data: chunk })),
+    ]);
+
+    logger.info(`[Reference Integrity] Imported ${data.length} Retraction Watch records (${skipped} skipped)`);
+    return { imported: data.length, skipped };
+  }
+
+  /**
+   * Look up notices for every reference in a document's reference list and
+   * record them on the entries. Returns the references with notices.
+   */
+  async checkDocumentReferences(documentId: string): Promise<FlaggedReference[]> {
+    const entries = await prisma.referenceListEntry.findMany({
+      where: { documentId },
+      orderBy: { sortKey: 'asc' },
+    });
+    if (entries.length === 0) {
+      return [];
+    }
+
+    const references = entries.map(entry => {
+      const formattedText = entry.formattedApa ?? entry.formattedVancouver ?? entry.formattedChicago ??
+        entry.formattedMla ?? entry.formattedIeee ?? null;
+      const identifiers = extractReferenceIdentifiers(`${formattedText ?? ''} ${entry.url ?? ''}`);
+      return {
+        entry,
+        formattedText,
+        doi: normalizeDoiIdentifier(entry.doi)?.toLowerCase() ?? identifiers.doi?.toLowerCase(),
+        pmid: identifiers.pmid,
+      };
+    });
+
+    const dois = references.map(r => r.doi).filter((doi): doi is string => !!doi);
+    const pmids = references.map(r => r.pmid).filter((pmid): pmid is string => !!pmid);
+
+    const datasetNotices = dois.length > 0 || pmids.length > 0
+      ? await prisma.retractionNotice.findMany({
+        where: { OR: [{ originalDoi: { in: dois } }, { originalPmid: { in: pmids } }] },
+      })
+      : [];
+
+    const crossRefNotices = new Map<string, IntegrityNotice[]>();
+    const uniqueDois = [...new Set(dois)];
+    for (let i = 0; i < uniqueDois.length; i += LOOKUP_BATCH_SIZE) {
+      const batch = uniqueDois.slice(i, i + LOOKUP_BATCH_SIZE);
+      const results = await Promise.all(batch.map(doi => crossRefService.lookupUpdateNotices(doi)));
+      batch.forEach((doi, index) => {
+        crossRefNotices.set(doi, results[index]
+          .filter(update => CROSSREF_UPDATE_TYPES[update.type])
+          .map(update => ({
+            type: CROSSREF_UPDATE_TYPES[update.type],
+            date: update.date,
+            noticeDoi: update.noticeDoi,
+            source: 'crossref' as const,
+            label: update.label,
+          })));
+      });
+    }
+
+    const checkedAt = new Date();
+    const flagged: FlaggedReference[] = [];
+    const updates = references.map(({ entry, formattedText, doi, pmid }) => {
+      const fromDataset: IntegrityNotice[] = datasetNotices
+        .filter(notice => (doi && notice.originalDoi === doi) || (pmid && notice.originalPmid === pmid))
+        .map(notice => ({
+          type: notice.noticeType as IntegrityNoticeType,
+          date: notice.noticeDate?.toISOString().slice(0, 10),
+          noticeDoi: notice.noticeDoi ?? undefined,
+          source: RETRACTION_WATCH_SOURCE,
+          reason: notice.reason ?? undefined,
+        }));
+      const notices = mergeNotices([...(doi ? crossRefNotices.get(doi) ?? [] : []), ...fromDataset]);
+
+      if (notices.length > 0) {
+        flagged.push({
+          entryId: entry.id,
+          sortKey: entry.sortKey,
+          title: entry.title,
+          doi: entry.doi,
+          formattedText,
+          notices,
+        });
+      }
+
+      return prisma.referenceListEntry.update({
+        where: { id: entry.id },
+        data: {
+          integrityNotices: notices as unknown as object[],
+          integrityCheckedAt: checkedAt,
+        },
+      });
+    });
+
+    await prisma.$transaction(updates);
+
+    logger.info(`[Reference Integrity] Document ${documentId}: ${flagged.length}/${entries.length} references with notices`);
+    return flagged;
+  }
+}
+
+export const referenceIntegrityService = new ReferenceIntegrityService();
@@ -1,11 +1,11 @@
 import prisma from '../../lib/prisma';
 import { logger } from '../../lib/logger';
-import { claudeService } from '../ai/claude.service';
 import { editorialAi } from '../shared';
-import { crossRefService, EnrichedMetadata } from './crossref.service';
-import { styleRulesService } from './style-rules.service';
+import type { EnrichedMetadata } from './crossref.service';
+import { extractReferenceIdentifiers, metadataResolverService } from './metadata-sources';
 // citationParsingService reserved for future use
 import { AppError } from '../../utils/app-error';
+import { cslFormatterService, referenceEntryToCslItem } from './csl';
 import type { Prisma } from '@prisma/client';
 
 // ============================================================================
@@ -199,6 +199,9 @@ interface FormatReferenceResult {
   confidence: number;
 }
 
+/** Enrichment sources backed by a bibliographic database lookup */
+const LOOKUP_ENRICHMENT_SOURCES = new Set(['crossref', 'pubmed', 'openlibrary']);
+
 // ============================================================================
 // Exported Helper Functions for Style Normalization
 // ============================================================================
@@ -372,23 +375,31 @@ class ReferenceListService {
           let enrichmentConfidence = aiEntry.confidence || 0.7;
           let isEnriched = false;
 
-          if (aiEntry.doi) {
+          // DOI from the AI entry; PMID/PMCID/ISBN from the reference text
+          const identifiers = {
+            ...extractReferenceIdentifiers(`${aiEntry.formattedEntry || ''} ${aiEntry.url || ''}`),
+            ...(aiEntry.doi ? { doi: aiEntry.doi } : {}),
+          };
+          let resolvedDoi: string | undefined;
+
+          if (identifiers.doi || identifiers.pmid || identifiers.pmcid || identifiers.isbn) {
             try {
-              const crossrefData = await crossRefService.lookupByDoi(aiEntry.doi);
-              if (crossrefData) {
-                enrichmentSource = 'crossref';
-                enrichmentConfidence = Math.max(enrichmentConfidence, crossrefData.confidence);
+              const resolved = await metadataResolverService.resolve(identifiers);
+              if (resolved) {
+                enrichmentSource = resolved.source;
+                enrichmentConfidence = Math.max(enrichmentConfidence, resolved.confidence);
                 isEnriched = true;
-                if (crossrefData.authors?.length) {
+                resolvedDoi = resolved.doi;
+                if (resolved.authors?.length) {
                   authors.length = 0;
-                  authors.push(...crossrefData.authors.map(a => ({
+                  authors.push(...resolved.authors.map(a => ({
                     firstName: a.firstName || undefined,
                     lastName: a.lastName || 'Unknown',
                   })));
                 }
               }
             } catch {
-              logger.warn(`[Reference List] CrossRef lookup failed for DOI ${aiEntry.doi}`);
+              logger.warn(`[Reference List] Metadata lookup failed for ${JSON.stringify(identifiers)}`);
             }
           }
 
@@ -424,7 +435,7 @@ class ReferenceListService {
             issue: aiEntry.issue || null,
             pages: aiEntry.pages || null,
             publisher: aiEntry.publisher || null,
-            doi: aiEntry.doi || null,
+            doi: aiEntry.doi || resolvedDoi || null,
             url: aiEntry.url || null,
             enrichmentSource,
             enrichmentConfidence,
@@ -576,67 +587,31 @@ class ReferenceListService {
     });
   }
 
+  /**
+   * Format a reference entry with the style's CSL definition. Deterministic:
+   * the same entry always formats the same way. `tenantId` allows tenant
+   * CSL style codes.
+   */
   async formatReference(
     entry: ReferenceEntry,
-    styleCode: string
+    styleCode: string,
+    tenantId?: string
   ): Promise<FormatReferenceResult> {
-    const styleGuide = await prisma.citationStyleGuide.findUnique({
-      where: { code: styleCode }
-    });
-
-    const styleName = styleGuide?.name || this.getStyleName(styleCode);
-    const styleRules = styleRulesService.getRulesForStyle(styleCode);
-
-    const prompt = `Format the following reference entry in ${styleName} style.
-
-SOURCE TYPE: ${entry.sourceType}
-
-METADATA:
-${JSON.stringify({
-  authors: entry.authors,
-  year: entry.year,
-  title: entry.title,
-  journalName: entry.journalName,
-  volume: entry.volume,
-  issue: entry.issue,
-  pages: entry.pages,
-  publisher: entry.publisher,
-  doi: entry.doi,
-  url: entry.url
-}, null, 2)}
-
-${styleName} FORMAT RULES:
-${styleRules.map(r => `- ${r.name}: ${r.description}`).join('\n')}
-
-Format the complete reference entry. Include:
-- All available metadata in correct order
-- Proper punctuation and spacing
-- Italics marked with *asterisks*
-- DOI as URL if available (https://doi.org/...)
-- Hanging indent formatting (indicate with "  " two spaces for continuation lines)
-
-Return a JSON object:
-{
-  "formatted": "the formatted reference entry",
-  "sortKey": "key for alphabetical sorting (usually author last name + year)",
-  "missingFields": ["list of recommended but missing fields"],
-  "confidence": 0.0-1.0
-}`;
-
     try {
-      const response = await claudeService.generate(prompt, {
-        model: 'haiku',
-        temperature: 0.2
-      });
-
-      const result = this.parseAiResponse<FormatReferenceResult>(response.text);
-      return result;
+      const processor = await cslFormatterService.getProcessor(styleCode, tenantId);
+      return {
+        formatted: cslFormatterService.formatEntry(processor, referenceEntryToCslItem(entry)),
+        sortKey: entry.sortKey,
+        missingFields: this.getMissingFields(entry),
+        confidence: 1
+      };
     } catch (error) {
+      if (error instanceof AppError) throw error;
       logger.error('[ReferenceList] Format reference failed', error instanceof Error ? error : undefined);
       return {
         formatted: this.fallbackFormat(entry, styleCode),
         sortKey: entry.sortKey,
-        missingFields: [],
+        missingFields: this.getMissingFields(entry),
         confidence: 0.5
       };
     }
@@ -735,14 +710,13 @@ Return a JSON object:
     const entriesToFormat = typedEntries.filter(entry => !this.getFormattedFromEntry(entry, formattedColumn));
 
     if (entriesToFormat.length > 0) {
-      // Format entries sequentially to prevent AI rate limit exhaustion
-      // Each formatReference call makes an AI request
       const updates: Array<{ id: string; formatted: string }> = [];
 
       for (const entry of entriesToFormat) {
         const result = await this.formatReference(
           this.prismaEntryToReferenceEntry(entry as unknown as PrismaReferenceEntry),
-          styleCode
+          styleCode,
+          tenantId
         );
         updates.push({ id: entry.id, formatted: result.formatted });
       }
@@ -841,8 +815,8 @@ Return a JSON object:
       formattedList,
       stats: stats || {
         totalEntries: entries.length,
-        enrichedCount: entries.filter((e) => e.enrichmentSource === 'crossref').length,
-        manualCount: entries.filter((e) => e.enrichmentSource !== 'crossref').length
+        enrichedCount: entries.filter((e) => LOOKUP_ENRICHMENT_SOURCES.has(e.enrichmentSource)).length,
+        manualCount: entries.filter((e) => !LOOKUP_ENRICHMENT_SOURCES.has(e.enrichmentSource)).length
       }
     };
   }
@@ -927,15 +901,20 @@ Return a JSON object:
     return 'unknown';
   }
 
-  private getStyleName(styleCode: string): string {
-    const names: Record<string, string> = {
-      apa7: 'APA 7th Edition',
-      mla9: 'MLA 9th Edition',
-      chicago17: 'Chicago 17th Edition',
-      vancouver: 'Vancouver',
-      ieee: 'IEEE'
+  /**
+   * Fields the entry's source type normally carries but the entry lacks
+   */
+  private getMissingFields(entry: ReferenceEntry): string[] {
+    const expected: Record<string, Array<keyof ReferenceEntry>> = {
+      journal: ['year', 'journalName', 'volume', 'pages'],
+      book: ['year', 'publisher'],
+      chapter: ['year', 'journalName', 'publisher', 'pages'],
+      conference: ['year', 'journalName'],
+      website: ['url'],
     };
-    return names[styleCode] || styleCode.toUpperCase();
+    const fields: Array<keyof ReferenceEntry> = ['title', ...(expected[entry.sourceType] ?? ['year'])];
+    if (!entry.authors.some(a => a.lastName && a.lastName !== 'Unknown')) fields.unshift('authors');
+    return fields.filter(field => field === 'authors' || !entry[field]);
   }
 
   private getFormattedColumn(styleCode: string): string {
@@ -986,14 +965,6 @@ Return a JSON object:
     return `${authorStr}${year}${title}${sourceSuffix}${doi}`.trim();
   }
 
-  private parseAiResponse<T>(text: string): T {
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      throw new Error('No JSON found in AI response');
-    }
-    return JSON.parse(jsonMatch[0]) as T;
-  }
-
   /**
    * Parse authors from Prisma JSON value to Author array
    */
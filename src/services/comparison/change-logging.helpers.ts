@@ -22,7 +22,15 @@ export function mapFixTypeToChangeType(fixCode: string): string {
     'EPUB-STRUCT-003': 'fix-heading-hierarchy',
     'EPUB-STRUCT-004': 'add-aria-landmarks',
     'EPUB-NAV-001': 'add-skip-navigation',
+    'EPUB-PAGE-001': 'add-page-list',
+    'EPUB-UPGRADE-001': 'upgrade-to-epub3',
     'EPUB-FIG-001': 'add-figure-structure',
+    'EPUB-MATH-001': 'add-math-alttext',
+    'EPUB-MATH-002': 'convert-latex-to-mathml',
+    'EPUB-MATH-003': 'add-mathml-metadata',
+    'FXL-VIEWPORT-MISSING': 'add-viewport',
+    'FXL-VIEWPORT-INVALID': 'fix-viewport',
+    'FXL-SUMMARY-CAVEAT': 'add-accessibility-summary',
     'EPUB-CONTRAST-001': 'fix-color-contrast',
     'EPUB-TYPE-HAS-MATCHING-ROLE': 'add-aria-role',
     'COLOR-CONTRAST': 'fix-color-contrast',
@@ -40,6 +48,13 @@ export function mapFixTypeToChangeType(fixCode: string): string {
     'MATTERHORN-11-001': 'add-language',
     'MATTERHORN-01-003': 'add-title',
     'WCAG-2.4.2': 'add-title',
+
+    // PDF link remediation
+    'LINK-NO-CONTENTS': 'add-link-description',
+    'LINK-URL-AS-TEXT': 'add-link-description',
+    'LINK-GENERIC-TEXT': 'add-link-description',
+    'LINK-BARE-URL': 'add-link-annotation',
+    'LINK-NOT-TAGGED': 'tag-links',
   };
 
   return mappings[fixCode] || fixCode.toLowerCase().replace(/[_\s]+/g, '-');
@@ -70,7 +85,11 @@ export function extractWcagCriteria(ruleId: string): string | undefined {
     'EPUB-STRUCT-003': '1.3.1',
     'EPUB-STRUCT-004': '1.3.1',
     'EPUB-NAV-001': '2.4.1',
+    'EPUB-PAGE-001': '2.4.5',
     'EPUB-FIG-001': '1.1.1',
+    'EPUB-MATH-001': '1.1.1',
+    'EPUB-MATH-002': '1.1.1',
+    'EPUB-MATH-003': '4.1.2',
     'EPUB-CONTRAST-001': '1.4.3',
     'COLOR-CONTRAST': '1.4.3',
 
@@ -87,6 +106,13 @@ export function extractWcagCriteria(ruleId: string): string | undefined {
     'MATTERHORN-11-001': '3.1.1', // Document language
     'MATTERHORN-01-003': '2.4.2', // Document title
     'WCAG-2.4.2': '2.4.2', // Page titled
+
+    // PDF link remediation
+    'LINK-NO-CONTENTS': '2.4.4', // Link purpose
+    'LINK-URL-AS-TEXT': '2.4.4',
+    'LINK-GENERIC-TEXT': '2.4.4',
+    'LINK-BARE-URL': '2.4.4',
+    'LINK-NOT-TAGGED': '1.3.1', // Link not in the structure tree
   };
 
   if (wcagMappings[ruleId]) {
@@ -125,7 +151,11 @@ export function extractWcagLevel(ruleId: string): string {
     'EPUB-STRUCT-003': 'A',
     'EPUB-STRUCT-004': 'A',
     'EPUB-NAV-001': 'A',
+    'EPUB-PAGE-001': 'AA',
     'EPUB-FIG-001': 'A',
+    'EPUB-MATH-001': 'A',
+    'EPUB-MATH-002': 'A',
+    'EPUB-MATH-003': 'A',
     'EPUB-CONTRAST-001': 'AA',
     'COLOR-CONTRAST': 'AA',
 
@@ -193,6 +223,10 @@ export function extractSeverity(ruleId: string): string {
     'PDF-NO-CREATOR': 'MINOR',       // Creator metadata
     'PDF-NO-METADATA': 'MINOR',      // General metadata
 
+    // PDF link remediation
+    'LINK-URL-AS-TEXT': 'MAJOR',     // URL read out character by character
+    'LINK-BARE-URL': 'MINOR',        // URL readable, just not clickable
+
     // EPUB codes (default to MAJOR)
     'EPUB-META-001': 'MAJOR',
     'EPUB-META-002': 'MAJOR',
@@ -37,6 +37,18 @@ interface BatchHITLEmailData {
   reviewUrl: string;
 }
 
+interface HITLEscalationEmailData {
+  userName: string;
+  userEmail: string;
+  workflowId: string;
+  fileName: string;
+  gateName: string;
+  action: 'remind' | 'reassign' | 'notify-manager';
+  hoursOpen: number;
+  ownerName: string;
+  reviewUrl: string;
+}
+
 class EmailService {
   private transporter: nodemailer.Transporter;
   private from: string;
@@ -89,6 +101,22 @@ class EmailService {
     logger.info(`[Email] HITL gate email sent to ${data.userEmail} for batch ${data.batchId} (${data.gateName})`);
   }
 
+  async sendHITLEscalationEmail(data: HITLEscalationEmailData): Promise<void> {
+    const subjects: Record<HITLEscalationEmailData['action'], string> = {
+      'remind': `Reminder: ${data.gateName} waiting - ${data.fileName}`,
+      'reassign': `Reassigned to you: ${data.gateName} - ${data.fileName}`,
+      'notify-manager': `Escalation: ${data.gateName} overdue - ${data.fileName}`,
+    };
+    await this.transporter.sendMail({
+      from: `"Ninja Platform" <${this.from}>`,
+      to: data.userEmail,
+      subject: subjects[data.action],
+      text: this.buildEscalationText(data),
+      html: this.buildEscalationHtml(data),
+    });
+    logger.info(`[Email] HITL escalation (${data.action}) email sent to ${data.userEmail} for workflow ${data.workflowId}`);
+  }
+
   async sendBatchFailureEmail(data: BatchFailureEmailData): Promise<void> {
     await this.transporter.sendMail({
       from: `"Ninja Platform" <${this.from}>`,
@@ -226,6 +254,62 @@ Review Now: ${data.reviewUrl}
 
 Processing will remain paused until you complete this review step.
 
+---
+This is an automated notification from Ninja Platform.`;
+  }
+
+  private escalationMessage(data: HITLEscalationEmailData): string {
+    const waiting = `has been waiting at the ${data.gateName} gate for ${data.hoursOpen} hour(s)`;
+    switch (data.action) {
+      case 'remind':
+        return `"${data.fileName}" ${waiting} and is assigned to you.`;
+      case 'reassign':
+        return `"${data.fileName}" ${waiting} and has been reassigned to ${data.ownerName}.`;
+      case 'notify-manager':
+        return `"${data.fileName}" ${waiting}. It is currently owned by ${data.ownerName} and needs attention.`;
+    }
+  }
+
+  private buildEscalationHtml(data: HITLEscalationEmailData): string {
+    return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="font-family: Arial, sans-serif; line-height: 1.6; color: #333; max-width: 600px; margin: 0 auto; padding: 20px;">
+  <div style="background: linear-gradient(135deg, #f59e0b 0%, #d97706 100%); color: white; padding: 30px; text-align: center; border-radius: 8px 8px 0 0;">
+    <h1 style="margin: 0;">${data.action === 'notify-manager' ? 'Review Overdue' : 'Review Waiting'}</h1>
+    <p style="margin: 8px 0 0;">${data.gateName}</p>
+  </div>
+  <div style="background: #f9fafb; padding: 30px; border: 1px solid #e5e7eb; border-top: none;">
+    <p>Hi ${data.userName},</p>
+    <p>${this.escalationMessage(data)}</p>
+    <p style="text-align: center;">
+      <a href="${data.reviewUrl}" style="display: inline-block; background: #f59e0b; color: white; padding: 14px 28px; text-decoration: none; border-radius: 6px; font-weight: 600;">Open Review</a>
+    </p>
+    <p style="color: #6b7280; font-size: 14px;">
+      Processing will remain paused until this review step is completed.
+    </p>
+  </div>
+  <div style="text-align: center; padding: 20px; color: #6b7280; font-size: 14px;">
+    <p>This is an automated notification from Ninja Platform.</p>
+  </div>
+</body>
+</html>`;
+  }
+
+  private buildEscalationText(data: HITLEscalationEmailData): string {
+    return `${data.action === 'notify-manager' ? 'Review Overdue' : 'Review Waiting'}: ${data.gateName}
+
+Hi ${data.userName},
+
+${this.escalationMessage(data)}
+
+Open Review: ${data.reviewUrl}
+
+Processing will remain paused until this review step is completed.
+
 ---
 This is an automated notification from Ninja Platform.`;
   }
@@ -1,26 +1,18 @@
 import { epubModifier } from './epub-modifier.service';
+import { mathmlRemediation } from './mathml-remediation.service';
 import { remediationService } from './remediation.service';
 import { logger } from '../../lib/logger';
 import prisma from '../../lib/prisma';
 import JSZip from 'jszip';
 import { isAutoFixable } from '../../constants/fix-classification';
 import { ComparisonService, mapFixTypeToChangeType, extractWcagCriteria, extractWcagLevel } from '../comparison';
+import { findProfileRemediator, getBuiltInProfiles } from './profiles/profile-registry';
 import {
-  fixConformsTo,
-  fixCertifiedBy,
-  fixCertifierCredential,
-  fixCertifierLink,
-  fixTdmReservation,
-  fixA11ySummaryUrl,
-  fixXmlLang,
-  fixDecorativeRole,
-  fixDeprecatedTags,
-  fixInlineStyles,
-  fixEpubTypePlacement,
-  addDocAriaRoles,
-  fixBodyPurity,
-  fixPagebreakMalformed,
-} from './profiles/prh-uk';
+  loadFixedLayoutInput,
+  fixFixedLayoutViewport,
+  addFixedLayoutSummaryCaveat,
+} from './profiles/fixed-layout';
+import { FIXED_LAYOUT_MANUAL_CODES } from '../../constants/fixed-layout-issue-codes';
 
 const comparisonService = new ComparisonService(prisma);
 
@@ -100,6 +92,15 @@ class AutoRemediationService {
     'EPUB-FIG-001': async (zip) => {
       return epubModifier.addFigureStructure(zip);
     },
+    'EPUB-MATH-001': async (zip) => {
+      return mathmlRemediation.remediate(zip);
+    },
+    'EPUB-MATH-002': async (zip) => {
+      return mathmlRemediation.remediate(zip, { convertLatexImages: true });
+    },
+    'EPUB-MATH-003': async (zip) => {
+      return mathmlRemediation.remediate(zip);
+    },
     // ACE metadata code handlers - map to equivalent EPUB-META handlers
     'METADATA-ACCESSMODE': async (zip) => {
       return epubModifier.addAccessModes(zip, { textual: true });
@@ -152,39 +153,11 @@ class AutoRemediationService {
       }
       return epubModifier.fixColorContrast(_zip, contrastIssues);
     },
-    // ── PRH UK profile metadata fixes ────────────────────────────────────
-    // Each writes a single literal PRH-required metadata field back into
-    // the OPF. They're independently re-runnable; calling one twice is a
-    // no-op once the value matches.
-    'PRH-META-CONFORMS-TO': async (zip) => fixConformsTo(zip),
-    'PRH-META-CERTIFIED-BY': async (zip) => fixCertifiedBy(zip),
-    'PRH-META-CERTIFIER-CRED': async (zip) => fixCertifierCredential(zip),
-    'PRH-META-CERTIFIER-LINK': async (zip) => fixCertifierLink(zip),
-    'PRH-META-TDM-RESERVATION': async (zip) => fixTdmReservation(zip),
-    'PRH-META-A11Y-SUMMARY-URL': async (zip) => fixA11ySummaryUrl(zip),
-    // ── PRH UK profile per-XHTML fix ─────────────────────────────────────
-    // Walks every XHTML/HTML file ensuring <html> carries BOTH lang and
-    // xml:lang. Stricter than EPUB-SEM-001 (which only requires lang).
-    'PRH-XHTML-XML-LANG': async (zip) => fixXmlLang(zip),
-    // ── PRH UK profile image fix ─────────────────────────────────────────
-    // Adds role="presentation" to <img alt=""> elements that lack it.
-    // Complements addDecorativeAltAttributes which only emits the role
-    // when also adding a missing alt.
-    'PRH-DECORATIVE-MISSING-PRESENTATION-ROLE': async (zip) => fixDecorativeRole(zip),
-    // ── PRH UK markup auto-fixes (P5/PR3) ────────────────────────────────
-    // Mechanical text/markup transformations for P3 detect-only codes.
-    // Idempotent; safe to re-run; conservative thresholds for the
-    // FP-prone cases (inline-style auto-strip caps at 50 per file).
-    'PRH-MARKUP-DEPRECATED-TAG': async (zip) => fixDeprecatedTags(zip),
-    'PRH-MARKUP-INLINE-STYLE': async (zip) => fixInlineStyles(zip),
-    'PRH-MARKUP-EPUB-TYPE-MISPLACED': async (zip) => fixEpubTypePlacement(zip),
-    'PRH-ARIA-CHAPTER-ROLE-MISSING': async (zip) => addDocAriaRoles(zip),
-    'PRH-ARIA-PART-ROLE-MISSING': async (zip) => addDocAriaRoles(zip),
-    'PRH-ARIA-DEDICATION-ROLE-MISSING': async (zip) => addDocAriaRoles(zip),
-    'PRH-ARIA-EPIGRAPH-ROLE-MISSING': async (zip) => addDocAriaRoles(zip),
-    'PRH-ARIA-APPENDIX-ROLE-MISSING': async (zip) => addDocAriaRoles(zip),
-    'PRH-BODY-HAS-ARIA': async (zip) => fixBodyPurity(zip),
-    'PRH-PAGEBREAK-MALFORMED': async (zip) => fixPagebreakMalformed(zip),
+    // Fixed-layout profile — viewport + summary caveat. Both touch only
+    // <head> / OPF metadata so positioned page content is left intact.
+    'FXL-VIEWPORT-MISSING': async (zip) => fixFixedLayoutViewport(zip),
+    'FXL-VIEWPORT-INVALID': async (zip) => fixFixedLayoutViewport(zip),
+    'FXL-SUMMARY-CAVEAT': async (zip) => addFixedLayoutSummaryCaveat(zip),
   };
 
   async runAutoRemediation(
@@ -225,7 +198,33 @@ class AutoRemediationService {
 
       logger.info(`Deduplicated to ${tasksByIssueCode.size} unique issue types`);
 
-      for (const [issueCode, tasks] of tasksByIssueCode.entries()) {
+      // Plans built before the fixed-layout profile existed can still list
+      // reflowable markup fixes as auto; never run those on pre-paginated pages.
+      const fixedLayout = await loadFixedLayoutInput(zip);
+      const fixedLayoutPaths = fixedLayout?.rendition.spine
+        .filter(item => item.layout === 'pre-paginated')
+        .map(item => item.path) ?? [];
+      const isFixedLayoutBook = fixedLayout?.rendition.layout === 'pre-paginated';
+
+      for (const [issueCode, allTasks] of tasksByIssueCode.entries()) {
+        const fixedLayoutReason = FIXED_LAYOUT_MANUAL_CODES[issueCode];
+        const tasks = fixedLayoutReason
+          ? allTasks.filter(task => {
+              const file = task.location?.split('#')[0];
+              const onFixedPage = isFixedLayoutBook || (!!file && fixedLayoutPaths.some(p => p.endsWith(file)));
+              if (!onFixedPage) return true;
+              modifications.push({
+                issueCode: task.issueCode,
+                taskId: task.id,
+                success: false,
+                description: `Skipped on fixed-layout content: ${fixedLayoutReason}`,
+                status: 'skipped',
+              });
+              return false;
+            })
+          : allTasks;
+        if (tasks.length === 0) continue;
+
         if (!isAutoFixable(issueCode)) {
           logger.warn(`Issue ${issueCode} is not auto-fixable, skipping ${tasks.length} task(s)`);
           for (const task of tasks) {
@@ -240,7 +239,9 @@ class AutoRemediationService {
           continue;
         }
 
-        const handler = this.remediationHandlers[issueCode];
+        // Publisher-specific codes (PRH-*) are fixed by the remediators
+        // their profile registers rather than by this table.
+        const handler = this.remediationHandlers[issueCode] ?? findProfileRemediator(issueCode);
         
         if (!handler) {
           for (const task of tasks) {
@@ -423,7 +424,10 @@ class AutoRemediationService {
   }
 
   getSupportedIssueCodes(): string[] {
-    return Object.keys(this.remediationHandlers);
+    return [
+      ...Object.keys(this.remediationHandlers),
+      ...getBuiltInProfiles().flatMap(profile => Object.keys(profile.remediators)),
+    ];
   }
 }
 
@@ -11,7 +11,9 @@ import { epubJSAuditor } from './epub-js-auditor.service';
 import { callAceMicroservice } from './ace-client.service';
 import { detectPublisherProfile } from './profiles/profile-detector.service';
 import { NO_PROFILE, type PublisherProfile } from './profiles/types';
-import { runPrhUkValidators } from './profiles/prh-uk';
+import { getBuiltInProfiles, getProfileDefinition } from './profiles/profile-registry';
+import { loadJobProfiles } from './profiles/profile-config.service';
+import { runFixedLayoutValidators, type RenditionLayout } from './profiles/fixed-layout';
 import { captureIssueSnapshot, compareSnapshots, clearSnapshots } from '../../utils/issue-flow-logger';
 import { getFixType } from '../../constants/fix-classification';
 import { s3Service } from '../s3.service';
@@ -66,7 +68,7 @@ interface AceResult {
 
 interface AccessibilityIssue {
   id: string;
-  source: 'epubcheck' | 'ace' | 'js-auditor' | 'prh-uk';
+  source: 'epubcheck' | 'ace' | 'js-auditor' | 'prh-uk' | 'publisher-profile' | 'fixed-layout';
   severity: 'critical' | 'serious' | 'moderate' | 'minor';
   code: string;
   message: string;
@@ -122,6 +124,8 @@ interface EpubAuditResult {
     ace: { critical: number; serious: number; moderate: number; minor: number; total: number };
     'js-auditor': { critical: number; serious: number; moderate: number; minor: number; total: number; autoFixable: number };
     'prh-uk': { critical: number; serious: number; moderate: number; minor: number; total: number; autoFixable: number };
+    'publisher-profile': { critical: number; serious: number; moderate: number; minor: number; total: number; autoFixable: number };
+    'fixed-layout': { critical: number; serious: number; moderate: number; minor: number; total: number; autoFixable: number };
   };
   classificationStats: {
     autoFixable: number;
@@ -143,6 +147,17 @@ interface EpubAuditResult {
    * service's `buildPrhCoverAlt` helper.
    */
   bookTitle: string | null;
+  /**
+   * Package-level `rendition:layout`. Remediation planning and ACR
+   * generation read this to swap reflowable fixes and remarks for their
+   * fixed-layout equivalents.
+   */
+  renditionLayout: RenditionLayout;
+  /**
+   * Pre-paginated spine documents (zip paths). Non-empty for fully fixed
+   * books and for reflowable books with fixed-layout inserts.
+   */
+  fixedLayoutDocuments: string[];
   coverage: {
     totalFiles: number;
     filesScanned: number;
@@ -297,17 +312,26 @@ class EpubAuditService {
       }
 
       // Detect publisher profile and run profile-gated validators (e.g.
-      // PRH UK metadata + spine). Profile detection itself is best-effort —
+      // PRH UK metadata + spine). Profiles come from the job tenant's
+      // registry configuration. Profile detection itself is best-effort —
       // failures fall back to NO_PROFILE without breaking the audit. The
       // profile is attached to the audit result regardless of confidence,
       // but validators only run on `medium` or `high` confidence to avoid
-      // false-positive PRH issues on incidental signal matches.
+      // false-positive publisher issues on incidental signal matches.
       // Defensive try/catch: detectPublisherProfile catches its own errors
       // internally, but we belt-and-braces it here so any unforeseen throw
       // (e.g. logger failure, weird buffer shape) cannot break the audit.
+      let profiles = getBuiltInProfiles();
+      try {
+        profiles = await loadJobProfiles(jobId);
+      } catch (configErr) {
+        logger.warn(
+          `[Profile] could not load tenant profiles: ${configErr instanceof Error ? configErr.message : 'Unknown error'} — using built-ins`,
+        );
+      }
       let publisherProfile: PublisherProfile = NO_PROFILE;
       try {
-        publisherProfile = await detectPublisherProfile(buffer);
+        publisherProfile = await detectPublisherProfile(buffer, profiles);
         if (publisherProfile.publisher) {
           logger.info(
             `[Profile] Detected ${publisherProfile.publisher} (imprint=${publisherProfile.imprint}, confidence=${publisherProfile.confidence}, signals=${publisherProfile.signals.length})`,
@@ -318,14 +342,16 @@ class EpubAuditService {
           `[Profile] detection threw: ${profileErr instanceof Error ? profileErr.message : 'Unknown error'} — falling back to NO_PROFILE`,
         );
       }
-      if (publisherProfile.publisher === 'PRH-UK' && publisherProfile.confidence !== 'low') {
+      const profileDefinition = getProfileDefinition(publisherProfile.publisher, profiles);
+      if (profileDefinition?.runValidators && publisherProfile.confidence !== 'low') {
         try {
-          const prhIssues = await runPrhUkValidators(buffer, publisherProfile);
-          logger.info(`[PRH] validators emitted ${prhIssues.length} issues`);
-          for (const v of prhIssues) {
+          const profileIssues = await profileDefinition.runValidators(buffer, publisherProfile);
+          logger.info(`[Profile] ${profileDefinition.id} validators emitted ${profileIssues.length} issues`);
+          const idPrefix = profileDefinition.issueSource === 'prh-uk' ? 'prh' : 'profile';
+          for (const v of profileIssues) {
             combinedIssues.push({
-              id: `prh-${this.issueCounter++}`,
-              source: 'prh-uk',
+              id: `${idPrefix}-${this.issueCounter++}`,
+              source: profileDefinition.issueSource,
               severity: v.severity,
               code: v.code,
               message: v.message,
@@ -335,11 +361,44 @@ class EpubAuditService {
               category: 'publisher-profile',
             });
           }
-        } catch (prhErr) {
-          logger.warn(`PRH validators failed: ${prhErr instanceof Error ? prhErr.message : 'Unknown error'}`);
+        } catch (profileErr) {
+          logger.warn(`${profileDefinition.id} validators failed: ${profileErr instanceof Error ? profileErr.message : 'Unknown error'}`);
         }
       }
 
+      // Fixed-layout validators run for any package with pre-paginated
+      // spine items, independent of the publisher profile — Ladybird and
+      // Puffin picture books get both the PRH and the fixed-layout rules.
+      let renditionLayout: RenditionLayout = 'reflowable';
+      let fixedLayoutDocuments: string[] = [];
+      try {
+        const fxl = await runFixedLayoutValidators(buffer);
+        if (fxl.rendition) {
+          renditionLayout = fxl.rendition.layout;
+          fixedLayoutDocuments = fxl.rendition.spine
+            .filter(item => item.layout === 'pre-paginated')
+            .map(item => item.path);
+        }
+        if (fixedLayoutDocuments.length > 0) {
+          logger.info(`[FXL] ${fixedLayoutDocuments.length} pre-paginated documents; validators emitted ${fxl.issues.length} issues`);
+        }
+        for (const v of fxl.issues) {
+          combinedIssues.push({
+            id: `fxl-${this.issueCounter++}`,
+            source: 'fixed-layout',
+            severity: v.severity,
+            code: v.code,
+            message: v.message,
+            wcagCriteria: v.wcag.length > 0 ? v.wcag : undefined,
+            location: v.location,
+            suggestion: v.suggestion,
+            category: 'fixed-layout',
+          });
+        }
+      } catch (fxlErr) {
+        logger.warn(`Fixed-layout validators failed: ${fxlErr instanceof Error ? fxlErr.message : 'Unknown error'}`);
+      }
+
       captureIssueSnapshot('3_BEFORE_DEDUPLICATION', combinedIssues as unknown as Record<string, unknown>[], true);
 
       logger.info('\nFINAL DEDUPLICATION:');
@@ -439,6 +498,22 @@ class EpubAuditService {
           total: deduplicatedIssues.filter(i => i.source === 'prh-uk').length,
           autoFixable: deduplicatedIssues.filter(i => i.source === 'prh-uk' && getFixType(i.code) === 'auto').length,
         },
+        'publisher-profile': {
+          critical: deduplicatedIssues.filter(i => i.source === 'publisher-profile' && i.severity === 'critical').length,
+          serious: deduplicatedIssues.filter(i => i.source === 'publisher-profile' && i.severity === 'serious').length,
+          moderate: deduplicatedIssues.filter(i => i.source === 'publisher-profile' && i.severity === 'moderate').length,
+          minor: deduplicatedIssues.filter(i => i.source === 'publisher-profile' && i.severity === 'minor').length,
+          total: deduplicatedIssues.filter(i => i.source === 'publisher-profile').length,
+          autoFixable: deduplicatedIssues.filter(i => i.source === 'publisher-profile' && getFixType(i.code) === 'auto').length,
+        },
+        'fixed-layout': {
+          critical: deduplicatedIssues.filter(i => i.source === 'fixed-layout' && i.severity === 'critical').length,
+          serious: deduplicatedIssues.filter(i => i.source === 'fixed-layout' && i.severity === 'serious').length,
+          moderate: deduplicatedIssues.filter(i => i.source === 'fixed-layout' && i.severity === 'moderate').length,
+          minor: deduplicatedIssues.filter(i => i.source === 'fixed-layout' && i.severity === 'minor').length,
+          total: deduplicatedIssues.filter(i => i.source === 'fixed-layout').length,
+          autoFixable: deduplicatedIssues.filter(i => i.source === 'fixed-layout' && getFixType(i.code) === 'auto').length,
+        },
       };
 
       const classificationStats = {
@@ -485,6 +560,8 @@ class EpubAuditService {
         accessibilityMetadata: aceResult?.metadata || null,
         publisherProfile,
         bookTitle,
+        renditionLayout,
+        fixedLayoutDocuments,
         coverage,
         auditedAt: new Date(),
       };
@@ -2,6 +2,7 @@ import JSZip from 'jszip';
 import * as cheerio from 'cheerio';
 import crypto from 'crypto';
 import { logger } from '../../lib/logger';
+import { extractLatex, hasMathAlternative, isEquationImage } from './mathml-remediation.service';
 
 type Severity = 'critical' | 'serious' | 'moderate' | 'minor';
 
@@ -34,6 +35,8 @@ interface JSAuditResult {
     imagesWithoutAlt: number;
     emptyLinks: number;
     tablesWithoutHeaders: number;
+    mathExpressions: number;
+    equationImages: number;
   };
 }
 
@@ -46,6 +49,8 @@ class EPUBJSAuditorService {
       imagesWithoutAlt: 0,
       emptyLinks: 0,
       tablesWithoutHeaders: 0,
+      mathExpressions: 0,
+      equationImages: 0,
     };
 
     const createIssue = (data: Omit<AccessibilityIssue, 'id'>): AccessibilityIssue => {
@@ -119,6 +124,19 @@ class EPUBJSAuditorService {
         }));
       }
 
+      // MathML in the content must be declared so reading systems and
+      // catalogues can advertise it
+      if (stats.mathExpressions > 0 && !metadata.accessibilityFeatures.includes('MathML')) {
+        issues.push(createIssue({
+          code: 'EPUB-MATH-003',
+          severity: 'moderate',
+          message: `Publication contains ${stats.mathExpressions} MathML expression(s) but does not declare MathML`,
+          location: opf?.path,
+          suggestion: 'Add schema:accessibilityFeature MathML (and describedMath when all math has alttext) and the mathml manifest property',
+          category: 'metadata',
+        }));
+      }
+
       return {
         issues,
         metadata: {
@@ -284,6 +302,50 @@ class EPUBJSAuditorService {
       }));
     }
 
+    const mathWithoutAlt: string[] = [];
+    $('*').each((_, el) => {
+      const tagName = (el as { tagName?: string }).tagName || '';
+      if (tagName.replace(/^[\w-]+:/, '') !== 'math') return;
+      stats.mathExpressions++;
+      if (!hasMathAlternative($(el).attr() ?? {})) {
+        mathWithoutAlt.push($.html(el));
+      }
+    });
+
+    if (mathWithoutAlt.length > 0) {
+      issues.push(createIssue({
+        code: 'EPUB-MATH-001',
+        severity: 'serious',
+        message: `${mathWithoutAlt.length} MathML expression(s) missing alttext`,
+        wcagCriteria: '1.1.1',
+        location: filePath,
+        suggestion: 'Add an alttext attribute describing each math element',
+        category: 'math',
+        element: mathWithoutAlt[0],
+      }));
+    }
+
+    const equationImages: Array<{ src: string; alt?: string; latex: boolean }> = [];
+    $('img').each((_, el) => {
+      const attribs = $(el).attr() ?? {};
+      if (!isEquationImage(attribs)) return;
+      stats.equationImages++;
+      equationImages.push({ src: attribs.src || '', alt: attribs.alt, latex: extractLatex(attribs.alt) !== null });
+    });
+
+    if (equationImages.length > 0) {
+      issues.push(createIssue({
+        code: 'EPUB-MATH-002',
+        severity: 'serious',
+        message: `${equationImages.length} equation(s) rendered only as images`,
+        wcagCriteria: '1.1.1',
+        location: filePath,
+        suggestion: 'Replace equation images with MathML; LaTeX in the alt text can be converted automatically',
+        category: 'math',
+        context: JSON.stringify({ images: equationImages }),
+      }));
+    }
+
     let localEmptyLinks = 0;
     $('a').each((_, el) => {
       const $el = $(el);
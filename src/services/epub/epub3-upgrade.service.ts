@@ -0,0 +1,474 @@
+/**
+ * @fileoverview EPUB 2 to EPUB 3 upgrade.
+ * Backlist titles often ship as EPUB 2 with only an NCX and a guide, which the
+ * rest of the remediation pipeline (nav, landmarks, page-list fixes) cannot
+ * work with. The upgrade:
+ *   - converts the OPF to version 3.0: dcterms:modified, `opf:` attributes
+ *     rewritten as refines metadata, and the manifest properties EPUB 3
+ *     requires (nav, cover-image, svg, mathml, scripted, remote-resources);
+ *   - generates the XHTML nav document from the NCX (toc and page-list);
+ *   - maps guide references to a landmarks nav;
+ *   - converts content documents to the HTML5 doctype with the epub namespace.
+ * The NCX and guide are kept for EPUB 2 reading systems.
+ */
+
+import JSZip from 'jszip';
+import * as cheerio from 'cheerio';
+import path from 'path';
+import { logger } from '../../lib/logger';
+import { AppError } from '../../utils/app-error';
+import { epubModifier, type ModificationResult } from './epub-modifier.service';
+
+const EPUB_NS = 'http://www.idpf.org/2007/ops';
+
+/**
+ * EPUB 2 guide reference types and the EPUB 3 structural semantics they map
+ * to in the landmarks nav. Types without an equivalent are dropped.
+ */
+const GUIDE_TO_LANDMARK: Record<string, string> = {
+  'cover': 'cover',
+  'title-page': 'titlepage',
+  'toc': 'toc',
+  'index': 'index',
+  'glossary': 'glossary',
+  'acknowledgements': 'acknowledgments',
+  'bibliography': 'bibliography',
+  'colophon': 'colophon',
+  'copyright-page': 'copyright-page',
+  'dedication': 'dedication',
+  'epigraph': 'epigraph',
+  'foreword': 'foreword',
+  'loi': 'loi',
+  'lot': 'lot',
+  'notes': 'endnotes',
+  'preface': 'preface',
+  'text': 'bodymatter',
+};
+
+/** dc:creator / dc:contributor elements, which carry opf:role and opf:file-as in EPUB 2 */
+const CONTRIBUTOR_ELEMENTS = /<dc:(creator|contributor)\b([^>]*)>([\s\S]*?)<\/dc:\1>/gi;
+
+export interface Epub3UpgradeResult {
+  fromVersion: string;
+  navPath: string;
+  tocEntries: number;
+  pageListEntries: number;
+  landmarks: number;
+  contentDocuments: number;
+  results: ModificationResult[];
+}
+
+interface NavEntry {
+  label: string;
+  href: string;
+  children: NavEntry[];
+}
+
+interface Landmark {
+  type: string;
+  label: string;
+  href: string;
+}
+
+interface ManifestItem {
+  id: string;
+  href: string;
+  path: string;
+  mediaType: string;
+  tag: string;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function attr(tag: string, name: string): string | undefined {
+  const match = tag.match(new RegExp(`\\s${name.replace(':', '\\:')}\\s*=\\s*["']([^"']*)["']`, 'i'));
+  return match?.[1];
+}
+
+/**
+ * Rebase an href from one directory to another, keeping any fragment.
+ */
+function rebaseHref(href: string, fromDir: string, toDir: string): string {
+  const [file, fragment] = href.split('#');
+  if (!file) return href;
+  const rebased = path.posix.relative(toDir, path.posix.join(fromDir, file)) || path.posix.basename(file);
+  return fragment !== undefined ? `${rebased}#${fragment}` : rebased;
+}
+
+function renderNavList(entries: NavEntry[], indent: string): string {
+  const items = entries.map(entry => {
+    const link = `<a href="${escapeXml(entry.href)}">${escapeXml(entry.label)}</a>`;
+    if (entry.children.length === 0) {
+      return `${indent}  <li>${link}</li>`;
+    }
+    return `${indent}  <li>${link}\n${renderNavList(entry.children, indent + '    ')}\n${indent}  </li>`;
+  });
+  return `${indent}<ol>\n${items.join('\n')}\n${indent}</ol>`;
+}
+
+function countEntries(entries: NavEntry[]): number {
+  return entries.reduce((sum, entry) => sum + 1 + countEntries(entry.children), 0);
+}
+
+/**
+ * References that pull a remote resource into the rendering: embedded
+ * media, scripts, stylesheets and CSS url() / @import. Hyperlinks
+ * (`<a href>`) navigate away and do not count.
+ */
+const REMOTE_RESOURCE_PATTERNS = [
+  /<(?:img|audio|video|source|track|iframe|embed|script|input)\b[^>]*\ssrc\s*=\s*["']https?:\/\//i,
+  /<video\b[^>]*\sposter\s*=\s*["']https?:\/\//i,
+  /<object\b[^>]*\sdata\s*=\s*["']https?:\/\//i,
+  /<link\b(?=[^>]*\srel\s*=\s*["'][^"']*stylesheet)[^>]*\shref\s*=\s*["']https?:\/\//i,
+  /<(?:svg:)?image\b[^>]*\s(?:xlink:)?href\s*=\s*["']https?:\/\//i,
+  /url\(\s*["']?https?:\/\//i,
+  /@import\s+["']https?:\/\//i,
+];
+
+function hasRemoteResources(content: string): boolean {
+  return REMOTE_RESOURCE_PATTERNS.some(pattern => pattern.test(content));
+}
+
+/** EPUB 3 manifest properties a content document's markup requires. */
+function contentDocumentProperties(content: string): string[] {
+  const properties: string[] = [];
+  if (/<(?:svg:)?svg\b/i.test(content)) properties.push('svg');
+  if (/<(?:[\w-]+:)?math\b/i.test(content)) properties.push('mathml');
+  if (/<script\b/i.test(content)) properties.push('scripted');
+  if (hasRemoteResources(content)) properties.push('remote-resources');
+  return properties;
+}
+
+class Epub3UpgradeService {
+  /**
+   * Package version declared in the OPF (e.g. "2.0" or "3.0").
+   *
+   * @returns The version, or null when the OPF cannot be located
+   */
+  async getVersion(zip: JSZip): Promise<string | null> {
+    const opf = await epubModifier.getOPF(zip);
+    if (!opf) return null;
+    const packageTag = opf.content.match(/<package\b[^>]*>/i)?.[0] ?? '';
+    return attr(packageTag, 'version') ?? null;
+  }
+
+  /**
+   * Upgrade an EPUB 2 package to EPUB 3 in place.
+   *
+   * @param zip - Loaded EPUB (modified in place)
+   * @returns What was generated and the modifications made
+   * @throws AppError 409 ALREADY_EPUB3 when the package is already EPUB 3
+   * @throws AppError 422 OPF_NOT_FOUND / NCX_NOT_FOUND when the package cannot be upgraded
+   */
+  async upgrade(zip: JSZip): Promise<Epub3UpgradeResult> {
+    const opf = await epubModifier.getOPF(zip);
+    if (!opf) {
+      throw AppError.unprocessable('Failed to locate OPF file', 'OPF_NOT_FOUND');
+    }
+
+    const packageTag = opf.content.match(/<package\b[^>]*>/i)?.[0] ?? '';
+    const fromVersion = attr(packageTag, 'version') ?? 'unknown';
+    if (fromVersion.startsWith('3')) {
+      throw AppError.conflict(`EPUB is already version ${fromVersion}`, 'ALREADY_EPUB3');
+    }
+
+    const opfDir = path.posix.dirname(opf.path);
+    const manifest = this.readManifest(opf.content, opfDir);
+
+    const spineTag = opf.content.match(/<spine\b[^>]*>/i)?.[0] ?? '';
+    const ncxId = attr(spineTag, 'toc');
+    const ncxItem = manifest.find(item => item.id === ncxId)
+      ?? manifest.find(item => item.mediaType === 'application/x-dtbncx+xml');
+    const ncxContent = ncxItem ? await zip.file(ncxItem.path)?.async('text') : undefined;
+    if (!ncxItem || !ncxContent) {
+      throw AppError.unprocessable('EPUB 2 package has no NCX to build the navigation document from', 'NCX_NOT_FOUND');
+    }
+
+    const results: ModificationResult[] = [];
+
+    // Nav document sits next to the NCX so NCX hrefs stay valid unchanged
+    const ncxDir = path.posix.dirname(ncxItem.path);
+    const navPath = this.uniquePath(zip, ncxDir, 'nav', '.xhtml');
+    const $ncx = cheerio.load(ncxContent, { xmlMode: true });
+
+    const readNavPoints = (points: ReturnType<typeof $ncx>): NavEntry[] =>
+      points.toArray().map(point => {
+        const $point = $ncx(point);
+        return {
+          label: $point.children('navLabel').first().find('text').first().text().trim(),
+          href: $point.children('content').first().attr('src') ?? '',
+          children: readNavPoints($point.children('navPoint')),
+        };
+      }).filter(entry => entry.label && entry.href);
+
+    const toc = readNavPoints($ncx('navMap').first().children('navPoint'));
+    const pageList = $ncx('pageList pageTarget').toArray().map(target => ({
+      label: $ncx(target).find('navLabel text').first().text().trim(),
+      href: $ncx(target).find('content').first().attr('src') ?? '',
+      children: [],
+    })).filter(entry => entry.label && entry.href);
+
+    const $opf = cheerio.load(opf.content, { xmlMode: true });
+    const landmarks: Landmark[] = [];
+    $opf('guide reference').each((_, reference) => {
+      const type = $opf(reference).attr('type')?.toLowerCase();
+      const href = $opf(reference).attr('href');
+      const landmark = type ? GUIDE_TO_LANDMARK[type] : undefined;
+      if (!landmark || !href) return;
+      landmarks.push({
+        type: landmark,
+        label: $opf(reference).attr('title') || landmark,
+        href: rebaseHref(href, opfDir, ncxDir),
+      });
+    });
+
+    const language = $opf('dc\\:language').first().text().trim() || 'en';
+    const title = $ncx('docTitle text').first().text().trim()
+      || $opf('dc\\:title').first().text().trim()
+      || 'Contents';
+
+    zip.file(navPath, this.renderNavDocument({ title, language, toc, pageList, landmarks }));
+    results.push({
+      success: true,
+      filePath: navPath,
+      modificationType: 'generate_nav',
+      description:
+        `Generated EPUB 3 navigation document from ${ncxItem.path}: ${countEntries(toc)} toc entries, ` +
+        `${pageList.length} page-list entries, ${landmarks.length} landmarks`,
+    });
+
+    // Content documents: HTML5 doctype and epub namespace
+    let contentDocuments = 0;
+    const contentProperties = new Map<string, string[]>();
+    for (const item of manifest) {
+      if (item.mediaType === 'text/css') {
+        const css = await zip.file(item.path)?.async('text');
+        if (css && hasRemoteResources(css)) contentProperties.set(item.id, ['remote-resources']);
+        continue;
+      }
+      if (item.mediaType !== 'application/xhtml+xml') continue;
+      const content = await zip.file(item.path)?.async('text');
+      if (!content) continue;
+
+      const converted = this.convertContentDocument(content);
+      if (converted !== content) {
+        zip.file(item.path, converted);
+        contentDocuments++;
+      }
+
+      const properties = contentDocumentProperties(converted);
+      if (properties.length > 0) contentProperties.set(item.id, properties);
+    }
+    if (contentDocuments > 0) {
+      results.push({
+        success: true,
+        filePath: 'all',
+        modificationType: 'convert_doctype',
+        description: `Converted ${contentDocuments} content document(s) to the HTML5 doctype`,
+      });
+    }
+
+    const coverId = opf.content.match(/<meta\b(?=[^>]*\bname\s*=\s*["']cover["'])[^>]*>/i)?.[0];
+    const coverImageId = coverId ? attr(coverId, 'content') : undefined;
+    if (coverImageId && manifest.some(item => item.id === coverImageId && item.mediaType.startsWith('image/'))) {
+      contentProperties.set(coverImageId, [...(contentProperties.get(coverImageId) ?? []), 'cover-image']);
+    }
+
+    const upgradedOpf = this.upgradeOpf(opf.content, manifest, {
+      navHref: path.posix.relative(opfDir, navPath),
+      properties: contentProperties,
+    });
+    await epubModifier.updateOPF(zip, opf.path, upgradedOpf);
+    results.push({
+      success: true,
+      filePath: opf.path,
+      modificationType: 'upgrade_opf',
+      description: `Upgraded package from version ${fromVersion} to 3.0`,
+      before: packageTag,
+      after: upgradedOpf.match(/<package\b[^>]*>/i)?.[0],
+    });
+
+    logger.info(
+      `[EPUB3 Upgrade] Upgraded ${fromVersion} package: nav ${navPath}, ` +
+      `${countEntries(toc)} toc entries, ${landmarks.length} landmarks, ${contentDocuments} content document(s)`
+    );
+
+    return {
+      fromVersion,
+      navPath,
+      tocEntries: countEntries(toc),
+      pageListEntries: pageList.length,
+      landmarks: landmarks.length,
+      contentDocuments,
+      results,
+    };
+  }
+
+  private readManifest(opfContent: string, opfDir: string): ManifestItem[] {
+    const items: ManifestItem[] = [];
+    for (const match of opfContent.matchAll(/<item\b[^>]*>/gi)) {
+      const id = attr(match[0], 'id');
+      const href = attr(match[0], 'href');
+      if (!id || !href) continue;
+      items.push({
+        id,
+        href,
+        path: path.posix.join(opfDir, decodeURIComponent(href)),
+        mediaType: attr(match[0], 'media-type') ?? '',
+        tag: match[0],
+      });
+    }
+    return items;
+  }
+
+  private uniquePath(zip: JSZip, dir: string, base: string, ext: string): string {
+    let candidate = path.posix.join(dir, `${base}${ext}`);
+    for (let n = 1; zip.file(candidate); n++) {
+      candidate = path.posix.join(dir, `${base}-${n}${ext}`);
+    }
+    return candidate;
+  }
+
+  private renderNavDocument(nav: {
+    title: string;
+    language: string;
+    toc: NavEntry[];
+    pageList: NavEntry[];
+    landmarks: Landmark[];
+  }): string {
+    const lang = escapeXml(nav.language);
+    const sections = [
+      '  <nav epub:type="toc" id="toc" role="doc-toc">',
+      '    <h1>Contents</h1>',
+      renderNavList(nav.toc, '    '),
+      '  </nav>',
+    ];
+
+    if (nav.landmarks.length > 0) {
+      sections.push(
+        '  <nav epub:type="landmarks" id="landmarks" hidden="hidden">',
+        '    <h2>Landmarks</h2>',
+        '    <ol>',
+        ...nav.landmarks.map(l =>
+          `      <li><a epub:type="${l.type}" href="${escapeXml(l.href)}">${escapeXml(l.label)}</a></li>`
+        ),
+        '    </ol>',
+        '  </nav>'
+      );
+    }
+
+    if (nav.pageList.length > 0) {
+      sections.push(
+        '  <nav epub:type="page-list" role="doc-pagelist" aria-label="Page list" hidden="hidden" class="hidden_content">',
+        renderNavList(nav.pageList, '    '),
+        '  </nav>'
+      );
+    }
+
+    return [
+      '<?xml version="1.0" encoding="UTF-8"?>',
+      '<!DOCTYPE html>',
+      `<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="${EPUB_NS}" xml:lang="${lang}" lang="${lang}">`,
+      '<head>',
+      `  <title>${escapeXml(nav.title)}</title>`,
+      '</head>',
+      '<body>',
+      ...sections,
+      '</body>',
+      '</html>',
+      '',
+    ].join('\n');
+  }
+
+  /**
+   * Replace the XHTML 1.1 / 1.0 doctype with the HTML5 doctype and declare
+   * the epub namespace on the root element.
+   */
+  private convertContentDocument(content: string): string {
+    let converted = content.replace(/<!DOCTYPE\s+html\b[^>]*>/i, '<!DOCTYPE html>');
+    if (!/<!DOCTYPE/i.test(converted)) {
+      converted = converted.replace(/(<\?xml[^>]*\?>\s*)?/, match => `${match}<!DOCTYPE html>\n`);
+    }
+    converted = converted.replace(/<html\b([^>]*)>/i, (tag, attrs: string) =>
+      /\sxmlns:epub\s*=/.test(attrs) ? tag : `<html${attrs} xmlns:epub="${EPUB_NS}">`
+    );
+    return converted;
+  }
+
+  /**
+   * Convert the OPF to version 3.0.
+   * `opf:role` / `opf:file-as` become refines metadata; other `opf:`
+   * attributes (scheme, event) have no EPUB 3 equivalent and are dropped.
+   */
+  private upgradeOpf(
+    content: string,
+    manifest: ManifestItem[],
+    options: { navHref: string; properties: Map<string, string[]> }
+  ): string {
+    let opf = content.replace(/<package\b[^>]*>/i, tag =>
+      /\sversion\s*=/.test(tag)
+        ? tag.replace(/(\sversion\s*=\s*["'])[^"']*(["'])/, '$13.0$2')
+        : tag.replace(/>$/, ' version="3.0">')
+    );
+
+    const refines: string[] = [];
+    let contributorCount = 0;
+    opf = opf.replace(CONTRIBUTOR_ELEMENTS, (element, name: string, attrs: string, value: string) => {
+      const role = attr(attrs, 'opf:role');
+      const fileAs = attr(attrs, 'opf:file-as');
+      if (!role && !fileAs) return element;
+
+      let id = attr(attrs, 'id');
+      if (!id) {
+        contributorCount++;
+        id = `${name}${String(contributorCount).padStart(2, '0')}`;
+      }
+      // Attribute values are already XML-escaped, so they are copied as-is
+      if (role) {
+        refines.push(`<meta refines="#${id}" property="role" scheme="marc:relators">${role}</meta>`);
+      }
+      if (fileAs) {
+        refines.push(`<meta refines="#${id}" property="file-as">${fileAs}</meta>`);
+      }
+      const cleanedAttrs = attrs.replace(/\s+opf:[\w-]+\s*=\s*["'][^"']*["']/g, '');
+      const idAttr = attr(attrs, 'id') ? '' : ` id="${id}"`;
+      return `<dc:${name}${cleanedAttrs}${idAttr}>${value}</dc:${name}>`;
+    });
+
+    // Remaining opf: attributes inside metadata (opf:scheme, opf:event)
+    opf = opf.replace(/<dc:[\w-]+\b[^>]*>/g, tag => tag.replace(/\s+opf:[\w-]+\s*=\s*["'][^"']*["']/g, ''));
+
+    const modified = new Date().toISOString().replace(/\.\d{3}Z$/, 'Z');
+    opf = opf.replace(/\s*<meta[^>]*property\s*=\s*["']dcterms:modified["'][^>]*>[^<]*<\/meta>/gi, '');
+    const metadataToAdd = [`<meta property="dcterms:modified">${modified}</meta>`, ...refines];
+    opf = opf.replace('</metadata>', '\n    ' + metadataToAdd.join('\n    ') + '\n</metadata>');
+
+    // Manifest: nav item and EPUB 3 properties
+    for (const [id, properties] of options.properties) {
+      const item = manifest.find(i => i.id === id);
+      if (!item) continue;
+      const existing = (attr(item.tag, 'properties') ?? '').split(/\s+/).filter(Boolean);
+      const merged = [...new Set([...existing, ...properties])].join(' ');
+      const updated = existing.length > 0
+        ? item.tag.replace(/(\sproperties\s*=\s*["'])[^"']*(["'])/, `$1${merged}$2`)
+        : item.tag.replace(/\s*\/?>$/, match => ` properties="${merged}"${match}`);
+      opf = opf.replace(item.tag, updated);
+    }
+
+    const navId = manifest.some(item => item.id === 'nav') ? 'nav-epub3' : 'nav';
+    opf = opf.replace(
+      /<\/manifest>/i,
+      `  <item id="${navId}" href="${escapeXml(options.navHref)}" media-type="application/xhtml+xml" properties="nav"/>\n  </manifest>`
+    );
+
+    return opf;
+  }
+}
+
+export const epub3Upgrade = new Epub3UpgradeService();
@@ -0,0 +1,789 @@
+/**
+ * @fileoverview MathML accessibility remediation for EPUB content documents.
+ * STEM titles carry equations either as MathML without a text alternative or
+ * as images of the rendered equation. This service:
+ *   - generates spoken-form `alttext` for MathML from its presentation markup;
+ *   - declares MathML (and describedMath, once every expression has alttext)
+ *     as schema:accessibilityFeature and sets the `mathml` manifest property
+ *     EPUB 3 requires on documents that contain it;
+ *   - optionally converts LaTeX found in equation image alt text into MathML,
+ *     keeping the image as `altimg` and the source as a TeX annotation.
+ */
+
+import JSZip from 'jszip';
+import * as cheerio from 'cheerio';
+import path from 'path';
+import { logger } from '../../lib/logger';
+import { AppError } from '../../utils/app-error';
+import { epubModifier, type ModificationResult } from './epub-modifier.service';
+
+const MATHML_NS = 'http://www.w3.org/1998/Math/MathML';
+
+/** Minimal structural view of a cheerio node, enough to walk MathML. */
+export interface MathNode {
+  type: string;
+  name?: string;
+  data?: string;
+  attribs?: Record<string, string>;
+  children?: MathNode[];
+}
+
+export interface MathMLRemediationOptions {
+  /** Replace equation images whose alt text holds LaTeX with MathML */
+  convertLatexImages?: boolean;
+}
+
+const GREEK_LETTERS = [
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'zeta', 'eta', 'theta', 'iota', 'kappa', 'lambda', 'mu',
+  'nu', 'xi', 'omicron', 'pi', 'rho', 'final sigma', 'sigma', 'tau', 'upsilon', 'phi', 'chi', 'psi', 'omega',
+];
+
+/** Greek letter by character, e.g. 'α' -> 'alpha', 'Δ' -> 'capital delta'. */
+const GREEK_NAMES: Record<string, string> = {};
+/** Greek character by LaTeX command name, e.g. 'alpha' -> 'α', 'Delta' -> 'Δ'. */
+const GREEK_COMMANDS: Record<string, string> = {};
+
+GREEK_LETTERS.forEach((name, i) => {
+  const lower = String.fromCodePoint(0x03b1 + i);
+  GREEK_NAMES[lower] = name;
+  if (name === 'final sigma') return;
+  GREEK_COMMANDS[name] = lower;
+  // Capitals share the lowercase offsets; the final sigma slot (U+03A2) is unassigned
+  const upper = String.fromCodePoint(0x0391 + i);
+  GREEK_NAMES[upper] = `capital ${name}`;
+  GREEK_COMMANDS[name.charAt(0).toUpperCase() + name.slice(1)] = upper;
+});
+
+const OPERATOR_WORDS: Record<string, string> = {
+  '+': 'plus',
+  '-': 'minus',
+  '−': 'minus',
+  '=': 'equals',
+  '*': 'times',
+  '×': 'times',
+  '·': 'times',
+  '⋅': 'times',
+  '/': 'divided by',
+  '÷': 'divided by',
+  '±': 'plus or minus',
+  '∓': 'minus or plus',
+  '<': 'is less than',
+  '>': 'is greater than',
+  '≤': 'is less than or equal to',
+  '≥': 'is greater than or equal to',
+  '≠': 'is not equal to',
+  '≈': 'is approximately equal to',
+  '≡': 'is equivalent to',
+  '∝': 'is proportional to',
+  '→': 'approaches',
+  '∈': 'is an element of',
+  '∉': 'is not an element of',
+  '⊂': 'is a subset of',
+  '∪': 'union',
+  '∩': 'intersection',
+  '∀': 'for all',
+  '∃': 'there exists',
+  '∴': 'therefore',
+  '∞': 'infinity',
+  '∑': 'the sum',
+  '∏': 'the product',
+  '∫': 'the integral',
+  '∂': 'partial',
+  '∇': 'nabla',
+  '∘': 'composed with',
+  '′': 'prime',
+  '…': 'dot dot dot',
+  '⋯': 'dot dot dot',
+  '!': 'factorial',
+  '%': 'percent',
+  '(': 'open paren',
+  ')': 'close paren',
+  '[': 'open bracket',
+  ']': 'close bracket',
+  '{': 'open brace',
+  '}': 'close brace',
+  '|': 'vertical bar',
+  // Invisible function application, times and separator
+  '\u2061': '',
+  '\u2062': '',
+  '\u2063': '',
+  '\u2064': 'plus',
+};
+
+const FUNCTION_WORDS: Record<string, string> = {
+  sin: 'sine',
+  cos: 'cosine',
+  tan: 'tangent',
+  sec: 'secant',
+  csc: 'cosecant',
+  cot: 'cotangent',
+  log: 'log',
+  ln: 'natural log',
+  exp: 'exponential',
+  lim: 'the limit',
+  max: 'the maximum',
+  min: 'the minimum',
+  det: 'the determinant',
+};
+
+const ACCENT_WORDS: Record<string, string> = {
+  '¯': 'bar',
+  '‾': 'bar',
+  '^': 'hat',
+  'ˆ': 'hat',
+  '→': 'vector',
+  '\u20D7': 'vector',
+  '~': 'tilde',
+  '˜': 'tilde',
+  '˙': 'dot',
+  '.': 'dot',
+};
+
+const LARGE_OPERATORS = new Set(['∑', '∏', '∫', 'lim']);
+
+function localName(node: MathNode): string {
+  return (node.name ?? '').replace(/^[\w-]+:/, '').toLowerCase();
+}
+
+function elementChildren(node: MathNode): MathNode[] {
+  return (node.children ?? []).filter(child => child.type === 'tag');
+}
+
+function textOf(node: MathNode | undefined): string {
+  if (!node) return '';
+  if (node.type === 'text') return node.data ?? '';
+  return (node.children ?? []).map(textOf).join('').trim();
+}
+
+function isToken(node: MathNode | undefined): boolean {
+  if (!node) return true;
+  const name = localName(node);
+  if (['mi', 'mn', 'mo', 'mtext'].includes(name)) return true;
+  const children = elementChildren(node);
+  return name === 'mrow' && children.length === 1 && isToken(children[0]);
+}
+
+function ordinal(index: string): string {
+  if (!/^\d+$/.test(index)) return `${index}-th`;
+  const n = Number(index);
+  const suffix = n % 100 >= 11 && n % 100 <= 13 ? 'th' : ['th', 'st', 'nd', 'rd'][n % 10] ?? 'th';
+  return `${n}${suffix}`;
+}
+
+function speakRow(nodes: MathNode[]): string {
+  return nodes.map(speak).filter(Boolean).join(' ');
+}
+
+function speakPower(exponent: MathNode | undefined): string {
+  const value = textOf(exponent);
+  if (isToken(exponent) && value === '2') return 'squared';
+  if (isToken(exponent) && value === '3') return 'cubed';
+  return isToken(exponent)
+    ? `to the power of ${speak(exponent)}`
+    : `to the power of ${speak(exponent)}, end exponent`;
+}
+
+function speak(node: MathNode | undefined): string {
+  if (!node || node.type !== 'tag') return '';
+  const children = elementChildren(node);
+  const [first, second, third] = children;
+
+  switch (localName(node)) {
+    case 'mi': {
+      const value = textOf(node);
+      return FUNCTION_WORDS[value] ?? GREEK_NAMES[value] ?? value;
+    }
+    case 'mn':
+    case 'mtext':
+    case 'ms':
+      return textOf(node);
+    case 'mo': {
+      const value = textOf(node);
+      return value in OPERATOR_WORDS ? OPERATOR_WORDS[value] : value;
+    }
+    case 'mspace':
+    case 'mphantom':
+    case 'none':
+    case 'mprescripts':
+    case 'annotation':
+    case 'annotation-xml':
+      return '';
+    case 'semantics':
+      return speak(first);
+    case 'mfrac':
+      return isToken(first) && isToken(second)
+        ? `${speak(first)} over ${speak(second)}`
+        : `the fraction with numerator ${speak(first)} and denominator ${speak(second)}`;
+    case 'msqrt':
+      return children.length === 1 && isToken(first)
+        ? `the square root of ${speak(first)}`
+        : `the square root of ${speakRow(children)}, end root`;
+    case 'mroot': {
+      const index = textOf(second);
+      const root = index === '3' ? 'the cube root' : `the ${ordinal(index)} root`;
+      return isToken(first) ? `${root} of ${speak(first)}` : `${root} of ${speak(first)}, end root`;
+    }
+    case 'msup':
+      return `${speak(first)} ${speakPower(second)}`;
+    case 'msub':
+      return `${speak(first)} sub ${speak(second)}`;
+    case 'msubsup':
+    case 'munderover':
+      return LARGE_OPERATORS.has(textOf(first))
+        ? `${speak(first)} from ${speak(second)} to ${speak(third)}`
+        : `${speak(first)} sub ${speak(second)} ${speakPower(third)}`;
+    case 'munder':
+      if (textOf(first) === 'lim') return `the limit as ${speak(second)}`;
+      return LARGE_OPERATORS.has(textOf(first))
+        ? `${speak(first)} over ${speak(second)}`
+        : `${speak(first)} with ${speak(second)} below`;
+    case 'mover': {
+      const accent = ACCENT_WORDS[textOf(second)];
+      return accent ? `${speak(first)} ${accent}` : `${speak(first)} with ${speak(second)} above`;
+    }
+    case 'mfenced': {
+      const open = node.attribs?.open ?? '(';
+      const close = node.attribs?.close ?? ')';
+      const items = children.map(speak).join(', ');
+      return [OPERATOR_WORDS[open] ?? open, items, OPERATOR_WORDS[close] ?? close].filter(Boolean).join(' ');
+    }
+    case 'mtable': {
+      const rows = children.map((row, i) => `row ${i + 1}: ${elementChildren(row).map(speak).join(', ')}`);
+      return `the matrix with ${rows.length} ${rows.length === 1 ? 'row' : 'rows'}: ${rows.join('; ')}`;
+    }
+    default:
+      // math, mrow, mstyle, mpadded, menclose, merror, mtd, maction
+      return speakRow(children);
+  }
+}
+
+/**
+ * Generate the spoken form of a MathML expression, e.g.
+ * `x squared plus 1 equals 0`.
+ * @param math - The `math` element (or any presentation MathML element)
+ * @returns Speech text suitable for `alttext`
+ */
+export function mathmlToSpeech(math: MathNode): string {
+  return speak(math)
+    .replace(/\s+/g, ' ')
+    .replace(/\s+([,;:])/g, '$1')
+    .trim();
+}
+
+/**
+ * Pull the LaTeX source out of equation image alt text. Alt text counts as
+ * LaTeX when it is wrapped in TeX math delimiters or uses TeX commands or
+ * braced scripts.
+ * @param alt - Image alt text
+ * @returns The LaTeX fragment and whether it is display math, or null
+ */
+export function extractLatex(alt: string | undefined): { latex: string; display: boolean } | null {
+  const text = (alt ?? '').trim();
+  if (!text) return null;
+
+  const delimited = text.match(/^\$\$([\s\S]+)\$\$$/) ?? text.match(/^\\\[([\s\S]+)\\\]$/);
+  if (delimited) return { latex: delimited[1].trim(), display: true };
+
+  const inline = text.match(/^\$([^$]+)\$$/) ?? text.match(/^\\\(([\s\S]+)\\\)$/);
+  if (inline) return { latex: inline[1].trim(), display: false };
+
+  if (/\\[a-zA-Z]+/.test(text) || /[\^_]\{/.test(text)) return { latex: text, display: false };
+  return null;
+}
+
+/**
+ * Whether an image looks like a rendered equation: its alt text holds LaTeX,
+ * or its class or file name marks it as an equation.
+ * @param attribs - The image's attributes
+ * @returns True for equation images
+ */
+export function isEquationImage(attribs: Record<string, string | undefined>): boolean {
+  if (extractLatex(attribs.alt)) return true;
+  if (/(^|\s)(math|equation|eqn|formula)[\w-]*(\s|$)/i.test(attribs.class ?? '')) return true;
+  const fileName = (attribs.src ?? '').split('/').pop() ?? '';
+  return /^(eq|eqn|equation|math|formula)[_-]?\d/i.test(fileName);
+}
+
+/**
+ * Whether a `math` element already carries a text alternative.
+ * @param attribs - The `math` element's attributes
+ * @returns True when alttext, aria-label or aria-labelledby is set
+ */
+export function hasMathAlternative(attribs: Record<string, string | undefined>): boolean {
+  return Boolean(
+    attribs.alttext?.trim() || attribs['aria-label']?.trim() || attribs['aria-labelledby']?.trim()
+  );
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+const LATEX_SYMBOLS: Record<string, string> = {
+  times: '×', cdot: '⋅', div: '÷', pm: '±', mp: '∓',
+  leq: '≤', le: '≤', geq: '≥', ge: '≥', neq: '≠', ne: '≠',
+  approx: '≈', equiv: '≡', propto: '∝', to: '→', rightarrow: '→',
+  in: '∈', notin: '∉', subset: '⊂', cup: '∪', cap: '∩',
+  forall: '∀', exists: '∃', therefore: '∴', circ: '∘', prime: '′',
+  sum: '∑', prod: '∏', int: '∫', partial: '∂', nabla: '∇',
+  ldots: '…', dots: '…', cdots: '⋯',
+  '{': '{', '}': '}', '|': '‖',
+};
+
+const LATEX_IDENTIFIERS: Record<string, string> = { ...GREEK_COMMANDS, infty: '∞' };
+
+const LATEX_FUNCTIONS = new Set(Object.keys(FUNCTION_WORDS));
+
+const LATEX_ACCENTS: Record<string, string> = {
+  bar: '¯', overline: '¯', hat: '^', widehat: '^', vec: '→', tilde: '~', widetilde: '~', dot: '˙',
+};
+
+const LATEX_SPACING = new Set([',', ';', ':', '!', ' ', 'quad', 'qquad']);
+
+/**
+ * Recursive-descent converter for the LaTeX subset found in equation alt
+ * text: scripts, fractions, roots, Greek letters, operators, named functions,
+ * accents, \left/\right fences and \text.
+ */
+class LatexParser {
+  private pos = 0;
+
+  constructor(private readonly source: string) {}
+
+  parse(): string {
+    const nodes = this.parseSequence();
+    if (this.pos < this.source.length) this.fail(`unexpected "${this.source[this.pos]}"`);
+    return nodes.length === 1 ? nodes[0] : `<mrow>${nodes.join('')}</mrow>`;
+  }
+
+  private fail(reason: string): never {
+    throw AppError.unprocessable(`Unsupported LaTeX "${this.source}": ${reason}`, 'UNSUPPORTED_LATEX');
+  }
+
+  private skipSpace(): void {
+    while (this.pos < this.source.length && /\s/.test(this.source[this.pos])) this.pos++;
+  }
+
+  private peekCommand(): string | null {
+    const match = this.source.slice(this.pos).match(/^\\([a-zA-Z]+|.)/);
+    return match ? match[1] : null;
+  }
+
+  private parseSequence(): string[] {
+    const nodes: string[] = [];
+    for (;;) {
+      this.skipSpace();
+      const ch = this.source[this.pos];
+      if (ch === undefined || ch === '}' || ch === ']' || this.peekCommand() === 'right') return nodes;
+      const atom = this.parseAtom();
+      if (atom) nodes.push(this.parseScripts(atom));
+    }
+  }
+
+  private parseGroup(): string {
+    this.skipSpace();
+    if (this.source[this.pos] !== '{') {
+      const atom = this.parseAtom();
+      if (!atom) this.fail('missing argument');
+      return atom;
+    }
+    this.pos++;
+    const nodes = this.parseSequence();
+    if (this.source[this.pos] !== '}') this.fail('unbalanced braces');
+    this.pos++;
+    return nodes.length === 1 ? nodes[0] : `<mrow>${nodes.join('')}</mrow>`;
+  }
+
+  private readBraced(): string {
+    this.skipSpace();
+    if (this.source[this.pos] !== '{') this.fail('expected "{"');
+    const end = this.source.indexOf('}', this.pos);
+    if (end < 0) this.fail('unbalanced braces');
+    const text = this.source.slice(this.pos + 1, end);
+    this.pos = end + 1;
+    return text;
+  }
+
+  private parseScripts(base: string): string {
+    let sub: string | null = null;
+    let sup: string | null = null;
+    for (;;) {
+      this.skipSpace();
+      const ch = this.source[this.pos];
+      if (ch === '_' && sub === null) {
+        this.pos++;
+        sub = this.parseGroup();
+      } else if (ch === '^' && sup === null) {
+        this.pos++;
+        sup = this.parseGroup();
+      } else {
+        break;
+      }
+    }
+
+    const limits = /^<mo>[∑∏]<\/mo>$|^<mi>lim<\/mi>$/.test(base);
+    if (sub !== null && sup !== null) {
+      return limits ? `<munderover>${base}${sub}${sup}</munderover>` : `<msubsup>${base}${sub}${sup}</msubsup>`;
+    }
+    if (sub !== null) return limits ? `<munder>${base}${sub}</munder>` : `<msub>${base}${sub}</msub>`;
+    if (sup !== null) return limits ? `<mover>${base}${sup}</mover>` : `<msup>${base}${sup}</msup>`;
+    return base;
+  }
+
+  private parseFence(): string {
+    this.skipSpace();
+    const command = this.peekCommand();
+    if (command && command.length === 1) {
+      this.pos += 2;
+      return command === '.' ? '' : `<mo fence="true">${escapeXml(LATEX_SYMBOLS[command] ?? command)}</mo>`;
+    }
+    const ch = this.source[this.pos];
+    if (ch === undefined) this.fail('missing delimiter');
+    this.pos++;
+    return ch === '.' ? '' : `<mo fence="true">${escapeXml(ch)}</mo>`;
+  }
+
+  private parseAtom(): string {
+    this.skipSpace();
+    const ch = this.source[this.pos];
+
+    if (ch === '{') return this.parseGroup();
+    if (ch === '\\') return this.parseCommand();
+
+    const number = this.source.slice(this.pos).match(/^\d+(?:\.\d+)?/);
+    if (number) {
+      this.pos += number[0].length;
+      return `<mn>${number[0]}</mn>`;
+    }
+
+    this.pos++;
+    if (/[a-zA-Z]/.test(ch)) return `<mi>${ch}</mi>`;
+    if (ch === '^' || ch === '_') this.fail(`script "${ch}" without a base`);
+    if (ch === '-') return '<mo>−</mo>';
+    if (ch === "'") return '<mo>′</mo>';
+    return `<mo>${escapeXml(ch)}</mo>`;
+  }
+
+  private parseCommand(): string {
+    const command = this.peekCommand();
+    if (!command) this.fail('trailing backslash');
+    this.pos += command.length + 1;
+
+    if (LATEX_SPACING.has(command)) return '';
+    if (command in LATEX_IDENTIFIERS) return `<mi>${LATEX_IDENTIFIERS[command]}</mi>`;
+    if (command in LATEX_SYMBOLS) return `<mo>${escapeXml(LATEX_SYMBOLS[command])}</mo>`;
+    if (LATEX_FUNCTIONS.has(command)) return `<mi>${command}</mi>`;
+    if (command in LATEX_ACCENTS) {
+      return `<mover accent="true">${this.parseGroup()}<mo>${escapeXml(LATEX_ACCENTS[command])}</mo></mover>`;
+    }
+
+    switch (command) {
+      case 'frac':
+      case 'dfrac':
+      case 'tfrac':
+        return `<mfrac>${this.parseGroup()}${this.parseGroup()}</mfrac>`;
+      case 'sqrt': {
+        this.skipSpace();
+        if (this.source[this.pos] === '[') {
+          this.pos++;
+          const index = this.parseSequence();
+          if (this.source[this.pos] !== ']') this.fail('unbalanced root index');
+          this.pos++;
+          const indexNode = index.length === 1 ? index[0] : `<mrow>${index.join('')}</mrow>`;
+          return `<mroot>${this.parseGroup()}${indexNode}</mroot>`;
+        }
+        return `<msqrt>${this.parseGroup()}</msqrt>`;
+      }
+      case 'left': {
+        const open = this.parseFence();
+        const body = this.parseSequence();
+        if (this.peekCommand() !== 'right') this.fail('\\left without \\right');
+        this.pos += '\\right'.length;
+        const close = this.parseFence();
+        return `<mrow>${open}${body.join('')}${close}</mrow>`;
+      }
+      case 'text':
+      case 'textrm':
+      case 'mbox':
+        return `<mtext>${escapeXml(this.readBraced())}</mtext>`;
+      case 'mathrm':
+      case 'operatorname':
+        return `<mi mathvariant="normal">${escapeXml(this.readBraced())}</mi>`;
+      case 'mathbf':
+        return `<mstyle mathvariant="bold">${this.parseGroup()}</mstyle>`;
+      default:
+        return this.fail(`unknown command \\${command}`);
+    }
+  }
+}
+
+/**
+ * Convert a LaTeX fragment to presentation MathML.
+ * @param latex - LaTeX source without math delimiters
+ * @param display - Render as a display (block) equation
+ * @returns A `math` element with spoken-form alttext and the TeX source as annotation
+ * @throws AppError 422 UNSUPPORTED_LATEX when the fragment uses unsupported syntax
+ */
+export function latexToMathML(latex: string, display = false): string {
+  const body = new LatexParser(latex).parse();
+  const semantics =
+    `<semantics>${body}<annotation encoding="application/x-tex">${escapeXml(latex)}</annotation></semantics>`;
+  const $ = cheerio.load(`<math>${semantics}</math>`, { xmlMode: true });
+  const speech = mathmlToSpeech($('math').get(0) as MathNode);
+
+  return `<math xmlns="${MATHML_NS}" display="${display ? 'block' : 'inline'}" alttext="${escapeXml(speech)}">` +
+    `${semantics}</math>`;
+}
+
+type CheerioDocument = ReturnType<typeof cheerio.load>;
+
+function findMathElements($: CheerioDocument) {
+  return $('*').filter((_, el) => localName(el as MathNode) === 'math');
+}
+
+class MathMLRemediationService {
+  /**
+   * Run the MathML remediation: optional LaTeX image conversion, alttext
+   * generation, then the OPF declarations for whatever math is present.
+   * @param zip - Loaded EPUB archive, modified in place
+   * @param options - Remediation options
+   * @returns One result per modified file
+   */
+  async remediate(zip: JSZip, options: MathMLRemediationOptions = {}): Promise<ModificationResult[]> {
+    const results: ModificationResult[] = [];
+
+    if (options.convertLatexImages) {
+      results.push(...await this.convertLatexImages(zip));
+    }
+    results.push(...await this.addMathAltText(zip));
+    results.push(...await this.declareMathFeatures(zip));
+
+    return results;
+  }
+
+  /**
+   * Add spoken-form alttext to every MathML expression that has no text
+   * alternative.
+   * @param zip - Loaded EPUB archive, modified in place
+   * @returns One result per modified file
+   */
+  async addMathAltText(zip: JSZip): Promise<ModificationResult[]> {
+    const results: ModificationResult[] = [];
+
+    for (const filePath of Object.keys(zip.files)) {
+      if (!filePath.match(/\.(html|xhtml|htm)$/i)) continue;
+
+      const content = await zip.file(filePath)?.async('text');
+      if (!content || !/<(?:[\w-]+:)?math\b/i.test(content)) continue;
+
+      const $ = cheerio.load(content, { xmlMode: true });
+      const samples: string[] = [];
+      let count = 0;
+
+      findMathElements($).each((_, el) => {
+        const $math = $(el);
+        if (hasMathAlternative($math.attr() ?? {})) return;
+
+        const speech = mathmlToSpeech(el as MathNode);
+        if (!speech) return;
+
+        $math.attr('alttext', speech);
+        count++;
+        if (samples.length < 3) samples.push(speech);
+      });
+
+      if (count > 0) {
+        zip.file(filePath, $.html());
+        results.push({
+          success: true,
+          filePath,
+          modificationType: 'add_math_alttext',
+          description: `Added alttext to ${count} MathML expression(s)`,
+          after: samples.map(s => `alttext="${s}"`).join('\n'),
+        });
+      }
+    }
+
+    if (results.length === 0) {
+      results.push({
+        success: true,
+        filePath: 'all',
+        modificationType: 'add_math_alttext',
+        description: 'No MathML without alttext found',
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Replace equation images whose alt text holds LaTeX with MathML. The image
+   * stays referenced as `altimg` so reading systems without MathML support
+   * keep rendering it. Fragments the converter cannot handle are left as
+   * images and reported.
+   * @param zip - Loaded EPUB archive, modified in place
+   * @returns One result per modified file, plus failures
+   */
+  async convertLatexImages(zip: JSZip): Promise<ModificationResult[]> {
+    const results: ModificationResult[] = [];
+
+    for (const filePath of Object.keys(zip.files)) {
+      if (!filePath.match(/\.(html|xhtml|htm)$/i)) continue;
+
+      const content = await zip.file(filePath)?.async('text');
+      if (!content) continue;
+
+      const $ = cheerio.load(content, { xmlMode: true });
+      const converted: string[] = [];
+      const failed: string[] = [];
+
+      $('img').each((_, el) => {
+        const $img = $(el);
+        const latex = extractLatex($img.attr('alt'));
+        if (!latex) return;
+
+        try {
+          const math = cheerio.load(latexToMathML(latex.latex, latex.display), { xmlMode: true })('math');
+          const src = $img.attr('src');
+          if (src) math.attr('altimg', src);
+          const id = $img.attr('id');
+          if (id) math.attr('id', id);
+          $img.replaceWith(math.toString());
+          converted.push(latex.latex);
+        } catch (error) {
+          if (!(error instanceof AppError)) throw error;
+          failed.push(latex.latex);
+          logger.warn(`[MathML] ${error.message} in ${filePath}`);
+        }
+      });
+
+      if (converted.length > 0) {
+        zip.file(filePath, $.html());
+        results.push({
+          success: true,
+          filePath,
+          modificationType: 'convert_latex_images',
+          description: `Converted ${converted.length} LaTeX equation image(s) to MathML`,
+          before: converted.slice(0, 3).join('\n'),
+        });
+      }
+      if (failed.length > 0) {
+        results.push({
+          success: false,
+          filePath,
+          modificationType: 'convert_latex_images',
+          description: `Could not convert ${failed.length} equation image(s); LaTeX uses unsupported syntax`,
+          before: failed.slice(0, 3).join('\n'),
+        });
+      }
+    }
+
+    if (results.length === 0) {
+      results.push({
+        success: true,
+        filePath: 'all',
+        modificationType: 'convert_latex_images',
+        description: 'No equation images with LaTeX alt text found',
+      });
+    }
+
+    return results;
+  }
+
+  /**
+   * Declare the math the publication contains: the `mathml` manifest property
+   * on each content document with MathML, schema:accessibilityFeature MathML,
+   * and describedMath once every expression has a text alternative.
+   * @param zip - Loaded EPUB archive, modified in place
+   * @returns The OPF modification result
+   */
+  async declareMathFeatures(zip: JSZip): Promise<ModificationResult[]> {
+    const opf = await epubModifier.getOPF(zip);
+    if (!opf) {
+      return [{
+        success: false,
+        filePath: 'content.opf',
+        modificationType: 'declare_math_features',
+        description: 'Failed to locate OPF file',
+      }];
+    }
+
+    const opfDir = path.posix.dirname(opf.path);
+    let modified = opf.content;
+    let expressions = 0;
+    let undescribed = 0;
+    const added: string[] = [];
+
+    const items = [...opf.content.matchAll(/<item\b[^>]*>/gi)].map(m => m[0]);
+    for (const tag of items) {
+      const href = tag.match(/\shref\s*=\s*["']([^"']+)["']/i)?.[1];
+      if (!href || !/media-type\s*=\s*["']application\/xhtml\+xml["']/i.test(tag)) continue;
+
+      const filePath = path.posix.normalize(path.posix.join(opfDir, decodeURIComponent(href)));
+      const content = await zip.file(filePath)?.async('text');
+      if (!content || !/<(?:[\w-]+:)?math\b/i.test(content)) continue;
+
+      const $ = cheerio.load(content, { xmlMode: true });
+      findMathElements($).each((_, el) => {
+        expressions++;
+        if (!hasMathAlternative($(el).attr() ?? {})) undescribed++;
+      });
+
+      const properties = (tag.match(/\sproperties\s*=\s*["']([^"']*)["']/i)?.[1] ?? '').split(/\s+/).filter(Boolean);
+      if (!properties.includes('mathml')) {
+        const merged = [...properties, 'mathml'].join(' ');
+        const updated = properties.length > 0
+          ? tag.replace(/(\sproperties\s*=\s*["'])[^"']*(["'])/i, `$1${merged}$2`)
+          : tag.replace(/\s*\/?>$/, match => ` properties="${merged}"${match}`);
+        modified = modified.replace(tag, updated);
+        added.push(`properties="mathml" on ${href}`);
+      }
+    }
+
+    if (expressions === 0) {
+      return [{
+        success: true,
+        filePath: opf.path,
+        modificationType: 'declare_math_features',
+        description: 'No MathML found; math declarations not applicable',
+      }];
+    }
+
+    const features = undescribed === 0 ? ['MathML', 'describedMath'] : ['MathML'];
+    for (const feature of features) {
+      const declared = new RegExp(
+        `<meta[^>]*property\\s*=\\s*["']schema:accessibilityFeature["'][^>]*>\\s*${feature}\\s*</meta>`,
+        'i'
+      );
+      if (declared.test(modified)) continue;
+      const meta = `<meta property="schema:accessibilityFeature">${feature}</meta>`;
+      modified = modified.replace('</metadata>', `    ${meta}\n  </metadata>`);
+      added.push(meta);
+    }
+
+    if (added.length === 0) {
+      return [{
+        success: true,
+        filePath: opf.path,
+        modificationType: 'declare_math_features',
+        description: 'MathML declarations already present',
+      }];
+    }
+
+    await epubModifier.updateOPF(zip, opf.path, modified);
+
+    return [{
+      success: true,
+      filePath: opf.path,
+      modificationType: 'declare_math_features',
+      description: `Declared MathML for ${expressions} expression(s)`,
+      after: added.join('\n'),
+    }];
+  }
+}
+
+export const mathmlRemediation = new MathMLRemediationService();
@@ -0,0 +1,643 @@
+/**
+ * @fileoverview Print page-break generation for EPUBs.
+ * Aligns the pages of the print edition — read from the print PDF or from a
+ * CSV page map — to the EPUB text, inserts `epub:type="pagebreak"` markers,
+ * builds the nav page-list and records `a11y:pageBreakSource` in the OPF.
+ *
+ * Alignment is word-based: the opening words of each print page are matched
+ * against the EPUB's spine text in reading order. Every inserted break carries
+ * a confidence (the share of anchor words found in place); pages that could not
+ * be matched are placed proportionally between their matched neighbours and
+ * flagged for review.
+ */
+
+import JSZip from 'jszip';
+import path from 'path';
+import { logger } from '../../lib/logger';
+import { AppError } from '../../utils/app-error';
+import { pdfParserService } from '../pdf/pdf-parser.service';
+import { textExtractorService } from '../pdf/text-extractor.service';
+import { epubModifier, type ModificationResult } from './epub-modifier.service';
+
+/** Number of opening words of a print page used as its anchor */
+const ANCHOR_WORDS = 10;
+/** Leading words (running heads, folios) that may be skipped to find the anchor */
+const MAX_SKIP_WORDS = 8;
+/** Pages with fewer words than this are always interpolated */
+const MIN_ANCHOR_WORDS = 3;
+/** Minimum share of anchor words that must match near the expected position */
+const MIN_MATCH_RATIO = 0.5;
+/** Minimum share for a match found outside the expected window */
+const MIN_FAR_MATCH_RATIO = 0.8;
+/** Confidence assigned to breaks placed by interpolation */
+const INTERPOLATED_CONFIDENCE = 0.1;
+/** Breaks below this confidence are flagged for review by default */
+const DEFAULT_REVIEW_THRESHOLD = 0.8;
+
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+
+export interface PrintPage {
+  /** Page label as printed (e.g. "12" or "xii") */
+  label: string;
+  /** Text of the page, or at least its opening words */
+  text: string;
+}
+
+export type PageBreakSourceType = 'pdf' | 'page-map';
+
+export type PageAlignmentMethod = 'matched' | 'interpolated';
+
+export interface PageAlignment {
+  /** Index of the EPUB word the page starts at */
+  position: number;
+  confidence: number;
+  method: PageAlignmentMethod;
+}
+
+export interface PageBreakAlignment {
+  label: string;
+  id: string;
+  filePath: string;
+  confidence: number;
+  method: PageAlignmentMethod;
+  needsReview: boolean;
+  /** EPUB text following the inserted marker */
+  anchorText: string;
+}
+
+export interface PageListGenerationOptions {
+  /** Value for the OPF a11y:pageBreakSource, e.g. "urn:isbn:9780141036144" */
+  pageBreakSource?: string;
+  /** Breaks below this confidence are flagged for review (0–1) */
+  reviewThreshold?: number;
+}
+
+export interface PageListGenerationResult {
+  source: PageBreakSourceType;
+  totalPages: number;
+  matched: number;
+  interpolated: number;
+  needsReview: number;
+  averageConfidence: number;
+  pageBreaks: PageBreakAlignment[];
+  results: ModificationResult[];
+}
+
+/** A word of the EPUB text and where it starts in its spine document */
+interface BookWord {
+  word: string;
+  file: number;
+  offset: number;
+}
+
+interface SpineDocument {
+  path: string;
+  content: string;
+}
+
+/**
+ * Split text into normalized words for alignment.
+ * Words are NFKC-normalized (folding ligatures such as "ﬁ") and lowercased;
+ * words hyphenated across a line break are rejoined.
+ */
+export function normalizeWords(text: string): string[] {
+  const joined = text
+    .normalize('NFKC')
+    .replace(/\u00AD/g, '')
+    .replace(/(\p{L})-\s*\n\s*(\p{Ll})/gu, '$1$2');
+  return (joined.match(WORD_RE) ?? []).map(w => w.toLowerCase());
+}
+
+/**
+ * Split a CSV line into fields. Fields may be quoted; `""` inside a quoted
+ * field is a literal quote.
+ */
+function splitCsvLine(line: string): string[] {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field);
+  return fields.map(f => f.trim());
+}
+
+/**
+ * Parse a CSV page map: one row per print page, `label,opening text`.
+ * A header row whose first column is "page" or "label" is skipped; commas
+ * inside unquoted text are kept as part of the text.
+ *
+ * @param csv - Page map contents
+ * @returns Print pages in order
+ * @throws AppError 400 INVALID_PAGE_MAP when a row has no label or the map is empty
+ */
+export function parsePageMap(csv: string): PrintPage[] {
+  const pages: PrintPage[] = [];
+  const lines = csv.replace(/^\uFEFF/, '').split(/\r?\n/);
+
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    const [label, ...rest] = splitCsvLine(line);
+    if (index === 0 && /^(page|label)$/i.test(label)) return;
+    if (!label) {
+      throw AppError.badRequest(`Page map row ${index + 1} has no page label`, 'INVALID_PAGE_MAP');
+    }
+    pages.push({ label, text: rest.join(', ') });
+  });
+
+  if (pages.length === 0) {
+    throw AppError.badRequest('Page map contains no pages', 'INVALID_PAGE_MAP');
+  }
+  return pages;
+}
+
+/** Index of the first element of a sorted array that is >= value */
+function lowerBound(sorted: number[], value: number): number {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] < value) lo = mid + 1;
+    else hi = mid;
+  }
+  return lo;
+}
+
+/**
+ * Best placement of an anchor within [from, to) of the book.
+ * Candidates come from the rarest anchor words only: any placement matching
+ * at least MIN_MATCH_RATIO of the anchor must match one of them.
+ */
+function findAnchor(
+  bookWords: string[],
+  index: Map<string, number[]>,
+  anchor: string[],
+  from: number,
+  to: number
+): { position: number; ratio: number } | null {
+  const required = Math.ceil(MIN_MATCH_RATIO * anchor.length);
+  const rarest = anchor
+    .map((word, i) => ({ i, positions: index.get(word) ?? [] }))
+    .sort((a, b) => a.positions.length - b.positions.length)
+    .slice(0, anchor.length - required + 1);
+
+  const candidates = new Set<number>();
+  for (const { i, positions } of rarest) {
+    for (let k = lowerBound(positions, from + i); k < positions.length && positions[k] < to + i; k++) {
+      candidates.add(positions[k] - i);
+    }
+  }
+
+  let best: { position: number; ratio: number } | null = null;
+  for (const position of candidates) {
+    let hits = 0;
+    for (let i = 0; i < anchor.length; i++) {
+      if (bookWords[position + i] === anchor[i]) hits++;
+    }
+    const ratio = hits / anchor.length;
+    if (!best || ratio > best.ratio || (ratio === best.ratio && position < best.position)) {
+      best = { position, ratio };
+    }
+  }
+  return best;
+}
+
+/**
+ * Find the start of a print page within [from, to) of the book, skipping up to
+ * MAX_SKIP_WORDS leading words (running heads and folios are not in the EPUB).
+ * The best-matching skip wins; ties go to the fewest skipped words.
+ */
+function findPage(
+  bookWords: string[],
+  index: Map<string, number[]>,
+  words: string[],
+  from: number,
+  to: number,
+  minRatio: number
+): { position: number; ratio: number } | null {
+  let best: { position: number; ratio: number } | null = null;
+  for (let skip = 0; skip <= MAX_SKIP_WORDS && words.length - skip >= MIN_ANCHOR_WORDS; skip++) {
+    const found = findAnchor(bookWords, index, words.slice(skip, skip + ANCHOR_WORDS), from, to);
+    if (found && found.ratio >= minRatio && (!best || found.ratio > best.ratio)) {
+      best = found;
+      if (found.ratio === 1) break;
+    }
+  }
+  return best;
+}
+
+/**
+ * Align print pages to the book text.
+ * Pages are matched in order, each searched from the previous match within a
+ * window sized by the average page length; a match outside the window needs a
+ * higher ratio. Unmatched pages are interpolated between matched neighbours.
+ *
+ * @param bookWords - Normalized words of the EPUB in reading order
+ * @param pageWords - Normalized words of each print page, in page order
+ * @returns One alignment per page, with non-decreasing positions
+ */
+export function alignPrintPages(bookWords: string[], pageWords: string[][]): PageAlignment[] {
+  const index = new Map<string, number[]>();
+  bookWords.forEach((word, position) => {
+    const positions = index.get(word);
+    if (positions) positions.push(position);
+    else index.set(word, [position]);
+  });
+
+  const avgPageWords = Math.max(bookWords.length / Math.max(pageWords.length, 1), 50);
+  const aligned: Array<PageAlignment | null> = [];
+  let cursor = 0;
+  let sinceMatch = 0;
+
+  for (const words of pageWords) {
+    let match: { position: number; ratio: number } | null = null;
+
+    if (words.length >= MIN_ANCHOR_WORDS) {
+      const windowEnd = cursor + Math.ceil(avgPageWords * (sinceMatch + 3));
+      match = findPage(bookWords, index, words, cursor, windowEnd, MIN_MATCH_RATIO)
+        ?? findPage(bookWords, index, words, windowEnd, bookWords.length, MIN_FAR_MATCH_RATIO);
+    }
+
+    if (match) {
+      aligned.push({ position: match.position, confidence: match.ratio, method: 'matched' });
+      cursor = match.position;
+      sinceMatch = 0;
+    } else {
+      aligned.push(null);
+      sinceMatch++;
+    }
+  }
+
+  // Interpolate runs of unmatched pages between their matched neighbours
+  const result: PageAlignment[] = [];
+  let prevIndex = -1;
+  let prevPosition = 0;
+  for (let i = 0; i < aligned.length; i++) {
+    const current = aligned[i];
+    if (current) {
+      result.push(current);
+      prevIndex = i;
+      prevPosition = current.position;
+      continue;
+    }
+    let nextIndex = i + 1;
+    while (nextIndex < aligned.length && !aligned[nextIndex]) nextIndex++;
+    const nextPosition = aligned[nextIndex]?.position ?? bookWords.length;
+    const share = (i - prevIndex) / (nextIndex - prevIndex);
+    const position = Math.min(
+      prevPosition + Math.round((nextPosition - prevPosition) * share),
+      Math.max(bookWords.length - 1, 0)
+    );
+    result.push({ position, confidence: INTERPOLATED_CONFIDENCE, method: 'interpolated' });
+  }
+  return result;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function resolveHref(opfPath: string, href: string): string {
+  return path.posix.join(path.posix.dirname(opfPath), decodeURIComponent(href));
+}
+
+/**
+ * Words of an XHTML document with their offsets in the source string.
+ * Only body text is indexed; script and style contents are skipped.
+ * Entities are blanked (keeping offsets) so they split words like the
+ * characters they stand for.
+ */
+function extractBookWords(content: string, file: number): BookWord[] {
+  const words: BookWord[] = [];
+  const bodyMatch = content.match(/<body\b[^>]*>/i);
+  if (!bodyMatch || bodyMatch.index === undefined) return words;
+
+  const tokenRe = /<(\/?)([a-zA-Z][\w:-]*)[^>]*>|<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|[^<]+/g;
+  tokenRe.lastIndex = bodyMatch.index + bodyMatch[0].length;
+  let skipDepth = 0;
+  let token: RegExpExecArray | null;
+
+  while ((token = tokenRe.exec(content))) {
+    if (token[2]) {
+      const tag = token[2].toLowerCase();
+      if (tag === 'script' || tag === 'style') {
+        if (token[1]) skipDepth = Math.max(skipDepth - 1, 0);
+        else if (!token[0].endsWith('/>')) skipDepth++;
+      }
+      continue;
+    }
+    if (skipDepth > 0 || token[0].startsWith('<')) continue;
+
+    const text = token[0].replace(/&[#\w]+;/g, m => ' '.repeat(m.length));
+    for (const word of text.matchAll(WORD_RE)) {
+      words.push({
+        word: word[0].normalize('NFKC').toLowerCase(),
+        file,
+        offset: token.index + (word.index ?? 0),
+      });
+    }
+  }
+  return words;
+}
+
+class PageListGeneratorService {
+  /**
+   * Read the pages of a print PDF.
+   * Labels come from the PDF's page labels when it defines them (so front
+   * matter keeps its roman numerals), otherwise from the physical page number.
+   *
+   * @param pdfBuffer - Print PDF of the same title
+   * @param fileName - Original file name, for error messages
+   */
+  async extractPrintPages(pdfBuffer: Buffer, fileName = 'print.pdf'): Promise<PrintPage[]> {
+    const parsedPdf = await pdfParserService.parseBuffer(pdfBuffer, fileName);
+    try {
+      const labels = await parsedPdf.pdfjsDoc.getPageLabels();
+      const document = await textExtractorService.extractText(parsedPdf, {
+        includePositions: false,
+        includeFontInfo: false,
+        groupIntoBlocks: false,
+      });
+      return document.pages.map(page => ({
+        label: labels?.[page.pageNumber - 1]?.trim() || String(page.pageNumber),
+        text: page.text,
+      }));
+    } finally {
+      await pdfParserService.close(parsedPdf);
+    }
+  }
+
+  /**
+   * Insert print page breaks and the page-list into an EPUB.
+   *
+   * @param zip - Loaded EPUB (modified in place)
+   * @param pages - Print pages in order
+   * @param source - Where the pages came from
+   * @param options - pageBreakSource value and review threshold
+   * @returns Per-break alignment with confidence, plus the modifications made
+   * @throws AppError 409 PAGE_BREAKS_EXIST when the EPUB already has page breaks
+   * @throws AppError 422 when the OPF, nav document or spine text is missing
+   */
+  async generate(
+    zip: JSZip,
+    pages: PrintPage[],
+    source: PageBreakSourceType,
+    options: PageListGenerationOptions = {}
+  ): Promise<PageListGenerationResult> {
+    const reviewThreshold = options.reviewThreshold ?? DEFAULT_REVIEW_THRESHOLD;
+
+    const opf = await epubModifier.getOPF(zip);
+    if (!opf) {
+      throw AppError.unprocessable('Failed to locate OPF file', 'OPF_NOT_FOUND');
+    }
+
+    const navItem = opf.content.match(
+      /<item\b(?=[^>]*\bproperties\s*=\s*["'][^"']*\bnav\b)[^>]*\bhref\s*=\s*["']([^"']+)["'][^>]*>/i
+    );
+    if (!navItem) {
+      throw AppError.unprocessable('EPUB has no navigation document', 'NAV_DOCUMENT_MISSING');
+    }
+    const navPath = resolveHref(opf.path, navItem[1]);
+
+    const documents = await this.loadSpineDocuments(zip, opf, navPath);
+    if (documents.some(doc => /epub:type\s*=\s*["'][^"']*\bpagebreak\b/i.test(doc.content))) {
+      throw AppError.conflict('EPUB already contains page breaks', 'PAGE_BREAKS_EXIST');
+    }
+
+    const bookWords = documents.flatMap((doc, i) => extractBookWords(doc.content, i));
+    if (bookWords.length === 0) {
+      throw AppError.unprocessable('EPUB has no text to align page breaks to', 'NO_SPINE_TEXT');
+    }
+
+    const pageWords = pages.map(page => normalizeWords(page.text).slice(0, ANCHOR_WORDS + MAX_SKIP_WORDS));
+    const alignments = alignPrintPages(bookWords.map(w => w.word), pageWords);
+
+    const pageBreaks: PageBreakAlignment[] = [];
+    const insertions = new Map<number, Array<{ offset: number; markup: string }>>();
+    const usedIds = new Set<string>();
+
+    alignments.forEach((alignment, i) => {
+      const label = pages[i].label;
+      const word = bookWords[alignment.position];
+      const doc = documents[word.file];
+      const id = this.uniqueId(label, doc.content, usedIds);
+
+      const markup = `<span epub:type="pagebreak" role="doc-pagebreak" id="${id}" aria-label="${escapeXml(label)}"/>`;
+      const fileInsertions = insertions.get(word.file) ?? [];
+      fileInsertions.push({ offset: word.offset, markup });
+      insertions.set(word.file, fileInsertions);
+
+      pageBreaks.push({
+        label,
+        id,
+        filePath: doc.path,
+        confidence: Math.round(alignment.confidence * 100) / 100,
+        method: alignment.method,
+        needsReview: alignment.confidence < reviewThreshold,
+        anchorText: bookWords.slice(alignment.position, alignment.position + 8).map(w => w.word).join(' '),
+      });
+    });
+
+    const results: ModificationResult[] = [];
+
+    for (const [file, fileInsertions] of insertions) {
+      const doc = documents[file];
+      // Stable sort keeps page order for breaks placed at the same offset
+      fileInsertions.sort((a, b) => a.offset - b.offset);
+      let modified = '';
+      let last = 0;
+      for (const insertion of fileInsertions) {
+        modified += doc.content.slice(last, insertion.offset) + insertion.markup;
+        last = insertion.offset;
+      }
+      modified += doc.content.slice(last);
+      zip.file(doc.path, modified);
+
+      const breaks = pageBreaks.filter(b => b.filePath === doc.path);
+      results.push({
+        success: true,
+        filePath: doc.path,
+        modificationType: 'add_page_breaks',
+        description:
+          `Inserted ${breaks.length} page break(s) (pages ${breaks[0].label}–${breaks[breaks.length - 1].label}); ` +
+          `${breaks.filter(b => b.needsReview).length} need review`,
+      });
+    }
+
+    results.push(await this.writePageList(zip, navPath, pageBreaks));
+    results.push(await this.writePageBreakSource(zip, opf, options.pageBreakSource));
+
+    const matched = pageBreaks.filter(b => b.method === 'matched').length;
+    const needsReview = pageBreaks.filter(b => b.needsReview).length;
+    const averageConfidence = pageBreaks.length > 0
+      ? Math.round((pageBreaks.reduce((sum, b) => sum + b.confidence, 0) / pageBreaks.length) * 100) / 100
+      : 0;
+
+    logger.info(
+      `[PageList] Inserted ${pageBreaks.length} page break(s) from ${source}: ` +
+      `${matched} matched, ${pageBreaks.length - matched} interpolated, ${needsReview} need review`
+    );
+
+    return {
+      source,
+      totalPages: pageBreaks.length,
+      matched,
+      interpolated: pageBreaks.length - matched,
+      needsReview,
+      averageConfidence,
+      pageBreaks,
+      results,
+    };
+  }
+
+  /**
+   * Spine XHTML documents in reading order, excluding the nav document so
+   * table-of-contents entries cannot attract page anchors.
+   */
+  private async loadSpineDocuments(
+    zip: JSZip,
+    opf: { path: string; content: string },
+    navPath: string
+  ): Promise<SpineDocument[]> {
+    const manifest = new Map<string, string>();
+    for (const item of opf.content.matchAll(/<item\b[^>]*>/gi)) {
+      const id = item[0].match(/\bid\s*=\s*["']([^"']+)["']/i)?.[1];
+      const href = item[0].match(/\bhref\s*=\s*["']([^"']+)["']/i)?.[1];
+      if (id && href) manifest.set(id, resolveHref(opf.path, href));
+    }
+
+    const documents: SpineDocument[] = [];
+    for (const itemref of opf.content.matchAll(/<itemref\b[^>]*\bidref\s*=\s*["']([^"']+)["'][^>]*>/gi)) {
+      const filePath = manifest.get(itemref[1]);
+      if (!filePath || filePath === navPath || !/\.x?html?$/i.test(filePath)) continue;
+      const content = await zip.file(filePath)?.async('text');
+      if (content) documents.push({ path: filePath, content });
+    }
+    return documents;
+  }
+
+  private uniqueId(label: string, content: string, usedIds: Set<string>): string {
+    const base = `page_${label.replace(/[^A-Za-z0-9_-]/g, '_')}`;
+    let id = base;
+    for (let n = 2; usedIds.has(id) || content.includes(`id="${id}"`); n++) {
+      id = `${base}_${n}`;
+    }
+    usedIds.add(id);
+    return id;
+  }
+
+  /**
+   * Replace the nav document's page-list with one linking every break.
+   * The list is hidden with both `hidden="hidden"` and `class="hidden_content"`.
+   */
+  private async writePageList(
+    zip: JSZip,
+    navPath: string,
+    pageBreaks: PageBreakAlignment[]
+  ): Promise<ModificationResult> {
+    const navContent = await zip.file(navPath)?.async('text');
+    if (!navContent) {
+      return {
+        success: false,
+        filePath: navPath,
+        modificationType: 'add_page_list',
+        description: 'Navigation document not found in the package',
+      };
+    }
+
+    const navDir = path.posix.dirname(navPath);
+    const entries = pageBreaks.map(b => {
+      const href = `${path.posix.relative(navDir, b.filePath)}#${b.id}`;
+      return `      <li><a href="${escapeXml(href)}">${escapeXml(b.label)}</a></li>`;
+    });
+    const pageList = [
+      '<nav epub:type="page-list" role="doc-pagelist" aria-label="Page list" hidden="hidden" class="hidden_content">',
+      '    <ol>',
+      ...entries,
+      '    </ol>',
+      '  </nav>',
+    ].join('\n');
+
+    const existing = /<nav\b[^>]*\bepub:type\s*=\s*["'][^"']*\bpage-list\b[^"']*["'][^>]*>[\s\S]*?<\/nav>/i;
+    const replacing = existing.test(navContent);
+    let modified: string;
+    if (replacing) {
+      modified = navContent.replace(existing, pageList);
+    } else {
+      const lastNavEnd = navContent.lastIndexOf('</nav>');
+      modified = lastNavEnd >= 0
+        ? `${navContent.slice(0, lastNavEnd + 6)}\n  ${pageList}${navContent.slice(lastNavEnd + 6)}`
+        : navContent.replace(/<\/body>/i, `  ${pageList}\n</body>`);
+    }
+    zip.file(navPath, modified);
+
+    return {
+      success: true,
+      filePath: navPath,
+      modificationType: 'add_page_list',
+      description: `${replacing ? 'Replaced' : 'Added'} page-list navigation with ${pageBreaks.length} entries`,
+    };
+  }
+
+  /**
+   * Record the pagination source in the OPF and declare the page navigation
+   * accessibility features.
+   */
+  private async writePageBreakSource(
+    zip: JSZip,
+    opf: { path: string; content: string },
+    pageBreakSource?: string
+  ): Promise<ModificationResult> {
+    const current = (await zip.file(opf.path)?.async('text')) ?? opf.content;
+    const value = pageBreakSource?.trim()
+      || current.match(/<dc:source\b[^>]*>([^<]+)<\/dc:source>/i)?.[1].trim()
+      || 'print edition';
+
+    // EPUB Accessibility 1.1 property; the a11y prefix is reserved, so no prefix declaration is needed.
+    // Earlier unprefixed values (undefined for EPUBCheck) are replaced as well.
+    let modified = current.replace(/\s*<meta[^>]*property\s*=\s*["'](?:a11y:)?pageBreakSource["'][^>]*>[^<]*<\/meta>/gi, '');
+    const metadataToAdd = [`<meta property="a11y:pageBreakSource">${escapeXml(value)}</meta>`];
+    for (const feature of ['printPageNumbers', 'pageNavigation']) {
+      const pattern = new RegExp(`property\\s*=\\s*["']schema:accessibilityFeature["'][^>]*>\\s*${feature}\\s*<`, 'i');
+      if (!pattern.test(modified)) {
+        metadataToAdd.push(`<meta property="schema:accessibilityFeature">${feature}</meta>`);
+      }
+    }
+
+    modified = modified.replace('</metadata>', '\n    ' + metadataToAdd.join('\n    ') + '\n</metadata>');
+    await epubModifier.updateOPF(zip, opf.path, modified);
+
+    return {
+      success: true,
+      filePath: opf.path,
+      modificationType: 'add_page_break_source',
+      description: `Set a11y:pageBreakSource to "${value}"`,
+      after: metadataToAdd.join('\n'),
+    };
+  }
+}
+
+export const pageListGenerator = new PageListGeneratorService();
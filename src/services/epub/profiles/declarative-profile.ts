@@ -0,0 +1,136 @@
+/**
+ * Declarative publisher profiles.
+ *
+ * Tenants that deliver to publishers without a built-in profile describe
+ * them in configuration (`Tenant.settings.publisherProfiles.custom`): the
+ * publisher strings, URLs and file-path fragments that identify the
+ * publisher, an imprint catalogue and the VPAT edition to use. This
+ * module turns one such entry into a `PublisherProfileDefinition`.
+ *
+ * Declarative profiles drive detection, imprint and ACR selection only —
+ * validators and remediators stay code-defined, so a declarative profile
+ * carries none.
+ */
+
+import type { AcrEdition } from '../../acr/acr-generator.service';
+import type { ProfileDetectionInput, ProfileSignal, PublisherProfileDefinition } from './types';
+
+export interface DeclarativeImprintConfig {
+  id: string;
+  displayName: string;
+  /** Case-insensitive substrings matched against the OPF and content sample. */
+  textFragments: string[];
+  urlFragments: string[];
+  filePathFragments: string[];
+}
+
+export interface DeclarativeProfileConfig {
+  /** Upper-case publisher id, e.g. `'HACHETTE-UK'`. */
+  id: string;
+  displayName: string;
+  signals: {
+    /** Matched against `dc:publisher`; a match is a strong signal. */
+    publisherText: string[];
+    /** Matched against the OPF and content sample; moderate signals. */
+    urlFragments: string[];
+    /** Matched against zip paths; weak signals. */
+    filePathFragments: string[];
+  };
+  imprints: DeclarativeImprintConfig[];
+  acrEdition: AcrEdition;
+}
+
+/**
+ * Minimum imprint score required to pin an imprint, mirroring the PRH
+ * detector: one path match (2) or two text/URL matches.
+ */
+const IMPRINT_SCORE_THRESHOLD = 2;
+
+export function buildDeclarativeProfile(config: DeclarativeProfileConfig): PublisherProfileDefinition {
+  return {
+    id: config.id,
+    displayName: config.displayName,
+    origin: 'tenant',
+    detect: (input) => detectDeclarative(config, input),
+    issueSource: 'publisher-profile',
+    remediators: {},
+    acrEdition: config.acrEdition,
+    imprints: config.imprints.map((i) => ({ id: i.id, displayName: i.displayName })),
+  };
+}
+
+function detectDeclarative(config: DeclarativeProfileConfig, input: ProfileDetectionInput) {
+  const opf = (input.opfContent ?? '').toLowerCase();
+  const sample = (input.contentSample ?? '').toLowerCase();
+  const paths = (input.filePaths ?? []).map((p) => p.toLowerCase());
+  const publishers = readPublishers(input.opfContent ?? '');
+  const key = config.id.toLowerCase();
+  const signals: ProfileSignal[] = [];
+
+  const publisherText = config.signals.publisherText.find((text) =>
+    publishers.some((p) => p.includes(text.toLowerCase())),
+  );
+  if (publisherText) {
+    signals.push({
+      id: `${key}-publisher-text`,
+      description: `OPF dc:publisher matches "${publisherText}" (${config.displayName})`,
+      strength: 'strong',
+    });
+  }
+
+  for (const url of config.signals.urlFragments) {
+    const fragment = url.toLowerCase();
+    if (opf.includes(fragment) || sample.includes(fragment)) {
+      signals.push({
+        id: `${key}-url-${fragment}`,
+        description: `Content references "${url}" (${config.displayName})`,
+        strength: 'moderate',
+      });
+    }
+  }
+
+  for (const path of config.signals.filePathFragments) {
+    const fragment = path.toLowerCase();
+    if (paths.some((p) => p.includes(fragment))) {
+      signals.push({
+        id: `${key}-path-${fragment}`,
+        description: `File path contains "${path}" (${config.displayName})`,
+        strength: 'weak',
+      });
+    }
+  }
+
+  if (signals.length === 0) return { matched: false, imprint: null, signals };
+
+  let imprint = 'unknown';
+  let bestScore = 0;
+  for (const entry of config.imprints) {
+    let score = 0;
+    for (const fragment of entry.filePathFragments) {
+      if (paths.some((p) => p.includes(fragment.toLowerCase()))) score += 2;
+    }
+    for (const fragment of [...entry.textFragments, ...entry.urlFragments]) {
+      const lower = fragment.toLowerCase();
+      if (opf.includes(lower) || sample.includes(lower)) score += 1;
+    }
+    if (score >= IMPRINT_SCORE_THRESHOLD && score > bestScore) {
+      imprint = entry.id;
+      bestScore = score;
+    }
+  }
+  if (imprint !== 'unknown') {
+    signals.push({
+      id: `${key}-imprint-${imprint}`,
+      description: `Imprint signals match ${imprint} (score ${bestScore})`,
+      strength: 'moderate',
+    });
+  }
+
+  return { matched: true, imprint, signals };
+}
+
+function readPublishers(opf: string): string[] {
+  return [...opf.matchAll(/<dc:publisher\b[^>]*>([\s\S]*?)<\/dc:publisher>/gi)].map((m) =>
+    m[1].trim().toLowerCase(),
+  );
+}
@@ -0,0 +1,136 @@
+/**
+ * Fixed-layout (pre-paginated) rendition detector.
+ *
+ * EPUB 3 Fixed Layout lets a package declare `rendition:layout
+ * pre-paginated` globally in the OPF metadata, and lets individual spine
+ * items override it with `rendition:layout-pre-paginated` /
+ * `rendition:layout-reflowable` itemref properties. Picture books from
+ * the children's imprints (Ladybird, Puffin) use the global form; mixed
+ * packages (a reflowable novel with a fixed-layout map insert) use the
+ * per-item form, so detection has to resolve both.
+ *
+ * Pure function over the OPF string — no zip access — so the audit
+ * service, the remediators and the auto-remediation guard can all share
+ * one answer to "is this page fixed layout?".
+ */
+
+export type RenditionLayout = 'pre-paginated' | 'reflowable';
+
+export type PageSpreadSide = 'left' | 'right' | 'center';
+
+export interface RenditionSpineItem {
+  idref: string;
+  /** Zip-relative path of the content document (resolved against the OPF dir). */
+  path: string;
+  linear: boolean;
+  /** Effective layout after the itemref override is applied. */
+  layout: RenditionLayout;
+  /** `page-spread-*` property, or null when the reading system decides. */
+  spread: PageSpreadSide | null;
+}
+
+export interface RenditionProfile {
+  /** Package-level `rendition:layout` (EPUB default: reflowable). */
+  layout: RenditionLayout;
+  /** Package-level `rendition:spread` (none / landscape / both / auto), or null when undeclared. */
+  spread: string | null;
+  /** Package-level `rendition:orientation`, or null when undeclared. */
+  orientation: string | null;
+  /** Deprecated package-level `rendition:viewport` value, kept as a sizing fallback. */
+  viewport: string | null;
+  /** Spine `page-progression-direction`. */
+  pageProgression: 'ltr' | 'rtl' | 'default';
+  spine: RenditionSpineItem[];
+  /** True when at least one spine item renders pre-paginated. */
+  hasFixedLayout: boolean;
+}
+
+export function detectRenditionProfile(opfContent: string, opfPath: string): RenditionProfile {
+  const layout: RenditionLayout =
+    readRenditionMeta(opfContent, 'rendition:layout')?.toLowerCase() === 'pre-paginated'
+      ? 'pre-paginated'
+      : 'reflowable';
+
+  const opfDir = opfPath.includes('/') ? opfPath.slice(0, opfPath.lastIndexOf('/') + 1) : '';
+  const hrefById = new Map<string, string>();
+  const manifestMatch = opfContent.match(/<manifest\b[^>]*>([\s\S]*?)<\/manifest>/i);
+  if (manifestMatch) {
+    for (const m of manifestMatch[1].matchAll(/<item\b([^>]*)\/?>/gi)) {
+      const id = readAttr(m[1], 'id');
+      const href = readAttr(m[1], 'href');
+      if (id && href) hrefById.set(id, resolveOpfRelative(opfDir, href));
+    }
+  }
+
+  const spineOpen = opfContent.match(/<spine\b([^>]*)>/i);
+  const direction = spineOpen ? readAttr(spineOpen[1], 'page-progression-direction')?.toLowerCase() : null;
+  const pageProgression = direction === 'rtl' || direction === 'ltr' ? direction : 'default';
+
+  const spine: RenditionSpineItem[] = [];
+  const spineMatch = opfContent.match(/<spine\b[^>]*>([\s\S]*?)<\/spine>/i);
+  if (spineMatch) {
+    for (const m of spineMatch[1].matchAll(/<itemref\b([^>]*)\/?>/gi)) {
+      const idref = readAttr(m[1], 'idref');
+      const path = idref ? hrefById.get(idref) : undefined;
+      if (!idref || !path) continue;
+      const props = (readAttr(m[1], 'properties') ?? '').toLowerCase().split(/\s+/);
+      spine.push({
+        idref,
+        path,
+        linear: readAttr(m[1], 'linear')?.toLowerCase() !== 'no',
+        layout: props.includes('rendition:layout-pre-paginated')
+          ? 'pre-paginated'
+          : props.includes('rendition:layout-reflowable')
+            ? 'reflowable'
+            : layout,
+        spread: readSpreadSide(props),
+      });
+    }
+  }
+
+  return {
+    layout,
+    spread: readRenditionMeta(opfContent, 'rendition:spread'),
+    orientation: readRenditionMeta(opfContent, 'rendition:orientation'),
+    viewport: readRenditionMeta(opfContent, 'rendition:viewport'),
+    pageProgression,
+    spine,
+    hasFixedLayout: spine.some((item) => item.layout === 'pre-paginated'),
+  };
+}
+
+// ── helpers ──────────────────────────────────────────────────────────────
+
+function readRenditionMeta(opf: string, property: string): string | null {
+  const re = new RegExp(
+    `<meta\\b[^>]*\\bproperty\\s*=\\s*["']${property}["'][^>]*>([\\s\\S]*?)</meta>`,
+    'i',
+  );
+  const value = opf.match(re)?.[1].trim();
+  return value ? value : null;
+}
+
+function readSpreadSide(props: string[]): PageSpreadSide | null {
+  if (props.includes('page-spread-left') || props.includes('rendition:page-spread-left')) return 'left';
+  if (props.includes('page-spread-right') || props.includes('rendition:page-spread-right')) return 'right';
+  if (props.includes('rendition:page-spread-center') || props.includes('page-spread-center')) return 'center';
+  return null;
+}
+
+function readAttr(attrs: string, name: string): string | null {
+  // `name="value"` or `name='value'`, with optional whitespace around `=`.
+  const re = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i');
+  const m = attrs.match(re);
+  if (!m) return null;
+  return (m[1] ?? m[2]) ?? null;
+}
+
+function resolveOpfRelative(opfDir: string, href: string): string {
+  const parts = (opfDir + href.split('#')[0]).split('/');
+  const out: string[] = [];
+  for (const part of parts) {
+    if (part === '..') out.pop();
+    else if (part !== '.' && part !== '') out.push(part);
+  }
+  return out.join('/');
+}
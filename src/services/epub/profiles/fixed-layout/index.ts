@@ -0,0 +1,21 @@
+/**
+ * Fixed-layout (pre-paginated) EPUB profile.
+ *
+ * Unlike the publisher profiles this one is keyed on the rendition, not
+ * the publisher: it runs for any package whose spine contains
+ * pre-paginated documents, which covers the Ladybird and Puffin picture
+ * books the PRH imprint detector recognises as well as third-party
+ * comics and children's titles.
+ */
+
+export { detectRenditionProfile } from './detector';
+export type { RenditionLayout, RenditionProfile, RenditionSpineItem, PageSpreadSide } from './detector';
+
+export { runFixedLayoutValidators, loadFixedLayoutInput } from './run-validators';
+export type { FixedLayoutValidationResult } from './run-validators';
+export type { FixedLayoutValidatorIssue } from './validators/types';
+export {
+  fixFixedLayoutViewport,
+  addFixedLayoutSummaryCaveat,
+  FIXED_LAYOUT_SUMMARY_CAVEAT,
+} from './remediators/fixed-layout-remediator';
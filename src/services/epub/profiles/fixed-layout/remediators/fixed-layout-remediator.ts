@@ -0,0 +1,150 @@
+/**
+ * Fixed-layout remediators.
+ *
+ * Only the two fixes that are safe without seeing the page are automated:
+ * declaring a viewport and adding the accessibility-summary caveat.
+ * Neither touches page markup beyond the `<head>`, so the positioned
+ * artwork and text keep their exact placement. Text baked into images
+ * and reading-order problems need the source files and stay manual.
+ *
+ * Each function returns the `{success, description, before?, after?}`
+ * shape the auto-remediation handler registry expects.
+ */
+
+import JSZip from 'jszip';
+import { loadFixedLayoutInput } from '../run-validators';
+import { parseViewport, readViewportMeta, type ViewportSize } from '../validators/viewport-validator';
+import {
+  FIXED_LAYOUT_CAVEAT_PATTERN,
+  readAccessibilitySummary,
+} from '../validators/summary-caveat-validator';
+
+interface ChangeResult {
+  success: boolean;
+  description: string;
+  before?: string;
+  after?: string;
+}
+
+export const FIXED_LAYOUT_SUMMARY_CAVEAT =
+  'This publication uses a fixed layout: each page keeps its printed design, so text cannot be resized, restyled or reflowed, and pages may need to be zoomed to read comfortably.';
+
+/**
+ * Give every pre-paginated page a valid `<meta name="viewport">`. The size
+ * comes from, in order: the page's own inline SVG `viewBox`, the most
+ * common valid viewport among the other pages, then the deprecated OPF
+ * `rendition:viewport`. Pages with no usable size are reported as failed.
+ */
+export async function fixFixedLayoutViewport(zip: JSZip): Promise<ChangeResult[]> {
+  const input = await loadFixedLayoutInput(zip);
+  if (!input || !input.rendition.hasFixedLayout) {
+    return [{ success: false, description: 'FXL-VIEWPORT: package has no pre-paginated content documents' }];
+  }
+
+  const counts = new Map<string, number>();
+  for (const page of input.pages) {
+    const size = parseViewport(readViewportMeta(page.content) ?? '');
+    if (size) counts.set(formatViewport(size), (counts.get(formatViewport(size)) ?? 0) + 1);
+  }
+  const dominant = [...counts.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] ?? null;
+  const packageViewport = input.rendition.viewport ? parseViewport(input.rendition.viewport) : null;
+  const fallback = dominant ?? (packageViewport ? formatViewport(packageViewport) : null);
+
+  const results: ChangeResult[] = [];
+  for (const page of input.pages) {
+    if (/\.svg$/i.test(page.path)) continue;
+    const current = readViewportMeta(page.content);
+    if (current !== null && parseViewport(current)) continue;
+
+    const svgSize = readSvgViewBox(page.content);
+    const viewport = svgSize ? formatViewport(svgSize) : fallback;
+    if (!viewport) {
+      results.push({
+        success: false,
+        description: `FXL-VIEWPORT: no page size could be determined for ${page.path}; add the viewport manually`,
+      });
+      continue;
+    }
+
+    const tag = `<meta name="viewport" content="${viewport}"/>`;
+    const updated =
+      current === null
+        ? page.content.replace(/<head\b[^>]*>/i, (head) => `${head}\n    ${tag}`)
+        : page.content.replace(/<meta\b[^>]*\bname\s*=\s*["']viewport["'][^>]*>/i, tag);
+    if (updated === page.content) {
+      results.push({ success: false, description: `FXL-VIEWPORT: ${page.path} has no <head> to add a viewport to` });
+      continue;
+    }
+
+    zip.file(page.path, updated);
+    results.push({
+      success: true,
+      description: `FXL-VIEWPORT: set viewport to ${viewport} in ${page.path}`,
+      before: current === null ? undefined : `<meta name="viewport" content="${current}"/>`,
+      after: tag,
+    });
+  }
+
+  return results.length > 0
+    ? results
+    : [{ success: true, description: 'FXL-VIEWPORT: every page already declares a valid viewport; no change' }];
+}
+
+/**
+ * Append the fixed-layout caveat to `schema:accessibilitySummary`, or
+ * create the summary when the package has none.
+ */
+export async function addFixedLayoutSummaryCaveat(zip: JSZip): Promise<ChangeResult[]> {
+  const input = await loadFixedLayoutInput(zip);
+  if (!input) {
+    return [{ success: false, description: 'FXL-SUMMARY-CAVEAT: OPF not found in EPUB' }];
+  }
+
+  const summary = readAccessibilitySummary(input.opfContent);
+  if (summary && FIXED_LAYOUT_CAVEAT_PATTERN.test(summary)) {
+    return [{ success: true, description: 'FXL-SUMMARY-CAVEAT: summary already mentions the fixed layout; no change' }];
+  }
+
+  const next = summary
+    ? `${summary}${/[.!?]$/.test(summary) ? ' ' : '. '}${FIXED_LAYOUT_SUMMARY_CAVEAT}`
+    : FIXED_LAYOUT_SUMMARY_CAVEAT;
+  const updated = summary
+    ? input.opfContent.replace(
+        /(<meta\b[^>]*\bproperty\s*=\s*["']schema:accessibilitySummary["'][^>]*>)[\s\S]*?(<\/meta>)/i,
+        (_m, open: string, close: string) => `${open}${next}${close}`,
+      )
+    : input.opfContent.replace(
+        /(\s*)<\/metadata>/i,
+        (_m, ws: string) => `\n    <meta property="schema:accessibilitySummary">${next}</meta>${ws}</metadata>`,
+      );
+
+  if (updated === input.opfContent) {
+    return [{ success: false, description: 'FXL-SUMMARY-CAVEAT: OPF has no <metadata> element' }];
+  }
+
+  zip.file(input.opfPath, updated);
+  return [
+    {
+      success: true,
+      description: summary
+        ? 'FXL-SUMMARY-CAVEAT: appended the fixed-layout caveat to the accessibility summary'
+        : 'FXL-SUMMARY-CAVEAT: added an accessibility summary stating the fixed layout',
+      before: summary ?? undefined,
+      after: next,
+    },
+  ];
+}
+
+// ── helpers ──────────────────────────────────────────────────────────────
+
+function formatViewport(size: ViewportSize): string {
+  return `width=${size.width}, height=${size.height}`;
+}
+
+function readSvgViewBox(xhtml: string): ViewportSize | null {
+  const m = xhtml.match(/<svg\b[^>]*\bviewBox\s*=\s*["']\s*[-\d.]+[\s,]+[-\d.]+[\s,]+([\d.]+)[\s,]+([\d.]+)\s*["']/i);
+  if (!m) return null;
+  const width = Number(m[1]);
+  const height = Number(m[2]);
+  return width > 0 && height > 0 ? { width, height } : null;
+}
@@ -0,0 +1,94 @@
+/**
+ * Fixed-layout validator orchestrator.
+ *
+ * Loads the EPUB once, resolves the rendition profile, reads every linear
+ * pre-paginated spine document and hands the parsed inputs to the pure
+ * validators. Reflowable packages return `{ rendition, issues: [] }`
+ * without reading any content documents.
+ *
+ * Best-effort like the PRH orchestrator: any failure is logged and
+ * reported as "no fixed-layout issues" rather than failing the audit.
+ */
+
+import JSZip from 'jszip';
+import { logger } from '../../../../lib/logger';
+import { detectRenditionProfile, type RenditionProfile } from './detector';
+import type { FixedLayoutPage, FixedLayoutValidatorIssue, FixedLayoutValidatorInput } from './validators/types';
+import { validateFixedLayoutViewport } from './validators/viewport-validator';
+import { validateFixedLayoutTextInImage } from './validators/text-in-image-validator';
+import { validateFixedLayoutReadingOrder } from './validators/reading-order-validator';
+import { validateFixedLayoutSpreadOrder } from './validators/spread-order-validator';
+import { validateFixedLayoutSummaryCaveat } from './validators/summary-caveat-validator';
+
+export interface FixedLayoutValidationResult {
+  /** Null when the OPF could not be read. */
+  rendition: RenditionProfile | null;
+  issues: FixedLayoutValidatorIssue[];
+}
+
+export async function runFixedLayoutValidators(buffer: Buffer): Promise<FixedLayoutValidationResult> {
+  try {
+    const zip = await JSZip.loadAsync(buffer);
+    const input = await loadFixedLayoutInput(zip);
+    if (!input) return { rendition: null, issues: [] };
+    if (!input.rendition.hasFixedLayout) return { rendition: input.rendition, issues: [] };
+
+    return {
+      rendition: input.rendition,
+      issues: [
+        ...validateFixedLayoutViewport(input),
+        ...validateFixedLayoutTextInImage(input),
+        ...validateFixedLayoutReadingOrder(input),
+        ...validateFixedLayoutSpreadOrder(input),
+        ...validateFixedLayoutSummaryCaveat(input),
+      ],
+    };
+  } catch (err) {
+    logger.warn(
+      `[FXL validators] run failed; returning no issues: ${err instanceof Error ? err.message : 'unknown error'}`,
+    );
+    return { rendition: null, issues: [] };
+  }
+}
+
+/**
+ * Read the OPF, rendition profile and pre-paginated pages of a loaded
+ * EPUB. Shared with the remediators so validation and repair agree on
+ * which documents are fixed layout. Returns null when the OPF is missing.
+ */
+export async function loadFixedLayoutInput(zip: JSZip): Promise<FixedLayoutValidatorInput | null> {
+  const containerXml = await zip.file('META-INF/container.xml')?.async('text');
+  if (!containerXml) return null;
+  const m = containerXml.match(/rootfile[^>]+full-path\s*=\s*(?:"([^"]+)"|'([^']+)')/);
+  const opfPath = m?.[1] ?? m?.[2];
+  if (!opfPath) return null;
+  const opfContent = await zip.file(opfPath)?.async('text');
+  if (!opfContent) return null;
+
+  const rendition = detectRenditionProfile(opfContent, opfPath);
+  const coverName = readCoverImageName(opfContent);
+  const pages: FixedLayoutPage[] = [];
+  for (const item of rendition.spine) {
+    if (item.layout !== 'pre-paginated' || !item.linear) continue;
+    const content = await zip.file(item.path)?.async('text');
+    if (content == null) continue;
+    pages.push({
+      path: item.path,
+      content,
+      spread: item.spread,
+      isCover: /(?:^|[/_-])cover\b/i.test(item.path) || (coverName !== null && content.includes(coverName)),
+    });
+  }
+
+  return { opfContent, opfPath, rendition, pages };
+}
+
+/** File name of the manifest `cover-image` item, used to recognise the cover page. */
+function readCoverImageName(opf: string): string | null {
+  for (const m of opf.matchAll(/<item\b([^>]*)\/?>/gi)) {
+    if (!/\bproperties\s*=\s*["'][^"']*\bcover-image\b/i.test(m[1])) continue;
+    const href = m[1].match(/\bhref\s*=\s*["']([^"']+)["']/i)?.[1];
+    if (href) return href.slice(href.lastIndexOf('/') + 1);
+  }
+  return null;
+}
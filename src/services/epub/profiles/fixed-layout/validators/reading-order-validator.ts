@@ -0,0 +1,104 @@
+/**
+ * Fixed-layout reading-order validator.
+ *
+ * Fixed-layout pages position text blocks absolutely over the artwork,
+ * so the visual order is set by CSS `top`/`left` while assistive tech
+ * reads the DOM order. InDesign-style exports frequently emit frames in
+ * creation order, which puts a speech bubble before the narration or the
+ * page number first (WCAG 1.3.2).
+ *
+ * Heuristic: collect the outermost text-bearing elements whose inline
+ * style positions them absolutely with numeric `top` and `left`, group
+ * them into rows (tops within ROW_TOLERANCE), order each row by `left`
+ * (reversed for right-to-left books), and compare with DOM order. Frames
+ * positioned from an external stylesheet are not resolved — that needs a
+ * layout engine — so the rule stays detect-only. One issue per page.
+ *
+ * Issue code: FXL-READING-ORDER.
+ */
+
+import * as cheerio from 'cheerio';
+import { FIXED_LAYOUT_ISSUE_CODES } from '../../../../../constants/fixed-layout-issue-codes';
+import type { FixedLayoutValidatorIssue, FixedLayoutValidatorInput } from './types';
+
+/** Blocks whose tops differ by no more than this (in the page's units) share a row. */
+const ROW_TOLERANCE = 10;
+
+interface PositionedBlock {
+  domIndex: number;
+  top: number;
+  left: number;
+  text: string;
+}
+
+export function validateFixedLayoutReadingOrder(input: FixedLayoutValidatorInput): FixedLayoutValidatorIssue[] {
+  const issues: FixedLayoutValidatorIssue[] = [];
+  const rtl = input.rendition.pageProgression === 'rtl';
+
+  for (const page of input.pages) {
+    const blocks = collectPositionedBlocks(page.content);
+    if (blocks.length < 2) continue;
+
+    const visual = visualOrder(blocks, rtl);
+    const firstMismatch = visual.findIndex((block, i) => block.domIndex !== i);
+    if (firstMismatch === -1) continue;
+
+    const expected = visual[firstMismatch];
+    const actual = blocks[firstMismatch];
+    const def = FIXED_LAYOUT_ISSUE_CODES['FXL-READING-ORDER'];
+    issues.push({
+      code: 'FXL-READING-ORDER',
+      severity: def.severity,
+      wcag: def.wcag,
+      message: `${def.summary}: ${page.path} — block ${firstMismatch + 1} in the markup is "${snippet(actual.text)}" but "${snippet(expected.text)}" comes first on the page.`,
+      suggestion:
+        'Reorder the positioned text blocks in the XHTML so they follow the visual reading order; their CSS positions keep the layout unchanged.',
+      location: page.path,
+    });
+  }
+
+  return issues;
+}
+
+// ── helpers ──────────────────────────────────────────────────────────────
+
+function collectPositionedBlocks(xhtml: string): PositionedBlock[] {
+  const $ = cheerio.load(xhtml, { xmlMode: true });
+  const blocks: PositionedBlock[] = [];
+
+  $('body [style]').each((_, el) => {
+    const style = $(el).attr('style') ?? '';
+    if (!/position\s*:\s*absolute/i.test(style)) return;
+    // Only the outermost positioned frame counts; nested spans inherit its slot.
+    if ($(el).parents('[style]').toArray().some((p) => /position\s*:\s*absolute/i.test($(p).attr('style') ?? ''))) {
+      return;
+    }
+    const top = readOffset(style, 'top');
+    const left = readOffset(style, 'left');
+    const text = $(el).text().replace(/\s+/g, ' ').trim();
+    if (top === null || left === null || !text) return;
+    blocks.push({ domIndex: blocks.length, top, left, text });
+  });
+
+  return blocks;
+}
+
+function visualOrder(blocks: PositionedBlock[], rtl: boolean): PositionedBlock[] {
+  const byTop = [...blocks].sort((a, b) => a.top - b.top);
+  const rows: PositionedBlock[][] = [];
+  for (const block of byTop) {
+    const row = rows[rows.length - 1];
+    if (row && block.top - row[0].top <= ROW_TOLERANCE) row.push(block);
+    else rows.push([block]);
+  }
+  return rows.flatMap((row) => row.sort((a, b) => (rtl ? b.left - a.left : a.left - b.left)));
+}
+
+function readOffset(style: string, prop: 'top' | 'left'): number | null {
+  const m = style.match(new RegExp(`(?:^|;|\\s)${prop}\\s*:\\s*(-?\\d+(?:\\.\\d+)?)`, 'i'));
+  return m ? Number(m[1]) : null;
+}
+
+function snippet(text: string): string {
+  return text.length > 40 ? `${text.slice(0, 40)}…` : text;
+}
@@ -0,0 +1,74 @@
+/**
+ * Fixed-layout spread-order validator.
+ *
+ * Reading systems that show two-page spreads pair pages using the
+ * itemref `page-spread-left` / `page-spread-right` properties and the
+ * spine's `page-progression-direction`. Two failure modes break the
+ * reading order across spreads (WCAG 1.3.2):
+ *
+ *   1. Two consecutive pages declare the same side. The first is shown
+ *      alone, and every later spread is shifted by one page, so double-page
+ *      illustrations split across two screens. The usual cause is a blank
+ *      page dropped from the export.
+ *   2. The book's language is written right-to-left (Arabic, Hebrew,
+ *      Persian, Urdu, Yiddish) but the spine does not declare
+ *      `page-progression-direction="rtl"`, so spreads pair backwards.
+ *
+ * Packages with `rendition:spread none` never show spreads and skip rule
+ * 1. Issues are reported against the OPF, one per failure mode.
+ *
+ * Issue code: FXL-SPREAD-ORDER.
+ */
+
+import { FIXED_LAYOUT_ISSUE_CODES } from '../../../../../constants/fixed-layout-issue-codes';
+import type { FixedLayoutValidatorIssue, FixedLayoutValidatorInput } from './types';
+
+const RTL_LANGUAGES = new Set(['ar', 'he', 'fa', 'ur', 'yi']);
+
+export function validateFixedLayoutSpreadOrder(input: FixedLayoutValidatorInput): FixedLayoutValidatorIssue[] {
+  const issues: FixedLayoutValidatorIssue[] = [];
+  const def = FIXED_LAYOUT_ISSUE_CODES['FXL-SPREAD-ORDER'];
+
+  if (input.rendition.spread?.toLowerCase() !== 'none') {
+    const repeats: string[] = [];
+    for (let i = 1; i < input.pages.length; i++) {
+      const prev = input.pages[i - 1];
+      const page = input.pages[i];
+      if (page.spread && page.spread !== 'center' && page.spread === prev.spread) {
+        repeats.push(`${basename(prev.path)} and ${basename(page.path)} (both ${page.spread})`);
+      }
+    }
+    if (repeats.length > 0) {
+      const shown = repeats.slice(0, 5).join('; ');
+      const more = repeats.length > 5 ? ` (+${repeats.length - 5} more)` : '';
+      issues.push({
+        code: 'FXL-SPREAD-ORDER',
+        severity: def.severity,
+        wcag: def.wcag,
+        message: `${def.summary}: consecutive pages declare the same spread side — ${shown}${more}.`,
+        suggestion:
+          'Alternate page-spread-left and page-spread-right through the spine, restoring any blank page dropped from the export, or mark a deliberately single page rendition:page-spread-center.',
+        location: input.opfPath,
+      });
+    }
+  }
+
+  const language = input.opfContent.match(/<dc:language\b[^>]*>([^<]+)<\/dc:language>/i)?.[1].trim().toLowerCase();
+  const primary = language?.split('-')[0];
+  if (primary && RTL_LANGUAGES.has(primary) && input.rendition.pageProgression !== 'rtl') {
+    issues.push({
+      code: 'FXL-SPREAD-ORDER',
+      severity: def.severity,
+      wcag: def.wcag,
+      message: `${def.summary}: the book language is ${language} but pages progress left to right.`,
+      suggestion: 'Add page-progression-direction="rtl" to the <spine> element so spreads pair right to left.',
+      location: input.opfPath,
+    });
+  }
+
+  return issues;
+}
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
@@ -0,0 +1,48 @@
+/**
+ * Fixed-layout accessibility-summary validator.
+ *
+ * A fixed-layout book cannot meet the reflow, resize and text-spacing
+ * expectations readers have of EPUB, so the EPUB Accessibility
+ * techniques ask the `schema:accessibilitySummary` to say so up front.
+ * Without the caveat a low-vision reader buys the book expecting to
+ * enlarge the text and finds they can only zoom the page image.
+ *
+ * Fires when the summary is missing, or present but silent on the fixed
+ * layout. Auto-fixable (see `addFixedLayoutSummaryCaveat`).
+ *
+ * Issue code: FXL-SUMMARY-CAVEAT.
+ */
+
+import { FIXED_LAYOUT_ISSUE_CODES } from '../../../../../constants/fixed-layout-issue-codes';
+import type { FixedLayoutValidatorIssue, FixedLayoutValidatorInput } from './types';
+
+/** Wording that counts as the summary acknowledging the fixed layout. */
+export const FIXED_LAYOUT_CAVEAT_PATTERN = /fixed[\s-]?(?:layout|format)|pre-?paginated/i;
+
+export function validateFixedLayoutSummaryCaveat(input: FixedLayoutValidatorInput): FixedLayoutValidatorIssue[] {
+  const summary = readAccessibilitySummary(input.opfContent);
+  if (summary && FIXED_LAYOUT_CAVEAT_PATTERN.test(summary)) return [];
+
+  const def = FIXED_LAYOUT_ISSUE_CODES['FXL-SUMMARY-CAVEAT'];
+  return [
+    {
+      code: 'FXL-SUMMARY-CAVEAT',
+      severity: def.severity,
+      wcag: def.wcag,
+      message: summary
+        ? `${def.summary}: the accessibility summary does not mention the fixed layout.`
+        : `${def.summary}: the package has no schema:accessibilitySummary.`,
+      suggestion:
+        'State in schema:accessibilitySummary that the book is fixed layout, so text cannot be resized or reflowed and pages may need to be zoomed.',
+      location: input.opfPath,
+    },
+  ];
+}
+
+export function readAccessibilitySummary(opf: string): string | null {
+  const m = opf.match(
+    /<meta\b[^>]*\bproperty\s*=\s*["']schema:accessibilitySummary["'][^>]*>([\s\S]*?)<\/meta>/i,
+  );
+  const value = m?.[1].trim();
+  return value ? value : null;
+}
@@ -0,0 +1,49 @@
+/**
+ * Fixed-layout text-in-image detector.
+ *
+ * The commonest accessibility failure in picture-book EPUBs: the page is
+ * exported as one flattened image with the story text baked in, and the
+ * XHTML carries no live text. Screen readers get at best the alt text,
+ * read-aloud and search get nothing, and the words cannot be enlarged or
+ * recoloured (WCAG 1.1.1 / 1.4.5).
+ *
+ * Heuristic: a non-cover page that renders at least one image (`<img>` or
+ * SVG `<image>`) but has no visible text at all. Wordless spreads exist, so
+ * the rule is detect-only and the message asks the operator to confirm.
+ * One issue per page.
+ *
+ * Issue code: FXL-TEXT-IN-IMAGE.
+ */
+
+import { FIXED_LAYOUT_ISSUE_CODES } from '../../../../../constants/fixed-layout-issue-codes';
+import { stripHtmlMarkup } from '../../prh-uk/validators/text-utils';
+import type { FixedLayoutValidatorIssue, FixedLayoutValidatorInput } from './types';
+
+export function validateFixedLayoutTextInImage(input: FixedLayoutValidatorInput): FixedLayoutValidatorIssue[] {
+  const issues: FixedLayoutValidatorIssue[] = [];
+
+  for (const page of input.pages) {
+    if (page.isCover) continue;
+    const body = page.content.match(/<body\b[^>]*>([\s\S]*)<\/body>/i)?.[1] ?? page.content;
+    const images = (body.match(/<(?:img|image|svg:image)\b/gi) ?? []).length;
+    if (images === 0) continue;
+
+    // <title>/<desc> inside inline SVG are accessible names, not page text.
+    const text = stripHtmlMarkup(body.replace(/<(title|desc)\b[^>]*>[\s\S]*?<\/\1>/gi, ' '))
+      .replace(/\s+/g, '');
+    if (text.length > 0) continue;
+
+    const def = FIXED_LAYOUT_ISSUE_CODES['FXL-TEXT-IN-IMAGE'];
+    issues.push({
+      code: 'FXL-TEXT-IN-IMAGE',
+      severity: def.severity,
+      wcag: def.wcag,
+      message: `${def.summary}: ${page.path} renders ${images} image(s) and no live text.`,
+      suggestion:
+        'Re-export the page with the story text as live text positioned over the artwork. If the page genuinely has no words, make sure the illustration has descriptive alt text and mark this issue reviewed.',
+      location: page.path,
+    });
+  }
+
+  return issues;
+}
@@ -0,0 +1,45 @@
+/**
+ * Shared types for the fixed-layout validators. Like the PRH UK set, the
+ * validators are pure functions over inputs parsed once by the
+ * orchestrator, and return `FixedLayoutValidatorIssue` objects that the
+ * audit service translates into its `AccessibilityIssue` shape.
+ */
+
+import type { FixedLayoutIssueSeverity } from '../../../../../constants/fixed-layout-issue-codes';
+import type { PageSpreadSide, RenditionProfile } from '../detector';
+
+export interface FixedLayoutValidatorIssue {
+  /** FXL-* code from fixed-layout-issue-codes.ts. */
+  code: string;
+  severity: FixedLayoutIssueSeverity;
+  /** WCAG criteria this maps to (may be empty for EPUB-spec rules). */
+  wcag: string[];
+  /** Human-readable message shown in the UI. */
+  message: string;
+  /** Concrete remediation hint shown in the UI. */
+  suggestion: string;
+  /** File the issue applies to (a page, or the OPF for package rules). */
+  location: string;
+}
+
+/** One pre-paginated content document in spine order. */
+export interface FixedLayoutPage {
+  /** Zip-relative path. */
+  path: string;
+  content: string;
+  /** `page-spread-*` side declared on the itemref, if any. */
+  spread: PageSpreadSide | null;
+  /** True for the cover page, which is exempt from the text-in-image rule. */
+  isCover: boolean;
+}
+
+/** Inputs every fixed-layout validator can read. */
+export interface FixedLayoutValidatorInput {
+  /** Full OPF content as string. */
+  opfContent: string;
+  /** Path of the OPF inside the zip. */
+  opfPath: string;
+  rendition: RenditionProfile;
+  /** Linear pre-paginated spine documents, in reading order. */
+  pages: FixedLayoutPage[];
+}
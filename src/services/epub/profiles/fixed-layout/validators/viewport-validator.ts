@@ -0,0 +1,104 @@
+/**
+ * Fixed-layout viewport validator.
+ *
+ * EPUB Fixed Layout §4.1: every pre-paginated XHTML content document must
+ * give its initial containing block in a `<meta name="viewport">` tag with
+ * `width` and `height` as positive numbers (CSS pixels, no units). Without
+ * it reading systems guess the page box, which crops or letterboxes the
+ * artwork and — worse for assistive tech — lets zoom reflow positioned
+ * text off the page.
+ *
+ * Issue codes:
+ *   - FXL-VIEWPORT-MISSING — no viewport meta at all.
+ *   - FXL-VIEWPORT-INVALID — present, but width/height are missing, use
+ *     units, or are keywords like `device-width`.
+ *
+ * SVG content documents carry their size in the root `viewBox` and are
+ * skipped. Both codes are auto-fixable (see `fixFixedLayoutViewport`).
+ */
+
+import { FIXED_LAYOUT_ISSUE_CODES } from '../../../../../constants/fixed-layout-issue-codes';
+import type { FixedLayoutValidatorIssue, FixedLayoutValidatorInput } from './types';
+
+export interface ViewportSize {
+  width: number;
+  height: number;
+}
+
+export function validateFixedLayoutViewport(input: FixedLayoutValidatorInput): FixedLayoutValidatorIssue[] {
+  const issues: FixedLayoutValidatorIssue[] = [];
+
+  for (const page of input.pages) {
+    if (/\.svg$/i.test(page.path)) continue;
+    const viewport = readViewportMeta(page.content);
+    if (viewport === null) {
+      issues.push(buildIssue('FXL-VIEWPORT-MISSING', page.path, `${page.path} has no viewport meta tag.`));
+    } else if (!parseViewport(viewport)) {
+      issues.push(
+        buildIssue('FXL-VIEWPORT-INVALID', page.path, `${page.path} declares viewport "${viewport}".`),
+      );
+    }
+  }
+
+  return issues;
+}
+
+/**
+ * Returns the `content` of the document's `<meta name="viewport">`, an
+ * empty string when the tag has no content, or null when there is no tag.
+ */
+export function readViewportMeta(xhtml: string): string | null {
+  for (const m of xhtml.matchAll(/<meta\b([^>]*)>/gi)) {
+    if (readAttr(m[1], 'name')?.toLowerCase() === 'viewport') {
+      return readAttr(m[1], 'content') ?? '';
+    }
+  }
+  return null;
+}
+
+/**
+ * Parse a viewport declaration (`width=1200, height=1600`) into pixel
+ * dimensions. Returns null unless both are unitless positive numbers.
+ */
+export function parseViewport(value: string): ViewportSize | null {
+  const dims: Record<string, string> = {};
+  for (const pair of value.split(/[,;]/)) {
+    const [key, val] = pair.split('=').map((s) => s.trim().toLowerCase());
+    if (key && val !== undefined) dims[key] = val;
+  }
+  const width = toDimension(dims.width);
+  const height = toDimension(dims.height);
+  return width && height ? { width, height } : null;
+}
+
+// ── helpers ──────────────────────────────────────────────────────────────
+
+function toDimension(value: string | undefined): number | null {
+  if (!value || !/^\d+(?:\.\d+)?$/.test(value)) return null;
+  const n = Number(value);
+  return n > 0 ? n : null;
+}
+
+function readAttr(attrs: string, name: string): string | null {
+  const re = new RegExp(`(?:^|\\s)${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`, 'i');
+  const m = attrs.match(re);
+  if (!m) return null;
+  return (m[1] ?? m[2]) ?? null;
+}
+
+function buildIssue(
+  code: 'FXL-VIEWPORT-MISSING' | 'FXL-VIEWPORT-INVALID',
+  location: string,
+  detail: string,
+): FixedLayoutValidatorIssue {
+  const def = FIXED_LAYOUT_ISSUE_CODES[code];
+  return {
+    code,
+    severity: def.severity,
+    wcag: def.wcag,
+    message: `${def.summary}: ${detail}`,
+    suggestion:
+      'Add <meta name="viewport" content="width=W, height=H"/> to the head, using the pixel size of the page artwork (no units).',
+    location,
+  };
+}
@@ -47,4 +47,12 @@ export function getImprintRules(imprint: PrhImprint | null): ImprintRules | null
   return RULES_BY_IMPRINT[imprint] ?? null;
 }
 
+/**
+ * First-class imprints as `{ id, displayName }` pairs, in registry order.
+ * Surfaced through the PRH UK publisher-profile definition.
+ */
+export function listImprintCatalogue(): Array<{ id: string; displayName: string }> {
+  return Object.values(RULES_BY_IMPRINT).map((rules) => ({ id: rules.imprint, displayName: rules.displayName }));
+}
+
 export type { ImprintRules } from './_types';
@@ -9,6 +9,8 @@
 export { detectPrhImprint } from './imprint-detector';
 export type { ImprintDetectionInput, ImprintDetectionResult } from './imprint-detector';
 
+export { PRH_UK_PROFILE } from './profile';
+
 export { runPrhUkValidators } from './run-validators';
 export type { PrhValidatorIssue } from './validators/types';
 export {
@@ -0,0 +1,73 @@
+/**
+ * PRH UK publisher-profile definition.
+ *
+ * Bundles the pieces that were previously wired by hand into the audit
+ * and auto-remediation services — the imprint detector, the validator
+ * orchestrator, the auto-fix remediators, the VPAT edition and the
+ * imprint catalogue — so the registry can treat PRH UK like any other
+ * publisher.
+ */
+
+import type { PublisherProfileDefinition } from '../types';
+import { detectPrhImprint } from './imprint-detector';
+import { runPrhUkValidators } from './run-validators';
+import { listImprintCatalogue } from './imprints';
+import {
+  fixConformsTo,
+  fixCertifiedBy,
+  fixCertifierCredential,
+  fixCertifierLink,
+  fixTdmReservation,
+  fixA11ySummaryUrl,
+} from './remediators/metadata-remediator';
+import { fixXmlLang } from './remediators/xhtml-remediator';
+import { fixDecorativeRole } from './remediators/image-remediator';
+import {
+  fixDeprecatedTags,
+  fixInlineStyles,
+  fixEpubTypePlacement,
+  addDocAriaRoles,
+  fixBodyPurity,
+  fixPagebreakMalformed,
+} from './remediators/markup-remediator';
+
+export const PRH_UK_PROFILE: PublisherProfileDefinition = {
+  id: 'PRH-UK',
+  displayName: 'Penguin Random House UK',
+  origin: 'built-in',
+  detect: (input) => {
+    const result = detectPrhImprint(input);
+    return { matched: result.isPrhUk, imprint: result.imprint, signals: result.signals };
+  },
+  runValidators: runPrhUkValidators,
+  issueSource: 'prh-uk',
+  remediators: {
+    // Publisher-specific metadata rewrites. Each handler asserts a single
+    // literal PRH value in the OPF and is a no-op on a compliant OPF.
+    'PRH-META-CONFORMS-TO': fixConformsTo,
+    'PRH-META-CERTIFIED-BY': fixCertifiedBy,
+    'PRH-META-CERTIFIER-CRED': fixCertifierCredential,
+    'PRH-META-CERTIFIER-LINK': fixCertifierLink,
+    'PRH-META-TDM-RESERVATION': fixTdmReservation,
+    'PRH-META-A11Y-SUMMARY-URL': fixA11ySummaryUrl,
+    // Per-XHTML: adds both lang and xml:lang to <html>.
+    'PRH-XHTML-XML-LANG': (zip) => fixXmlLang(zip),
+    // Adds role="presentation" to decorative images (alt="").
+    'PRH-DECORATIVE-MISSING-PRESENTATION-ROLE': fixDecorativeRole,
+    // Mechanical markup transformations. Idempotent; conservative
+    // thresholds for the FP-prone cases (inline-style auto-strip caps at
+    // 50 per file).
+    'PRH-MARKUP-DEPRECATED-TAG': fixDeprecatedTags,
+    'PRH-MARKUP-INLINE-STYLE': fixInlineStyles,
+    'PRH-MARKUP-EPUB-TYPE-MISPLACED': fixEpubTypePlacement,
+    'PRH-ARIA-CHAPTER-ROLE-MISSING': addDocAriaRoles,
+    'PRH-ARIA-PART-ROLE-MISSING': addDocAriaRoles,
+    'PRH-ARIA-DEDICATION-ROLE-MISSING': addDocAriaRoles,
+    'PRH-ARIA-EPIGRAPH-ROLE-MISSING': addDocAriaRoles,
+    'PRH-ARIA-APPENDIX-ROLE-MISSING': addDocAriaRoles,
+    'PRH-BODY-HAS-ARIA': fixBodyPurity,
+    'PRH-PAGEBREAK-MALFORMED': fixPagebreakMalformed,
+  },
+  acrEdition: 'VPAT2.5-PRH-UK',
+  imprints: listImprintCatalogue(),
+};
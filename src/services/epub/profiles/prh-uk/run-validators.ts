@@ -40,7 +40,7 @@ import { validatePrhMediaMarkup } from './validators/media-markup-validator';
 import { validatePrhLongDescriptionInline } from './validators/long-description-validator';
 import { getImprintRules } from './imprints';
 import sharp from 'sharp';
-import type { PublisherProfile } from '../types';
+import type { PrhImprint, PublisherProfile } from '../types';
 import type {
   PrhValidatorIssue,
   PrhXhtmlFile,
@@ -155,7 +155,7 @@ export async function runPrhUkValidators(
     // Multi-imprint demo docs (PRH Technical Guide / Branding Guide)
     // resolve to 'unknown' and intentionally skip these.
     const imprintRules = publisherProfile
-      ? getImprintRules(publisherProfile.imprint)
+      ? getImprintRules(publisherProfile.imprint as PrhImprint | null)
       : null;
     if (imprintRules && publisherProfile && publisherProfile.confidence !== 'low') {
       const imprintInput = { ...perXhtmlInput, imprintRules };
@@ -0,0 +1,127 @@
+/**
+ * Tenant publisher-profile configuration.
+ *
+ * Reads and writes `Tenant.settings.publisherProfiles` — which built-in
+ * profiles are enabled and any declarative profiles the tenant has added
+ * — and resolves it into the profile list the audit, gate and ACR paths
+ * detect against. Tenants that never touched the setting get every
+ * built-in profile and nothing else, so behaviour is unchanged for them.
+ */
+
+import { z } from 'zod';
+import { Prisma } from '@prisma/client';
+import prisma from '../../../lib/prisma';
+import { logger } from '../../../lib/logger';
+import { ACR_EDITIONS } from '../../acr/acr-generator.service';
+import { resolveProfiles, type PublisherProfilesConfig } from './profile-registry';
+import type { PublisherProfileDefinition } from './types';
+
+const fragmentList = z.array(z.string().trim().min(1).max(200)).max(50).default([]);
+
+export const declarativeProfileConfigSchema = z.object({
+  id: z.string().regex(/^[A-Z][A-Z0-9-]{1,39}$/, 'id must be upper-case letters, digits and hyphens'),
+  displayName: z.string().trim().min(1).max(120),
+  signals: z.object({
+    publisherText: fragmentList,
+    urlFragments: fragmentList,
+    filePathFragments: fragmentList,
+  }).strict().refine(
+    (s) => s.publisherText.length + s.urlFragments.length + s.filePathFragments.length > 0,
+    'at least one detection signal is required',
+  ),
+  imprints: z.array(z.object({
+    id: z.string().regex(/^[a-z0-9][a-z0-9-]*$/, 'imprint id must be lower-case kebab-case'),
+    displayName: z.string().trim().min(1).max(120),
+    textFragments: fragmentList,
+    urlFragments: fragmentList,
+    filePathFragments: fragmentList,
+  }).strict()).max(50).default([]),
+  acrEdition: z.enum(ACR_EDITIONS).default('VPAT2.5-INT'),
+}).strict();
+
+export const publisherProfilesConfigSchema = z.object({
+  enabled: z.array(z.string().min(1)).optional(),
+  custom: z.array(declarativeProfileConfigSchema).max(20).default([]),
+}).strict();
+
+export const DEFAULT_PUBLISHER_PROFILES_CONFIG: PublisherProfilesConfig = { custom: [] };
+
+/**
+ * Read the tenant's profile configuration. A stored value that no longer
+ * validates (e.g. written before a schema change) is logged and replaced
+ * by the default rather than breaking every audit for the tenant.
+ */
+export async function getPublisherProfilesConfig(tenantId: string): Promise<PublisherProfilesConfig> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { settings: true },
+  });
+  if (!tenant) return DEFAULT_PUBLISHER_PROFILES_CONFIG;
+
+  const settings = (tenant.settings && typeof tenant.settings === 'object')
+    ? (tenant.settings as Record<string, unknown>)
+    : {};
+  if (settings.publisherProfiles === undefined) return DEFAULT_PUBLISHER_PROFILES_CONFIG;
+
+  const parsed = publisherProfilesConfigSchema.safeParse(settings.publisherProfiles);
+  if (!parsed.success) {
+    logger.warn(
+      `[profile-config] tenant=${tenantId} has invalid publisherProfiles settings; using defaults: ${parsed.error.message}`,
+    );
+    return DEFAULT_PUBLISHER_PROFILES_CONFIG;
+  }
+  return parsed.data;
+}
+
+/** Replace the tenant's profile configuration. `config` is validated by the caller. */
+export async function updatePublisherProfilesConfig(
+  tenantId: string,
+  config: PublisherProfilesConfig,
+  userId: string,
+): Promise<PublisherProfilesConfig> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { settings: true },
+  });
+  if (!tenant) {
+    throw new Error(`Tenant ${tenantId} not found`);
+  }
+
+  const currentSettings = (tenant.settings && typeof tenant.settings === 'object')
+    ? (tenant.settings as Record<string, unknown>)
+    : {};
+
+  await prisma.tenant.update({
+    where: { id: tenantId },
+    data: {
+      settings: {
+        ...currentSettings,
+        publisherProfiles: config,
+      } as unknown as Prisma.InputJsonValue,
+    },
+  });
+
+  logger.info(
+    `[profile-config] tenant=${tenantId} enabled=${config.enabled?.join(',') ?? 'all'} custom=${config.custom.map((c) => c.id).join(',') || 'none'} by=${userId}`,
+  );
+
+  return getPublisherProfilesConfig(tenantId);
+}
+
+/** Profiles active for a tenant. */
+export async function loadTenantProfiles(tenantId: string): Promise<PublisherProfileDefinition[]> {
+  return resolveProfiles(await getPublisherProfilesConfig(tenantId));
+}
+
+/**
+ * Profiles active for the tenant that owns a job. Falls back to the
+ * built-ins when the job is unknown.
+ */
+export async function loadJobProfiles(jobId: string): Promise<PublisherProfileDefinition[]> {
+  const job = await prisma.job.findUnique({
+    where: { id: jobId },
+    select: { tenantId: true },
+  });
+  if (!job) return resolveProfiles();
+  return loadTenantProfiles(job.tenantId);
+}
@@ -1,8 +1,12 @@
 /**
  * Publisher profile detector — runs after the JS auditor, before validators
  * downstream of the existing audit pipeline. Reads the EPUB once via JSZip
- * (the JS auditor uses the same library) and dispatches to per-publisher
- * sub-detectors. Today: PRH UK only.
+ * (the JS auditor uses the same library) and runs every registered
+ * profile's detector over the same inputs (see `profile-registry.ts`).
+ *
+ * When several profiles match, the strongest wins and each runner-up is
+ * appended to the winner's `signals` as a weak `runner-up-*` signal, so a
+ * reviewer can see the alternative without it affecting confidence.
  *
  * Returned profile attaches to `EpubAuditResult.publisherProfile` so the
  * frontend (and PR2+ validators) can read it. When no profile is detected the
@@ -12,19 +16,38 @@
 
 import JSZip from 'jszip';
 import { logger } from '../../../lib/logger';
-import { NO_PROFILE, type DetectionConfidence, type ProfileSignal, type PublisherProfile } from './types';
-import { detectPrhImprint } from './prh-uk';
+import {
+  NO_PROFILE,
+  type DetectionConfidence,
+  type ProfileSignal,
+  type PublisherProfile,
+  type PublisherProfileDefinition,
+} from './types';
+import { getBuiltInProfiles } from './profile-registry';
 
 /** How many bytes of body content to feed the detectors. Capped to keep this fast. */
 const CONTENT_SAMPLE_BYTES = 32 * 1024;
 
+const CONFIDENCE_RANK: Record<DetectionConfidence, number> = { high: 3, medium: 2, low: 1 };
+
+interface ProfileMatch {
+  definition: PublisherProfileDefinition;
+  imprint: string | null;
+  confidence: DetectionConfidence;
+  signals: ProfileSignal[];
+}
+
 /**
  * Best-effort detection. Failures (corrupt zip, missing OPF, etc.) are caught
  * and logged; the function returns `NO_PROFILE` rather than throwing so that
  * a detection bug never breaks the surrounding audit.
+ *
+ * `profiles` defaults to the built-ins; callers with a tenant in hand pass
+ * the tenant's resolved list (`loadTenantProfiles` / `loadJobProfiles`).
  */
 export async function detectPublisherProfile(
   buffer: Buffer,
+  profiles: PublisherProfileDefinition[] = getBuiltInProfiles(),
 ): Promise<PublisherProfile> {
   try {
     const zip = await JSZip.loadAsync(buffer);
@@ -32,20 +55,37 @@ export async function detectPublisherProfile(
     const opfContent = await readOpf(zip);
     const filePaths = Object.keys(zip.files);
     const contentSample = await readContentSample(zip);
+    const input = { opfContent, filePaths, contentSample };
 
-    // Today only one sub-detector. Future: dispatch to others and pick the
-    // strongest match.
-    const prh = detectPrhImprint({ opfContent, filePaths, contentSample });
+    const matches: ProfileMatch[] = [];
+    for (const definition of profiles) {
+      const result = definition.detect(input);
+      if (!result.matched) continue;
+      matches.push({
+        definition,
+        imprint: result.imprint,
+        confidence: aggregateConfidence(result.signals),
+        signals: result.signals,
+      });
+    }
+    if (matches.length === 0) return NO_PROFILE;
 
-    if (!prh.isPrhUk) return NO_PROFILE;
-
-    const confidence = aggregateConfidence(prh.signals);
+    // Stable sort keeps registry order (built-ins first) on exact ties.
+    matches.sort(compareMatches);
+    const [winner, ...runnersUp] = matches;
 
     return {
-      publisher: 'PRH-UK',
-      imprint: prh.imprint,
-      confidence,
-      signals: prh.signals,
+      publisher: winner.definition.id,
+      imprint: winner.imprint,
+      confidence: winner.confidence,
+      signals: [
+        ...winner.signals,
+        ...runnersUp.map((m) => ({
+          id: `runner-up-${m.definition.id.toLowerCase()}`,
+          description: `Also matched ${m.definition.displayName} (${m.confidence} confidence, ${m.signals.length} signal${m.signals.length === 1 ? '' : 's'})`,
+          strength: 'weak' as const,
+        })),
+      ],
     };
   } catch (err) {
     logger.warn(
@@ -55,6 +95,19 @@ export async function detectPublisherProfile(
   }
 }
 
+/** Higher confidence first, then more strong signals, then more signals overall. */
+function compareMatches(a: ProfileMatch, b: ProfileMatch): number {
+  return (
+    CONFIDENCE_RANK[b.confidence] - CONFIDENCE_RANK[a.confidence] ||
+    countStrong(b.signals) - countStrong(a.signals) ||
+    b.signals.length - a.signals.length
+  );
+}
+
+function countStrong(signals: ProfileSignal[]): number {
+  return signals.filter((s) => s.strength === 'strong').length;
+}
+
 async function readOpf(zip: JSZip): Promise<string> {
   const containerXml = await zip.file('META-INF/container.xml')?.async('text');
   if (!containerXml) return '';
@@ -0,0 +1,71 @@
+/**
+ * Publisher-profile registry.
+ *
+ * Built-in profiles are registered here in code; tenants can disable
+ * built-ins and add declarative profiles through configuration (see
+ * `profile-config.service.ts`). This module stays I/O-free so the
+ * detector and its tests can use it without a database.
+ */
+
+import { logger } from '../../../lib/logger';
+import { buildDeclarativeProfile, type DeclarativeProfileConfig } from './declarative-profile';
+import { PRH_UK_PROFILE } from './prh-uk/profile';
+import type { ProfileRemediator, PublisherId, PublisherProfileDefinition } from './types';
+
+/** Tenant-level profile selection, stored at `Tenant.settings.publisherProfiles`. */
+export interface PublisherProfilesConfig {
+  /** Built-in profile ids to keep. Omitted means every built-in is enabled. */
+  enabled?: PublisherId[];
+  /** Tenant-defined declarative profiles. */
+  custom: DeclarativeProfileConfig[];
+}
+
+const BUILT_IN_PROFILES: readonly PublisherProfileDefinition[] = [PRH_UK_PROFILE];
+
+export function getBuiltInProfiles(): PublisherProfileDefinition[] {
+  return [...BUILT_IN_PROFILES];
+}
+
+/**
+ * Resolve the profiles active for a tenant configuration. Custom profiles
+ * whose id collides with a built-in (or an earlier custom profile) are
+ * skipped — a tenant cannot shadow the PRH validators with a declarative
+ * stand-in.
+ */
+export function resolveProfiles(config?: PublisherProfilesConfig | null): PublisherProfileDefinition[] {
+  if (!config) return getBuiltInProfiles();
+
+  const enabled = config.enabled ? new Set(config.enabled) : null;
+  const profiles = BUILT_IN_PROFILES.filter((p) => !enabled || enabled.has(p.id));
+  const taken = new Set(BUILT_IN_PROFILES.map((p) => p.id));
+
+  for (const custom of config.custom) {
+    if (taken.has(custom.id)) {
+      logger.warn(`[profile-registry] custom profile ${custom.id} clashes with an existing profile id; skipped`);
+      continue;
+    }
+    taken.add(custom.id);
+    profiles.push(buildDeclarativeProfile(custom));
+  }
+  return profiles;
+}
+
+export function getProfileDefinition(
+  id: PublisherId | null | undefined,
+  profiles: PublisherProfileDefinition[] = getBuiltInProfiles(),
+): PublisherProfileDefinition | undefined {
+  if (!id) return undefined;
+  return profiles.find((p) => p.id === id);
+}
+
+/** Remediator for an issue code from whichever profile registers it. */
+export function findProfileRemediator(
+  code: string,
+  profiles: PublisherProfileDefinition[] = getBuiltInProfiles(),
+): ProfileRemediator | undefined {
+  for (const profile of profiles) {
+    const remediator = profile.remediators[code];
+    if (remediator) return remediator;
+  }
+  return undefined;
+}
@@ -2,14 +2,21 @@
  * Publisher-profile types for the EPUB audit pipeline.
  *
  * A "publisher profile" identifies that an uploaded EPUB was prepared for a
- * specific publisher (today: PRH UK; the shape generalises to others). When a
- * profile is detected, downstream PRH-specific validators run alongside the
- * standards-based audit (EPUBCheck + ACE + JS auditor); when no profile is
- * detected, behaviour is unchanged.
+ * specific publisher. Profiles are registered in `profile-registry.ts` —
+ * built-in code profiles (PRH UK) plus declarative profiles a tenant adds
+ * through configuration. When a profile is detected, its validators run
+ * alongside the standards-based audit (EPUBCheck + ACE + JS auditor); when
+ * no profile is detected, behaviour is unchanged.
  */
 
-/** Known publisher identifiers. Open-ended — extend as profiles are added. */
-export type PublisherId = 'PRH-UK';
+import type JSZip from 'jszip';
+import type { AcrEdition } from '../../acr/acr-generator.service';
+
+/**
+ * Publisher identifier. Built-in: `'PRH-UK'`; tenant-configured profiles
+ * add their own upper-case ids (e.g. `'HACHETTE-UK'`).
+ */
+export type PublisherId = string;
 
 /** PRH UK imprint identifiers. Extend as PRH adds imprints. */
 export type PrhImprint =
@@ -49,8 +56,11 @@ export interface ProfileSignal {
 export interface PublisherProfile {
   /** `null` when no profile was detected with at least `low` confidence. */
   publisher: PublisherId | null;
-  /** Imprint within the publisher; `'unknown'` when only the publisher matched. */
-  imprint: PrhImprint | null;
+  /**
+   * Imprint within the publisher (a `PrhImprint` for PRH UK); `'unknown'`
+   * when only the publisher matched.
+   */
+  imprint: string | null;
   /** Aggregate confidence across all matched signals. */
   confidence: DetectionConfidence;
   /** Every signal that contributed to the result, in detection order. */
@@ -68,3 +78,73 @@ export const NO_PROFILE: PublisherProfile = Object.freeze({
   confidence: 'low',
   signals: Object.freeze([] as ProfileSignal[]),
 }) as PublisherProfile;
+
+/** Pre-parsed EPUB inputs every profile detector reads. */
+export interface ProfileDetectionInput {
+  /** Raw OPF content. May be empty if absent. */
+  opfContent: string;
+  /** Every file path inside the EPUB zip. */
+  filePaths: string[];
+  /** Sample of XHTML content, cover/title/copyright pages first. */
+  contentSample?: string;
+}
+
+export interface ProfileDetectionResult {
+  /** True if any signal for this publisher matched. */
+  matched: boolean;
+  /** Best-guess imprint, `'unknown'` when only the publisher matched. */
+  imprint: string | null;
+  signals: ProfileSignal[];
+}
+
+/** Issue shape profile validators return; the audit maps it to `AccessibilityIssue`. */
+export interface ProfileValidatorIssue {
+  code: string;
+  severity: 'critical' | 'serious' | 'moderate' | 'minor';
+  wcag: string[];
+  message: string;
+  suggestion: string;
+  location: string;
+}
+
+/** Slim `{success, description, before?, after?}` result every profile remediator returns. */
+export interface ProfileChangeResult {
+  success: boolean;
+  description: string;
+  before?: string;
+  after?: string;
+}
+
+export type ProfileRemediator = (zip: JSZip) => Promise<ProfileChangeResult[]>;
+
+/** One imprint a profile knows about, for UI pickers and ACR front matter. */
+export interface ImprintCatalogueEntry {
+  id: string;
+  displayName: string;
+}
+
+/**
+ * Everything the pipeline needs to know about one publisher. Built-in
+ * profiles implement it in code; tenant profiles are built from
+ * configuration by `buildDeclarativeProfile`.
+ */
+export interface PublisherProfileDefinition {
+  id: PublisherId;
+  displayName: string;
+  /** Where the definition came from — built-in code or tenant configuration. */
+  origin: 'built-in' | 'tenant';
+  /** Pure detector over pre-parsed inputs. */
+  detect(input: ProfileDetectionInput): ProfileDetectionResult;
+  /**
+   * Validator set run on medium/high-confidence matches. Omitted for
+   * profiles that only drive detection, imprint and ACR selection.
+   */
+  runValidators?: (buffer: Buffer, profile: PublisherProfile) => Promise<ProfileValidatorIssue[]>;
+  /** `AccessibilityIssue.source` tag for issues the validators emit. */
+  issueSource: 'prh-uk' | 'publisher-profile';
+  /** Auto-fix handlers keyed by the issue code they resolve. */
+  remediators: Record<string, ProfileRemediator>;
+  /** VPAT edition used when an ACR is generated for a matching job. */
+  acrEdition: AcrEdition;
+  imprints: ImprintCatalogueEntry[];
+}
@@ -33,6 +33,8 @@ import {
   fixXmlLang,
   fixDecorativeRole,
 } from './profiles/prh-uk';
+import { fixFixedLayoutViewport, addFixedLayoutSummaryCaveat } from './profiles/fixed-layout';
+import { FIXED_LAYOUT_MANUAL_CODES } from '../../constants/fixed-layout-issue-codes';
 
 /**
  * PRH fix functions return a slim {success, description, before?, after?}
@@ -264,6 +266,22 @@ class RemediationService {
     logger.info(`  By Severity: Critical=${auditTally.bySeverity.critical}, Serious=${auditTally.bySeverity.serious}, Moderate=${auditTally.bySeverity.moderate}, Minor=${auditTally.bySeverity.minor}`);
     logger.info(`  Grand Total: ${auditTally.grandTotal}`);
 
+    // Fixed-layout pages position text absolutely over artwork, so markup
+    // rewrites that are safe on reflowable content can wreck the page.
+    // Downgrade those to manual on pre-paginated books, and on individual
+    // pre-paginated documents inside otherwise reflowable books.
+    const isFixedLayout = auditData.renditionLayout === 'pre-paginated';
+    const fixedLayoutDocuments = Array.isArray(auditData.fixedLayoutDocuments)
+      ? (auditData.fixedLayoutDocuments as unknown[]).map(String)
+      : [];
+    const fixedLayoutReason = (issueCode: string, location: string): string | undefined => {
+      const reason = FIXED_LAYOUT_MANUAL_CODES[issueCode];
+      if (!reason) return undefined;
+      const file = location.split('#')[0];
+      const onFixedPage = isFixedLayout || (!!file && fixedLayoutDocuments.some(doc => doc.endsWith(file)));
+      return onFixedPage ? reason : undefined;
+    };
+
     const tasks: RemediationTask[] = deduplicatedIssues.map((issue) => {
       const issueCode = (issue.code as string) || '';
       const issueLocation = (issue.location as string) || '';
@@ -280,7 +298,9 @@ class RemediationService {
           ? [wcagCriteriaRaw]
           : undefined;
       
-      const fixType = getFixType(issueCode);
+      const fixedLayoutNote = fixedLayoutReason(issueCode, issueLocation);
+      const fixType: FixType = fixedLayoutNote ? 'manual' : getFixType(issueCode);
+      const suggestion = issue.suggestion as string | undefined;
       return {
         id: `task-${taskId}`,
         jobId,
@@ -295,7 +315,9 @@ class RemediationService {
         type: fixType,
         autoFixable: fixType === 'auto',
         quickFixable: fixType === 'quickfix',
-        suggestion: issue.suggestion as string | undefined,
+        suggestion: fixedLayoutNote
+          ? [suggestion, `Fixed layout: ${fixedLayoutNote}.`].filter(Boolean).join(' ')
+          : suggestion,
         createdAt: new Date(),
         updatedAt: new Date(),
         filePath: (issue.filePath as string) || (issue.location as string) || undefined,
@@ -1720,6 +1742,19 @@ class RemediationService {
               modificationType: 'add_presentation_role',
             });
             break;
+          // ── Fixed-layout profile auto-fixes ───────────────────────────
+          case 'FXL-VIEWPORT-MISSING':
+          case 'FXL-VIEWPORT-INVALID':
+            fixResults = adaptPrhResults(await fixFixedLayoutViewport(zip), {
+              filePath: '(multiple xhtml files)',
+              modificationType: 'add_fxl_viewport',
+            });
+            break;
+          case 'FXL-SUMMARY-CAVEAT':
+            fixResults = adaptPrhResults(await addFixedLayoutSummaryCaveat(zip), {
+              modificationType: 'add_fxl_summary_caveat',
+            });
+            break;
           default:
             logger.debug(`[AutoFix] No auto-fix handler for ${code}, skipping`);
             for (const task of tasks) {
@@ -0,0 +1,82 @@
+/**
+ * Retracted Reference Check
+ *
+ * Deterministic (non-AI) check that flags references to papers that were
+ * retracted, received an expression of concern, or were corrected. Notices
+ * come from CrossRef `update-to` metadata and the imported Retraction Watch
+ * dataset; see referenceIntegrityService.
+ */
+
+import { referenceIntegrityService } from '../../citation/reference-integrity.service';
+import type { IntegrityNotice, IntegrityNoticeType } from '../../citation/reference-integrity.service';
+import type { CheckIssue } from './ai-integrity.check';
+
+export const RETRACTED_REFERENCE_CHECK_TYPE = 'RETRACTED_REFERENCE';
+
+const NOTICE_SEVERITY: Record<IntegrityNoticeType, CheckIssue['severity']> = {
+  retraction: 'ERROR',
+  'expression-of-concern': 'WARNING',
+  correction: 'SUGGESTION',
+};
+
+const NOTICE_LABEL: Record<IntegrityNoticeType, string> = {
+  retraction: 'Retraction',
+  'expression-of-concern': 'Expression of concern',
+  correction: 'Correction',
+};
+
+const NOTICE_TITLE: Record<IntegrityNoticeType, string> = {
+  retraction: 'Cited work has been retracted',
+  'expression-of-concern': 'Cited work has an expression of concern',
+  correction: 'Cited work has been corrected',
+};
+
+const SUGGESTED_FIX: Record<IntegrityNoticeType, string> = {
+  retraction: 'Remove the citation or replace it with a reliable source, or state explicitly that the work was retracted.',
+  'expression-of-concern': 'Review whether the cited findings are still relied upon and consider noting the expression of concern.',
+  correction: 'Check that the cited content is not affected by the correction, and cite the correction where relevant.',
+};
+
+function describeNotice(notice: IntegrityNotice): string {
+  const parts = [
+    `${NOTICE_LABEL[notice.type]} notice`,
+    notice.date ? `dated ${notice.date}` : null,
+    notice.noticeDoi ? `(DOI ${notice.noticeDoi})` : null,
+  ].filter(Boolean);
+  return parts.join(' ');
+}
+
+/** Locate the reference in the document text: formatted entry first, then title */
+function locate(text: string, candidates: Array<string | null>): { start: number; end: number; match: string } | null {
+  for (const candidate of candidates) {
+    const needle = candidate?.trim();
+    if (!needle || needle.length < 10) continue;
+    const start = text.indexOf(needle);
+    if (start !== -1) return { start, end: start + needle.length, match: needle };
+  }
+  return null;
+}
+
+export async function retractedReferenceCheck(documentId: string, text: string): Promise<CheckIssue[]> {
+  const flagged = await referenceIntegrityService.checkDocumentReferences(documentId);
+
+  return flagged.flatMap(reference => {
+    const position = locate(text, [reference.formattedText, reference.title]);
+    const cited = reference.doi ? `"${reference.title}" (DOI ${reference.doi})` : `"${reference.title}"`;
+
+    return reference.notices.map(notice => ({
+      checkType: RETRACTED_REFERENCE_CHECK_TYPE,
+      severity: NOTICE_SEVERITY[notice.type],
+      title: NOTICE_TITLE[notice.type],
+      description: `Reference ${cited}: ${describeNotice(notice)}.` +
+        (notice.reason ? ` Reason: ${notice.reason}.` : ''),
+      startOffset: position?.start,
+      endOffset: position?.end,
+      originalText: position?.match ?? reference.formattedText ?? reference.title,
+      actualValue: notice.noticeDoi,
+      suggestedFix: SUGGESTED_FIX[notice.type],
+      context: `Source: ${notice.source === 'crossref' ? 'CrossRef' : 'Retraction Watch'}`,
+      confidence: 100,
+    }));
+  });
+}
@@ -11,6 +11,7 @@ import prisma from '../../lib/prisma';
 import { logger } from '../../lib/logger';
 import { AppError } from '../../utils/app-error';
 import { aiIntegrityCheck, VALID_CHECK_TYPES } from './checks/ai-integrity.check';
+import { retractedReferenceCheck, RETRACTED_REFERENCE_CHECK_TYPE } from './checks/retracted-reference.check';
 
 export interface CheckResult {
   checkType: string;
@@ -32,7 +33,7 @@ export interface CheckResult {
 }
 
 // Export check types array for request validation in controllers
-export const ALL_CHECK_TYPES = Array.from(VALID_CHECK_TYPES);
+export const ALL_CHECK_TYPES = [...Array.from(VALID_CHECK_TYPES), RETRACTED_REFERENCE_CHECK_TYPE];
 
 /**
  * Start an integrity check job.
@@ -50,7 +51,7 @@ async function startCheck(
   if (!doc) throw AppError.notFound('Document not found');
 
   const selectedTypes = (checkTypes && checkTypes.length > 0
-    ? checkTypes.filter(t => VALID_CHECK_TYPES.has(t))
+    ? checkTypes.filter(t => ALL_CHECK_TYPES.includes(t))
     : ALL_CHECK_TYPES) as IntegrityCheckType[];
 
   // Atomically check concurrency + duplicate jobs inside a transaction
@@ -143,18 +144,26 @@ async function executeCheck(
     // Run AI-based integrity check with progress tracking
     // Throttle DB writes: only persist when progress changes by >=5% to avoid excessive updates
     let lastPersistedProgress = 0;
-    const allIssues = await aiIntegrityCheck(text, html, contentType, {
-      checkTypes,
-      onProgress: async (pct) => {
-        if (pct - lastPersistedProgress >= 5 || pct >= 100) {
-          lastPersistedProgress = pct;
-          await prisma.integrityCheckJob.update({
-            where: { id: jobId },
-            data: { progress: pct },
-          });
-        }
-      },
-    });
+    const aiCheckTypes = checkTypes.filter(t => VALID_CHECK_TYPES.has(t));
+    const allIssues = aiCheckTypes.length > 0
+      ? await aiIntegrityCheck(text, html, contentType, {
+        checkTypes: aiCheckTypes,
+        onProgress: async (pct) => {
+          if (pct - lastPersistedProgress >= 5 || pct >= 100) {
+            lastPersistedProgress = pct;
+            await prisma.integrityCheckJob.update({
+              where: { id: jobId },
+              data: { progress: pct },
+            });
+          }
+        },
+      })
+      : [];
+
+    // Retraction / correction notices come from metadata lookups, not the AI
+    if (checkTypes.includes(RETRACTED_REFERENCE_CHECK_TYPE)) {
+      allIssues.push(...await retractedReferenceCheck(documentId, text));
+    }
 
     // Truncate AI-generated strings to prevent oversized DB writes
     const truncate = (s: string | undefined | null, max = 4096): string | null =>
@@ -134,6 +134,27 @@ export interface AggregateFilters {
   tenantId?: string;
 }
 
+export interface ReviewerReportRow {
+  reviewerId: string;
+  name: string;
+  email: string | null;
+  gatesAssigned: number;
+  gatesDecided: number;
+  /** Decided gates where the submitting reviewer was not the assignee */
+  decidedByOthers: number;
+  reassignedGates: number;
+  openGates: number;
+  /** Time from the (last) assignment to the submitted decision */
+  avgTimeToDecisionMs: number | null;
+  p50TimeToDecisionMs: number | null;
+  p90TimeToDecisionMs: number | null;
+  avgActiveMs: number | null;
+}
+
+export interface ReviewerReport {
+  rows: ReviewerReportRow[];
+}
+
 function percentile(sorted: number[], p: number): number | null {
   if (sorted.length === 0) return null;
   const idx = Math.ceil((p / 100) * sorted.length) - 1;
@@ -414,6 +435,89 @@ class TimeReportService {
     };
   }
 
+  /**
+   * Returns time-to-decision and workload per reviewer, from the gate owner
+   * recorded on each manually reviewed HITLGateMetric.
+   */
+  async getReviewerReport(filters: AggregateFilters): Promise<ReviewerReport> {
+    const where: Prisma.HITLGateMetricWhereInput = {
+      assigneeId: { not: null },
+      autoApproved: false,
+    };
+    if (filters.tenantId) where.tenantId = filters.tenantId;
+    if (filters.from || filters.to) {
+      where.gateEnteredAt = {
+        ...(filters.from ? { gte: filters.from } : {}),
+        ...(filters.to ? { lte: filters.to } : {}),
+      };
+    }
+
+    const gateMetrics = await prisma.hITLGateMetric.findMany({
+      where,
+      select: {
+        assigneeId: true,
+        assignedAt: true,
+        reviewerId: true,
+        reviewSubmittedAt: true,
+        activeMs: true,
+        reassignCount: true,
+      },
+    });
+
+    const byReviewer = new Map<string, typeof gateMetrics>();
+    for (const metric of gateMetrics) {
+      const reviewerId = metric.assigneeId as string;
+      byReviewer.set(reviewerId, [...(byReviewer.get(reviewerId) ?? []), metric]);
+    }
+
+    const reviewerIds = [...byReviewer.keys()];
+    const [users, openCounts] = await Promise.all([
+      prisma.user.findMany({
+        where: { id: { in: reviewerIds } },
+        select: { id: true, email: true, firstName: true, lastName: true },
+      }),
+      prisma.hITLGateAssignment.groupBy({
+        by: ['assigneeId'],
+        where: { assigneeId: { in: reviewerIds }, resolvedAt: null },
+        _count: { _all: true },
+      }),
+    ]);
+    const usersById = new Map(users.map(u => [u.id, u]));
+    const openById = new Map(openCounts.map(c => [c.assigneeId as string, c._count._all]));
+
+    const avg = (arr: number[]): number | null =>
+      arr.length > 0 ? Math.round(arr.reduce((s, v) => s + v, 0) / arr.length) : null;
+
+    const rows: ReviewerReportRow[] = reviewerIds.map(reviewerId => {
+      const metrics = byReviewer.get(reviewerId) ?? [];
+      const decided = metrics.filter(m => m.reviewSubmittedAt !== null);
+      const timesToDecision = decided
+        .filter(m => m.assignedAt !== null)
+        .map(m => new Date(m.reviewSubmittedAt as Date).getTime() - new Date(m.assignedAt as Date).getTime())
+        .filter(ms => ms >= 0)
+        .sort((a, b) => a - b);
+      const user = usersById.get(reviewerId);
+
+      return {
+        reviewerId,
+        name: user ? `${user.firstName ?? ''} ${user.lastName ?? ''}`.trim() || user.email : 'Unknown',
+        email: user?.email ?? null,
+        gatesAssigned: metrics.length,
+        gatesDecided: decided.length,
+        decidedByOthers: decided.filter(m => m.reviewerId && m.reviewerId !== reviewerId).length,
+        reassignedGates: metrics.filter(m => m.reassignCount > 0).length,
+        openGates: openById.get(reviewerId) ?? 0,
+        avgTimeToDecisionMs: avg(timesToDecision),
+        p50TimeToDecisionMs: percentile(timesToDecision, 50),
+        p90TimeToDecisionMs: percentile(timesToDecision, 90),
+        avgActiveMs: avg(decided.filter(m => m.activeMs !== null).map(m => m.activeMs as number)),
+      };
+    });
+
+    rows.sort((a, b) => b.gatesAssigned - a.gatesAssigned);
+    return { rows };
+  }
+
   /**
    * Exports aggregate report rows as a CSV string.
    */
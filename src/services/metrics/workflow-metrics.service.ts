@@ -130,6 +130,13 @@ class WorkflowMetricsService {
     if (HITL_STATES.has(toState)) {
       const gate = STATE_TO_GATE[toState];
       if (gate) {
+        // The gate may already have been assigned if the agent processed it first
+        const owner = await prisma.hITLAssignmentHistory.findFirst({
+          where: { workflowId, gate, unassignedAt: null },
+          orderBy: { assignedAt: 'desc' },
+          select: { assigneeId: true, assignedAt: true },
+        });
+
         await prisma.hITLGateMetric.create({
           data: {
             workflowId,
@@ -138,6 +145,8 @@ class WorkflowMetricsService {
             gate,
             gateEnteredAt: timestamp,
             autoApproved: false,
+            assigneeId: owner?.assigneeId ?? null,
+            assignedAt: owner?.assignedAt ?? null,
           },
         });
 
@@ -192,6 +201,34 @@ class WorkflowMetricsService {
     });
   }
 
+  /**
+   * Called fire-and-forget whenever a HITL gate is assigned or reassigned.
+   * Records the current owner on the open gate metric so time-to-decision can
+   * be reported per reviewer (measured from the last assignment).
+   */
+  async recordAssignment(
+    workflowId: string,
+    gate: string,
+    assigneeId: string | null,
+    timestamp: Date,
+    reassigned: boolean
+  ): Promise<void> {
+    const gateMetric = await prisma.hITLGateMetric.findFirst({
+      where: { workflowId, gate, reviewSubmittedAt: null },
+      orderBy: { gateEnteredAt: 'desc' },
+    });
+    if (!gateMetric) return;
+
+    await prisma.hITLGateMetric.update({
+      where: { id: gateMetric.id },
+      data: {
+        assigneeId,
+        assignedAt: timestamp,
+        ...(reassigned ? { reassignCount: { increment: 1 } } : {}),
+      },
+    });
+  }
+
   /**
    * Called when a reviewer opens a HITL review page.
    * Sets reviewStartedAt on the most recent open gate metric.
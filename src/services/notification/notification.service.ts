@@ -109,6 +109,60 @@ class NotificationService {
     });
   }
 
+  async createHITLAssignmentNotification(
+    assignment: { workflowId: string; fileName: string; gate: string; gateName: string; reason?: string | null },
+    userId: string,
+    tenantId: string
+  ): Promise<void> {
+    await this.createNotification({
+      userId,
+      tenantId,
+      type: 'SYSTEM_ALERT',
+      title: `Assigned to you: ${assignment.gateName}`,
+      message: `"${assignment.fileName}" is waiting for your ${assignment.gateName}.` +
+        (assignment.reason ? ` Note: ${assignment.reason}` : ''),
+      data: {
+        workflowId: assignment.workflowId,
+        gate: assignment.gate,
+      },
+      link: `/workflow/${assignment.workflowId}/hitl/${assignment.gate.toLowerCase().replace(/_/g, '-')}`,
+    });
+  }
+
+  async createHITLEscalationNotification(
+    escalation: {
+      workflowId: string;
+      fileName: string;
+      gate: string;
+      gateName: string;
+      action: 'remind' | 'reassign' | 'notify-manager';
+      hoursOpen: number;
+      ownerName: string;
+    },
+    userId: string,
+    tenantId: string
+  ): Promise<void> {
+    const titles: Record<typeof escalation.action, string> = {
+      'remind': `Reminder: ${escalation.gateName}`,
+      'reassign': `Reassigned: ${escalation.gateName}`,
+      'notify-manager': `Overdue: ${escalation.gateName}`,
+    };
+    await this.createNotification({
+      userId,
+      tenantId,
+      type: 'SYSTEM_ALERT',
+      title: titles[escalation.action],
+      message: `"${escalation.fileName}" has been waiting at ${escalation.gateName} for ${escalation.hoursOpen} hour(s). Owner: ${escalation.ownerName}.`,
+      data: {
+        workflowId: escalation.workflowId,
+        gate: escalation.gate,
+        action: escalation.action,
+        hoursOpen: escalation.hoursOpen,
+      },
+      link: `/workflow/${escalation.workflowId}/hitl/${escalation.gate.toLowerCase().replace(/_/g, '-')}`,
+    });
+  }
+
   async createBatchFailureNotification(
     batch: { id: string; name: string },
     userId: string,
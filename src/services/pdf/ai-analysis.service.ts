@@ -23,6 +23,7 @@ import { pdfParserService } from './pdf-parser.service';
 import { AuditIssue } from '../audit/base-audit.service';
 import type { PdfParseResult, PdfPage } from './pdf-comprehensive-parser.service';
 import type { TableInfo } from './structure-analyzer.service';
+import { proposeGridFromTable } from './pdf-table-structure.service';
 import type { ParsedPDF } from './pdf-parser.service';
 
 // ─── Config Types ──────────────────────────────────────────────────────────────
@@ -400,7 +401,7 @@ class AiAnalysisService {
           applyMode: 'apply-to-pdf',
         };
       }
-      return this.analyzeTableHeaders(issue, table);
+      return this.analyzeTableHeaders(issue, table, parsed.isTagged && config.tableFixMode === 'apply-to-pdf');
     }
 
     if (TABLE_LAYOUT_CODES.has(code)) {
@@ -725,9 +726,15 @@ class AiAnalysisService {
     }
   }
 
+  /**
+   * The proposed header row / column is stored as a table grid in `value`,
+   * which the zone editor loads for the operator to correct; it can be
+   * applied to the PDF directly only when the table fix mode allows it.
+   */
   private async analyzeTableHeaders(
     _issue: AuditIssue,
-    table: TableInfo
+    table: TableInfo,
+    applyToPdf: boolean
   ): Promise<AiSuggestionResult | null> {
     const tableText = this.formatTableAsText(table);
     const prompt =
@@ -749,8 +756,14 @@ class AiAnalysisService {
       }>(response.text);
       if (!data) return null;
 
+      const grid = proposeGridFromTable(table, {
+        headerRow: (data.headerRow ?? []).some((v) => v?.trim()),
+        headerColumn: (data.headerColumn ?? []).some((v) => v?.trim()),
+      });
+
       return {
         suggestionType: 'table-headers',
+        value: grid.rows.length > 0 ? JSON.stringify(grid) : undefined,
         guidance:
           data.guidance ||
           (data.headerRow.length > 0
@@ -759,7 +772,7 @@ class AiAnalysisService {
         confidence: data.confidence,
         rationale: data.rationale,
         model: 'gemini-flash',
-        applyMode: 'guidance-only',
+        applyMode: applyToPdf && grid.rows.length > 0 ? 'apply-to-pdf' : 'guidance-only',
         usage: response.usage ? { promptTokens: response.usage.promptTokens, completionTokens: response.usage.completionTokens } : undefined,
       };
     } catch (err) {
@@ -6,6 +6,8 @@
  *
  * Core principle: UNTESTED ≠ PASS
  *   - Machine conditions with no test are marked UNTESTED, not PASS.
+ *   - Conditions the built-in Matterhorn validator evaluated for the job
+ *     (auditReport.metadata.matterhornTested) count as tested.
  *   - Human-only conditions are marked HUMAN_REQUIRED.
  *   - Conditions not relevant to this document are NOT_APPLICABLE.
  *
@@ -42,10 +44,18 @@ export interface PacConditionResult {
   source?: 'ninja' | 'verapdf';
 }
 
+/** How many of a checkpoint's machine conditions were actually tested. */
+export interface PacCheckpointCoverage {
+  machine: number;
+  tested: number;
+  untested: number;
+}
+
 export interface PacCheckpointResult {
   id: string;
   title: string;
   status: PacCheckpointStatus;
+  coverage: PacCheckpointCoverage;
   conditions: PacConditionResult[];
 }
 
@@ -147,6 +157,13 @@ class PacReportService {
     const jobInput = job.input as Record<string, unknown> | null;
     const fileName = (auditReport?.['fileName'] as string | undefined) ?? (jobInput?.['fileName'] as string | undefined) ?? 'unknown.pdf';
 
+    // Static coverage plus whatever the built-in Matterhorn validator evaluated for this job
+    const jobTested = (auditReport?.['metadata'] as Record<string, unknown> | undefined)?.['matterhornTested'];
+    const testable = new Set([
+      ...TESTABLE_CONDITIONS,
+      ...(Array.isArray(jobTested) ? jobTested.filter((c): c is string => typeof c === 'string') : []),
+    ]);
+
     // Build a lookup: matterhornConditionId → [issue, ...]
     const failureMap = this.buildFailureMap(rawIssues);
 
@@ -154,7 +171,7 @@ class PacReportService {
     const checkpointMap = new Map<string, PacCheckpointResult>();
 
     for (const [, condition] of MATTERHORN_CONDITIONS) {
-      const conditionResult = this.classifyCondition(condition, failureMap);
+      const conditionResult = this.classifyCondition(condition, failureMap, testable);
 
       let checkpoint = checkpointMap.get(condition.checkpoint);
       if (!checkpoint) {
@@ -162,6 +179,7 @@ class PacReportService {
           id: condition.checkpoint,
           title: condition.title,
           status: 'PASS',
+          coverage: { machine: 0, tested: 0, untested: 0 },
           conditions: [],
         };
         checkpointMap.set(condition.checkpoint, checkpoint);
@@ -170,9 +188,10 @@ class PacReportService {
       checkpoint.conditions.push(conditionResult);
     }
 
-    // Roll up condition statuses to checkpoint level
+    // Roll up condition statuses and machine-test coverage to checkpoint level
     for (const checkpoint of checkpointMap.values()) {
       checkpoint.status = this.rollupStatus(checkpoint.conditions);
+      checkpoint.coverage = this.checkpointCoverage(checkpoint.conditions);
     }
 
     const checkpoints = Array.from(checkpointMap.values()).sort(
@@ -230,6 +249,7 @@ class PacReportService {
   private classifyCondition(
     condition: MatterhornCondition,
     failureMap: Map<string, AuditIssue[]>,
+    testable: ReadonlySet<string>,
   ): PacConditionResult {
     const base: PacConditionResult = {
       id: condition.id,
@@ -259,7 +279,7 @@ class PacReportService {
       };
     }
 
-    if (TESTABLE_CONDITIONS.has(condition.id)) {
+    if (testable.has(condition.id)) {
       return { ...base, status: 'PASS' };
     }
 
@@ -280,6 +300,12 @@ class PacReportService {
     return 'PASS';
   }
 
+  private checkpointCoverage(conditions: PacConditionResult[]): PacCheckpointCoverage {
+    const machine = conditions.filter((c) => c.how === 'M');
+    const untested = machine.filter((c) => c.status === 'UNTESTED').length;
+    return { machine: machine.length, tested: machine.length - untested, untested };
+  }
+
   private buildSummary(checkpoints: PacCheckpointResult[]): PacReportSummary {
     const allConditions = checkpoints.flatMap((cp) => cp.conditions);
     return {
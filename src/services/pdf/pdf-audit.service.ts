@@ -26,6 +26,7 @@ import { pdfLinkValidator } from './validators/pdf-link.validator';
 import { pdfFormValidator } from './validators/pdf-form.validator';
 import { pdfBookmarkValidator } from './validators/pdf-bookmark.validator';
 import { pdfSupplementalValidator } from './validators/pdf-supplemental.validator';
+import { pdfMatterhornValidator } from './validators/pdf-matterhorn.validator';
 import { smartTriageService } from './smart-triage/triage.service';
 import { veraPdfService } from './verapdf.service';
 import { mapVeraPdfFailures } from '../../data/verapdf-matterhorn.map';
@@ -55,6 +56,8 @@ export interface PdfValidationResult {
   formIssues: AuditIssue[];
   bookmarkIssues: AuditIssue[];
   matterhornResults: MatterhornCheckResult[];
+  /** Matterhorn conditions the built-in Matterhorn validator evaluated */
+  matterhornTested: string[];
   validatorErrors: Array<{
     validator: string;
     error: string;
@@ -260,6 +263,7 @@ class PdfAuditService extends BaseAuditService<PdfParseResult, PdfValidationResu
       formIssues: [],
       bookmarkIssues: [],
       matterhornResults: [],
+      matterhornTested: [],
       validatorErrors: [],
     };
 
@@ -282,9 +286,11 @@ class PdfAuditService extends BaseAuditService<PdfParseResult, PdfValidationResu
     const willRunForms     = validatorsToRun.includes('forms');
     const willRunBookmarks    = validatorsToRun.includes('bookmarks');
     const willRunSupplemental = validatorsToRun.includes('supplemental');
+    const willRunMatterhorn   = validatorsToRun.includes('matterhorn');
     const totalValidators = [
       willRunStructure, willRunAltText, willRunContrast, willRunTables,
       willRunLinks, willRunForms, willRunBookmarks, willRunSupplemental,
+      willRunMatterhorn,
     ].filter(Boolean).length;
     let completedValidators = 0;
 
@@ -451,6 +457,24 @@ class PdfAuditService extends BaseAuditService<PdfParseResult, PdfValidationResu
           onValidatorComplete?.('Supplemental (CP10/20/21/25/30)', 0, ++completedValidators, totalValidators, supplementalStart);
         }
       }
+
+      // 8b. Matterhorn Validator (CP02/06/07/09/11/14/28 — checks that otherwise need veraPDF)
+      if (willRunMatterhorn) {
+        const matterhornStart = new Date();
+        try {
+          logger.info(`[PdfAudit] Running PdfMatterhornValidator...`);
+          const matterhornResult = await pdfMatterhornValidator.validate(parsed.parsedPdf);
+          result.issues.push(...matterhornResult.issues);
+          result.matterhornTested = matterhornResult.testedConditions;
+          logger.info(`[PdfAudit] PdfMatterhornValidator found ${matterhornResult.issues.length} issues`);
+          onValidatorComplete?.('Matterhorn (CP02/06/07/09/11/14/28)', matterhornResult.issues.length, ++completedValidators, totalValidators, matterhornStart);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          logger.error(`[PdfAudit] PdfMatterhornValidator failed:`, error);
+          result.validatorErrors.push({ validator: 'PdfMatterhornValidator', error: errorMessage });
+          onValidatorComplete?.('Matterhorn (CP02/06/07/09/11/14/28)', 0, ++completedValidators, totalValidators, matterhornStart);
+        }
+      }
     } else {
       // Fallback to stub validators
       logger.info('[PdfAudit] Using stub validators with PdfParseResult');
@@ -620,6 +644,7 @@ class PdfAuditService extends BaseAuditService<PdfParseResult, PdfValidationResu
         matterhornPassed: adjustedMatterhornResults.filter(r => r.passed).length,
         matterhornFailed: adjustedMatterhornResults.filter(r => !r.passed).length,
         matterhornSummary,
+        matterhornTested: validation.matterhornTested,
         validatorErrors: validation.validatorErrors,
       },
       auditedAt: new Date(),
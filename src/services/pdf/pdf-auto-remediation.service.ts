@@ -10,6 +10,7 @@ import { logger } from '../../lib/logger';
 import { pdfModifierService, ModificationResult } from './pdf-modifier.service';
 import { pdfRemediationService } from './pdf-remediation.service';
 import { pdfVerificationService, VerificationResult } from './pdf-verification.service';
+import { pdfOutlineService } from './pdf-outline.service';
 import { AUTO_FIXABLE_CODES, MANUAL_CODES } from '../../constants/pdf-fix-classification';
 import type {
   RemediationTask,
@@ -71,6 +72,12 @@ class PdfAutoRemediationService {
    */
   private handlers: Map<string, RemediationHandler> = new Map();
 
+  /**
+   * One generated outline per loaded document: every BOOKMARK-* task in a
+   * run shares the result instead of rebuilding the outline per task.
+   */
+  private outlineResults = new WeakMap<PDFDocument, Promise<ModificationResult>>();
+
   constructor() {
     this.registerDefaultHandlers();
     this.validateHandlerCoverage();
@@ -104,7 +111,12 @@ class PdfAutoRemediationService {
     this.registerHandler('AI-TABLE-SUMMARY', this.handleAiTableSummary.bind(this));
     this.registerHandler('AI-LANGUAGE', this.handleAddLanguage.bind(this)); // reuses existing handler
 
-    logger.info('[Auto-Remediation] Registered 12 handlers (9 unique + 3 aliases + 3 AI handlers)');
+    // Bookmarks: one outline rebuilt from headings resolves all three codes
+    this.registerHandler('BOOKMARK-MISSING', this.handleGenerateOutline.bind(this));
+    this.registerHandler('BOOKMARK-INSUFFICIENT', this.handleGenerateOutline.bind(this));
+    this.registerHandler('BOOKMARK-GENERIC-TEXT', this.handleGenerateOutline.bind(this));
+
+    logger.info('[Auto-Remediation] Registered 15 handlers (9 unique + 3 aliases + 3 AI handlers + 3 bookmark codes)');
   }
 
   /**
@@ -281,7 +293,7 @@ class PdfAutoRemediationService {
             });
 
             // Run handler
-            const modification = await handler(doc, task);
+            const modification = await handler(doc, task, { jobId });
             result.modifications.push(modification);
 
             // Update status based on result
@@ -564,6 +576,24 @@ class PdfAutoRemediationService {
     return await pdfModifierService.setSuspectsFlag(doc, suspects);
   }
 
+  /**
+   * Handler: Generate bookmarks from H1–H6 structure elements, or from
+   * heading zones when the PDF is untagged. Replaces any existing outline,
+   * so it also resolves insufficient and generic bookmarks.
+   */
+  private async handleGenerateOutline(
+    doc: PDFDocument,
+    task: RemediationTask,
+    options?: Record<string, unknown>
+  ): Promise<ModificationResult> {
+    let pending = this.outlineResults.get(doc);
+    if (!pending) {
+      pending = pdfOutlineService.generateOutline(doc, options?.jobId as string | undefined);
+      this.outlineResults.set(doc, pending);
+    }
+    return pending;
+  }
+
   // ============================================================================
   // AI-Assisted Handlers
   // ============================================================================
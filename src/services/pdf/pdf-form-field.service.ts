@@ -0,0 +1,367 @@
+/**
+ * PDF Form Field Service
+ *
+ * Proposes tooltips (/TU) for form fields that have none, or only a
+ * generated name such as "Text1", from the label text printed next to
+ * each field. Proposals are queued as GeneratedFormTooltip rows for human
+ * review, the same way generated alt text is; only approved or edited
+ * tooltips are written to the PDF, together with /Form tagging of the
+ * widgets and structure tab order.
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { pdfModifierService, ModificationResult } from './pdf-modifier.service';
+import { isGenericFieldLabel } from './validators/pdf-form.validator';
+import type { PdfFormField } from './pdf-comprehensive-parser.service';
+
+// Ensure pdfjs worker is configured (same pattern as pdf-parser.service.ts)
+const pdfjsWorkerPath = path.join(
+  process.cwd(),
+  'node_modules',
+  'pdfjs-dist',
+  'legacy',
+  'build',
+  'pdf.worker.mjs'
+);
+pdfjsLib.GlobalWorkerOptions.workerSrc = pathToFileURL(pdfjsWorkerPath).href;
+
+/** Furthest a label may sit left of its field, in points. */
+const LEFT_MAX_GAP = 150;
+/** Furthest a label may sit above its field, in points. */
+const ABOVE_MAX_GAP = 30;
+/** Furthest a checkbox / radio caption may sit right of the box, in points. */
+const RIGHT_MAX_GAP = 60;
+/** Proposals below this confidence go to the queue as needs_review. */
+const REVIEW_THRESHOLD = 0.7;
+/** Labels longer than this are more likely instructions than a field label. */
+const MAX_LABEL_LENGTH = 80;
+
+/** Flags that keep a proposal out of batch approval. */
+export const FORM_TOOLTIP_REVIEW_FLAGS = ['NO_LABEL_FOUND', 'AMBIGUOUS_LABEL', 'LONG_LABEL'];
+
+/** Rectangle in PDF user space (bottom-left origin). */
+export interface FieldRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** A run of text on one baseline. `y` is the baseline in PDF user space. */
+export interface TextRun {
+  text: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type LabelSource = 'left' | 'above' | 'right' | 'field-name' | 'none';
+
+export interface LabelProposal {
+  text: string;
+  source: LabelSource;
+  confidence: number;
+  flags: string[];
+}
+
+interface FormFieldLocation {
+  name: string;
+  type: PdfFormField['type'];
+  tooltip: string;
+  pageNumber: number;
+  rect: FieldRect;
+}
+
+interface PdfjsTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Merge text items that share a baseline and sit close together into
+ * runs, so a label drawn as several items ("Date of", " birth:") is
+ * matched as one.
+ */
+export function groupTextRuns(items: TextRun[]): TextRun[] {
+  const sorted = items
+    .filter((item) => item.text.trim().length > 0)
+    .sort((a, b) => (Math.abs(a.y - b.y) > 2 ? b.y - a.y : a.x - b.x));
+
+  const runs: TextRun[] = [];
+  for (const item of sorted) {
+    const last = runs[runs.length - 1];
+    const gap = last ? item.x - (last.x + last.width) : Infinity;
+    if (last && Math.abs(last.y - item.y) <= 2 && gap >= -1 && gap <= Math.max(last.height, 4)) {
+      last.text += gap > last.height * 0.2 && !last.text.endsWith(' ') ? ` ${item.text}` : item.text;
+      last.width = item.x + item.width - last.x;
+      last.height = Math.max(last.height, item.height);
+    } else {
+      runs.push({ ...item });
+    }
+  }
+  return runs;
+}
+
+/**
+ * Propose a tooltip for a field from the text runs on its page. Candidates
+ * are text left of the field on the same line, directly above it, or — for
+ * checkboxes and radio buttons — to its right; the closest wins. Falls back
+ * to a humanised field name when no text is near the field.
+ */
+export function proposeFieldLabel(
+  field: { name: string; type: PdfFormField['type']; rect: FieldRect },
+  runs: TextRun[]
+): LabelProposal {
+  const { rect } = field;
+  const isToggle = field.type === 'checkbox' || field.type === 'radio';
+  const fieldMid = rect.y + rect.height / 2;
+  const candidates: Array<{ text: string; source: LabelSource; score: number }> = [];
+
+  for (const run of runs) {
+    const text = cleanLabel(run.text);
+    if (text.length < 2) continue;
+
+    const runMid = run.y + run.height / 2;
+    const aligned = Math.abs(runMid - fieldMid) <= Math.max(rect.height / 2, run.height);
+    const runRight = run.x + run.width;
+
+    if (aligned && runRight <= rect.x + 2) {
+      const gap = Math.max(0, rect.x - runRight);
+      if (gap <= LEFT_MAX_GAP) {
+        const score = 1 - (gap / LEFT_MAX_GAP) * 0.5;
+        candidates.push({ text, source: 'left', score: isToggle ? score * 0.8 : score });
+      }
+    } else if (aligned && isToggle && run.x >= rect.x + rect.width - 2) {
+      const gap = Math.max(0, run.x - (rect.x + rect.width));
+      if (gap <= RIGHT_MAX_GAP) {
+        candidates.push({ text, source: 'right', score: 1 - (gap / RIGHT_MAX_GAP) * 0.5 });
+      }
+    } else if (run.y >= rect.y + rect.height - 2) {
+      const distance = run.y - (rect.y + rect.height);
+      const overlaps = run.x < rect.x + rect.width && runRight > rect.x - 10;
+      if (distance <= ABOVE_MAX_GAP && overlaps) {
+        candidates.push({ text, source: 'above', score: 0.9 - (distance / ABOVE_MAX_GAP) * 0.4 });
+      }
+    }
+  }
+
+  candidates.sort((a, b) => b.score - a.score);
+  const [best, runnerUp] = candidates;
+
+  if (best) {
+    const flags: string[] = [];
+    let confidence = best.score;
+    if (runnerUp && runnerUp.text !== best.text && best.score - runnerUp.score < 0.05) {
+      flags.push('AMBIGUOUS_LABEL');
+      confidence = Math.min(confidence, 0.6);
+    }
+    if (best.text.length > MAX_LABEL_LENGTH) {
+      flags.push('LONG_LABEL');
+      confidence = Math.min(confidence, 0.5);
+    }
+    if (confidence < REVIEW_THRESHOLD) flags.push('LOW_CONFIDENCE');
+    return { text: best.text, source: best.source, confidence: round(confidence), flags };
+  }
+
+  const fromName = humaniseFieldName(field.name);
+  if (fromName) {
+    return { text: fromName, source: 'field-name', confidence: 0.4, flags: ['LOW_CONFIDENCE'] };
+  }
+  return { text: '', source: 'none', confidence: 0, flags: ['NO_LABEL_FOUND'] };
+}
+
+/** Strip leader dots, underscores, trailing colons and required-field asterisks. */
+function cleanLabel(text: string): string {
+  return text
+    .replace(/[_.…]{3,}/g, ' ')
+    .replace(/\s+/g, ' ')
+    .trim()
+    .replace(/[\s:*]+$/, '')
+    .replace(/^\*\s*/, '')
+    .trim();
+}
+
+/** "applicant.dateOfBirth" → "Date of birth"; null for generated names. */
+function humaniseFieldName(name: string): string | null {
+  const last = name.split('.').pop()?.replace(/\[\d+\]$/, '') ?? '';
+  if (!last || isGenericFieldLabel(last)) return null;
+  const words = last
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .replace(/[_-]+/g, ' ')
+    .trim()
+    .toLowerCase();
+  if (!/[a-z]{2,}/.test(words)) return null;
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function mapFieldType(annotation: { fieldType?: string; checkBox?: boolean; radioButton?: boolean }): PdfFormField['type'] {
+  switch (annotation.fieldType) {
+    case 'Tx': return 'text';
+    case 'Ch': return 'select';
+    case 'Btn':
+      if (annotation.checkBox) return 'checkbox';
+      if (annotation.radioButton) return 'radio';
+      return 'button';
+    default: return 'text';
+  }
+}
+
+class PdfFormFieldService {
+  /**
+   * Propose tooltips for every field of the job's PDF that lacks a
+   * descriptive one and queue them for review. Re-running refreshes
+   * proposals that are still pending; reviewed rows are left alone.
+   * Fields not proposed are counted as already labeled (descriptive
+   * tooltip in the PDF) or already reviewed.
+   */
+  async proposeTooltips(
+    jobId: string,
+    pdfBuffer: Buffer
+  ): Promise<{ fields: number; proposed: number; alreadyLabeled: number; alreadyReviewed: number }> {
+    const { fields, runsByPage } = await this.extractFieldsAndText(pdfBuffer);
+    const needsTooltip = fields.filter((f) => !f.tooltip || isGenericFieldLabel(f.tooltip));
+
+    const reviewed = await prisma.generatedFormTooltip.findMany({
+      where: { jobId, status: { in: ['approved', 'edited', 'rejected'] } },
+      select: { fieldName: true },
+    });
+    const reviewedNames = new Set(reviewed.map((r) => r.fieldName));
+
+    let proposed = 0;
+    for (const field of needsTooltip) {
+      if (reviewedNames.has(field.name)) continue;
+
+      const proposal = proposeFieldLabel(field, runsByPage.get(field.pageNumber) ?? []);
+      const data = {
+        fieldType: field.type,
+        pageNumber: field.pageNumber,
+        bounds: field.rect as unknown as Prisma.InputJsonValue,
+        currentTooltip: field.tooltip || null,
+        proposedTooltip: proposal.text,
+        labelSource: proposal.source,
+        confidence: proposal.confidence,
+        flags: proposal.flags,
+        status: proposal.flags.length > 0 ? 'needs_review' : 'pending',
+      };
+      await prisma.generatedFormTooltip.upsert({
+        where: { jobId_fieldName: { jobId, fieldName: field.name } },
+        create: { jobId, fieldName: field.name, ...data },
+        update: data,
+      });
+      proposed++;
+    }
+
+    const alreadyLabeled = fields.length - needsTooltip.length;
+    const alreadyReviewed = needsTooltip.length - proposed;
+    logger.info(
+      `[PdfFormField] Job ${jobId}: ${fields.length} field(s), ${proposed} tooltip proposal(s), ` +
+      `${alreadyLabeled} already labeled, ${alreadyReviewed} already reviewed`
+    );
+    return { fields: fields.length, proposed, alreadyLabeled, alreadyReviewed };
+  }
+
+  /**
+   * Write the job's approved and edited tooltips into `doc`, then tag the
+   * form widgets and set structure tab order. The caller saves the
+   * document and then calls `markApplied` with the returned ids.
+   */
+  async applyReviewedTooltips(
+    doc: PDFDocument,
+    jobId: string
+  ): Promise<{ tooltips: ModificationResult[]; structure: ModificationResult; appliedIds: string[] }> {
+    const rows = await prisma.generatedFormTooltip.findMany({
+      where: { jobId, status: { in: ['approved', 'edited'] } },
+      orderBy: [{ pageNumber: 'asc' }, { fieldName: 'asc' }],
+    });
+
+    const tooltips: ModificationResult[] = [];
+    const appliedIds: string[] = [];
+    for (const row of rows) {
+      const tooltip = (row.approvedTooltip ?? row.proposedTooltip).trim();
+      if (!tooltip) continue;
+      const result = await pdfModifierService.setFieldTooltip(doc, row.fieldName, tooltip);
+      tooltips.push({ ...result, pageNumber: row.pageNumber });
+      if (result.success) appliedIds.push(row.id);
+    }
+
+    const structure = await pdfModifierService.tagFormFields(doc);
+    logger.info(`[PdfFormField] Job ${jobId}: applied ${appliedIds.length}/${rows.length} reviewed tooltip(s)`);
+    return { tooltips, structure, appliedIds };
+  }
+
+  async markApplied(ids: string[]): Promise<void> {
+    if (ids.length === 0) return;
+    await prisma.generatedFormTooltip.updateMany({
+      where: { id: { in: ids } },
+      data: { appliedAt: new Date() },
+    });
+  }
+
+  /**
+   * One pass over the PDF with pdfjs: widget annotations (first widget per
+   * field) and the page's text runs, both in PDF user space.
+   */
+  private async extractFieldsAndText(
+    pdfBuffer: Buffer
+  ): Promise<{ fields: FormFieldLocation[]; runsByPage: Map<number, TextRun[]> }> {
+    const pdfjsDoc = await pdfjsLib.getDocument({ data: new Uint8Array(pdfBuffer), useSystemFonts: true }).promise;
+    const fields: FormFieldLocation[] = [];
+    const runsByPage = new Map<number, TextRun[]>();
+    const seen = new Set<string>();
+
+    try {
+      for (let pageNum = 1; pageNum <= pdfjsDoc.numPages; pageNum++) {
+        const page = await pdfjsDoc.getPage(pageNum);
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const annotations: any[] = await (page as any).getAnnotations({ intent: 'display' });
+        const widgets = annotations.filter((a) => a.subtype === 'Widget' && a.fieldName);
+        if (widgets.length === 0) continue;
+
+        for (const widget of widgets) {
+          const name = String(widget.fieldName);
+          if (seen.has(name)) continue;
+          seen.add(name);
+          const [x0, y0, x1, y1]: number[] = widget.rect ?? [0, 0, 0, 0];
+          fields.push({
+            name,
+            type: mapFieldType(widget),
+            tooltip: String(widget.alternativeText ?? '').trim(),
+            pageNumber: pageNum,
+            rect: { x: Math.min(x0, x1), y: Math.min(y0, y1), width: Math.abs(x1 - x0), height: Math.abs(y1 - y0) },
+          });
+        }
+
+        const textContent = await page.getTextContent();
+        const items = (textContent.items as unknown as PdfjsTextItem[])
+          .filter((item) => typeof item.str === 'string' && Array.isArray(item.transform))
+          .map((item) => ({
+            text: item.str,
+            x: item.transform[4],
+            y: item.transform[5],
+            width: item.width,
+            height: Math.abs(item.transform[3]) || item.height,
+          }));
+        runsByPage.set(pageNum, groupTextRuns(items));
+      }
+    } finally {
+      await pdfjsDoc.destroy();
+    }
+
+    return { fields, runsByPage };
+  }
+}
+
+export const pdfFormFieldService = new PdfFormFieldService();
@@ -0,0 +1,308 @@
+/**
+ * PDF Link Remediation Service
+ *
+ * Makes the links of a PDF accessible: gives every link annotation a
+ * /Contents description built from its visible text or its target, turns
+ * URLs printed in the text into real link annotations, and tags link
+ * annotations as /Link structure elements. Each change is returned with
+ * the rule it fixes so the caller can record it as a RemediationChange
+ * once the modified PDF has been saved.
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import prisma from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import {
+  ComparisonService,
+  mapFixTypeToChangeType,
+  extractSeverity,
+  extractWcagCriteria,
+  extractWcagLevel,
+} from '../comparison';
+import { pdfModifierService, ModificationResult, LinkAnnotation } from './pdf-modifier.service';
+import { groupTextRuns, type FieldRect, type TextRun } from './pdf-form-field.service';
+import { isGenericLinkText, isUrlLinkText } from './validators/pdf-link.validator';
+
+// Ensure pdfjs worker is configured (same pattern as pdf-parser.service.ts)
+const pdfjsWorkerPath = path.join(
+  process.cwd(),
+  'node_modules',
+  'pdfjs-dist',
+  'legacy',
+  'build',
+  'pdf.worker.mjs'
+);
+pdfjsLib.GlobalWorkerOptions.workerSrc = pathToFileURL(pdfjsWorkerPath).href;
+
+const comparisonService = new ComparisonService(prisma);
+
+/** URLs and www. addresses in running text; trailing punctuation is trimmed separately. */
+const URL_IN_TEXT_RE = /\b(?:https?:\/\/|www\.)[^\s<>"'()[\]{}]+/gi;
+/** Longest target description used in a /Contents value. */
+const MAX_TARGET_LENGTH = 80;
+
+/** Rule ids recorded for link changes that have no audit code of their own. */
+export const LINK_REMEDIATION_RULES = {
+  contents: 'LINK-NO-CONTENTS',
+  bareUrl: 'LINK-BARE-URL',
+  structure: 'LINK-NOT-TAGGED',
+} as const;
+
+/** A bare URL found in the page text, with the area it covers. */
+export interface BareUrl {
+  url: string;
+  pageNumber: number;
+  rect: FieldRect;
+}
+
+/** A successful link modification and the rule it fixes. */
+export interface LinkChange extends ModificationResult {
+  ruleId: string;
+}
+
+export interface LinkRemediationResult {
+  changes: LinkChange[];
+  descriptionsSet: number;
+  linksAdded: number;
+  structure: ModificationResult;
+}
+
+interface PdfjsTextItem {
+  str: string;
+  transform: number[];
+  width: number;
+  height: number;
+}
+
+/**
+ * Human-readable description of a link target: "example.com/reports/2024",
+ * "Email info@example.com" or "Go to page 4". Null when the target is
+ * unknown (e.g. a named destination).
+ */
+export function describeLinkTarget(link: { uri?: string; destPage?: number }): string | null {
+  if (link.uri) {
+    const uri = link.uri.trim();
+    if (/^mailto:/i.test(uri)) {
+      return `Email ${safeDecode(uri.replace(/^mailto:/i, '').split('?')[0])}`;
+    }
+    try {
+      const url = new URL(/^[a-z][a-z0-9+.-]*:/i.test(uri) ? uri : `https://${uri}`);
+      const host = url.hostname.replace(/^www\./i, '');
+      const pathPart = safeDecode(url.pathname).replace(/\/+$/, '');
+      const text = `${host}${pathPart}`;
+      return text.length > MAX_TARGET_LENGTH ? `${text.slice(0, MAX_TARGET_LENGTH - 1)}…` : text;
+    } catch {
+      return uri.slice(0, MAX_TARGET_LENGTH);
+    }
+  }
+  if (link.destPage) return `Go to page ${link.destPage}`;
+  return null;
+}
+
+/**
+ * Propose a /Contents value for a link. Descriptive visible text is used
+ * as is; a raw URL is replaced by a readable target; a generic phrase
+ * keeps its wording and gains the target ("Read more (example.com/report)"),
+ * so the accessible name still contains the visible label (WCAG 2.5.3).
+ *
+ * @returns null when there is nothing better than what the link has
+ */
+export function proposeLinkContents(
+  visibleText: string,
+  link: { uri?: string; destPage?: number }
+): string | null {
+  const text = visibleText.replace(/\s+/g, ' ').trim();
+  const target = describeLinkTarget(link);
+
+  if (!text || isUrlLinkText(text)) return target ?? (text || null);
+  if (isGenericLinkText(text)) return target ? `${text} (${target})` : null;
+  return text;
+}
+
+/**
+ * Text of the runs inside `rect`. Runs that only partly overlap are cut
+ * at the rectangle edges, assuming evenly spaced characters.
+ */
+export function linkTextInRect(runs: TextRun[], rect: FieldRect): string {
+  const parts: string[] = [];
+  for (const run of runs) {
+    const mid = run.y + run.height / 2;
+    if (mid < rect.y - 2 || mid > rect.y + rect.height + 2) continue;
+
+    const start = Math.max(run.x, rect.x);
+    const end = Math.min(run.x + run.width, rect.x + rect.width);
+    if (end <= start || run.width <= 0) continue;
+
+    const perChar = run.width / run.text.length;
+    const from = Math.max(0, Math.round((start - run.x) / perChar));
+    const to = Math.min(run.text.length, Math.round((end - run.x) / perChar));
+    const part = run.text.slice(from, to).trim();
+    if (part) parts.push(part);
+  }
+  return parts.join(' ');
+}
+
+/**
+ * Find URLs printed in the text that no link annotation covers. The area
+ * of each URL within its run is estimated from its character offsets.
+ */
+export function findBareUrls(runs: TextRun[], pageNumber: number, linkRects: FieldRect[]): BareUrl[] {
+  const found: BareUrl[] = [];
+  for (const run of runs) {
+    if (!run.text || run.width <= 0) continue;
+    const perChar = run.width / run.text.length;
+
+    for (const match of run.text.matchAll(URL_IN_TEXT_RE)) {
+      const url = match[0].replace(/[.,;:!?]+$/, '');
+      if (url.length < 8) continue;
+
+      const rect = {
+        x: run.x + (match.index ?? 0) * perChar,
+        y: run.y - run.height * 0.2,
+        width: url.length * perChar,
+        height: run.height * 1.2,
+      };
+      if (linkRects.some((linked) => overlaps(linked, rect))) continue;
+
+      found.push({ url: /^www\./i.test(url) ? `https://${url}` : url, pageNumber, rect: roundRect(rect) });
+    }
+  }
+  return found;
+}
+
+function safeDecode(value: string): string {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+}
+
+function overlaps(a: FieldRect, b: FieldRect): boolean {
+  return a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+}
+
+function roundRect(rect: FieldRect): FieldRect {
+  const round = (value: number) => Math.round(value * 100) / 100;
+  return { x: round(rect.x), y: round(rect.y), width: round(rect.width), height: round(rect.height) };
+}
+
+/** Audit code the link's current description would be reported under. */
+function contentsRuleId(link: LinkAnnotation): string {
+  const current = link.contents.trim();
+  if (!current) return LINK_REMEDIATION_RULES.contents;
+  if (isUrlLinkText(current)) return 'LINK-URL-AS-TEXT';
+  return 'LINK-GENERIC-TEXT';
+}
+
+class PdfLinkRemediationService {
+  /**
+   * Remediate the links of `doc`. `pdfBuffer` must hold the same PDF —
+   * it is read with pdfjs for the page text. Links whose /Contents is
+   * already descriptive are left alone.
+   */
+  async remediateLinks(doc: PDFDocument, pdfBuffer: Buffer): Promise<LinkRemediationResult> {
+    const runsByPage = await this.extractTextRuns(pdfBuffer);
+    const changes: LinkChange[] = [];
+    let descriptionsSet = 0;
+    let linksAdded = 0;
+
+    const links = pdfModifierService.getLinkAnnotations(doc);
+    for (const link of links) {
+      const current = link.contents.trim();
+      if (current && !isUrlLinkText(current) && !isGenericLinkText(current)) continue;
+
+      const visible = linkTextInRect(runsByPage.get(link.pageNumber) ?? [], link.rect) || current;
+      const contents = proposeLinkContents(visible, link);
+      if (!contents || contents === current) continue;
+
+      const result = await pdfModifierService.setLinkContents(doc, link.pageNumber, link.annotIndex, contents);
+      if (result.success) {
+        changes.push({ ...result, ruleId: contentsRuleId(link) });
+        descriptionsSet++;
+      }
+    }
+
+    for (const [pageNumber, runs] of runsByPage) {
+      const linkRects = links.filter((l) => l.pageNumber === pageNumber).map((l) => l.rect);
+      for (const bare of findBareUrls(runs, pageNumber, linkRects)) {
+        const contents = describeLinkTarget({ uri: bare.url }) ?? bare.url;
+        const result = await pdfModifierService.addLinkAnnotation(doc, pageNumber, bare.rect, bare.url, contents);
+        if (result.success) {
+          changes.push({ ...result, ruleId: LINK_REMEDIATION_RULES.bareUrl });
+          linksAdded++;
+        }
+      }
+    }
+
+    const structure = await pdfModifierService.tagLinks(doc);
+    if (structure.success && (linksAdded > 0 || links.some((l) => !l.tagged))) {
+      changes.push({ ...structure, ruleId: LINK_REMEDIATION_RULES.structure });
+    }
+
+    logger.info(
+      `[PdfLinkRemediation] ${links.length} link(s): ${descriptionsSet} description(s) set, ${linksAdded} bare URL(s) linked`
+    );
+    return { changes, descriptionsSet, linksAdded, structure };
+  }
+
+  /**
+   * Record link changes as RemediationChange rows so they appear in the
+   * comparison report. Logging failures are not fatal.
+   */
+  async logChanges(
+    jobId: string,
+    fileName: string,
+    changes: LinkChange[],
+    appliedBy: string
+  ): Promise<number> {
+    return comparisonService.logChangesSafely(
+      changes.map((change) => ({
+        jobId,
+        ruleId: change.ruleId,
+        filePath: fileName,
+        changeType: mapFixTypeToChangeType(change.ruleId),
+        description: change.description,
+        beforeContent: change.before,
+        afterContent: change.after,
+        severity: extractSeverity(change.ruleId),
+        wcagCriteria: extractWcagCriteria(change.ruleId),
+        wcagLevel: extractWcagLevel(change.ruleId),
+        appliedBy,
+      })),
+      { jobId, source: 'PdfLinkRemediation' }
+    );
+  }
+
+  /** Text runs of every page, in PDF user space. */
+  private async extractTextRuns(pdfBuffer: Buffer): Promise<Map<number, TextRun[]>> {
+    const pdfjsDoc = await pdfjsLib.getDocument({ data: new Uint8Array(pdfBuffer), useSystemFonts: true }).promise;
+    const runsByPage = new Map<number, TextRun[]>();
+
+    try {
+      for (let pageNum = 1; pageNum <= pdfjsDoc.numPages; pageNum++) {
+        const page = await pdfjsDoc.getPage(pageNum);
+        const textContent = await page.getTextContent();
+        const items = (textContent.items as unknown as PdfjsTextItem[])
+          .filter((item) => typeof item.str === 'string' && Array.isArray(item.transform))
+          .map((item) => ({
+            text: item.str,
+            x: item.transform[4],
+            y: item.transform[5],
+            width: item.width,
+            height: Math.abs(item.transform[3]) || item.height,
+          }));
+        runsByPage.set(pageNum, groupTextRuns(items));
+      }
+    } finally {
+      await pdfjsDoc.destroy();
+    }
+
+    return runsByPage;
+  }
+}
+
+export const pdfLinkRemediationService = new PdfLinkRemediationService();
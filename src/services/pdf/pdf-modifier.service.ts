@@ -5,11 +5,12 @@
  * Handles metadata modifications, structure changes, and backup/rollback
  */
 
-import { PDFDocument, PDFName, PDFString, PDFBool, PDFDict, PDFArray, PDFRef, PDFNumber, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
+import { PDFDocument, PDFName, PDFString, PDFHexString, PDFBool, PDFDict, PDFArray, PDFRef, PDFNumber, PDFNull, PDFRawStream, decodePDFRawStream } from 'pdf-lib';
 import * as fs from 'fs/promises';
 import * as path from 'path';
 import { XMLParser, XMLBuilder } from 'fast-xml-parser';
 import { logger } from '../../lib/logger';
+import { pdfStructureWriterService } from './pdf-structure-writer.service';
 
 // Minimal valid XMP skeleton with pdfuaid and dc namespaces pre-declared
 const MINIMAL_XMP_TEMPLATE = `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
@@ -92,6 +93,35 @@ export interface XMPMetadata {
   marked?: boolean; // PDF/UA requirement
 }
 
+/**
+ * One bookmark in a document outline. `x` / `top` are in PDF user space
+ * (bottom-left origin) and become the /XYZ destination on `pageNumber`.
+ */
+export interface OutlineNode {
+  title: string;
+  /** 1-based page number */
+  pageNumber: number;
+  x: number;
+  top: number;
+  children: OutlineNode[];
+}
+
+/**
+ * A /Link annotation as found on a page. `rect` is in PDF user space;
+ * `annotIndex` is the annotation's position in the page's /Annots array.
+ */
+export interface LinkAnnotation {
+  /** 1-based page number */
+  pageNumber: number;
+  annotIndex: number;
+  rect: { x: number; y: number; width: number; height: number };
+  uri?: string;
+  /** 1-based target page of an internal (GoTo) link */
+  destPage?: number;
+  contents: string;
+  tagged: boolean;
+}
+
 /**
  * Validation result for PDF documents
  */
@@ -828,53 +858,11 @@ export class PdfModifierService {
     summary: string
   ): Promise<ModificationResult> {
     try {
-      const structTreeRoot = this.getStructTreeRoot(doc);
-      if (!structTreeRoot) {
-        return {
-          success: false,
-          description: 'No structure tree',
-          error: 'PDF has no tagged structure tree — table summary cannot be applied programmatically',
-        };
-      }
-
-      // Parse page and index from tableId (format: table_p{page}_{index})
-      const match = tableId.match(/table_p(\d+)_(\d+)/);
-      const targetPage = match ? parseInt(match[1], 10) : 1;
-      const targetIndex = match ? parseInt(match[2], 10) : 0;
-
-      const tables = this.findStructureElementsByType(
-        structTreeRoot,
-        new Set(['Table', 'table']),
-        doc.context
-      );
-
-      if (tables.length === 0) {
-        return {
-          success: false,
-          description: 'No Table elements in structure tree',
-          error: 'The PDF structure tree has no Table elements',
-        };
-      }
-
-      const pageRef = doc.getPage(targetPage - 1).ref;
-      const tablesOnPage = tables.filter(t => {
-        const pg = t.get(PDFName.of('Pg'));
-        return pg && pg.toString() === pageRef.toString();
-      });
-
-      const target: PDFDict | undefined =
-        tablesOnPage[targetIndex] ??
-        tablesOnPage[0] ??
-        tables[targetIndex] ??
-        tables[0];
-
-      if (!target) {
-        return {
-          success: false,
-          description: 'Table element not found',
-          error: `No Table element at page ${targetPage}, index ${targetIndex}`,
-        };
+      const found = this.findTableElement(doc, tableId);
+      if ('error' in found) {
+        return { success: false, description: found.description, error: found.error };
       }
+      const { table: target, pageNumber: targetPage, index: targetIndex } = found;
 
       const summaryEntry = target.get(PDFName.of('Summary'));
       const before = summaryEntry instanceof PDFString ? summaryEntry.decodeText() : 'None';
@@ -898,6 +886,63 @@ export class PdfModifierService {
     }
   }
 
+  /**
+   * Locate a /Table structure element by table id (format: table_p{page}_{index}).
+   * Falls back to the first table on the page, then to the index / first
+   * table in the document, as audit table ids come from content analysis
+   * and not from the structure tree.
+   */
+  findTableElement(
+    doc: PDFDocument,
+    tableId: string
+  ): { table: PDFDict; pageNumber: number; index: number } | { description: string; error: string } {
+    const structTreeRoot = this.getStructTreeRoot(doc);
+    if (!structTreeRoot) {
+      return {
+        description: 'No structure tree',
+        error: 'PDF has no tagged structure tree — table cannot be modified programmatically',
+      };
+    }
+
+    const match = tableId.match(/table_p(\d+)_(\d+)/);
+    const targetPage = match ? parseInt(match[1], 10) : 1;
+    const targetIndex = match ? parseInt(match[2], 10) : 0;
+
+    const tables = this.findStructureElementsByType(
+      structTreeRoot,
+      new Set(['Table', 'table']),
+      doc.context
+    );
+
+    if (tables.length === 0) {
+      return {
+        description: 'No Table elements in structure tree',
+        error: 'The PDF structure tree has no Table elements',
+      };
+    }
+
+    const pageRef = targetPage <= doc.getPageCount() ? doc.getPage(targetPage - 1).ref : undefined;
+    const tablesOnPage = tables.filter(t => {
+      const pg = t.get(PDFName.of('Pg'));
+      return pg && pageRef && pg.toString() === pageRef.toString();
+    });
+
+    const target: PDFDict | undefined =
+      tablesOnPage[targetIndex] ??
+      tablesOnPage[0] ??
+      tables[targetIndex] ??
+      tables[0];
+
+    if (!target) {
+      return {
+        description: 'Table element not found',
+        error: `No Table element at page ${targetPage}, index ${targetIndex}`,
+      };
+    }
+
+    return { table: target, pageNumber: targetPage, index: targetIndex };
+  }
+
   /**
    * Get the StructTreeRoot PDFDict, resolving indirect references.
    * Adobe AutoTag PDFs store StructTreeRoot as an indirect PDFRef in the catalog.
@@ -1063,6 +1108,526 @@ export class PdfModifierService {
     }
   }
 
+  /**
+   * Replace the document outline (/Outlines) with the given bookmark tree.
+   * Each item gets an explicit `[page /XYZ left top null]` destination so
+   * viewers jump to the heading itself, not just the top of its page.
+   * Top-level items are shown; deeper levels start collapsed. Also sets
+   * /PageMode /UseOutlines so the bookmarks panel opens with the file.
+   */
+  async addOutline(doc: PDFDocument, nodes: OutlineNode[]): Promise<ModificationResult> {
+    try {
+      if (nodes.length === 0) {
+        return {
+          success: false,
+          description: 'No bookmarks to write',
+          error: 'Outline is empty',
+        };
+      }
+
+      const before = this.countOutlineItems(doc);
+      const pages = doc.getPages();
+      const context = doc.context;
+      const outlinesRef = context.nextRef();
+
+      const writeLevel = (items: OutlineNode[], parentRef: PDFRef): { first: PDFRef; last: PDFRef } => {
+        const refs = items.map(() => context.nextRef());
+        items.forEach((item, i) => {
+          const page = pages[Math.min(Math.max(item.pageNumber, 1), pages.length) - 1];
+          const dict = context.obj({
+            Title: PDFHexString.fromText(item.title),
+            Parent: parentRef,
+            Dest: context.obj([page.ref, PDFName.of('XYZ'), item.x, item.top, PDFNull]),
+          });
+          if (i > 0) dict.set(PDFName.of('Prev'), refs[i - 1]);
+          if (i < refs.length - 1) dict.set(PDFName.of('Next'), refs[i + 1]);
+          if (item.children.length > 0) {
+            const { first, last } = writeLevel(item.children, refs[i]);
+            dict.set(PDFName.of('First'), first);
+            dict.set(PDFName.of('Last'), last);
+            // Negative count = closed, with this many children when opened
+            dict.set(PDFName.of('Count'), PDFNumber.of(-item.children.length));
+          }
+          context.assign(refs[i], dict);
+        });
+        return { first: refs[0], last: refs[refs.length - 1] };
+      };
+
+      const { first, last } = writeLevel(nodes, outlinesRef);
+      context.assign(outlinesRef, context.obj({
+        Type: PDFName.of('Outlines'),
+        First: first,
+        Last: last,
+        Count: nodes.length,
+      }));
+      doc.catalog.set(PDFName.of('Outlines'), outlinesRef);
+      doc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+
+      const after = this.countNodes(nodes);
+      logger.info(`[PdfModifier] Wrote outline with ${after} bookmark(s) (${nodes.length} top-level)`);
+      return {
+        success: true,
+        description: `Generated ${after} bookmark(s) from document headings`,
+        before: `${before} bookmark(s)`,
+        after: `${after} bookmark(s)`,
+      };
+    } catch (error) {
+      logger.error('[PdfModifier] Failed to write outline', { error });
+      return {
+        success: false,
+        description: 'Failed to write bookmarks',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      };
+    }
+  }
+
+  private countNodes(nodes: OutlineNode[]): number {
+    return nodes.reduce((count, node) => count + 1 + this.countNodes(node.children), 0);
+  }
+
+  /** Number of items in the existing /Outlines tree (0 when absent). */
+  private countOutlineItems(doc: PDFDocument): number {
+    const outlines = doc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+    const seen = new Set<PDFDict>();
+    const walk = (first: PDFDict | undefined): number => {
+      let count = 0;
+      let item = first;
+      while (item && !seen.has(item)) {
+        seen.add(item);
+        count += 1 + walk(item.lookupMaybe(PDFName.of('First'), PDFDict));
+        item = item.lookupMaybe(PDFName.of('Next'), PDFDict);
+      }
+      return count;
+    };
+    return walk(outlines?.lookupMaybe(PDFName.of('First'), PDFDict));
+  }
+
+  /**
+   * Set the tooltip (/TU) of an AcroForm field. The tooltip is the field's
+   * accessible name, so screen readers announce it instead of the raw
+   * field name.
+   *
+   * @param fieldName - Fully qualified field name (e.g. "applicant.name")
+   */
+  async setFieldTooltip(
+    doc: PDFDocument,
+    fieldName: string,
+    tooltip: string
+  ): Promise<ModificationResult> {
+    try {
+      if (!doc.catalog.getAcroForm()) {
+        return {
+          success: false,
+          description: 'No interactive form',
+          error: 'PDF has no AcroForm — there are no fields to label',
+        };
+      }
+
+      const field = doc.getForm().getFieldMaybe(fieldName);
+      if (!field) {
+        return {
+          success: false,
+          description: 'Form field not found',
+          error: `No form field named "${fieldName}"`,
+        };
+      }
+
+      const existing = field.acroField.dict.lookup(PDFName.of('TU'));
+      const before = existing instanceof PDFString || existing instanceof PDFHexString
+        ? existing.decodeText()
+        : 'None';
+      field.acroField.dict.set(PDFName.of('TU'), PDFHexString.fromText(tooltip));
+
+      logger.info(`[PdfModifier] Set tooltip on form field "${fieldName}"`);
+
+      return {
+        success: true,
+        description: `Set tooltip on form field "${fieldName}"`,
+        before,
+        after: tooltip,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        description: 'Failed to set form field tooltip',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Tag form widgets and make tab order follow the structure tree.
+   *
+   * Every Widget annotation not yet in the structure tree gets a /Form
+   * element whose /K is an OBJR to the widget, registered in the
+   * ParentTree via the widget's /StructParent (PDF/UA 7.18.4). New /Form
+   * elements are appended to the Document element, so they read after the
+   * page content. Every page carrying annotations gets /Tabs /S (7.18.3).
+   *
+   * @returns ModificationResult — success: false if PDF has no structure tree
+   */
+  async tagFormFields(doc: PDFDocument): Promise<ModificationResult> {
+    try {
+      const tagged = this.tagAnnotations(doc, 'Widget', 'Form');
+      if (!tagged) {
+        return {
+          success: false,
+          description: 'No structure tree',
+          error: 'PDF has no tagged structure tree — form fields cannot be tagged programmatically',
+        };
+      }
+
+      logger.info(`[PdfModifier] Tagged ${tagged.count} form widget(s); set /Tabs /S on ${tagged.tabsSet} page(s)`);
+
+      return {
+        success: true,
+        description: `Tagged ${tagged.count} form field widget(s) as /Form and set structure tab order on ${tagged.tabsSet} page(s)`,
+        before: `${tagged.count} untagged widget(s)`,
+        after: `${tagged.count} /Form element(s) added`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        description: 'Failed to tag form fields',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * List the /Link annotations of every page with their target and
+   * current /Contents. Internal targets are resolved to page numbers when
+   * the destination is an explicit page reference.
+   */
+  getLinkAnnotations(doc: PDFDocument): LinkAnnotation[] {
+    const pages = doc.getPages();
+    const pageNumberByRef = new Map(pages.map((page, i) => [page.ref.toString(), i + 1]));
+    const links: LinkAnnotation[] = [];
+
+    pages.forEach((page, pageIndex) => {
+      const annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+      for (let i = 0; annots && i < annots.size(); i++) {
+        const annot = annots.lookupMaybe(i, PDFDict);
+        if (!annot || annot.get(PDFName.of('Subtype')) !== PDFName.of('Link')) continue;
+
+        const rectArray = annot.lookupMaybe(PDFName.of('Rect'), PDFArray);
+        const [x0, y0, x1, y1] = [0, 1, 2, 3].map((n) => rectArray?.lookupMaybe(n, PDFNumber)?.asNumber() ?? 0);
+
+        const action = annot.lookupMaybe(PDFName.of('A'), PDFDict);
+        const uriValue = action?.get(PDFName.of('S')) === PDFName.of('URI') ? action.lookup(PDFName.of('URI')) : undefined;
+        const dest = action?.get(PDFName.of('S')) === PDFName.of('GoTo')
+          ? action.lookup(PDFName.of('D'))
+          : annot.lookup(PDFName.of('Dest'));
+        const destPageRef = dest instanceof PDFArray ? dest.get(0) : undefined;
+
+        const contents = annot.lookup(PDFName.of('Contents'));
+        links.push({
+          pageNumber: pageIndex + 1,
+          annotIndex: i,
+          rect: { x: Math.min(x0, x1), y: Math.min(y0, y1), width: Math.abs(x1 - x0), height: Math.abs(y1 - y0) },
+          uri: uriValue instanceof PDFString || uriValue instanceof PDFHexString ? uriValue.decodeText() : undefined,
+          destPage: destPageRef instanceof PDFRef ? pageNumberByRef.get(destPageRef.toString()) : undefined,
+          contents: contents instanceof PDFString || contents instanceof PDFHexString ? contents.decodeText() : '',
+          tagged: annot.get(PDFName.of('StructParent')) !== undefined,
+        });
+      }
+    });
+
+    return links;
+  }
+
+  /**
+   * Set the /Contents of a link annotation — its alternate description,
+   * announced by screen readers (PDF/UA 7.18.5).
+   *
+   * @param pageNumber - 1-based page number
+   * @param annotIndex - Position of the annotation in the page's /Annots
+   */
+  async setLinkContents(
+    doc: PDFDocument,
+    pageNumber: number,
+    annotIndex: number,
+    contents: string
+  ): Promise<ModificationResult> {
+    try {
+      const annot = this.getPageAnnotation(doc, pageNumber, annotIndex);
+      if (!annot || annot.get(PDFName.of('Subtype')) !== PDFName.of('Link')) {
+        return {
+          success: false,
+          description: 'Link annotation not found',
+          pageNumber,
+          error: `No link annotation at index ${annotIndex} on page ${pageNumber}`,
+        };
+      }
+
+      const existing = annot.lookup(PDFName.of('Contents'));
+      const before = existing instanceof PDFString || existing instanceof PDFHexString
+        ? existing.decodeText()
+        : 'None';
+      annot.set(PDFName.of('Contents'), PDFHexString.fromText(contents));
+
+      return {
+        success: true,
+        description: `Set link description on page ${pageNumber}`,
+        pageNumber,
+        before,
+        after: contents,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        description: 'Failed to set link description',
+        pageNumber,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Add an invisible URI link annotation over `rect`, e.g. over a URL that
+   * is printed in the text but not clickable.
+   *
+   * @param pageNumber - 1-based page number
+   * @param rect - Area in PDF user space
+   */
+  async addLinkAnnotation(
+    doc: PDFDocument,
+    pageNumber: number,
+    rect: { x: number; y: number; width: number; height: number },
+    uri: string,
+    contents: string
+  ): Promise<ModificationResult> {
+    try {
+      if (pageNumber < 1 || pageNumber > doc.getPageCount()) {
+        return {
+          success: false,
+          description: 'Page not found',
+          pageNumber,
+          error: `Page ${pageNumber} does not exist`,
+        };
+      }
+
+      const context = doc.context;
+      const page = doc.getPage(pageNumber - 1);
+      const annot = context.obj({
+        Type: PDFName.of('Annot'),
+        Subtype: PDFName.of('Link'),
+        Rect: [rect.x, rect.y, rect.x + rect.width, rect.y + rect.height],
+        Border: [0, 0, 0],
+        F: 4,
+        P: page.ref,
+        A: { Type: PDFName.of('Action'), S: PDFName.of('URI'), URI: PDFString.of(uri) },
+        Contents: PDFHexString.fromText(contents),
+      });
+      const annotRef = context.register(annot);
+
+      const annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+      if (annots) {
+        annots.push(annotRef);
+      } else {
+        page.node.set(PDFName.of('Annots'), context.obj([annotRef]));
+      }
+
+      return {
+        success: true,
+        description: `Made URL clickable on page ${pageNumber}`,
+        pageNumber,
+        before: `Plain text: ${uri}`,
+        after: `Link annotation → ${uri}`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        description: 'Failed to add link annotation',
+        pageNumber,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Tag link annotations and make tab order follow the structure tree.
+   *
+   * Every Link annotation not yet in the structure tree gets a /Link
+   * element with an OBJR to the annotation (PDF/UA 7.18.5), registered in
+   * the ParentTree the same way as tagFormFields.
+   *
+   * @returns ModificationResult — success: false if PDF has no structure tree
+   */
+  async tagLinks(doc: PDFDocument): Promise<ModificationResult> {
+    try {
+      const tagged = this.tagAnnotations(doc, 'Link', 'Link');
+      if (!tagged) {
+        return {
+          success: false,
+          description: 'No structure tree',
+          error: 'PDF has no tagged structure tree — links cannot be tagged programmatically',
+        };
+      }
+
+      logger.info(`[PdfModifier] Tagged ${tagged.count} link annotation(s); set /Tabs /S on ${tagged.tabsSet} page(s)`);
+
+      return {
+        success: true,
+        description: `Tagged ${tagged.count} link annotation(s) as /Link and set structure tab order on ${tagged.tabsSet} page(s)`,
+        before: `${tagged.count} untagged link annotation(s)`,
+        after: `${tagged.count} /Link element(s) added`,
+      };
+    } catch (error) {
+      return {
+        success: false,
+        description: 'Failed to tag links',
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  private getPageAnnotation(doc: PDFDocument, pageNumber: number, annotIndex: number): PDFDict | undefined {
+    if (pageNumber < 1 || pageNumber > doc.getPageCount()) return undefined;
+    const annots = doc.getPage(pageNumber - 1).node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+    if (!annots || annotIndex < 0 || annotIndex >= annots.size()) return undefined;
+    return annots.lookupMaybe(annotIndex, PDFDict);
+  }
+
+  /**
+   * Give every `subtype` annotation without a /StructParent its own
+   * `structType` element whose /K is an OBJR to the annotation, and add
+   * the pairs to the ParentTree. New elements are appended to the Document
+   * element, so they read after the page content. Every page carrying
+   * annotations gets /Tabs /S (PDF/UA 7.18.3).
+   *
+   * @returns null when the PDF has no structure tree
+   */
+  private tagAnnotations(
+    doc: PDFDocument,
+    subtype: 'Widget' | 'Link',
+    structType: 'Form' | 'Link'
+  ): { count: number; tabsSet: number } | null {
+    const rootRaw = doc.catalog.get(PDFName.of('StructTreeRoot'));
+    const root = this.getStructTreeRoot(doc);
+    if (!root || !(rootRaw instanceof PDFRef)) return null;
+
+    const context = doc.context;
+    const parentRef = this.findDocumentElementRef(doc, root) ?? rootRaw;
+    let nextKey = this.nextParentTreeKey(doc, root);
+    const entries: Array<[number, PDFRef]> = [];
+    let tabsSet = 0;
+
+    for (const page of doc.getPages()) {
+      const annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+      if (!annots || annots.size() === 0) continue;
+
+      if (page.node.get(PDFName.of('Tabs')) !== PDFName.of('S')) {
+        page.node.set(PDFName.of('Tabs'), PDFName.of('S'));
+        tabsSet++;
+      }
+
+      for (let i = 0; i < annots.size(); i++) {
+        const annotRef = annots.get(i);
+        if (!(annotRef instanceof PDFRef)) continue;
+        const annot = context.lookup(annotRef);
+        if (!(annot instanceof PDFDict)) continue;
+        if (annot.get(PDFName.of('Subtype')) !== PDFName.of(subtype)) continue;
+        if (annot.get(PDFName.of('StructParent')) !== undefined) continue;
+
+        const elemRef = pdfStructureWriterService.createElement(doc, structType, parentRef, page.ref);
+        const objr = context.obj({ Type: PDFName.of('OBJR'), Obj: annotRef, Pg: page.ref });
+        (context.lookup(elemRef) as PDFDict).set(PDFName.of('K'), context.register(objr));
+
+        const key = nextKey++;
+        annot.set(PDFName.of('StructParent'), PDFNumber.of(key));
+        entries.push([key, elemRef]);
+      }
+    }
+
+    if (entries.length > 0) {
+      this.addParentTreeEntries(doc, root, entries);
+      root.set(PDFName.of('ParentTreeNextKey'), PDFNumber.of(nextKey));
+    }
+
+    return { count: entries.length, tabsSet };
+  }
+
+  /** Ref of the top-level /Document element, when the tree has one. */
+  private findDocumentElementRef(doc: PDFDocument, root: PDFDict): PDFRef | null {
+    const k = root.get(PDFName.of('K'));
+    const kids = k instanceof PDFArray ? k.asArray() : k ? [k] : [];
+    for (const kid of kids) {
+      if (!(kid instanceof PDFRef)) continue;
+      const elem = doc.context.lookup(kid);
+      if (elem instanceof PDFDict && elem.get(PDFName.of('S')) === PDFName.of('Document')) return kid;
+    }
+    return null;
+  }
+
+  /**
+   * First unused ParentTree key. /ParentTreeNextKey is optional, so fall
+   * back to one past the highest key in use by the tree, page
+   * /StructParents or annotation /StructParent.
+   */
+  private nextParentTreeKey(doc: PDFDocument, root: PDFDict): number {
+    let max = -1;
+    const walk = (node: PDFDict | undefined, depth: number) => {
+      if (!node || depth > 32) return;
+      const nums = node.lookupMaybe(PDFName.of('Nums'), PDFArray);
+      for (let i = 0; nums && i < nums.size(); i += 2) {
+        const key = nums.lookup(i);
+        if (key instanceof PDFNumber) max = Math.max(max, key.asNumber());
+      }
+      const kids = node.lookupMaybe(PDFName.of('Kids'), PDFArray);
+      for (let i = 0; kids && i < kids.size(); i++) {
+        walk(kids.lookupMaybe(i, PDFDict), depth + 1);
+      }
+    };
+    walk(root.lookupMaybe(PDFName.of('ParentTree'), PDFDict), 0);
+
+    for (const page of doc.getPages()) {
+      const structParents = page.node.lookupMaybe(PDFName.of('StructParents'), PDFNumber);
+      if (structParents) max = Math.max(max, structParents.asNumber());
+      const annots = page.node.lookupMaybe(PDFName.of('Annots'), PDFArray);
+      for (let i = 0; annots && i < annots.size(); i++) {
+        const structParent = annots.lookupMaybe(i, PDFDict)?.lookupMaybe(PDFName.of('StructParent'), PDFNumber);
+        if (structParent) max = Math.max(max, structParent.asNumber());
+      }
+    }
+
+    const declared = root.lookupMaybe(PDFName.of('ParentTreeNextKey'), PDFNumber)?.asNumber() ?? 0;
+    return Math.max(declared, max + 1);
+  }
+
+  /**
+   * Add [key, elementRef] pairs to the ParentTree number tree. A flat tree
+   * gets the pairs appended to its /Nums; a tree with /Kids gets a new leaf
+   * (the keys are above every existing key, so the leaf sorts last).
+   */
+  private addParentTreeEntries(doc: PDFDocument, root: PDFDict, entries: Array<[number, PDFRef]>): void {
+    const context = doc.context;
+    const pairs = entries.flatMap(([key, ref]) => [PDFNumber.of(key), ref]);
+
+    let tree = root.lookupMaybe(PDFName.of('ParentTree'), PDFDict);
+    if (!tree) {
+      tree = context.obj({ Nums: [] });
+      root.set(PDFName.of('ParentTree'), context.register(tree));
+    }
+
+    const kids = tree.lookupMaybe(PDFName.of('Kids'), PDFArray);
+    if (kids && !tree.get(PDFName.of('Nums'))) {
+      const leaf = context.obj({
+        Limits: [entries[0][0], entries[entries.length - 1][0]],
+        Nums: pairs,
+      });
+      kids.push(context.register(leaf));
+      return;
+    }
+
+    const nums = tree.lookupMaybe(PDFName.of('Nums'), PDFArray);
+    if (nums) {
+      pairs.forEach((item) => nums.push(item));
+    } else {
+      tree.set(PDFName.of('Nums'), context.obj(pairs));
+    }
+  }
+
   /**
    * Extract the text content of the first H1 structure element.
    * Reads ActualText or Alt attribute; MCID content stream parsing is deferred.
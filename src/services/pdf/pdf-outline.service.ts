@@ -0,0 +1,315 @@
+/**
+ * PDF Outline Service
+ *
+ * Collects the headings a generated bookmark outline is built from:
+ * H1–H6 structure elements for tagged PDFs, or heading zones (H1–H6 /
+ * section-header) from zone extraction when the PDF is untagged or its
+ * tag tree has no headings. Headings are nested into an `OutlineNode`
+ * tree that `pdfModifierService.addOutline` writes as /Outlines.
+ * `generateOutline` is the single entry point for bookmark generation.
+ */
+
+import { PDFDocument, PDFName } from 'pdf-lib';
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import prisma from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { pdfModifierService, type ModificationResult, type OutlineNode } from './pdf-modifier.service';
+import { isGenericBookmarkTitle } from './validators/pdf-bookmark.validator';
+
+// Ensure pdfjs worker is configured (same pattern as pdf-parser.service.ts)
+const pdfjsWorkerPath = path.join(
+  process.cwd(),
+  'node_modules',
+  'pdfjs-dist',
+  'legacy',
+  'build',
+  'pdf.worker.mjs'
+);
+pdfjsLib.GlobalWorkerOptions.workerSrc = pathToFileURL(pdfjsWorkerPath).href;
+
+/** Longest bookmark title we write; longer heading text is truncated. */
+const MAX_TITLE_LENGTH = 200;
+
+/**
+ * A heading located on a page. `x` / `top` are PDF user-space coordinates
+ * (bottom-left origin) of the heading's top-left corner.
+ */
+export interface OutlineHeading {
+  level: number;
+  title: string;
+  pageNumber: number;
+  x: number;
+  top: number;
+}
+
+export interface CollectedHeadings {
+  source: 'structure' | 'zones' | 'none';
+  headings: OutlineHeading[];
+}
+
+interface PdfjsStructNode {
+  role: string;
+  children?: (PdfjsStructNode | PdfjsStructContent)[];
+  alt?: string;
+}
+
+interface PdfjsStructContent {
+  type: 'content' | 'object' | 'annotation';
+  id: string;
+}
+
+interface ContentText {
+  text: string;
+  x: number;
+  top: number;
+}
+
+/**
+ * Nest a flat, reading-ordered heading list into an outline tree. A heading
+ * becomes a child of the nearest preceding heading with a lower level, so
+ * skipped levels (H1 → H3) still nest under the H1. A generic heading
+ * ("Chapter 3") immediately followed by a deeper heading on the same page
+ * is merged with it ("Chapter 3: The Harbour") so the bookmark is
+ * descriptive.
+ */
+export function buildOutlineTree(headings: OutlineHeading[]): OutlineNode[] {
+  const roots: OutlineNode[] = [];
+  const stack: Array<{ level: number; node: OutlineNode }> = [];
+
+  for (let i = 0; i < headings.length; i++) {
+    const heading = headings[i];
+    let title = normalizeTitle(heading.title);
+    if (!title) continue;
+
+    const next = headings[i + 1];
+    if (
+      isGenericBookmarkTitle(title) &&
+      next &&
+      next.pageNumber === heading.pageNumber &&
+      next.level > heading.level &&
+      !isGenericBookmarkTitle(next.title)
+    ) {
+      title = `${title}: ${normalizeTitle(next.title)}`.slice(0, MAX_TITLE_LENGTH);
+      i++;
+    }
+
+    const node: OutlineNode = {
+      title,
+      pageNumber: heading.pageNumber,
+      x: heading.x,
+      top: heading.top,
+      children: [],
+    };
+    while (stack.length > 0 && stack[stack.length - 1].level >= heading.level) stack.pop();
+    if (stack.length === 0) roots.push(node);
+    else stack[stack.length - 1].node.children.push(node);
+    stack.push({ level: heading.level, node });
+  }
+
+  return roots;
+}
+
+function normalizeTitle(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().slice(0, MAX_TITLE_LENGTH);
+}
+
+class PdfOutlineService {
+  /**
+   * Replace the document outline with bookmarks built from its headings.
+   * Fails (without touching the document) when no headings are found.
+   */
+  async generateOutline(doc: PDFDocument, jobId?: string): Promise<ModificationResult> {
+    const { source, headings } = await this.collectHeadings(doc, jobId);
+    const outline = buildOutlineTree(headings);
+    if (outline.length === 0) {
+      return {
+        success: false,
+        description: 'No headings found to build bookmarks from',
+        error: 'Document has no H1–H6 structure elements or heading zones',
+      };
+    }
+
+    const result = await pdfModifierService.addOutline(doc, outline);
+    return result.success
+      ? { ...result, description: `${result.description} (source: ${source === 'zones' ? 'detected heading zones' : 'structure tree'})` }
+      : result;
+  }
+
+  /**
+   * Collect outline headings for a document. The structure tree wins when
+   * it has headings; otherwise heading zones for the job's file are used.
+   */
+  async collectHeadings(doc: PDFDocument, jobId?: string): Promise<CollectedHeadings> {
+    if (doc.catalog.get(PDFName.of('StructTreeRoot'))) {
+      const headings = await this.headingsFromStructTree(doc);
+      if (headings.length > 0) return { source: 'structure', headings };
+      logger.info('[PdfOutline] Structure tree has no headings; trying zones');
+    }
+
+    if (jobId) {
+      const headings = await this.headingsFromZones(doc, jobId);
+      if (headings.length > 0) return { source: 'zones', headings };
+    }
+
+    return { source: 'none', headings: [] };
+  }
+
+  /**
+   * Read H1–H6 elements through pdfjs so heading text comes from the
+   * marked content itself (pdf-lib alone cannot decode the glyphs).
+   */
+  private async headingsFromStructTree(doc: PDFDocument): Promise<OutlineHeading[]> {
+    const bytes = await doc.save({ useObjectStreams: false });
+    const pdfjsDoc = await pdfjsLib.getDocument({ data: new Uint8Array(bytes), useSystemFonts: true }).promise;
+    const headings: OutlineHeading[] = [];
+
+    try {
+      for (let pageNum = 1; pageNum <= pdfjsDoc.numPages; pageNum++) {
+        const page = await pdfjsDoc.getPage(pageNum);
+        const tree = (await page.getStructTree()) as unknown as PdfjsStructNode | null;
+        if (!tree?.children?.length) continue;
+
+        const contentText = await this.buildContentTextMap(page);
+        this.walkStructTree(tree, pageNum, contentText, headings);
+      }
+    } catch (error) {
+      logger.warn(`[PdfOutline] Structure-tree heading extraction failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      await pdfjsDoc.destroy();
+    }
+
+    logger.info(`[PdfOutline] Found ${headings.length} tagged heading(s)`);
+    return headings;
+  }
+
+  /** Content ID (e.g. "p12R_mc3") → concatenated text and top-left position. */
+  private async buildContentTextMap(page: pdfjsLib.PDFPageProxy): Promise<Map<string, ContentText>> {
+    const textContent = await page.getTextContent({ includeMarkedContent: true });
+    const map = new Map<string, ContentText>();
+    const idStack: string[] = [];
+
+    for (const item of textContent.items) {
+      if ('type' in item) {
+        const mc = item as unknown as { type: string; id?: string };
+        if (mc.type === 'beginMarkedContent' || mc.type === 'beginMarkedContentProps') {
+          idStack.push(mc.id || '');
+        } else if (mc.type === 'endMarkedContent') {
+          idStack.pop();
+        }
+        continue;
+      }
+
+      const textItem = item as { str: string; transform: number[]; height: number };
+      const activeId = [...idStack].reverse().find(Boolean);
+      if (!activeId || !textItem.transform) continue;
+
+      const x = textItem.transform[4];
+      const top = textItem.transform[5] + (Math.abs(textItem.transform[3]) || textItem.height);
+      const existing = map.get(activeId);
+      if (existing) {
+        existing.text += textItem.str;
+        existing.x = Math.min(existing.x, x);
+        existing.top = Math.max(existing.top, top);
+      } else {
+        map.set(activeId, { text: textItem.str, x, top });
+      }
+    }
+
+    return map;
+  }
+
+  private walkStructTree(
+    node: PdfjsStructNode,
+    pageNumber: number,
+    contentText: Map<string, ContentText>,
+    headings: OutlineHeading[]
+  ): void {
+    const match = /^H([1-6])?$/.exec(node.role ?? '');
+    if (match) {
+      const parts = this.collectContent(node, contentText);
+      const text = parts.map((p) => p.text).join(' ').trim() || node.alt?.trim() || '';
+      if (text) {
+        headings.push({
+          level: match[1] ? parseInt(match[1], 10) : 1,
+          title: text,
+          pageNumber,
+          x: parts.length > 0 ? Math.min(...parts.map((p) => p.x)) : 0,
+          top: parts.length > 0 ? Math.max(...parts.map((p) => p.top)) : 0,
+        });
+      }
+      return;
+    }
+
+    for (const child of node.children ?? []) {
+      if ('role' in child) this.walkStructTree(child, pageNumber, contentText, headings);
+    }
+  }
+
+  private collectContent(node: PdfjsStructNode, contentText: Map<string, ContentText>): ContentText[] {
+    const parts: ContentText[] = [];
+    for (const child of node.children ?? []) {
+      if ('role' in child) {
+        parts.push(...this.collectContent(child, contentText));
+      } else if (child.type === 'content') {
+        const text = contentText.get(child.id);
+        if (text) parts.push(text);
+      }
+    }
+    return parts;
+  }
+
+  /**
+   * Heading zones for the job's source file. Operator corrections win over
+   * the detector label, and rejected or artefact zones are ignored. Zone
+   * bounds are top-left-origin points, so `top` is flipped into PDF space.
+   */
+  private async headingsFromZones(doc: PDFDocument, jobId: string): Promise<OutlineHeading[]> {
+    const job = await prisma.job.findUnique({ where: { id: jobId }, select: { input: true } });
+    const fileId = (job?.input as { fileId?: unknown } | null)?.fileId;
+    if (typeof fileId !== 'string') return [];
+
+    const zones = await prisma.zone.findMany({
+      where: {
+        fileId,
+        isArtefact: false,
+        OR: [{ decision: null }, { decision: { not: 'REJECTED' } }],
+      },
+      select: { pageNumber: true, type: true, operatorLabel: true, bounds: true, content: true, readingOrder: true },
+      orderBy: [{ pageNumber: 'asc' }, { readingOrder: 'asc' }],
+    });
+
+    const pages = doc.getPages();
+    const headings: OutlineHeading[] = [];
+    for (const zone of zones) {
+      const level = zoneHeadingLevel(zone.operatorLabel ?? zone.type);
+      const title = zone.content?.trim();
+      if (!level || !title || zone.pageNumber < 1 || zone.pageNumber > pages.length) continue;
+
+      const bounds = zone.bounds as { x?: number; y?: number } | null;
+      const pageHeight = pages[zone.pageNumber - 1].getHeight();
+      headings.push({
+        level,
+        title,
+        pageNumber: zone.pageNumber,
+        x: typeof bounds?.x === 'number' ? bounds.x : 0,
+        top: typeof bounds?.y === 'number' ? pageHeight - bounds.y : pageHeight,
+      });
+    }
+
+    logger.info(`[PdfOutline] Found ${headings.length} heading zone(s) for file ${fileId}`);
+    return headings;
+  }
+}
+
+/** Heading level for a zone label: h1–h6 map directly, section headers and titles are level 1. */
+export function zoneHeadingLevel(label: string): number | null {
+  const lower = label.toLowerCase();
+  const match = /^h([1-6])$/.exec(lower);
+  if (match) return parseInt(match[1], 10);
+  if (lower === 'section-header' || lower === 'title') return 1;
+  return null;
+}
+
+export const pdfOutlineService = new PdfOutlineService();
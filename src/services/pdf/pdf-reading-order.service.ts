@@ -0,0 +1,328 @@
+/**
+ * PDF Reading-Order Service
+ *
+ * Backs the reading-order editor. The structure tree of a tagged PDF is
+ * listed as an ordered list of blocks per page, with the text of each
+ * block's marked content, and reorder / merge / split / retag edits are
+ * written through the structure writer.
+ *
+ * Every edit belongs to an open RemediationSession and is stored as a
+ * StructureEdit together with a snapshot of the PDF taken before it, so
+ * edits can be undone one at a time, newest first. Each edit also records
+ * the hash of the PDF it saved: once anything else rewrites the remediated
+ * PDF (link, form-field or table applies), undo is refused rather than
+ * discarding that work, and the snapshots that can no longer be restored
+ * are pruned.
+ */
+
+import { PDFDocument, PDFName } from 'pdf-lib';
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+import path from 'path';
+import { createHash, randomUUID } from 'crypto';
+import { pathToFileURL } from 'url';
+import type { StructureEdit as StructureEditRecord } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { AppError } from '../../utils/app-error';
+import { fileStorageService } from '../storage/file-storage.service';
+import { loadJobPdf } from '../storage/pdf-job-file';
+import type { StructureEdit } from '../../schemas/pdf-reading-order.schemas';
+import { pdfModifierService } from './pdf-modifier.service';
+import {
+  pdfStructureWriterService,
+  type StructureBlock,
+  type StructureEditResult,
+} from './pdf-structure-writer.service';
+
+// Ensure pdfjs worker is configured (same pattern as pdf-parser.service.ts)
+const pdfjsWorkerPath = path.join(
+  process.cwd(),
+  'node_modules',
+  'pdfjs-dist',
+  'legacy',
+  'build',
+  'pdf.worker.mjs'
+);
+pdfjsLib.GlobalWorkerOptions.workerSrc = pathToFileURL(pdfjsWorkerPath).href;
+
+/** Longest block text returned to the editor. */
+const MAX_ITEM_TEXT = 300;
+
+/** Undoable edits kept per job; older snapshots are pruned. */
+const MAX_UNDO_SNAPSHOTS = 20;
+
+function sha256(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+export interface ReadingOrderItem {
+  id: string;
+  type: string;
+  parentId: string | null;
+  /** MCIDs of the block on this page, in tree order */
+  mcids: number[];
+  text: string;
+  /** The block also has content on other pages */
+  spansPages: boolean;
+}
+
+export interface ReadingOrderPage {
+  pageNumber: number;
+  items: ReadingOrderItem[];
+}
+
+export interface ReadingOrder {
+  tagged: boolean;
+  pages: ReadingOrderPage[];
+  /** Blocks with neither a /Pg nor any marked content */
+  unplaced: ReadingOrderItem[];
+}
+
+/** Key of a marked-content sequence in the page text map. */
+function contentKey(pageNumber: number, mcid: number): string {
+  return `${pageNumber}:${mcid}`;
+}
+
+/**
+ * Group blocks by page, keeping structure tree order within each page.
+ * `textByContent` maps "{page}:{mcid}" to the text of that sequence.
+ */
+export function buildReadingOrder(blocks: StructureBlock[], textByContent: Map<string, string>): ReadingOrder {
+  const pages = new Map<number, ReadingOrderItem[]>();
+  const unplaced: ReadingOrderItem[] = [];
+
+  for (const block of blocks) {
+    const onPage = block.content.filter((c) => c.pageNumber === block.pageNumber);
+    const text = block.content
+      .map((c) => textByContent.get(contentKey(c.pageNumber, c.mcid)) ?? '')
+      .join('')
+      .replace(/\s+/g, ' ')
+      .trim();
+    const item: ReadingOrderItem = {
+      id: block.id,
+      type: block.type,
+      parentId: block.parentId,
+      mcids: onPage.map((c) => c.mcid),
+      text: text.length > MAX_ITEM_TEXT ? text.slice(0, MAX_ITEM_TEXT - 1) + '…' : text,
+      spansPages: block.content.some((c) => c.pageNumber !== block.pageNumber),
+    };
+
+    if (block.pageNumber === null) {
+      unplaced.push(item);
+    } else {
+      pages.set(block.pageNumber, [...(pages.get(block.pageNumber) ?? []), item]);
+    }
+  }
+
+  return {
+    tagged: blocks.length > 0,
+    pages: [...pages.keys()].sort((a, b) => a - b).map((pageNumber) => ({ pageNumber, items: pages.get(pageNumber)! })),
+    unplaced,
+  };
+}
+
+class PdfReadingOrderService {
+  /** The reading order of the job's current PDF (remediated, else original). */
+  async getReadingOrder(jobId: string, fileName: string): Promise<ReadingOrder> {
+    const pdfBuffer = await this.loadCurrentPdf(jobId, fileName);
+    const doc = await pdfModifierService.loadPDF(pdfBuffer);
+    const blocks = pdfStructureWriterService.listStructureBlocks(doc);
+    if (blocks.length === 0) return buildReadingOrder([], new Map());
+
+    return buildReadingOrder(blocks, await this.extractContentText(pdfBuffer));
+  }
+
+  /** Apply one edit to an in-memory document. */
+  applyToDocument(doc: PDFDocument, edit: StructureEdit): StructureEditResult {
+    switch (edit.operation) {
+      case 'reorder':
+        return pdfStructureWriterService.reorderBlocks(doc, edit.pageNumber, edit.order);
+      case 'merge':
+        return pdfStructureWriterService.mergeElements(doc, edit.ids);
+      case 'split':
+        return pdfStructureWriterService.splitElement(doc, edit.id, edit.at);
+      case 'retag':
+        return pdfStructureWriterService.retagElement(doc, edit.id, edit.type);
+    }
+  }
+
+  /**
+   * Apply an edit to the job's PDF within an open session: snapshot the
+   * current PDF, write the edit, save the result as the remediated file and
+   * record the edit. Returns the remediated file path.
+   */
+  async applyEdit(
+    jobId: string,
+    fileName: string,
+    sessionId: string,
+    operatorId: string,
+    edit: StructureEdit
+  ): Promise<{ edit: StructureEditRecord; result: StructureEditResult; savedPath: string }> {
+    await this.getOpenSession(jobId, sessionId);
+
+    const pdfBuffer = await this.loadCurrentPdf(jobId, fileName);
+    const doc = await pdfModifierService.loadPDF(pdfBuffer);
+    if (!doc.catalog.has(PDFName.of('StructTreeRoot'))) {
+      throw AppError.unprocessable('PDF has no structure tree to edit');
+    }
+
+    const result = this.applyToDocument(doc, edit);
+    if (!result.success) {
+      throw AppError.unprocessable(result.error ?? result.description);
+    }
+
+    await this.pruneSnapshots(jobId, sha256(pdfBuffer));
+
+    const snapshotFileName = `structure-edit-${randomUUID()}.pdf`;
+    await fileStorageService.saveFile(jobId, snapshotFileName, pdfBuffer);
+    const modifiedBuffer = await pdfModifierService.savePDF(doc);
+    const savedPath = await fileStorageService.saveRemediatedFile(jobId, fileName, modifiedBuffer);
+
+    const record = await prisma.structureEdit.create({
+      data: {
+        sessionId,
+        jobId,
+        operatorId,
+        operation: edit.operation,
+        payload: edit,
+        description: result.description,
+        snapshotFileName,
+        resultSha256: sha256(modifiedBuffer),
+      },
+    });
+
+    logger.info(`[PdfReadingOrder] Job ${jobId}: ${result.description} (session ${sessionId})`);
+    return { edit: record, result, savedPath };
+  }
+
+  /**
+   * Undo the newest edit of the session by restoring the PDF snapshot taken
+   * before it. Only the job's newest edit can be undone, so a later edit
+   * from another session is never lost, and only while the remediated PDF
+   * is still the one that edit saved, so later non-structure changes are
+   * never lost either.
+   */
+  async undoLastEdit(
+    jobId: string,
+    fileName: string,
+    sessionId: string
+  ): Promise<{ edit: StructureEditRecord; savedPath: string }> {
+    await this.getOpenSession(jobId, sessionId);
+
+    const latest = await prisma.structureEdit.findFirst({
+      where: { jobId, undoneAt: null },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (!latest || latest.sessionId !== sessionId) {
+      const ownEdit = await prisma.structureEdit.findFirst({ where: { sessionId, undoneAt: null } });
+      if (!ownEdit) throw AppError.notFound('No structure edit to undo in this session');
+      throw AppError.conflict('A later structure edit from another session must be undone first');
+    }
+
+    const current = await this.loadCurrentPdf(jobId, fileName);
+    if (!latest.snapshotFileName || !latest.resultSha256 || sha256(current) !== latest.resultSha256) {
+      throw AppError.conflict('The PDF has changed since this structure edit, so it can no longer be undone');
+    }
+
+    const snapshot = await fileStorageService.getFile(jobId, latest.snapshotFileName);
+    if (!snapshot) throw AppError.unprocessable('Snapshot of the PDF before this edit is missing');
+
+    const savedPath = await fileStorageService.saveRemediatedFile(jobId, fileName, snapshot);
+    const edit = await prisma.structureEdit.update({
+      where: { id: latest.id },
+      data: { undoneAt: new Date() },
+    });
+    await fileStorageService.deleteFile(jobId, latest.snapshotFileName);
+
+    logger.info(`[PdfReadingOrder] Job ${jobId}: undid "${latest.description}" (session ${sessionId})`);
+    return { edit, savedPath };
+  }
+
+  /** Edits of a session, newest first. */
+  async listEdits(jobId: string, sessionId: string): Promise<StructureEditRecord[]> {
+    return prisma.structureEdit.findMany({
+      where: { jobId, sessionId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Delete the snapshots of edits that can no longer be undone: all of them
+   * when the PDF about to be edited is not the one the newest edit saved,
+   * otherwise all but the newest MAX_UNDO_SNAPSHOTS - 1 (the edit being
+   * applied takes the last slot).
+   */
+  private async pruneSnapshots(jobId: string, currentSha256: string): Promise<void> {
+    const undoable = await prisma.structureEdit.findMany({
+      where: { jobId, undoneAt: null, snapshotFileName: { not: null } },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true, snapshotFileName: true, resultSha256: true },
+    });
+    if (undoable.length === 0) return;
+
+    const keep = undoable[0].resultSha256 === currentSha256 ? MAX_UNDO_SNAPSHOTS - 1 : 0;
+    const stale = undoable.slice(keep);
+    if (stale.length === 0) return;
+
+    for (const edit of stale) {
+      await fileStorageService.deleteFile(jobId, edit.snapshotFileName!);
+    }
+    await prisma.structureEdit.updateMany({
+      where: { id: { in: stale.map(e => e.id) } },
+      data: { snapshotFileName: null },
+    });
+    logger.info(`[PdfReadingOrder] Job ${jobId}: pruned ${stale.length} structure edit snapshot(s)`);
+  }
+
+  private async getOpenSession(jobId: string, sessionId: string) {
+    const session = await prisma.remediationSession.findUnique({ where: { id: sessionId } });
+    if (!session || session.jobId !== jobId) throw AppError.notFound('Remediation session not found');
+    if (session.endedAt) throw AppError.conflict('Remediation session has ended');
+    return session;
+  }
+
+  private async loadCurrentPdf(jobId: string, fileName: string): Promise<Buffer> {
+    const pdfBuffer = await loadJobPdf(jobId, fileName);
+    if (!pdfBuffer) throw AppError.notFound('PDF file not found in storage');
+    return pdfBuffer;
+  }
+
+  /** "{page}:{mcid}" → text of the marked-content sequence, read with pdfjs. */
+  private async extractContentText(pdfBuffer: Buffer): Promise<Map<string, string>> {
+    const map = new Map<string, string>();
+    const pdfjsDoc = await pdfjsLib.getDocument({ data: new Uint8Array(pdfBuffer), useSystemFonts: true }).promise;
+
+    try {
+      for (let pageNum = 1; pageNum <= pdfjsDoc.numPages; pageNum++) {
+        const page = await pdfjsDoc.getPage(pageNum);
+        const textContent = await page.getTextContent({ includeMarkedContent: true });
+        const idStack: string[] = [];
+
+        for (const item of textContent.items) {
+          if ('type' in item) {
+            const mc = item as unknown as { type: string; id?: string };
+            if (mc.type === 'beginMarkedContent' || mc.type === 'beginMarkedContentProps') {
+              idStack.push(mc.id || '');
+            } else if (mc.type === 'endMarkedContent') {
+              idStack.pop();
+            }
+            continue;
+          }
+
+          // pdfjs content ids look like "p12R_mc3"
+          const activeId = [...idStack].reverse().find(Boolean);
+          const mcid = activeId ? /_mc(\d+)$/.exec(activeId)?.[1] : undefined;
+          if (mcid === undefined) continue;
+          const key = contentKey(pageNum, Number(mcid));
+          map.set(key, (map.get(key) ?? '') + (item as { str: string }).str);
+        }
+      }
+    } finally {
+      await pdfjsDoc.destroy();
+    }
+
+    return map;
+  }
+}
+
+export const pdfReadingOrderService = new PdfReadingOrderService();
@@ -10,6 +10,7 @@ import prisma from '../../lib/prisma';
 import { pdfAuditService } from './pdf-audit.service';
 import { fileStorageService } from '../storage/file-storage.service';
 import { AuditIssue, AuditReport } from '../audit/base-audit.service';
+import type { ScanLevel, ValidatorType } from '../../types/scan-level.types';
 import {
   ReauditComparisonResult,
   IssueComparison,
@@ -63,7 +64,11 @@ class PdfReauditService {
       }
 
       // Extract original audit report from job output
-      const originalOutput = originalJob.output as { auditReport?: AuditReport } | null;
+      const originalOutput = originalJob.output as {
+        auditReport?: AuditReport;
+        scanLevel?: ScanLevel;
+        customValidators?: ValidatorType[];
+      } | null;
       if (!originalOutput?.auditReport) {
         const error = `No audit report found in job ${jobId}`;
         logger.error(`[PdfReaudit] ${error}`);
@@ -86,14 +91,25 @@ class PdfReauditService {
       const originalIssues = originalOutput.auditReport.issues;
       logger.info(`[PdfReaudit] Original audit had ${originalIssues.length} issues`);
 
-      // Step 2: Run fresh audit on remediated PDF
-      logger.info(`[PdfReaudit] Running fresh audit on remediated PDF...`);
+      // Step 2: Run fresh audit on remediated PDF with the original scan
+      // level (and, for custom scans, the original validators). A narrower
+      // scan would skip validators (e.g. bookmarks only run at
+      // 'comprehensive') and report their issues as resolved without
+      // checking them. A custom scan recorded without its validators is
+      // re-run as 'comprehensive' for the same reason.
+      const recordedLevel = originalOutput.scanLevel;
+      let scanLevel: ScanLevel = recordedLevel === 'comprehensive' || recordedLevel === 'custom' ? recordedLevel : 'basic';
+      const customValidators = scanLevel === 'custom' ? originalOutput.customValidators : undefined;
+      if (scanLevel === 'custom' && !customValidators?.length) scanLevel = 'comprehensive';
+      logger.info(`[PdfReaudit] Running fresh ${scanLevel} audit on remediated PDF...`);
       let reauditReport;
       try {
         reauditReport = await pdfAuditService.runAuditFromBuffer(
           remediatedPdfBuffer,
           `${jobId}-reaudit`,
-          fileName
+          fileName,
+          scanLevel,
+          customValidators
         );
       } catch (auditError) {
         logger.error(`[PdfReaudit] Audit execution failed:`, auditError);
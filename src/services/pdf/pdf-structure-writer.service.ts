@@ -9,7 +9,10 @@
  *   - renameElement: changes only /S — existing MCID bindings unaffected
  *   - rewrapListItems: creates a new L container; LI children (with MCIDs) are reparented
  *   - fixSimpleTableHeaders: renames TD → TH; MCID bindings on cell content unaffected
- *   - generateBookmarksFromHeadings: adds a new /Outlines entry; no MCID interaction
+ *   - rewriteTableStructure: retags cells and rewrites their Table attributes only
+ *   - reorderBlocks: permutes element refs between K-array slots; MCIDs stay with their elements
+ *   - mergeElements / splitElement: move K children between elements and repoint
+ *     their ParentTree entries, so every MCID still maps to the element that owns it
  *
  * PAC 2024 validation checkpoint:
  *   After implementing createElement / renameElement / reparentElement, validate
@@ -29,6 +32,7 @@ import {
 } from 'pdf-lib';
 import { AuditIssue } from '../audit/base-audit.service';
 import { logger } from '../../lib/logger';
+import type { ResolvedTableCell } from './pdf-table-structure.service';
 
 // ─── Public Types ─────────────────────────────────────────────────────────────
 
@@ -40,6 +44,46 @@ export interface FixResult {
   error?: string;
 }
 
+/** A marked-content sequence owned by a structure element. */
+export interface MarkedContentRef {
+  pageNumber: number;
+  mcid: number;
+}
+
+/**
+ * A reading-order block: an element directly under the root or under a
+ * grouping element. Ids are "{objectNumber}-{generation}" of the element.
+ */
+export interface StructureBlock {
+  id: string;
+  type: string;
+  /** null for blocks directly under /StructTreeRoot */
+  parentId: string | null;
+  /** /Pg of the element (or an ancestor), else the page of its first content */
+  pageNumber: number | null;
+  content: MarkedContentRef[];
+}
+
+export interface StructureEditResult {
+  success: boolean;
+  description: string;
+  error?: string;
+  /** Id of the element a split created */
+  createdId?: string;
+}
+
+/** Grouping elements: their children are listed as blocks instead of them. */
+const GROUPING_TYPES = new Set(['Document', 'Part', 'Art', 'Sect', 'Div', 'NonStruct']);
+
+export function structureElementId(ref: PDFRef): string {
+  return `${ref.objectNumber}-${ref.generationNumber}`;
+}
+
+export function parseStructureElementId(id: string): PDFRef | null {
+  const match = /^(\d+)-(\d+)$/.exec(id);
+  return match ? PDFRef.of(Number(match[1]), Number(match[2])) : null;
+}
+
 // ─── Service ─────────────────────────────────────────────────────────────────
 
 export class PdfStructureWriterService {
@@ -269,52 +313,59 @@ export class PdfStructureWriterService {
     elementRef: PDFRef,
     scope: 'Column' | 'Row' | 'Both',
   ): void {
+    this.getTableAttributes(doc, elementRef)?.set(PDFName.of('Scope'), PDFName.of(scope));
+  }
+
+  /**
+   * Find or create the Table-owner attribute object in the element's /A,
+   * keeping attribute objects of other owners. Returns null if the ref
+   * does not resolve to an element.
+   */
+  private getTableAttributes(doc: PDFDocument, elementRef: PDFRef): PDFDict | null {
     const elem = doc.context.lookup(elementRef);
-    if (!(elem instanceof PDFDict)) return;
+    if (!(elem instanceof PDFDict)) return null;
 
+    const isTableAttr = (obj: PDFObject | undefined): obj is PDFDict =>
+      obj instanceof PDFDict && obj.get(PDFName.of('O'))?.toString() === '/Table';
     const aRaw = elem.get(PDFName.of('A'));
 
     if (!aRaw) {
       // No /A yet — create a new Table attribute dict and wrap in array
-      const attrRef = this.makeTableAttrDict(doc, scope);
+      const attrRef = this.makeTableAttrDict(doc);
       elem.set(PDFName.of('A'), doc.context.obj([attrRef]));
-      return;
+      return doc.context.lookup(attrRef, PDFDict);
     }
 
-    // /A exists — find or replace the Table-owner dict
+    // /A exists — find the Table-owner dict or append one
     if (aRaw instanceof PDFArray) {
-      let replaced = false;
       for (const item of aRaw.asArray()) {
         const obj = item instanceof PDFRef ? doc.context.lookup(item) : item;
-        if (obj instanceof PDFDict && obj.get(PDFName.of('O'))?.toString() === '/Table') {
-          obj.set(PDFName.of('Scope'), PDFName.of(scope));
-          replaced = true;
-          break;
-        }
+        if (isTableAttr(obj)) return obj;
       }
-      if (!replaced) {
-        aRaw.push(this.makeTableAttrDict(doc, scope));
-      }
-      return;
+      const attrRef = this.makeTableAttrDict(doc);
+      aRaw.push(attrRef);
+      return doc.context.lookup(attrRef, PDFDict);
     }
 
     if (aRaw instanceof PDFRef) {
       const aObj = doc.context.lookup(aRaw);
-      if (aObj instanceof PDFDict && aObj.get(PDFName.of('O'))?.toString() === '/Table') {
-        aObj.set(PDFName.of('Scope'), PDFName.of(scope));
-        return;
-      }
+      if (isTableAttr(aObj)) return aObj;
       // Existing /A ref is a different owner — wrap with the Table attr
-      elem.set(PDFName.of('A'), doc.context.obj([aRaw, this.makeTableAttrDict(doc, scope)]));
-      return;
+      const attrRef = this.makeTableAttrDict(doc);
+      elem.set(PDFName.of('A'), doc.context.obj([aRaw, attrRef]));
+      return doc.context.lookup(attrRef, PDFDict);
     }
 
+    if (isTableAttr(aRaw)) return aRaw;
+
     // Fallback: replace /A with a new array
-    elem.set(PDFName.of('A'), doc.context.obj([this.makeTableAttrDict(doc, scope)]));
+    const attrRef = this.makeTableAttrDict(doc);
+    elem.set(PDFName.of('A'), doc.context.obj([attrRef]));
+    return doc.context.lookup(attrRef, PDFDict);
   }
 
-  private makeTableAttrDict(doc: PDFDocument, scope: 'Column' | 'Row' | 'Both'): PDFRef {
-    const dict = doc.context.obj({ O: PDFName.of('Table'), Scope: PDFName.of(scope) });
+  private makeTableAttrDict(doc: PDFDocument): PDFRef {
+    const dict = doc.context.obj({ O: PDFName.of('Table') });
     return doc.context.register(dict as PDFDict);
   }
 
@@ -623,154 +674,478 @@ export class PdfStructureWriterService {
     return results;
   }
 
+  /**
+   * Rewrite the cells of a /Table element from a resolved table grid.
+   *
+   * Rows are the table's TR elements in order (direct children or inside
+   * THead / TBody / TFoot); cells are each TR's TH / TD children. The grid
+   * must have the same shape — cells are retagged, never added or removed,
+   * so MCID bindings on cell content are unaffected. Each cell gets:
+   *   - /S TH or TD
+   *   - Table attributes /Scope (TH only), /RowSpan, /ColSpan, /Headers
+   *   - /ID when the grid assigns one (referenced by /Headers)
+   */
+  rewriteTableStructure(
+    doc: PDFDocument,
+    table: PDFDict,
+    rows: ResolvedTableCell[][],
+    issueId: string,
+  ): FixResult {
+    const trs: PDFDict[] = [];
+    for (const child of this.childElements(doc, table)) {
+      const tag = child.dict.get(PDFName.of('S'))?.toString().replace(/^\//, '');
+      if (tag === 'TR') {
+        trs.push(child.dict);
+      } else if (tag === 'THead' || tag === 'TBody' || tag === 'TFoot') {
+        trs.push(...this.findAllChildren(doc, child.dict, 'TR').map(tr => tr.dict));
+      }
+    }
+
+    const cellRows = trs.map(tr => this.childElements(doc, tr).filter(c => {
+      const tag = c.dict.get(PDFName.of('S'))?.toString().replace(/^\//, '');
+      return tag === 'TH' || tag === 'TD';
+    }));
+    const thBefore = cellRows.flat().filter(c => c.dict.get(PDFName.of('S')) === PDFName.of('TH')).length;
+    const before = `${thBefore} TH cell(s)`;
+
+    const tableShape = cellRows.map(r => r.length);
+    const gridShape = rows.map(r => r.length);
+    if (tableShape.length !== gridShape.length || tableShape.some((n, i) => n !== gridShape[i])) {
+      return {
+        issueId, success: false, before, after: 'unchanged',
+        error: `Grid has ${gridShape.length} row(s) [${gridShape.join(', ')}] cells but the tagged table has ` +
+          `${tableShape.length} row(s) [${tableShape.join(', ')}]`,
+      };
+    }
+
+    let headerCells = 0;
+    rows.forEach((row, r) => row.forEach((cell, c) => {
+      const { dict, ref } = cellRows[r][c];
+      dict.set(PDFName.of('S'), PDFName.of(cell.type));
+      if (cell.id) dict.set(PDFName.of('ID'), PDFString.of(cell.id));
+
+      const attrs = this.getTableAttributes(doc, ref);
+      if (!attrs) return;
+      const setOrDelete = (key: string, value: PDFObject | undefined) =>
+        value ? attrs.set(PDFName.of(key), value) : attrs.delete(PDFName.of(key));
+
+      setOrDelete('Scope', cell.type === 'TH' && cell.scope ? PDFName.of(cell.scope) : undefined);
+      setOrDelete('RowSpan', cell.rowSpan > 1 ? PDFNumber.of(cell.rowSpan) : undefined);
+      setOrDelete('ColSpan', cell.colSpan > 1 ? PDFNumber.of(cell.colSpan) : undefined);
+      setOrDelete(
+        'Headers',
+        cell.headers.length > 0 ? doc.context.obj(cell.headers.map(h => PDFString.of(h))) : undefined,
+      );
+      if (cell.type === 'TH') headerCells++;
+    }));
+
+    const withHeaders = rows.flat().filter(c => c.headers.length > 0).length;
+    logger.info(`[StructureWriter] Rewrote table: ${headerCells} TH, ${withHeaders} cell(s) with /Headers`);
+
+    return {
+      issueId,
+      success: true,
+      before,
+      after: `${headerCells} TH cell(s) with scope` + (withHeaders > 0 ? `, /Headers on ${withHeaders} cell(s)` : ''),
+    };
+  }
+
+  /** Direct child elements of a structure element that are referenced indirectly. */
+  private childElements(doc: PDFDocument, parent: PDFDict): Array<{ dict: PDFDict; ref: PDFRef }> {
+    const k = parent.get(PDFName.of('K'));
+    const items = k instanceof PDFArray ? k.asArray() : k ? [k] : [];
+    const children: Array<{ dict: PDFDict; ref: PDFRef }> = [];
+    for (const item of items) {
+      if (!(item instanceof PDFRef)) continue;
+      const obj = doc.context.lookup(item);
+      if (obj instanceof PDFDict) children.push({ dict: obj, ref: item });
+    }
+    return children;
+  }
+
   // ══════════════════════════════════════════════════════════════════════════
-  // SECTION 8 — Composite: Bookmark Generation
+  // SECTION 8 — Reading-Order Editing
   // ══════════════════════════════════════════════════════════════════════════
 
   /**
-   * Build a PDF /Outlines (bookmark) tree from H1–H6 structure elements.
-   *
-   * Text extraction priority:
-   *   1. /ActualText or /Alt attribute on the heading element
-   *   2. Recursive walk of child elements for /ActualText
-   *   3. Fallback placeholder: "Section N — p.X"
-   *
-   * /Dest format (per PDF spec): [pageRef /XYZ null null null]
-   * Uses null null null to preserve the viewer's current zoom level.
-   *
-   * Sets /PageMode: /UseOutlines on the catalog so bookmarks open automatically.
+   * The structure tree as an ordered list of blocks: the elements directly
+   * under the root or under a grouping element (Document, Part, Art, Sect,
+   * Div, NonStruct), in structure tree order — which is the reading order
+   * assistive technology follows. Each block lists the marked content it
+   * and its descendants own.
    */
-  generateBookmarksFromHeadings(doc: PDFDocument): { generated: number } {
-    const structRoot = this.getStructTreeRoot(doc);
-    if (!structRoot) return { generated: 0 };
+  listStructureBlocks(doc: PDFDocument): StructureBlock[] {
+    const root = this.getStructTreeRoot(doc);
+    if (!root) return [];
+
+    const pageNumbers = new Map<number, number>();
+    doc.getPages().forEach((p, idx) => pageNumbers.set(p.ref.objectNumber, idx + 1));
+    const blocks: StructureBlock[] = [];
+
+    const walk = (container: PDFDict, containerRef: PDFRef | null, depth: number) => {
+      if (depth > 32) return;
+      for (const child of this.childElements(doc, container)) {
+        const type = this.tagOf(child.dict);
+        if (!type) continue;
+        if (GROUPING_TYPES.has(type)) {
+          walk(child.dict, child.ref, depth + 1);
+          continue;
+        }
 
-    const pages = doc.getPages();
-    if (pages.length === 0) return { generated: 0 };
+        const pageRef = this.effectivePageRef(doc, child.dict);
+        const content: MarkedContentRef[] = [];
+        this.collectMarkedContent(doc, child.dict, pageRef, pageNumbers, content, 0);
+        blocks.push({
+          id: structureElementId(child.ref),
+          type,
+          parentId: containerRef ? structureElementId(containerRef) : null,
+          pageNumber: (pageRef && pageNumbers.get(pageRef.objectNumber)) ?? content[0]?.pageNumber ?? null,
+          content,
+        });
+      }
+    };
+    walk(root, null, 0);
 
-    // Build pageRef → index lookup
-    const pageRefToIndex = new Map<number, number>();
-    pages.forEach((p, idx) => pageRefToIndex.set(p.ref.objectNumber, idx));
+    return blocks;
+  }
 
-    // Collect headings in document order
-    const headings: Array<{
-      level: number;
-      title: string;
-      pageIndex: number;
-      fallback: boolean;
-    }> = [];
+  /**
+   * Put the blocks of a page in a new order. `order` must list every block
+   * of the page exactly once; the blocks are permuted over the K-array
+   * slots they already occupy, so blocks of other pages keep their place.
+   */
+  reorderBlocks(doc: PDFDocument, pageNumber: number, order: string[]): StructureEditResult {
+    const blocks = this.listStructureBlocks(doc).filter(b => b.pageNumber === pageNumber);
+    if (blocks.length === 0) {
+      return { success: false, description: 'Reorder failed', error: `Page ${pageNumber} has no structure blocks` };
+    }
 
-    this.traverseStructTree(doc, structRoot, (node, ref) => {
-      if (!ref) return;
-      const sTag = node.get(PDFName.of('S'))?.toString().replace(/^\//, '');
-      if (!sTag) return;
-      const m = /^H(\d)$/.exec(sTag);
-      if (!m) return;
+    const current = blocks.map(b => b.id);
+    if (order.length !== current.length || new Set(order).size !== order.length || order.some(id => !current.includes(id))) {
+      return {
+        success: false,
+        description: 'Reorder failed',
+        error: `Order must list each of the ${current.length} block(s) on page ${pageNumber} exactly once`,
+      };
+    }
+    if (order.every((id, i) => id === current[i])) {
+      return { success: true, description: `Reading order of page ${pageNumber} unchanged` };
+    }
 
-      const level = parseInt(m[1], 10);
-      let pageIndex = 0;
-      const pgRaw = node.get(PDFName.of('Pg'));
-      if (pgRaw instanceof PDFRef) {
-        pageIndex = pageRefToIndex.get(pgRaw.objectNumber) ?? 0;
+    const rootRef = doc.catalog.get(PDFName.of('StructTreeRoot'));
+    const slots: Array<{ parentRef: PDFRef; kids: PDFArray; index: number }> = [];
+    for (const block of blocks) {
+      const parentRef = block.parentId ? parseStructureElementId(block.parentId) : rootRef;
+      const parent = parentRef instanceof PDFRef ? doc.context.lookup(parentRef) : undefined;
+      if (!(parentRef instanceof PDFRef) || !(parent instanceof PDFDict)) {
+        return { success: false, description: 'Reorder failed', error: `Parent of block ${block.id} is not an indirect object` };
       }
+      const kids = this.kidsArray(doc, parent);
+      const index = kids.asArray().findIndex(k => k instanceof PDFRef && structureElementId(k) === block.id);
+      if (index === -1) {
+        return { success: false, description: 'Reorder failed', error: `Block ${block.id} is not listed in its parent's /K` };
+      }
+      slots.push({ parentRef, kids, index });
+    }
 
-      const extracted = this.extractTextFromStructElem(doc, node);
-      const title = extracted
-        ? extracted.slice(0, 200)
-        : `Section — p.${pageIndex + 1}`;
-
-      headings.push({ level, title, pageIndex, fallback: !extracted });
+    order.forEach((id, i) => {
+      const { parentRef, kids, index } = slots[i];
+      const ref = parseStructureElementId(id)!;
+      kids.set(index, ref);
+      const elem = doc.context.lookup(ref);
+      if (elem instanceof PDFDict) elem.set(PDFName.of('P'), parentRef);
     });
 
-    if (headings.length === 0) {
-      logger.info('[StructureWriter] generateBookmarksFromHeadings: no headings found');
-      return { generated: 0 };
+    const moved = order.filter((id, i) => id !== current[i]).length;
+    logger.info(`[StructureWriter] Reordered page ${pageNumber}: ${moved} of ${order.length} block(s) moved`);
+    return { success: true, description: `Reordered ${moved} of ${order.length} block(s) on page ${pageNumber}` };
+  }
+
+  /**
+   * Merge elements into the first one: the children (marked content,
+   * annotations and child elements) of the others are appended to it in
+   * the given order and the emptied elements are removed. The ParentTree
+   * is updated so every moved MCID maps to the merged element.
+   */
+  mergeElements(doc: PDFDocument, ids: string[]): StructureEditResult {
+    if (new Set(ids).size !== ids.length) {
+      return { success: false, description: 'Merge failed', error: 'An element is listed more than once' };
+    }
+    const elements: Array<{ dict: PDFDict; ref: PDFRef }> = [];
+    for (const id of ids) {
+      const element = this.resolveElement(doc, id);
+      if (!element) return { success: false, description: 'Merge failed', error: `Unknown structure element ${id}` };
+      elements.push(element);
+    }
+    for (const a of elements) {
+      for (const b of elements) {
+        if (a !== b && this.isAncestor(doc, a.ref, b.dict)) {
+          return {
+            success: false,
+            description: 'Merge failed',
+            error: `${structureElementId(a.ref)} contains ${structureElementId(b.ref)}; only sibling or unrelated elements can be merged`,
+          };
+        }
+      }
     }
 
-    const fallbackCount = headings.filter(h => h.fallback).length;
-    if (fallbackCount > 0) {
-      logger.info(`[StructureWriter] Bookmark generation: ${fallbackCount}/${headings.length} headings used placeholder titles`);
+    const [target, ...sources] = elements;
+    let movedKids = 0;
+    for (const source of sources) {
+      movedKids += this.moveKids(doc, source, target, 0);
+      this.deleteElement(doc, source.ref);
     }
 
-    const outlineRef = this.buildOutlineTree(doc, headings, pages);
-    if (!outlineRef) return { generated: 0 };
+    logger.info(`[StructureWriter] Merged ${sources.length} element(s) into ${ids[0]} (${movedKids} child item(s))`);
+    return {
+      success: true,
+      description: `Merged ${sources.length} element(s) into ${this.tagOf(target.dict)} ${ids[0]}`,
+    };
+  }
 
-    doc.catalog.set(PDFName.of('Outlines'), outlineRef);
-    doc.catalog.set(PDFName.of('PageMode'), PDFName.of('UseOutlines'));
+  /**
+   * Split an element before its child at index `at`: a new element of the
+   * same type is inserted right after it and takes over the children from
+   * `at` onwards, with their ParentTree entries.
+   */
+  splitElement(doc: PDFDocument, id: string, at: number): StructureEditResult {
+    const element = this.resolveElement(doc, id);
+    if (!element) return { success: false, description: 'Split failed', error: `Unknown structure element ${id}` };
+
+    const kidCount = this.kidsOf(element.dict).length;
+    if (at < 1 || at >= kidCount) {
+      return {
+        success: false,
+        description: 'Split failed',
+        error: kidCount < 2
+          ? `${id} has ${kidCount} child item(s) and cannot be split`
+          : `Split position must be between 1 and ${kidCount - 1}`,
+      };
+    }
+    const parentRef = element.dict.get(PDFName.of('P'));
+    const parent = parentRef instanceof PDFRef ? doc.context.lookup(parentRef) : undefined;
+    if (!(parentRef instanceof PDFRef) || !(parent instanceof PDFDict)) {
+      return { success: false, description: 'Split failed', error: `${id} has no indirect parent` };
+    }
+    const siblings = this.kidsArray(doc, parent);
+    const index = siblings.asArray().findIndex(k => k instanceof PDFRef && k.objectNumber === element.ref.objectNumber);
+    if (index === -1) {
+      return { success: false, description: 'Split failed', error: `${id} is not listed in its parent's /K` };
+    }
 
-    logger.info(`[StructureWriter] Generated ${headings.length} bookmark(s)`);
-    return { generated: headings.length };
+    const type = this.tagOf(element.dict);
+    const entries: Record<string, PDFObject> = {
+      Type: PDFName.of('StructElem'),
+      S: PDFName.of(type),
+      P: parentRef,
+    };
+    for (const key of ['Pg', 'Lang']) {
+      const value = element.dict.get(PDFName.of(key));
+      if (value) entries[key] = value;
+    }
+    const newRef = doc.context.register(doc.context.obj(entries) as PDFDict);
+    siblings.insert(index + 1, newRef);
+    this.moveKids(doc, element, { dict: doc.context.lookup(newRef, PDFDict), ref: newRef }, at);
+
+    const createdId = structureElementId(newRef);
+    logger.info(`[StructureWriter] Split ${type} ${id} at child ${at} → ${createdId}`);
+    return { success: true, description: `Split ${type} ${id} into ${id} and ${createdId}`, createdId };
+  }
+
+  /** Change the tag type of an element (see renameElement). */
+  retagElement(doc: PDFDocument, id: string, newTagType: string): StructureEditResult {
+    const element = this.resolveElement(doc, id);
+    if (!element) return { success: false, description: 'Retag failed', error: `Unknown structure element ${id}` };
+
+    const before = this.tagOf(element.dict);
+    this.renameElement(doc, element.ref, newTagType);
+    return { success: true, description: `Retagged ${id} from ${before} to ${newTagType}` };
   }
 
-  private buildOutlineTree(
+  /**
+   * Move the children of `source` from index `from` onwards to the end of
+   * `target`. Bare MCIDs become marked-content references when the two
+   * elements are on different pages; ParentTree entries of moved MCIDs and
+   * annotations are pointed at `target`. Returns the number moved.
+   */
+  private moveKids(
     doc: PDFDocument,
-    headings: Array<{ level: number; title: string; pageIndex: number; fallback: boolean }>,
-    pages: ReturnType<PDFDocument['getPages']>,
-  ): PDFRef | null {
-    if (headings.length === 0) return null;
-
-    // Create root /Outlines dict
-    const rootDict = doc.context.obj({ Type: PDFName.of('Outlines'), Count: 0 }) as PDFDict;
-    const rootRef = doc.context.register(rootDict);
-
-    // Stack entry: parent node reference + number of direct children so far
-    type StackEntry = { ref: PDFRef; dict: PDFDict; level: number; childCount: number };
-    const stack: StackEntry[] = [{ ref: rootRef, dict: rootDict, level: 0, childCount: 0 }];
-
-    for (const h of headings) {
-      // Pop until we find a parent with level strictly less than this heading
-      while (stack.length > 1 && stack[stack.length - 1].level >= h.level) {
-        stack.pop();
-      }
-      const parent = stack[stack.length - 1];
-
-      // Resolve page ref — fall back to page 0 if out of range
-      const pageRef = (pages[h.pageIndex] ?? pages[0]).ref;
-      // Dest: [pageRef /XYZ null null null] — go to page, preserve zoom
-      const dest = doc.context.obj([pageRef, PDFName.of('XYZ'), null, null, null]);
-
-      // Build item dict (Title as PDFHexString for full Unicode support)
-      const itemDict = doc.context.obj({
-        Title: PDFHexString.fromText(h.title),
-        Dest: dest,
-        Parent: parent.ref,
-        Count: 0,
-      }) as PDFDict;
-      const itemRef = doc.context.register(itemDict);
-
-      // Link siblings
-      if (parent.childCount > 0 && parent.dict.get(PDFName.of('Last')) instanceof PDFRef) {
-        const prevRef = parent.dict.get(PDFName.of('Last')) as PDFRef;
-        const prevDict = doc.context.lookup(prevRef) as PDFDict;
-        prevDict.set(PDFName.of('Next'), itemRef);
-        itemDict.set(PDFName.of('Prev'), prevRef);
+    source: { dict: PDFDict; ref: PDFRef },
+    target: { dict: PDFDict; ref: PDFRef },
+    from: number,
+  ): number {
+    const sourceKids = this.kidsOf(source.dict);
+    const moving = sourceKids.slice(from);
+    const sourcePage = this.effectivePageRef(doc, source.dict);
+    const targetPage = this.effectivePageRef(doc, target.dict);
+    const samePage = !!sourcePage && targetPage?.objectNumber === sourcePage.objectNumber;
+    const targetKids = this.kidsArray(doc, target.dict);
+
+    for (const raw of moving) {
+      let kid: PDFObject = raw;
+      if (raw instanceof PDFNumber) {
+        if (sourcePage && !samePage) {
+          kid = doc.context.obj({ Type: PDFName.of('MCR'), Pg: sourcePage, MCID: raw });
+        }
+        this.setParentTreeEntry(doc, sourcePage, raw.asNumber(), target.ref);
       } else {
-        parent.dict.set(PDFName.of('First'), itemRef);
+        const obj = raw instanceof PDFRef ? doc.context.lookup(raw) : raw;
+        if (obj instanceof PDFDict) {
+          const type = obj.get(PDFName.of('Type'))?.toString();
+          if (type === '/MCR') {
+            const pageRef = this.pageRefOf(obj) ?? sourcePage;
+            if (!obj.has(PDFName.of('Pg')) && pageRef && !samePage) obj.set(PDFName.of('Pg'), pageRef);
+            const mcid = obj.get(PDFName.of('MCID'));
+            if (mcid instanceof PDFNumber) this.setParentTreeEntry(doc, pageRef, mcid.asNumber(), target.ref);
+          } else if (type === '/OBJR') {
+            const annot = doc.context.lookup(obj.get(PDFName.of('Obj')));
+            const key = annot instanceof PDFDict ? annot.get(PDFName.of('StructParent')) : undefined;
+            const slot = key instanceof PDFNumber ? this.findParentTreeSlot(doc, key.asNumber()) : null;
+            slot?.nums.set(slot.index + 1, target.ref);
+          } else if (obj.has(PDFName.of('S'))) {
+            obj.set(PDFName.of('P'), target.ref);
+          }
+        }
       }
-      parent.dict.set(PDFName.of('Last'), itemRef);
-      parent.childCount++;
-
-      stack.push({ ref: itemRef, dict: itemDict, level: h.level, childCount: 0 });
+      targetKids.push(kid);
     }
 
-    // Compute Count values (total visible descendants) via First/Next traversal
-    this.updateOutlineCounts(doc, rootRef, rootDict);
+    source.dict.set(PDFName.of('K'), doc.context.obj(sourceKids.slice(0, from)));
+    return moving.length;
+  }
+
+  /** Point the ParentTree entry of an MCID on a page at a new element. */
+  private setParentTreeEntry(doc: PDFDocument, pageRef: PDFRef | undefined, mcid: number, elementRef: PDFRef): void {
+    if (!pageRef) return;
+    const page = doc.context.lookup(pageRef);
+    const key = page instanceof PDFDict ? page.get(PDFName.of('StructParents')) : undefined;
+    if (!(key instanceof PDFNumber)) return;
+
+    const slot = this.findParentTreeSlot(doc, key.asNumber());
+    const entries = slot ? doc.context.lookup(slot.nums.get(slot.index + 1)) : undefined;
+    if (entries instanceof PDFArray && mcid < entries.size()) entries.set(mcid, elementRef);
+  }
+
+  /** Locate `key` in the ParentTree number tree: the /Nums array holding it and its index. */
+  private findParentTreeSlot(doc: PDFDocument, key: number): { nums: PDFArray; index: number } | null {
+    const root = this.getStructTreeRoot(doc);
+    const tree = root ? doc.context.lookup(root.get(PDFName.of('ParentTree'))) : undefined;
+
+    const search = (node: PDFDict, depth: number): { nums: PDFArray; index: number } | null => {
+      if (depth > 16) return null;
+      const nums = doc.context.lookup(node.get(PDFName.of('Nums')));
+      if (nums instanceof PDFArray) {
+        for (let i = 0; i + 1 < nums.size(); i += 2) {
+          const k = nums.get(i);
+          if (k instanceof PDFNumber && k.asNumber() === key) return { nums, index: i };
+        }
+      }
+      const kids = doc.context.lookup(node.get(PDFName.of('Kids')));
+      if (!(kids instanceof PDFArray)) return null;
+      for (const raw of kids.asArray()) {
+        const kid = doc.context.lookup(raw);
+        if (!(kid instanceof PDFDict)) continue;
+        const limits = doc.context.lookup(kid.get(PDFName.of('Limits')));
+        if (limits instanceof PDFArray && limits.size() === 2) {
+          const [lo, hi] = [limits.get(0), limits.get(1)];
+          if (lo instanceof PDFNumber && hi instanceof PDFNumber && (key < lo.asNumber() || key > hi.asNumber())) continue;
+        }
+        const found = search(kid, depth + 1);
+        if (found) return found;
+      }
+      return null;
+    };
 
-    return rootRef;
+    return tree instanceof PDFDict ? search(tree, 0) : null;
   }
 
-  private updateOutlineCounts(doc: PDFDocument, ref: PDFRef, dict: PDFDict): number {
-    let count = 0;
-    let cur: PDFObject | undefined = dict.get(PDFName.of('First'));
-    while (cur instanceof PDFRef) {
-      const child = doc.context.lookup(cur);
-      if (!(child instanceof PDFDict)) break;
-      count += 1 + this.updateOutlineCounts(doc, cur, child);
-      cur = child.get(PDFName.of('Next'));
+  /** Marked content of an element and its descendants, in tree order. */
+  private collectMarkedContent(
+    doc: PDFDocument,
+    elem: PDFDict,
+    inheritedPage: PDFRef | undefined,
+    pageNumbers: Map<number, number>,
+    out: MarkedContentRef[],
+    depth: number,
+  ): void {
+    if (depth > 32) return;
+    const pageRef = this.pageRefOf(elem) ?? inheritedPage;
+    const push = (pg: PDFRef | undefined, mcid: number) => {
+      const pageNumber = pg ? pageNumbers.get(pg.objectNumber) : undefined;
+      if (pageNumber) out.push({ pageNumber, mcid });
+    };
+
+    for (const raw of this.kidsOf(elem)) {
+      if (raw instanceof PDFNumber) {
+        push(pageRef, raw.asNumber());
+        continue;
+      }
+      const obj = raw instanceof PDFRef ? doc.context.lookup(raw) : raw;
+      if (!(obj instanceof PDFDict)) continue;
+      if (obj.get(PDFName.of('Type'))?.toString() === '/MCR') {
+        const mcid = obj.get(PDFName.of('MCID'));
+        if (mcid instanceof PDFNumber) push(this.pageRefOf(obj) ?? pageRef, mcid.asNumber());
+      } else if (obj.has(PDFName.of('S'))) {
+        this.collectMarkedContent(doc, obj, pageRef, pageNumbers, out, depth + 1);
+      }
     }
-    if (count > 0 || ref === doc.context.lookup(doc.context.trailerInfo.Root)) {
-      dict.set(PDFName.of('Count'), doc.context.obj(count));
+  }
+
+  /** The structure element with the given id, or null. */
+  private resolveElement(doc: PDFDocument, id: string): { dict: PDFDict; ref: PDFRef } | null {
+    const ref = parseStructureElementId(id);
+    if (!ref) return null;
+    const obj = doc.context.lookup(ref);
+    return obj instanceof PDFDict && obj.has(PDFName.of('S')) ? { dict: obj, ref } : null;
+  }
+
+  /** True if `ancestorRef` is on the /P chain of `elem`. */
+  private isAncestor(doc: PDFDocument, ancestorRef: PDFRef, elem: PDFDict): boolean {
+    let current: PDFDict | undefined = elem;
+    for (let depth = 0; current && depth < 64; depth++) {
+      const parent: PDFObject | undefined = current.get(PDFName.of('P'));
+      if (!(parent instanceof PDFRef)) return false;
+      if (parent.objectNumber === ancestorRef.objectNumber) return true;
+      const next: PDFObject | undefined = doc.context.lookup(parent);
+      current = next instanceof PDFDict ? next : undefined;
+    }
+    return false;
+  }
+
+  /** /Pg of the element or of its nearest ancestor that has one. */
+  private effectivePageRef(doc: PDFDocument, elem: PDFDict): PDFRef | undefined {
+    let current: PDFDict | undefined = elem;
+    for (let depth = 0; current && depth < 64; depth++) {
+      const pageRef = this.pageRefOf(current);
+      if (pageRef) return pageRef;
+      const parent: PDFObject | undefined = doc.context.lookup(current.get(PDFName.of('P')));
+      current = parent instanceof PDFDict ? parent : undefined;
     }
-    return count;
+    return undefined;
+  }
+
+  private pageRefOf(dict: PDFDict): PDFRef | undefined {
+    const pg = dict.get(PDFName.of('Pg'));
+    return pg instanceof PDFRef ? pg : undefined;
+  }
+
+  private tagOf(dict: PDFDict): string {
+    return dict.get(PDFName.of('S'))?.toString().replace(/^\//, '') ?? '';
+  }
+
+  /** The items of an element's /K, whether it holds one item or an array. */
+  private kidsOf(dict: PDFDict): PDFObject[] {
+    const k = dict.get(PDFName.of('K'));
+    return k instanceof PDFArray ? k.asArray() : k ? [k] : [];
+  }
+
+  /** The element's /K as an array, promoting a single item (or no /K) to one. */
+  private kidsArray(doc: PDFDocument, dict: PDFDict): PDFArray {
+    const k = dict.get(PDFName.of('K'));
+    if (k instanceof PDFArray) return k;
+    const kids = doc.context.obj(k ? [k] : []);
+    dict.set(PDFName.of('K'), kids);
+    return kids;
   }
 
   // ══════════════════════════════════════════════════════════════════════════
@@ -0,0 +1,243 @@
+/**
+ * PDF Table Structure Service
+ *
+ * Writes an operator-edited table grid into the /Table structure subtree
+ * of a tagged PDF: TH / TD tags, header /Scope, /RowSpan and /ColSpan,
+ * and — for complex tables — /ID on header cells with /Headers on every
+ * cell they label. The grid comes from the table zone edited in the zone
+ * editor (THEAD + TBODY children) or from an AI header proposal.
+ */
+
+import { PDFDocument } from 'pdf-lib';
+import prisma from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { AppError } from '../../utils/app-error';
+import { tableGridSchema, type TableGrid, type TableHeaderScope } from '../../schemas/pdf-table.schemas';
+import { pdfModifierService, ModificationResult } from './pdf-modifier.service';
+import { pdfStructureWriterService } from './pdf-structure-writer.service';
+import type { TableInfo } from './structure-analyzer.service';
+
+/** A grid cell placed in the table, with everything written to its element. */
+export interface ResolvedTableCell {
+  type: 'TH' | 'TD';
+  /** 0-based position of the cell's top-left slot */
+  row: number;
+  column: number;
+  rowSpan: number;
+  colSpan: number;
+  scope?: TableHeaderScope;
+  id?: string;
+  headers: string[];
+}
+
+export interface ResolvedTableGrid {
+  rows: ResolvedTableCell[][];
+  /** Spanned cells or more than one level of row / column headers */
+  complex: boolean;
+  /** /Headers entries that name no header cell id */
+  unknownHeaderIds: string[];
+}
+
+/**
+ * Place grid cells in their row / column slots (skipping slots covered by
+ * earlier spans, as in HTML) and work out what to write for each:
+ *   - TH without a scope: "Column" in a row of only TH, otherwise "Row"
+ *     when in the first column, otherwise "Column"
+ *   - complex tables: every TH gets an /ID (its own, or `{idPrefix}-r{n}c{n}`)
+ *     and every cell the column headers above it plus the row headers to
+ *     its left as /Headers
+ * Ids and headers given in the grid always win.
+ */
+export function resolveTableGrid(grid: TableGrid, idPrefix: string): ResolvedTableGrid {
+  const occupied: boolean[][] = grid.rows.map(() => []);
+  const rows: ResolvedTableCell[][] = grid.rows.map((gridRow, r) => {
+    const allHeaders = gridRow.cells.every((cell) => cell.type === 'TH');
+    let column = 0;
+    return gridRow.cells.map((cell) => {
+      while (occupied[r][column]) column++;
+      const rowSpan = Math.min(cell.rowspan, grid.rows.length - r);
+      for (let dr = 0; dr < rowSpan; dr++) {
+        for (let dc = 0; dc < cell.colspan; dc++) occupied[r + dr][column + dc] = true;
+      }
+
+      const resolved: ResolvedTableCell = {
+        type: cell.type,
+        row: r,
+        column,
+        rowSpan,
+        colSpan: cell.colspan,
+        id: cell.id,
+        headers: cell.headers ?? [],
+      };
+      if (cell.type === 'TH') {
+        resolved.scope = cell.scope ?? (allHeaders ? 'Column' : column === 0 ? 'Row' : 'Column');
+      }
+      column += cell.colspan;
+      return resolved;
+    });
+  });
+
+  const cells = rows.flat();
+  const headerCells = cells.filter((c) => c.type === 'TH');
+  const columnHeaderRows = new Set(
+    headerCells.filter((c) => c.scope !== 'Row').map((c) => c.row)
+  );
+  const rowHeaderColumns = new Set(
+    headerCells.filter((c) => c.scope !== 'Column').map((c) => c.column)
+  );
+  const complex =
+    cells.some((c) => c.rowSpan > 1 || c.colSpan > 1) ||
+    columnHeaderRows.size > 1 ||
+    rowHeaderColumns.size > 1;
+
+  if (complex) {
+    for (const th of headerCells) {
+      th.id ??= `${idPrefix}-r${th.row + 1}c${th.column + 1}`;
+    }
+    for (const cell of cells) {
+      if (cell.headers.length > 0) continue;
+      const above = headerCells.filter(
+        (th) =>
+          th !== cell &&
+          th.scope !== 'Row' &&
+          th.row + th.rowSpan <= cell.row &&
+          th.column < cell.column + cell.colSpan &&
+          cell.column < th.column + th.colSpan
+      );
+      const left = headerCells.filter(
+        (th) =>
+          th !== cell &&
+          th.scope !== 'Column' &&
+          th.column + th.colSpan <= cell.column &&
+          th.row < cell.row + cell.rowSpan &&
+          cell.row < th.row + th.rowSpan
+      );
+      cell.headers = [...above, ...left].map((th) => th.id!);
+    }
+  }
+
+  const knownIds = new Set(cells.map((c) => c.id).filter(Boolean));
+  const unknownHeaderIds = [...new Set(cells.flatMap((c) => c.headers).filter((id) => !knownIds.has(id)))];
+
+  return { rows, complex, unknownHeaderIds };
+}
+
+/**
+ * Grid for a table from content analysis, with the header row and / or
+ * header column the AI identified marked as TH. Used as the starting point
+ * the operator edits.
+ */
+export function proposeGridFromTable(
+  table: TableInfo,
+  headers: { headerRow: boolean; headerColumn: boolean }
+): TableGrid {
+  const byRow = new Map<number, TableInfo['cells']>();
+  for (const cell of table.cells) {
+    byRow.set(cell.row, [...(byRow.get(cell.row) ?? []), cell]);
+  }
+
+  const rows = [...byRow.keys()].sort((a, b) => a - b).map((row) => ({
+    cells: byRow.get(row)!.sort((a, b) => a.column - b.column).map((cell) => {
+      const isHeader = (headers.headerRow && cell.row === 0) || (headers.headerColumn && cell.column === 0);
+      return {
+        type: isHeader ? ('TH' as const) : ('TD' as const),
+        content: cell.text,
+        colspan: Math.max(1, cell.colSpan),
+        rowspan: Math.max(1, cell.rowSpan),
+        align: 'left',
+        ...(isHeader ? { scope: headers.headerRow && cell.row === 0 ? ('Column' as const) : ('Row' as const) } : {}),
+      };
+    }),
+  }));
+
+  return { rows };
+}
+
+/** Parse a grid stored as JSON (e.g. an AI proposal's value). */
+export function parseTableGrid(value: string): TableGrid {
+  let json: unknown;
+  try {
+    json = JSON.parse(value);
+  } catch {
+    throw AppError.badRequest('Table grid is not valid JSON');
+  }
+  const parsed = tableGridSchema.safeParse(json);
+  if (!parsed.success) {
+    throw AppError.badRequest('Invalid table grid: ' + parsed.error.message);
+  }
+  return parsed.data;
+}
+
+/**
+ * The grid of a table zone: its THEAD rows followed by its TBODY rows.
+ * Table zones created before the THEAD / TBODY split keep the grid on
+ * the zone itself.
+ */
+export function parseZoneTableGrid(zone: {
+  tableStructure: unknown;
+  childZones: Array<{ zoneSubtype: string | null; tableStructure: unknown }>;
+}) {
+  const child = (subtype: string) =>
+    zone.childZones.find((c) => c.zoneSubtype === subtype)?.tableStructure as TableGrid | null | undefined;
+  const rows = [
+    ...(child('THEAD')?.rows ?? []),
+    ...(child('TBODY')?.rows ?? []),
+  ];
+  return tableGridSchema.safeParse(rows.length > 0 ? { rows } : zone.tableStructure);
+}
+
+class PdfTableStructureService {
+  /** The grid of a table zone (see parseZoneTableGrid). */
+  async getZoneGrid(zoneId: string, tenantId: string): Promise<TableGrid> {
+    const zone = await prisma.zone.findFirst({
+      where: { id: zoneId, tenantId, type: 'TABLE' },
+      include: { childZones: { select: { zoneSubtype: true, tableStructure: true } } },
+    });
+    if (!zone) throw AppError.notFound('Table zone not found');
+
+    const parsed = parseZoneTableGrid(zone);
+    if (!parsed.success) {
+      throw AppError.unprocessable('Table zone has no usable table structure: ' + parsed.error.message);
+    }
+    return parsed.data;
+  }
+
+  /**
+   * Write `grid` into the /Table element identified by `tableId`
+   * (table_p{page}_{index}).
+   */
+  async applyGrid(doc: PDFDocument, tableId: string, grid: TableGrid): Promise<ModificationResult> {
+    const found = pdfModifierService.findTableElement(doc, tableId);
+    if ('error' in found) {
+      return { success: false, description: found.description, error: found.error };
+    }
+
+    const resolved = resolveTableGrid(grid, tableId);
+    if (resolved.unknownHeaderIds.length > 0) {
+      return {
+        success: false,
+        description: 'Invalid table headers',
+        pageNumber: found.pageNumber,
+        error: `Headers refer to unknown header cell id(s): ${resolved.unknownHeaderIds.join(', ')}`,
+      };
+    }
+
+    const result = pdfStructureWriterService.rewriteTableStructure(doc, found.table, resolved.rows, tableId);
+    logger.info(
+      `[PdfTableStructure] ${tableId}: ${result.success ? result.after : result.error} (${resolved.complex ? 'complex' : 'simple'} table)`
+    );
+
+    return {
+      success: result.success,
+      description: result.success
+        ? `Rewrote ${resolved.complex ? 'complex' : 'simple'} table structure (page ${found.pageNumber}, index ${found.index})`
+        : 'Table grid does not match the tagged table',
+      pageNumber: found.pageNumber,
+      before: result.before,
+      after: result.after,
+      error: result.error,
+    };
+  }
+}
+
+export const pdfTableStructureService = new PdfTableStructureService();
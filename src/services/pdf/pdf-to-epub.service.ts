@@ -0,0 +1,902 @@
+/**
+ * PDF → EPUB Conversion Service
+ *
+ * Turns a PDF whose zones have been verified in the zone editor into a
+ * reflowable EPUB 3:
+ *   - section headers / H1–H6 zones become headings; each top-level
+ *     heading starts a chapter and the nav is built from them
+ *   - table zones become real tables from their THEAD + TBODY grid
+ *   - figures are cropped from the page and keep the zone's altText, with
+ *     the longDesc as an aria-details description
+ *   - footnotes become epub:type="footnote" asides, linked from their
+ *     marker in the text of the same page by noterefs
+ *   - every PDF page gets a page-break marker and a page-list entry
+ * The package's accessibility metadata is derived from what the zones
+ * provide (headings, alt text, verified reading order), and the finished
+ * EPUB is audited under a new EPUB_ACCESSIBILITY job.
+ */
+
+import JSZip from 'jszip';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { pathToFileURL } from 'url';
+import { Job, Prisma } from '@prisma/client';
+import { PDFHexString, PDFName, PDFString } from 'pdf-lib';
+import * as pdfjsLib from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { createCanvas } from '@napi-rs/canvas';
+import prisma from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { AppError } from '../../utils/app-error';
+import { JOB_TYPES } from '../../queues';
+import { queueService } from '../queue.service';
+import { fileStorageService } from '../storage/file-storage.service';
+import { loadJobPdf, pdfFileNameFor } from '../storage/pdf-job-file';
+import { epubAuditService } from '../epub/epub-audit.service';
+import type { TableGrid } from '../../schemas/pdf-table.schemas';
+import { pdfModifierService } from './pdf-modifier.service';
+import { zoneHeadingLevel } from './pdf-outline.service';
+import { parseZoneTableGrid, resolveTableGrid } from './pdf-table-structure.service';
+
+// Ensure pdfjs worker is configured (same pattern as pdf-parser.service.ts)
+const pdfjsWorkerPath = path.join(
+  process.cwd(),
+  'node_modules',
+  'pdfjs-dist',
+  'legacy',
+  'build',
+  'pdf.worker.mjs'
+);
+pdfjsLib.GlobalWorkerOptions.workerSrc = pathToFileURL(pdfjsWorkerPath).href;
+
+/** Scale figures are rendered at before cropping (2 = 144 dpi). */
+const FIGURE_RENDER_SCALE = 2;
+
+/** Zone labels that are page furniture or navigation, not content. */
+const SKIPPED_LABELS = new Set([
+  'header', 'footer', 'page-header', 'page-footer', 'page_header', 'page_footer',
+  'artifact', 'artefact', 'toci', 'toc', 'page-number',
+]);
+
+const VERIFIED_DECISIONS = ['CONFIRMED', 'CORRECTED'];
+
+/** The zone fields the conversion reads. */
+export interface ConversionZone {
+  id: string;
+  pageNumber: number;
+  type: string;
+  operatorLabel: string | null;
+  content: string | null;
+  altText: string | null;
+  longDesc: string | null;
+  bounds: Prisma.JsonValue;
+  operatorBbox: Prisma.JsonValue;
+  tableStructure: Prisma.JsonValue;
+  childZones: Array<{ zoneSubtype: string | null; tableStructure: Prisma.JsonValue }>;
+}
+
+/**
+ * Zone bounds in PDF points with a top-left origin (`top` measured down
+ * from the top of the page), the convention of the zone detectors.
+ */
+interface ZoneBounds {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+export type EpubBlock =
+  | { kind: 'pagebreak'; pageNumber: number }
+  | { kind: 'heading'; zoneId: string; level: number; text: string }
+  | { kind: 'paragraph'; zoneId: string; text: string }
+  | { kind: 'list'; zoneId: string; items: string[] }
+  | { kind: 'table'; zoneId: string; grid: TableGrid | null; text: string; caption?: string }
+  | {
+      kind: 'figure';
+      zoneId: string;
+      pageNumber: number;
+      bounds: ZoneBounds | null;
+      altText: string | null;
+      longDesc: string | null;
+      caption?: string;
+    }
+  | { kind: 'footnote'; zoneId: string; pageNumber: number; marker: string | null; text: string };
+
+/** Zone counts the accessibility metadata is derived from. */
+export interface ZoneVerification {
+  total: number;
+  verified: number;
+}
+
+export interface EpubConversionReport {
+  chapters: number;
+  pages: number;
+  headings: number;
+  tables: number;
+  /** Table zones without a usable grid, written as paragraphs */
+  tablesWithoutGrid: number;
+  figures: number;
+  figuresWithoutAlt: number;
+  longDescriptions: number;
+  footnotes: number;
+  /** Footnotes whose marker was found and linked with a noteref */
+  noterefsLinked: number;
+}
+
+export interface EpubBuildOptions {
+  title: string;
+  language: string;
+  /** Rendered figure images by zone id (PNG) */
+  images: Map<string, Buffer>;
+  verification: ZoneVerification;
+  /** File name of the source PDF, recorded as a11y:pageBreakSource */
+  sourceFileName?: string;
+}
+
+export interface PdfToEpubResult {
+  epubFileName: string;
+  auditJobId: string;
+  auditScore: number | null;
+  auditError?: string;
+  report: EpubConversionReport;
+  verification: ZoneVerification;
+}
+
+// ─── Zones → blocks ──────────────────────────────────────────────────────────
+
+type ZoneKind = 'heading' | 'paragraph' | 'list-item' | 'table' | 'figure' | 'caption' | 'footnote' | 'skip';
+
+function zoneKind(label: string): ZoneKind {
+  const lower = label.toLowerCase();
+  if (SKIPPED_LABELS.has(lower)) return 'skip';
+  if (zoneHeadingLevel(lower) !== null) return 'heading';
+  if (lower === 'list-item' || lower === 'list_item' || lower === 'li' || lower === 'list' || lower === 'l') return 'list-item';
+  if (lower === 'table') return 'table';
+  if (lower === 'figure' || lower === 'picture' || lower === 'image') return 'figure';
+  if (lower === 'caption') return 'caption';
+  if (lower === 'footnote' || lower === 'note') return 'footnote';
+  return 'paragraph';
+}
+
+function cleanText(text: string | null): string {
+  return (text ?? '').replace(/\s+/g, ' ').trim();
+}
+
+/** Stored zone bounds ({x, y, w, h}, or width / height) as ZoneBounds. */
+function zoneBounds(bounds: Prisma.JsonValue): ZoneBounds | null {
+  const b = bounds as { x?: unknown; y?: unknown; w?: unknown; h?: unknown; width?: unknown; height?: unknown } | null;
+  if (!b || typeof b !== 'object') return null;
+  const [left, top, width, height] = [b.x, b.y, b.w ?? b.width, b.h ?? b.height];
+  if (![left, top, width, height].every((v) => typeof v === 'number')) return null;
+  return { left: left as number, top: top as number, width: width as number, height: height as number };
+}
+
+/** Leading footnote marker: "1", "12.", "*", "†", "¹" … */
+const FOOTNOTE_MARKER_RE = /^(\d{1,3}|[*†‡§¶]+|[⁰¹²³⁴⁵⁶⁷⁸⁹]+)[.)]?\s+(.+)$/;
+
+/**
+ * Content blocks in reading order (zones sorted by page and readingOrder).
+ * Page furniture is dropped, consecutive list items are grouped, and a
+ * caption is attached to the figure or table next to it on the same page.
+ */
+export function planEpubBlocks(zones: ConversionZone[]): EpubBlock[] {
+  const blocks: EpubBlock[] = [];
+  let currentPage = 0;
+  let pendingCaption: { zoneId: string; text: string } | null = null;
+
+  const captionable = (block: EpubBlock | undefined) =>
+    (block?.kind === 'figure' || block?.kind === 'table') && !block.caption ? block : null;
+  const flushCaption = () => {
+    if (pendingCaption) blocks.push({ kind: 'paragraph', ...pendingCaption });
+    pendingCaption = null;
+  };
+  const push = (block: EpubBlock) => {
+    if (pendingCaption && (block.kind === 'figure' || block.kind === 'table')) {
+      block.caption = pendingCaption.text;
+      pendingCaption = null;
+    }
+    flushCaption();
+    blocks.push(block);
+  };
+
+  for (const zone of zones) {
+    const kind = zoneKind(zone.operatorLabel ?? zone.type);
+    if (kind === 'skip') continue;
+
+    if (zone.pageNumber !== currentPage) {
+      flushCaption();
+      currentPage = zone.pageNumber;
+      blocks.push({ kind: 'pagebreak', pageNumber: currentPage });
+    }
+
+    const text = cleanText(zone.content);
+    switch (kind) {
+      case 'heading':
+        if (text) push({ kind: 'heading', zoneId: zone.id, level: zoneHeadingLevel(zone.operatorLabel ?? zone.type)!, text });
+        break;
+      case 'paragraph':
+        if (text) push({ kind: 'paragraph', zoneId: zone.id, text });
+        break;
+      case 'list-item': {
+        const items = (zone.content ?? '')
+          .split(/\n+/)
+          .map((line) => cleanText(line).replace(/^[•◦▪‣\-–*]\s+/, ''))
+          .filter(Boolean);
+        const last = blocks[blocks.length - 1];
+        if (items.length === 0) break;
+        if (last?.kind === 'list' && !pendingCaption) {
+          last.items.push(...items);
+        } else {
+          push({ kind: 'list', zoneId: zone.id, items });
+        }
+        break;
+      }
+      case 'table': {
+        const parsed = parseZoneTableGrid(zone);
+        push({ kind: 'table', zoneId: zone.id, grid: parsed.success ? parsed.data : null, text });
+        break;
+      }
+      case 'figure':
+        push({
+          kind: 'figure',
+          zoneId: zone.id,
+          pageNumber: zone.pageNumber,
+          bounds: zoneBounds(zone.operatorBbox ?? zone.bounds),
+          altText: cleanText(zone.altText) || null,
+          longDesc: cleanText(zone.longDesc) || null,
+        });
+        break;
+      case 'caption': {
+        if (!text) break;
+        const target = captionable(blocks[blocks.length - 1]);
+        if (target) {
+          target.caption = text;
+        } else {
+          flushCaption();
+          pendingCaption = { zoneId: zone.id, text };
+        }
+        break;
+      }
+      case 'footnote': {
+        if (!text) break;
+        const match = FOOTNOTE_MARKER_RE.exec(text);
+        push({
+          kind: 'footnote',
+          zoneId: zone.id,
+          pageNumber: zone.pageNumber,
+          marker: match ? match[1] : null,
+          text: match ? match[2] : text,
+        });
+        break;
+      }
+    }
+  }
+  flushCaption();
+
+  return blocks;
+}
+
+// ─── Blocks → EPUB ───────────────────────────────────────────────────────────
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Index of a footnote marker in running text: right after a letter or
+ * closing punctuation ("word1", "end.²", "text*"), never inside a number.
+ */
+export function findFootnoteMarker(text: string, marker: string): number {
+  const re = new RegExp(`(?<=[\\p{L}.,;:!?'"’”)\\]])${escapeRegExp(marker)}(?!\\d)`, 'u');
+  return re.exec(text)?.index ?? -1;
+}
+
+interface Chapter {
+  fileName: string;
+  title: string;
+  blocks: EpubBlock[];
+}
+
+/** Split blocks into chapters at each top-level heading. */
+function splitChapters(blocks: EpubBlock[], title: string): { chapters: Chapter[]; topLevel: number } {
+  const headingLevels = blocks.flatMap((b) => (b.kind === 'heading' ? [b.level] : []));
+  const topLevel = headingLevels.length > 0 ? Math.min(...headingLevels) : 1;
+  const chapters: Chapter[] = [];
+  let current: EpubBlock[] = [];
+
+  const close = (next: EpubBlock[]) => {
+    if (current.some((b) => b.kind !== 'pagebreak')) {
+      const heading = current.find((b) => b.kind === 'heading');
+      chapters.push({
+        fileName: `chapter-${String(chapters.length + 1).padStart(3, '0')}.xhtml`,
+        title: heading?.kind === 'heading' ? heading.text : title,
+        blocks: current,
+      });
+      current = next;
+    } else {
+      current.push(...next);
+    }
+  };
+
+  for (const block of blocks) {
+    if (block.kind === 'heading' && block.level === topLevel && current.some((b) => b.kind !== 'pagebreak')) {
+      // Page breaks directly before the heading open the new chapter
+      let split = current.length;
+      while (split > 0 && current[split - 1].kind === 'pagebreak') split--;
+      const carried = current.slice(split);
+      current = current.slice(0, split);
+      close(carried);
+    }
+    current.push(block);
+  }
+  close([]);
+
+  return { chapters, topLevel };
+}
+
+/**
+ * Accessibility metadata for the package: schema.org properties, plus
+ * a11y:pageBreakSource naming the source PDF when page breaks were kept.
+ */
+export function buildAccessibilityMetadata(
+  report: EpubConversionReport,
+  verification: ZoneVerification,
+  sourceFileName?: string
+): Array<[string, string]> {
+  const meta: Array<[string, string]> = [['schema:accessMode', 'textual']];
+  if (report.figures > 0) meta.push(['schema:accessMode', 'visual']);
+  if (report.figuresWithoutAlt === 0) meta.push(['schema:accessModeSufficient', 'textual']);
+  if (report.figures > 0) meta.push(['schema:accessModeSufficient', 'textual,visual']);
+
+  const features = ['displayTransformability'];
+  if (report.headings > 0) features.push('structuralNavigation', 'tableOfContents');
+  if (report.figures > 0 && report.figuresWithoutAlt === 0) features.push('alternativeText');
+  if (report.longDescriptions > 0) features.push('longDescription');
+  if (report.pages > 0) features.push('printPageNumbers', 'pageNavigation');
+  if (verification.total > 0 && verification.verified === verification.total) features.push('readingOrder');
+  for (const feature of features) meta.push(['schema:accessibilityFeature', feature]);
+
+  // Static text and images converted from a PDF: no flashing, motion or sound
+  meta.push(['schema:accessibilityHazard', 'none']);
+
+  const summary = [
+    `Converted from PDF. ${verification.verified} of ${verification.total} content regions were verified by an operator; ` +
+      'headings, reading order, tables and figures follow the verified regions.',
+    report.figures > 0
+      ? `${report.figures - report.figuresWithoutAlt} of ${report.figures} images have alternative text` +
+        (report.longDescriptions > 0 ? ` and ${report.longDescriptions} have an extended description.` : '.')
+      : 'The publication contains no images.',
+    report.pages > 0 ? 'Page breaks from the PDF are marked and listed in the page list.' : '',
+  ].filter(Boolean).join(' ');
+  meta.push(['schema:accessibilitySummary', summary]);
+  if (report.pages > 0 && sourceFileName) meta.push(['a11y:pageBreakSource', sourceFileName]);
+
+  return meta;
+}
+
+/** Render one table grid, with header scope, spans and headers from resolveTableGrid. */
+function renderTable(grid: TableGrid, tableId: string, caption: string | undefined): string {
+  const resolved = resolveTableGrid(grid, tableId);
+  const scopedId = (id: string) => (id.startsWith(`${tableId}-`) ? id : `${tableId}-${id}`);
+  const headerRows = resolved.rows.findIndex((row) => row.some((c) => c.type === 'TD'));
+  const theadCount = headerRows === -1 ? 0 : headerRows;
+
+  const renderRow = (r: number) => {
+    const cells = resolved.rows[r].map((cell, c) => {
+      const tag = cell.type === 'TH' ? 'th' : 'td';
+      const attrs: string[] = [];
+      if (cell.type === 'TH' && cell.scope && cell.scope !== 'Both') attrs.push(`scope="${cell.scope === 'Column' ? 'col' : 'row'}"`);
+      if (cell.colSpan > 1) attrs.push(`colspan="${cell.colSpan}"`);
+      if (cell.rowSpan > 1) attrs.push(`rowspan="${cell.rowSpan}"`);
+      if (cell.id) attrs.push(`id="${escapeXml(scopedId(cell.id))}"`);
+      if (cell.headers.length > 0) attrs.push(`headers="${escapeXml(cell.headers.map(scopedId).join(' '))}"`);
+      const content = escapeXml(cleanText(grid.rows[r].cells[c].content));
+      return `<${tag}${attrs.length > 0 ? ' ' + attrs.join(' ') : ''}>${content}</${tag}>`;
+    });
+    return `<tr>${cells.join('')}</tr>`;
+  };
+
+  const rows = resolved.rows.map((_, r) => renderRow(r));
+  return [
+    `<table id="${tableId}">`,
+    caption ? `<caption>${escapeXml(caption)}</caption>` : '',
+    theadCount > 0 ? `<thead>${rows.slice(0, theadCount).join('')}</thead>` : '',
+    `<tbody>${rows.slice(theadCount).join('')}</tbody>`,
+    '</table>',
+  ].join('');
+}
+
+function xhtmlDocument(title: string, language: string, body: string, stylesheet: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${escapeXml(language)}" lang="${escapeXml(language)}">
+<head>
+<meta charset="UTF-8"/>
+<title>${escapeXml(title)}</title>
+<link rel="stylesheet" type="text/css" href="${stylesheet}"/>
+</head>
+<body>
+${body}
+</body>
+</html>
+`;
+}
+
+const STYLESHEET = `body { font-family: serif; line-height: 1.5; margin: 0 5%; }
+h1, h2, h3, h4, h5, h6 { font-family: sans-serif; line-height: 1.2; }
+figure { margin: 1em 0; }
+figure img { max-width: 100%; height: auto; }
+figcaption { font-style: italic; }
+table { border-collapse: collapse; margin: 1em 0; }
+th, td { border: 1px solid; padding: 0.25em 0.5em; vertical-align: top; }
+aside[epub|type~="footnote"] { font-size: 0.9em; }
+`;
+
+/**
+ * Build the EPUB package from content blocks. Figure images that were not
+ * rendered are replaced by their alt text.
+ */
+export async function buildEpub(
+  blocks: EpubBlock[],
+  options: EpubBuildOptions
+): Promise<{ buffer: Buffer; report: EpubConversionReport }> {
+  const { title, language, images, verification, sourceFileName } = options;
+  const { chapters, topLevel } = splitChapters(blocks, title);
+  const report: EpubConversionReport = {
+    chapters: chapters.length,
+    pages: 0,
+    headings: 0,
+    tables: 0,
+    tablesWithoutGrid: 0,
+    figures: 0,
+    figuresWithoutAlt: 0,
+    longDescriptions: 0,
+    footnotes: 0,
+    noterefsLinked: 0,
+  };
+
+  // Footnote ids and the chapter each footnote ends up in, for noterefs across chapters
+  const notes = new Map<string, { id: string; fileName: string; pageNumber: number; marker: string | null; refFile?: string }>();
+  chapters.forEach((chapter) => chapter.blocks.forEach((block) => {
+    if (block.kind === 'footnote') {
+      notes.set(block.zoneId, {
+        id: `fn-${notes.size + 1}`,
+        fileName: chapter.fileName,
+        pageNumber: block.pageNumber,
+        marker: block.marker,
+      });
+    }
+  }));
+
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file(
+    'META-INF/container.xml',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>
+`
+  );
+  zip.file('OEBPS/css/style.css', STYLESHEET);
+
+  const tocEntries: Array<{ level: number; text: string; href: string }> = [];
+  const pageEntries: Array<{ pageNumber: number; href: string }> = [];
+  const imageItems: string[] = [];
+  let headingCount = 0;
+  let tableCount = 0;
+
+  for (const chapter of chapters) {
+    const body: string[] = [];
+    let pageNumber = 0;
+    let chapterHeadingId: string | null = null;
+
+    /** Escape text, turning the first marker of each pending footnote on this page into a noteref. */
+    const inline = (text: string): string => {
+      let html = '';
+      let rest = text;
+      for (const note of notes.values()) {
+        if (note.pageNumber !== pageNumber || !note.marker || note.refFile) continue;
+        const idx = findFootnoteMarker(rest, note.marker);
+        if (idx < 0) continue;
+        const href = note.fileName === chapter.fileName ? `#${note.id}` : `${note.fileName}#${note.id}`;
+        html += escapeXml(rest.slice(0, idx)) +
+          `<a href="${href}" id="${note.id}-ref" epub:type="noteref" role="doc-noteref">${escapeXml(note.marker)}</a>`;
+        rest = rest.slice(idx + note.marker.length);
+        note.refFile = chapter.fileName;
+        report.noterefsLinked++;
+      }
+      return html + escapeXml(rest);
+    };
+
+    for (const block of chapter.blocks) {
+      switch (block.kind) {
+        case 'pagebreak':
+          pageNumber = block.pageNumber;
+          report.pages++;
+          body.push(`<span epub:type="pagebreak" role="doc-pagebreak" id="page-${pageNumber}" aria-label="${pageNumber}"></span>`);
+          pageEntries.push({ pageNumber, href: `text/${chapter.fileName}#page-${pageNumber}` });
+          break;
+        case 'heading': {
+          const id = `h-${++headingCount}`;
+          chapterHeadingId ??= id;
+          const rank = Math.min(6, block.level - topLevel + 1);
+          report.headings++;
+          body.push(`<h${rank} id="${id}">${inline(block.text)}</h${rank}>`);
+          tocEntries.push({ level: rank, text: block.text, href: `text/${chapter.fileName}#${id}` });
+          break;
+        }
+        case 'paragraph':
+          body.push(`<p>${inline(block.text)}</p>`);
+          break;
+        case 'list':
+          body.push(`<ul>${block.items.map((item) => `<li>${inline(item)}</li>`).join('')}</ul>`);
+          break;
+        case 'table':
+          report.tables++;
+          if (block.grid) {
+            body.push(renderTable(block.grid, `table-${++tableCount}`, block.caption));
+          } else {
+            report.tablesWithoutGrid++;
+            if (block.caption) body.push(`<p>${escapeXml(block.caption)}</p>`);
+            if (block.text) body.push(`<p>${inline(block.text)}</p>`);
+          }
+          break;
+        case 'figure': {
+          const figureId = `figure-${++report.figures}`;
+          const image = images.get(block.zoneId);
+          if (!block.altText) report.figuresWithoutAlt++;
+          if (block.longDesc) report.longDescriptions++;
+
+          const parts: string[] = [];
+          if (image) {
+            const href = `images/${figureId}.png`;
+            zip.file(`OEBPS/${href}`, image);
+            imageItems.push(href);
+            const attrs = [`src="../${href}"`];
+            if (block.altText) attrs.push(`alt="${escapeXml(block.altText)}"`);
+            if (block.longDesc) attrs.push(`aria-details="${figureId}-desc"`);
+            parts.push(`<img ${attrs.join(' ')}/>`);
+          } else if (block.altText) {
+            parts.push(`<p>${escapeXml(block.altText)}</p>`);
+          }
+          if (block.longDesc) {
+            parts.push(
+              `<details id="${figureId}-desc"><summary>Image description</summary><p>${escapeXml(block.longDesc)}</p></details>`
+            );
+          }
+          if (block.caption) parts.push(`<figcaption>${escapeXml(block.caption)}</figcaption>`);
+          body.push(`<figure id="${figureId}">${parts.join('')}</figure>`);
+          break;
+        }
+        case 'footnote': {
+          const note = notes.get(block.zoneId)!;
+          report.footnotes++;
+          const label = note.marker ? `${escapeXml(note.marker)} ` : '';
+          const backlink = note.refFile
+            ? ` <a href="${note.refFile === chapter.fileName ? '' : note.refFile}#${note.id}-ref" role="doc-backlink">Back</a>`
+            : '';
+          body.push(
+            `<aside id="${note.id}" epub:type="footnote" role="doc-footnote"><p>${label}${escapeXml(block.text)}${backlink}</p></aside>`
+          );
+          break;
+        }
+      }
+    }
+
+    const labelled = chapterHeadingId
+      ? `aria-labelledby="${chapterHeadingId}"`
+      : `aria-label="${escapeXml(chapter.title)}"`;
+    zip.file(
+      `OEBPS/text/${chapter.fileName}`,
+      xhtmlDocument(
+        chapter.title,
+        language,
+        `<section epub:type="chapter" role="doc-chapter" ${labelled}>\n${body.join('\n')}\n</section>`,
+        '../css/style.css'
+      )
+    );
+  }
+
+  zip.file('OEBPS/nav.xhtml', xhtmlDocument(title, language, buildNav(title, tocEntries, pageEntries, chapters), 'css/style.css'));
+
+  const metadata = buildAccessibilityMetadata(report, verification, sourceFileName)
+    .map(([property, value]) => `    <meta property="${property}">${escapeXml(value)}</meta>`)
+    .join('\n');
+  const manifest = [
+    '    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '    <item id="css" href="css/style.css" media-type="text/css"/>',
+    ...chapters.map((c) => `    <item id="${c.fileName.replace('.xhtml', '')}" href="text/${c.fileName}" media-type="application/xhtml+xml"/>`),
+    ...imageItems.map((href) => `    <item id="${path.basename(href, '.png')}" href="${href}" media-type="image/png"/>`),
+  ].join('\n');
+  const spine = chapters.map((c) => `    <itemref idref="${c.fileName.replace('.xhtml', '')}"/>`).join('\n');
+
+  zip.file(
+    'OEBPS/content.opf',
+    `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${escapeXml(language)}">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">urn:uuid:${randomUUID()}</dc:identifier>
+    <dc:title>${escapeXml(title)}</dc:title>
+    <dc:language>${escapeXml(language)}</dc:language>
+    <meta property="dcterms:modified">${new Date().toISOString().replace(/\.\d{3}Z$/, 'Z')}</meta>
+${metadata}
+  </metadata>
+  <manifest>
+${manifest}
+  </manifest>
+  <spine>
+${spine}
+  </spine>
+</package>
+`
+  );
+
+  const buffer = await zip.generateAsync({
+    type: 'nodebuffer',
+    mimeType: 'application/epub+zip',
+    compression: 'DEFLATE',
+  });
+  return { buffer, report };
+}
+
+/** Navigation document: toc nested by heading rank, page-list and landmarks. */
+function buildNav(
+  title: string,
+  toc: Array<{ level: number; text: string; href: string }>,
+  pages: Array<{ pageNumber: number; href: string }>,
+  chapters: Chapter[]
+): string {
+  const entries = toc.length > 0
+    ? toc
+    : chapters.map((c) => ({ level: 1, text: c.title, href: `text/${c.fileName}` }));
+
+  // Nested <ol>: open a list when going deeper, close when coming back up
+  let html = '';
+  const stack: number[] = [];
+  for (const entry of entries) {
+    const level = stack.length === 0 ? entry.level : Math.min(entry.level, stack[stack.length - 1] + 1);
+    if (stack.length === 0 || level > stack[stack.length - 1]) {
+      html += '<ol>';
+      stack.push(level);
+    } else {
+      while (stack.length > 1 && level < stack[stack.length - 1]) {
+        html += '</li></ol>';
+        stack.pop();
+      }
+      html += '</li>';
+    }
+    html += `<li><a href="${entry.href}">${escapeXml(entry.text)}</a>`;
+  }
+  while (stack.length > 0) {
+    html += '</li></ol>';
+    stack.pop();
+  }
+
+  const pageList = pages.length > 0
+    ? `<nav epub:type="page-list" role="doc-pagelist" aria-label="Page list" hidden="hidden"><ol>${pages
+        .map((p) => `<li><a href="${p.href}">${p.pageNumber}</a></li>`)
+        .join('')}</ol></nav>`
+    : '';
+  const landmarks = chapters.length > 0
+    ? `<nav epub:type="landmarks" aria-label="Landmarks" hidden="hidden"><ol><li><a epub:type="bodymatter" href="text/${chapters[0].fileName}">${escapeXml(chapters[0].title)}</a></li></ol></nav>`
+    : '';
+
+  return `<nav epub:type="toc" role="doc-toc" aria-labelledby="toc-title"><h1 id="toc-title">${escapeXml(title)}</h1>${html}</nav>\n${pageList}\n${landmarks}`;
+}
+
+// ─── Service ─────────────────────────────────────────────────────────────────
+
+class PdfToEpubService {
+  /** Usable zones (not rejected, not artefacts) of a file and how many were verified. */
+  async getZoneVerification(fileId: string): Promise<ZoneVerification> {
+    const where: Prisma.ZoneWhereInput = {
+      fileId,
+      isArtefact: false,
+      parentZoneId: null,
+      OR: [{ decision: null }, { decision: { not: 'REJECTED' } }],
+    };
+    const [total, verified] = await Promise.all([
+      prisma.zone.count({ where }),
+      prisma.zone.count({
+        where: { AND: [where, { OR: [{ operatorVerified: true }, { decision: { in: VERIFIED_DECISIONS } }] }] },
+      }),
+    ]);
+    return { total, verified };
+  }
+
+  /**
+   * Queue a PDF_TO_EPUB job for a PDF job whose zones have been verified.
+   * Unverified zones block the conversion unless `allowUnverified` is set.
+   */
+  async startConversion(sourceJob: Job, userId: string, allowUnverified: boolean): Promise<string> {
+    if (sourceJob.type !== JOB_TYPES.PDF_ACCESSIBILITY) {
+      throw AppError.badRequest('Only PDF accessibility jobs can be converted to EPUB');
+    }
+    const input = (sourceJob.input ?? {}) as Record<string, unknown>;
+    const fileId = input.fileId;
+    if (typeof fileId !== 'string') {
+      throw AppError.unprocessable('Job has no source file with zones');
+    }
+
+    const verification = await this.getZoneVerification(fileId);
+    if (verification.total === 0) {
+      throw AppError.unprocessable('No zones have been extracted for this PDF');
+    }
+    const unverified = verification.total - verification.verified;
+    if (unverified > 0 && !allowUnverified) {
+      throw AppError.unprocessable(
+        `${unverified} of ${verification.total} zone(s) are not verified yet; verify them or pass allowUnverified`
+      );
+    }
+
+    const jobId = await queueService.createJob({
+      type: JOB_TYPES.PDF_TO_EPUB,
+      tenantId: sourceJob.tenantId,
+      userId,
+      options: {
+        sourceJobId: sourceJob.id,
+        sourceFileId: fileId,
+        fileName: pdfFileNameFor(sourceJob),
+      },
+    });
+    logger.info(`[PdfToEpub] Queued conversion ${jobId} for job ${sourceJob.id} (${verification.verified}/${verification.total} zones verified)`);
+    return jobId;
+  }
+
+  /**
+   * Convert the source job's PDF, store the EPUB under the conversion job
+   * and audit it under a new EPUB_ACCESSIBILITY job.
+   */
+  async convert(
+    jobId: string,
+    options: { sourceJobId: string; sourceFileId: string; fileName: string },
+    onProgress?: (progress: number) => Promise<void>
+  ): Promise<PdfToEpubResult> {
+    const { sourceJobId, sourceFileId, fileName } = options;
+    const pdfBuffer = await loadJobPdf(sourceJobId, fileName, { original: true });
+    if (!pdfBuffer) throw new Error(`PDF file not found in storage for job ${sourceJobId}`);
+
+    const zones = await prisma.zone.findMany({
+      where: {
+        fileId: sourceFileId,
+        isArtefact: false,
+        parentZoneId: null,
+        OR: [{ decision: null }, { decision: { not: 'REJECTED' } }],
+      },
+      select: {
+        id: true,
+        pageNumber: true,
+        type: true,
+        operatorLabel: true,
+        content: true,
+        altText: true,
+        longDesc: true,
+        bounds: true,
+        operatorBbox: true,
+        tableStructure: true,
+        childZones: { select: { zoneSubtype: true, tableStructure: true } },
+      },
+      orderBy: [{ pageNumber: 'asc' }, { readingOrder: 'asc' }],
+    });
+    const verification = await this.getZoneVerification(sourceFileId);
+    const blocks = planEpubBlocks(zones);
+    await onProgress?.(30);
+
+    const images = await this.renderFigures(
+      pdfBuffer,
+      blocks.flatMap((b) => (b.kind === 'figure' && b.bounds ? [{ zoneId: b.zoneId, pageNumber: b.pageNumber, bounds: b.bounds }] : []))
+    );
+    await onProgress?.(60);
+
+    const doc = await pdfModifierService.loadPDF(pdfBuffer);
+    const baseName = path.basename(fileName, path.extname(fileName));
+    const firstHeading = blocks.find((b) => b.kind === 'heading');
+    const title = doc.getTitle()?.trim() || (firstHeading?.kind === 'heading' ? firstHeading.text : baseName);
+    const language = doc.catalog.lookupMaybe(PDFName.of('Lang'), PDFString, PDFHexString)?.decodeText().trim() || 'en';
+
+    const { buffer, report } = await buildEpub(blocks, {
+      title,
+      language,
+      images,
+      verification,
+      sourceFileName: path.basename(fileName),
+    });
+    const epubFileName = `${baseName}.epub`;
+    await fileStorageService.saveFile(jobId, epubFileName, buffer);
+    logger.info(
+      `[PdfToEpub] Job ${jobId}: ${report.chapters} chapter(s), ${report.tables} table(s), ${report.figures} figure(s), ` +
+        `${report.noterefsLinked}/${report.footnotes} footnote(s) linked`
+    );
+    await onProgress?.(75);
+
+    const sourceJob = await prisma.job.findUniqueOrThrow({ where: { id: sourceJobId }, select: { tenantId: true, userId: true } });
+    const auditJob = await prisma.job.create({
+      data: {
+        tenantId: sourceJob.tenantId,
+        userId: sourceJob.userId,
+        type: 'EPUB_ACCESSIBILITY',
+        status: 'PROCESSING',
+        input: { fileName: epubFileName, sourceJobId: jobId, convertedFromJobId: sourceJobId },
+        startedAt: new Date(),
+      },
+    });
+    await fileStorageService.saveFile(auditJob.id, epubFileName, buffer);
+
+    let auditScore: number | null = null;
+    let auditError: string | undefined;
+    try {
+      const auditResult = await epubAuditService.runAudit(buffer, auditJob.id, epubFileName);
+      auditScore = auditResult.score;
+    } catch (error) {
+      auditError = error instanceof Error ? error.message : String(error);
+      logger.warn(`[PdfToEpub] Audit of converted EPUB failed for job ${jobId}: ${auditError}`);
+      await prisma.job.update({
+        where: { id: auditJob.id },
+        data: { status: 'FAILED', error: auditError, completedAt: new Date() },
+      });
+    }
+
+    return { epubFileName, auditJobId: auditJob.id, auditScore, auditError, report, verification };
+  }
+
+  /** Crop figure zones out of their rendered pages (one render per page). */
+  private async renderFigures(
+    pdfBuffer: Buffer,
+    figures: Array<{ zoneId: string; pageNumber: number; bounds: ZoneBounds }>
+  ): Promise<Map<string, Buffer>> {
+    const images = new Map<string, Buffer>();
+    if (figures.length === 0) return images;
+
+    const pdfjsDoc = await pdfjsLib.getDocument({ data: new Uint8Array(pdfBuffer), useSystemFonts: true }).promise;
+    try {
+      const pageNumbers = [...new Set(figures.map((f) => f.pageNumber))];
+      for (const pageNumber of pageNumbers) {
+        if (pageNumber < 1 || pageNumber > pdfjsDoc.numPages) continue;
+        try {
+          const page = await pdfjsDoc.getPage(pageNumber);
+          const viewport = page.getViewport({ scale: FIGURE_RENDER_SCALE });
+          const full = createCanvas(Math.round(viewport.width), Math.round(viewport.height));
+          // eslint-disable-next-line @typescript-eslint/no-explicit-any
+          await page.render({ canvas: full as any, canvasContext: full.getContext('2d') as any, viewport }).promise;
+
+          // The rendered canvas has a top-left origin like ZoneBounds, so the
+          // crop only scales points to pixels; no y-axis flip is needed
+          for (const figure of figures.filter((f) => f.pageNumber === pageNumber)) {
+            const sx = Math.max(0, Math.round(figure.bounds.left * FIGURE_RENDER_SCALE));
+            const sy = Math.max(0, Math.round(figure.bounds.top * FIGURE_RENDER_SCALE));
+            const sw = Math.min(full.width - sx, Math.round(figure.bounds.width * FIGURE_RENDER_SCALE));
+            const sh = Math.min(full.height - sy, Math.round(figure.bounds.height * FIGURE_RENDER_SCALE));
+            if (sw <= 0 || sh <= 0) continue;
+
+            const crop = createCanvas(sw, sh);
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            crop.getContext('2d').drawImage(full as any, sx, sy, sw, sh, 0, 0, sw, sh);
+            images.set(figure.zoneId, crop.toBuffer('image/png'));
+          }
+          page.cleanup();
+        } catch (err) {
+          logger.warn(
+            `[PdfToEpub] Failed to render figures on page ${pageNumber}: ${err instanceof Error ? err.message : String(err)}`
+          );
+        }
+      }
+    } finally {
+      await pdfjsDoc.destroy();
+    }
+
+    return images;
+  }
+}
+
+export const pdfToEpubService = new PdfToEpubService();
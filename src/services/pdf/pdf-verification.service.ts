@@ -188,6 +188,14 @@ class PdfVerificationService {
           result.stillPresent = !result.wasFixed;
           break;
 
+        case 'BOOKMARK-MISSING':
+        case 'BOOKMARK-INSUFFICIENT':
+        case 'BOOKMARK-GENERIC-TEXT':
+          // Outline presence only; coverage and title quality are confirmed by re-audit
+          result.wasFixed = await this.verifyOutlineFixed(pdfBuffer);
+          result.stillPresent = !result.wasFixed;
+          break;
+
         default:
           // For other issue types, we can't verify without full re-audit
           result.verificationMethod = 'manual';
@@ -290,6 +298,25 @@ class PdfVerificationService {
     }
   }
 
+  /**
+   * Verify the document has an outline with at least one bookmark
+   */
+  private async verifyOutlineFixed(pdfBuffer: Buffer): Promise<boolean> {
+    try {
+      const { PDFDocument, PDFDict, PDFName } = await import('pdf-lib');
+      const pdfDoc = await PDFDocument.load(pdfBuffer);
+      const outlines = pdfDoc.catalog.lookupMaybe(PDFName.of('Outlines'), PDFDict);
+
+      const hasOutline = !!outlines?.get(PDFName.of('First'));
+
+      logger.debug(`[PDF Verification] Outline check: ${hasOutline ? 'PASS' : 'FAIL'}`);
+      return hasOutline;
+    } catch (error) {
+      logger.error('[PDF Verification] Outline verification failed', { error });
+      return false;
+    }
+  }
+
   /**
    * Write PDF buffer to temporary file
    */
@@ -16,6 +16,12 @@ import { logger } from '../../../lib/logger';
 // Matches generic/auto-generated bookmark titles
 const GENERIC_TITLE_RE = /^(section|chapter|untitled|bookmark|\d+)([\s\d.:-]*)$/i;
 
+/** True when a bookmark title is empty or generic ("Section 3", "Untitled", "12"). */
+export function isGenericBookmarkTitle(title: string): boolean {
+  const trimmed = title.trim();
+  return !trimmed || GENERIC_TITLE_RE.test(trimmed);
+}
+
 // Minimum pages before bookmark checks apply
 const MIN_PAGES_FOR_BOOKMARKS = 10;
 // Minimum pages before coverage check applies
@@ -95,7 +101,7 @@ class PdfBookmarkValidator {
     for (const item of items) {
       const title = (item.title ?? '').trim();
 
-      if (!title || GENERIC_TITLE_RE.test(title)) {
+      if (isGenericBookmarkTitle(title)) {
         issues.push({
           id: `bookmark-${++this.issueCounter}`,
           source: 'bookmark-validator',
@@ -18,6 +18,11 @@ const GENERIC_NAME_RE = /^(field|text|input|form|widget|textbox|checkbox|radio|b
 const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 const NUMERIC_ONLY_RE = /^\d+$/;
 
+/** True for auto-generated field names / tooltips such as "Text1", a UUID or a bare number. */
+export function isGenericFieldLabel(text: string): boolean {
+  return GENERIC_NAME_RE.test(text) || UUID_RE.test(text) || NUMERIC_ONLY_RE.test(text);
+}
+
 class PdfFormValidator {
   name = 'PdfFormValidator';
   private issueCounter = 0;
@@ -56,12 +61,8 @@ class PdfFormValidator {
     const boundingBox = this.buildBoundingBox(field, pageWidth, pageHeight);
 
     const hasNoLabel = !label;
-    const hasGenericLabel = label
-      ? (GENERIC_NAME_RE.test(label) || UUID_RE.test(label) || NUMERIC_ONLY_RE.test(label))
-      : false;
-    const hasGenericName = name
-      ? (GENERIC_NAME_RE.test(name) || UUID_RE.test(name) || NUMERIC_ONLY_RE.test(name))
-      : true;
+    const hasGenericLabel = label ? isGenericFieldLabel(label) : false;
+    const hasGenericName = name ? isGenericFieldLabel(name) : true;
 
     if (hasNoLabel && hasGenericName) {
       // Worst case: no tooltip and the field name itself is also non-descriptive
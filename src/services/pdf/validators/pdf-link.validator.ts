@@ -21,6 +21,16 @@ const GENERIC_PHRASES = new Set([
 
 const URL_AS_TEXT_RE = /^https?:\/\/|^www\./i;
 
+/** True when link text is a raw URL ("https://…", "www.…"). */
+export function isUrlLinkText(text: string): boolean {
+  return URL_AS_TEXT_RE.test(text.trim());
+}
+
+/** True for generic link phrases such as "click here" or "read more". */
+export function isGenericLinkText(text: string): boolean {
+  return GENERIC_PHRASES.has(text.trim().toLowerCase());
+}
+
 class PdfLinkValidator {
   name = 'PdfLinkValidator';
   private issueCounter = 0;
@@ -44,7 +54,7 @@ class PdfLinkValidator {
   private checkLink(link: PdfLink, pageNumber: number, pageWidth: number, pageHeight: number): AuditIssue | null {
     const text = link.text?.trim() ?? '';
 
-    if (URL_AS_TEXT_RE.test(text)) {
+    if (isUrlLinkText(text)) {
       return this.createIssue(
         pageNumber,
         link,
@@ -57,7 +67,7 @@ class PdfLinkValidator {
       );
     }
 
-    if (GENERIC_PHRASES.has(text.toLowerCase())) {
+    if (isGenericLinkText(text)) {
       return this.createIssue(
         pageNumber,
         link,
@@ -0,0 +1,1033 @@
+/**
+ * PDF Matterhorn Validator
+ *
+ * Built-in TypeScript checks for Matterhorn Protocol 1.1 machine conditions
+ * that the other validators skip and that otherwise need veraPDF (Java).
+ * Everything is read straight from the pdf-lib object graph — the catalog,
+ * the structure tree, the RoleMap and the page annotations.
+ *
+ * Implemented conditions:
+ *   CP02-001  Non-standard type whose mapping does not end in a standard type
+ *   CP02-003  Circular RoleMap mapping
+ *   CP02-004  Standard type remapped
+ *   CP06-001  No XMP metadata stream
+ *   CP06-003  XMP metadata without dc:title
+ *   CP07-001  ViewerPreferences without DisplayDocTitle
+ *   CP07-002  DisplayDocTitle is false
+ *   CP09-004  Table elements outside Table / THead / TBody / TFoot / TR nesting
+ *   CP09-005  List elements outside L / LI nesting
+ *   CP09-006  TOCI outside TOC, or TOC with other children
+ *   CP09-007  RB / RT / RP outside Ruby
+ *   CP09-008  WT / WP outside Warichu
+ *   CP11-001  Structure element whose /Lang is empty or not a language tag
+ *   CP11-002  Alt / ActualText / E with no determinable language
+ *   CP11-003  Outline entries with no determinable language
+ *   CP11-004  Annotation Contents with no determinable language
+ *   CP11-005  Form field TU with no determinable language
+ *   CP11-006  Document metadata with no determinable language
+ *   CP14-002  Numbered headings that do not start with H1
+ *   CP14-006  Element with more than one H child
+ *   CP14-007  Both H and H1–H6 used
+ *   CP28-002  Annotation (not Widget / Link / PrinterMark / Popup) outside an Annot tag
+ *   CP28-004  Annotation without Contents or Alt
+ *   CP28-005  Form field without TU or Alt
+ *   CP28-007  TrapNet annotation
+ *   CP28-008  Page with annotations but no /Tabs
+ *   CP28-009  Page with annotations and /Tabs other than /S
+ *   CP28-010  Widget annotation outside a Form tag
+ *   CP28-011  Link annotation outside a Link tag
+ *   CP28-012  Link annotation without Contents
+ *   CP28-014  Media clip data without CT
+ *   CP28-015  Media clip data without Alt
+ *   CP28-017  PrinterMark annotation in the logical structure
+ *
+ * Structure elements with no content at all are reported too (no Matterhorn
+ * condition; TD / TH are exempt since empty cells keep a table's grid).
+ *
+ * Hidden annotations (flag bit 2) are not rendered, so only CP28-007 applies
+ * to them. Structure-element issues are grouped per page and condition.
+ */
+
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObject,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  decodePDFRawStream,
+} from 'pdf-lib';
+import { AuditIssue } from '../../audit/base-audit.service';
+import { ParsedPDF } from '../pdf-parser.service';
+import { STANDARD_STRUCTURE_TYPES } from '../../../schemas/pdf-reading-order.schemas';
+import { logger } from '../../../lib/logger';
+
+/** Matterhorn conditions this validator evaluates on every document it reads. */
+export const MATTERHORN_VALIDATOR_CONDITIONS: readonly string[] = [
+  '02-001', '02-003', '02-004',
+  '06-001', '06-003',
+  '07-001', '07-002',
+  '09-004', '09-005', '09-006', '09-007', '09-008',
+  '11-001', '11-002', '11-003', '11-004', '11-005', '11-006',
+  '14-002', '14-006', '14-007',
+  '28-002', '28-004', '28-005', '28-007', '28-008', '28-009',
+  '28-010', '28-011', '28-012', '28-014', '28-015', '28-017',
+];
+
+export interface MatterhornValidationResult {
+  issues: AuditIssue[];
+  /** Conditions evaluated for this document — a condition here without an issue passed */
+  testedConditions: string[];
+  metadata: {
+    structureElements: number;
+    annotations: number;
+  };
+}
+
+const STANDARD_TYPES: ReadonlySet<string> = new Set(STANDARD_STRUCTURE_TYPES);
+
+/** Allowed parent roles of an element role (ISO 32000-1, Tables 333, 336–338). */
+const PARENT_RULES: Record<string, { parents: string[]; condition: string }> = {
+  TR: { parents: ['Table', 'THead', 'TBody', 'TFoot'], condition: '09-004' },
+  TH: { parents: ['TR'], condition: '09-004' },
+  TD: { parents: ['TR'], condition: '09-004' },
+  THead: { parents: ['Table'], condition: '09-004' },
+  TBody: { parents: ['Table'], condition: '09-004' },
+  TFoot: { parents: ['Table'], condition: '09-004' },
+  LI: { parents: ['L'], condition: '09-005' },
+  LBody: { parents: ['LI'], condition: '09-005' },
+  TOCI: { parents: ['TOC'], condition: '09-006' },
+  RB: { parents: ['Ruby'], condition: '09-007' },
+  RT: { parents: ['Ruby'], condition: '09-007' },
+  RP: { parents: ['Ruby'], condition: '09-007' },
+  WT: { parents: ['Warichu'], condition: '09-008' },
+  WP: { parents: ['Warichu'], condition: '09-008' },
+};
+
+/** Allowed child roles of an element role. */
+const CHILD_RULES: Record<string, { children: string[]; condition: string }> = {
+  Table: { children: ['TR', 'THead', 'TBody', 'TFoot', 'Caption'], condition: '09-004' },
+  THead: { children: ['TR'], condition: '09-004' },
+  TBody: { children: ['TR'], condition: '09-004' },
+  TFoot: { children: ['TR'], condition: '09-004' },
+  TR: { children: ['TH', 'TD'], condition: '09-004' },
+  L: { children: ['LI', 'L', 'Caption'], condition: '09-005' },
+  LI: { children: ['Lbl', 'LBody'], condition: '09-005' },
+  TOC: { children: ['TOCI', 'TOC', 'Caption'], condition: '09-006' },
+  Ruby: { children: ['RB', 'RT', 'RP'], condition: '09-007' },
+  Warichu: { children: ['WT', 'WP'], condition: '09-008' },
+};
+
+/** BCP 47-shaped language tag: "en", "en-GB", "zh-Hant-TW", "x-klingon". */
+const LANGUAGE_TAG_RE = /^([A-Za-z]{2,3}|[xXiI])(-[A-Za-z0-9]{1,8})*$/;
+
+const HIDDEN_FLAG = 1 << 1;
+
+interface StructElem {
+  dict: PDFDict;
+  /** Raw /S */
+  type: string;
+  /** Standard type /S resolves to through the RoleMap (the raw type when it does not resolve) */
+  role: string;
+  parent: StructElem | null;
+  children: StructElem[];
+  /** Effective language: the nearest /Lang, else the catalog's; null when none */
+  lang: string | null;
+  pageNumber?: number;
+  hasContent: boolean;
+}
+
+interface PageInfo {
+  pageNumber: number;
+  height: number;
+  width: number;
+}
+
+/** Issues of one condition on one page, reported as a single grouped issue. */
+interface GroupedFinding {
+  condition: string;
+  pageNumber?: number;
+  details: string[];
+}
+
+class PdfMatterhornValidator {
+  name = 'PdfMatterhornValidator';
+  private issueCounter = 0;
+
+  async validate(parsedPdf: ParsedPDF): Promise<MatterhornValidationResult> {
+    const doc = parsedPdf?.pdfLibDoc;
+    if (!doc) {
+      logger.warn('[PdfMatterhornValidator] pdfLibDoc not available — skipping');
+      return { issues: [], testedConditions: [], metadata: { structureElements: 0, annotations: 0 } };
+    }
+
+    this.issueCounter = 0;
+    const issues: AuditIssue[] = [];
+    const lookup = (obj: PDFObject | undefined): PDFObject | undefined =>
+      obj instanceof PDFRef ? doc.context.lookup(obj) : obj;
+
+    const pages = new Map<string, PageInfo>();
+    doc.getPages().forEach((page, i) => {
+      const { width, height } = page.getSize();
+      pages.set(page.ref.toString(), { pageNumber: i + 1, width, height });
+    });
+
+    const catalog = doc.catalog;
+    const catalogLang = this.text(lookup(catalog.get(PDFName.of('Lang'))));
+    const documentLang = catalogLang !== undefined && LANGUAGE_TAG_RE.test(catalogLang.trim()) ? catalogLang.trim() : null;
+    if (catalogLang !== undefined && documentLang === null) {
+      issues.push(this.createIssue({
+        condition: '11-001',
+        code: 'MATTERHORN-11-001',
+        severity: 'serious',
+        message: `Document /Lang "${catalogLang}" is not a valid language tag`,
+        location: 'Document catalog',
+        category: 'language',
+        suggestion: 'Set the catalog /Lang to a BCP 47 language tag such as "en" or "en-GB".',
+        wcagCriteria: ['3.1.1'],
+      }));
+    }
+
+    // ── Structure tree ──────────────────────────────────────────────────────
+    const root = lookup(catalog.get(PDFName.of('StructTreeRoot')));
+    const roleMap = root instanceof PDFDict ? lookup(root.get(PDFName.of('RoleMap'))) : undefined;
+    const roles = this.readRoleMap(roleMap instanceof PDFDict ? roleMap : undefined, lookup);
+    issues.push(...this.checkRoleMap(roles));
+
+    const elements: StructElem[] = [];
+    /** Annotation ref → enclosing structure element, from OBJR kids */
+    const annotParents = new Map<string, StructElem>();
+    if (root instanceof PDFDict) {
+      this.walkStructTree(root, documentLang, roles, pages, lookup, elements, annotParents);
+    }
+
+    const grouped: GroupedFinding[] = [];
+    const note = (condition: string, pageNumber: number | undefined, detail: string) => {
+      let finding = grouped.find((g) => g.condition === condition && g.pageNumber === pageNumber);
+      if (!finding) {
+        finding = { condition, pageNumber, details: [] };
+        grouped.push(finding);
+      }
+      finding.details.push(detail);
+    };
+
+    const unresolved = new Set<string>();
+    for (const elem of elements) {
+      if (!STANDARD_TYPES.has(elem.type) && !STANDARD_TYPES.has(elem.role) && !roles.has(elem.type)) {
+        unresolved.add(elem.type);
+      }
+      this.checkNesting(elem, note);
+      this.checkLanguage(elem, note);
+      if (!elem.hasContent && elem.role !== 'TD' && elem.role !== 'TH') {
+        note('empty', elem.pageNumber, elem.type);
+      }
+    }
+    for (const type of unresolved) {
+      issues.push(this.createIssue({
+        condition: '02-001',
+        code: 'MATTERHORN-02-001',
+        severity: 'serious',
+        message: `Non-standard structure type "${type}" is not mapped to a standard type in the RoleMap`,
+        location: 'Structure tree → RoleMap',
+        category: 'structure',
+        suggestion: `Add a RoleMap entry mapping "${type}" to a standard structure type, or retag the elements.`,
+        wcagCriteria: ['1.3.1'],
+      }));
+    }
+    issues.push(...this.checkHeadings(elements));
+    issues.push(...grouped.map((g) => this.groupedIssue(g)));
+
+    // ── Metadata and viewer preferences ─────────────────────────────────────
+    issues.push(...this.checkMetadata(doc, lookup, documentLang));
+
+    // ── Outlines ────────────────────────────────────────────────────────────
+    const outlines = lookup(catalog.get(PDFName.of('Outlines')));
+    if (outlines instanceof PDFDict && outlines.get(PDFName.of('First')) && documentLang === null) {
+      issues.push(this.createIssue({
+        condition: '11-003',
+        code: 'MATTERHORN-11-003',
+        severity: 'moderate',
+        message: 'Language of the bookmark (outline) entries cannot be determined',
+        location: 'Document outline',
+        category: 'language',
+        suggestion: 'Set the document language (/Lang in the catalog); outline entries take it from there.',
+        wcagCriteria: ['3.1.1'],
+      }));
+    }
+
+    // ── Annotations ─────────────────────────────────────────────────────────
+    const parentTree = this.readParentTree(root instanceof PDFDict ? root : undefined, lookup, elements);
+    let annotationCount = 0;
+    doc.getPages().forEach((page, i) => {
+      const pageInfo = pages.get(page.ref.toString())!;
+      const annots = lookup(page.node.get(PDFName.of('Annots')));
+      if (!(annots instanceof PDFArray)) return;
+
+      let pageHasAnnotations = false;
+      for (const entry of annots.asArray()) {
+        const annot = lookup(entry);
+        if (!(annot instanceof PDFDict)) continue;
+        annotationCount++;
+        pageHasAnnotations = true;
+        const structParent = lookup(annot.get(PDFName.of('StructParent')));
+        const elem = (entry instanceof PDFRef ? annotParents.get(entry.toString()) : undefined) ??
+          (structParent instanceof PDFNumber ? parentTree.get(structParent.asNumber()) : undefined);
+        issues.push(...this.checkAnnotation(annot, elem, pageInfo, lookup, documentLang));
+      }
+
+      if (pageHasAnnotations) {
+        const tabs = lookup(page.node.get(PDFName.of('Tabs')));
+        if (!(tabs instanceof PDFName)) {
+          issues.push(this.tabsIssue('28-008', i + 1, 'has annotations but no /Tabs entry'));
+        } else if (tabs !== PDFName.of('S')) {
+          issues.push(this.tabsIssue('28-009', i + 1, `has annotations and /Tabs ${tabs.toString()} instead of /S`));
+        }
+      }
+    });
+
+    logger.info(
+      `[PdfMatterhornValidator] ${elements.length} structure element(s), ${annotationCount} annotation(s): ${issues.length} issue(s)`
+    );
+
+    return {
+      issues,
+      testedConditions: [...MATTERHORN_VALIDATOR_CONDITIONS],
+      metadata: { structureElements: elements.length, annotations: annotationCount },
+    };
+  }
+
+  // ─── CP02: Role Mapping ──────────────────────────────────────────────────────
+
+  private readRoleMap(
+    roleMap: PDFDict | undefined,
+    lookup: (obj: PDFObject | undefined) => PDFObject | undefined
+  ): Map<string, string> {
+    const roles = new Map<string, string>();
+    if (!roleMap) return roles;
+    for (const [key, value] of roleMap.entries()) {
+      const target = lookup(value);
+      if (target instanceof PDFName) roles.set(key.decodeText(), target.decodeText());
+    }
+    return roles;
+  }
+
+  /** Follow the RoleMap from a type: the standard type it ends in, or why it does not. */
+  private resolveRole(type: string, roles: Map<string, string>): { role: string | null; cycle: string[] | null } {
+    const chain = [type];
+    let current = type;
+    while (roles.has(current)) {
+      current = roles.get(current)!;
+      if (chain.includes(current)) return { role: null, cycle: chain.slice(chain.indexOf(current)) };
+      chain.push(current);
+      if (STANDARD_TYPES.has(current)) return { role: current, cycle: null };
+    }
+    return { role: STANDARD_TYPES.has(current) ? current : null, cycle: null };
+  }
+
+  /**
+   * CP02-001: a mapping that ends in a non-standard type.
+   * CP02-003: a circular mapping (reported once per cycle).
+   * CP02-004: a standard type used as a RoleMap key.
+   */
+  private checkRoleMap(roles: Map<string, string>): AuditIssue[] {
+    const issues: AuditIssue[] = [];
+    const cycles = new Set<string>();
+
+    for (const [type, target] of roles) {
+      if (STANDARD_TYPES.has(type)) {
+        issues.push(this.createIssue({
+          condition: '02-004',
+          code: 'MATTERHORN-02-004',
+          severity: 'serious',
+          message: `Standard structure type "${type}" is remapped to "${target}" in the RoleMap`,
+          location: 'Structure tree → RoleMap',
+          category: 'structure',
+          suggestion: `Remove the RoleMap entry for "${type}"; standard types must keep their meaning.`,
+          wcagCriteria: ['1.3.1'],
+        }));
+        continue;
+      }
+
+      const { role, cycle } = this.resolveRole(type, roles);
+      if (cycle) {
+        const key = [...cycle].sort().join('|');
+        if (cycles.has(key)) continue;
+        cycles.add(key);
+        issues.push(this.createIssue({
+          condition: '02-003',
+          code: 'MATTERHORN-02-003',
+          severity: 'serious',
+          message: `Circular RoleMap mapping: ${[...cycle, cycle[0]].join(' → ')}`,
+          location: 'Structure tree → RoleMap',
+          category: 'structure',
+          suggestion: 'Break the cycle so each non-standard type maps, directly or in a chain, to a standard type.',
+          wcagCriteria: ['1.3.1'],
+        }));
+      } else if (!role) {
+        issues.push(this.createIssue({
+          condition: '02-001',
+          code: 'MATTERHORN-02-001',
+          severity: 'serious',
+          message: `RoleMap mapping of "${type}" does not end in a standard structure type`,
+          location: 'Structure tree → RoleMap',
+          category: 'structure',
+          suggestion: `Map "${type}" to a standard structure type such as P, Span or Div.`,
+          wcagCriteria: ['1.3.1'],
+        }));
+      }
+    }
+
+    return issues;
+  }
+
+  // ─── Structure tree walk ─────────────────────────────────────────────────────
+
+  private walkStructTree(
+    root: PDFDict,
+    documentLang: string | null,
+    roles: Map<string, string>,
+    pages: Map<string, PageInfo>,
+    lookup: (obj: PDFObject | undefined) => PDFObject | undefined,
+    elements: StructElem[],
+    annotParents: Map<string, StructElem>
+  ): void {
+    const seen = new Set<PDFDict>();
+
+    const visit = (dict: PDFDict, parent: StructElem | null, inheritedPage: number | undefined) => {
+      if (seen.has(dict)) return;
+      seen.add(dict);
+
+      const type = this.nameOf(lookup(dict.get(PDFName.of('S')))) ?? '';
+      const ownLang = this.text(lookup(dict.get(PDFName.of('Lang'))));
+      const pg = dict.get(PDFName.of('Pg'));
+      const elem: StructElem = {
+        dict,
+        type,
+        role: STANDARD_TYPES.has(type) ? type : this.resolveRole(type, roles).role ?? type,
+        parent,
+        children: [],
+        lang: ownLang !== undefined ? ownLang.trim() : parent ? parent.lang : documentLang,
+        pageNumber: (pg instanceof PDFRef ? pages.get(pg.toString())?.pageNumber : undefined) ?? inheritedPage,
+        hasContent: false,
+      };
+      elements.push(elem);
+      parent?.children.push(elem);
+
+      const k = lookup(dict.get(PDFName.of('K')));
+      const kids = k instanceof PDFArray ? k.asArray() : k === undefined ? [] : [k];
+      for (const kidEntry of kids) {
+        const kid = lookup(kidEntry);
+        if (kid instanceof PDFNumber) {
+          elem.hasContent = true;
+        } else if (kid instanceof PDFDict) {
+          const kidType = this.nameOf(lookup(kid.get(PDFName.of('Type'))));
+          if (kidType === 'MCR') {
+            elem.hasContent = true;
+            const mcrPage = kid.get(PDFName.of('Pg'));
+            if (elem.pageNumber === undefined && mcrPage instanceof PDFRef) {
+              elem.pageNumber = pages.get(mcrPage.toString())?.pageNumber;
+            }
+          } else if (kidType === 'OBJR') {
+            elem.hasContent = true;
+            const obj = kid.get(PDFName.of('Obj'));
+            if (obj instanceof PDFRef) annotParents.set(obj.toString(), elem);
+          } else if (kid.has(PDFName.of('S'))) {
+            elem.hasContent = true;
+            visit(kid, elem, elem.pageNumber);
+          }
+        }
+      }
+    };
+
+    const k = lookup(root.get(PDFName.of('K')));
+    const kids = k instanceof PDFArray ? k.asArray() : k === undefined ? [] : [k];
+    for (const kid of kids) {
+      const dict = lookup(kid);
+      if (dict instanceof PDFDict) visit(dict, null, undefined);
+    }
+  }
+
+  /** StructParent key → structure element, from the ParentTree number tree. */
+  private readParentTree(
+    root: PDFDict | undefined,
+    lookup: (obj: PDFObject | undefined) => PDFObject | undefined,
+    elements: StructElem[]
+  ): Map<number, StructElem> {
+    const byDict = new Map(elements.map((e) => [e.dict, e]));
+    const result = new Map<number, StructElem>();
+    const seen = new Set<PDFDict>();
+
+    const visit = (node: PDFObject | undefined) => {
+      const dict = lookup(node);
+      if (!(dict instanceof PDFDict) || seen.has(dict)) return;
+      seen.add(dict);
+      const nums = lookup(dict.get(PDFName.of('Nums')));
+      if (nums instanceof PDFArray) {
+        for (let i = 0; i + 1 < nums.size(); i += 2) {
+          const key = lookup(nums.get(i));
+          const value = lookup(nums.get(i + 1));
+          const elem = value instanceof PDFDict ? byDict.get(value) : undefined;
+          if (key instanceof PDFNumber && elem) result.set(key.asNumber(), elem);
+        }
+      }
+      const kids = lookup(dict.get(PDFName.of('Kids')));
+      if (kids instanceof PDFArray) kids.asArray().forEach(visit);
+    };
+
+    if (root) visit(root.get(PDFName.of('ParentTree')));
+    return result;
+  }
+
+  // ─── CP09: Appropriate Tags ──────────────────────────────────────────────────
+
+  private checkNesting(elem: StructElem, note: (condition: string, page: number | undefined, detail: string) => void): void {
+    const parentRule = PARENT_RULES[elem.role];
+    if (parentRule && !parentRule.parents.includes(elem.parent?.role ?? '')) {
+      note(parentRule.condition, elem.pageNumber, `${elem.type} inside ${elem.parent?.type ?? 'the structure root'}`);
+    }
+
+    const childRule = CHILD_RULES[elem.role];
+    if (childRule) {
+      for (const child of elem.children) {
+        if (!childRule.children.includes(child.role)) {
+          note(childRule.condition, child.pageNumber ?? elem.pageNumber, `${child.type} inside ${elem.type}`);
+        }
+      }
+    }
+  }
+
+  // ─── CP11: Declared Natural Language ─────────────────────────────────────────
+
+  /**
+   * CP11-001: the element's own /Lang is empty or not a language tag, so the
+   *           language of its content cannot be determined.
+   * CP11-002: Alt / ActualText / E on an element with no determinable language.
+   */
+  private checkLanguage(elem: StructElem, note: (condition: string, page: number | undefined, detail: string) => void): void {
+    const ownLang = this.text(elem.dict.get(PDFName.of('Lang')));
+    const langKnown = elem.lang !== null && LANGUAGE_TAG_RE.test(elem.lang);
+
+    if (ownLang !== undefined && !LANGUAGE_TAG_RE.test(ownLang.trim())) {
+      note('11-001', elem.pageNumber, ownLang.trim() ? `${elem.type} /Lang "${ownLang}"` : `${elem.type} with an empty /Lang`);
+    }
+    if (!langKnown) {
+      const alternates = ['Alt', 'ActualText', 'E'].filter((key) => {
+        const value = this.text(elem.dict.get(PDFName.of(key)));
+        return value !== undefined && value.trim().length > 0;
+      });
+      if (alternates.length > 0) note('11-002', elem.pageNumber, `${elem.type} /${alternates.join(', /')}`);
+    }
+  }
+
+  // ─── CP14: Headings ──────────────────────────────────────────────────────────
+
+  /**
+   * CP14-002: numbered headings are used but the first one is not H1.
+   * CP14-006: an element has more than one H child.
+   * CP14-007: both H and H1–H6 are used.
+   */
+  private checkHeadings(elements: StructElem[]): AuditIssue[] {
+    const issues: AuditIssue[] = [];
+    const numbered = elements.filter((e) => /^H[1-6]$/.test(e.role));
+    const plain = elements.filter((e) => e.role === 'H');
+
+    if (numbered.length > 0 && numbered[0].role !== 'H1') {
+      issues.push(this.createIssue({
+        condition: '14-002',
+        code: 'MATTERHORN-14-002',
+        severity: 'moderate',
+        message: `The first numbered heading is ${numbered[0].role}, not H1`,
+        location: 'Structure tree → headings',
+        category: 'headings',
+        suggestion: 'Start the numbered heading hierarchy with an H1.',
+        pageNumber: numbered[0].pageNumber,
+        wcagCriteria: ['1.3.1', '2.4.6'],
+      }));
+    }
+
+    if (numbered.length > 0 && plain.length > 0) {
+      issues.push(this.createIssue({
+        condition: '14-007',
+        code: 'MATTERHORN-14-007',
+        severity: 'moderate',
+        message: `Document uses both H (${plain.length}) and numbered H1–H6 (${numbered.length}) headings`,
+        location: 'Structure tree → headings',
+        category: 'headings',
+        suggestion: 'Use either unnumbered H headings nested in sections or numbered H1–H6 headings, not both.',
+        pageNumber: plain[0].pageNumber,
+        wcagCriteria: ['1.3.1'],
+      }));
+    }
+
+    const parentsWithSeveralH = new Set(plain.map((h) => h.parent).filter((p) => p && p.children.filter((c) => c.role === 'H').length > 1));
+    for (const parent of parentsWithSeveralH) {
+      issues.push(this.createIssue({
+        condition: '14-006',
+        code: 'MATTERHORN-14-006',
+        severity: 'moderate',
+        message: `${parent!.type} element contains more than one H heading`,
+        location: 'Structure tree → headings',
+        category: 'headings',
+        suggestion: 'Give each section one H heading; wrap further headed parts in their own Sect elements.',
+        pageNumber: parent!.pageNumber,
+        wcagCriteria: ['1.3.1'],
+      }));
+    }
+
+    return issues;
+  }
+
+  // ─── CP06 / CP07 / CP11-006: Metadata ────────────────────────────────────────
+
+  private checkMetadata(
+    doc: ParsedPDF['pdfLibDoc'],
+    lookup: (obj: PDFObject | undefined) => PDFObject | undefined,
+    documentLang: string | null
+  ): AuditIssue[] {
+    const issues: AuditIssue[] = [];
+    const metadata = lookup(doc.catalog.get(PDFName.of('Metadata')));
+    const xmp = metadata instanceof PDFStream ? this.streamText(metadata) : undefined;
+
+    if (!(metadata instanceof PDFStream)) {
+      issues.push(this.createIssue({
+        condition: '06-001',
+        code: 'MATTERHORN-06-001',
+        severity: 'moderate',
+        message: 'Document does not contain an XMP metadata stream',
+        location: 'Document metadata',
+        category: 'metadata',
+        suggestion: 'Add an XMP metadata stream to the catalog with the title and the PDF/UA identifier.',
+        wcagCriteria: ['2.4.2'],
+      }));
+    } else if (xmp !== undefined && !/<dc:title[\s>]/.test(xmp)) {
+      issues.push(this.createIssue({
+        condition: '06-003',
+        code: 'MATTERHORN-06-003',
+        severity: 'moderate',
+        message: 'XMP metadata does not contain dc:title',
+        location: 'Document metadata',
+        category: 'metadata',
+        suggestion: 'Add the document title to the XMP metadata as dc:title.',
+        wcagCriteria: ['2.4.2'],
+      }));
+    }
+
+    const viewerPrefs = lookup(doc.catalog.get(PDFName.of('ViewerPreferences')));
+    const displayDocTitle = viewerPrefs instanceof PDFDict ? lookup(viewerPrefs.get(PDFName.of('DisplayDocTitle'))) : undefined;
+    if (!(displayDocTitle instanceof PDFBool)) {
+      issues.push(this.createIssue({
+        condition: '07-001',
+        code: 'MATTERHORN-07-001',
+        severity: 'moderate',
+        message: 'ViewerPreferences does not contain a DisplayDocTitle entry',
+        location: 'Document catalog → ViewerPreferences',
+        category: 'metadata',
+        suggestion: 'Set /ViewerPreferences /DisplayDocTitle true so viewers show the title instead of the file name.',
+        wcagCriteria: ['2.4.2'],
+      }));
+    } else if (!displayDocTitle.asBoolean()) {
+      issues.push(this.createIssue({
+        condition: '07-002',
+        code: 'MATTERHORN-07-002',
+        severity: 'moderate',
+        message: 'ViewerPreferences DisplayDocTitle is false',
+        location: 'Document catalog → ViewerPreferences',
+        category: 'metadata',
+        suggestion: 'Set /ViewerPreferences /DisplayDocTitle true so viewers show the title instead of the file name.',
+        wcagCriteria: ['2.4.2'],
+      }));
+    }
+
+    const info = lookup(doc.context.trailerInfo.Info as PDFObject | undefined);
+    const hasInfoText = info instanceof PDFDict && info.entries().some(([, v]) => this.text(lookup(v))?.trim());
+    if ((metadata instanceof PDFStream || hasInfoText) && documentLang === null) {
+      issues.push(this.createIssue({
+        condition: '11-006',
+        code: 'MATTERHORN-11-006',
+        severity: 'moderate',
+        message: 'Language of the document metadata cannot be determined',
+        location: 'Document metadata',
+        category: 'language',
+        suggestion: 'Set the document language (/Lang in the catalog); metadata takes it from there.',
+        wcagCriteria: ['3.1.1'],
+      }));
+    }
+
+    return issues;
+  }
+
+  // ─── CP28: Annotations ───────────────────────────────────────────────────────
+
+  private checkAnnotation(
+    annot: PDFDict,
+    elem: StructElem | undefined,
+    page: PageInfo,
+    lookup: (obj: PDFObject | undefined) => PDFObject | undefined,
+    documentLang: string | null
+  ): AuditIssue[] {
+    const issues: AuditIssue[] = [];
+    const subtype = this.nameOf(lookup(annot.get(PDFName.of('Subtype')))) ?? 'Unknown';
+    const boundingBox = this.annotBBox(annot, page, lookup);
+    const at = { pageNumber: page.pageNumber, boundingBox, location: `Page ${page.pageNumber} → ${subtype} annotation` };
+
+    if (subtype === 'TrapNet') {
+      issues.push(this.createIssue({
+        ...at,
+        condition: '28-007',
+        code: 'MATTERHORN-28-007',
+        severity: 'serious',
+        message: `TrapNet annotation on page ${page.pageNumber}`,
+        category: 'annotations',
+        suggestion: 'Remove the TrapNet annotation; PDF/UA does not allow it.',
+      }));
+    }
+
+    const flags = lookup(annot.get(PDFName.of('F')));
+    if (flags instanceof PDFNumber && (flags.asNumber() & HIDDEN_FLAG) !== 0) return issues;
+    if (subtype === 'Popup') return issues;
+
+    const alt = elem ? this.text(elem.dict.get(PDFName.of('Alt')))?.trim() : undefined;
+    const contents = this.text(lookup(annot.get(PDFName.of('Contents'))))?.trim();
+    const elemLangKnown = elem ? elem.lang !== null && LANGUAGE_TAG_RE.test(elem.lang) : documentLang !== null;
+
+    if (subtype === 'PrinterMark') {
+      if (elem) {
+        issues.push(this.createIssue({
+          ...at,
+          condition: '28-017',
+          code: 'MATTERHORN-28-017',
+          severity: 'moderate',
+          message: `PrinterMark annotation on page ${page.pageNumber} is included in the logical structure`,
+          category: 'annotations',
+          suggestion: 'Remove the PrinterMark annotation from the structure tree; it is not content.',
+        }));
+      }
+      return issues;
+    }
+
+    if (subtype === 'Widget') {
+      if (elem?.role !== 'Form') {
+        issues.push(this.createIssue({
+          ...at,
+          condition: '28-010',
+          code: 'MATTERHORN-28-010',
+          severity: 'serious',
+          message: `Form field widget on page ${page.pageNumber} is not nested within a Form tag` +
+            (elem ? ` (found in ${elem.type})` : ''),
+          category: 'forms',
+          suggestion: 'Tag each widget annotation with a Form structure element holding an OBJR to it.',
+          wcagCriteria: ['1.3.1', '4.1.2'],
+        }));
+      }
+      const tooltip = this.inheritedFieldText(annot, 'TU', lookup);
+      if (!tooltip && !alt) {
+        issues.push(this.createIssue({
+          ...at,
+          condition: '28-005',
+          code: 'MATTERHORN-28-005',
+          severity: 'serious',
+          message: `Form field on page ${page.pageNumber} has no TU entry and no Alt on its Form tag`,
+          category: 'forms',
+          suggestion: 'Give the form field a tooltip (/TU) describing it.',
+          wcagCriteria: ['1.3.1', '4.1.2'],
+        }));
+      } else if (tooltip && !elemLangKnown) {
+        issues.push(this.createIssue({
+          ...at,
+          condition: '11-005',
+          code: 'MATTERHORN-11-005',
+          severity: 'moderate',
+          message: `Language of the form field tooltip on page ${page.pageNumber} cannot be determined`,
+          category: 'language',
+          suggestion: 'Set the document language (/Lang in the catalog) or /Lang on the Form tag.',
+          wcagCriteria: ['3.1.1'],
+        }));
+      }
+      return issues;
+    }
+
+    if (subtype === 'Link') {
+      if (elem?.role !== 'Link') {
+        issues.push(this.createIssue({
+          ...at,
+          condition: '28-011',
+          code: 'MATTERHORN-28-011',
+          severity: 'serious',
+          message: `Link annotation on page ${page.pageNumber} is not nested within a Link tag` +
+            (elem ? ` (found in ${elem.type})` : ''),
+          category: 'links',
+          suggestion: 'Tag the link with a Link structure element holding the link text and an OBJR to the annotation.',
+          wcagCriteria: ['1.3.1', '2.4.4'],
+        }));
+      }
+      if (!contents) {
+        issues.push(this.createIssue({
+          ...at,
+          condition: '28-012',
+          code: 'MATTERHORN-28-012',
+          severity: 'serious',
+          message: `Link annotation on page ${page.pageNumber} has no alternate description in its Contents entry`,
+          category: 'links',
+          suggestion: 'Set /Contents on the link annotation to a description of the link target.',
+          wcagCriteria: ['2.4.4', '4.1.2'],
+        }));
+      }
+    } else {
+      if (elem?.role !== 'Annot') {
+        issues.push(this.createIssue({
+          ...at,
+          condition: '28-002',
+          code: 'MATTERHORN-28-002',
+          severity: 'serious',
+          message: `${subtype} annotation on page ${page.pageNumber} is not a direct child of an Annot tag` +
+            (elem ? ` (found in ${elem.type})` : ''),
+          category: 'annotations',
+          suggestion: 'Tag the annotation with an Annot structure element holding an OBJR to it.',
+          wcagCriteria: ['1.3.1'],
+        }));
+      }
+      if (!contents && !alt) {
+        issues.push(this.createIssue({
+          ...at,
+          condition: '28-004',
+          code: 'MATTERHORN-28-004',
+          severity: 'serious',
+          message: `${subtype} annotation on page ${page.pageNumber} has no Contents entry and no Alt on its tag`,
+          category: 'annotations',
+          suggestion: 'Set /Contents on the annotation (or /Alt on its Annot tag) to describe it.',
+          wcagCriteria: ['1.1.1'],
+        }));
+      }
+    }
+
+    if (contents && !elemLangKnown) {
+      issues.push(this.createIssue({
+        ...at,
+        condition: '11-004',
+        code: 'MATTERHORN-11-004',
+        severity: 'moderate',
+        message: `Language of the ${subtype} annotation's Contents on page ${page.pageNumber} cannot be determined`,
+        category: 'language',
+        suggestion: 'Set the document language (/Lang in the catalog) or /Lang on the annotation\'s tag.',
+        wcagCriteria: ['3.1.1'],
+      }));
+    }
+
+    if (subtype === 'Screen') issues.push(...this.checkMediaClip(annot, at, lookup));
+    return issues;
+  }
+
+  /** CP28-014 / CP28-015: media clip data of a Screen annotation's rendition action. */
+  private checkMediaClip(
+    annot: PDFDict,
+    at: { pageNumber: number; boundingBox?: AuditIssue['boundingBox']; location: string },
+    lookup: (obj: PDFObject | undefined) => PDFObject | undefined
+  ): AuditIssue[] {
+    const action = lookup(annot.get(PDFName.of('A')));
+    if (!(action instanceof PDFDict) || this.nameOf(lookup(action.get(PDFName.of('S')))) !== 'Rendition') return [];
+    const rendition = lookup(action.get(PDFName.of('R')));
+    const clip = rendition instanceof PDFDict ? lookup(rendition.get(PDFName.of('C'))) : undefined;
+    if (!(clip instanceof PDFDict) || this.nameOf(lookup(clip.get(PDFName.of('S')))) !== 'MCD') return [];
+
+    const issues: AuditIssue[] = [];
+    if (!this.text(lookup(clip.get(PDFName.of('CT'))))) {
+      issues.push(this.createIssue({
+        ...at,
+        condition: '28-014',
+        code: 'MATTERHORN-28-014',
+        severity: 'moderate',
+        message: `Media clip on page ${at.pageNumber} has no content type (CT)`,
+        category: 'multimedia',
+        suggestion: 'Set /CT on the media clip data dictionary to the MIME type of the media.',
+        wcagCriteria: ['1.2.1'],
+      }));
+    }
+    if (!lookup(clip.get(PDFName.of('Alt')))) {
+      issues.push(this.createIssue({
+        ...at,
+        condition: '28-015',
+        code: 'MATTERHORN-28-015',
+        severity: 'serious',
+        message: `Media clip on page ${at.pageNumber} has no alternate description (Alt)`,
+        category: 'multimedia',
+        suggestion: 'Add an /Alt multi-language text array describing the media clip.',
+        wcagCriteria: ['1.1.1', '1.2.1'],
+      }));
+    }
+    return issues;
+  }
+
+  /** A field entry on the widget or inherited from its /Parent field chain. */
+  private inheritedFieldText(
+    annot: PDFDict,
+    key: string,
+    lookup: (obj: PDFObject | undefined) => PDFObject | undefined
+  ): string | undefined {
+    let node: PDFObject | undefined = annot;
+    for (let depth = 0; node instanceof PDFDict && depth < 32; depth++) {
+      const value = this.text(lookup(node.get(PDFName.of(key))))?.trim();
+      if (value) return value;
+      node = lookup(node.get(PDFName.of('Parent')));
+    }
+    return undefined;
+  }
+
+  // ─── Helpers ─────────────────────────────────────────────────────────────────
+
+  private groupedIssue(finding: GroupedFinding): AuditIssue {
+    const page = finding.pageNumber !== undefined ? ` on page ${finding.pageNumber}` : '';
+    const sample = [...new Set(finding.details)].slice(0, 5).join('; ');
+    const count = finding.details.length;
+    const base = {
+      pageNumber: finding.pageNumber,
+      location: finding.pageNumber !== undefined ? `Page ${finding.pageNumber} → structure tree` : 'Structure tree',
+      context: sample,
+    };
+
+    switch (finding.condition) {
+      case '09-004':
+      case '09-005':
+      case '09-006':
+      case '09-007':
+      case '09-008': {
+        const kind = { '09-004': 'Table', '09-005': 'List', '09-006': 'TOC', '09-007': 'Ruby', '09-008': 'Warichu' }[finding.condition];
+        return this.createIssue({
+          ...base,
+          condition: finding.condition,
+          code: `MATTERHORN-${finding.condition}`,
+          severity: 'serious',
+          message: `${count} ${kind} structure element(s)${page} are nested incorrectly`,
+          category: 'structure',
+          suggestion: `Fix the ${kind} nesting so it follows ISO 32000-1 (e.g. ${
+            kind === 'Table' ? 'Table > TR > TH/TD' : kind === 'List' ? 'L > LI > Lbl/LBody' : kind === 'TOC' ? 'TOC > TOCI' : `${kind} > its parts`
+          }).`,
+          wcagCriteria: ['1.3.1'],
+        });
+      }
+      case '11-001':
+        return this.createIssue({
+          ...base,
+          condition: '11-001',
+          code: 'MATTERHORN-11-001',
+          severity: 'serious',
+          message: `${count} structure element(s)${page} have a /Lang that is empty or not a language tag`,
+          category: 'language',
+          suggestion: 'Set /Lang to a BCP 47 language tag (e.g. "fr") or remove it so the document language applies.',
+          wcagCriteria: ['3.1.2'],
+        });
+      case '11-002':
+        return this.createIssue({
+          ...base,
+          condition: '11-002',
+          code: 'MATTERHORN-11-002',
+          severity: 'moderate',
+          message: `Language of Alt / ActualText / E text of ${count} structure element(s)${page} cannot be determined`,
+          category: 'language',
+          suggestion: 'Set the document language (/Lang in the catalog) or /Lang on the elements.',
+          wcagCriteria: ['3.1.1'],
+        });
+      default:
+        return this.createIssue({
+          ...base,
+          condition: undefined,
+          code: 'PDF-EMPTY-STRUCTURE-ELEMENT',
+          severity: 'minor',
+          message: `${count} structure element(s)${page} have no content`,
+          category: 'structure',
+          suggestion: 'Remove empty structure elements or attach the content they were meant to tag.',
+          wcagCriteria: ['1.3.1'],
+        });
+    }
+  }
+
+  private tabsIssue(condition: '28-008' | '28-009', pageNumber: number, problem: string): AuditIssue {
+    return this.createIssue({
+      condition,
+      code: `MATTERHORN-${condition}`,
+      severity: 'moderate',
+      message: `Page ${pageNumber} ${problem}`,
+      location: `Page ${pageNumber}`,
+      category: 'annotations',
+      suggestion: 'Set /Tabs /S on the page so annotations are visited in structure order.',
+      pageNumber,
+      wcagCriteria: ['2.4.3'],
+    });
+  }
+
+  /** Annotation /Rect converted to the top-left boundingBox convention. */
+  private annotBBox(
+    annot: PDFDict,
+    page: PageInfo,
+    lookup: (obj: PDFObject | undefined) => PDFObject | undefined
+  ): AuditIssue['boundingBox'] {
+    const rect = lookup(annot.get(PDFName.of('Rect')));
+    if (!(rect instanceof PDFArray) || rect.size() !== 4) return undefined;
+    const nums = rect.asArray().map((n) => lookup(n));
+    if (!nums.every((n): n is PDFNumber => n instanceof PDFNumber)) return undefined;
+    const [x1, y1, x2, y2] = nums.map((n) => n.asNumber());
+    return {
+      x: Math.min(x1, x2),
+      y: page.height - Math.max(y1, y2),
+      width: Math.abs(x2 - x1),
+      height: Math.abs(y2 - y1),
+      pageWidth: page.width,
+      pageHeight: page.height,
+    };
+  }
+
+  private streamText(stream: PDFStream): string | undefined {
+    try {
+      const bytes = stream instanceof PDFRawStream ? decodePDFRawStream(stream).decode() : stream.getContents();
+      return Buffer.from(bytes).toString('utf8');
+    } catch (err) {
+      logger.debug(`[PdfMatterhornValidator] Could not decode metadata stream: ${err instanceof Error ? err.message : String(err)}`);
+      return undefined;
+    }
+  }
+
+  private text(obj: PDFObject | undefined): string | undefined {
+    return obj instanceof PDFString || obj instanceof PDFHexString ? obj.decodeText() : undefined;
+  }
+
+  private nameOf(obj: PDFObject | undefined): string | undefined {
+    return obj instanceof PDFName ? obj.decodeText() : undefined;
+  }
+
+  private createIssue(opts: {
+    condition: string | undefined;
+    code: string;
+    severity: AuditIssue['severity'];
+    message: string;
+    location: string;
+    category: string;
+    suggestion: string;
+    context?: string;
+    pageNumber?: number;
+    wcagCriteria?: string[];
+    boundingBox?: AuditIssue['boundingBox'];
+  }): AuditIssue {
+    return {
+      id: `matterhorn-${++this.issueCounter}`,
+      source: 'matterhorn-validator',
+      severity: opts.severity,
+      code: opts.code,
+      matterhornCheckpoint: opts.condition,
+      matterhornHow: opts.condition ? 'M' : undefined,
+      message: opts.message,
+      wcagCriteria: opts.wcagCriteria ?? [],
+      location: opts.location,
+      category: opts.category,
+      suggestion: opts.suggestion,
+      context: opts.context,
+      pageNumber: opts.pageNumber,
+      boundingBox: opts.boundingBox,
+    };
+  }
+}
+
+export const pdfMatterhornValidator = new PdfMatterhornValidator();
@@ -40,6 +40,7 @@ function getQueueForJobType(type: JobType): Queue<JobData, JobResult> | null {
     case JOB_TYPES.PDF_ACCESSIBILITY:
     case JOB_TYPES.EPUB_ACCESSIBILITY:
     case JOB_TYPES.BATCH_VALIDATION:
+    case JOB_TYPES.PDF_TO_EPUB:
       return getAccessibilityQueue();
     case JOB_TYPES.VPAT_GENERATION:
       return getVpatQueue();
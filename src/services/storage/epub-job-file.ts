@@ -0,0 +1,37 @@
+/**
+ * EPUB Job File
+ *
+ * Resolves and loads the EPUB stored for an EPUB job: the file name recorded
+ * on the job, and the `_remediated` copy that edits are saved to.
+ */
+
+import type { Job } from '@prisma/client';
+import { fileStorageService } from './file-storage.service';
+
+export interface JobEpub {
+  buffer: Buffer;
+  originalFileName: string;
+  /** Name the remediated copy is stored (and should be saved back) under. */
+  remediatedFileName: string;
+}
+
+/** Original and remediated file names of the job's EPUB. */
+export function epubFileNamesFor(job: Pick<Job, 'input'>): Omit<JobEpub, 'buffer'> {
+  const input = job.input as { fileName?: string; filename?: string } | null;
+  const originalFileName = input?.fileName || input?.filename || 'upload.epub';
+  return {
+    originalFileName,
+    remediatedFileName: originalFileName.replace(/\.epub$/i, '_remediated.epub'),
+  };
+}
+
+/**
+ * Load the job's EPUB, preferring the remediated copy so edits build on
+ * earlier ones; returns null when neither copy is in storage.
+ */
+export async function loadJobEpub(job: Pick<Job, 'id' | 'input'>): Promise<JobEpub | null> {
+  const fileNames = epubFileNamesFor(job);
+  const buffer = (await fileStorageService.getRemediatedFile(job.id, fileNames.remediatedFileName))
+    ?? (await fileStorageService.getFile(job.id, fileNames.originalFileName));
+  return buffer ? { buffer, ...fileNames } : null;
+}
@@ -0,0 +1,32 @@
+/**
+ * PDF Job File
+ *
+ * Resolves and loads the PDF stored for a PDF job: the file name recorded
+ * on the job, and its remediated version when one has been saved.
+ */
+
+import type { Job } from '@prisma/client';
+import { fileStorageService } from './file-storage.service';
+
+/** File name of the job's PDF: output first, then input, then a default. */
+export function pdfFileNameFor(job: Pick<Job, 'input' | 'output'>): string {
+  const output = (job.output ?? {}) as Record<string, unknown>;
+  const input = (job.input ?? {}) as Record<string, unknown>;
+  return (output.fileName as string | undefined) ?? (input.fileName as string | undefined) ?? 'document.pdf';
+}
+
+/**
+ * Load the job's PDF. The remediated version is preferred unless
+ * `original` is set; returns null when neither is in storage.
+ */
+export async function loadJobPdf(
+  jobId: string,
+  fileName: string,
+  options: { original?: boolean } = {}
+): Promise<Buffer | null> {
+  if (!options.original) {
+    const remediated = await fileStorageService.getRemediatedFile(jobId, fileName).catch(() => null);
+    if (remediated) return remediated;
+  }
+  return fileStorageService.getFile(jobId, fileName);
+}
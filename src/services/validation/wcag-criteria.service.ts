@@ -1,9 +1,26 @@
+/**
+ * WCAG success criteria catalogue for WCAG 2.0, 2.1 and 2.2.
+ *
+ * Every criterion records the version that introduced it, and 4.1.1 Parsing
+ * records its removal in 2.2. ACR editions, the conformance engine and the
+ * remarks generator read version-scoped criteria lists from here.
+ */
+
+export const WCAG_VERSIONS = ['2.0', '2.1', '2.2'] as const;
+
+export type WcagVersion = (typeof WCAG_VERSIONS)[number];
+
 export interface WCAGCriterion {
   id: string;
   name: string;
   level: 'A' | 'AA' | 'AAA';
   principle: 'perceivable' | 'operable' | 'understandable' | 'robust';
   description: string;
+  /** WCAG version that introduced the criterion */
+  introducedIn: WcagVersion;
+  /** WCAG version that removed the criterion as obsolete */
+  removedIn?: WcagVersion;
+  /** WCAG 2.2 Understanding page */
   url: string;
 }
 
@@ -14,7 +31,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'perceivable',
     description: 'All non-text content has a text alternative',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/non-text-content.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/non-text-content.html'
   },
   {
     id: '1.2.1',
@@ -22,7 +40,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'perceivable',
     description: 'Alternatives for prerecorded audio-only and video-only content',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/audio-only-and-video-only-prerecorded.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/audio-only-and-video-only-prerecorded.html'
   },
   {
     id: '1.2.2',
@@ -30,7 +49,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'perceivable',
     description: 'Captions are provided for all prerecorded audio content in synchronized media',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/captions-prerecorded.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/captions-prerecorded.html'
   },
   {
     id: '1.2.3',
@@ -38,7 +58,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'perceivable',
     description: 'An alternative for time-based media or audio description of prerecorded video is provided',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/audio-description-or-media-alternative-prerecorded.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/audio-description-or-media-alternative-prerecorded.html'
   },
   {
     id: '1.2.4',
@@ -46,7 +67,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'perceivable',
     description: 'Captions are provided for all live audio content in synchronized media',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/captions-live.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/captions-live.html'
   },
   {
     id: '1.2.5',
@@ -54,7 +76,44 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'perceivable',
     description: 'Audio description is provided for all prerecorded video content in synchronized media',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/audio-description-prerecorded.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/audio-description-prerecorded.html'
+  },
+  {
+    id: '1.2.6',
+    name: 'Sign Language (Prerecorded)',
+    level: 'AAA',
+    principle: 'perceivable',
+    description: 'Sign language interpretation is provided for all prerecorded audio content in synchronized media',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/sign-language-prerecorded.html'
+  },
+  {
+    id: '1.2.7',
+    name: 'Extended Audio Description (Prerecorded)',
+    level: 'AAA',
+    principle: 'perceivable',
+    description: 'Extended audio description is provided where pauses in foreground audio are insufficient',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/extended-audio-description-prerecorded.html'
+  },
+  {
+    id: '1.2.8',
+    name: 'Media Alternative (Prerecorded)',
+    level: 'AAA',
+    principle: 'perceivable',
+    description: 'An alternative for time-based media is provided for all prerecorded synchronized media and video-only media',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/media-alternative-prerecorded.html'
+  },
+  {
+    id: '1.2.9',
+    name: 'Audio-only (Live)',
+    level: 'AAA',
+    principle: 'perceivable',
+    description: 'An alternative for time-based media is provided for live audio-only content',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/audio-only-live.html'
   },
   {
     id: '1.3.1',
@@ -62,7 +121,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'perceivable',
     description: 'Information and relationships can be programmatically determined',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/info-and-relationships.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/info-and-relationships.html'
   },
   {
     id: '1.3.2',
@@ -70,7 +130,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'perceivable',
     description: 'Content sequence can be programmatically determined',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/meaningful-sequence.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/meaningful-sequence.html'
   },
   {
     id: '1.3.3',
@@ -78,7 +139,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'perceivable',
     description: 'Instructions do not rely solely on sensory characteristics such as shape, color, size, location, or sound',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/sensory-characteristics.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/sensory-characteristics.html'
   },
   {
     id: '1.3.4',
@@ -86,7 +148,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'perceivable',
     description: 'Content does not restrict its view and operation to a single display orientation',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/orientation.html'
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/orientation.html'
   },
   {
     id: '1.3.5',
@@ -94,7 +157,17 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'perceivable',
     description: 'The purpose of each input field collecting personal data can be programmatically determined',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/identify-input-purpose.html'
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/identify-input-purpose.html'
+  },
+  {
+    id: '1.3.6',
+    name: 'Identify Purpose',
+    level: 'AAA',
+    principle: 'perceivable',
+    description: 'The purpose of user interface components, icons, and regions can be programmatically determined',
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/identify-purpose.html'
   },
   {
     id: '1.4.1',
@@ -102,7 +175,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'perceivable',
     description: 'Color is not the only visual means of conveying information',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/use-of-color.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/use-of-color.html'
   },
   {
     id: '1.4.2',
@@ -110,7 +184,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'perceivable',
     description: 'A mechanism is available to pause, stop, or control the volume of audio that plays automatically',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/audio-control.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/audio-control.html'
   },
   {
     id: '1.4.3',
@@ -118,7 +193,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'perceivable',
     description: 'Text has a contrast ratio of at least 4.5:1',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/contrast-minimum.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/contrast-minimum.html'
   },
   {
     id: '1.4.4',
@@ -126,7 +202,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'perceivable',
     description: 'Text can be resized up to 200% without loss of content',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/resize-text.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/resize-text.html'
   },
   {
     id: '1.4.5',
@@ -134,7 +211,44 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'perceivable',
     description: 'Text is used instead of images of text',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/images-of-text.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/images-of-text.html'
+  },
+  {
+    id: '1.4.6',
+    name: 'Contrast (Enhanced)',
+    level: 'AAA',
+    principle: 'perceivable',
+    description: 'Text has a contrast ratio of at least 7:1',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/contrast-enhanced.html'
+  },
+  {
+    id: '1.4.7',
+    name: 'Low or No Background Audio',
+    level: 'AAA',
+    principle: 'perceivable',
+    description: 'Prerecorded speech has no background sound, or it can be turned off, or it is at least 20 dB quieter',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/low-or-no-background-audio.html'
+  },
+  {
+    id: '1.4.8',
+    name: 'Visual Presentation',
+    level: 'AAA',
+    principle: 'perceivable',
+    description: 'Blocks of text can be presented with user-selected colors, limited width, spacing and resizing',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/visual-presentation.html'
+  },
+  {
+    id: '1.4.9',
+    name: 'Images of Text (No Exception)',
+    level: 'AAA',
+    principle: 'perceivable',
+    description: 'Images of text are only used for pure decoration or where a particular presentation is essential',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/images-of-text-no-exception.html'
   },
   {
     id: '1.4.10',
@@ -142,7 +256,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'perceivable',
     description: 'Content can be presented without loss of information using a width of 320 CSS pixels',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/reflow.html'
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/reflow.html'
   },
   {
     id: '1.4.11',
@@ -150,7 +265,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'perceivable',
     description: 'Visual presentation of UI components and graphical objects has a contrast ratio of at least 3:1',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/non-text-contrast.html'
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/non-text-contrast.html'
   },
   {
     id: '1.4.12',
@@ -158,7 +274,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'perceivable',
     description: 'No loss of content occurs when letter, word, line spacing, and paragraph spacing are adjusted',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/text-spacing.html'
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/text-spacing.html'
   },
   {
     id: '1.4.13',
@@ -166,7 +283,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'perceivable',
     description: 'Content that appears on hover or keyboard focus can be dismissed, hovered, and persistent',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/content-on-hover-or-focus.html'
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/content-on-hover-or-focus.html'
   },
   {
     id: '2.1.1',
@@ -174,7 +292,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'operable',
     description: 'All functionality is available from a keyboard',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/keyboard.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/keyboard.html'
   },
   {
     id: '2.1.2',
@@ -182,7 +301,17 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'operable',
     description: 'Keyboard focus can be moved away from any component',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/no-keyboard-trap.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/no-keyboard-trap.html'
+  },
+  {
+    id: '2.1.3',
+    name: 'Keyboard (No Exception)',
+    level: 'AAA',
+    principle: 'operable',
+    description: 'All functionality is operable through a keyboard interface without exception',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/keyboard-no-exception.html'
   },
   {
     id: '2.1.4',
@@ -190,7 +319,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'operable',
     description: 'Single character key shortcuts can be turned off, remapped, or only active on focus',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/character-key-shortcuts.html'
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/character-key-shortcuts.html'
   },
   {
     id: '2.2.1',
@@ -198,7 +328,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'operable',
     description: 'Time limits can be turned off, adjusted, or extended',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/timing-adjustable.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/timing-adjustable.html'
   },
   {
     id: '2.2.2',
@@ -206,7 +337,44 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'operable',
     description: 'Moving, blinking, scrolling, or auto-updating content can be paused, stopped, or hidden',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/pause-stop-hide.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/pause-stop-hide.html'
+  },
+  {
+    id: '2.2.3',
+    name: 'No Timing',
+    level: 'AAA',
+    principle: 'operable',
+    description: 'Timing is not an essential part of the event or activity presented by the content',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/no-timing.html'
+  },
+  {
+    id: '2.2.4',
+    name: 'Interruptions',
+    level: 'AAA',
+    principle: 'operable',
+    description: 'Interruptions can be postponed or suppressed by the user, except in an emergency',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/interruptions.html'
+  },
+  {
+    id: '2.2.5',
+    name: 'Re-authenticating',
+    level: 'AAA',
+    principle: 'operable',
+    description: 'When an authenticated session expires, the user can continue without loss of data after re-authenticating',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/re-authenticating.html'
+  },
+  {
+    id: '2.2.6',
+    name: 'Timeouts',
+    level: 'AAA',
+    principle: 'operable',
+    description: 'Users are warned of the duration of any inactivity that could cause data loss',
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/timeouts.html'
   },
   {
     id: '2.3.1',
@@ -214,7 +382,26 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'operable',
     description: 'Web pages do not contain content that flashes more than three times per second',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/three-flashes-or-below-threshold.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/three-flashes-or-below-threshold.html'
+  },
+  {
+    id: '2.3.2',
+    name: 'Three Flashes',
+    level: 'AAA',
+    principle: 'operable',
+    description: 'Content does not contain anything that flashes more than three times in any one second period',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/three-flashes.html'
+  },
+  {
+    id: '2.3.3',
+    name: 'Animation from Interactions',
+    level: 'AAA',
+    principle: 'operable',
+    description: 'Motion animation triggered by interaction can be disabled unless it is essential',
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/animation-from-interactions.html'
   },
   {
     id: '2.4.1',
@@ -222,7 +409,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'operable',
     description: 'Mechanism to bypass repeated content',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/bypass-blocks.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/bypass-blocks.html'
   },
   {
     id: '2.4.2',
@@ -230,7 +418,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'operable',
     description: 'Web pages have descriptive titles',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/page-titled.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/page-titled.html'
   },
   {
     id: '2.4.3',
@@ -238,7 +427,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'operable',
     description: 'Focus order preserves meaning and operability',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/focus-order.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/focus-order.html'
   },
   {
     id: '2.4.4',
@@ -246,7 +436,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'operable',
     description: 'Link purpose can be determined from link text',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/link-purpose-in-context.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/link-purpose-in-context.html'
   },
   {
     id: '2.4.5',
@@ -254,7 +445,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'operable',
     description: 'More than one way is available to locate a web page within a set of pages',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/multiple-ways.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/multiple-ways.html'
   },
   {
     id: '2.4.6',
@@ -262,7 +454,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'operable',
     description: 'Headings and labels describe topic or purpose',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/headings-and-labels.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/headings-and-labels.html'
   },
   {
     id: '2.4.7',
@@ -270,7 +463,62 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'operable',
     description: 'Keyboard focus indicator is visible',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/focus-visible.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/focus-visible.html'
+  },
+  {
+    id: '2.4.8',
+    name: 'Location',
+    level: 'AAA',
+    principle: 'operable',
+    description: 'Information about the user\'s location within a set of pages is available',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/location.html'
+  },
+  {
+    id: '2.4.9',
+    name: 'Link Purpose (Link Only)',
+    level: 'AAA',
+    principle: 'operable',
+    description: 'The purpose of each link can be identified from the link text alone',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/link-purpose-link-only.html'
+  },
+  {
+    id: '2.4.10',
+    name: 'Section Headings',
+    level: 'AAA',
+    principle: 'operable',
+    description: 'Section headings are used to organize the content',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/section-headings.html'
+  },
+  {
+    id: '2.4.11',
+    name: 'Focus Not Obscured (Minimum)',
+    level: 'AA',
+    principle: 'operable',
+    description: 'A component receiving keyboard focus is not entirely hidden by author-created content',
+    introducedIn: '2.2',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/focus-not-obscured-minimum.html'
+  },
+  {
+    id: '2.4.12',
+    name: 'Focus Not Obscured (Enhanced)',
+    level: 'AAA',
+    principle: 'operable',
+    description: 'No part of a component receiving keyboard focus is hidden by author-created content',
+    introducedIn: '2.2',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/focus-not-obscured-enhanced.html'
+  },
+  {
+    id: '2.4.13',
+    name: 'Focus Appearance',
+    level: 'AAA',
+    principle: 'operable',
+    description: 'The keyboard focus indicator is of sufficient size and contrast',
+    introducedIn: '2.2',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/focus-appearance.html'
   },
   {
     id: '2.5.1',
@@ -278,7 +526,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'operable',
     description: 'All functionality that uses multipoint or path-based gestures can be operated with a single pointer',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/pointer-gestures.html'
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/pointer-gestures.html'
   },
   {
     id: '2.5.2',
@@ -286,7 +535,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'operable',
     description: 'For functionality that can be operated using a single pointer, at least one of: no down-event, abort/undo, up-reversal, or essential',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/pointer-cancellation.html'
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/pointer-cancellation.html'
   },
   {
     id: '2.5.3',
@@ -294,7 +544,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'operable',
     description: 'For components with text labels, the accessible name contains the visible text',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/label-in-name.html'
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/label-in-name.html'
   },
   {
     id: '2.5.4',
@@ -302,7 +553,44 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'operable',
     description: 'Functionality operated by device or user motion can also be operated by UI components',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/motion-actuation.html'
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/motion-actuation.html'
+  },
+  {
+    id: '2.5.5',
+    name: 'Target Size (Enhanced)',
+    level: 'AAA',
+    principle: 'operable',
+    description: 'The size of the target for pointer inputs is at least 44 by 44 CSS pixels',
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/target-size-enhanced.html'
+  },
+  {
+    id: '2.5.6',
+    name: 'Concurrent Input Mechanisms',
+    level: 'AAA',
+    principle: 'operable',
+    description: 'Content does not restrict use of input modalities available on a platform',
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/concurrent-input-mechanisms.html'
+  },
+  {
+    id: '2.5.7',
+    name: 'Dragging Movements',
+    level: 'AA',
+    principle: 'operable',
+    description: 'Functionality that uses a dragging movement can be achieved by a single pointer without dragging',
+    introducedIn: '2.2',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/dragging-movements.html'
+  },
+  {
+    id: '2.5.8',
+    name: 'Target Size (Minimum)',
+    level: 'AA',
+    principle: 'operable',
+    description: 'The size of the target for pointer inputs is at least 24 by 24 CSS pixels, with listed exceptions',
+    introducedIn: '2.2',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/target-size-minimum.html'
   },
   {
     id: '3.1.1',
@@ -310,7 +598,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'understandable',
     description: 'Default language can be programmatically determined',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/language-of-page.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/language-of-page.html'
   },
   {
     id: '3.1.2',
@@ -318,7 +607,44 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'understandable',
     description: 'Language of each passage can be programmatically determined',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/language-of-parts.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/language-of-parts.html'
+  },
+  {
+    id: '3.1.3',
+    name: 'Unusual Words',
+    level: 'AAA',
+    principle: 'understandable',
+    description: 'A mechanism is available for identifying definitions of words used in an unusual or restricted way',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/unusual-words.html'
+  },
+  {
+    id: '3.1.4',
+    name: 'Abbreviations',
+    level: 'AAA',
+    principle: 'understandable',
+    description: 'A mechanism for identifying the expanded form or meaning of abbreviations is available',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/abbreviations.html'
+  },
+  {
+    id: '3.1.5',
+    name: 'Reading Level',
+    level: 'AAA',
+    principle: 'understandable',
+    description: 'Supplemental content is available when text requires reading ability above lower secondary education level',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/reading-level.html'
+  },
+  {
+    id: '3.1.6',
+    name: 'Pronunciation',
+    level: 'AAA',
+    principle: 'understandable',
+    description: 'A mechanism is available for identifying pronunciation where meaning is ambiguous without it',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/pronunciation.html'
   },
   {
     id: '3.2.1',
@@ -326,7 +652,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'understandable',
     description: 'Receiving focus does not change context',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/on-focus.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/on-focus.html'
   },
   {
     id: '3.2.2',
@@ -334,7 +661,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'understandable',
     description: 'Changing settings does not change context unexpectedly',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/on-input.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/on-input.html'
   },
   {
     id: '3.2.3',
@@ -342,7 +670,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'understandable',
     description: 'Navigational mechanisms repeated across pages occur in the same relative order',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/consistent-navigation.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/consistent-navigation.html'
   },
   {
     id: '3.2.4',
@@ -350,7 +679,26 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'understandable',
     description: 'Components with the same functionality are identified consistently',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/consistent-identification.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/consistent-identification.html'
+  },
+  {
+    id: '3.2.5',
+    name: 'Change on Request',
+    level: 'AAA',
+    principle: 'understandable',
+    description: 'Changes of context are initiated only by user request or a mechanism is available to turn them off',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/change-on-request.html'
+  },
+  {
+    id: '3.2.6',
+    name: 'Consistent Help',
+    level: 'A',
+    principle: 'understandable',
+    description: 'Help mechanisms repeated on multiple pages occur in the same relative order',
+    introducedIn: '2.2',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/consistent-help.html'
   },
   {
     id: '3.3.1',
@@ -358,7 +706,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'understandable',
     description: 'Input errors are automatically detected and described',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/error-identification.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/error-identification.html'
   },
   {
     id: '3.3.2',
@@ -366,7 +715,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'understandable',
     description: 'Labels or instructions are provided for user input',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/labels-or-instructions.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/labels-or-instructions.html'
   },
   {
     id: '3.3.3',
@@ -374,7 +724,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'understandable',
     description: 'If an input error is detected and suggestions for correction are known, the suggestion is provided',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/error-suggestion.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/error-suggestion.html'
   },
   {
     id: '3.3.4',
@@ -382,7 +733,53 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'understandable',
     description: 'Submissions can be checked, confirmed, or reversed for pages that cause legal or financial commitments',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/error-prevention-legal-financial-data.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/error-prevention-legal-financial-data.html'
+  },
+  {
+    id: '3.3.5',
+    name: 'Help',
+    level: 'AAA',
+    principle: 'understandable',
+    description: 'Context-sensitive help is available',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/help.html'
+  },
+  {
+    id: '3.3.6',
+    name: 'Error Prevention (All)',
+    level: 'AAA',
+    principle: 'understandable',
+    description: 'Submissions that require user input are reversible, checked, or confirmed',
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/error-prevention-all.html'
+  },
+  {
+    id: '3.3.7',
+    name: 'Redundant Entry',
+    level: 'A',
+    principle: 'understandable',
+    description: 'Information previously entered by the user in the same process is auto-populated or available to select',
+    introducedIn: '2.2',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/redundant-entry.html'
+  },
+  {
+    id: '3.3.8',
+    name: 'Accessible Authentication (Minimum)',
+    level: 'AA',
+    principle: 'understandable',
+    description: 'A cognitive function test is not required for any step in an authentication process unless an alternative is provided',
+    introducedIn: '2.2',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/accessible-authentication-minimum.html'
+  },
+  {
+    id: '3.3.9',
+    name: 'Accessible Authentication (Enhanced)',
+    level: 'AAA',
+    principle: 'understandable',
+    description: 'A cognitive function test, including object and content recognition, is not required for any step in an authentication process',
+    introducedIn: '2.2',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/accessible-authentication-enhanced.html'
   },
   {
     id: '4.1.1',
@@ -390,7 +787,9 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'robust',
     description: 'Elements have complete start and end tags with unique IDs',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/parsing.html'
+    introducedIn: '2.0',
+    removedIn: '2.2',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/parsing.html'
   },
   {
     id: '4.1.2',
@@ -398,7 +797,8 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'A',
     principle: 'robust',
     description: 'User interface components have accessible names and roles',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/name-role-value.html'
+    introducedIn: '2.0',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/name-role-value.html'
   },
   {
     id: '4.1.3',
@@ -406,10 +806,15 @@ const WCAG_CRITERIA: WCAGCriterion[] = [
     level: 'AA',
     principle: 'robust',
     description: 'Status messages can be programmatically determined through role or property without focus',
-    url: 'https://www.w3.org/WAI/WCAG21/Understanding/status-messages.html'
+    introducedIn: '2.1',
+    url: 'https://www.w3.org/WAI/WCAG22/Understanding/status-messages.html'
   }
 ];
 
+function versionIndex(version: WcagVersion): number {
+  return WCAG_VERSIONS.indexOf(version);
+}
+
 export class WCAGCriteriaService {
   getAllCriteria(): WCAGCriterion[] {
     return [...WCAG_CRITERIA];
@@ -426,6 +831,70 @@ export class WCAGCriteriaService {
   getCriteriaByPrinciple(principle: WCAGCriterion['principle']): WCAGCriterion[] {
     return WCAG_CRITERIA.filter(c => c.principle === principle);
   }
+
+  /**
+   * Criteria defined by a WCAG version, in catalogue order, optionally
+   * limited to some levels. Criteria removed in that version are left out.
+   */
+  getCriteriaForVersion(version: WcagVersion, levels?: WCAGCriterion['level'][]): WCAGCriterion[] {
+    return WCAG_CRITERIA.filter(c =>
+      this.isInVersion(c, version) && (!levels || levels.includes(c.level))
+    );
+  }
+
+  /**
+   * Rows of a conformance report against `version`. Unlike
+   * getCriteriaForVersion, criteria that `version` removed stay in the list
+   * so the report can record them as Not Applicable.
+   */
+  getReportCriteria(version: WcagVersion, levels?: WCAGCriterion['level'][]): WCAGCriterion[] {
+    return WCAG_CRITERIA.filter(c =>
+      versionIndex(c.introducedIn) <= versionIndex(version) && (!levels || levels.includes(c.level))
+    );
+  }
+
+  isInVersion(criterion: string | WCAGCriterion, version: WcagVersion): boolean {
+    const c = typeof criterion === 'string' ? this.getCriteriaById(criterion) : criterion;
+    if (!c) return false;
+    return versionIndex(c.introducedIn) <= versionIndex(version) && !this.isObsolete(c, version);
+  }
+
+  /** The criterion was removed from WCAG at or before `version`. */
+  isObsolete(criterion: string | WCAGCriterion, version: WcagVersion): boolean {
+    const c = typeof criterion === 'string' ? this.getCriteriaById(criterion) : criterion;
+    return !!c?.removedIn && versionIndex(c.removedIn) <= versionIndex(version);
+  }
+
+  /**
+   * Understanding page for a criterion as of `version`. WCAG 2.0 criteria
+   * are explained in the WCAG 2.1 Understanding documents.
+   */
+  getUnderstandingUrl(id: string, version: WcagVersion): string | undefined {
+    const c = this.getCriteriaById(id);
+    if (!c) return undefined;
+    return version === '2.2' ? c.url : c.url.replace('/WCAG22/', '/WCAG21/');
+  }
+
+  getEditionLabel(version: WcagVersion): string {
+    return `WCAG ${version}`;
+  }
+
+  /**
+   * "Not Applicable" remarks for a criterion that is not part of `version`:
+   * removed as obsolete, or introduced by a later version. Undefined when
+   * the criterion belongs to the version and needs a real evaluation.
+   */
+  getVersionNotApplicableRemarks(id: string, version: WcagVersion): string | undefined {
+    const c = this.getCriteriaById(id);
+    if (!c) return undefined;
+    if (this.isObsolete(c, version)) {
+      return `Justification: ${c.id} ${c.name} is obsolete and was removed in WCAG ${c.removedIn}, so it does not apply to a ${this.getEditionLabel(version)} evaluation.`;
+    }
+    if (versionIndex(c.introducedIn) > versionIndex(version)) {
+      return `Justification: ${c.id} ${c.name} was introduced in WCAG ${c.introducedIn} and is not part of a ${this.getEditionLabel(version)} evaluation.`;
+    }
+    return undefined;
+  }
 }
 
 export const wcagCriteriaService = new WCAGCriteriaService();
@@ -0,0 +1,305 @@
+/**
+ * @fileoverview Auto-approval policy resolution.
+ * Resolves which HITL gate policy applies to a workflow across the four places
+ * a policy can be attached, and explains the resolution for the policy API.
+ *
+ * Precedence (per gate, first level that defines the gate wins):
+ *   workflow > batch > product > tenant
+ */
+
+import { WorkflowInstance, Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { AppError } from '../../utils/app-error';
+import { workflowConfigService } from './workflow-config.service';
+import { workflowDefinitionService } from './workflow-definition.service';
+import { gatePolicyService } from './gate-policy.service';
+import {
+  AUTO_APPROVAL_POLICY_PRECEDENCE,
+  HITLGate,
+  type AutoApprovalPolicyExplanation,
+  type AutoApprovalPolicySource,
+  type BatchGatePolicy,
+  type GateApprovalPolicy,
+} from '../../types/workflow-contracts';
+
+/** A policy attached at one level, in precedence order. */
+interface PolicyLevel {
+  source: AutoApprovalPolicySource;
+  sourceId?: string;
+  policy?: GateApprovalPolicy;
+}
+
+/** The policy that applies to a gate, and where it came from. */
+export interface ResolvedGatePolicy {
+  source: AutoApprovalPolicySource;
+  sourceId?: string;
+  policy: BatchGatePolicy;
+}
+
+const GATE_STATES: Record<string, HITLGate> = {
+  AWAITING_AI_REVIEW: HITLGate.AI_REVIEW,
+  AWAITING_REMEDIATION_REVIEW: HITLGate.REMEDIATION_REVIEW,
+  AWAITING_CONFORMANCE_REVIEW: HITLGate.CONFORMANCE_REVIEW,
+  AWAITING_ACR_SIGNOFF: HITLGate.ACR_SIGNOFF,
+};
+
+function gatePolicyOf(level: PolicyLevel, gate: HITLGate): BatchGatePolicy | undefined {
+  // Batch JSON may hold only acrConfig, with no gates object
+  return level.policy?.gates?.[gate];
+}
+
+/**
+ * True when every gate is auto-accepted, i.e. no human ever reviews the workflow.
+ */
+export function isFullyHeadless(policy: GateApprovalPolicy): boolean {
+  return Object.values(HITLGate).every(gate => {
+    const gatePolicy = policy.gates[gate];
+    return gatePolicy === 'auto-accept'
+      || (typeof gatePolicy === 'object' && gatePolicy.mode === 'auto-accept');
+  });
+}
+
+/**
+ * Auto-approval policy service.
+ * Reads policies from WorkflowInstance, BatchWorkflow, Product and tenant settings.
+ */
+class AutoApprovalPolicyService {
+  /**
+   * Resolve the policy that applies to a gate of a workflow.
+   *
+   * @param workflow - Workflow instance
+   * @param gate - HITL gate
+   * @returns The winning policy, or null when no level defines the gate
+   */
+  async resolveGatePolicy(workflow: WorkflowInstance, gate: HITLGate): Promise<ResolvedGatePolicy | null> {
+    const levels = await this.loadPolicyLevels(workflow);
+    for (const level of levels) {
+      const policy = gatePolicyOf(level, gate);
+      if (policy) return { source: level.source, sourceId: level.sourceId, policy };
+    }
+    return null;
+  }
+
+  /**
+   * Explain which policy applies to each gate of a workflow and why.
+   * When the workflow is suspended at a gate, the effective policy for that
+   * gate is also evaluated against current evidence (dry run — nothing recorded).
+   *
+   * @param tenantId - Caller's tenant; the workflow must belong to it
+   * @param workflowId - Workflow ID
+   * @throws AppError 404 when the workflow is not found in the tenant
+   */
+  async explain(tenantId: string, workflowId: string): Promise<AutoApprovalPolicyExplanation> {
+    const workflow = await this.getWorkflowForTenant(tenantId, workflowId);
+    const levels = await this.loadPolicyLevels(workflow);
+
+    const gates = {} as AutoApprovalPolicyExplanation['gates'];
+    for (const gate of Object.values(HITLGate)) {
+      const winner = levels.find(level => gatePolicyOf(level, gate));
+      const winnerPolicy = winner ? gatePolicyOf(winner, gate)! : undefined;
+
+      const candidates = levels.map(level => ({
+        source: level.source,
+        sourceId: level.sourceId,
+        policy: gatePolicyOf(level, gate),
+        applied: level === winner,
+      }));
+
+      const overridden = candidates.filter(c => c.policy && !c.applied).map(c => c.source);
+      let reason: string;
+      if (!winner) {
+        reason = 'No policy defines this gate; human review is required';
+      } else {
+        reason = `${winner.source} policy applies`
+          + (overridden.length > 0 ? ` (overrides ${overridden.join(', ')})` : '')
+          + ` — precedence is ${AUTO_APPROVAL_POLICY_PRECEDENCE.join(' > ')}`;
+      }
+
+      gates[gate] = {
+        effective: winner ? { source: winner.source, sourceId: winner.sourceId, policy: winnerPolicy! } : null,
+        candidates,
+        reason,
+      };
+    }
+
+    const explanation: AutoApprovalPolicyExplanation = {
+      workflowId,
+      precedence: AUTO_APPROVAL_POLICY_PRECEDENCE,
+      gates,
+    };
+
+    const action = await workflowDefinitionService.resolveStepAction(workflow);
+    const currentGate = GATE_STATES[action];
+    if (currentGate) {
+      explanation.currentGate = currentGate;
+      const effective = gates[currentGate].effective;
+      if (effective) {
+        const { rationale } = await gatePolicyService.evaluate(
+          workflow, currentGate, effective.policy, effective, { dryRun: true }
+        );
+        explanation.evaluation = rationale;
+      }
+    }
+
+    return explanation;
+  }
+
+  /**
+   * Attach (or clear with null) a workflow-level policy.
+   *
+   * @throws AppError 404 when the workflow is not found in the tenant
+   * @throws AppError 400 when the policy is fully headless and the tenant forbids it
+   */
+  async setWorkflowPolicy(
+    tenantId: string,
+    workflowId: string,
+    policy: GateApprovalPolicy | null
+  ): Promise<void> {
+    await this.getWorkflowForTenant(tenantId, workflowId);
+    if (policy) await this.assertHeadlessAllowed(tenantId, policy);
+
+    await prisma.workflowInstance.update({
+      where: { id: workflowId },
+      data: { autoApprovalPolicy: policy ? (policy as unknown as Prisma.InputJsonValue) : Prisma.DbNull },
+    });
+    logger.info('[AutoApprovalPolicy] Workflow policy updated', { tenantId, workflowId, cleared: !policy });
+  }
+
+  /**
+   * Get a product's policy.
+   *
+   * @throws AppError 404 when the product is not found in the tenant
+   */
+  async getProductPolicy(tenantId: string, productId: string): Promise<GateApprovalPolicy | null> {
+    const product = await this.getProductForTenant(tenantId, productId);
+    return (product.autoApprovalPolicy as unknown as GateApprovalPolicy | null) ?? null;
+  }
+
+  /**
+   * Attach (or clear with null) a product-level policy.
+   *
+   * @throws AppError 404 when the product is not found in the tenant
+   * @throws AppError 400 when the policy is fully headless and the tenant forbids it
+   */
+  async setProductPolicy(
+    tenantId: string,
+    productId: string,
+    policy: GateApprovalPolicy | null
+  ): Promise<void> {
+    await this.getProductForTenant(tenantId, productId);
+    if (policy) await this.assertHeadlessAllowed(tenantId, policy);
+
+    await prisma.product.update({
+      where: { id: productId },
+      data: { autoApprovalPolicy: policy ? (policy as unknown as Prisma.InputJsonValue) : Prisma.DbNull },
+    });
+    logger.info('[AutoApprovalPolicy] Product policy updated', { tenantId, productId, cleared: !policy });
+  }
+
+  /**
+   * Reject fully headless policies unless the tenant allows them
+   * (the same rule batch creation enforces).
+   *
+   * @throws AppError 400 with code HEADLESS_POLICY_NOT_ALLOWED
+   */
+  async assertHeadlessAllowed(tenantId: string, policy: GateApprovalPolicy): Promise<void> {
+    if (!isFullyHeadless(policy)) return;
+
+    const config = await workflowConfigService.getEffectiveConfig(tenantId);
+    if (!config.batchPolicy?.allowFullyHeadless) {
+      throw AppError.badRequest(
+        'Fully headless policies (all gates auto-accept) are not permitted for this tenant. ' +
+        'At least one HITL gate must remain as require-manual.',
+        'HEADLESS_POLICY_NOT_ALLOWED'
+      );
+    }
+  }
+
+  /**
+   * Load every policy level for a workflow, in precedence order.
+   */
+  private async loadPolicyLevels(workflow: WorkflowInstance): Promise<PolicyLevel[]> {
+    const file = await prisma.file.findUnique({
+      where: { id: workflow.fileId },
+      select: { tenantId: true },
+    });
+
+    const batch = workflow.batchId
+      ? await prisma.batchWorkflow.findUnique({
+        where: { id: workflow.batchId },
+        select: { autoApprovalPolicy: true },
+      })
+      : null;
+
+    const productId = workflow.productId ?? await this.productIdFromJob(workflow);
+    const product = productId
+      ? await prisma.product.findUnique({
+        where: { id: productId },
+        select: { tenantId: true, autoApprovalPolicy: true },
+      })
+      : null;
+
+    const tenantConfig = file ? await workflowConfigService.getEffectiveConfig(file.tenantId) : null;
+
+    return [
+      {
+        source: 'workflow',
+        sourceId: workflow.id,
+        policy: (workflow.autoApprovalPolicy as unknown as GateApprovalPolicy | null) ?? undefined,
+      },
+      {
+        source: 'batch',
+        sourceId: workflow.batchId ?? undefined,
+        policy: (batch?.autoApprovalPolicy as unknown as GateApprovalPolicy | null) ?? undefined,
+      },
+      {
+        source: 'product',
+        sourceId: productId ?? undefined,
+        // Never apply another tenant's product policy
+        policy: product && product.tenantId === file?.tenantId
+          ? (product.autoApprovalPolicy as unknown as GateApprovalPolicy | null) ?? undefined
+          : undefined,
+      },
+      {
+        source: 'tenant',
+        sourceId: file?.tenantId,
+        policy: tenantConfig?.autoApprovalPolicy,
+      },
+    ];
+  }
+
+  /**
+   * Workflows started without a productId inherit the product of their audit job.
+   */
+  private async productIdFromJob(workflow: WorkflowInstance): Promise<string | null> {
+    const jobId = (workflow.stateData as Record<string, unknown> | null)?.jobId as string | undefined;
+    if (!jobId) return null;
+    const job = await prisma.job.findUnique({ where: { id: jobId }, select: { productId: true } });
+    return job?.productId ?? null;
+  }
+
+  private async getWorkflowForTenant(tenantId: string, workflowId: string): Promise<WorkflowInstance> {
+    const workflow = await prisma.workflowInstance.findFirst({
+      where: { id: workflowId, file: { tenantId } },
+    });
+    if (!workflow) {
+      throw AppError.notFound('Workflow not found');
+    }
+    return workflow;
+  }
+
+  private async getProductForTenant(tenantId: string, productId: string) {
+    const product = await prisma.product.findFirst({
+      where: { id: productId, tenantId, deletedAt: null },
+      select: { id: true, autoApprovalPolicy: true },
+    });
+    if (!product) {
+      throw AppError.notFound('Product not found');
+    }
+    return product;
+  }
+}
+
+// Export singleton instance
+export const autoApprovalPolicyService = new AutoApprovalPolicyService();
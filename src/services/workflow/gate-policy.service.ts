@@ -0,0 +1,449 @@
+/**
+ * @fileoverview Gate policy evaluation.
+ * Evaluates conditional auto-approval policies for every HITL gate and produces
+ * the rationale recorded in HITLDecision when a gate is skipped. Evidence is
+ * gathered lazily — only the data a policy's conditions refer to is loaded.
+ */
+
+import { WorkflowInstance, Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { s3Service } from '../s3.service';
+import { categorizeIssue } from './issue-categorizer.service';
+import type {
+  AutoApprovalPolicySource,
+  AutoApprovalRationale,
+  BatchGatePolicy,
+  ConditionalGatePolicy,
+  GatePolicyCheck,
+  HITLGate,
+  IssueSeverity,
+  PolicyConditions,
+} from '../../types/workflow-contracts';
+
+const SEVERITIES: IssueSeverity[] = ['critical', 'serious', 'moderate', 'minor'];
+
+/** Data a gate policy is evaluated against. Fields are absent when not needed or unavailable. */
+export interface GateEvidence {
+  auditScore?: number;                 // 0–100, as stored in stateData
+  issues?: Array<Record<string, unknown>>;
+  residualBySeverity?: Record<IssueSeverity | 'total', number>;
+  doesNotSupportCriteria?: string[];
+  aiSuggestedCount?: number;
+  humanVerifiedCount?: number;
+  publisherProfile?: string;           // 'none' when no profile was detected
+}
+
+/** Options for a gate policy evaluation. */
+export interface GatePolicyEvaluateOptions {
+  /** Read-only evaluation: evidence derived on the fly is not cached in stateData. */
+  dryRun?: boolean;
+}
+
+/** Where the evaluated policy is attached. */
+export interface GatePolicyOrigin {
+  source: AutoApprovalPolicySource;
+  sourceId?: string;
+}
+
+/** Rationale plus the evidence it was derived from. */
+export interface GatePolicyEvaluation {
+  rationale: AutoApprovalRationale;
+  evidence: GateEvidence;
+}
+
+type ConformanceStatus = 'supports' | 'partially_supports' | 'does_not_support' | 'not_applicable';
+
+/** A criterion as mapped by CONFORMANCE_MAPPING (stateData.conformanceMappings). */
+export interface ConformanceMapping {
+  criterionId: string;
+  aiConformance: ConformanceStatus;
+}
+
+/** A conformance reviewer's decision (stateData.conformanceReviewDecisions). */
+export interface ConformanceDecision {
+  criterionId: string;
+  decision: string;
+  overrideValue?: string;
+}
+
+/**
+ * Conformance of a criterion after the reviewer's decision is applied.
+ */
+export function effectiveConformance(mapping: ConformanceMapping, decision?: ConformanceDecision): string {
+  if (!decision || decision.decision === 'CONFIRM') return mapping.aiConformance;
+  if (decision.decision === 'OVERRIDE') return decision.overrideValue ?? mapping.aiConformance;
+  return decision.decision;
+}
+
+function issueCode(issue: Record<string, unknown>): string {
+  return (issue.ruleId ?? issue.code ?? issue.id ?? '') as string;
+}
+
+function issuesFromAudit(audit: Record<string, unknown> | undefined): Array<Record<string, unknown>> {
+  return ((audit?.combinedIssues as unknown[]) ?? (audit?.issues as unknown[]) ?? []) as Array<Record<string, unknown>>;
+}
+
+/**
+ * Evaluate policy conditions against gathered evidence.
+ * Pure — every specified condition yields one check; missing evidence fails the check.
+ *
+ * @param gate - HITL gate being evaluated
+ * @param conditions - Conditions from the gate policy
+ * @param evidence - Evidence gathered for those conditions
+ * @returns One check per specified condition
+ */
+export function evaluateGateConditions(
+  gate: HITLGate,
+  conditions: PolicyConditions,
+  evidence: GateEvidence
+): GatePolicyCheck[] {
+  const checks: GatePolicyCheck[] = [];
+
+  if (conditions.minConfidence !== undefined) {
+    const score = evidence.auditScore !== undefined ? evidence.auditScore / 100 : undefined;
+    checks.push({
+      condition: 'minConfidence',
+      passed: score !== undefined && score >= conditions.minConfidence,
+      expected: conditions.minConfidence,
+      actual: score ?? null,
+      detail: score === undefined ? 'No audit score recorded' : undefined,
+    });
+  }
+
+  if (conditions.issueTypeRules && gate === 'AI_REVIEW') {
+    const rules = conditions.issueTypeRules;
+    const unhandled = (evidence.issues ?? []).filter(issue => {
+      const rule = rules[categorizeIssue(issueCode(issue))] ?? rules['other'];
+      return !rule || rule === 'manual';
+    });
+    checks.push({
+      condition: 'issueTypeRules',
+      passed: evidence.issues !== undefined && unhandled.length === 0,
+      expected: 'every issue covered by an auto-accept or auto-reject rule',
+      actual: evidence.issues === undefined ? null : { issues: evidence.issues.length, manual: unhandled.length },
+      detail: evidence.issues === undefined ? 'No audit job recorded' : undefined,
+    });
+  }
+
+  if (conditions.maxResidualIssues) {
+    const residual = evidence.residualBySeverity;
+    const exceeded = residual
+      ? (Object.entries(conditions.maxResidualIssues) as Array<[IssueSeverity | 'total', number]>)
+        .filter(([severity, max]) => residual[severity] > max)
+        .map(([severity]) => severity)
+      : [];
+    checks.push({
+      condition: 'maxResidualIssues',
+      passed: residual !== undefined && exceeded.length === 0,
+      expected: conditions.maxResidualIssues,
+      actual: residual ?? null,
+      detail: residual === undefined
+        ? 'No audit job recorded'
+        : exceeded.length > 0 ? `Exceeded for: ${exceeded.join(', ')}` : undefined,
+    });
+  }
+
+  if (conditions.maxDoesNotSupport !== undefined || conditions.blockingCriteria) {
+    const failing = evidence.doesNotSupportCriteria;
+    if (conditions.maxDoesNotSupport !== undefined) {
+      checks.push({
+        condition: 'maxDoesNotSupport',
+        passed: failing !== undefined && failing.length <= conditions.maxDoesNotSupport,
+        expected: conditions.maxDoesNotSupport,
+        actual: failing?.length ?? null,
+        detail: failing === undefined ? 'No conformance mapping recorded' : undefined,
+      });
+    }
+    if (conditions.blockingCriteria) {
+      const blocked = (failing ?? []).filter(c => conditions.blockingCriteria!.includes(c));
+      checks.push({
+        condition: 'blockingCriteria',
+        passed: failing !== undefined && blocked.length === 0,
+        expected: conditions.blockingCriteria,
+        actual: failing === undefined ? null : blocked,
+        detail: failing === undefined
+          ? 'No conformance mapping recorded'
+          : blocked.length > 0 ? `Does Not Support: ${blocked.join(', ')}` : undefined,
+      });
+    }
+  }
+
+  if (conditions.maxAiSuggestedShare !== undefined) {
+    const ai = evidence.aiSuggestedCount;
+    const human = evidence.humanVerifiedCount;
+    const recorded = ai !== undefined && human !== undefined;
+    const total = recorded ? ai + human : 0;
+    const share = recorded && total > 0 ? ai / total : 0;
+    checks.push({
+      condition: 'maxAiSuggestedShare',
+      passed: recorded && share <= conditions.maxAiSuggestedShare,
+      expected: conditions.maxAiSuggestedShare,
+      actual: recorded ? Number(share.toFixed(3)) : null,
+      detail: recorded
+        ? `${ai} of ${total} finding(s) AI-suggested without human verification`
+        : 'No findings recorded',
+    });
+  }
+
+  if (conditions.publisherProfiles) {
+    const profile = evidence.publisherProfile;
+    checks.push({
+      condition: 'publisherProfiles',
+      passed: profile !== undefined && conditions.publisherProfiles.includes(profile),
+      expected: conditions.publisherProfiles,
+      actual: profile ?? null,
+    });
+  }
+
+  return checks;
+}
+
+/**
+ * Gate policy service.
+ * Turns a gate policy into an approve/hold decision with an auditable rationale.
+ */
+class GatePolicyService {
+  /**
+   * Evaluate a gate policy for a workflow.
+   *
+   * @param workflow - Workflow suspended at the gate
+   * @param gate - HITL gate being evaluated
+   * @param gatePolicy - Phase 1 string or Phase 2 conditional policy
+   * @param origin - Level the policy was resolved from (recorded in the rationale)
+   * @param options - `dryRun` leaves the workflow untouched
+   * @returns Rationale (approved or not) and the evidence it was based on
+   */
+  async evaluate(
+    workflow: WorkflowInstance,
+    gate: HITLGate,
+    gatePolicy: BatchGatePolicy,
+    origin: GatePolicyOrigin,
+    options: GatePolicyEvaluateOptions = {}
+  ): Promise<GatePolicyEvaluation> {
+    const policy: ConditionalGatePolicy = typeof gatePolicy === 'string' ? { mode: gatePolicy } : gatePolicy;
+
+    if (policy.mode !== 'conditional') {
+      const approved = policy.mode === 'auto-accept';
+      return {
+        rationale: this.buildRationale(gate, policy, origin, [
+          { condition: 'mode', passed: approved, expected: 'auto-accept', actual: policy.mode },
+        ]),
+        evidence: {},
+      };
+    }
+
+    const conditions = policy.conditions ?? {};
+    const evidence = await this.collectEvidence(workflow, gate, conditions, options);
+    const checks = evaluateGateConditions(gate, conditions, evidence);
+
+    return { rationale: this.buildRationale(gate, policy, origin, checks), evidence };
+  }
+
+  /**
+   * Gather the evidence referenced by a policy's conditions.
+   */
+  async collectEvidence(
+    workflow: WorkflowInstance,
+    gate: HITLGate,
+    conditions: PolicyConditions,
+    options: GatePolicyEvaluateOptions = {}
+  ): Promise<GateEvidence> {
+    const stateData = (workflow.stateData as Record<string, unknown>) ?? {};
+    const evidence: GateEvidence = {};
+
+    if (conditions.minConfidence !== undefined) {
+      evidence.auditScore = stateData.auditScore as number | undefined;
+    }
+
+    const needsIssues = (conditions.issueTypeRules && gate === 'AI_REVIEW')
+      || conditions.maxResidualIssues
+      || (conditions.maxAiSuggestedShare !== undefined && gate !== 'CONFORMANCE_REVIEW' && gate !== 'ACR_SIGNOFF');
+    const jobId = stateData.jobId as string | undefined;
+
+    if (needsIssues && jobId) {
+      const job = await prisma.job.findUnique({ where: { id: jobId }, select: { output: true } });
+      const output = (job?.output as Record<string, unknown> | null) ?? {};
+      evidence.issues = issuesFromAudit(output);
+
+      if (conditions.maxResidualIssues || (conditions.maxAiSuggestedShare !== undefined && gate === 'REMEDIATION_REVIEW')) {
+        const tasks = await this.getRemediationTasks(jobId);
+
+        if (conditions.maxResidualIssues) {
+          // A verification audit supersedes the original audit; before it runs,
+          // residual issues are the original ones without a completed fix.
+          const verification = output.verificationAudit as Record<string, unknown> | undefined;
+          const fixed = new Set(
+            tasks.filter(t => String(t.status).toLowerCase() === 'completed').map(t => String(t.issueId))
+          );
+          const residual = verification
+            ? issuesFromAudit(verification)
+            : evidence.issues.filter(issue => !fixed.has(String(issue.id)));
+          evidence.residualBySeverity = this.countBySeverity(residual);
+        }
+
+        if (conditions.maxAiSuggestedShare !== undefined && gate === 'REMEDIATION_REVIEW') {
+          const completed = tasks.filter(t => String(t.status).toLowerCase() === 'completed');
+          evidence.humanVerifiedCount = completed.filter(
+            t => t.completionMethod === 'manual' || t.completionMethod === 'verified'
+          ).length;
+          evidence.aiSuggestedCount = completed.length - evidence.humanVerifiedCount;
+        }
+      }
+    }
+
+    if (conditions.maxAiSuggestedShare !== undefined && gate === 'AI_REVIEW' && evidence.issues) {
+      const humanDecisions = this.humanAiReviewDecisions(stateData);
+      evidence.humanVerifiedCount = humanDecisions.length;
+      evidence.aiSuggestedCount = Math.max(evidence.issues.length - humanDecisions.length, 0);
+    }
+
+    const needsConformance = conditions.maxDoesNotSupport !== undefined
+      || conditions.blockingCriteria
+      || (conditions.maxAiSuggestedShare !== undefined && (gate === 'CONFORMANCE_REVIEW' || gate === 'ACR_SIGNOFF'));
+
+    if (needsConformance) {
+      const mappings = stateData.conformanceMappings as ConformanceMapping[] | undefined;
+      if (mappings) {
+        const decisions = new Map(
+          ((stateData.conformanceReviewDecisions as ConformanceDecision[] | undefined) ?? [])
+            .map(d => [d.criterionId, d])
+        );
+        evidence.doesNotSupportCriteria = mappings
+          .filter(m => effectiveConformance(m, decisions.get(m.criterionId)) === 'does_not_support')
+          .map(m => m.criterionId);
+        evidence.humanVerifiedCount = mappings.filter(m => decisions.has(m.criterionId)).length;
+        evidence.aiSuggestedCount = mappings.length - evidence.humanVerifiedCount;
+      }
+    }
+
+    if (conditions.publisherProfiles) {
+      evidence.publisherProfile = await this.resolvePublisherProfile(workflow, stateData, options);
+    }
+
+    return evidence;
+  }
+
+  private buildRationale(
+    gate: HITLGate,
+    policy: ConditionalGatePolicy,
+    origin: GatePolicyOrigin,
+    checks: GatePolicyCheck[]
+  ): AutoApprovalRationale {
+    const approved = checks.every(c => c.passed);
+    const failed = checks.filter(c => !c.passed).map(c => c.condition);
+    let summary: string;
+    if (policy.mode !== 'conditional') {
+      summary = approved ? 'Gate policy is auto-accept' : 'Gate policy requires manual review';
+    } else if (checks.length === 0) {
+      summary = 'Conditional policy with no conditions';
+    } else {
+      summary = approved
+        ? `All ${checks.length} condition(s) passed: ${checks.map(c => c.condition).join(', ')}`
+        : `Failed condition(s): ${failed.join(', ')}`;
+    }
+
+    return {
+      gate,
+      approved,
+      policySource: origin.source,
+      policySourceId: origin.sourceId,
+      policyMode: policy.mode,
+      checks,
+      summary,
+      evaluatedAt: new Date().toISOString(),
+    };
+  }
+
+  private countBySeverity(issues: Array<Record<string, unknown>>): Record<IssueSeverity | 'total', number> {
+    const counts: Record<IssueSeverity | 'total', number> = { critical: 0, serious: 0, moderate: 0, minor: 0, total: 0 };
+    for (const issue of issues) {
+      const severity = String(issue.severity ?? issue.impact ?? '').toLowerCase() as IssueSeverity;
+      if (SEVERITIES.includes(severity)) counts[severity]++;
+      counts.total++;
+    }
+    return counts;
+  }
+
+  private async getRemediationTasks(jobId: string): Promise<Array<Record<string, unknown>>> {
+    // EPUB and PDF plans are both stored as BATCH_VALIDATION jobs keyed by sourceJobId
+    const planJob = await prisma.job.findFirst({
+      where: {
+        type: 'BATCH_VALIDATION',
+        input: { path: ['sourceJobId'], equals: jobId },
+      },
+      orderBy: { createdAt: 'desc' },
+      select: { output: true },
+    });
+    const plan = planJob?.output as { tasks?: Array<Record<string, unknown>> } | null;
+    return plan?.tasks ?? [];
+  }
+
+  private humanAiReviewDecisions(stateData: Record<string, unknown>): unknown[] {
+    const source = stateData.aiReviewDecisionsSource as string | undefined;
+    if (source?.startsWith('batch-policy')) return [];
+    return (stateData.aiReviewDecisions as unknown[] | undefined) ?? [];
+  }
+
+  /**
+   * Publisher profile from stateData (PRH preflight or an earlier evaluation),
+   * detecting it from the original EPUB when not yet known. The detected
+   * profile is cached in stateData unless this is a dry run.
+   */
+  private async resolvePublisherProfile(
+    workflow: WorkflowInstance,
+    stateData: Record<string, unknown>,
+    options: GatePolicyEvaluateOptions
+  ): Promise<string | undefined> {
+    if (typeof stateData.publisherProfile === 'string') return stateData.publisherProfile;
+
+    const preflight = stateData.prhPreflight as { skipped?: boolean; publisher?: string | null } | undefined;
+    if (preflight) return preflight.skipped ? (preflight.publisher ?? 'none') : 'PRH-UK';
+
+    const file = await prisma.file.findUnique({ where: { id: workflow.fileId } });
+    if (!file) return undefined;
+
+    let publisherProfile = 'none';
+    if (file.mimeType.includes('epub')) {
+      try {
+        const buffer = file.storageType === 'S3' && file.storagePath
+          ? await s3Service.getFileBuffer(file.storagePath)
+          : await (await import('fs/promises')).readFile(file.path);
+        const { detectPublisherProfile } = await import('../epub/profiles/profile-detector.service');
+        const { loadTenantProfiles } = await import('../epub/profiles/profile-config.service');
+        const profile = await detectPublisherProfile(buffer, await loadTenantProfiles(file.tenantId));
+        if (profile.publisher && profile.confidence !== 'low') publisherProfile = profile.publisher;
+      } catch (error) {
+        logger.warn(`[GatePolicy] Publisher profile detection failed for workflow ${workflow.id}`, {
+          error: error instanceof Error ? error.message : String(error),
+        });
+        return undefined;
+      }
+    }
+
+    if (!options.dryRun) {
+      // Merge into the current stateData: detection can take a while and other
+      // keys may have been written since `stateData` was read
+      await prisma.$transaction(async (tx) => {
+        const current = await tx.workflowInstance.findUnique({
+          where: { id: workflow.id },
+          select: { stateData: true },
+        });
+        await tx.workflowInstance.update({
+          where: { id: workflow.id },
+          data: {
+            stateData: {
+              ...((current?.stateData as Record<string, unknown> | null) ?? {}),
+              publisherProfile,
+            } as unknown as Prisma.InputJsonValue,
+          },
+        });
+      });
+    }
+
+    return publisherProfile;
+  }
+}
+
+// Export singleton instance
+export const gatePolicyService = new GatePolicyService();
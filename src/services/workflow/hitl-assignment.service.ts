@@ -0,0 +1,508 @@
+/**
+ * @fileoverview HITL gate ownership.
+ * Every open HITL gate has an assignment row naming who owns it: a named
+ * reviewer or everyone with a role. When a gate opens it is auto-assigned to
+ * the least-loaded reviewer with the skills the gate needs (tenant setting
+ * workflow.reviewerAssignment), or else owned by the user who started the
+ * workflow. Gates can be reassigned manually or by an escalation step (see
+ * hitl-escalation.service). Every owner is kept in HITLAssignmentHistory and
+ * mirrored onto HITLGateMetric for per-reviewer time-to-decision reporting.
+ * Assignments are resolved when the workflow leaves the gate.
+ */
+
+import { HITLGateAssignment, Prisma, UserRole } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { AppError } from '../../utils/app-error';
+import { notificationService } from '../notification/notification.service';
+import { workflowMetricsService } from '../metrics/workflow-metrics.service';
+import { workflowConfigService } from './workflow-config.service';
+import { reviewerProfileService, displayName } from './reviewer-profile.service';
+import type {
+  HITLAssignmentMethod,
+  HITLGate,
+  HITLGateAssignmentDetail,
+  HITLGateOwner,
+  HITLQueueEntry,
+} from '../../types/workflow-contracts';
+import type { HitlEscalationStep, ReviewerSkillRule } from '../../types/workflow-config.types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const HITL_GATE_NAMES: Record<HITLGate, string> = {
+  AI_REVIEW: 'AI Review',
+  REMEDIATION_REVIEW: 'Remediation Review',
+  CONFORMANCE_REVIEW: 'Conformance Review',
+  ACR_SIGNOFF: 'ACR Sign-off',
+};
+
+/** A user who receives notifications for a gate. */
+export interface GateRecipient {
+  id: string;
+  email: string;
+  firstName: string | null;
+  lastName: string | null;
+}
+
+/** What a skill rule is matched against. */
+export interface SkillContext {
+  gate: HITLGate;
+  fileType?: 'EPUB' | 'PDF';
+  publisherProfile?: string;
+}
+
+type AssignmentOwner = Pick<HITLGateAssignment, 'tenantId' | 'assigneeId' | 'assigneeRole'>;
+
+const QUEUE_INCLUDE = {
+  assignee: { select: { email: true, firstName: true, lastName: true } },
+  workflow: {
+    select: { currentState: true, file: { select: { originalName: true } } },
+  },
+} satisfies Prisma.HITLGateAssignmentInclude;
+
+type QueueAssignment = Prisma.HITLGateAssignmentGetPayload<{ include: typeof QUEUE_INCLUDE }>;
+
+/**
+ * Skills required at a gate: the skill of every rule whose conditions match.
+ */
+export function requiredSkillsFor(rules: ReviewerSkillRule[], context: SkillContext): string[] {
+  const skills = rules
+    .filter(rule => !rule.gates || rule.gates.includes(`AWAITING_${context.gate}` as never))
+    .filter(rule => !rule.fileTypes || (!!context.fileType && rule.fileTypes.includes(context.fileType)))
+    .filter(rule => !rule.publisherProfiles ||
+      (!!context.publisherProfile && rule.publisherProfiles.includes(context.publisherProfile)))
+    .map(rule => rule.skill);
+  return [...new Set(skills)];
+}
+
+function fileTypeOf(mimeType: string): SkillContext['fileType'] {
+  const mime = mimeType.toLowerCase();
+  if (mime.includes('epub')) return 'EPUB';
+  if (mime.includes('pdf')) return 'PDF';
+  return undefined;
+}
+
+/** Publisher profile already known for the run (see gate-policy.service). */
+function publisherProfileOf(stateData: Record<string, unknown>): string | undefined {
+  if (typeof stateData.publisherProfile === 'string') return stateData.publisherProfile;
+  const preflight = stateData.prhPreflight as { skipped?: boolean } | undefined;
+  if (preflight) return preflight.skipped ? 'none' : 'PRH-UK';
+  return undefined;
+}
+
+class HITLAssignmentService {
+  /**
+   * Open the assignment for a gate. The gate goes to the least-loaded
+   * qualified reviewer when auto-assignment is enabled, otherwise (or when
+   * nobody qualifies) to the user who started the workflow.
+   * Idempotent: re-processing a gate state returns the existing open assignment.
+   *
+   * @param workflowId - Workflow instance ID
+   * @param gate - HITL gate the workflow is waiting at
+   * @returns The open assignment, or null when the workflow no longer exists
+   */
+  async openGate(workflowId: string, gate: HITLGate): Promise<HITLGateAssignment | null> {
+    const existing = await prisma.hITLGateAssignment.findFirst({
+      where: { workflowId, gate, resolvedAt: null },
+    });
+    if (existing) {
+      return existing;
+    }
+
+    const workflow = await prisma.workflowInstance.findUnique({
+      where: { id: workflowId },
+      select: {
+        createdBy: true,
+        stateData: true,
+        file: { select: { tenantId: true, mimeType: true, originalName: true } },
+      },
+    });
+    if (!workflow) {
+      return null;
+    }
+
+    const tenantId = workflow.file.tenantId;
+    const config = (await workflowConfigService.getEffectiveConfig(tenantId)).reviewerAssignment;
+    const requiredSkills = config
+      ? requiredSkillsFor(config.skillRules, {
+          gate,
+          fileType: fileTypeOf(workflow.file.mimeType),
+          publisherProfile: publisherProfileOf((workflow.stateData as Record<string, unknown>) ?? {}),
+        })
+      : [];
+    const reviewerId = config?.autoAssign
+      ? await reviewerProfileService.pickReviewer(tenantId, gate, requiredSkills)
+      : null;
+
+    const assignment = await prisma.hITLGateAssignment.create({
+      data: {
+        workflowId,
+        tenantId,
+        gate,
+        assigneeId: reviewerId ?? workflow.createdBy,
+        requiredSkills,
+      },
+    });
+    await this.recordOwnerChange(assignment, reviewerId ? 'auto' : 'creator', { at: assignment.openedAt });
+
+    if (reviewerId) {
+      this.notifyAssignee(assignment, workflow.file.originalName, null);
+    }
+    logger.info(
+      `[HITL Assignment] Gate ${gate} of workflow ${workflowId} assigned to ${assignment.assigneeId}` +
+      (reviewerId ? ' (auto)' : '')
+    );
+    return assignment;
+  }
+
+  /**
+   * Resolve the open assignment for a gate once the workflow has left it.
+   *
+   * @returns Number of assignments resolved
+   */
+  async closeGate(workflowId: string, gate: HITLGate): Promise<number> {
+    const now = new Date();
+    const { count } = await prisma.hITLGateAssignment.updateMany({
+      where: { workflowId, gate, resolvedAt: null },
+      data: { resolvedAt: now },
+    });
+    if (count > 0) {
+      await prisma.hITLAssignmentHistory.updateMany({
+        where: { workflowId, gate, unassignedAt: null },
+        data: { unassignedAt: now },
+      });
+    }
+    return count;
+  }
+
+  /**
+   * Manually assign an open gate to a user or a role.
+   *
+   * @throws AppError 404 if the assignment is not in the tenant
+   * @throws AppError 409 if the gate is already resolved
+   * @throws AppError 400 if the user does not belong to the tenant
+   */
+  async assign(
+    tenantId: string,
+    assignmentId: string,
+    owner: { userId?: string; role?: UserRole },
+    options: { assignedById: string; reason?: string }
+  ): Promise<HITLGateAssignmentDetail> {
+    const assignment = await this.getOpenAssignment(tenantId, assignmentId);
+
+    if (owner.userId) {
+      const [user] = await this.findRecipients(tenantId, owner.userId);
+      if (!user) {
+        throw AppError.badRequest('Assignee is not a user of this tenant', 'INVALID_ASSIGNEE');
+      }
+    }
+
+    await this.changeOwner(assignment, owner.userId ?? null, owner.userId ? null : owner.role ?? null, {
+      method: 'manual',
+      assignedById: options.assignedById,
+      reason: options.reason,
+    });
+    return this.getAssignmentDetail(tenantId, assignmentId);
+  }
+
+  /**
+   * Re-run auto-assignment for an open gate, e.g. after a reviewer left.
+   * The current owner is skipped so the gate moves to someone else.
+   *
+   * @throws AppError 409 if no other reviewer qualifies
+   */
+  async autoAssign(tenantId: string, assignmentId: string, assignedById: string): Promise<HITLGateAssignmentDetail> {
+    const assignment = await this.getOpenAssignment(tenantId, assignmentId);
+
+    const reviewerId = await reviewerProfileService.pickReviewer(
+      tenantId,
+      assignment.gate as HITLGate,
+      assignment.requiredSkills,
+      assignment.assigneeId
+    );
+    if (!reviewerId) {
+      throw AppError.conflict(
+        `No available reviewer has the required skills (${assignment.requiredSkills.join(', ') || 'none'})`,
+        'NO_ELIGIBLE_REVIEWER'
+      );
+    }
+
+    await this.changeOwner(assignment, reviewerId, null, { method: 'auto', assignedById });
+    return this.getAssignmentDetail(tenantId, assignmentId);
+  }
+
+  /**
+   * Record a new owner of an assignment: close the previous history row,
+   * write the new one and mirror the owner onto the gate metric. Escalation
+   * steps record their own WorkflowEvent; other changes record HITL_ASSIGNED.
+   */
+  async recordOwnerChange(
+    assignment: HITLGateAssignment,
+    method: HITLAssignmentMethod,
+    options: { assignedById?: string; reason?: string; at?: Date } = {}
+  ): Promise<void> {
+    const at = options.at ?? new Date();
+
+    const { count: previousOwners } = await prisma.hITLAssignmentHistory.updateMany({
+      where: { assignmentId: assignment.id, unassignedAt: null },
+      data: { unassignedAt: at },
+    });
+    await prisma.hITLAssignmentHistory.create({
+      data: {
+        assignmentId: assignment.id,
+        workflowId: assignment.workflowId,
+        tenantId: assignment.tenantId,
+        gate: assignment.gate,
+        assigneeId: assignment.assigneeId,
+        assigneeRole: assignment.assigneeRole,
+        method,
+        assignedById: options.assignedById ?? null,
+        reason: options.reason ?? null,
+        assignedAt: at,
+      },
+    });
+
+    if (method !== 'escalation') {
+      await prisma.workflowEvent.create({
+        data: {
+          workflowId: assignment.workflowId,
+          eventType: 'HITL_ASSIGNED',
+          payload: {
+            gate: assignment.gate,
+            method,
+            assigneeId: assignment.assigneeId,
+            assigneeRole: assignment.assigneeRole,
+            assignedById: options.assignedById ?? null,
+            reason: options.reason ?? null,
+          },
+        },
+      });
+    }
+
+    workflowMetricsService.recordAssignment(
+      assignment.workflowId,
+      assignment.gate,
+      assignment.assigneeId,
+      at,
+      previousOwners > 0
+    ).catch(err => logger.warn(`[Metrics] recordAssignment failed: ${err.message}`));
+  }
+
+  /**
+   * Users to notify for an assignment: the assignee, or every active user in
+   * the tenant with the owning role.
+   */
+  async resolveRecipients(owner: AssignmentOwner): Promise<GateRecipient[]> {
+    return this.findRecipients(owner.tenantId, owner.assigneeId, owner.assigneeRole);
+  }
+
+  /**
+   * Users holding a named user ID or a role within a tenant.
+   */
+  async findRecipients(
+    tenantId: string,
+    userId?: string | null,
+    role?: UserRole | null
+  ): Promise<GateRecipient[]> {
+    if (!userId && !role) {
+      return [];
+    }
+
+    return prisma.user.findMany({
+      where: {
+        tenantId,
+        deletedAt: null,
+        ...(userId ? { id: userId } : { role: role as UserRole }),
+      },
+      select: { id: true, email: true, firstName: true, lastName: true },
+    });
+  }
+
+  /**
+   * Describe the owner of an assignment for the queue and notifications.
+   */
+  describeOwner(
+    assignment: Pick<HITLGateAssignment, 'assigneeId' | 'assigneeRole'>,
+    assignee: Pick<GateRecipient, 'email' | 'firstName' | 'lastName'> | null
+  ): HITLGateOwner | null {
+    if (assignment.assigneeId && assignee) {
+      return { userId: assignment.assigneeId, name: displayName(assignee), email: assignee.email };
+    }
+    if (assignment.assigneeRole) {
+      return { role: assignment.assigneeRole };
+    }
+    return null;
+  }
+
+  /**
+   * Open gates of a tenant with their current owner, oldest first.
+   * With `mine`, only gates owned by the user or by the user's role.
+   *
+   * @param tenantId - Tenant ID
+   * @param mine - Restrict to gates assigned to this user
+   */
+  async getQueue(tenantId: string, mine?: { userId: string; role: UserRole }): Promise<HITLQueueEntry[]> {
+    const assignments = await prisma.hITLGateAssignment.findMany({
+      where: {
+        tenantId,
+        resolvedAt: null,
+        ...(mine
+          ? { OR: [{ assigneeId: mine.userId }, { assigneeId: null, assigneeRole: mine.role }] }
+          : {}),
+      },
+      include: QUEUE_INCLUDE,
+      orderBy: { openedAt: 'asc' },
+    });
+
+    const chains = new Map<string, HitlEscalationStep[]>();
+    const entries: HITLQueueEntry[] = [];
+    for (const assignment of assignments) {
+      entries.push(await this.toQueueEntry(assignment, chains));
+    }
+    return entries;
+  }
+
+  /**
+   * Every assignment of a workflow, including resolved ones, with its owner history.
+   *
+   * @throws AppError 404 if the workflow is not in the tenant
+   */
+  async getWorkflowAssignments(tenantId: string, workflowId: string): Promise<HITLGateAssignmentDetail[]> {
+    const workflow = await prisma.workflowInstance.findFirst({
+      where: { id: workflowId, file: { tenantId } },
+      select: { id: true },
+    });
+    if (!workflow) {
+      throw AppError.notFound('Workflow not found', 'WORKFLOW_NOT_FOUND');
+    }
+
+    const assignments = await prisma.hITLGateAssignment.findMany({
+      where: { workflowId, tenantId },
+      include: QUEUE_INCLUDE,
+      orderBy: { openedAt: 'asc' },
+    });
+    return this.withHistory(tenantId, assignments);
+  }
+
+  private async getAssignmentDetail(tenantId: string, assignmentId: string): Promise<HITLGateAssignmentDetail> {
+    const assignment = await prisma.hITLGateAssignment.findFirstOrThrow({
+      where: { id: assignmentId, tenantId },
+      include: QUEUE_INCLUDE,
+    });
+    const [detail] = await this.withHistory(tenantId, [assignment]);
+    return detail;
+  }
+
+  private async withHistory(tenantId: string, assignments: QueueAssignment[]): Promise<HITLGateAssignmentDetail[]> {
+    const history = await prisma.hITLAssignmentHistory.findMany({
+      where: { assignmentId: { in: assignments.map(a => a.id) } },
+      orderBy: { assignedAt: 'asc' },
+    });
+    const userIds = [...new Set(history.map(h => h.assigneeId).filter((id): id is string => !!id))];
+    const users = userIds.length > 0
+      ? await prisma.user.findMany({
+          where: { id: { in: userIds }, tenantId },
+          select: { id: true, email: true, firstName: true, lastName: true },
+        })
+      : [];
+    const usersById = new Map(users.map(u => [u.id, u]));
+
+    const chains = new Map<string, HitlEscalationStep[]>();
+    const details: HITLGateAssignmentDetail[] = [];
+    for (const assignment of assignments) {
+      details.push({
+        ...(await this.toQueueEntry(assignment, chains)),
+        resolvedAt: assignment.resolvedAt?.toISOString() ?? null,
+        history: history
+          .filter(h => h.assignmentId === assignment.id)
+          .map(h => ({
+            owner: this.describeOwner(h, h.assigneeId ? usersById.get(h.assigneeId) ?? null : null),
+            method: h.method as HITLAssignmentMethod,
+            assignedById: h.assignedById,
+            reason: h.reason,
+            assignedAt: h.assignedAt.toISOString(),
+            unassignedAt: h.unassignedAt?.toISOString() ?? null,
+          })),
+      });
+    }
+    return details;
+  }
+
+  private async toQueueEntry(
+    assignment: QueueAssignment,
+    chains: Map<string, HitlEscalationStep[]>
+  ): Promise<HITLQueueEntry> {
+    const gate = assignment.gate as HITLGate;
+    if (!chains.has(gate)) {
+      chains.set(gate, await workflowConfigService.getEscalationChain(assignment.tenantId, gate));
+    }
+    const nextStep = assignment.resolvedAt ? undefined : chains.get(gate)?.[assignment.escalationLevel];
+    const nextEscalationAt = nextStep
+      ? new Date(assignment.openedAt.getTime() + nextStep.afterHours * HOUR_MS)
+      : undefined;
+
+    return {
+      assignmentId: assignment.id,
+      workflowId: assignment.workflowId,
+      fileName: assignment.workflow.file.originalName,
+      gate,
+      currentState: assignment.workflow.currentState,
+      openedAt: assignment.openedAt.toISOString(),
+      owner: this.describeOwner(assignment, assignment.assignee),
+      escalationLevel: assignment.escalationLevel,
+      lastEscalatedAt: assignment.lastEscalatedAt?.toISOString(),
+      nextEscalationAt: nextEscalationAt?.toISOString(),
+      requiredSkills: assignment.requiredSkills,
+    };
+  }
+
+  private async getOpenAssignment(tenantId: string, assignmentId: string): Promise<HITLGateAssignment> {
+    const assignment = await prisma.hITLGateAssignment.findFirst({
+      where: { id: assignmentId, tenantId },
+    });
+    if (!assignment) {
+      throw AppError.notFound('Assignment not found', 'ASSIGNMENT_NOT_FOUND');
+    }
+    if (assignment.resolvedAt) {
+      throw AppError.conflict('The workflow has already left this gate', 'ASSIGNMENT_RESOLVED');
+    }
+    return assignment;
+  }
+
+  private async changeOwner(
+    assignment: HITLGateAssignment,
+    assigneeId: string | null,
+    assigneeRole: UserRole | null,
+    options: { method: HITLAssignmentMethod; assignedById: string; reason?: string }
+  ): Promise<void> {
+    const updated = await prisma.hITLGateAssignment.update({
+      where: { id: assignment.id },
+      data: { assigneeId, assigneeRole },
+      include: { workflow: { select: { file: { select: { originalName: true } } } } },
+    });
+    await this.recordOwnerChange(updated, options.method, {
+      assignedById: options.assignedById,
+      reason: options.reason,
+    });
+
+    if (assigneeId && assigneeId !== options.assignedById) {
+      this.notifyAssignee(updated, updated.workflow.file.originalName, options.reason ?? null);
+    }
+    logger.info(
+      `[HITL Assignment] Gate ${assignment.gate} of workflow ${assignment.workflowId} ` +
+      `reassigned to ${assigneeId ?? assigneeRole} (${options.method})`
+    );
+  }
+
+  private notifyAssignee(assignment: HITLGateAssignment, fileName: string, reason: string | null): void {
+    if (!assignment.assigneeId) return;
+    const gate = assignment.gate as HITLGate;
+    notificationService.createHITLAssignmentNotification(
+      { workflowId: assignment.workflowId, fileName, gate, gateName: HITL_GATE_NAMES[gate] ?? gate, reason },
+      assignment.assigneeId,
+      assignment.tenantId
+    ).catch(err => logger.warn(`[HITL Assignment] Notification failed: ${err.message}`));
+  }
+}
+
+export const hitlAssignmentService = new HITLAssignmentService();
@@ -0,0 +1,284 @@
+/**
+ * @fileoverview HITL gate escalation chains.
+ * A periodic sweep walks open gate assignments and applies the tenant's
+ * escalation chain (workflow.hitlEscalation): remind the owner, reassign the
+ * gate to a backup reviewer or role, then notify a manager. Every applied step
+ * is recorded as a WorkflowEvent and sent as an in-app notification and email.
+ *
+ * Escalation state lives in HITLGateAssignment, so the sweep survives restarts
+ * and is safe to run on several instances: a step is claimed by bumping
+ * escalationLevel from its expected value before anything is sent.
+ */
+
+import { HITLGateAssignment, Prisma, UserRole } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { emailService } from '../email/email.service';
+import { notificationService } from '../notification/notification.service';
+import { workflowConfigService } from './workflow-config.service';
+import { workflowDefinitionService } from './workflow-definition.service';
+import { hitlAssignmentService, HITL_GATE_NAMES, type GateRecipient } from './hitl-assignment.service';
+import { displayName } from './reviewer-profile.service';
+import type { HitlEscalationStep } from '../../types/workflow-config.types';
+import type { HITLGate, HITLGateOwner } from '../../types/workflow-contracts';
+
+const HOUR_MS = 60 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+
+const ESCALATION_EVENT_TYPES: Record<HitlEscalationStep['action'], string> = {
+  'remind': 'HITL_REMINDER_SENT',
+  'reassign': 'HITL_REASSIGNED',
+  'notify-manager': 'HITL_MANAGER_NOTIFIED',
+};
+
+/**
+ * Steps of a chain that are due and not yet applied.
+ * The chain is ordered by afterHours, so steps fire strictly in order; a sweep
+ * that runs late applies every step whose time has passed.
+ *
+ * @param chain - Escalation steps ordered by afterHours
+ * @param level - Number of steps already applied
+ * @param openedAt - When the gate was opened
+ * @param now - Reference time
+ */
+export function dueEscalationSteps(
+  chain: HitlEscalationStep[],
+  level: number,
+  openedAt: Date,
+  now: Date
+): HitlEscalationStep[] {
+  const hoursOpen = (now.getTime() - openedAt.getTime()) / HOUR_MS;
+  const due: HitlEscalationStep[] = [];
+  for (const step of chain.slice(level)) {
+    if (step.afterHours > hoursOpen) break;
+    due.push(step);
+  }
+  return due;
+}
+
+function ownerLabel(owner: HITLGateOwner | null): string {
+  if (!owner) return 'unassigned';
+  return 'role' in owner ? `any ${owner.role}` : owner.name;
+}
+
+type SweepAssignment = HITLGateAssignment & {
+  assignee: GateRecipient | null;
+  workflow: {
+    currentState: string;
+    definitionId: string | null;
+    file: { originalName: string };
+  };
+};
+
+class HITLEscalationService {
+  /**
+   * Apply every due escalation step to open gate assignments.
+   * Assignments whose workflow has already left the gate are resolved.
+   *
+   * @param now - Reference time (defaults to now)
+   * @returns Number of escalation steps applied
+   */
+  async runSweep(now: Date = new Date()): Promise<number> {
+    const assignments: SweepAssignment[] = await prisma.hITLGateAssignment.findMany({
+      where: { resolvedAt: null },
+      include: {
+        assignee: { select: { id: true, email: true, firstName: true, lastName: true } },
+        workflow: {
+          select: { currentState: true, definitionId: true, file: { select: { originalName: true } } },
+        },
+      },
+    });
+
+    let applied = 0;
+
+    for (const assignment of assignments) {
+      try {
+        applied += await this.escalate(assignment, now);
+      } catch (err) {
+        logger.error(`[HITL Escalation] Failed to escalate assignment ${assignment.id}:`, err);
+      }
+    }
+
+    if (applied > 0) {
+      logger.info(`[HITL Escalation] Applied ${applied} escalation step(s)`);
+    }
+    return applied;
+  }
+
+  private async escalate(assignment: SweepAssignment, now: Date): Promise<number> {
+    const gate = assignment.gate as HITLGate;
+
+    // The closeGate hook is best-effort — resolve assignments it missed
+    const action = await workflowDefinitionService.resolveStepAction(assignment.workflow);
+    if (action !== `AWAITING_${gate}`) {
+      await hitlAssignmentService.closeGate(assignment.workflowId, gate);
+      return 0;
+    }
+
+    const chain = await workflowConfigService.getEscalationChain(assignment.tenantId, gate);
+    const due = dueEscalationSteps(chain, assignment.escalationLevel, assignment.openedAt, now);
+
+    let applied = 0;
+    let current = assignment;
+    for (const step of due) {
+      const next = await this.applyStep(current, step, now);
+      if (!next) break; // Claimed by another instance
+      current = next;
+      applied++;
+    }
+    return applied;
+  }
+
+  /**
+   * Claim and apply a single escalation step.
+   *
+   * @returns The assignment after the step, or null if another sweep claimed it
+   */
+  private async applyStep(
+    assignment: SweepAssignment,
+    step: HitlEscalationStep,
+    now: Date
+  ): Promise<SweepAssignment | null> {
+    const gate = assignment.gate as HITLGate;
+    const level = assignment.escalationLevel + 1;
+    const hoursOpen = Math.floor((now.getTime() - assignment.openedAt.getTime()) / HOUR_MS);
+    const previousOwner = hitlAssignmentService.describeOwner(assignment, assignment.assignee);
+
+    let updated: SweepAssignment = { ...assignment, escalationLevel: level, lastEscalatedAt: now };
+    let recipients: GateRecipient[];
+
+    if (step.action === 'reassign') {
+      const assigneeId = step.userId ?? null;
+      const assigneeRole = step.userId ? null : (step.role as UserRole);
+      recipients = await hitlAssignmentService.findRecipients(assignment.tenantId, assigneeId, assigneeRole);
+      updated = {
+        ...updated,
+        assigneeId,
+        assigneeRole,
+        assignee: assigneeId ? recipients[0] ?? null : null,
+      };
+    } else if (step.action === 'notify-manager') {
+      recipients = await hitlAssignmentService.findRecipients(
+        assignment.tenantId,
+        step.userId,
+        step.userId ? null : ((step.role ?? 'ADMIN') as UserRole)
+      );
+    } else {
+      recipients = await hitlAssignmentService.resolveRecipients(assignment);
+    }
+
+    const { count } = await prisma.hITLGateAssignment.updateMany({
+      where: { id: assignment.id, escalationLevel: assignment.escalationLevel, resolvedAt: null },
+      data: {
+        escalationLevel: level,
+        lastEscalatedAt: now,
+        ...(step.action === 'reassign'
+          ? { assigneeId: updated.assigneeId, assigneeRole: updated.assigneeRole }
+          : {}),
+      },
+    });
+    if (count === 0) {
+      return null;
+    }
+
+    if (step.action === 'reassign') {
+      await hitlAssignmentService.recordOwnerChange(updated, 'escalation', {
+        reason: `Escalation after ${step.afterHours} hour(s)`,
+        at: now,
+      });
+    }
+
+    const owner = hitlAssignmentService.describeOwner(updated, updated.assignee);
+
+    await prisma.workflowEvent.create({
+      data: {
+        workflowId: assignment.workflowId,
+        eventType: ESCALATION_EVENT_TYPES[step.action],
+        payload: {
+          gate,
+          state: assignment.workflow.currentState,
+          level,
+          afterHours: step.afterHours,
+          hoursOpen,
+          recipients: recipients.map(r => r.id),
+          owner,
+          ...(step.action === 'reassign' ? { previousOwner } : {}),
+        } as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    logger.info(
+      `[HITL Escalation] ${step.action} for gate ${gate} of workflow ${assignment.workflowId} ` +
+      `(level ${level}, ${recipients.length} recipient(s))`
+    );
+
+    this.notify(assignment, step, recipients, hoursOpen, ownerLabel(owner));
+    return updated;
+  }
+
+  /**
+   * Send the in-app notification and email for a step (fire-and-forget).
+   */
+  private notify(
+    assignment: SweepAssignment,
+    step: HitlEscalationStep,
+    recipients: GateRecipient[],
+    hoursOpen: number,
+    ownerName: string
+  ): void {
+    const gate = assignment.gate as HITLGate;
+    const gateName = HITL_GATE_NAMES[gate] ?? gate;
+    const fileName = assignment.workflow.file.originalName;
+    const reviewUrl =
+      `${process.env.APP_URL ?? ''}/workflow/${assignment.workflowId}/hitl/${gate.toLowerCase().replace(/_/g, '-')}`;
+
+    for (const recipient of recipients) {
+      notificationService.createHITLEscalationNotification(
+        { workflowId: assignment.workflowId, fileName, gate, gateName, action: step.action, hoursOpen, ownerName },
+        recipient.id,
+        assignment.tenantId
+      ).catch(err => logger.warn(`[HITL Escalation] Notification failed for ${recipient.id}: ${err.message}`));
+
+      emailService.sendHITLEscalationEmail({
+        userName: displayName(recipient),
+        userEmail: recipient.email,
+        workflowId: assignment.workflowId,
+        fileName,
+        gateName,
+        action: step.action,
+        hoursOpen,
+        ownerName,
+        reviewUrl,
+      }).catch(err => logger.warn(`[HITL Escalation] Email failed for ${recipient.email}: ${err.message}`));
+    }
+  }
+}
+
+export const hitlEscalationService = new HITLEscalationService();
+
+let _escalationInterval: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Run an immediate escalation sweep, then schedule one every 5 minutes.
+ * Safe to call multiple times — subsequent calls are no-ops.
+ */
+export function startHitlEscalation(): void {
+  if (_escalationInterval) return;
+
+  hitlEscalationService.runSweep().catch(err => {
+    logger.error('[HITL Escalation] Startup sweep failed:', err);
+  });
+
+  _escalationInterval = setInterval(() => {
+    hitlEscalationService.runSweep().catch(err => {
+      logger.error('[HITL Escalation] Periodic sweep failed:', err);
+    });
+  }, SWEEP_INTERVAL_MS);
+}
+
+export function stopHitlEscalation(): void {
+  if (_escalationInterval) {
+    clearInterval(_escalationInterval);
+    _escalationInterval = null;
+  }
+}
@@ -1,6 +1,7 @@
 import { hitlService } from './hitl.service';
 import { timeoutService } from './timeout.service';
 import { workflowConfigService } from './workflow-config.service';
+import { hitlAssignmentService } from './hitl-assignment.service';
 import { HITLGate, HITLAction, HITLReviewItem } from '../../types/workflow-contracts';
 import { HitlGateConfig } from '../../types/workflow-config.types';
 import { logger } from '../../lib/logger';
@@ -29,13 +30,17 @@ class HITLOrchestratorService {
     tenantId: string
   ): Promise<void> {
     hitlService.openGate(workflowId, gate, items);
+    await hitlAssignmentService.openGate(workflowId, gate);
+
+    // An escalation chain replaces the gate timeout: the gate stays open and is
+    // escalated by the HITL escalation sweep instead of timing out
+    const escalationChain = await workflowConfigService.getEscalationChain(tenantId, gate);
 
     // Get configured timeout for this gate
     const configKey = this.gateToConfigKey(gate);
-    const timeoutMs = await workflowConfigService.getGateTimeout(
-      tenantId,
-      configKey
-    );
+    const timeoutMs = escalationChain.length > 0
+      ? null
+      : await workflowConfigService.getGateTimeout(tenantId, configKey);
 
     // Schedule timeout if configured
     if (timeoutMs === null) {
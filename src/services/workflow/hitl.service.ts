@@ -1,4 +1,4 @@
-import { HITLGate, HITLAction, HITLReviewItem, GateStatus } from '../../types/workflow-contracts';
+import { HITLGate, HITLAction, HITLReviewItem, GateStatus, AutoApprovalRationale } from '../../types/workflow-contracts';
 import prisma from '../../lib/prisma';
 import { Prisma } from '@prisma/client';
 import { logger } from '../../lib/logger';
@@ -66,6 +66,28 @@ class HITLService {
     }
   }
 
+  /**
+   * Record a policy auto-decision for a whole gate. The row has no reviewer;
+   * the rationale explains which policy conditions allowed the gate to be skipped.
+   */
+  async recordAutoDecision(workflowId: string, rationale: AutoApprovalRationale): Promise<void> {
+    await prisma.hITLDecision.create({
+      data: {
+        workflowId,
+        gate: rationale.gate,
+        itemType: 'gate',
+        itemId: rationale.gate,
+        decision: 'ACCEPT',
+        originalValue: {} as Prisma.InputJsonValue,
+        justification: rationale.summary,
+        reviewerId: null,
+        autoApproved: true,
+        rationale: rationale as unknown as Prisma.InputJsonValue,
+      },
+    });
+    logger.info(`[HITL] Gate ${rationale.gate} auto-approved for workflow ${workflowId}: ${rationale.summary}`);
+  }
+
   async getGateStatus(workflowId: string, gate: HITLGate): Promise<GateStatus> {
     const total = await prisma.hITLDecision.count({ where: { workflowId, gate } });
     const pending = this.pending.get(`${workflowId}:${gate}`)?.length ?? 0;
@@ -0,0 +1,141 @@
+/**
+ * @fileoverview Reviewer profiles for HITL gate assignment.
+ * A profile lists a reviewer's skills (free-form, e.g. "PDF tables" or
+ * "PRH EPUB"), the gates they take and how many open gates they can hold.
+ * Auto-assignment picks the qualified reviewer with the lowest current load.
+ */
+
+import prisma from '../../lib/prisma';
+import { AppError } from '../../utils/app-error';
+import type { HITLGate, ReviewerWorkload } from '../../types/workflow-contracts';
+
+export interface ReviewerProfileInput {
+  skills: string[];
+  gates?: HITLGate[];
+  maxOpenGates?: number | null;
+  active?: boolean;
+}
+
+/**
+ * Display name used in notifications, the reviewer queue and reports.
+ */
+export function displayName(user: { email: string; firstName: string | null; lastName: string | null }): string {
+  return `${user.firstName ?? ''} ${user.lastName ?? ''}`.trim() || user.email;
+}
+
+class ReviewerProfileService {
+  /**
+   * Reviewers of a tenant with their profile and current open-gate load.
+   */
+  async listReviewers(tenantId: string): Promise<ReviewerWorkload[]> {
+    const profiles = await prisma.reviewerProfile.findMany({
+      where: { tenantId, user: { deletedAt: null } },
+      include: { user: { select: { email: true, firstName: true, lastName: true, role: true } } },
+      orderBy: { createdAt: 'asc' },
+    });
+    const loads = await this.getOpenGateCounts(profiles.map(p => p.userId));
+
+    return profiles.map(profile => ({
+      userId: profile.userId,
+      name: displayName(profile.user),
+      email: profile.user.email,
+      role: profile.user.role,
+      skills: profile.skills,
+      gates: profile.gates as HITLGate[],
+      maxOpenGates: profile.maxOpenGates,
+      active: profile.active,
+      openGates: loads.get(profile.userId) ?? 0,
+    }));
+  }
+
+  /**
+   * Create or replace the reviewer profile of a tenant user.
+   *
+   * @throws AppError 404 if the user does not belong to the tenant
+   */
+  async upsertProfile(tenantId: string, userId: string, input: ReviewerProfileInput): Promise<ReviewerWorkload> {
+    const user = await prisma.user.findFirst({
+      where: { id: userId, tenantId, deletedAt: null },
+      select: { id: true },
+    });
+    if (!user) {
+      throw AppError.notFound('User not found', 'USER_NOT_FOUND');
+    }
+
+    const data = {
+      skills: [...new Set(input.skills)],
+      gates: input.gates ?? [],
+      maxOpenGates: input.maxOpenGates ?? null,
+      active: input.active ?? true,
+    };
+    await prisma.reviewerProfile.upsert({
+      where: { userId },
+      create: { userId, tenantId, ...data },
+      update: data,
+    });
+
+    const reviewers = await this.listReviewers(tenantId);
+    return reviewers.find(r => r.userId === userId) as ReviewerWorkload;
+  }
+
+  /**
+   * Pick the reviewer for a gate: an active reviewer with every required
+   * skill who takes the gate and is below capacity, with the fewest open
+   * gates. Ties go to the reviewer whose profile is oldest.
+   *
+   * @param excludeUserId - Current owner, skipped when rebalancing
+   * @returns The reviewer's user ID, or null when nobody qualifies
+   */
+  async pickReviewer(
+    tenantId: string,
+    gate: HITLGate,
+    requiredSkills: string[],
+    excludeUserId?: string | null
+  ): Promise<string | null> {
+    const profiles = await prisma.reviewerProfile.findMany({
+      where: {
+        tenantId,
+        active: true,
+        skills: { hasEvery: requiredSkills },
+        user: { deletedAt: null },
+        ...(excludeUserId ? { userId: { not: excludeUserId } } : {}),
+      },
+      select: { userId: true, gates: true, maxOpenGates: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    const candidates = profiles.filter(p => p.gates.length === 0 || p.gates.includes(gate));
+    if (candidates.length === 0) {
+      return null;
+    }
+
+    const loads = await this.getOpenGateCounts(candidates.map(c => c.userId));
+    let best: { userId: string; load: number } | null = null;
+    for (const candidate of candidates) {
+      const load = loads.get(candidate.userId) ?? 0;
+      if (candidate.maxOpenGates !== null && load >= candidate.maxOpenGates) continue;
+      if (!best || load < best.load) {
+        best = { userId: candidate.userId, load };
+      }
+    }
+    return best?.userId ?? null;
+  }
+
+  /**
+   * Number of open gates assigned to each user.
+   */
+  async getOpenGateCounts(userIds: string[]): Promise<Map<string, number>> {
+    if (userIds.length === 0) {
+      return new Map();
+    }
+
+    const counts = await prisma.hITLGateAssignment.groupBy({
+      by: ['assigneeId'],
+      where: { assigneeId: { in: userIds }, resolvedAt: null },
+      _count: { _all: true },
+    });
+    return new Map(counts.map(c => [c.assigneeId as string, c._count._all]));
+  }
+}
+
+export const reviewerProfileService = new ReviewerProfileService();
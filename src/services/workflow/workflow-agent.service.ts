@@ -17,13 +17,15 @@ import { remediationService } from '../epub/remediation.service';
 import { pdfAutoRemediationService } from '../pdf/pdf-auto-remediation.service';
 import { pdfRemediationService } from '../pdf/pdf-remediation.service';
 import { websocketService } from './websocket.service';
+import { workflowDefinitionService } from './workflow-definition.service';
 import { config } from '../../config';
-import type {
-  BatchAutoApprovalPolicy,
-  ConditionalGatePolicy,
-  PolicyConditions,
-} from '../../types/workflow-contracts';
+import type { BatchAutoApprovalPolicy } from '../../types/workflow-contracts';
+import { WorkflowStepAction } from '../../types/workflow-definition.types';
 import { categorizeIssue } from './issue-categorizer.service';
+import { gatePolicyService } from './gate-policy.service';
+import { autoApprovalPolicyService } from './auto-approval-policy.service';
+import { hitlAssignmentService } from './hitl-assignment.service';
+import { hitlService } from './hitl.service';
 import { workflowMetricsService } from '../metrics/workflow-metrics.service';
 
 /**
@@ -141,8 +143,9 @@ class WorkflowAgentService {
       return { id: stateData.jobId, isNew: false };
     }
 
-    // Check for existing completed job for this file
-    const existingJobs = await prisma.job.findMany({
+    // Check for existing completed job for this file. Replays skip the lookup:
+    // they restart at or before the audit precisely to re-run it.
+    const existingJobs = workflow.replayOfId ? [] : await prisma.job.findMany({
       where: {
         tenantId: file.tenantId,
         type: jobType,
@@ -217,10 +220,19 @@ class WorkflowAgentService {
         return;
       }
 
-      logger.info(`[WorkflowAgent] Processing state: ${workflow.currentState} for workflow ${workflowId}`);
+      // Declarative workflows store tenant-defined step ids in currentState;
+      // resolve the built-in action the step executes (identity for the
+      // built-in pipeline).
+      const action = await workflowDefinitionService.resolveStepAction(workflow);
+
+      logger.info(
+        `[WorkflowAgent] Processing state: ${workflow.currentState}` +
+        (action !== workflow.currentState ? ` (action ${action})` : '') +
+        ` for workflow ${workflowId}`
+      );
 
       // Route to appropriate handler
-      switch (workflow.currentState) {
+      switch (action) {
         case 'UPLOAD_RECEIVED':
           await this.handleUploadReceived(workflow);
           break;
@@ -241,6 +253,10 @@ class WorkflowAgentService {
           await this.handleRunningAiAnalysis(workflow);
           break;
 
+        case 'PRH_PREFLIGHT':
+          await this.handlePrhPreflight(workflow);
+          break;
+
         case 'AWAITING_AI_REVIEW':
           await this.handleAwaitingAiReview(workflow);
           break;
@@ -483,6 +499,72 @@ class WorkflowAgentService {
     await enqueueWorkflowEvent(workflow.id, 'AI_DONE');
   }
 
+  /**
+   * Handle PRH_PREFLIGHT step (declarative workflows only).
+   * Runs the PRH UK publisher-profile detector and validators against the
+   * original EPUB and records a summary in stateData. PDFs and EPUBs that are
+   * not PRH UK builds pass through with a skipped marker.
+   */
+  private async handlePrhPreflight(workflow: WorkflowInstance): Promise<void> {
+    logger.info(`[WorkflowAgent] Running PRH preflight for workflow ${workflow.id}`);
+
+    const file = await prisma.file.findUnique({
+      where: { id: workflow.fileId },
+    });
+
+    if (!file) {
+      throw new Error(`File ${workflow.fileId} not found`);
+    }
+
+    let prhPreflight: Record<string, unknown>;
+
+    if (!file.mimeType.includes('epub')) {
+      prhPreflight = { skipped: true, reason: 'not-epub' };
+    } else {
+      const buffer = await this.getFileBuffer(file);
+      const { detectPublisherProfile } = await import('../epub/profiles/profile-detector.service');
+      const { loadTenantProfiles } = await import('../epub/profiles/profile-config.service');
+      const profile = await detectPublisherProfile(buffer, await loadTenantProfiles(file.tenantId));
+
+      if (profile.publisher !== 'PRH-UK' || profile.confidence === 'low') {
+        prhPreflight = {
+          skipped: true,
+          reason: 'not-prh-uk',
+          confidence: profile.confidence,
+          // Another tenant profile may have matched; the gate policy reads it.
+          publisher: profile.confidence !== 'low' ? profile.publisher : null,
+        };
+      } else {
+        const { runPrhUkValidators } = await import('../epub/profiles/prh-uk/run-validators');
+        const issues = await runPrhUkValidators(buffer, profile);
+        const bySeverity: Record<string, number> = {};
+        for (const issue of issues) {
+          bySeverity[issue.severity] = (bySeverity[issue.severity] ?? 0) + 1;
+        }
+        prhPreflight = {
+          skipped: false,
+          imprint: profile.imprint,
+          confidence: profile.confidence,
+          issueCount: issues.length,
+          bySeverity,
+        };
+      }
+    }
+
+    await prisma.workflowInstance.update({
+      where: { id: workflow.id },
+      data: {
+        stateData: {
+          ...(workflow.stateData as Record<string, unknown>),
+          prhPreflight: { ...prhPreflight, completedAt: new Date().toISOString() },
+        } as unknown as Prisma.InputJsonValue,
+      },
+    });
+
+    logger.info(`[WorkflowAgent] PRH preflight complete for workflow ${workflow.id}`, prhPreflight);
+    await enqueueWorkflowEvent(workflow.id, 'PREFLIGHT_DONE');
+  }
+
   /**
    * Handle AWAITING_AI_REVIEW state (HITL gate).
    * This is a Human-in-the-Loop gate - no automated action.
@@ -491,15 +573,19 @@ class WorkflowAgentService {
   private async handleAwaitingAiReview(workflow: WorkflowInstance): Promise<void> {
     logger.info(`[WorkflowAgent] Workflow ${workflow.id} awaiting AI review (HITL gate)`);
 
-    // Check if batch policy auto-approves this gate
+    // Check if an auto-approval policy skips this gate
     if (await this.shouldAutoApprove(workflow, 'AI_REVIEW')) {
-      logger.info(`[WorkflowAgent] Auto-approving AI review for batch workflow ${workflow.id}`);
+      logger.info(`[WorkflowAgent] Auto-approving AI review for workflow ${workflow.id}`);
       workflowMetricsService.recordAutoApproval(workflow.id, 'AI_REVIEW', new Date())
         .catch(err => logger.warn(`[Metrics] recordAutoApproval failed: ${err.message}`));
-      await enqueueWorkflowEvent(workflow.id, 'AI_ACCEPTED', { autoApproved: true, batchAutoApproval: true });
+      await enqueueWorkflowEvent(workflow.id, 'AI_ACCEPTED', { autoApproved: true, batchAutoApproval: !!workflow.batchId });
       return;
     }
 
+    // Record who owns the gate so escalation reminders reach the right reviewer
+    hitlAssignmentService.openGate(workflow.id, 'AI_REVIEW')
+      .catch(err => logger.warn(`[HITL Assignment] openGate failed: ${err.message}`));
+
     // Emit WebSocket event to notify frontend
     if (config.features.enableWebSocket) {
       websocketService.emitHITLRequired({
@@ -535,6 +621,11 @@ class WorkflowAgentService {
     // Get original file buffer
     const buffer = await this.getFileBuffer(file);
 
+    // Replays write their own remediated file so the original run's stays intact
+    const remediatedSuffix = workflow.replayOfId
+      ? `-remediated-replay-${workflow.id.slice(0, 8)}`
+      : '-remediated';
+
     logger.info(`[WorkflowAgent] Running remediation for ${file.filename}`);
 
     // Run appropriate remediation service
@@ -573,7 +664,7 @@ class WorkflowAgentService {
         const remediatedPath = await this.saveRemediatedFile(
           epubResult.remediatedBuffer,
           file,
-          '-remediated'
+          remediatedSuffix
         );
 
         // Store remediated file path in workflow state
@@ -618,7 +709,7 @@ class WorkflowAgentService {
         const remediatedPath = await this.saveRemediatedFile(
           pdfResult.remediatedPdfBuffer,
           file,
-          '-remediated'
+          remediatedSuffix
         );
 
         // Store remediated file path in workflow state
@@ -660,15 +751,19 @@ class WorkflowAgentService {
   private async handleAwaitingRemediationReview(workflow: WorkflowInstance): Promise<void> {
     logger.info(`[WorkflowAgent] Workflow ${workflow.id} awaiting remediation review (HITL gate)`);
 
-    // Check if batch policy auto-approves this gate
+    // Check if an auto-approval policy skips this gate
     if (await this.shouldAutoApprove(workflow, 'REMEDIATION_REVIEW')) {
-      logger.info(`[WorkflowAgent] Auto-approving remediation review for batch workflow ${workflow.id}`);
+      logger.info(`[WorkflowAgent] Auto-approving remediation review for workflow ${workflow.id}`);
       workflowMetricsService.recordAutoApproval(workflow.id, 'REMEDIATION_REVIEW', new Date())
         .catch(err => logger.warn(`[Metrics] recordAutoApproval failed: ${err.message}`));
-      await enqueueWorkflowEvent(workflow.id, 'REMEDIATION_APPROVED', { autoApproved: true, batchAutoApproval: true });
+      await enqueueWorkflowEvent(workflow.id, 'REMEDIATION_APPROVED', { autoApproved: true, batchAutoApproval: !!workflow.batchId });
       return;
     }
 
+    // Record who owns the gate so escalation reminders reach the right reviewer
+    hitlAssignmentService.openGate(workflow.id, 'REMEDIATION_REVIEW')
+      .catch(err => logger.warn(`[HITL Assignment] openGate failed: ${err.message}`));
+
     // Emit WebSocket event to notify frontend
     if (config.features.enableWebSocket) {
       websocketService.emitHITLRequired({
@@ -838,15 +933,19 @@ class WorkflowAgentService {
   private async handleAwaitingConformanceReview(workflow: WorkflowInstance): Promise<void> {
     logger.info(`[WorkflowAgent] Workflow ${workflow.id} awaiting conformance review (HITL gate)`);
 
-    // Check if batch policy auto-approves this gate
+    // Check if an auto-approval policy skips this gate
     if (await this.shouldAutoApprove(workflow, 'CONFORMANCE_REVIEW')) {
-      logger.info(`[WorkflowAgent] Auto-approving conformance review for batch workflow ${workflow.id}`);
+      logger.info(`[WorkflowAgent] Auto-approving conformance review for workflow ${workflow.id}`);
       workflowMetricsService.recordAutoApproval(workflow.id, 'CONFORMANCE_REVIEW', new Date())
         .catch(err => logger.warn(`[Metrics] recordAutoApproval failed: ${err.message}`));
-      await enqueueWorkflowEvent(workflow.id, 'CONFORMANCE_APPROVED', { autoApproved: true, batchAutoApproval: true });
+      await enqueueWorkflowEvent(workflow.id, 'CONFORMANCE_APPROVED', { autoApproved: true, batchAutoApproval: !!workflow.batchId });
       return;
     }
 
+    // Record who owns the gate so escalation reminders reach the right reviewer
+    hitlAssignmentService.openGate(workflow.id, 'CONFORMANCE_REVIEW')
+      .catch(err => logger.warn(`[HITL Assignment] openGate failed: ${err.message}`));
+
     // Emit WebSocket event to notify frontend
     if (config.features.enableWebSocket) {
       websocketService.emitHITLRequired({
@@ -1125,15 +1224,19 @@ class WorkflowAgentService {
   private async handleAwaitingAcrSignoff(workflow: WorkflowInstance): Promise<void> {
     logger.info(`[WorkflowAgent] Workflow ${workflow.id} awaiting ACR signoff (HITL gate - manual approval)`);
 
-    // Check if batch policy auto-approves this gate
+    // Check if an auto-approval policy skips this gate
     if (await this.shouldAutoApprove(workflow, 'ACR_SIGNOFF')) {
-      logger.info(`[WorkflowAgent] Auto-approving ACR signoff for batch workflow ${workflow.id}`);
+      logger.info(`[WorkflowAgent] Auto-approving ACR signoff for workflow ${workflow.id}`);
       workflowMetricsService.recordAutoApproval(workflow.id, 'ACR_SIGNOFF', new Date())
         .catch(err => logger.warn(`[Metrics] recordAutoApproval failed: ${err.message}`));
-      await enqueueWorkflowEvent(workflow.id, 'ACR_SIGNED', { autoApproved: true, batchAutoApproval: true });
+      await enqueueWorkflowEvent(workflow.id, 'ACR_SIGNED', { autoApproved: true, batchAutoApproval: !!workflow.batchId });
       return;
     }
 
+    // Record who owns the gate so escalation reminders reach the right reviewer
+    hitlAssignmentService.openGate(workflow.id, 'ACR_SIGNOFF')
+      .catch(err => logger.warn(`[HITL Assignment] openGate failed: ${err.message}`));
+
     // Emit WebSocket event to notify frontend
     if (config.features.enableWebSocket) {
       websocketService.emitHITLRequired({
@@ -1146,16 +1249,21 @@ class WorkflowAgentService {
   }
 
   /**
-   * Check whether the batch auto-approval policy permits skipping a specific HITL gate.
+   * Check whether the auto-approval policy permits skipping a specific HITL gate.
+   * The policy is resolved per gate from the workflow, batch, product or tenant
+   * level (see auto-approval-policy.service for precedence).
    *
    * Supports Phase 1 (string) and Phase 2 (ConditionalGatePolicy object) formats:
    *  - 'auto-accept'                    → always approve
    *  - 'require-manual'                 → never approve
    *  - { mode: 'auto-accept' }          → always approve
    *  - { mode: 'require-manual' }       → never approve
-   *  - { mode: 'conditional', conditions } → evaluate conditions
+   *  - { mode: 'conditional', conditions } → evaluate conditions (see gate-policy.service)
    *
-   * @param workflow - Current workflow instance (must have batchId set).
+   * Every auto-approval is recorded as an HITLDecision carrying the rationale.
+   * If that record cannot be written the gate falls back to manual review.
+   *
+   * @param workflow - Current workflow instance.
    * @param gate     - The HITL gate key to check.
    * @returns True if the gate should be auto-approved.
    */
@@ -1163,124 +1271,33 @@ class WorkflowAgentService {
     workflow: WorkflowInstance,
     gate: keyof BatchAutoApprovalPolicy['gates']
   ): Promise<boolean> {
-    if (!workflow.batchId) return false;
-
-    const batch = await prisma.batchWorkflow.findUnique({
-      where: { id: workflow.batchId },
-      select: { autoApprovalPolicy: true },
-    });
-
-    if (!batch?.autoApprovalPolicy) return false;
-
-    const policy = batch.autoApprovalPolicy as unknown as BatchAutoApprovalPolicy;
-    const gatePolicy = policy.gates[gate];
-
-    if (!gatePolicy) return false;
-
-    // Phase 1: simple string
-    if (typeof gatePolicy === 'string') {
-      return gatePolicy === 'auto-accept';
-    }
+    const resolved = await autoApprovalPolicyService.resolveGatePolicy(workflow, gate);
+    if (!resolved) return false;
 
-    // Phase 2: ConditionalGatePolicy object
-    const conditional = gatePolicy as ConditionalGatePolicy;
+    const gatePolicy = resolved.policy;
+    const { rationale, evidence } = await gatePolicyService.evaluate(workflow, gate, gatePolicy, resolved);
 
-    if (conditional.mode === 'auto-accept') return true;
-    if (conditional.mode === 'require-manual') return false;
-
-    if (conditional.mode === 'conditional') {
-      return this.evaluateConditions(workflow, gate, conditional.conditions ?? {});
-    }
-
-    return false;
-  }
-
-  /**
-   * Evaluate Phase 2 conditional policy conditions for a HITL gate.
-   *
-   * Conditions supported:
-   *  - minConfidence: auditScore / 100 must be >= threshold
-   *  - issueTypeRules: ALL issues in the workflow must be covered by a
-   *    non-'manual' rule; if any issue has no rule or rule === 'manual',
-   *    returns false (requires human review).
-   *
-   * When issueTypeRules passes, auto-decisions are written to workflow stateData.
-   */
-  private async evaluateConditions(
-    workflow: WorkflowInstance,
-    gate: keyof BatchAutoApprovalPolicy['gates'],
-    conditions: PolicyConditions
-  ): Promise<boolean> {
-    const stateData = workflow.stateData as Record<string, unknown>;
-
-    // --- minConfidence check ---
-    if (conditions.minConfidence !== undefined) {
-      // auditScore is stored as 0–100; convert to 0–1 for comparison
-      const rawScore = stateData.auditScore as number | undefined;
-      if (rawScore === undefined) {
-        logger.info(
-          `[WorkflowAgent] minConfidence check skipped for ${workflow.id}: no auditScore in stateData`
-        );
-        return false;
-      }
-      const score = rawScore / 100;
-      if (score < conditions.minConfidence) {
-        logger.info(
-          `[WorkflowAgent] Workflow ${workflow.id} confidence ${score.toFixed(2)} < ` +
-          `threshold ${conditions.minConfidence} at gate ${gate} — requiring manual review`
-        );
-        return false;
-      }
+    if (!rationale.approved) {
       logger.info(
-        `[WorkflowAgent] Workflow ${workflow.id} confidence ${score.toFixed(2)} >= ` +
-        `threshold ${conditions.minConfidence} at gate ${gate}`
+        `[WorkflowAgent] Workflow ${workflow.id} requires manual review at gate ${gate}: ${rationale.summary}`
       );
+      return false;
     }
 
-    // --- issueTypeRules check (AI_REVIEW gate only) ---
-    if (conditions.issueTypeRules && gate === 'AI_REVIEW') {
-      const jobId = stateData.jobId as string | undefined;
-      if (!jobId) {
-        logger.info(`[WorkflowAgent] issueTypeRules check skipped for ${workflow.id}: no jobId`);
-        return false;
-      }
-
-      const job = await prisma.job.findUnique({
-        where: { id: jobId },
-        select: { output: true },
-      });
-
-      const output = job?.output as Record<string, unknown> | null;
-      const rawIssues = (
-        (output?.combinedIssues as unknown[]) ??
-        (output?.issues as unknown[]) ??
-        []
-      ) as Array<Record<string, unknown>>;
-
-      if (rawIssues.length === 0) {
-        // No issues — nothing to block auto-approval
-        logger.info(`[WorkflowAgent] No issues found for workflow ${workflow.id} — auto-approving`);
-        return true;
-      }
-
-      // Check whether every issue can be auto-handled
-      const unhandled = rawIssues.filter(issue => {
-        const code = (issue.ruleId ?? issue.code ?? issue.id ?? '') as string;
-        const category = categorizeIssue(code);
-        const rule = conditions.issueTypeRules![category] ?? conditions.issueTypeRules!['other'];
-        return !rule || rule === 'manual';
-      });
-
-      if (unhandled.length > 0) {
-        logger.info(
-          `[WorkflowAgent] Workflow ${workflow.id} has ${unhandled.length} issue(s) ` +
-          `requiring manual review based on issueTypeRules at gate ${gate}`
-        );
-        return false;
-      }
+    // All issues are covered by issueTypeRules — write auto-decisions to workflow state
+    const conditions = typeof gatePolicy === 'string' ? undefined : gatePolicy.conditions;
+    if (gate === 'AI_REVIEW' && conditions?.issueTypeRules && evidence.issues?.length) {
+      await this.applyIssueTypeDecisions(workflow, evidence.issues, conditions.issueTypeRules);
+    }
 
-      // All issues are covered — write auto-decisions to workflow state
-      await this.applyIssueTypeDecisions(workflow, rawIssues, conditions.issueTypeRules);
+    try {
+      await hitlService.recordAutoDecision(workflow.id, rationale);
+    } catch (err) {
+      logger.warn(
+        `[WorkflowAgent] Could not record auto-decision rationale for ${workflow.id} at gate ${gate} ` +
+        `— requiring manual review: ${(err as Error).message}`
+      );
+      return false;
     }
 
     return true;
@@ -1357,22 +1374,18 @@ class WorkflowAgentService {
       { error: error instanceof Error ? error.message : String(error) }
     );
 
-    const NON_TERMINAL_STATES = [
-      'UPLOAD_RECEIVED', 'PREPROCESSING', 'RUNNING_EPUBCHECK', 'RUNNING_ACE',
-      'RUNNING_AI_ANALYSIS', 'AWAITING_AI_REVIEW', 'AUTO_REMEDIATION',
-      'AWAITING_REMEDIATION_REVIEW', 'VERIFICATION_AUDIT', 'CONFORMANCE_MAPPING',
-      'AWAITING_CONFORMANCE_REVIEW', 'ACR_GENERATION', 'AWAITING_ACR_SIGNOFF',
-      'RETRYING',
-    ];
+    // Every step action (built-in or declarative step id) plus the non-terminal lifecycle states
+    const siblingScope = { batchId: workflow.batchId, id: { not: workflow.id } };
+    const nonTerminalFilter = await workflowDefinitionService.buildStepActionFilter(
+      new Set<string>(Object.values(WorkflowStepAction)),
+      ['UPLOAD_RECEIVED', 'RETRYING'],
+      siblingScope
+    );
 
     if (strategy === 'pause-batch') {
       // Pause all non-terminal siblings
       const siblings = await prisma.workflowInstance.findMany({
-        where: {
-          batchId: workflow.batchId,
-          id: { not: workflow.id },
-          currentState: { in: NON_TERMINAL_STATES },
-        },
+        where: { ...siblingScope, ...nonTerminalFilter },
         select: { id: true },
       });
 
@@ -1394,11 +1407,7 @@ class WorkflowAgentService {
     } else if (strategy === 'fail-batch') {
       // Cancel all non-terminal siblings
       const siblings = await prisma.workflowInstance.findMany({
-        where: {
-          batchId: workflow.batchId,
-          id: { not: workflow.id },
-          currentState: { in: NON_TERMINAL_STATES },
-        },
+        where: { ...siblingScope, ...nonTerminalFilter },
         select: { id: true },
       });
 
@@ -11,8 +11,18 @@ import {
   JobWorkflowOptions,
   HitlGateConfig,
   BatchPolicyTenantConfig,
+  HitlEscalationConfig,
+  HitlEscalationStep,
+  ReviewerAssignmentConfig,
   DEFAULT_WORKFLOW_CONFIG,
 } from '../../types/workflow-config.types';
+import {
+  gateApprovalPolicySchema,
+  hitlEscalationConfigSchema,
+  reviewerAssignmentConfigSchema,
+  type GateApprovalPolicy,
+  type HITLGate,
+} from '../../types/workflow-contracts';
 
 /**
  * Cache entry for tenant settings with TTL.
@@ -114,6 +124,25 @@ class WorkflowConfigService {
     return timeout ?? null;
   }
 
+  /**
+   * Get the escalation chain for a HITL gate.
+   * A per-gate chain replaces the tenant's default chain for that gate.
+   *
+   * @param tenantId - Tenant ID
+   * @param gate - HITL gate
+   * @returns Steps ordered by afterHours; empty when escalation is disabled
+   */
+  async getEscalationChain(tenantId: string, gate: HITLGate): Promise<HitlEscalationStep[]> {
+    const config = await this.getEffectiveConfig(tenantId);
+    const escalation = config.hitlEscalation;
+    if (!escalation?.enabled) {
+      return [];
+    }
+
+    const gateName = `AWAITING_${gate}` as keyof HitlGateConfig;
+    return escalation.gates?.[gateName] ?? escalation.steps;
+  }
+
   /**
    * Clear cached settings for a tenant.
    * Call this after updating tenant settings.
@@ -191,6 +220,9 @@ class WorkflowConfigService {
           hitlGates: this.parseHitlGates(workflow.hitlGates),
           autoRetry: this.parseAutoRetry(workflow.autoRetry),
           batchPolicy: this.parseBatchPolicy(workflow.batchPolicy),
+          autoApprovalPolicy: this.parseAutoApprovalPolicy(workflow.autoApprovalPolicy),
+          hitlEscalation: this.parseHitlEscalation(workflow.hitlEscalation),
+          reviewerAssignment: this.parseReviewerAssignment(workflow.reviewerAssignment),
         },
       };
     }
@@ -243,6 +275,63 @@ class WorkflowConfigService {
     };
   }
 
+  /**
+   * Parse tenant default auto-approval policy; invalid policies are ignored.
+   */
+  private parseAutoApprovalPolicy(policy: unknown): GateApprovalPolicy | undefined {
+    if (!policy || typeof policy !== 'object') {
+      return undefined;
+    }
+
+    const result = gateApprovalPolicySchema.safeParse(policy);
+    if (!result.success) {
+      logger.warn('[WorkflowConfig] Ignoring invalid tenant auto-approval policy', {
+        error: result.error.message,
+      });
+      return undefined;
+    }
+
+    return result.data as GateApprovalPolicy;
+  }
+
+  /**
+   * Parse HITL escalation chains; invalid configurations are ignored.
+   */
+  private parseHitlEscalation(escalation: unknown): HitlEscalationConfig | undefined {
+    if (!escalation || typeof escalation !== 'object') {
+      return undefined;
+    }
+
+    const result = hitlEscalationConfigSchema.safeParse(escalation);
+    if (!result.success) {
+      logger.warn('[WorkflowConfig] Ignoring invalid HITL escalation config', {
+        error: result.error.message,
+      });
+      return undefined;
+    }
+
+    return result.data as HitlEscalationConfig;
+  }
+
+  /**
+   * Parse reviewer assignment settings; invalid configurations are ignored.
+   */
+  private parseReviewerAssignment(assignment: unknown): ReviewerAssignmentConfig | undefined {
+    if (!assignment || typeof assignment !== 'object') {
+      return undefined;
+    }
+
+    const result = reviewerAssignmentConfigSchema.safeParse(assignment);
+    if (!result.success) {
+      logger.warn('[WorkflowConfig] Ignoring invalid reviewer assignment config', {
+        error: result.error.message,
+      });
+      return undefined;
+    }
+
+    return result.data as ReviewerAssignmentConfig;
+  }
+
   /**
    * Parse auto-retry configuration with validation.
    */
@@ -299,6 +388,18 @@ class WorkflowConfigService {
       };
     }
 
+    if (tenantConfig.autoApprovalPolicy) {
+      merged.autoApprovalPolicy = tenantConfig.autoApprovalPolicy;
+    }
+
+    if (tenantConfig.hitlEscalation) {
+      merged.hitlEscalation = tenantConfig.hitlEscalation;
+    }
+
+    if (tenantConfig.reviewerAssignment) {
+      merged.reviewerAssignment = tenantConfig.reviewerAssignment;
+    }
+
     // Apply job-level overrides
     if (jobOptions) {
       if (jobOptions.workflowEnabled !== undefined) {
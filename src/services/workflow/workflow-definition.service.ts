@@ -0,0 +1,318 @@
+/**
+ * @fileoverview Workflow definition service.
+ * Stores declarative, per-tenant workflow definitions, validates them at save
+ * time, and resolves which definition (and which step action) applies to a
+ * running workflow instance.
+ */
+
+import { WorkflowDefinition, WorkflowInstance, Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { AppError } from '../../utils/app-error';
+import {
+  DEFAULT_WORKFLOW_DEFINITION,
+  JOB_DEPENDENT_STEP_ACTIONS,
+  RESERVED_STEP_IDS,
+  workflowDefinitionSpecSchema,
+  type SaveWorkflowDefinitionInput,
+  type WorkflowDefinitionSpec,
+  type WorkflowStepAction,
+} from '../../types/workflow-definition.types';
+
+/**
+ * Semantic validation on top of the zod shape check.
+ * Returns a list of human-readable problems; an empty list means the spec is valid.
+ */
+export function validateWorkflowDefinitionSpec(spec: WorkflowDefinitionSpec): string[] {
+  const errors: string[] = [];
+  const seen = new Set<string>();
+  let hasAuditStep = false;
+
+  spec.steps.forEach((step, index) => {
+    if (RESERVED_STEP_IDS.has(step.id)) {
+      errors.push(`Step "${step.id}" uses a reserved state name`);
+    }
+    if (seen.has(step.id)) {
+      errors.push(`Step id "${step.id}" is used more than once`);
+    }
+
+    if (JOB_DEPENDENT_STEP_ACTIONS.has(step.action) && !hasAuditStep) {
+      errors.push(`Step "${step.id}" (${step.action}) requires an earlier RUNNING_EPUBCHECK step`);
+    }
+
+    if (step.onReject !== undefined) {
+      if (step.action !== 'AWAITING_AI_REVIEW') {
+        errors.push(`Step "${step.id}": onReject is only supported on AWAITING_AI_REVIEW steps`);
+      } else if (!seen.has(step.onReject)) {
+        errors.push(`Step "${step.id}": onReject must reference an earlier step, got "${step.onReject}"`);
+      }
+    } else if (step.action === 'AWAITING_AI_REVIEW' && index === 0) {
+      errors.push(`Step "${step.id}": an AI review gate cannot be the first step`);
+    }
+
+    seen.add(step.id);
+    if (step.action === 'RUNNING_EPUBCHECK') hasAuditStep = true;
+  });
+
+  return errors;
+}
+
+/**
+ * Map a persisted state name to the built-in action it executes.
+ * Lifecycle states and states outside the spec are returned unchanged.
+ */
+export function resolveCanonicalState(spec: WorkflowDefinitionSpec | null, state: string): string {
+  if (!spec) return state;
+  return spec.steps.find(s => s.id === state)?.action ?? state;
+}
+
+/**
+ * Workflow definition service.
+ * Definitions are immutable once saved — a save under an existing name creates
+ * the next version — so specs are cached by id without expiry.
+ */
+class WorkflowDefinitionService {
+  private specCache: Map<string, WorkflowDefinitionSpec> = new Map();
+
+  /**
+   * Validate and store a new definition version for a tenant.
+   *
+   * @param tenantId - Tenant ID
+   * @param userId - User saving the definition
+   * @param input - Parsed save payload
+   * @returns The created definition row
+   * @throws AppError 400 when the spec fails shape or semantic validation
+   */
+  async saveDefinition(
+    tenantId: string,
+    userId: string,
+    input: SaveWorkflowDefinitionInput
+  ): Promise<WorkflowDefinition> {
+    const parsed = workflowDefinitionSpecSchema.safeParse(input.spec);
+    if (!parsed.success) {
+      throw AppError.badRequest(
+        'Invalid workflow definition: ' + parsed.error.message,
+        'INVALID_WORKFLOW_DEFINITION'
+      );
+    }
+
+    const errors = validateWorkflowDefinitionSpec(parsed.data);
+    if (errors.length > 0) {
+      throw AppError.badRequest(
+        'Invalid workflow definition: ' + errors.join('; '),
+        'INVALID_WORKFLOW_DEFINITION'
+      );
+    }
+
+    const definition = await prisma.$transaction(async (tx) => {
+      const latest = await tx.workflowDefinition.findFirst({
+        where: { tenantId, name: input.name },
+        orderBy: { version: 'desc' },
+        select: { version: true },
+      });
+
+      if (input.activate) {
+        await tx.workflowDefinition.updateMany({
+          where: { tenantId, isActive: true },
+          data: { isActive: false },
+        });
+      }
+
+      return tx.workflowDefinition.create({
+        data: {
+          tenantId,
+          name: input.name,
+          version: (latest?.version ?? 0) + 1,
+          description: input.description,
+          spec: parsed.data as unknown as Prisma.InputJsonValue,
+          isActive: input.activate,
+          createdBy: userId,
+        },
+      });
+    });
+
+    logger.info('[WorkflowDefinition] Saved definition', {
+      tenantId,
+      name: definition.name,
+      version: definition.version,
+      active: definition.isActive,
+      steps: parsed.data.steps.length,
+    });
+
+    return definition;
+  }
+
+  /**
+   * List every stored definition version for a tenant, newest first.
+   */
+  async listDefinitions(tenantId: string): Promise<WorkflowDefinition[]> {
+    return prisma.workflowDefinition.findMany({
+      where: { tenantId },
+      orderBy: [{ name: 'asc' }, { version: 'desc' }],
+    });
+  }
+
+  /**
+   * Get a single definition, scoped to the tenant.
+   *
+   * @throws AppError 404 when the definition does not belong to the tenant
+   */
+  async getDefinition(tenantId: string, definitionId: string): Promise<WorkflowDefinition> {
+    const definition = await prisma.workflowDefinition.findFirst({
+      where: { id: definitionId, tenantId },
+    });
+    if (!definition) {
+      throw AppError.notFound('Workflow definition not found');
+    }
+    return definition;
+  }
+
+  /**
+   * Make a stored definition version the tenant's active pipeline.
+   * Only new workflows pick up the change.
+   */
+  async activateDefinition(tenantId: string, definitionId: string): Promise<WorkflowDefinition> {
+    await this.getDefinition(tenantId, definitionId);
+
+    const [, activated] = await prisma.$transaction([
+      prisma.workflowDefinition.updateMany({
+        where: { tenantId, isActive: true },
+        data: { isActive: false },
+      }),
+      prisma.workflowDefinition.update({
+        where: { id: definitionId },
+        data: { isActive: true },
+      }),
+    ]);
+
+    logger.info('[WorkflowDefinition] Activated definition', {
+      tenantId,
+      definitionId,
+      name: activated.name,
+      version: activated.version,
+    });
+
+    return activated;
+  }
+
+  /**
+   * Revert a tenant to the built-in pipeline for new workflows.
+   */
+  async deactivateAll(tenantId: string): Promise<void> {
+    await prisma.workflowDefinition.updateMany({
+      where: { tenantId, isActive: true },
+      data: { isActive: false },
+    });
+    logger.info('[WorkflowDefinition] Tenant reverted to built-in pipeline', { tenantId });
+  }
+
+  /**
+   * Get the id of the tenant's active definition, or null for the built-in pipeline.
+   */
+  async getActiveDefinitionId(tenantId: string): Promise<string | null> {
+    const active = await prisma.workflowDefinition.findFirst({
+      where: { tenantId, isActive: true },
+      orderBy: { createdAt: 'desc' },
+      select: { id: true },
+    });
+    return active?.id ?? null;
+  }
+
+  /**
+   * Load the spec for a definition id (cached — rows are immutable).
+   *
+   * @throws Error when the definition row no longer exists
+   */
+  async getSpec(definitionId: string): Promise<WorkflowDefinitionSpec> {
+    const cached = this.specCache.get(definitionId);
+    if (cached) return cached;
+
+    const definition = await prisma.workflowDefinition.findUnique({
+      where: { id: definitionId },
+      select: { spec: true },
+    });
+    if (!definition) {
+      throw new Error(`Workflow definition ${definitionId} not found`);
+    }
+
+    const spec = definition.spec as unknown as WorkflowDefinitionSpec;
+    this.specCache.set(definitionId, spec);
+    return spec;
+  }
+
+  /**
+   * Get the spec pinned to a workflow instance, or null for the built-in pipeline.
+   */
+  async getSpecForWorkflow(
+    workflow: Pick<WorkflowInstance, 'definitionId'>
+  ): Promise<WorkflowDefinitionSpec | null> {
+    return workflow.definitionId ? this.getSpec(workflow.definitionId) : null;
+  }
+
+  /**
+   * Resolve the built-in action for the workflow's current state.
+   * For the built-in pipeline this is the current state itself.
+   */
+  async resolveStepAction(
+    workflow: Pick<WorkflowInstance, 'definitionId' | 'currentState'>
+  ): Promise<WorkflowStepAction | string> {
+    const spec = await this.getSpecForWorkflow(workflow);
+    return resolveCanonicalState(spec, workflow.currentState);
+  }
+
+  /**
+   * Build a WorkflowInstance filter matching workflows whose current step runs
+   * one of `actions`. Built-in workflows match on the action name itself;
+   * declarative workflows match on the step ids their definition binds to
+   * those actions. `lifecycleStates` (engine-owned names such as RETRYING)
+   * match whatever the definition.
+   *
+   * @param actions - Step actions to match
+   * @param lifecycleStates - Reserved state names to match as-is
+   * @param scope - Instance filter; only definitions used by matching instances are loaded
+   */
+  async buildStepActionFilter(
+    actions: ReadonlySet<string>,
+    lifecycleStates: string[] = [],
+    scope: Prisma.WorkflowInstanceWhereInput = {}
+  ): Promise<Prisma.WorkflowInstanceWhereInput> {
+    const definitions = await prisma.workflowDefinition.findMany({
+      where: { workflows: { some: scope } },
+      select: { id: true, spec: true },
+    });
+
+    const conditions: Prisma.WorkflowInstanceWhereInput[] = [
+      { definitionId: null, currentState: { in: [...actions] } },
+    ];
+    if (lifecycleStates.length > 0) {
+      conditions.push({ currentState: { in: lifecycleStates } });
+    }
+    for (const definition of definitions) {
+      const spec = definition.spec as unknown as WorkflowDefinitionSpec;
+      this.specCache.set(definition.id, spec);
+      const stepIds = spec.steps.filter(step => actions.has(step.action)).map(step => step.id);
+      if (stepIds.length > 0) {
+        conditions.push({ definitionId: definition.id, currentState: { in: stepIds } });
+      }
+    }
+
+    return { OR: conditions };
+  }
+
+  /**
+   * The built-in pipeline as a definition — the starting template for tenants.
+   */
+  getDefaultSpec(): WorkflowDefinitionSpec {
+    return DEFAULT_WORKFLOW_DEFINITION;
+  }
+
+  /**
+   * Clear the spec cache (tests only — rows are immutable in production).
+   */
+  clearCache(): void {
+    this.specCache.clear();
+  }
+}
+
+// Export singleton instance
+export const workflowDefinitionService = new WorkflowDefinitionService();
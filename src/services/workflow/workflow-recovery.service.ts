@@ -1,23 +1,15 @@
 import prisma from '../../lib/prisma';
 import { enqueueWorkflowEvent } from '../../queues/workflow.queue';
 import { logger } from '../../lib/logger';
+import { PROCESSING_STEP_ACTIONS } from '../../types/workflow-definition.types';
+import { workflowDefinitionService } from './workflow-definition.service';
 
 /**
- * States that represent active processing — workflows stuck here need recovery.
- * Excludes HITL gates (require human action) and terminal states.
+ * Engine-owned states that represent active processing. Step states are
+ * matched by action (PROCESSING_STEP_ACTIONS) so declarative workflows are
+ * covered; HITL gates (require human action) and terminal states are excluded.
  */
-const RECOVERABLE_STATES = [
-  'UPLOAD_RECEIVED',
-  'PREPROCESSING',
-  'RUNNING_EPUBCHECK',
-  'RUNNING_ACE',
-  'RUNNING_AI_ANALYSIS',
-  'AUTO_REMEDIATION',
-  'VERIFICATION_AUDIT',
-  'CONFORMANCE_MAPPING',
-  'ACR_GENERATION',
-  'RETRYING',
-];
+const RECOVERABLE_LIFECYCLE_STATES = ['UPLOAD_RECEIVED', 'RETRYING'];
 
 /**
  * Minimum age before a workflow in an active state is considered stuck.
@@ -28,11 +20,15 @@ const STUCK_THRESHOLD_MS = 5 * 60 * 1000; // 5 minutes
 async function recoverStuckWorkflows(): Promise<void> {
   const staleThreshold = new Date(Date.now() - STUCK_THRESHOLD_MS);
 
+  const scope = { startedAt: { lt: staleThreshold } };
+  const stateFilter = await workflowDefinitionService.buildStepActionFilter(
+    PROCESSING_STEP_ACTIONS,
+    RECOVERABLE_LIFECYCLE_STATES,
+    scope
+  );
+
   const stuck = await prisma.workflowInstance.findMany({
-    where: {
-      currentState: { in: RECOVERABLE_STATES },
-      startedAt: { lt: staleThreshold },
-    },
+    where: { ...scope, ...stateFilter },
     select: { id: true, currentState: true },
   });
 
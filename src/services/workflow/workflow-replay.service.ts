@@ -0,0 +1,390 @@
+/**
+ * @fileoverview Workflow replay ("resume from state").
+ * Branches an existing run into a new WorkflowInstance that restarts at an
+ * earlier step, e.g. re-running AUTO_REMEDIATION after a remediator fix.
+ *
+ * Artifacts produced before the chosen step are reused: stateData keys are
+ * carried over and the audit job is copied, so the replay never writes to the
+ * original's job, remediation plan or remediated file. Artifacts of the chosen
+ * step and every later step are dropped and regenerated by the replay. The
+ * original run, including its WorkflowEvent timeline, is left untouched.
+ */
+
+import { WorkflowInstance, Prisma } from '@prisma/client';
+import prisma from '../../lib/prisma';
+import { logger } from '../../lib/logger';
+import { AppError } from '../../utils/app-error';
+import { enqueueWorkflowEvent } from '../../queues/workflow.queue';
+import { workflowDefinitionService } from './workflow-definition.service';
+import {
+  effectiveConformance,
+  type ConformanceDecision,
+  type ConformanceMapping,
+} from './gate-policy.service';
+import type { WorkflowDefinitionSpec, WorkflowStepAction } from '../../types/workflow-definition.types';
+import type { WorkflowReplayComparison, WorkflowRunOutcome } from '../../types/workflow-contracts';
+
+/**
+ * stateData keys written by each step action (agent handlers and HITL controllers).
+ * A replay drops the keys of the step it restarts at and of every later step.
+ */
+const STEP_STATE_KEYS: Record<WorkflowStepAction, string[]> = {
+  PREPROCESSING: ['mimeType', 'filename', 'preprocessedAt'],
+  RUNNING_EPUBCHECK: ['jobId', 'auditCompleted', 'auditScore', 'issueCount'],
+  RUNNING_ACE: [],
+  RUNNING_AI_ANALYSIS: [],
+  PRH_PREFLIGHT: ['prhPreflight'],
+  AWAITING_AI_REVIEW: [
+    'aiReviewDecisions', 'aiReviewDecisionsSource', 'aiReviewDecisionsAppliedAt',
+    'aiReviewedBy', 'aiReviewedAt',
+  ],
+  AUTO_REMEDIATION: ['remediatedFilePath', 'remediatedFileName', 'totalIssuesFixed', 'totalIssuesFailed'],
+  AWAITING_REMEDIATION_REVIEW: ['remediationReviewNotes', 'remediationReviewedBy', 'remediationReviewedAt'],
+  VERIFICATION_AUDIT: ['verificationScore', 'verificationIssueCount', 'verificationCompleted'],
+  CONFORMANCE_MAPPING: ['conformanceMappings'],
+  AWAITING_CONFORMANCE_REVIEW: ['conformanceReviewDecisions', 'conformanceReviewedBy', 'conformanceReviewedAt'],
+  ACR_GENERATION: ['acrJobId', 'acrEdition', 'acrCriteriaCount', 'acrGeneratedAt', 'acrVendor', 'acrContactEmail'],
+  AWAITING_ACR_SIGNOFF: ['acrSignoffAttestation', 'acrSignoffNotes', 'acrSignedOffBy', 'acrSignedOffAt'],
+};
+
+/** Keys merged in from transition payloads; they describe the original run only. */
+const RUN_SCOPED_KEYS = ['autoApproved', 'batchAutoApproval', 'errorMessage'];
+
+/** States in which a run is no longer advancing, so its artifacts are stable. */
+const REPLAYABLE_SOURCE_STATES: ReadonlySet<string> = new Set([
+  'COMPLETED',
+  'FAILED',
+  'CANCELLED',
+  'HITL_TIMEOUT',
+  'PAUSED',
+]);
+
+/** What a replay starting at a given step keeps from the original run. */
+export interface ReplayPlan {
+  stateData: Record<string, unknown>;
+  /** The audit job is reused (copied) — false when the replay re-runs the audit. */
+  reuseAuditJob: boolean;
+  /** The remediation plan is reused (copied) — true when remediation ran before the step. */
+  reuseRemediationPlan: boolean;
+  /** The verification audit stored in job.output must be regenerated. */
+  dropVerificationAudit: boolean;
+}
+
+/**
+ * Work out what a replay starting at `fromState` keeps from the original run.
+ *
+ * @param spec - The original run's pipeline (pinned definition or built-in)
+ * @param fromState - Step id to restart at; must be a step of `spec`
+ * @param stateData - The original run's stateData
+ */
+export function planReplay(
+  spec: WorkflowDefinitionSpec,
+  fromState: string,
+  stateData: Record<string, unknown>
+): ReplayPlan {
+  const fromIndex = spec.steps.findIndex(step => step.id === fromState);
+  const earlier = spec.steps.slice(0, fromIndex);
+  const replayed = spec.steps.slice(fromIndex);
+
+  const dropped = new Set(RUN_SCOPED_KEYS);
+  for (const step of replayed) {
+    for (const key of STEP_STATE_KEYS[step.action]) dropped.add(key);
+  }
+  const kept = Object.fromEntries(Object.entries(stateData).filter(([key]) => !dropped.has(key)));
+
+  return {
+    stateData: kept,
+    reuseAuditJob: typeof kept.jobId === 'string',
+    reuseRemediationPlan: earlier.some(step => step.action === 'AUTO_REMEDIATION'),
+    dropVerificationAudit: replayed.some(step => step.action === 'VERIFICATION_AUDIT'),
+  };
+}
+
+/**
+ * Summarise a run for side-by-side comparison.
+ */
+export function summariseRun(workflow: WorkflowInstance): WorkflowRunOutcome {
+  const stateData = (workflow.stateData as Record<string, unknown>) ?? {};
+
+  const conformance: Record<string, string> = {};
+  const mappings = (stateData.conformanceMappings as ConformanceMapping[] | undefined) ?? [];
+  const decisions = new Map(
+    ((stateData.conformanceReviewDecisions as ConformanceDecision[] | undefined) ?? [])
+      .map(d => [d.criterionId, d])
+  );
+  for (const mapping of mappings) {
+    conformance[mapping.criterionId] = effectiveConformance(mapping, decisions.get(mapping.criterionId));
+  }
+
+  return {
+    workflowId: workflow.id,
+    currentState: workflow.currentState,
+    startedAt: workflow.startedAt.toISOString(),
+    completedAt: workflow.completedAt?.toISOString(),
+    auditScore: stateData.auditScore as number | undefined,
+    issueCount: stateData.issueCount as number | undefined,
+    totalIssuesFixed: stateData.totalIssuesFixed as number | undefined,
+    totalIssuesFailed: stateData.totalIssuesFailed as number | undefined,
+    verificationScore: stateData.verificationScore as number | undefined,
+    verificationIssueCount: stateData.verificationIssueCount as number | undefined,
+    acrJobId: stateData.acrJobId as string | undefined,
+    conformance,
+  };
+}
+
+/**
+ * Workflow replay service.
+ */
+class WorkflowReplayService {
+  /**
+   * Replay a workflow from an earlier step as a new WorkflowInstance.
+   * The replay keeps the original's file, pinned definition, product and
+   * workflow-level auto-approval policy. It runs outside any batch.
+   *
+   * @param tenantId - Caller's tenant; the workflow must belong to it
+   * @param sourceId - Workflow to replay
+   * @param fromState - Step id to restart at
+   * @param userId - User requesting the replay (becomes the replay's creator)
+   * @param reason - Optional note recorded on the replay's first event
+   * @returns The new workflow instance
+   * @throws AppError 404 when the workflow is not found in the tenant
+   * @throws AppError 409 when the original run is still in progress
+   * @throws AppError 400 when fromState is not a step the original run reached
+   */
+  async replayWorkflow(
+    tenantId: string,
+    sourceId: string,
+    fromState: string,
+    userId: string,
+    reason?: string
+  ): Promise<WorkflowInstance> {
+    const source = await this.getWorkflowForTenant(tenantId, sourceId);
+
+    if (!REPLAYABLE_SOURCE_STATES.has(source.currentState)) {
+      throw AppError.conflict(
+        `Workflow is still running (${source.currentState}); pause or cancel it before replaying`,
+        'WORKFLOW_STILL_RUNNING'
+      );
+    }
+
+    const spec = (await workflowDefinitionService.getSpecForWorkflow(source))
+      ?? workflowDefinitionService.getDefaultSpec();
+    if (!spec.steps.some(step => step.id === fromState)) {
+      throw AppError.badRequest(
+        `${fromState} is not a step of this workflow; expected one of ${spec.steps.map(s => s.id).join(', ')}`,
+        'INVALID_REPLAY_STATE'
+      );
+    }
+
+    const reached = await prisma.workflowEvent.findFirst({
+      where: { workflowId: source.id, toState: fromState },
+      select: { id: true },
+    });
+    if (!reached) {
+      throw AppError.badRequest(
+        `Workflow never reached ${fromState}; a replay can only restart at a step the original run entered`,
+        'REPLAY_STATE_NOT_REACHED'
+      );
+    }
+
+    const plan = planReplay(spec, fromState, (source.stateData as Record<string, unknown>) ?? {});
+    const id = crypto.randomUUID();
+
+    const replay = await prisma.$transaction(async (tx) => {
+      const stateData = { ...plan.stateData };
+      if (plan.reuseAuditJob) {
+        stateData.jobId = await this.copyAuditJob(tx, stateData.jobId as string, plan);
+      }
+
+      const created = await tx.workflowInstance.create({
+        data: {
+          id,
+          fileId: source.fileId,
+          createdBy: userId,
+          priority: source.priority,
+          definitionId: source.definitionId,
+          productId: source.productId,
+          autoApprovalPolicy: (source.autoApprovalPolicy as Prisma.InputJsonValue | null) ?? Prisma.DbNull,
+          replayOfId: source.id,
+          replayFromState: fromState,
+          currentState: fromState,
+          stateData: stateData as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      await tx.workflowEvent.create({
+        data: {
+          workflowId: id,
+          eventType: 'REPLAY_STARTED',
+          toState: fromState,
+          payload: {
+            replayOfId: source.id,
+            fromState,
+            requestedBy: userId,
+            ...(reason ? { reason } : {}),
+            ...(plan.reuseAuditJob ? { auditJobCopiedFrom: plan.stateData.jobId } : {}),
+          } as unknown as Prisma.InputJsonValue,
+        },
+      });
+
+      return created;
+    });
+
+    logger.info(`[WorkflowReplay] Replaying workflow ${source.id} from ${fromState} as ${id}`, {
+      tenantId,
+      userId,
+      reuseAuditJob: plan.reuseAuditJob,
+      reuseRemediationPlan: plan.reuseRemediationPlan,
+    });
+
+    // Run the handler for the restart step, with fallback to direct processing
+    try {
+      await enqueueWorkflowEvent(id, 'REPROCESS_STATE');
+    } catch (queueErr) {
+      logger.warn(`[WorkflowReplay] Queue unavailable, falling back to direct processing: ${queueErr}`);
+      (async () => {
+        try {
+          const { workflowAgentService } = await import('./workflow-agent.service');
+          await workflowAgentService.processWorkflowState(id);
+        } catch (err) {
+          logger.error(`[WorkflowReplay] Direct processing failed for ${id}:`, err);
+        }
+      })();
+    }
+
+    return replay;
+  }
+
+  /**
+   * List the replays branched from a workflow, newest first.
+   *
+   * @throws AppError 404 when the workflow is not found in the tenant
+   */
+  async listReplays(tenantId: string, workflowId: string) {
+    await this.getWorkflowForTenant(tenantId, workflowId);
+
+    return prisma.workflowInstance.findMany({
+      where: { replayOfId: workflowId },
+      orderBy: { startedAt: 'desc' },
+      select: {
+        id: true,
+        currentState: true,
+        replayFromState: true,
+        createdBy: true,
+        startedAt: true,
+        completedAt: true,
+      },
+    });
+  }
+
+  /**
+   * Compare a replay with the run it was branched from.
+   *
+   * @param tenantId - Caller's tenant
+   * @param replayId - The replay workflow
+   * @throws AppError 404 when either workflow is not found in the tenant
+   * @throws AppError 400 when the workflow is not a replay
+   */
+  async compare(tenantId: string, replayId: string): Promise<WorkflowReplayComparison> {
+    const replay = await this.getWorkflowForTenant(tenantId, replayId);
+    if (!replay.replayOfId || !replay.replayFromState) {
+      throw AppError.badRequest('Workflow is not a replay', 'NOT_A_REPLAY');
+    }
+    const original = await this.getWorkflowForTenant(tenantId, replay.replayOfId);
+
+    const originalOutcome = summariseRun(original);
+    const replayOutcome = summariseRun(replay);
+
+    const criteria = new Set([
+      ...Object.keys(originalOutcome.conformance),
+      ...Object.keys(replayOutcome.conformance),
+    ]);
+    const conformanceChanges = [...criteria]
+      .filter(criterionId => originalOutcome.conformance[criterionId] !== replayOutcome.conformance[criterionId])
+      .sort()
+      .map(criterionId => ({
+        criterionId,
+        original: originalOutcome.conformance[criterionId],
+        replay: replayOutcome.conformance[criterionId],
+      }));
+
+    return {
+      replayFromState: replay.replayFromState,
+      original: originalOutcome,
+      replay: replayOutcome,
+      conformanceChanges,
+    };
+  }
+
+  /**
+   * Copy the original's audit job (and, when reused, its remediation plan) so
+   * the replay's remediation and verification never write to the original's.
+   */
+  private async copyAuditJob(
+    tx: Prisma.TransactionClient,
+    jobId: string,
+    plan: ReplayPlan
+  ): Promise<string> {
+    const job = await tx.job.findUnique({ where: { id: jobId } });
+    if (!job) {
+      throw AppError.conflict(`Audit job ${jobId} of the original workflow no longer exists`, 'REPLAY_ARTIFACTS_MISSING');
+    }
+
+    const output = { ...((job.output as Record<string, unknown> | null) ?? {}) };
+    if (plan.dropVerificationAudit) delete output.verificationAudit;
+
+    const copy = await tx.job.create({
+      data: {
+        tenantId: job.tenantId,
+        userId: job.userId,
+        productId: job.productId,
+        type: job.type,
+        status: job.status,
+        progress: job.progress,
+        input: { ...(job.input as Record<string, unknown>), replayOfJobId: job.id } as Prisma.InputJsonValue,
+        output: output as Prisma.InputJsonValue,
+        startedAt: job.startedAt,
+        completedAt: job.completedAt,
+      },
+    });
+
+    if (plan.reuseRemediationPlan) {
+      const planJob = await tx.job.findFirst({
+        where: { type: 'BATCH_VALIDATION', input: { path: ['sourceJobId'], equals: jobId } },
+        orderBy: { createdAt: 'desc' },
+      });
+      if (planJob) {
+        const planOutput = planJob.output as Record<string, unknown> | null;
+        await tx.job.create({
+          data: {
+            tenantId: planJob.tenantId,
+            userId: planJob.userId,
+            productId: planJob.productId,
+            type: planJob.type,
+            status: planJob.status,
+            progress: planJob.progress,
+            input: { ...(planJob.input as Record<string, unknown>), sourceJobId: copy.id } as Prisma.InputJsonValue,
+            output: planOutput ? { ...planOutput, jobId: copy.id } as Prisma.InputJsonValue : Prisma.DbNull,
+            startedAt: planJob.startedAt,
+            completedAt: planJob.completedAt,
+          },
+        });
+      }
+    }
+
+    return copy.id;
+  }
+
+  private async getWorkflowForTenant(tenantId: string, workflowId: string): Promise<WorkflowInstance> {
+    const workflow = await prisma.workflowInstance.findFirst({
+      where: { id: workflowId, file: { tenantId } },
+    });
+    if (!workflow) {
+      throw AppError.notFound('Workflow not found');
+    }
+    return workflow;
+  }
+}
+
+// Export singleton instance
+export const workflowReplayService = new WorkflowReplayService();
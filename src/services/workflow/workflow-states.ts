@@ -1,4 +1,9 @@
-import { createMachine } from 'xstate';
+import { createMachine, type AnyStateMachine } from 'xstate';
+import {
+  STEP_COMPLETION_EVENTS,
+  HITL_STEP_ACTIONS,
+  type WorkflowDefinitionSpec,
+} from '../../types/workflow-definition.types';
 
 export interface WorkflowContext {
   workflowId: string;
@@ -17,6 +22,7 @@ export type WorkflowEvent =
   | { type: 'ACE_START' }
   | { type: 'AI_START' }
   | { type: 'AI_DONE' }
+  | { type: 'PREFLIGHT_DONE' }
   | { type: 'AI_ACCEPTED' }
   | { type: 'AI_REJECTED' }
   | { type: 'REMEDIATION_DONE' }
@@ -175,3 +181,88 @@ export const WorkflowMachine = createMachine({
     },
   },
 });
+
+/**
+ * Build a state machine from a declarative workflow definition.
+ *
+ * Steps run in declaration order: each step advances to the next one on its
+ * action's completion events (see STEP_COMPLETION_EVENTS), and the last step
+ * advances to COMPLETED. Lifecycle states (UPLOAD_RECEIVED, FAILED, RETRYING,
+ * PAUSED, ...) keep the same names and semantics as WorkflowMachine, with the
+ * first step standing in for PREPROCESSING as the restart target.
+ *
+ * The spec is assumed to have passed validateWorkflowDefinitionSpec.
+ */
+export function createDefinitionMachine(spec: WorkflowDefinitionSpec): AnyStateMachine {
+  const firstStepId = spec.steps[0].id;
+  const states: Record<string, { type?: 'final'; on?: Record<string, { target: string }> }> = {
+    UPLOAD_RECEIVED: {
+      on: {
+        PREPROCESS: { target: firstStepId },
+        ERROR: { target: 'FAILED' },
+        PAUSE: { target: 'PAUSED' },
+      },
+    },
+  };
+
+  spec.steps.forEach((step, index) => {
+    const nextId = spec.steps[index + 1]?.id ?? 'COMPLETED';
+    const on: Record<string, { target: string }> = {
+      ERROR: { target: 'FAILED' },
+      PAUSE: { target: 'PAUSED' },
+    };
+    for (const event of STEP_COMPLETION_EVENTS[step.action]) {
+      on[event] = { target: nextId };
+    }
+    if (HITL_STEP_ACTIONS.has(step.action)) {
+      on.TIMEOUT = { target: 'HITL_TIMEOUT' };
+    }
+    if (step.action === 'AWAITING_AI_REVIEW') {
+      // Default rejection target mirrors WorkflowMachine: the closest earlier
+      // AI analysis step, else the step immediately before the gate.
+      const earlier = spec.steps.slice(0, index);
+      const analysisStep = [...earlier].reverse().find(s => s.action === 'RUNNING_AI_ANALYSIS');
+      on.AI_REJECTED = {
+        target: step.onReject ?? analysisStep?.id ?? earlier[earlier.length - 1]?.id ?? step.id,
+      };
+    }
+    states[step.id] = { on };
+  });
+
+  states.COMPLETED = { type: 'final' };
+  states.FAILED = { on: { RETRY: { target: 'RETRYING' } } };
+  states.RETRYING = {
+    on: {
+      RETRY_EXECUTE: { target: firstStepId },
+      ERROR: { target: 'FAILED' },
+    },
+  };
+  states.CANCELLED = { type: 'final' };
+  states.HITL_TIMEOUT = { type: 'final' };
+  states.PAUSED = {
+    on: {
+      RESUME: { target: firstStepId },
+      ERROR: { target: 'FAILED' },
+    },
+  };
+
+  return createMachine({
+    id: 'workflow',
+    initial: 'UPLOAD_RECEIVED',
+    types: {} as {
+      context: WorkflowContext;
+      events: WorkflowEvent;
+    },
+    context: {
+      workflowId: '',
+      fileId: '',
+      currentState: 'UPLOAD_RECEIVED',
+      stateData: {},
+      retryCount: 0,
+      loopCount: 0,
+      errorMessage: undefined,
+      batchId: undefined,
+    },
+    states,
+  });
+}
@@ -1,28 +1,46 @@
-import { createActor } from 'xstate';
-import { WorkflowMachine } from './workflow-states';
+import { createActor, type AnyStateMachine } from 'xstate';
+import { WorkflowMachine, createDefinitionMachine } from './workflow-states';
 import { WorkflowInstance, Prisma } from '@prisma/client';
 import prisma from '../../lib/prisma';
 import { workflowConfigService } from './workflow-config.service';
+import { workflowDefinitionService, resolveCanonicalState } from './workflow-definition.service';
 import { HitlGateConfig } from '../../types/workflow-config.types';
+import type { GateApprovalPolicy, HITLGate } from '../../types/workflow-contracts';
 import { enqueueWorkflowEvent } from '../../queues/workflow.queue';
 import { logger } from '../../lib/logger';
 import { websocketService } from './websocket.service';
 import { config } from '../../config';
 import { workflowMetricsService } from '../metrics/workflow-metrics.service';
+import { hitlAssignmentService } from './hitl-assignment.service';
 
 class WorkflowService {
   async createWorkflow(
     fileId: string,
     createdBy: string,
     batchId?: string,
+    options: { productId?: string; autoApprovalPolicy?: GateApprovalPolicy } = {},
   ): Promise<WorkflowInstance> {
     const id = crypto.randomUUID();
+
+    // Pin the tenant's active definition (if any) so later edits to the
+    // tenant's pipeline never change the steps of a running workflow.
+    const file = await prisma.file.findUnique({
+      where: { id: fileId },
+      select: { tenantId: true },
+    });
+    const definitionId = file
+      ? await workflowDefinitionService.getActiveDefinitionId(file.tenantId)
+      : null;
+
     const workflow = await prisma.workflowInstance.create({
       data: {
         id,
         fileId,
         createdBy,
         batchId,
+        definitionId,
+        productId: options.productId,
+        autoApprovalPolicy: options.autoApprovalPolicy as unknown as Prisma.InputJsonValue | undefined,
         currentState: 'UPLOAD_RECEIVED',
         stateData: {},
       },
@@ -72,8 +90,12 @@ class WorkflowService {
 
     const fromState = instance.currentState;
 
+    // Declarative workflows run on a machine built from their pinned definition
+    const spec = await workflowDefinitionService.getSpecForWorkflow(instance);
+    const machine: AnyStateMachine = spec ? createDefinitionMachine(spec) : WorkflowMachine;
+
     // Reconstruct machine actor from persisted state
-    const resolvedSnapshot = WorkflowMachine.resolveState({
+    const resolvedSnapshot = machine.resolveState({
       value: fromState,
       context: {
         workflowId: instance.id,
@@ -87,7 +109,7 @@ class WorkflowService {
       },
     });
 
-    const actor = createActor(WorkflowMachine, { snapshot: resolvedSnapshot });
+    const actor = createActor(machine, { snapshot: resolvedSnapshot });
     actor.start();
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     actor.send({ type: event } as any);
@@ -151,7 +173,7 @@ class WorkflowService {
           from: fromState as import('../../types/workflow-contracts').WorkflowState,
           to: newState as import('../../types/workflow-contracts').WorkflowState,
           timestamp: new Date().toISOString(),
-          phase: this.computePhase(newState),
+          phase: this.computePhase(resolveCanonicalState(spec, newState)),
         });
       } catch (err) {
         logger.warn(`[Workflow] WebSocket emit failed for ${workflowId}`, err);
@@ -159,9 +181,22 @@ class WorkflowService {
     }
 
     // Record time metric — fire-and-forget, must never block the transition
-    workflowMetricsService.recordStateTransition(workflowId, fromState, newState, new Date())
+    // Metrics track built-in actions so custom step ids still count as gates.
+    workflowMetricsService.recordStateTransition(
+      workflowId,
+      resolveCanonicalState(spec, fromState),
+      resolveCanonicalState(spec, newState),
+      new Date(),
+    )
       .catch(err => logger.warn(`[Metrics] recordStateTransition failed for ${workflowId}: ${err.message}`));
 
+    // Leaving a HITL gate closes its assignment so it drops off the reviewer queue
+    const fromAction = resolveCanonicalState(spec, fromState);
+    if (fromAction.startsWith('AWAITING_')) {
+      hitlAssignmentService.closeGate(workflowId, fromAction.slice('AWAITING_'.length) as HITLGate)
+        .catch(err => logger.warn(`[HITL Assignment] closeGate failed for ${workflowId}: ${err.message}`));
+    }
+
     return updated;
   }
 
@@ -1,5 +1,6 @@
 import prisma, { Prisma } from '../lib/prisma';
 import { logger } from '../lib/logger';
+import type { TableGrid } from '../schemas/pdf-table.schemas';
 
 interface CreateZoneInput {
   tenantId: string;
@@ -25,17 +26,7 @@ interface UpdateZoneInput {
   tableStructure?: Prisma.InputJsonValue;
 }
 
-interface TableStructure {
-  rows: Array<{
-    cells: Array<{
-      type: 'TH' | 'TD';
-      content: string;
-      colspan: number;
-      rowspan: number;
-      align: string;
-    }>;
-  }>;
-}
+type TableStructure = TableGrid;
 
 const CHILD_ZONE_SELECT = {
   id: true,
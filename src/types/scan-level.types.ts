@@ -31,7 +31,8 @@ export type ValidatorType =
   | 'links'
   | 'forms'
   | 'bookmarks'
-  | 'supplemental';
+  | 'supplemental'
+  | 'matterhorn';
 
 /**
  * Scan level configurations
@@ -70,6 +71,7 @@ export const SCAN_LEVEL_CONFIGS: Record<ScanLevel, ScanLevelConfig> = {
       'forms',
       'bookmarks',
       'supplemental',
+      'matterhorn',
     ],
     checksIncluded: [
       'All Basic checks',
@@ -81,6 +83,7 @@ export const SCAN_LEVEL_CONFIGS: Record<ScanLevel, ScanLevelConfig> = {
       'Form field accessibility labels',
       'Bookmark coverage and quality',
       'Complete Matterhorn Protocol',
+      'Built-in Matterhorn checks (role map, tag nesting, language, annotations)',
       'WCAG 2.1 Level AA compliance',
     ],
   },
@@ -3,6 +3,8 @@
  * Provides tenant-level and job-level configuration for agentic workflow behavior.
  */
 
+import type { GateApprovalPolicy } from './workflow-contracts';
+
 /**
  * Configuration for HITL (Human-in-the-Loop) gate timeouts.
  * Values are in milliseconds. Set to null for no timeout (manual approval required).
@@ -14,6 +16,56 @@ export interface HitlGateConfig {
   AWAITING_ACR_SIGNOFF?: number | null;
 }
 
+/**
+ * One step of a HITL escalation chain.
+ * - 'remind': remind the current owner of the gate.
+ * - 'reassign': hand the gate to a backup reviewer (userId) or to a role.
+ * - 'notify-manager': notify a named user or role (tenant admins by default).
+ */
+export interface HitlEscalationStep {
+  /** Hours since the gate opened before this step fires. */
+  afterHours: number;
+  action: 'remind' | 'reassign' | 'notify-manager';
+  userId?: string;
+  role?: 'ADMIN' | 'USER' | 'OPERATOR';
+}
+
+/**
+ * Escalation chains for open HITL gates. When a chain applies to a gate it
+ * replaces the gate timeout: the gate stays open and is escalated step by step
+ * instead of moving the workflow to HITL_TIMEOUT.
+ */
+export interface HitlEscalationConfig {
+  enabled: boolean;
+  /** Chain for every gate, ordered by afterHours. */
+  steps: HitlEscalationStep[];
+  /** Per-gate chains that replace `steps` for that gate. */
+  gates?: Partial<Record<keyof HitlGateConfig, HitlEscalationStep[]>>;
+}
+
+/**
+ * Rule requiring a reviewer skill at matching HITL gates, e.g. "PDF tables"
+ * for PDF remediation reviews or "PRH EPUB" for PRH titles.
+ * Conditions that are left unset match every gate.
+ */
+export interface ReviewerSkillRule {
+  skill: string;
+  fileTypes?: Array<'EPUB' | 'PDF'>;
+  gates?: Array<keyof HitlGateConfig>;
+  /** Publisher profiles detected for the title, e.g. 'PRH-UK'. */
+  publisherProfiles?: string[];
+}
+
+/**
+ * Reviewer assignment for HITL gates. With autoAssign, each newly opened
+ * gate goes to the active reviewer with every required skill who has the
+ * fewest open gates; otherwise the gate is owned by the workflow's creator.
+ */
+export interface ReviewerAssignmentConfig {
+  autoAssign: boolean;
+  skillRules: ReviewerSkillRule[];
+}
+
 /**
  * Configuration for automatic retry behavior when workflows fail.
  */
@@ -64,12 +116,17 @@ export interface BatchPolicyTenantConfig {
 
 /**
  * Complete workflow configuration.
+ * autoApprovalPolicy is the tenant-wide default for HITL gate auto-approval;
+ * workflow, batch and product policies take precedence over it.
  */
 export interface WorkflowConfig {
   enabled: boolean;
   hitlGates?: HitlGateConfig;
   autoRetry?: AutoRetryConfig;
   batchPolicy?: BatchPolicyTenantConfig;
+  autoApprovalPolicy?: GateApprovalPolicy;
+  hitlEscalation?: HitlEscalationConfig;
+  reviewerAssignment?: ReviewerAssignmentConfig;
 }
 
 /**
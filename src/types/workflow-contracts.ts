@@ -105,18 +105,33 @@ export type ConfidenceLevel = typeof ConfidenceLevel[keyof typeof ConfidenceLeve
  */
 export type GatePolicyMode = 'auto-accept' | 'conditional' | 'require-manual';
 
+/** Issue severities used by residual-issue conditions. */
+export type IssueSeverity = 'critical' | 'serious' | 'moderate' | 'minor';
+
 /**
  * Conditions evaluated when gate mode is 'conditional'.
  * All specified conditions must pass for the gate to be auto-approved.
  *
- * minConfidence  — average audit score (0.0–1.0) must meet or exceed this value.
- * issueTypeRules — per-issue-category rules; ALL issues must be covered for auto-approval.
- *                  'auto-accept' | 'auto-reject' — handled automatically.
- *                  'manual'                       — forces human review.
+ * minConfidence        — average audit score (0.0–1.0) must meet or exceed this value.
+ * issueTypeRules       — AI_REVIEW only: per-issue-category rules; ALL issues must be covered.
+ *                        'auto-accept' | 'auto-reject' — handled automatically.
+ *                        'manual'                       — forces human review.
+ * maxResidualIssues    — upper bound on issues still open, per severity and/or in total.
+ *                        Residual = latest audit issues minus completed remediation tasks.
+ * maxDoesNotSupport    — upper bound on criteria whose conformance is 'does_not_support'.
+ * blockingCriteria     — criteria (e.g. '1.1.1') that must not be 'does_not_support'.
+ * maxAiSuggestedShare  — upper bound (0.0–1.0) on the share of findings at the gate
+ *                        that rest on AI/automated judgement with no human verification.
+ * publisherProfiles    — detected publisher profile must be one of these ('none' = no profile).
  */
 export interface PolicyConditions {
   minConfidence?: number;  // 0.0–1.0
   issueTypeRules?: Record<string, 'auto-accept' | 'auto-reject' | 'manual'>;
+  maxResidualIssues?: Partial<Record<IssueSeverity | 'total', number>>;
+  maxDoesNotSupport?: number;
+  blockingCriteria?: string[];
+  maxAiSuggestedShare?: number;  // 0.0–1.0
+  publisherProfiles?: string[];
 }
 
 /**
@@ -144,19 +159,65 @@ export type BatchGatePolicy = 'auto-accept' | 'require-manual' | ConditionalGate
 export type BatchErrorStrategy = 'pause-batch' | 'continue-others' | 'fail-batch';
 
 /**
- * Defines the automatic-approval and error-handling behaviour for a batch run.
- * Stored in BatchWorkflow.autoApprovalPolicy (JSON).
+ * Per-gate automatic-approval policy.
+ * Attached to a single workflow (WorkflowInstance.autoApprovalPolicy), a product
+ * (Product.autoApprovalPolicy) or the tenant (settings.workflow.autoApprovalPolicy).
  */
-export interface BatchAutoApprovalPolicy {
+export interface GateApprovalPolicy {
   gates: {
     AI_REVIEW?: BatchGatePolicy;
     REMEDIATION_REVIEW?: BatchGatePolicy;
     CONFORMANCE_REVIEW?: BatchGatePolicy;
     ACR_SIGNOFF?: BatchGatePolicy;
   };
+}
+
+/**
+ * Defines the automatic-approval and error-handling behaviour for a batch run.
+ * Stored in BatchWorkflow.autoApprovalPolicy (JSON).
+ */
+export interface BatchAutoApprovalPolicy extends GateApprovalPolicy {
   onError: BatchErrorStrategy;
 }
 
+/**
+ * Where an auto-approval policy is attached, in precedence order.
+ * Each gate is resolved independently: the first level that defines a policy
+ * for the gate wins, even if a lower level is more permissive.
+ *
+ *   workflow > batch > product > tenant
+ */
+export type AutoApprovalPolicySource = 'workflow' | 'batch' | 'product' | 'tenant';
+
+export const AUTO_APPROVAL_POLICY_PRECEDENCE: readonly AutoApprovalPolicySource[] = [
+  'workflow', 'batch', 'product', 'tenant',
+];
+
+/** Outcome of a single policy condition, as recorded in an auto-decision rationale. */
+export interface GatePolicyCheck {
+  condition: string;                   // PolicyConditions key, or 'mode' for unconditional policies
+  passed: boolean;
+  expected: unknown;
+  actual: unknown;
+  detail?: string;
+}
+
+/**
+ * Why a HITL gate was (or was not) auto-approved.
+ * Persisted in HITLDecision.rationale for every auto-decision so auditors can
+ * see which policy applied and what evidence it was evaluated against.
+ */
+export interface AutoApprovalRationale {
+  gate: HITLGate;
+  approved: boolean;
+  policySource: AutoApprovalPolicySource;
+  policySourceId?: string;             // workflow, batch, product or tenant id
+  policyMode: GatePolicyMode;
+  checks: GatePolicyCheck[];
+  summary: string;
+  evaluatedAt: string;                 // ISO timestamp
+}
+
 // ============================================================
 // CORE DOMAIN INTERFACES
 // ============================================================
@@ -205,6 +266,8 @@ export interface GateStatus {
 export interface StartWorkflowRequest {
   fileId: string;
   vpatEditions?: string[];             // 'VPAT2.5-508' | 'VPAT2.5-WCAG' | 'VPAT2.5-EU' | 'VPAT2.5-INT' | 'VPAT2.5-PRH-UK'
+  productId?: string;                  // Links the workflow to a product (product-level policy)
+  autoApprovalPolicy?: GateApprovalPolicy;
 }
 
 /** POST /api/v1/workflows/:id/pause|resume|cancel|retry */
@@ -212,6 +275,12 @@ export interface WorkflowActionBody {
   reason?: string;
 }
 
+/** POST /api/v1/workflows/:id/replay */
+export interface ReplayWorkflowRequest {
+  fromState: string;                   // Step id (state name) of the original run to restart at
+  reason?: string;
+}
+
 /** POST /api/v1/workflows/:id/hitl/ai-review */
 export interface AIReviewDecisionRequest {
   decisions: Array<{
@@ -294,9 +363,61 @@ export interface WorkflowStatusResponse {
   loopCount: number;
   createdBy: string;
   batchId?: string;
+  definitionId?: string;               // Pinned WorkflowDefinition version (absent = built-in pipeline)
+  replayOfId?: string;                 // Set on replays: the workflow this run was branched from
+  replayFromState?: string;            // Set on replays: the step the replay restarted at
   stateData?: Record<string, unknown>;
 }
 
+/** Outcome of one run, as compared by the replay comparison endpoint */
+export interface WorkflowRunOutcome {
+  workflowId: string;
+  currentState: string;
+  startedAt: string;
+  completedAt?: string;
+  auditScore?: number;
+  issueCount?: number;
+  totalIssuesFixed?: number;
+  totalIssuesFailed?: number;
+  verificationScore?: number;
+  verificationIssueCount?: number;
+  acrJobId?: string;
+  conformance: Record<string, string>; // criterionId → effective conformance (after human review)
+}
+
+/** GET /api/v1/workflows/:id/replay-comparison */
+export interface WorkflowReplayComparison {
+  replayFromState: string;
+  original: WorkflowRunOutcome;
+  replay: WorkflowRunOutcome;
+  conformanceChanges: Array<{
+    criterionId: string;
+    original?: string;                 // Absent when the criterion was not mapped in that run
+    replay?: string;
+  }>;
+}
+
+/** One policy level considered for a gate, in precedence order. */
+export interface AutoApprovalPolicyCandidate {
+  source: AutoApprovalPolicySource;
+  sourceId?: string;
+  policy?: BatchGatePolicy;            // Absent when this level does not define the gate
+  applied: boolean;
+}
+
+/** GET /api/v1/workflows/:id/auto-approval-policy */
+export interface AutoApprovalPolicyExplanation {
+  workflowId: string;
+  precedence: readonly AutoApprovalPolicySource[];
+  gates: Record<HITLGate, {
+    effective: { source: AutoApprovalPolicySource; sourceId?: string; policy: BatchGatePolicy } | null;
+    candidates: AutoApprovalPolicyCandidate[];
+    reason: string;
+  }>;
+  currentGate?: HITLGate;              // Set when the workflow is suspended at a gate
+  evaluation?: AutoApprovalRationale;  // Dry-run of the effective policy at currentGate
+}
+
 /** GET /api/v1/workflows/:id/timeline */
 export interface WorkflowTimelineResponse {
   workflowId: string;
@@ -313,10 +434,64 @@ export interface HITLDecisionRecord {
   originalValue: unknown;
   modifiedValue?: unknown;
   justification?: string;
-  reviewerId: string;
+  reviewerId: string | null;           // null for policy auto-decisions
+  autoApproved: boolean;
+  rationale?: AutoApprovalRationale;
   decidedAt: string;
 }
 
+/** Current owner of a HITL gate: a named reviewer or everyone with a role */
+export type HITLGateOwner =
+  | { userId: string; name: string; email: string }
+  | { role: string };
+
+/** GET /api/v1/workflow/hitl/queue */
+export interface HITLQueueEntry {
+  assignmentId: string;
+  workflowId: string;
+  fileName: string;
+  gate: HITLGate;
+  currentState: string;
+  openedAt: string;
+  owner: HITLGateOwner | null;        // null when the owning user was deleted
+  escalationLevel: number;
+  lastEscalatedAt?: string;
+  nextEscalationAt?: string;
+  requiredSkills: string[];
+}
+
+/** How a gate came to be owned by an assignee */
+export type HITLAssignmentMethod = 'creator' | 'auto' | 'manual' | 'escalation';
+
+/** One owner in the assignment history of a gate */
+export interface HITLAssignmentHistoryRecord {
+  owner: HITLGateOwner | null;
+  method: HITLAssignmentMethod;
+  assignedById: string | null;
+  reason: string | null;
+  assignedAt: string;
+  unassignedAt: string | null;
+}
+
+/** GET /api/v1/workflow/hitl/:workflowId/assignments */
+export interface HITLGateAssignmentDetail extends HITLQueueEntry {
+  resolvedAt: string | null;
+  history: HITLAssignmentHistoryRecord[];
+}
+
+/** GET /api/v1/workflow/hitl/reviewers */
+export interface ReviewerWorkload {
+  userId: string;
+  name: string;
+  email: string;
+  role: string;
+  skills: string[];
+  gates: HITLGate[];                  // empty = every gate
+  maxOpenGates: number | null;
+  active: boolean;
+  openGates: number;
+}
+
 /** GET /api/v1/batches/:id */
 export interface BatchDashboardResponse {
   id: string;
@@ -409,6 +584,8 @@ export const hitlActionSchema = z.enum([
 export const startWorkflowSchema = z.object({
   fileId: z.string().min(1, 'fileId is required'),
   vpatEditions: z.array(z.string()).optional(),
+  productId: z.string().uuid().optional(),
+  autoApprovalPolicy: z.lazy(() => gateApprovalPolicySchema).optional(),
 });
 
 export const aiReviewDecisionSchema = z.object({
@@ -456,6 +633,17 @@ export const gatePolicyModeSchema = z.enum(['auto-accept', 'conditional', 'requi
 export const policyConditionsSchema = z.object({
   minConfidence: z.number().min(0).max(1).optional(),
   issueTypeRules: z.record(z.string(), z.enum(['auto-accept', 'auto-reject', 'manual'])).optional(),
+  maxResidualIssues: z.object({
+    critical: z.number().int().min(0).optional(),
+    serious: z.number().int().min(0).optional(),
+    moderate: z.number().int().min(0).optional(),
+    minor: z.number().int().min(0).optional(),
+    total: z.number().int().min(0).optional(),
+  }).optional(),
+  maxDoesNotSupport: z.number().int().min(0).optional(),
+  blockingCriteria: z.array(z.string().min(1)).optional(),
+  maxAiSuggestedShare: z.number().min(0).max(1).optional(),
+  publisherProfiles: z.array(z.string().min(1)).optional(),
 });
 
 export const conditionalGatePolicySchema = z.object({
@@ -471,16 +659,86 @@ export const batchGatePolicySchema = z.union([
 
 export const batchErrorStrategySchema = z.enum(['pause-batch', 'continue-others', 'fail-batch']);
 
-export const batchAutoApprovalPolicySchema = z.object({
+export const gateApprovalPolicySchema = z.object({
   gates: z.object({
     AI_REVIEW: batchGatePolicySchema.optional(),
     REMEDIATION_REVIEW: batchGatePolicySchema.optional(),
     CONFORMANCE_REVIEW: batchGatePolicySchema.optional(),
     ACR_SIGNOFF: batchGatePolicySchema.optional(),
   }),
+});
+
+export const batchAutoApprovalPolicySchema = gateApprovalPolicySchema.extend({
   onError: batchErrorStrategySchema,
 });
 
+/** PUT /api/v1/workflows/:id/auto-approval-policy and /products/:id/auto-approval-policy */
+export const setAutoApprovalPolicySchema = z.object({
+  autoApprovalPolicy: gateApprovalPolicySchema.nullable(),
+});
+
+export const hitlEscalationStepSchema = z.object({
+  afterHours: z.number().positive().max(24 * 90),
+  action: z.enum(['remind', 'reassign', 'notify-manager']),
+  userId: z.string().uuid().optional(),
+  role: z.enum(['ADMIN', 'USER', 'OPERATOR']).optional(),
+}).refine(step => step.action !== 'reassign' || step.userId || step.role, {
+  message: 'reassign steps need a userId or role',
+});
+
+const hitlEscalationChainSchema = z.array(hitlEscalationStepSchema).max(10).refine(
+  steps => steps.every((step, i) => i === 0 || step.afterHours > steps[i - 1].afterHours),
+  { message: 'afterHours must increase along the chain' }
+);
+
+/** Tenant setting workflow.hitlEscalation (see HitlEscalationConfig). */
+export const hitlEscalationConfigSchema = z.object({
+  enabled: z.boolean(),
+  steps: hitlEscalationChainSchema,
+  gates: z.object({
+    AWAITING_AI_REVIEW: hitlEscalationChainSchema.optional(),
+    AWAITING_REMEDIATION_REVIEW: hitlEscalationChainSchema.optional(),
+    AWAITING_CONFORMANCE_REVIEW: hitlEscalationChainSchema.optional(),
+    AWAITING_ACR_SIGNOFF: hitlEscalationChainSchema.optional(),
+  }).optional(),
+});
+
+const hitlGateStateSchema = z.enum([
+  'AWAITING_AI_REVIEW', 'AWAITING_REMEDIATION_REVIEW', 'AWAITING_CONFORMANCE_REVIEW', 'AWAITING_ACR_SIGNOFF',
+]);
+
+const reviewerSkillSchema = z.string().trim().min(1).max(64);
+
+export const reviewerSkillRuleSchema = z.object({
+  skill: reviewerSkillSchema,
+  fileTypes: z.array(z.enum(['EPUB', 'PDF'])).optional(),
+  gates: z.array(hitlGateStateSchema).optional(),
+  publisherProfiles: z.array(z.string().min(1)).optional(),
+});
+
+/** Tenant setting workflow.reviewerAssignment (see ReviewerAssignmentConfig). */
+export const reviewerAssignmentConfigSchema = z.object({
+  autoAssign: z.boolean(),
+  skillRules: z.array(reviewerSkillRuleSchema).max(50).default([]),
+});
+
+/** PUT /api/v1/workflow/hitl/reviewers/:userId */
+export const reviewerProfileSchema = z.object({
+  skills: z.array(reviewerSkillSchema).max(50),
+  gates: z.array(hitlGateSchema).optional(),
+  maxOpenGates: z.number().int().positive().nullable().optional(),
+  active: z.boolean().optional(),
+});
+
+/** PUT /api/v1/workflow/hitl/assignments/:assignmentId */
+export const assignGateSchema = z.object({
+  userId: z.string().uuid().optional(),
+  role: z.enum(['ADMIN', 'USER', 'OPERATOR']).optional(),
+  reason: z.string().max(500).optional(),
+}).refine(body => !!body.userId !== !!body.role, {
+  message: 'Provide either userId or role',
+});
+
 export const acrBatchConfigSchema = z.object({
   vendor: z.string().min(1, 'Vendor name is required'),
   contactEmail: z.string().email('Valid email required'),
@@ -506,3 +764,8 @@ export const workflowParamsSchema = z.object({
 export const workflowActionSchema = z.object({
   reason: z.string().optional(),
 });
+
+export const replayWorkflowSchema = z.object({
+  fromState: z.string().min(1, 'fromState is required'),
+  reason: z.string().max(500).optional(),
+});
@@ -0,0 +1,155 @@
+/**
+ * @fileoverview Type definitions for declarative, per-tenant workflow definitions.
+ * A definition describes a pipeline as an ordered list of steps; each step binds a
+ * tenant-chosen state name to one of the built-in step actions the workflow agent
+ * knows how to execute.
+ */
+
+import { z } from 'zod';
+
+/**
+ * Built-in step actions. Every action except PRH_PREFLIGHT corresponds to a state
+ * of the canonical ACR pipeline (see WorkflowState in workflow-contracts.ts).
+ */
+export const WorkflowStepAction = {
+  PREPROCESSING: 'PREPROCESSING',
+  RUNNING_EPUBCHECK: 'RUNNING_EPUBCHECK',
+  RUNNING_ACE: 'RUNNING_ACE',
+  RUNNING_AI_ANALYSIS: 'RUNNING_AI_ANALYSIS',
+  PRH_PREFLIGHT: 'PRH_PREFLIGHT',
+  AWAITING_AI_REVIEW: 'AWAITING_AI_REVIEW',
+  AUTO_REMEDIATION: 'AUTO_REMEDIATION',
+  AWAITING_REMEDIATION_REVIEW: 'AWAITING_REMEDIATION_REVIEW',
+  VERIFICATION_AUDIT: 'VERIFICATION_AUDIT',
+  CONFORMANCE_MAPPING: 'CONFORMANCE_MAPPING',
+  AWAITING_CONFORMANCE_REVIEW: 'AWAITING_CONFORMANCE_REVIEW',
+  ACR_GENERATION: 'ACR_GENERATION',
+  AWAITING_ACR_SIGNOFF: 'AWAITING_ACR_SIGNOFF',
+} as const;
+
+export type WorkflowStepAction = typeof WorkflowStepAction[keyof typeof WorkflowStepAction];
+
+/**
+ * Events that complete a step of the given action and advance the workflow to
+ * the next step. These are the events the agent handlers and HITL controllers
+ * already emit, so handlers run unchanged under a declarative definition.
+ */
+export const STEP_COMPLETION_EVENTS: Record<WorkflowStepAction, string[]> = {
+  PREPROCESSING: ['START_AUDIT'],
+  RUNNING_EPUBCHECK: ['ACE_START'],
+  RUNNING_ACE: ['AI_START'],
+  RUNNING_AI_ANALYSIS: ['AI_DONE'],
+  PRH_PREFLIGHT: ['PREFLIGHT_DONE'],
+  AWAITING_AI_REVIEW: ['AI_ACCEPTED'],
+  AUTO_REMEDIATION: ['REMEDIATION_DONE'],
+  AWAITING_REMEDIATION_REVIEW: ['REMEDIATION_APPROVED'],
+  VERIFICATION_AUDIT: ['CONFORMANCE_START'],
+  CONFORMANCE_MAPPING: ['CONFORMANCE_DONE'],
+  AWAITING_CONFORMANCE_REVIEW: ['CONFORMANCE_APPROVED'],
+  ACR_GENERATION: ['ACR_DONE'],
+  AWAITING_ACR_SIGNOFF: ['ACR_SIGNED'],
+};
+
+/** Actions that suspend the workflow for a human decision. */
+export const HITL_STEP_ACTIONS: ReadonlySet<WorkflowStepAction> = new Set<WorkflowStepAction>([
+  'AWAITING_AI_REVIEW',
+  'AWAITING_REMEDIATION_REVIEW',
+  'AWAITING_CONFORMANCE_REVIEW',
+  'AWAITING_ACR_SIGNOFF',
+]);
+
+/** Actions the workflow agent runs unattended; a workflow left in one of these can be stuck. */
+export const PROCESSING_STEP_ACTIONS: ReadonlySet<WorkflowStepAction> = new Set<WorkflowStepAction>(
+  (Object.values(WorkflowStepAction) as WorkflowStepAction[]).filter(action => !HITL_STEP_ACTIONS.has(action))
+);
+
+/** Actions that read `stateData.jobId` and therefore need an earlier audit step. */
+export const JOB_DEPENDENT_STEP_ACTIONS: ReadonlySet<WorkflowStepAction> = new Set<WorkflowStepAction>([
+  'AUTO_REMEDIATION',
+  'VERIFICATION_AUDIT',
+  'CONFORMANCE_MAPPING',
+  'ACR_GENERATION',
+]);
+
+/**
+ * State names owned by the engine. Step ids may not reuse them because the
+ * lifecycle (pause, retry, failure) transitions target these names directly.
+ */
+export const RESERVED_STEP_IDS: ReadonlySet<string> = new Set([
+  'UPLOAD_RECEIVED',
+  'COMPLETED',
+  'FAILED',
+  'RETRYING',
+  'CANCELLED',
+  'HITL_TIMEOUT',
+  'PAUSED',
+]);
+
+/** A single step in a declarative workflow definition. */
+export interface WorkflowStepDefinition {
+  /** State name persisted in WorkflowInstance.currentState while this step runs. */
+  id: string;
+  /** Built-in action executed by the workflow agent for this step. */
+  action: WorkflowStepAction;
+  /** Optional display label for the frontend timeline. */
+  label?: string;
+  /** AI_REVIEW steps only: step to return to when the reviewer rejects. */
+  onReject?: string;
+}
+
+/** Declarative pipeline: steps run in order, then the workflow completes. */
+export interface WorkflowDefinitionSpec {
+  steps: WorkflowStepDefinition[];
+}
+
+/**
+ * The canonical ACR pipeline expressed as a definition. Used as the template
+ * offered to tenants and as the reference for the legacy hard-coded machine.
+ */
+export const DEFAULT_WORKFLOW_DEFINITION: WorkflowDefinitionSpec = {
+  steps: [
+    { id: 'PREPROCESSING', action: 'PREPROCESSING' },
+    { id: 'RUNNING_EPUBCHECK', action: 'RUNNING_EPUBCHECK' },
+    { id: 'RUNNING_ACE', action: 'RUNNING_ACE' },
+    { id: 'RUNNING_AI_ANALYSIS', action: 'RUNNING_AI_ANALYSIS' },
+    { id: 'AWAITING_AI_REVIEW', action: 'AWAITING_AI_REVIEW', onReject: 'RUNNING_AI_ANALYSIS' },
+    { id: 'AUTO_REMEDIATION', action: 'AUTO_REMEDIATION' },
+    { id: 'AWAITING_REMEDIATION_REVIEW', action: 'AWAITING_REMEDIATION_REVIEW' },
+    { id: 'VERIFICATION_AUDIT', action: 'VERIFICATION_AUDIT' },
+    { id: 'CONFORMANCE_MAPPING', action: 'CONFORMANCE_MAPPING' },
+    { id: 'AWAITING_CONFORMANCE_REVIEW', action: 'AWAITING_CONFORMANCE_REVIEW' },
+    { id: 'ACR_GENERATION', action: 'ACR_GENERATION' },
+    { id: 'AWAITING_ACR_SIGNOFF', action: 'AWAITING_ACR_SIGNOFF' },
+  ],
+};
+
+// ============================================================
+// ZOD SCHEMAS
+// ============================================================
+
+export const workflowStepActionSchema = z.enum([
+  'PREPROCESSING', 'RUNNING_EPUBCHECK', 'RUNNING_ACE', 'RUNNING_AI_ANALYSIS',
+  'PRH_PREFLIGHT', 'AWAITING_AI_REVIEW', 'AUTO_REMEDIATION',
+  'AWAITING_REMEDIATION_REVIEW', 'VERIFICATION_AUDIT', 'CONFORMANCE_MAPPING',
+  'AWAITING_CONFORMANCE_REVIEW', 'ACR_GENERATION', 'AWAITING_ACR_SIGNOFF',
+]);
+
+export const workflowStepDefinitionSchema = z.object({
+  id: z.string().regex(/^[A-Z][A-Z0-9_]{1,63}$/, 'Step id must be UPPER_SNAKE_CASE (2-64 chars)'),
+  action: workflowStepActionSchema,
+  label: z.string().max(120).optional(),
+  onReject: z.string().optional(),
+});
+
+export const workflowDefinitionSpecSchema = z.object({
+  steps: z.array(workflowStepDefinitionSchema).min(1, 'At least one step is required').max(50),
+});
+
+export const saveWorkflowDefinitionSchema = z.object({
+  name: z.string().min(1, 'Definition name is required').max(100),
+  description: z.string().max(500).optional(),
+  spec: workflowDefinitionSpecSchema,
+  activate: z.boolean().default(true),
+});
+
+export type SaveWorkflowDefinitionInput = z.infer<typeof saveWorkflowDefinitionSchema>;
@@ -522,6 +522,28 @@ export const doiOrgRateLimiter = new RateLimiter({
   throwOnLimit: false,
 });
 
+/**
+ * NCBI E-utilities (PubMed) rate limiter
+ * NCBI allows 3 requests/second without an API key, 10 with NCBI_API_KEY
+ */
+export const pubMedRateLimiter = new RateLimiter({
+  name: 'PubMed',
+  maxRequests: process.env.NCBI_API_KEY ? 10 : 3,
+  windowMs: 1000,
+  throwOnLimit: false,
+});
+
+/**
+ * Open Library rate limiter
+ * Open Library allows identified clients (User-Agent with contact) 3 requests/second
+ */
+export const openLibraryRateLimiter = new RateLimiter({
+  name: 'OpenLibrary',
+  maxRequests: 3,
+  windowMs: 1000,
+  throwOnLimit: false,
+});
+
 /**
  * Per-tenant AI usage tracker (Redis-based for multi-instance safety)
  * Limits: 1M tokens/day, 1000 calls/hour
@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { saveTableStructureSchema } from '../../../src/schemas/pdf-table.schemas';
+
+const cell = (type: 'TH' | 'TD', content: string) => ({ type, content });
+
+describe('saveTableStructureSchema', () => {
+  it('accepts a table with a header row', () => {
+    const result = saveTableStructureSchema.safeParse({
+      thead: { rows: [{ cells: [cell('TH', 'Year'), cell('TH', 'Sales')] }] },
+      tbody: { rows: [{ cells: [cell('TD', '2024'), cell('TD', '10')] }] },
+    });
+    expect(result.success).toBe(true);
+  });
+
+  it('accepts an empty thead for tables with row headers only', () => {
+    const result = saveTableStructureSchema.safeParse({
+      thead: { rows: [] },
+      tbody: { rows: [{ cells: [cell('TH', '2024'), cell('TD', '10')] }] },
+    });
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.thead.rows).toEqual([]);
+      expect(result.data.tbody.rows[0].cells[0]).toMatchObject({ type: 'TH', colspan: 1, rowspan: 1 });
+    }
+  });
+
+  it('rejects a table without body rows', () => {
+    const result = saveTableStructureSchema.safeParse({
+      thead: { rows: [{ cells: [cell('TH', 'Year')] }] },
+      tbody: { rows: [] },
+    });
+    expect(result.success).toBe(false);
+  });
+});
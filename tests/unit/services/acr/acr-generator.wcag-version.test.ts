@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  acrGeneratorService,
+  type ProductInfo,
+} from '../../../../src/services/acr/acr-generator.service';
+import { VPAT_INT_TEMPLATE } from '../../../../src/services/acr/templates/vpat-int-template';
+import { VPAT_508_TEMPLATE } from '../../../../src/services/acr/templates/vpat-508-template';
+
+const PRODUCT_INFO: ProductInfo = {
+  name: 'Sample Title',
+  version: '1.0.0',
+  description: 'Sample EPUB for ACR generation tests',
+  vendor: 'Test Publisher',
+  contactEmail: 'test@example.com',
+  evaluationDate: new Date('2026-10-19'),
+};
+
+describe('AcrGeneratorService — WCAG versions', () => {
+  it('reports Section 508 against WCAG 2.0 Level A and AA by default', async () => {
+    const criteria = await acrGeneratorService.getCriteriaForEdition('VPAT2.5-508');
+    const ids = criteria.map((c) => c.id);
+    expect(ids).toHaveLength(38);
+    // 1.3.4 and 1.3.5 are WCAG 2.1 additions, not part of the 508 baseline.
+    expect(ids).not.toContain('1.3.4');
+    expect(ids).not.toContain('1.3.5');
+  });
+
+  it('includes the WCAG 2.2 additions in the WCAG and International editions', async () => {
+    for (const edition of ['VPAT2.5-WCAG', 'VPAT2.5-INT'] as const) {
+      const ids = (await acrGeneratorService.getCriteriaForEdition(edition)).map((c) => c.id);
+      expect(ids).toEqual(expect.arrayContaining(['2.4.11', '2.4.12', '2.4.13', '2.5.7', '2.5.8', '3.2.6', '3.3.7', '3.3.8', '3.3.9']));
+    }
+  });
+
+  it('lets the ACR choose a different WCAG version than the edition default', async () => {
+    const ids = (await acrGeneratorService.getCriteriaForEdition('VPAT2.5-WCAG', '2.1')).map((c) => c.id);
+    expect(ids).toContain('1.4.10');
+    expect(ids).not.toContain('2.5.8');
+  });
+
+  it('records 4.1.1 Parsing as Not Applicable in a WCAG 2.2 report', async () => {
+    const doc = await acrGeneratorService.generateAcr('test-job', {
+      edition: 'VPAT2.5-INT',
+      productInfo: PRODUCT_INFO,
+    }, new Map([['4.1.1', { status: 'VERIFIED_PASS', isAiGenerated: false }]]));
+    expect(doc.wcagVersion).toBe('2.2');
+    const parsing = doc.criteria.find((c) => c.id === '4.1.1');
+    expect(parsing?.conformanceLevel).toBe('Not Applicable');
+    expect(parsing?.remarks).toMatch(/^Justification: .*obsolete/);
+  });
+
+  it('evaluates 4.1.1 Parsing normally in a WCAG 2.1 report', async () => {
+    const doc = await acrGeneratorService.generateAcr('test-job', {
+      edition: 'VPAT2.5-INT',
+      wcagVersion: '2.1',
+      productInfo: PRODUCT_INFO,
+    });
+    expect(doc.wcagVersion).toBe('2.1');
+    const parsing = doc.criteria.find((c) => c.id === '4.1.1');
+    expect(parsing?.remarks).not.toMatch(/obsolete/);
+  });
+
+  it('labels edition details with the chosen WCAG version', async () => {
+    const details = await acrGeneratorService.getEditionDetails('VPAT2.5-INT', '2.1');
+    expect(details?.wcagVersion).toBe('2.1');
+    expect(details?.applicableStandards).toContain('WCAG 2.1');
+    expect(details?.applicableStandards).not.toContain('WCAG 2.2');
+  });
+
+  it('confidence analysis marks obsolete criteria not applicable', async () => {
+    const results = await acrGeneratorService.generateConfidenceAnalysis('VPAT2.5-PRH-UK', []);
+    const parsing = results.find((r) => r.criterionId === '4.1.1');
+    expect(parsing?.status).toBe('not_applicable');
+    expect(parsing?.requiresManualVerification).toBe(false);
+  });
+
+  it('builds template WCAG tables from the catalogue', () => {
+    const intAa = VPAT_INT_TEMPLATE.sections.find((s) => s.id === 'wcag-aa');
+    expect(intAa?.description).toBe('WCAG 2.2 Level AA criteria');
+    expect(intAa && 'criteria' in intAa ? intAa.criteria : []).toContain('2.5.8');
+
+    const section508A = VPAT_508_TEMPLATE.sections.find((s) => s.id === 'wcag-a');
+    expect(section508A?.description).toBe('WCAG 2.0 Level A criteria as required by Section 508');
+    expect(section508A && 'criteria' in section508A ? section508A.criteria : []).not.toContain('2.1.4');
+  });
+});
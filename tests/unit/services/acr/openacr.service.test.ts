@@ -0,0 +1,226 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import yaml from 'js-yaml';
+import prisma from '../../../../src/lib/prisma';
+import { acrGeneratorService, type ProductInfo } from '../../../../src/services/acr/acr-generator.service';
+import { acrVersioningService } from '../../../../src/services/acr/acr-versioning.service';
+import { openAcrService } from '../../../../src/services/acr/openacr.service';
+
+vi.mock('../../../../src/lib/prisma', () => {
+  const client = {
+    job: { create: vi.fn() },
+    acrJob: { create: vi.fn() },
+    acrCriterionReview: { createMany: vi.fn() },
+    $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(client)),
+  };
+  return { default: client };
+});
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../../../../src/services/acr/acr-versioning.service', () => ({
+  acrVersioningService: { createVersion: vi.fn() },
+}));
+
+const PRODUCT_INFO: ProductInfo = {
+  name: 'Sample Title',
+  version: '1.0.0',
+  description: 'Sample EPUB',
+  vendor: 'Test Publisher',
+  contactEmail: 'test@example.com',
+  evaluationDate: new Date('2026-10-19'),
+};
+
+const THIRD_PARTY_REPORT = `
+title: Vendor Reader Accessibility Conformance Report
+product:
+  name: Vendor Reader
+  version: 3.1
+vendor:
+  company_name: Vendor Inc.
+  email: a11y@vendor.example
+report_date: 2025-03-01
+catalog: 2.4-edition-wcag-2.1-508-en
+chapters:
+  success_criteria_level_a:
+    criteria:
+      - num: 1.1.1
+        components:
+          - name: web
+            adherence:
+              level: partially-supports
+              notes: Some icons lack text alternatives.
+          - name: electronic-docs
+            adherence:
+              level: supports
+              notes: All figures in the user guide have alt text.
+      - num: 4.1.1
+        components:
+          - name: web
+            adherence:
+              level: not-evaluated
+  functional_performance_criteria:
+    criteria:
+      - num: 302.1
+        components:
+          - name: none
+            adherence:
+              level: supports
+`;
+
+describe('OpenAcrService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('catalogs', () => {
+    it('names the catalog after the edition and WCAG version', () => {
+      expect(openAcrService.catalogFor('VPAT2.5-508', '2.0')).toBe('2.5-edition-wcag-2.0-508-en');
+      expect(openAcrService.catalogFor('VPAT2.5-WCAG', '2.2')).toBe('2.5-edition-wcag-2.2-en');
+    });
+
+    it('reads edition and WCAG version back from third-party catalog names', () => {
+      expect(openAcrService.parseCatalog('2.4-edition-wcag-2.1-508-en')).toEqual({ edition: 'VPAT2.5-508', wcagVersion: '2.1' });
+      expect(openAcrService.parseCatalog('2.5-edition-wcag-2.2-prh-uk-en')).toEqual({ edition: 'VPAT2.5-PRH-UK', wcagVersion: '2.2' });
+      expect(openAcrService.parseCatalog('2.4-edition-wcag-3.0-en')).toBeUndefined();
+    });
+  });
+
+  describe('export', () => {
+    it('groups criteria into level and EN chapters with adherence levels', async () => {
+      const acr = await acrGeneratorService.generateAcr('job-1', { edition: 'VPAT2.5-INT', productInfo: PRODUCT_INFO });
+      const report = openAcrService.toOpenAcr(acr);
+
+      expect(report.catalog).toBe('2.5-edition-wcag-2.2-int-en');
+      expect(Object.keys(report.chapters)).toEqual(expect.arrayContaining([
+        'success_criteria_level_a',
+        'success_criteria_level_aa',
+        'success_criteria_level_aaa',
+        'generic_requirements',
+      ]));
+      const parsing = report.chapters.success_criteria_level_a.criteria.find(c => c.num === '4.1.1');
+      expect(parsing?.components[0]).toMatchObject({ name: 'electronic-docs', adherence: { level: 'not-applicable' } });
+      expect(report.chapters.generic_requirements.criteria.map(c => c.num)).toContain('5.2');
+    });
+
+    it('round-trips through YAML and JSON', async () => {
+      const acr = await acrGeneratorService.generateAcr('job-1', { edition: 'VPAT2.5-EU', productInfo: PRODUCT_INFO });
+      const report = openAcrService.toOpenAcr(acr);
+
+      const fromYaml = openAcrService.parse(openAcrService.serialize(report, 'yaml'));
+      const fromJson = openAcrService.parse(openAcrService.serialize(report, 'json'));
+      expect(fromYaml).toEqual(fromJson);
+      expect(fromYaml.chapters.generic_requirements.criteria[0].num).toBe('5.2');
+
+      const conversion = await openAcrService.fromOpenAcr(fromYaml);
+      expect(conversion.edition).toBe('VPAT2.5-EU');
+      expect(conversion.wcagVersion).toBe('2.1');
+      expect(conversion.criteria).toHaveLength(acr.criteria.length);
+      expect(conversion.skipped).toEqual([]);
+    });
+
+    it('keeps report dates as strings in YAML output', async () => {
+      const acr = await acrGeneratorService.generateAcr('job-1', { edition: 'VPAT2.5-WCAG', productInfo: PRODUCT_INFO });
+      const text = openAcrService.serialize(openAcrService.toOpenAcr(acr), 'yaml');
+      const raw = yaml.load(text) as { report_date: unknown };
+      expect(text).toContain('report_date: \'2026-10-19\'');
+      expect(typeof raw.report_date).toBe('string');
+    });
+  });
+
+  describe('parse', () => {
+    it('rejects reports that fail schema validation', () => {
+      expect(() => openAcrService.parse('title: Missing everything\n')).toThrow(/schema validation.*catalog/);
+    });
+
+    it('rejects unknown adherence levels', () => {
+      const invalid = THIRD_PARTY_REPORT.replace('level: partially-supports', 'level: mostly');
+      expect(() => openAcrService.parse(invalid)).toThrow(/adherence\.level/);
+    });
+
+    it('rejects content that is not YAML or JSON', () => {
+      expect(() => openAcrService.parse('title: [unclosed')).toThrow(/not valid YAML or JSON/);
+    });
+  });
+
+  describe('importReport', () => {
+    it('creates an ACR job with reviews from the preferred component', async () => {
+      vi.mocked(prisma.job.create).mockResolvedValue({ id: 'job-import' } as never);
+      vi.mocked(prisma.acrJob.create).mockResolvedValue({ id: 'acr-import' } as never);
+
+      const result = await openAcrService.importReport(THIRD_PARTY_REPORT, 'tenant-1', 'user-1');
+
+      expect(result).toMatchObject({
+        jobId: 'job-import',
+        acrJobId: 'acr-import',
+        edition: 'VPAT2.5-508',
+        wcagVersion: '2.1',
+        criteriaCount: 2,
+        skipped: ['functional_performance_criteria/302.1'],
+      });
+      expect(prisma.$transaction).toHaveBeenCalledTimes(1);
+      expect(prisma.job.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ type: 'ACR_WORKFLOW', status: 'COMPLETED', completedAt: expect.any(Date) }),
+      });
+      expect(prisma.acrJob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          jobId: 'job-import',
+          edition: 'VPAT2.5-508',
+          wcagVersion: '2.1',
+          documentTitle: 'Vendor Reader',
+        }),
+      });
+
+      const rows = vi.mocked(prisma.acrCriterionReview.createMany).mock.calls[0][0].data as Array<Record<string, unknown>>;
+      expect(rows[0]).toMatchObject({
+        criterionId: '1.1.1',
+        criterionName: 'Non-text Content',
+        conformanceLevel: 'Supports',
+        reviewerNotes: 'All figures in the user guide have alt text.',
+      });
+      expect(rows[1]).toMatchObject({ criterionId: '4.1.1', conformanceLevel: null });
+      expect(acrVersioningService.createVersion).toHaveBeenCalledWith(
+        'acr-import',
+        expect.objectContaining({ edition: 'VPAT2.5-508', wcagVersion: '2.1' }),
+        'user-1',
+        'Imported from OpenACR (2.4-edition-wcag-2.1-508-en)'
+      );
+
+      // 4.1.1 was not evaluated: it is left out of the snapshot, not reported as Not Applicable
+      const snapshot = vi.mocked(acrVersioningService.createVersion).mock.calls[0][1];
+      expect(snapshot.criteria.map(c => [c.id, c.conformanceLevel])).toEqual([['1.1.1', 'Supports']]);
+    });
+
+    it('re-issues an imported report against the WCAG version of its catalog', async () => {
+      vi.mocked(prisma.job.create).mockResolvedValue({ id: 'job-import' } as never);
+      vi.mocked(prisma.acrJob.create).mockResolvedValue({ id: 'acr-import' } as never);
+
+      await openAcrService.importReport(
+        THIRD_PARTY_REPORT.replace('2.4-edition-wcag-2.1-508-en', '2.5-edition-wcag-2.1-int-en'),
+        'tenant-1',
+        'user-1'
+      );
+      const stored = vi.mocked(prisma.acrJob.create).mock.calls[0][0].data;
+
+      const wcagVersion = acrGeneratorService.getJobWcagVersion('VPAT2.5-INT', undefined, stored.wcagVersion);
+      const acr = await acrGeneratorService.generateAcr('job-import', { edition: 'VPAT2.5-INT', productInfo: PRODUCT_INFO, wcagVersion });
+
+      expect(wcagVersion).toBe('2.1');
+      expect(openAcrService.toOpenAcr(acr).catalog).toBe('2.5-edition-wcag-2.1-int-en');
+      expect(acrGeneratorService.getJobWcagVersion('VPAT2.5-INT', '2.2', stored.wcagVersion)).toBe('2.2');
+      expect(acrGeneratorService.getJobWcagVersion('VPAT2.5-INT', undefined, null)).toBe('2.2');
+    });
+
+    it('rejects catalogs it cannot map to an edition', async () => {
+      const unsupported = THIRD_PARTY_REPORT.replace('2.4-edition-wcag-2.1-508-en', 'custom-catalog');
+      await expect(openAcrService.importReport(unsupported, 'tenant-1', 'user-1')).rejects.toThrow(/Unsupported OpenACR catalog/);
+      expect(prisma.job.create).not.toHaveBeenCalled();
+    });
+  });
+});
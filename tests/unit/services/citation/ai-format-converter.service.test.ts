@@ -12,6 +12,15 @@ vi.mock('../../../../src/services/ai/claude.service', () => ({
   },
 }));
 
+// Tenant CSL styles are loaded through Prisma; built-in styles need no database
+vi.mock('../../../../src/lib/prisma', () => ({
+  default: {
+    citationStyleGuide: {
+      findUnique: vi.fn(),
+    },
+  },
+}));
+
 vi.mock('../../../../src/lib/logger', () => ({
   logger: {
     info: vi.fn(),
@@ -108,8 +117,41 @@ describe('AIFormatConverterService', () => {
 
       expect(result.targetStyle).toBe('APA');
       expect(result.convertedReferences).toHaveLength(1);
+      expect(result.convertedReferences[0].rawText).toBe(
+        'Smith, J. A., & Jones, B. C. (2020). Effect of treatment. *J Med Res*, *45*(3), 123–145.'
+      );
       expect(result.changes).toHaveLength(1);
-      expect(claudeService.generate).toHaveBeenCalled();
+      expect(result.citationConversions[0].newText).toBe('(Smith & Jones, 2020)');
+      // Structured references are formatted by CSL, without AI
+      expect(claudeService.generate).not.toHaveBeenCalled();
+    });
+
+    it('should render the same references identically on every run', async () => {
+      const references: ReferenceEntry[] = [
+        {
+          id: 'ref-1',
+          number: 1,
+          rawText: 'Smith, J. (2020). Study results. Nature, 580, 100-105.',
+          components: { authors: ['Smith, J.'], year: '2020', title: 'Study results', journal: 'Nature', volume: '580', pages: '100-105' }
+        },
+        {
+          id: 'ref-2',
+          number: 2,
+          rawText: 'Jones, A. (2019). Earlier work. Science, 365, 50-55.',
+          components: { authors: ['Jones, A.'], year: '2019', title: 'Earlier work', journal: 'Science', volume: '365', pages: '50-55' }
+        }
+      ];
+      const citations: InTextCitation[] = [
+        { id: 'cit-1', text: '(1,2)', numbers: [1, 2], format: 'parenthesis' }
+      ];
+
+      const first = await aiFormatConverterService.convertStyle(references, citations, 'IEEE');
+      const second = await aiFormatConverterService.convertStyle(references, citations, 'IEEE');
+
+      expect(first.convertedReferences.map(r => r.rawText)).toEqual(second.convertedReferences.map(r => r.rawText));
+      expect(first.convertedReferences[0].rawText).toBe('J. Smith, “Study results,” *Nature*, vol. 580, pp. 100–105, 2020.');
+      expect(first.citationConversions[0].newText).toBe('[1], [2]');
+      expect(claudeService.generate).not.toHaveBeenCalled();
     });
 
     it('should convert author-year citations to numeric style (Vancouver)', async () => {
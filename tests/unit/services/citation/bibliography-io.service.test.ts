@@ -0,0 +1,334 @@
+/**
+ * Bibliography IO Service Tests
+ *
+ * Tests for BibTeX, RIS and CSL-JSON reading/writing and for importing
+ * reference lists linked to in-text citations
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../../src/lib/prisma', () => {
+  const client = {
+    referenceListEntry: {
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      deleteMany: vi.fn(),
+    },
+    referenceListEntryCitation: {
+      createMany: vi.fn(),
+    },
+    citation: {
+      findMany: vi.fn(),
+    },
+    $transaction: vi.fn(),
+  };
+  client.$transaction.mockImplementation((fn: (tx: typeof client) => Promise<unknown>) => fn(client));
+  return { default: client };
+});
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../../../../src/services/citation/reference-list.service', () => ({
+  referenceListService: {
+    generateSortKey: vi.fn(({ authors, year }: { authors: Array<{ lastName: string }>; year?: string }) =>
+      `${authors[0]?.lastName.toLowerCase() ?? 'unknown'}_${year ?? '0000'}`),
+  },
+}));
+
+import prisma from '../../../../src/lib/prisma';
+import {
+  bibliographyIoService,
+  decodeLatex,
+  parseBibtex,
+  parseCslJson,
+  parseRis,
+  serializeBibtex,
+  serializeCslJson,
+  serializeRis,
+} from '../../../../src/services/citation/bibliography-io';
+
+const BIBTEX = `
+@string{jmr = "Journal of Medical Research"}
+
+@article{smith2020,
+  author  = {Smith, John A. and Jones, Beth C.},
+  title   = {Effect of {MRI} on caf\\'{e} workers},
+  journal = jmr,
+  year    = 2020,
+  month   = mar,
+  volume  = {45},
+  number  = {3},
+  pages   = {123--145},
+  doi     = {10.1000/jmr.2020.45}
+}
+
+@book{who2019,
+  author    = {{World Health Organization}},
+  title     = "Global report",
+  publisher = {WHO Press},
+  address   = {Geneva},
+  year      = {2019}
+}
+`;
+
+const RIS = `TY  - JOUR
+AU  - Smith, John A.
+AU  - Jones, Beth C.
+TI  - Effect of treatment
+T2  - Journal of Medical Research
+PY  - 2020
+VL  - 45
+IS  - 3
+SP  - 123
+EP  - 145
+SN  - 1234-5678
+DO  - https://doi.org/10.1000/jmr.2020.45
+ER  -
+
+TY  - BOOK
+AU  - Lee, Anna
+TI  - A long book title
+PB  - Academic Press
+PY  - 2019
+SN  - 978-0-12-345678-9
+ER  -
+`;
+
+describe('bibliography formats', () => {
+  describe('BibTeX', () => {
+    it('should parse entries, macros, names and LaTeX', () => {
+      const [article, book] = parseBibtex(BIBTEX);
+
+      expect(article).toMatchObject({
+        id: 'smith2020',
+        type: 'article-journal',
+        title: 'Effect of MRI on café workers',
+        'container-title': 'Journal of Medical Research',
+        issued: { 'date-parts': [[2020, 3]] },
+        volume: '45',
+        issue: '3',
+        page: '123-145',
+        DOI: '10.1000/jmr.2020.45',
+      });
+      expect(article.author).toEqual([
+        { family: 'Smith', given: 'John A.' },
+        { family: 'Jones', given: 'Beth C.' },
+      ]);
+      expect(book).toMatchObject({
+        type: 'book',
+        author: [{ literal: 'World Health Organization' }],
+        publisher: 'WHO Press',
+        'publisher-place': 'Geneva',
+      });
+    });
+
+    it('should decode LaTeX accents and escapes', () => {
+      expect(decodeLatex('M\\"{u}ller \\& Sons --- \\textit{Stra\\ss e}')).toBe('Müller & Sons — Straße');
+    });
+
+    it('should round-trip through serializeBibtex', () => {
+      const items = parseBibtex(BIBTEX);
+      const reparsed = parseBibtex(serializeBibtex(items));
+
+      expect(reparsed.map(item => item.title)).toEqual(items.map(item => item.title));
+      expect(reparsed[0].author).toEqual(items[0].author);
+      expect(reparsed[1].author).toEqual([{ literal: 'World Health Organization' }]);
+    });
+
+    it('should reject input without entries', () => {
+      expect(() => parseBibtex('just some text')).toThrow(expect.objectContaining({ code: 'INVALID_BIBTEX' }));
+    });
+  });
+
+  describe('RIS', () => {
+    it('should parse records with pages, DOI and ISSN/ISBN', () => {
+      const [article, book] = parseRis(RIS);
+
+      expect(article).toMatchObject({
+        type: 'article-journal',
+        title: 'Effect of treatment',
+        page: '123-145',
+        DOI: '10.1000/jmr.2020.45',
+        ISSN: '1234-5678',
+      });
+      expect(article.author?.[0]).toEqual({ family: 'Smith', given: 'John A.' });
+      expect(book).toMatchObject({ type: 'book', ISBN: '978-0-12-345678-9', publisher: 'Academic Press' });
+    });
+
+    it('should round-trip through serializeRis', () => {
+      const items = parseRis(RIS);
+      const output = serializeRis(items);
+
+      expect(output).toContain('TY  - JOUR');
+      expect(output).toContain('SP  - 123');
+      expect(output).toContain('EP  - 145');
+      expect(parseRis(output).map(item => item.title)).toEqual(['Effect of treatment', 'A long book title']);
+    });
+  });
+
+  describe('CSL-JSON', () => {
+    it('should accept arrays and map unknown types', () => {
+      const items = parseCslJson(JSON.stringify([
+        { id: 1, type: 'dataset', title: 'Data', author: [{ family: 'Doe', given: 'J' }], issued: { 'date-parts': [['2021']] } },
+      ]));
+
+      expect(items).toEqual([{
+        id: '1',
+        type: 'article',
+        title: 'Data',
+        author: [{ family: 'Doe', given: 'J' }],
+        issued: { 'date-parts': [[2021]] },
+      }]);
+      expect(parseCslJson(serializeCslJson(items))).toEqual(items);
+    });
+
+    it('should reject invalid JSON', () => {
+      expect(() => parseCslJson('{ not json')).toThrow(expect.objectContaining({ code: 'INVALID_CSL_JSON' }));
+    });
+  });
+});
+
+describe('BibliographyIoService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    let nextId = 0;
+    vi.mocked(prisma.referenceListEntry.create).mockImplementation((async () => ({ id: `new-${++nextId}` })) as never);
+    vi.mocked(prisma.referenceListEntryCitation.createMany).mockResolvedValue({ count: 0 } as never);
+  });
+
+  describe('detectFormat', () => {
+    it('should detect the format from the file name or content', () => {
+      expect(bibliographyIoService.detectFormat('', 'refs.bib')).toBe('bibtex');
+      expect(bibliographyIoService.detectFormat(RIS)).toBe('ris');
+      expect(bibliographyIoService.detectFormat(BIBTEX)).toBe('bibtex');
+      expect(bibliographyIoService.detectFormat('[{"id":"a"}]')).toBe('csl-json');
+      expect(() => bibliographyIoService.detectFormat('plain text')).toThrow(
+        expect.objectContaining({ code: 'UNSUPPORTED_BIBLIOGRAPHY_FORMAT' })
+      );
+    });
+  });
+
+  describe('importReferences', () => {
+    it('should replace the list and link numeric citations by reference number', async () => {
+      vi.mocked(prisma.referenceListEntry.findMany).mockResolvedValue([] as never);
+      vi.mocked(prisma.citation.findMany).mockResolvedValue([
+        { id: 'c1', rawText: '[1]' },
+        { id: 'c2', rawText: '[1, 2]' },
+        { id: 'c3', rawText: '[5]' },
+      ] as never);
+
+      const result = await bibliographyIoService.importReferences('doc-1', RIS, { mode: 'replace' });
+
+      expect(prisma.referenceListEntry.deleteMany).toHaveBeenCalledWith({ where: { documentId: 'doc-1' } });
+      expect(prisma.referenceListEntry.create).toHaveBeenNthCalledWith(1, {
+        data: expect.objectContaining({
+          documentId: 'doc-1',
+          sortKey: '0001',
+          title: 'Effect of treatment',
+          sourceType: 'journal_article',
+          authors: [{ firstName: 'John A.', lastName: 'Smith' }, { firstName: 'Beth C.', lastName: 'Jones' }],
+          pages: '123-145',
+          doi: '10.1000/jmr.2020.45',
+          enrichmentSource: 'import',
+        }),
+      });
+      expect(prisma.referenceListEntryCitation.createMany).toHaveBeenCalledWith({
+        data: [
+          { citationId: 'c1', referenceListEntryId: 'new-1' },
+          { citationId: 'c2', referenceListEntryId: 'new-1' },
+          { citationId: 'c2', referenceListEntryId: 'new-2' },
+        ],
+        skipDuplicates: true,
+      });
+      expect(result).toMatchObject({
+        format: 'ris',
+        mode: 'replace',
+        imported: 2,
+        created: 2,
+        updated: 0,
+        linkedCitations: 2,
+        unlinkedCitations: 1,
+      });
+    });
+
+    it('should merge with existing entries and link author-year citations', async () => {
+      vi.mocked(prisma.referenceListEntry.findMany).mockResolvedValue([
+        {
+          id: 'existing-1',
+          sortKey: '0001',
+          doi: 'https://doi.org/10.1000/JMR.2020.45',
+          title: 'Effect of treatment (draft)',
+          year: '2020',
+          authors: [{ lastName: 'Smith' }],
+          citationLinks: [],
+        },
+      ] as never);
+      vi.mocked(prisma.citation.findMany).mockResolvedValue([
+        { id: 'c1', rawText: '(Smith & Jones, 2020; Lee, 2019)' },
+      ] as never);
+
+      const result = await bibliographyIoService.importReferences('doc-1', RIS);
+
+      expect(prisma.referenceListEntry.deleteMany).not.toHaveBeenCalled();
+      expect(prisma.referenceListEntry.update).toHaveBeenCalledWith({
+        where: { id: 'existing-1' },
+        data: expect.objectContaining({ title: 'Effect of treatment', formattedApa: null }),
+      });
+      expect(prisma.referenceListEntry.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ sortKey: '0002', title: 'A long book title', sourceType: 'book' }),
+      });
+      expect(prisma.referenceListEntryCitation.createMany).toHaveBeenCalledWith({
+        data: [
+          { citationId: 'c1', referenceListEntryId: 'existing-1' },
+          { citationId: 'c1', referenceListEntryId: 'new-1' },
+        ],
+        skipDuplicates: true,
+      });
+      expect(result).toMatchObject({ created: 1, updated: 1, linkedCitations: 1 });
+    });
+  });
+
+  describe('exportReferences', () => {
+    it('should serialize the reference list in sort order', async () => {
+      vi.mocked(prisma.referenceListEntry.findMany).mockResolvedValue([
+        {
+          id: 'r1',
+          sortKey: '0001',
+          authors: [{ firstName: 'John A.', lastName: 'Smith' }],
+          year: '2020',
+          title: 'Effect of treatment',
+          sourceType: 'journal_article',
+          journalName: 'Journal of Medical Research',
+          volume: '45',
+          issue: '3',
+          pages: '123-145',
+          publisher: null,
+          doi: '10.1000/jmr.2020.45',
+          url: null,
+        },
+      ] as never);
+
+      const result = await bibliographyIoService.exportReferences('doc-1', 'csl-json');
+
+      expect(prisma.referenceListEntry.findMany).toHaveBeenCalledWith({
+        where: { documentId: 'doc-1' },
+        orderBy: { sortKey: 'asc' },
+      });
+      expect(result.count).toBe(1);
+      expect(JSON.parse(result.content)).toEqual([expect.objectContaining({
+        id: 'r1',
+        type: 'article-journal',
+        author: [{ family: 'Smith', given: 'John A.' }],
+        title: 'Effect of treatment',
+        DOI: '10.1000/jmr.2020.45',
+      })]);
+    });
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * CSL Formatter Service Tests
+ *
+ * Tests for deterministic reference and in-text citation formatting with
+ * the built-in CSL styles and tenant-uploaded CSL files
+ */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../../src/lib/prisma', () => ({
+  default: {
+    citationStyleGuide: {
+      findMany: vi.fn(),
+      findUnique: vi.fn(),
+      upsert: vi.fn(),
+      delete: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+import prisma from '../../../../src/lib/prisma';
+import {
+  cslFormatterService,
+  formatPageRange,
+  parseCslStyle,
+  parseNameString,
+  referenceEntryToCslItem,
+  type CslCitationCluster,
+  type CslItem,
+} from '../../../../src/services/citation/csl';
+
+const items: CslItem[] = [
+  {
+    id: 'smith-a',
+    type: 'article-journal',
+    author: [{ family: 'Smith', given: 'John Alan' }, { family: 'Doe', given: 'Jane' }],
+    issued: { 'date-parts': [[2020, 3]] },
+    title: 'Effects of treatment on outcomes',
+    'container-title': 'Journal of Medical Research',
+    volume: '45',
+    issue: '3',
+    page: '123-145',
+    DOI: '10.1234/jmr.2020',
+  },
+  {
+    id: 'marcus',
+    type: 'book',
+    author: [{ family: 'Marcus', given: 'Gary' }, { family: 'Davis', given: 'Ernest' }, { family: 'Lee', given: 'K.' }],
+    issued: { 'date-parts': [[2019]] },
+    title: 'Rebooting AI: Building artificial intelligence we can trust',
+    publisher: 'Pantheon Books',
+    'publisher-place': 'New York',
+    edition: '2',
+  },
+  {
+    id: 'lee',
+    type: 'chapter',
+    author: [{ family: 'Lee', given: 'Kim' }],
+    editor: [{ family: 'Brown', given: 'Pat' }],
+    issued: { 'date-parts': [[2021]] },
+    title: 'Neural networks',
+    'container-title': 'Handbook of AI',
+    publisher: 'Springer',
+    page: '10-25',
+  },
+  {
+    id: 'smith-b',
+    type: 'article-journal',
+    author: [{ family: 'Smith', given: 'John Alan' }, { family: 'Doe', given: 'Jane' }],
+    issued: { 'date-parts': [[2020]] },
+    title: 'A second study?',
+    'container-title': 'Nature',
+    volume: '1',
+    page: '5',
+  },
+  {
+    id: 'who',
+    type: 'webpage',
+    author: [{ literal: 'World Health Organization' }],
+    issued: { 'date-parts': [[2022, 5, 1]] },
+    title: 'Fact sheet',
+    'container-title': 'WHO',
+    URL: 'https://who.int/x',
+  },
+];
+
+const clusters: CslCitationCluster[] = [
+  { id: 'c1', items: [{ id: 'marcus' }] },
+  { id: 'c2', items: [{ id: 'smith-a', locator: '130' }, { id: 'smith-b' }] },
+  { id: 'c3', items: [{ id: 'smith-a' }, { id: 'marcus' }, { id: 'lee' }] },
+  { id: 'c4', items: [{ id: 'lee' }] },
+  { id: 'c5', items: [{ id: 'lee', locator: '12' }] },
+  { id: 'c6', items: [{ id: 'who' }], mode: 'narrative' },
+];
+
+const texts = (entries: Array<{ text: string }>) => entries.map(entry => entry.text);
+
+describe('CslFormatterService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('built-in styles', () => {
+    it('should format an APA bibliography with year suffixes for same author-year', async () => {
+      const bibliography = await cslFormatterService.formatBibliography('APA', items, { clusters });
+
+      expect(bibliography.hangingIndent).toBe(true);
+      expect(texts(bibliography.entries)).toEqual([
+        'Lee, K. (2021). Neural networks. In P. Brown (Ed.), *Handbook of AI* (pp. 10–25). Springer.',
+        'Marcus, G., Davis, E., & Lee, K. (2019). *Rebooting AI: Building artificial intelligence we can trust* (2nd ed.). Pantheon Books.',
+        'Smith, J. A., & Doe, J. (2020a). A second study? *Nature*, *1*, 5.',
+        'Smith, J. A., & Doe, J. (2020b). Effects of treatment on outcomes. *Journal of Medical Research*, *45*(3), 123–145. https://doi.org/10.1234/jmr.2020',
+        'World Health Organization. (2022). *Fact sheet*. https://who.int/x',
+      ]);
+    });
+
+    it('should format APA author-date citations, including narrative citations', async () => {
+      const citations = await cslFormatterService.formatCitations('APA', items, clusters);
+
+      expect(texts(citations)).toEqual([
+        '(Marcus et al., 2019)',
+        '(Smith & Doe, 2020a; Smith & Doe, 2020b, p. 130)',
+        '(Lee, 2021; Marcus et al., 2019; Smith & Doe, 2020b)',
+        '(Lee, 2021)',
+        '(Lee, 2021, p. 12)',
+        'World Health Organization (2022)',
+      ]);
+      expect(citations[0].clusterId).toBe('c1');
+    });
+
+    it('should number Vancouver references by first citation', async () => {
+      const bibliography = await cslFormatterService.formatBibliography('Vancouver', items, { clusters });
+      const citations = await cslFormatterService.formatCitations('Vancouver', items, clusters);
+
+      expect(texts(bibliography.entries)).toEqual([
+        '1. Marcus G, Davis E, Lee K. Rebooting AI: Building artificial intelligence we can trust. 2nd ed. New York: Pantheon Books; 2019.',
+        '2. Smith JA, Doe J. Effects of treatment on outcomes. Journal of Medical Research. 2020;45(3):123-45. doi:10.1234/jmr.2020',
+        '3. Smith JA, Doe J. A second study? Nature. 2020;1:5.',
+        '4. Lee K. Neural networks. In: Brown P, editor. Handbook of AI. Springer; 2021. p. 10-25.',
+        '5. World Health Organization. Fact sheet. 2022. Available from: https://who.int/x',
+      ]);
+      expect(texts(citations)).toEqual(['(1)', '(2, 3)', '(1, 2, 4)', '(4)', '(4)', '(5)']);
+    });
+
+    it('should bracket each IEEE citation with its locator', async () => {
+      const citations = await cslFormatterService.formatCitations('IEEE', items, clusters);
+
+      expect(texts(citations).slice(0, 3)).toEqual(['[1]', '[2, p. 130], [3]', '[1], [2], [4]']);
+    });
+
+    it('should keep the item order numbering when requested', async () => {
+      const citations = await cslFormatterService.formatCitations('IEEE', items, [{ items: [{ id: 'who' }] }], {
+        numberByItemOrder: true,
+      });
+
+      expect(citations[0].text).toBe('[5]');
+    });
+
+    it('should render Chicago notes with ibid. and short forms', async () => {
+      const notes = await cslFormatterService.formatCitations('Chicago', items, clusters);
+
+      expect(notes.map(note => note.noteNumber)).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(notes[0].marker).toBe('¹');
+      expect(notes[0].text).toBe(
+        'Gary Marcus, Ernest Davis, and K. Lee, *Rebooting AI: Building artificial intelligence we can trust* (New York: Pantheon Books, 2019).'
+      );
+      expect(notes[3].text).toBe('Lee, “Neural networks.”');
+      expect(notes[4].text).toBe('Ibid., 12.');
+    });
+
+    it('should substitute repeated Chicago bibliography authors with a dash', async () => {
+      const bibliography = await cslFormatterService.formatBibliography('Chicago', items);
+
+      expect(bibliography.entries[3].text).toBe(
+        '———. “Effects of treatment on outcomes.” *Journal of Medical Research* 45, no. 3 (2020): 123–45. https://doi.org/10.1234/jmr.2020.'
+      );
+    });
+
+    it('should use single quotes and keep punctuation outside them for Harvard', async () => {
+      const bibliography = await cslFormatterService.formatBibliography('Harvard', items, { clusters });
+
+      expect(bibliography.entries[0].text).toBe(
+        'Lee, K. (2021) ‘Neural networks’, in Brown, P. (ed.) *Handbook of AI*. Springer, pp. 10–25.'
+      );
+    });
+
+    it('should format MLA author-page citations', async () => {
+      const citations = await cslFormatterService.formatCitations('MLA', items, clusters);
+
+      expect(citations[1].text).toBe('(Smith and Doe 130; Smith and Doe)');
+      expect(citations[4].text).toBe('(Lee 12)');
+    });
+
+    it('should resolve style aliases and reject unknown styles', () => {
+      expect(cslFormatterService.getBuiltInProcessor('apa7').title).toContain('American Psychological Association');
+      expect(cslFormatterService.getBuiltInProcessor('chicago-note').citationFormat).toBe('note');
+      expect(() => cslFormatterService.getBuiltInProcessor('klingon')).toThrow('Unsupported citation style');
+    });
+
+    it('should produce identical output on repeated runs', async () => {
+      const first = await cslFormatterService.formatBibliography('AMA', items, { clusters });
+      const second = await cslFormatterService.formatBibliography('AMA', [...items].reverse(), { clusters });
+
+      expect(texts(second.entries)).toEqual(texts(first.entries));
+    });
+  });
+
+  describe('formatEntry', () => {
+    it('should omit citation numbers for a single stored entry', () => {
+      const processor = cslFormatterService.getBuiltInProcessor('Vancouver');
+
+      expect(cslFormatterService.formatEntry(processor, items[3])).toBe('Smith JA, Doe J. A second study? Nature. 2020;1:5.');
+    });
+  });
+
+  describe('tenant styles', () => {
+    const minimalStyle = `<?xml version="1.0" encoding="utf-8"?>
+<style xmlns="http://purl.org/net/xbiblio/csl" class="in-text" version="1.0">
+  <info>
+    <title>House Style</title>
+    <id>http://example.com/styles/house-style</id>
+  </info>
+  <citation>
+    <layout prefix="&lt;" suffix="&gt;" delimiter="; ">
+      <names variable="author"><name form="short"/></names>
+    </layout>
+  </citation>
+  <bibliography>
+    <layout>
+      <names variable="author"><name name-as-sort-order="all"/></names>
+      <text variable="title" prefix=": "/>
+    </layout>
+  </bibliography>
+</style>`;
+
+    it('should validate and store an uploaded style under a tenant code', async () => {
+      const now = new Date('2026-10-19T00:00:00Z');
+      vi.mocked(prisma.citationStyleGuide.upsert).mockImplementation((async (args: { create: Record<string, unknown> }) => ({
+        ...args.create,
+        createdAt: now,
+        updatedAt: now,
+      })) as never);
+
+      const style = await cslFormatterService.uploadTenantStyle('tenant-1', minimalStyle);
+
+      expect(style.code).toBe('tenant-1:house-style');
+      expect(style.name).toBe('House Style');
+      const upsert = vi.mocked(prisma.citationStyleGuide.upsert).mock.calls[0][0];
+      expect(upsert.create).toMatchObject({ isSystem: false, tenantId: 'tenant-1', cslXml: minimalStyle });
+    });
+
+    it('should format with a stored tenant style', async () => {
+      vi.mocked(prisma.citationStyleGuide.findUnique).mockResolvedValue({
+        code: 'tenant-1:house-style',
+        cslXml: minimalStyle,
+        updatedAt: new Date('2026-10-19T00:00:00Z'),
+      } as never);
+
+      const citations = await cslFormatterService.formatCitations(
+        'tenant-1:house-style',
+        items,
+        [{ items: [{ id: 'lee' }] }],
+        { tenantId: 'tenant-1' }
+      );
+
+      expect(citations[0].text).toBe('<Lee>');
+    });
+
+    it("should not resolve another tenant's style", async () => {
+      await expect(
+        cslFormatterService.getProcessor('tenant-2:house-style', 'tenant-1')
+      ).rejects.toMatchObject({ statusCode: 404, code: 'CSL_STYLE_NOT_FOUND' });
+      expect(prisma.citationStyleGuide.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should reject documents that are not CSL styles', async () => {
+      await expect(
+        cslFormatterService.uploadTenantStyle('tenant-1', '<html><body>nope</body></html>')
+      ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_CSL_STYLE' });
+      await expect(
+        cslFormatterService.uploadTenantStyle('tenant-1', minimalStyle.replace(/<citation>[\s\S]*<\/citation>/, ''))
+      ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_CSL_STYLE' });
+      expect(prisma.citationStyleGuide.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('parseCslStyle', () => {
+    it('should read the citation format and class', () => {
+      const style = parseCslStyle(`<style xmlns="http://purl.org/net/xbiblio/csl" class="note" version="1.0">
+  <info><title>Notes</title><category citation-format="note"/></info>
+  <citation><layout><text variable="title"/></layout></citation>
+</style>`);
+
+      expect(style.class).toBe('note');
+      expect(style.citationFormat).toBe('note');
+      expect(style.bibliography).toBeUndefined();
+    });
+  });
+
+  describe('mapping', () => {
+    it('should parse free-text author names', () => {
+      expect(parseNameString('Smith, J. A.')).toEqual({ family: 'Smith', given: 'J. A.' });
+      expect(parseNameString('Smith JA')).toEqual({ family: 'Smith', given: 'J. A.' });
+      expect(parseNameString('John A. Smith')).toEqual({ family: 'Smith', given: 'John A.' });
+      expect(parseNameString('van der Berg, Anna')).toEqual({
+        'non-dropping-particle': 'van der',
+        family: 'Berg',
+        given: 'Anna',
+      });
+      expect(parseNameString('World Health Organization')).toEqual({ literal: 'World Health Organization' });
+    });
+
+    it('should map reference list entries to CSL items', () => {
+      const item = referenceEntryToCslItem({
+        id: 'ref-1',
+        authors: [{ firstName: 'Jane', lastName: 'Doe' }],
+        year: '2021',
+        title: 'A title',
+        sourceType: 'journal',
+        journalName: 'Journal',
+        volume: '3',
+        issue: undefined,
+        pages: '1-9',
+        publisher: undefined,
+        doi: 'https://doi.org/10.1/abc',
+        url: undefined,
+      });
+
+      expect(item).toEqual({
+        id: 'ref-1',
+        type: 'article-journal',
+        author: [{ family: 'Doe', given: 'Jane' }],
+        issued: { 'date-parts': [[2021]] },
+        title: 'A title',
+        'container-title': 'Journal',
+        volume: '3',
+        page: '1-9',
+        DOI: '10.1/abc',
+      });
+    });
+  });
+
+  describe('formatPageRange', () => {
+    it('should apply the CSL page range formats', () => {
+      expect(formatPageRange('123-145', 'expanded')).toBe('123–145');
+      expect(formatPageRange('123-145', 'minimal')).toBe('123–45');
+      expect(formatPageRange('101-108', 'minimal-two')).toBe('101–08');
+      expect(formatPageRange('321-328', 'chicago')).toBe('321–28');
+      expect(formatPageRange('e123', 'minimal')).toBe('e123');
+    });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * Field Codes Tests
+ *
+ * Tests for reading Zotero / Mendeley / EndNote citation fields in
+ * WordprocessingML and keeping them consistent with citation edits
+ */
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../../../src/lib/prisma', () => ({ default: {} }));
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+import {
+  findDocxFields,
+  findReferenceManagerFields,
+  readFieldCitation,
+  reconcileReferenceManagerFields,
+  unlinkDocxFields,
+} from '../../../../src/services/citation/field-codes';
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+function complexField(instruction: string, result: string, fldData?: string): string {
+  // Long instructions are split over several w:instrText runs, as Word does
+  const chunks = instruction.match(/[\s\S]{1,60}/g) ?? [];
+  const begin = fldData
+    ? `<w:fldChar w:fldCharType="begin"><w:fldData xml:space="preserve">${fldData}</w:fldData></w:fldChar>`
+    : '<w:fldChar w:fldCharType="begin"/>';
+  return `<w:r>${begin}</w:r>` +
+    chunks.map(chunk => `<w:r><w:instrText xml:space="preserve">${escapeXml(chunk)}</w:instrText></w:r>`).join('') +
+    '<w:r><w:fldChar w:fldCharType="separate"/></w:r>' +
+    `<w:r><w:t>${escapeXml(result)}</w:t></w:r>` +
+    '<w:r><w:fldChar w:fldCharType="end"/></w:r>';
+}
+
+const paragraph = (content: string) => `<w:p><w:r><w:t xml:space="preserve">Text </w:t></w:r>${content}<w:r><w:t>.</w:t></w:r></w:p>`;
+
+const ZOTERO_INSTRUCTION = 'ADDIN ZOTERO_ITEM CSL_CITATION ' + JSON.stringify({
+  citationID: 'abc',
+  properties: { formattedCitation: '(Smith & Jones, 2020)', plainCitation: '(Smith & Jones, 2020)', noteIndex: 0 },
+  citationItems: [{
+    id: 12,
+    uris: ['http://zotero.org/users/1/items/ABCD1234'],
+    itemData: {
+      id: 12,
+      type: 'article-journal',
+      title: 'Effect of treatment',
+      'container-title': 'Journal of Medical Research',
+      author: [{ family: 'Smith', given: 'John A.' }, { family: 'Jones', given: 'Beth' }],
+      issued: { 'date-parts': [['2020', 3]] },
+      DOI: '10.1000/jmr.2020.45',
+    },
+  }],
+  schema: 'https://github.com/citation-style-language/schema/raw/master/csl-citation.json',
+});
+
+const MENDELEY_INSTRUCTION = 'ADDIN CSL_CITATION ' + JSON.stringify({
+  citationItems: [
+    { id: 'ITEM-1', uris: ['http://www.mendeley.com/documents/?uuid=1'], itemData: { id: 'ITEM-1', type: 'book', title: 'A book', author: [{ family: 'Lee', given: 'Anna' }], issued: { 'date-parts': [[2019]] } } },
+    { id: 'ITEM-2', uris: ['http://www.mendeley.com/documents/?uuid=2'], itemData: { id: 'ITEM-2', type: 'article-journal', title: 'A paper', author: [{ family: 'Park', given: 'Min' }], issued: { 'date-parts': [[2018]] } } },
+  ],
+  mendeley: { formattedCitation: '[2, 3]', plainTextFormattedCitation: '[2, 3]', previouslyFormattedCitation: '[2, 3]' },
+  properties: { noteIndex: 0 },
+});
+
+const ENDNOTE_XML = '<EndNote><Cite><Author>Garcia</Author><Year>2017</Year><RecNum>7</RecNum>' +
+  '<DisplayText>(Garcia, 2017)</DisplayText><record><rec-number>7</rec-number>' +
+  '<ref-type name="Book Section">5</ref-type><contributors><authors><author><style face="normal">Garcia, Maria</style></author></authors>' +
+  '<secondary-authors><author>World Health Organization,</author></secondary-authors></contributors>' +
+  '<titles><title>A chapter</title><secondary-title>The handbook</secondary-title></titles>' +
+  '<pages>10-20</pages><dates><year>2017</year></dates><publisher>Academic Press</publisher>' +
+  '<electronic-resource-num>doi: 10.1016/b978-0-12.00001-2</electronic-resource-num></record></Cite></EndNote>';
+
+describe('field codes', () => {
+  describe('findDocxFields', () => {
+    it('should read complex, nested and simple fields', () => {
+      const xml = paragraph(complexField('ADDIN EN.CITE', '(Garcia, 2017)')) +
+        '<w:p><w:fldSimple w:instr=" PAGE "><w:r><w:t>4</w:t></w:r></w:fldSimple></w:p>';
+
+      const fields = findDocxFields(xml);
+
+      expect(fields.map(field => [field.kind, field.instruction, field.resultText])).toEqual([
+        ['complex', 'ADDIN EN.CITE', '(Garcia, 2017)'],
+        ['simple', 'PAGE', '4'],
+      ]);
+    });
+
+    it('should pass nested field data to the enclosing field', () => {
+      const nested = complexField('ADDIN EN.CITE.DATA', '', 'QUJD');
+      const xml = '<w:p><w:r><w:fldChar w:fldCharType="begin"/></w:r>' +
+        '<w:r><w:instrText> ADDIN EN.CITE </w:instrText></w:r>' + nested +
+        '<w:r><w:fldChar w:fldCharType="separate"/></w:r><w:r><w:t>[1]</w:t></w:r>' +
+        '<w:r><w:fldChar w:fldCharType="end"/></w:r></w:p>';
+
+      const outer = findDocxFields(xml).find(field => field.instruction === 'ADDIN EN.CITE');
+
+      expect(outer?.data).toEqual(['QUJD']);
+      expect(outer?.resultText).toBe('[1]');
+    });
+
+    it('should keep the displayed text when unlinking', () => {
+      const xml = paragraph(complexField(ZOTERO_INSTRUCTION, '(Smith & Jones, 2020)'));
+
+      const unlinked = unlinkDocxFields(xml, findDocxFields(xml));
+
+      expect(unlinked).not.toContain('w:fldChar');
+      expect(unlinked).not.toContain('w:instrText');
+      expect(unlinked).toBe('<w:p><w:r><w:t xml:space="preserve">Text </w:t></w:r>' +
+        '<w:r><w:t>(Smith &amp; Jones, 2020)</w:t></w:r><w:r><w:t>.</w:t></w:r></w:p>');
+    });
+  });
+
+  describe('readFieldCitation', () => {
+    it('should read Zotero item data', () => {
+      const [entry] = findReferenceManagerFields(paragraph(complexField(ZOTERO_INSTRUCTION, '(Smith & Jones, 2020)')));
+
+      expect(entry).toMatchObject({ manager: 'zotero', role: 'citation' });
+      expect(readFieldCitation(entry)).toEqual({
+        manager: 'zotero',
+        displayText: '(Smith & Jones, 2020)',
+        items: [{
+          id: 'http://zotero.org/users/1/items/ABCD1234',
+          type: 'article-journal',
+          title: 'Effect of treatment',
+          'container-title': 'Journal of Medical Research',
+          author: [{ family: 'Smith', given: 'John A.' }, { family: 'Jones', given: 'Beth' }],
+          issued: { 'date-parts': [[2020, 3]] },
+          DOI: '10.1000/jmr.2020.45',
+        }],
+      });
+    });
+
+    it('should read Mendeley item data', () => {
+      const [entry] = findReferenceManagerFields(paragraph(complexField(MENDELEY_INSTRUCTION, '[2, 3]')));
+
+      const citation = readFieldCitation(entry);
+
+      expect(citation?.manager).toBe('mendeley');
+      expect(citation?.items.map(item => item.title)).toEqual(['A book', 'A paper']);
+    });
+
+    it('should read EndNote records inline and from field data', () => {
+      const inline = findReferenceManagerFields(paragraph(complexField(`ADDIN EN.CITE ${ENDNOTE_XML}`, '(Garcia, 2017)')));
+      const fromData = findReferenceManagerFields(paragraph(
+        complexField('ADDIN EN.CITE', '(Garcia, 2017)', Buffer.from(ENDNOTE_XML).toString('base64'))
+      ));
+
+      const expected = {
+        id: 'endnote-7',
+        type: 'chapter',
+        author: [{ family: 'Garcia', given: 'Maria' }],
+        editor: [{ literal: 'World Health Organization' }],
+        title: 'A chapter',
+        'container-title': 'The handbook',
+        page: '10-20',
+        issued: { 'date-parts': [[2017]] },
+        publisher: 'Academic Press',
+        DOI: '10.1016/b978-0-12.00001-2',
+      };
+      expect(readFieldCitation(inline[0])?.items).toEqual([expected]);
+      expect(readFieldCitation(fromData[0])?.items).toEqual([expected]);
+    });
+
+    it('should ignore bibliography and unrelated fields', () => {
+      const xml = paragraph(complexField('ADDIN ZOTERO_BIBL {"uncited":[]} CSL_BIBLIOGRAPHY', 'Smith, J. (2020)...')) +
+        paragraph(complexField('PAGEREF _Toc1 \\h', '3'));
+
+      const entries = findReferenceManagerFields(xml);
+
+      expect(entries.map(entry => entry.role)).toEqual(['bibliography']);
+      expect(readFieldCitation(entries[0])).toBeUndefined();
+    });
+  });
+
+  describe('reconcileReferenceManagerFields', () => {
+    const body = paragraph(complexField(MENDELEY_INSTRUCTION, '[2, 3]')) +
+      paragraph(complexField(ZOTERO_INSTRUCTION, '(Smith & Jones, 2020)'));
+
+    it('should keep fields linked and update their cached citation text', () => {
+      const result = reconcileReferenceManagerFields(body, { changed: new Map([['[2, 3]', '[1, 2]']]), removed: [] }, 'keep');
+
+      const [mendeley, zotero] = findReferenceManagerFields(result.xml);
+      expect(result).toMatchObject({ updated: 1, unlinked: 0 });
+      expect(JSON.parse(mendeley.field.instruction.slice(mendeley.field.instruction.indexOf('{'))).mendeley).toEqual({
+        formattedCitation: '[1, 2]',
+        plainTextFormattedCitation: '[1, 2]',
+        previouslyFormattedCitation: '[1, 2]',
+      });
+      expect(mendeley.field.resultText).toBe('[2, 3]');
+      expect(zotero.field.instruction).toBe(ZOTERO_INSTRUCTION);
+    });
+
+    it('should unlink fields whose citation is deleted', () => {
+      const result = reconcileReferenceManagerFields(body, { changed: new Map(), removed: ['(Smith & Jones, 2020)'] }, 'keep');
+
+      expect(result).toMatchObject({ updated: 0, unlinked: 1 });
+      expect(findReferenceManagerFields(result.xml).map(entry => entry.manager)).toEqual(['mendeley']);
+      expect(result.xml).toContain('<w:t>(Smith &amp; Jones, 2020)</w:t>');
+    });
+
+    it('should not match a citation inside a longer number', () => {
+      expect(reconcileReferenceManagerFields(body, { changed: new Map(), removed: ['3'] }, 'keep').unlinked).toBe(1);
+      expect(reconcileReferenceManagerFields(body, { changed: new Map(), removed: ['20'] }, 'keep').unlinked).toBe(0);
+    });
+
+    it('should unlink every field in unlink mode', () => {
+      const result = reconcileReferenceManagerFields(body, { changed: new Map(), removed: [] }, 'unlink');
+
+      expect(result.unlinked).toBe(2);
+      expect(findDocxFields(result.xml)).toEqual([]);
+      expect(result.xml).toContain('<w:t>[2, 3]</w:t>');
+    });
+  });
+});
@@ -0,0 +1,198 @@
+/**
+ * Metadata Resolver Service Tests
+ *
+ * Tests for the CrossRef / PubMed / Open Library resolver chain, run against
+ * recorded API responses in tests/fixtures/citation-metadata
+ */
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+vi.mock('../../../../src/lib/prisma', () => ({ default: {} }));
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+import {
+  extractReferenceIdentifiers,
+  metadataResolverService,
+  normalizeIsbn,
+  pubMedService,
+} from '../../../../src/services/citation/metadata-sources';
+import { doiVerifierService } from '../../../../src/services/citation/doi-verifier.service';
+
+const FIXTURES = join(__dirname, '../../../fixtures/citation-metadata');
+
+/** Answer requests whose URL matches a pattern with a recorded response; anything else is a 404 */
+function replay(routes: Array<[RegExp, string]>) {
+  mockFetch.mockImplementation(async (url: string) => {
+    const route = routes.find(([pattern]) => pattern.test(url));
+    if (!route) return { ok: false, status: 404, json: async () => ({}) };
+    const body = JSON.parse(readFileSync(join(FIXTURES, route[1]), 'utf8'));
+    return { ok: true, status: 200, json: async () => body };
+  });
+}
+
+const CROSSREF = [/api\.crossref\.org\/works\/10\.1056%2FNEJMoa2001017/, 'crossref-work-10.1056-nejmoa2001017.json'] as [RegExp, string];
+const PUBMED_SEARCH = [/esearch\.fcgi/, 'pubmed-esearch-31978945.json'] as [RegExp, string];
+const PUBMED_SUMMARY = [/esummary\.fcgi\?.*id=31978945/, 'pubmed-esummary-31978945.json'] as [RegExp, string];
+const OPEN_LIBRARY = [/openlibrary\.org\/api\/books\?bibkeys=ISBN%3A9780262033848/, 'openlibrary-isbn-9780262033848.json'] as [RegExp, string];
+
+const requestedUrls = () => mockFetch.mock.calls.map(([url]) => String(url));
+
+describe('reference identifiers', () => {
+  it('should validate ISBN check digits', () => {
+    expect(normalizeIsbn('978-0-262-03384-8')).toBe('9780262033848');
+    expect(normalizeIsbn('ISBN 0-8044-2957-x')).toBe('080442957X');
+    expect(normalizeIsbn('978-0-262-03384-9')).toBeUndefined();
+    expect(normalizeIsbn('../../admin')).toBeUndefined();
+  });
+
+  it('should extract identifiers from a formatted reference', () => {
+    expect(extractReferenceIdentifiers(
+      'Zhu N, Zhang D, Wang W, et al. N Engl J Med. 2020;382(8):727-733. doi:10.1056/NEJMoa2001017. PMID: 31978945; PMCID: PMC7092803.'
+    )).toEqual({ doi: '10.1056/NEJMoa2001017', pmid: '31978945', pmcid: 'PMC7092803' });
+    expect(extractReferenceIdentifiers('Cormen TH. Introduction to algorithms. MIT Press; 2009. ISBN 978-0-262-03384-8.'))
+      .toEqual({ isbn: '9780262033848' });
+  });
+});
+
+describe('PubMedService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should map an esummary record', async () => {
+    replay([PUBMED_SUMMARY]);
+
+    const result = await pubMedService.lookupByPmid('PMID: 31978945');
+
+    expect(result).toMatchObject({
+      title: 'A Novel Coronavirus from Patients with Pneumonia in China, 2019',
+      year: '2020',
+      journalName: 'The New England journal of medicine',
+      volume: '382',
+      issue: '8',
+      pages: '727-733',
+      doi: '10.1056/NEJMoa2001017',
+      pmid: '31978945',
+      pmcid: 'PMC7092803',
+      url: 'https://pubmed.ncbi.nlm.nih.gov/31978945/',
+      sourceType: 'journal',
+      source: 'pubmed',
+      confidence: 0.95,
+    });
+    expect(result?.authors).toEqual([
+      { firstName: 'N.', lastName: 'Zhu', suffix: undefined },
+      { firstName: 'D.', lastName: 'Zhang', suffix: undefined },
+      { firstName: 'W.', lastName: 'Wang', suffix: undefined },
+      { lastName: 'China Novel Coronavirus Investigating and Research Team' },
+    ]);
+    expect(result?.provenance?.pmcid).toEqual({ source: 'pubmed', confidence: 0.95 });
+    expect(requestedUrls()[0]).toContain('db=pubmed');
+    expect(requestedUrls()[0]).toContain('retmode=json');
+  });
+
+  it('should reject malformed identifiers without a request', async () => {
+    expect(await pubMedService.lookupByPmid('123abc')).toBeNull();
+    expect(await pubMedService.lookupByPmcid('PMC12x')).toBeNull();
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+});
+
+describe('MetadataResolverService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    metadataResolverService.clearCache();
+  });
+
+  it('should keep CrossRef as primary and fill PubMed identifiers with provenance', async () => {
+    replay([CROSSREF, PUBMED_SUMMARY]);
+
+    const result = await metadataResolverService.resolve({ doi: 'https://doi.org/10.1056/NEJMoa2001017', pmid: '31978945' });
+
+    expect(result).toMatchObject({
+      title: 'A Novel Coronavirus from Patients with Pneumonia in China, 2019',
+      journalName: 'New England Journal of Medicine',
+      publisher: 'Massachusetts Medical Society',
+      pmid: '31978945',
+      pmcid: 'PMC7092803',
+      source: 'crossref',
+    });
+    expect(result?.authors[0]).toEqual({ firstName: 'Na', lastName: 'Zhu', suffix: undefined });
+    expect(result?.provenance).toMatchObject({
+      title: { source: 'crossref' },
+      authors: { source: 'crossref' },
+      doi: { source: 'crossref' },
+      pmid: { source: 'pubmed' },
+      pmcid: { source: 'pubmed' },
+    });
+  });
+
+  it('should fall back to PubMed when CrossRef has no record for the DOI', async () => {
+    replay([PUBMED_SEARCH, PUBMED_SUMMARY]);
+
+    const result = await metadataResolverService.resolve({ doi: '10.1056/NEJMoa2001017' });
+
+    expect(result).toMatchObject({ source: 'pubmed', pmid: '31978945' });
+    expect(requestedUrls()).toHaveLength(3);
+    expect(requestedUrls()[1]).toContain(`term=${encodeURIComponent('10.1056/NEJMoa2001017[doi]')}`);
+  });
+
+  it('should resolve books by ISBN through Open Library', async () => {
+    replay([OPEN_LIBRARY]);
+
+    const book = await metadataResolverService.resolve({ isbn: '978-0-262-03384-8' });
+
+    expect(book).toMatchObject({
+      title: 'Introduction to algorithms',
+      year: '2009',
+      publisher: 'MIT Press',
+      isbn: '9780262033848',
+      sourceType: 'book',
+      source: 'openlibrary',
+      confidence: 0.9,
+    });
+    expect(book?.authors.map(author => author.lastName)).toEqual(['Cormen', 'Leiserson', 'Rivest', 'Stein']);
+    expect(book?.provenance?.isbn).toEqual({ source: 'openlibrary', confidence: 0.9 });
+  });
+
+  it('should cache lookups, including misses', async () => {
+    replay([CROSSREF]);
+
+    await metadataResolverService.resolve({ doi: '10.1056/NEJMoa2001017' });
+    await metadataResolverService.resolve({ doi: '10.1056/nejmoa2001017' });
+    await metadataResolverService.resolve({ isbn: '9780262033848' });
+    await metadataResolverService.resolve({ isbn: '9780262033848' });
+
+    expect(requestedUrls()).toHaveLength(2);
+  });
+});
+
+describe('DoiVerifierService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    metadataResolverService.clearCache();
+  });
+
+  it('should verify registered DOIs and reject malformed ones', async () => {
+    replay([CROSSREF]);
+
+    expect(await doiVerifierService.verifyDOI('doi:10.1056/NEJMoa2001017')).toMatchObject({
+      valid: true,
+      metadata: { source: 'crossref', doi: '10.1056/NEJMoa2001017' },
+    });
+    expect(await doiVerifierService.verifyDOI('not-a-doi')).toEqual({ valid: false, metadata: null });
+    expect(mockFetch).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,255 @@
+/**
+ * Reference Integrity Service Tests
+ *
+ * Tests for retraction / expression of concern / correction detection from
+ * CrossRef update notices and the Retraction Watch dataset
+ */
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+// Mock fetch globally
+const mockFetch = vi.fn();
+global.fetch = mockFetch;
+
+const {
+  mockEntryFindMany,
+  mockEntryUpdate,
+  mockNoticeFindMany,
+  mockNoticeDeleteMany,
+  mockNoticeCreateMany,
+  mockTransaction,
+} = vi.hoisted(() => ({
+  mockEntryFindMany: vi.fn(),
+  mockEntryUpdate: vi.fn(),
+  mockNoticeFindMany: vi.fn(),
+  mockNoticeDeleteMany: vi.fn(),
+  mockNoticeCreateMany: vi.fn(),
+  mockTransaction: vi.fn(),
+}));
+
+vi.mock('../../../../src/lib/prisma', () => ({
+  default: {
+    referenceListEntry: {
+      findMany: mockEntryFindMany,
+      update: mockEntryUpdate,
+    },
+    retractionNotice: {
+      findMany: mockNoticeFindMany,
+      deleteMany: mockNoticeDeleteMany,
+      createMany: mockNoticeCreateMany,
+    },
+    $transaction: mockTransaction,
+  },
+}));
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+import {
+  parseRetractionWatchCsv,
+  referenceIntegrityService,
+} from '../../../../src/services/citation/reference-integrity.service';
+import { retractedReferenceCheck } from '../../../../src/services/integrity/checks/retracted-reference.check';
+
+const FIXTURES = join(__dirname, '../../../fixtures/citation-metadata');
+const LANCET_UPDATES = JSON.parse(
+  readFileSync(join(FIXTURES, 'crossref-updates-10.1016-s0140-6736-20-31180-6.json'), 'utf8')
+);
+
+const LANCET_DOI = '10.1016/S0140-6736(20)31180-6';
+const LANCET_TITLE = 'Hydroxychloroquine or chloroquine with or without a macrolide for treatment of COVID-19: a multinational registry analysis';
+
+const HEADER = '"Record ID","Title","Journal","RetractionDate","RetractionDOI","RetractionPubMedID",' +
+  '"OriginalPaperDate","OriginalPaperDOI","OriginalPaperPubMedID","RetractionNature","Reason"';
+
+const CSV = [
+  HEADER,
+  `"29475","${LANCET_TITLE}","The Lancet","6/5/2020 0:00","10.1016/S0140-6736(20)31324-6","32511943",` +
+    `"5/22/2020 0:00","${LANCET_DOI}","32450107","Retraction","+Concerns/Issues About Data;+Concerns/Issues About Third Party Involvement;"`,
+  // Quoted title with a comma, escaped quotes and a line break
+  '"31000","A ""surprising"" result,\nrevisited","J Test","1/15/2021 0:00","","0","","unavailable","12345678","Correction","+Error in Table;"',
+  '"31001","Reinstated paper","J Test","2/1/2022 0:00","","0","","10.1234/reinstated","0","Reinstatement",""',
+  '"31002","No identifiers","J Test","2/1/2022 0:00","","0","","unavailable","0","Retraction",""',
+].join('\r\n');
+
+function entry(overrides: Record<string, unknown>) {
+  return {
+    id: 'entry',
+    sortKey: '0001',
+    title: 'Untitled',
+    doi: null,
+    url: null,
+    formattedApa: null,
+    formattedVancouver: null,
+    formattedChicago: null,
+    formattedMla: null,
+    formattedIeee: null,
+    ...overrides,
+  };
+}
+
+describe('parseRetractionWatchCsv', () => {
+  it('should read dataset rows, skipping reinstatements and rows without identifiers', () => {
+    const { records, skipped } = parseRetractionWatchCsv(CSV);
+
+    expect(skipped).toBe(2);
+    expect(records).toEqual([
+      {
+        recordId: '29475',
+        originalDoi: '10.1016/s0140-6736(20)31180-6',
+        originalPmid: '32450107',
+        noticeType: 'retraction',
+        noticeDoi: '10.1016/S0140-6736(20)31324-6',
+        noticeDate: new Date('2020-06-05T00:00:00Z'),
+        reason: 'Concerns/Issues About Data; Concerns/Issues About Third Party Involvement',
+      },
+      {
+        recordId: '31000',
+        originalDoi: undefined,
+        originalPmid: '12345678',
+        noticeType: 'correction',
+        noticeDoi: undefined,
+        noticeDate: new Date('2021-01-15T00:00:00Z'),
+        reason: 'Error in Table',
+      },
+    ]);
+  });
+
+  it('should reject files that are not the Retraction Watch dataset', () => {
+    expect(() => parseRetractionWatchCsv('title,doi\nA,10.1/x')).toThrow(/missing column/);
+  });
+});
+
+describe('ReferenceIntegrityService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockTransaction.mockImplementation(async (operations: unknown[]) => operations);
+    mockEntryUpdate.mockImplementation((args: unknown) => args);
+  });
+
+  it('should replace the imported dataset in one transaction', async () => {
+    const result = await referenceIntegrityService.importRetractionWatch(CSV);
+
+    expect(result).toEqual({ imported: 2, skipped: 2 });
+    expect(mockNoticeDeleteMany).toHaveBeenCalledWith({ where: { source: 'retraction-watch' } });
+    expect(mockNoticeCreateMany).toHaveBeenCalledTimes(1);
+    expect(mockNoticeCreateMany.mock.calls[0][0].data).toHaveLength(2);
+    expect(mockTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should combine CrossRef update notices with dataset records and store them on each entry', async () => {
+    mockEntryFindMany.mockResolvedValue([
+      entry({ id: 'lancet', sortKey: '0001', title: LANCET_TITLE, doi: LANCET_DOI }),
+      entry({ id: 'clean', sortKey: '0002', title: 'A sound study', doi: '10.5555/sound' }),
+      entry({
+        id: 'corrected',
+        sortKey: '0003',
+        title: 'A surprising result, revisited',
+        formattedVancouver: 'Doe J. A surprising result, revisited. J Test. 2020;1:1-2. PMID: 12345678.',
+      }),
+    ]);
+    mockNoticeFindMany.mockResolvedValue([
+      {
+        originalDoi: '10.1016/s0140-6736(20)31180-6',
+        originalPmid: '32450107',
+        noticeType: 'retraction',
+        noticeDoi: '10.1016/S0140-6736(20)31324-6',
+        noticeDate: new Date('2020-06-05T00:00:00Z'),
+        reason: 'Concerns/Issues About Data',
+      },
+      {
+        originalDoi: null,
+        originalPmid: '12345678',
+        noticeType: 'correction',
+        noticeDoi: null,
+        noticeDate: new Date('2021-01-15T00:00:00Z'),
+        reason: 'Error in Table',
+      },
+    ]);
+    mockFetch.mockImplementation(async (url: string) => ({
+      ok: true,
+      status: 200,
+      json: async () => (url.toLowerCase().includes(encodeURIComponent(`updates:${LANCET_DOI}`).toLowerCase())
+        ? LANCET_UPDATES
+        : { message: { items: [] } }),
+    }));
+
+    const flagged = await referenceIntegrityService.checkDocumentReferences('doc-1');
+
+    expect(mockNoticeFindMany).toHaveBeenCalledWith({
+      where: {
+        OR: [
+          { originalDoi: { in: ['10.1016/s0140-6736(20)31180-6', '10.5555/sound'] } },
+          { originalPmid: { in: ['12345678'] } },
+        ],
+      },
+    });
+    expect(flagged.map(reference => reference.entryId)).toEqual(['lancet', 'corrected']);
+    expect(flagged[0].notices).toEqual([
+      {
+        type: 'retraction',
+        date: '2020-06-05',
+        noticeDoi: '10.1016/S0140-6736(20)31324-6',
+        source: 'crossref',
+        label: 'Retraction',
+        reason: 'Concerns/Issues About Data',
+      },
+      {
+        type: 'expression-of-concern',
+        date: '2020-06-03',
+        noticeDoi: '10.1016/S0140-6736(20)31290-3',
+        source: 'crossref',
+        label: 'Expression of concern',
+      },
+    ]);
+    expect(flagged[1].notices).toEqual([
+      { type: 'correction', date: '2021-01-15', noticeDoi: undefined, source: 'retraction-watch', reason: 'Error in Table' },
+    ]);
+
+    // Every entry is marked as checked, including those without notices
+    expect(mockEntryUpdate).toHaveBeenCalledTimes(3);
+    expect(mockEntryUpdate.mock.calls[1][0]).toMatchObject({
+      where: { id: 'clean' },
+      data: { integrityNotices: [], integrityCheckedAt: expect.any(Date) },
+    });
+  });
+});
+
+describe('retractedReferenceCheck', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockTransaction.mockImplementation(async (operations: unknown[]) => operations);
+  });
+
+  it('should report one integrity issue per notice, located in the reference list', async () => {
+    const formatted = `Mehra MR, Desai SS, Ruschitzka F, Patel AN. ${LANCET_TITLE}. Lancet. 2020.`;
+    const text = `Introduction ...\n\nReferences\n1. ${formatted}\n`;
+    mockEntryFindMany.mockResolvedValue([
+      entry({ id: 'lancet', title: LANCET_TITLE, doi: LANCET_DOI, formattedVancouver: formatted }),
+    ]);
+    mockNoticeFindMany.mockResolvedValue([]);
+    mockFetch.mockResolvedValue({ ok: true, status: 200, json: async () => LANCET_UPDATES });
+
+    const issues = await retractedReferenceCheck('doc-1', text);
+
+    expect(issues).toHaveLength(2);
+    expect(issues[0]).toMatchObject({
+      checkType: 'RETRACTED_REFERENCE',
+      severity: 'ERROR',
+      title: 'Cited work has been retracted',
+      startOffset: text.indexOf(formatted),
+      endOffset: text.indexOf(formatted) + formatted.length,
+      originalText: formatted,
+      actualValue: '10.1016/S0140-6736(20)31324-6',
+    });
+    expect(issues[0].description).toContain('Retraction notice dated 2020-06-05 (DOI 10.1016/S0140-6736(20)31324-6)');
+    expect(issues[1]).toMatchObject({ severity: 'WARNING', title: 'Cited work has an expression of concern' });
+  });
+});
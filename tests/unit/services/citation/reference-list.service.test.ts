@@ -57,9 +57,10 @@ vi.mock('../../../../src/services/shared', () => ({
   },
 }));
 
-vi.mock('../../../../src/services/citation/crossref.service', () => ({
-  crossRefService: {
-    lookupByDoi: vi.fn(),
+vi.mock('../../../../src/services/citation/metadata-sources', () => ({
+  extractReferenceIdentifiers: vi.fn().mockReturnValue({}),
+  metadataResolverService: {
+    resolve: vi.fn(),
   },
 }));
 
@@ -71,7 +72,7 @@ vi.mock('../../../../src/services/citation/style-rules.service', () => ({
 
 import prisma from '../../../../src/lib/prisma';
 import { editorialAi } from '../../../../src/services/shared';
-import { crossRefService } from '../../../../src/services/citation/crossref.service';
+import { metadataResolverService } from '../../../../src/services/citation/metadata-sources';
 import { referenceListService } from '../../../../src/services/citation/reference-list.service';
 
 describe('ReferenceListService', () => {
@@ -240,8 +241,9 @@ describe('ReferenceListService', () => {
         ],
       };
 
-      const mockCrossRefData = {
+      const mockResolvedData = {
         authors: [{ firstName: 'John', lastName: 'Smith' }],
+        source: 'crossref',
         confidence: 0.95,
       };
 
@@ -250,7 +252,7 @@ describe('ReferenceListService', () => {
       vi.mocked(prisma.referenceListEntry.findMany).mockResolvedValue([]);
       vi.mocked(prisma.referenceListEntry.deleteMany).mockResolvedValue({ count: 0 });
       vi.mocked(editorialAi.generateReferenceEntriesChunked).mockResolvedValue(mockAiResult as any);
-      vi.mocked(crossRefService.lookupByDoi).mockResolvedValue(mockCrossRefData as any);
+      vi.mocked(metadataResolverService.resolve).mockResolvedValue(mockResolvedData as any);
       vi.mocked(prisma.referenceListEntry.create).mockImplementation((args: any) =>
         Promise.resolve({ id: 'entry-1', ...args.data })
       );
@@ -258,7 +260,7 @@ describe('ReferenceListService', () => {
 
       const result = await referenceListService.generateReferenceList('doc-1', 'apa7', 'tenant-1');
 
-      expect(crossRefService.lookupByDoi).toHaveBeenCalledWith('10.1000/test');
+      expect(metadataResolverService.resolve).toHaveBeenCalledWith({ doi: '10.1000/test' });
       expect(result.stats.enrichedCount).toBeGreaterThanOrEqual(0);
     });
   });
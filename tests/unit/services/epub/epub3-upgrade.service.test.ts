@@ -0,0 +1,164 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import { epub3Upgrade } from '../../../../src/services/epub/epub3-upgrade.service';
+
+const XHTML11_DOCTYPE =
+  '<!DOCTYPE html PUBLIC "-//W3C//DTD XHTML 1.1//EN" "http://www.w3.org/TR/xhtml11/DTD/xhtml11.dtd">';
+
+function chapter(title: string, extra = ''): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    XHTML11_DOCTYPE,
+    '<html xmlns="http://www.w3.org/1999/xhtml">',
+    `<head><title>${title}</title></head>`,
+    `<body><h1 id="start">${title}</h1>${extra}</body>`,
+    '</html>',
+  ].join('\n');
+}
+
+async function buildEpub2(version = '2.0'): Promise<JSZip> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip');
+  zip.file(
+    'META-INF/container.xml',
+    '<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>'
+  );
+  zip.file('OEBPS/content.opf', [
+    `<package xmlns="http://www.idpf.org/2007/opf" version="${version}" unique-identifier="bookid">`,
+    '  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:opf="http://www.idpf.org/2007/opf">',
+    '    <dc:title>Bleak House</dc:title>',
+    '    <dc:creator opf:role="aut" opf:file-as="Dickens, Charles">Charles Dickens</dc:creator>',
+    '    <dc:identifier id="bookid" opf:scheme="ISBN">9780141439723</dc:identifier>',
+    '    <dc:language>en-GB</dc:language>',
+    '    <meta name="cover" content="cover-img"/>',
+    '  </metadata>',
+    '  <manifest>',
+    '    <item id="ncx" href="toc.ncx" media-type="application/x-dtbncx+xml"/>',
+    '    <item id="cover-img" href="images/cover.jpg" media-type="image/jpeg"/>',
+    '    <item id="ch1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>',
+    '    <item id="ch2" href="text/ch2.xhtml" media-type="application/xhtml+xml"/>',
+    '  </manifest>',
+    '  <spine toc="ncx"><itemref idref="ch1"/><itemref idref="ch2"/></spine>',
+    '  <guide>',
+    '    <reference type="text" title="Start Reading" href="text/ch1.xhtml#start"/>',
+    '    <reference type="other.ms-coverpage" title="Cover" href="text/ch1.xhtml"/>',
+    '  </guide>',
+    '</package>',
+  ].join('\n'));
+  zip.file('OEBPS/toc.ncx', [
+    '<ncx xmlns="http://www.daisy.org/z3986/2005/ncx/" version="2005-1">',
+    '  <docTitle><text>Bleak House</text></docTitle>',
+    '  <navMap>',
+    '    <navPoint id="np1" playOrder="1"><navLabel><text>In Chancery</text></navLabel><content src="text/ch1.xhtml"/>',
+    '      <navPoint id="np1a" playOrder="2"><navLabel><text>Fog &amp; Mud</text></navLabel><content src="text/ch1.xhtml#start"/></navPoint>',
+    '    </navPoint>',
+    '    <navPoint id="np2" playOrder="3"><navLabel><text>In Fashion</text></navLabel><content src="text/ch2.xhtml"/></navPoint>',
+    '  </navMap>',
+    '  <pageList>',
+    '    <pageTarget id="p1" type="normal" value="1"><navLabel><text>1</text></navLabel><content src="text/ch1.xhtml#page1"/></pageTarget>',
+    '  </pageList>',
+    '</ncx>',
+  ].join('\n'));
+  zip.file('OEBPS/images/cover.jpg', 'jpeg');
+  zip.file('OEBPS/text/ch1.xhtml', chapter('In Chancery'));
+  zip.file('OEBPS/text/ch2.xhtml', chapter('In Fashion', '<svg xmlns="http://www.w3.org/2000/svg"/>'));
+  return zip;
+}
+
+describe('Epub3UpgradeService.upgrade', () => {
+  it('generates the nav document from the NCX and the guide', async () => {
+    const zip = await buildEpub2();
+
+    const result = await epub3Upgrade.upgrade(zip);
+
+    expect(result).toMatchObject({
+      fromVersion: '2.0',
+      navPath: 'OEBPS/nav.xhtml',
+      tocEntries: 3,
+      pageListEntries: 1,
+      landmarks: 1,
+      contentDocuments: 2,
+    });
+
+    const nav = await zip.file('OEBPS/nav.xhtml')!.async('text');
+    expect(nav).toContain('<!DOCTYPE html>');
+    expect(nav).toContain('xml:lang="en-GB"');
+    expect(nav).toContain('<title>Bleak House</title>');
+    expect(nav).toMatch(/<li><a href="text\/ch1\.xhtml">In Chancery<\/a>\s*<ol>\s*<li><a href="text\/ch1\.xhtml#start">Fog &amp; Mud<\/a><\/li>/);
+    expect(nav).toContain('<a epub:type="bodymatter" href="text/ch1.xhtml#start">Start Reading</a>');
+    expect(nav).toContain('<nav epub:type="page-list" role="doc-pagelist" aria-label="Page list" hidden="hidden" class="hidden_content">');
+  });
+
+  it('converts the OPF to EPUB 3 metadata and manifest properties', async () => {
+    const zip = await buildEpub2();
+
+    await epub3Upgrade.upgrade(zip);
+
+    const opf = await zip.file('OEBPS/content.opf')!.async('text');
+    expect(opf).toContain('version="3.0"');
+    expect(opf).toMatch(/<meta property="dcterms:modified">\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}Z<\/meta>/);
+    expect(opf).toContain('<dc:creator id="creator01">Charles Dickens</dc:creator>');
+    expect(opf).toContain('<meta refines="#creator01" property="role" scheme="marc:relators">aut</meta>');
+    expect(opf).toContain('<meta refines="#creator01" property="file-as">Dickens, Charles</meta>');
+    expect(opf).not.toMatch(/\sopf:[\w-]+=/);
+    expect(opf).toContain('<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>');
+    expect(opf).toContain('<item id="cover-img" href="images/cover.jpg" media-type="image/jpeg" properties="cover-image"/>');
+    expect(opf).toContain('<item id="ch2" href="text/ch2.xhtml" media-type="application/xhtml+xml" properties="svg"/>');
+    expect(await epub3Upgrade.getVersion(zip)).toBe('3.0');
+  });
+
+  it('declares mathml and remote-resources for content documents and stylesheets that need them', async () => {
+    const zip = await buildEpub2();
+    zip.file('OEBPS/text/ch1.xhtml', chapter(
+      'In Chancery',
+      '<math xmlns="http://www.w3.org/1998/Math/MathML"><mi>x</mi></math>' +
+      '<img src="https://images.example.com/fog.jpg" alt="Fog"/><a href="https://example.com/">link</a>'
+    ));
+    zip.file('OEBPS/styles/book.css', '@font-face { src: url("https://fonts.example.com/serif.woff2"); }');
+    const opf = await zip.file('OEBPS/content.opf')!.async('text');
+    zip.file('OEBPS/content.opf', opf.replace(
+      '</manifest>',
+      '  <item id="css" href="styles/book.css" media-type="text/css"/>\n  </manifest>'
+    ));
+
+    await epub3Upgrade.upgrade(zip);
+
+    const upgraded = await zip.file('OEBPS/content.opf')!.async('text');
+    expect(upgraded).toContain(
+      '<item id="ch1" href="text/ch1.xhtml" media-type="application/xhtml+xml" properties="mathml remote-resources"/>'
+    );
+    expect(upgraded).toContain('<item id="css" href="styles/book.css" media-type="text/css" properties="remote-resources"/>');
+    expect(upgraded).toContain('<item id="ch2" href="text/ch2.xhtml" media-type="application/xhtml+xml" properties="svg"/>');
+  });
+
+  it('does not treat hyperlinks as remote resources', async () => {
+    const zip = await buildEpub2();
+    zip.file('OEBPS/text/ch1.xhtml', chapter('In Chancery', '<a href="https://example.com/">link</a>'));
+
+    await epub3Upgrade.upgrade(zip);
+
+    const upgraded = await zip.file('OEBPS/content.opf')!.async('text');
+    expect(upgraded).toContain('<item id="ch1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>');
+  });
+
+  it('converts content documents to the HTML5 doctype', async () => {
+    const zip = await buildEpub2();
+
+    await epub3Upgrade.upgrade(zip);
+
+    const ch1 = await zip.file('OEBPS/text/ch1.xhtml')!.async('text');
+    expect(ch1).not.toContain('XHTML 1.1');
+    expect(ch1).toContain('<!DOCTYPE html>\n<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">');
+  });
+
+  it('refuses packages that are already EPUB 3', async () => {
+    const zip = await buildEpub2('3.0');
+
+    await expect(epub3Upgrade.upgrade(zip)).rejects.toMatchObject({ statusCode: 409, code: 'ALREADY_EPUB3' });
+  });
+});
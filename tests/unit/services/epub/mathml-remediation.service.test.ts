@@ -0,0 +1,159 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+import * as cheerio from 'cheerio';
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  extractLatex,
+  latexToMathML,
+  mathmlRemediation,
+  mathmlToSpeech,
+  type MathNode,
+} from '../../../../src/services/epub/mathml-remediation.service';
+import { epubJSAuditor } from '../../../../src/services/epub/epub-js-auditor.service';
+
+const MATHML_NS = 'http://www.w3.org/1998/Math/MathML';
+
+const QUADRATIC =
+  `<math xmlns="${MATHML_NS}"><mi>x</mi><mo>=</mo><mfrac><mrow><mo>−</mo><mi>b</mi><mo>±</mo>` +
+  '<msqrt><msup><mi>b</mi><mn>2</mn></msup><mo>−</mo><mn>4</mn><mi>a</mi><mi>c</mi></msqrt></mrow>' +
+  '<mrow><mn>2</mn><mi>a</mi></mrow></mfrac></math>';
+
+function speech(mathml: string): string {
+  const $ = cheerio.load(mathml, { xmlMode: true });
+  return mathmlToSpeech($.root().children().get(0) as unknown as MathNode);
+}
+
+function chapter(body: string): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" lang="en">',
+    '<head><title>Algebra</title></head>',
+    `<body><main><h1>Algebra</h1>${body}</main></body>`,
+    '</html>',
+  ].join('\n');
+}
+
+async function buildEpub(ch1: string, ch2 = chapter('<p>No math here.</p>')): Promise<JSZip> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip');
+  zip.file(
+    'META-INF/container.xml',
+    '<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>'
+  );
+  zip.file('OEBPS/content.opf', [
+    '<package xmlns="http://www.idpf.org/2007/opf" version="3.0">',
+    '  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '    <dc:title>Algebra</dc:title>',
+    '    <dc:language>en</dc:language>',
+    '    <meta property="schema:accessibilityFeature">tableOfContents</meta>',
+    '  </metadata>',
+    '  <manifest>',
+    '    <item id="ch1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>',
+    '    <item id="ch2" href="text/ch2.xhtml" media-type="application/xhtml+xml"/>',
+    '  </manifest>',
+    '  <spine><itemref idref="ch1"/><itemref idref="ch2"/></spine>',
+    '</package>',
+  ].join('\n'));
+  zip.file('OEBPS/text/ch1.xhtml', ch1);
+  zip.file('OEBPS/text/ch2.xhtml', ch2);
+  return zip;
+}
+
+describe('mathmlToSpeech', () => {
+  it('speaks fractions, roots and powers', () => {
+    expect(speech(QUADRATIC)).toBe(
+      'x equals the fraction with numerator minus b plus or minus the square root of b squared minus 4 a c, ' +
+      'end root and denominator 2 a'
+    );
+  });
+
+  it('speaks large operators with their limits and Greek identifiers', () => {
+    expect(speech(
+      `<m:math xmlns:m="${MATHML_NS}"><m:munderover><m:mo>∑</m:mo><m:mrow><m:mi>i</m:mi><m:mo>=</m:mo>` +
+      '<m:mn>1</m:mn></m:mrow><m:mi>n</m:mi></m:munderover><m:msup><m:mi>α</m:mi><m:mi>i</m:mi></m:msup></m:math>'
+    )).toBe('the sum from i equals 1 to n alpha to the power of i');
+  });
+});
+
+describe('extractLatex', () => {
+  it('recognises TeX delimiters and commands', () => {
+    expect(extractLatex('$$E = mc^2$$')).toEqual({ latex: 'E = mc^2', display: true });
+    expect(extractLatex('\\(x_{1}\\)')).toEqual({ latex: 'x_{1}', display: false });
+    expect(extractLatex('\\frac{1}{2}')).toEqual({ latex: '\\frac{1}{2}', display: false });
+    expect(extractLatex('Graph of sales, 2019 to 2023')).toBeNull();
+  });
+});
+
+describe('latexToMathML', () => {
+  it('converts the supported subset with alttext and a TeX annotation', () => {
+    const math = latexToMathML('\\frac{-b \\pm \\sqrt{b^2-4ac}}{2a}', true);
+
+    expect(math).toContain(`<math xmlns="${MATHML_NS}" display="block" alttext="the fraction with numerator`);
+    expect(math).toContain('<msqrt><mrow><msup><mi>b</mi><mn>2</mn></msup><mo>−</mo><mn>4</mn><mi>a</mi><mi>c</mi></mrow></msqrt>');
+    expect(math).toContain('<annotation encoding="application/x-tex">\\frac{-b \\pm \\sqrt{b^2-4ac}}{2a}</annotation>');
+  });
+
+  it('rejects unsupported commands', () => {
+    expect(() => latexToMathML('\\begin{matrix} a \\end{matrix}')).toThrow(
+      expect.objectContaining({ statusCode: 422, code: 'UNSUPPORTED_LATEX' })
+    );
+  });
+});
+
+describe('EPUBJSAuditorService math checks', () => {
+  it('flags MathML without alttext, equation images and the missing declaration', async () => {
+    const zip = await buildEpub(chapter(
+      `<p>${QUADRATIC}</p><p><img src="../images/eq001.png" alt="$x^2$"/></p><p><img src="../images/photo.jpg" alt="A photo"/></p>`
+    ));
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+    const result = await epubJSAuditor.audit(buffer);
+    const codes = result.issues.map(i => i.code);
+
+    expect(codes).toEqual(expect.arrayContaining(['EPUB-MATH-001', 'EPUB-MATH-002', 'EPUB-MATH-003']));
+    expect(result.stats).toMatchObject({ mathExpressions: 1, equationImages: 1 });
+    const images = result.issues.find(i => i.code === 'EPUB-MATH-002')!;
+    expect(JSON.parse(images.context!).images).toEqual([{ src: '../images/eq001.png', alt: '$x^2$', latex: true }]);
+  });
+});
+
+describe('MathMLRemediationService.remediate', () => {
+  it('adds alttext, converts LaTeX images and declares MathML in the OPF', async () => {
+    const zip = await buildEpub(chapter(
+      `<p>${QUADRATIC}</p><p><img id="eq1" src="../images/eq001.png" alt="$$E = mc^2$$"/></p>`
+    ));
+
+    const results = await mathmlRemediation.remediate(zip, { convertLatexImages: true });
+
+    const ch1 = await zip.file('OEBPS/text/ch1.xhtml')!.async('text');
+    const opf = await zip.file('OEBPS/content.opf')!.async('text');
+
+    expect(ch1).toContain(`<math xmlns="${MATHML_NS}" alttext="x equals the fraction with numerator minus b`);
+    expect(ch1).toContain(
+      `<math xmlns="${MATHML_NS}" display="block" alttext="E equals m c squared" altimg="../images/eq001.png" id="eq1">`
+    );
+    expect(ch1).not.toContain('<img');
+    expect(opf).toContain('<item id="ch1" href="text/ch1.xhtml" media-type="application/xhtml+xml" properties="mathml"/>');
+    expect(opf).toContain('<item id="ch2" href="text/ch2.xhtml" media-type="application/xhtml+xml"/>');
+    expect(opf).toContain('<meta property="schema:accessibilityFeature">MathML</meta>');
+    expect(opf).toContain('<meta property="schema:accessibilityFeature">describedMath</meta>');
+    expect(results.map(r => r.modificationType)).toEqual([
+      'convert_latex_images',
+      'add_math_alttext',
+      'declare_math_features',
+    ]);
+  });
+
+  it('leaves equation images alone unless conversion is requested', async () => {
+    const zip = await buildEpub(chapter('<p><img src="../images/eq001.png" alt="$x^2$"/></p>'));
+
+    const results = await mathmlRemediation.remediate(zip);
+
+    expect(await zip.file('OEBPS/text/ch1.xhtml')!.async('text')).toContain('<img src="../images/eq001.png" alt="$x^2$"/>');
+    expect(results.at(-1)).toMatchObject({ description: 'No MathML found; math declarations not applicable' });
+  });
+});
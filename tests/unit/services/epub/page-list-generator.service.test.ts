@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../../../../src/services/pdf/pdf-parser.service', () => ({
+  pdfParserService: { parseBuffer: vi.fn(), close: vi.fn() },
+}));
+
+vi.mock('../../../../src/services/pdf/text-extractor.service', () => ({
+  textExtractorService: { extractText: vi.fn() },
+}));
+
+import {
+  alignPrintPages,
+  normalizeWords,
+  pageListGenerator,
+  parsePageMap,
+} from '../../../../src/services/epub/page-list-generator.service';
+
+const chapterOne = [
+  'It was the best of times, it was the worst of times, it was the age of wisdom,',
+  'it was the age of foolishness, it was the epoch of belief, it was the epoch of incredulity,',
+  'it was the season of Light, it was the season of Darkness, it was the spring of hope,',
+  'it was the winter of despair, we had everything before us, we had nothing before us.',
+];
+const chapterTwo = [
+  'There were a king with a large jaw and a queen with a plain face, on the throne of England;',
+  'there were a king with a large jaw and a queen with a fair face, on the throne of France.',
+];
+
+function xhtml(title: string, paragraphs: string[]): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">',
+    `<head><title>${title}</title></head>`,
+    '<body>',
+    `<h1>${title}</h1>`,
+    ...paragraphs.map(p => `<p>${p}</p>`),
+    '</body>',
+    '</html>',
+  ].join('\n');
+}
+
+async function buildEpub(chapterOneBody = xhtml('Chapter One', chapterOne)): Promise<JSZip> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip');
+  zip.file(
+    'META-INF/container.xml',
+    '<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>'
+  );
+  zip.file('OEBPS/content.opf', [
+    '<package xmlns="http://www.idpf.org/2007/opf" version="3.0">',
+    '  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '    <dc:title>A Tale</dc:title>',
+    '  </metadata>',
+    '  <manifest>',
+    '    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>',
+    '    <item id="ch1" href="text/ch1.xhtml" media-type="application/xhtml+xml"/>',
+    '    <item id="ch2" href="text/ch2.xhtml" media-type="application/xhtml+xml"/>',
+    '  </manifest>',
+    '  <spine><itemref idref="nav"/><itemref idref="ch1"/><itemref idref="ch2"/></spine>',
+    '</package>',
+  ].join('\n'));
+  zip.file(
+    'OEBPS/nav.xhtml',
+    '<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops"><body>\n' +
+    '  <nav epub:type="toc"><ol><li><a href="text/ch1.xhtml">Chapter One</a></li></ol></nav>\n</body></html>'
+  );
+  zip.file('OEBPS/text/ch1.xhtml', chapterOneBody);
+  zip.file('OEBPS/text/ch2.xhtml', xhtml('Chapter Two', chapterTwo));
+  return zip;
+}
+
+describe('parsePageMap', () => {
+  it('skips the header row and unquotes fields', () => {
+    expect(parsePageMap('page,text\n1,"It was the best of times, it was"\nii,There were a king\n')).toEqual([
+      { label: '1', text: 'It was the best of times, it was' },
+      { label: 'ii', text: 'There were a king' },
+    ]);
+  });
+
+  it('rejects rows without a page label', () => {
+    expect(() => parsePageMap('1,It was\n,the age of wisdom')).toThrow(
+      expect.objectContaining({ statusCode: 400, code: 'INVALID_PAGE_MAP' })
+    );
+  });
+});
+
+describe('alignPrintPages', () => {
+  const book = normalizeWords([...chapterOne, ...chapterTwo].join(' '));
+
+  it('skips running heads and scores exact matches at full confidence', () => {
+    const [page] = alignPrintPages(book, [normalizeWords('A TALE OF TWO CITIES 12 it was the winter of despair, we had everything')]);
+
+    expect(page).toEqual({ position: book.indexOf('winter') - 3, confidence: 1, method: 'matched' });
+  });
+
+  it('interpolates pages that cannot be matched between their neighbours', () => {
+    const pages = [
+      normalizeWords('It was the best of times, it was the worst'),
+      normalizeWords(''),
+      normalizeWords('There were a king with a large jaw'),
+    ];
+
+    const [first, blank, third] = alignPrintPages(book, pages);
+
+    expect(first).toMatchObject({ position: 0, method: 'matched' });
+    expect(third).toMatchObject({ position: book.indexOf('there'), method: 'matched' });
+    expect(blank.method).toBe('interpolated');
+    expect(blank.confidence).toBeLessThan(0.5);
+    expect(blank.position).toBeGreaterThan(first.position);
+    expect(blank.position).toBeLessThan(third.position);
+  });
+
+  it('lowers the confidence of partial matches', () => {
+    const [page] = alignPrintPages(book, [normalizeWords('it was the season of Lightness, it was the season of gloom')]);
+
+    expect(page.method).toBe('matched');
+    expect(page.confidence).toBe(0.9);
+  });
+});
+
+describe('PageListGeneratorService.generate', () => {
+  const pageMap = parsePageMap([
+    '1,Chapter One It was the best of times',
+    '2,"it was the season of Light, it was the season"',
+    '3,Chapter Two There were a king with a large jaw',
+  ].join('\n'));
+
+  it('inserts page breaks, the hidden page-list and pageBreakSource', async () => {
+    const zip = await buildEpub();
+
+    const result = await pageListGenerator.generate(zip, pageMap, 'page-map', {
+      pageBreakSource: 'urn:isbn:9780141439600',
+    });
+
+    const ch1 = await zip.file('OEBPS/text/ch1.xhtml')!.async('text');
+    const ch2 = await zip.file('OEBPS/text/ch2.xhtml')!.async('text');
+    const nav = await zip.file('OEBPS/nav.xhtml')!.async('text');
+    const opf = await zip.file('OEBPS/content.opf')!.async('text');
+
+    expect(ch1).toContain('<h1><span epub:type="pagebreak" role="doc-pagebreak" id="page_1" aria-label="1"/>Chapter One</h1>');
+    expect(ch1).toContain('<span epub:type="pagebreak" role="doc-pagebreak" id="page_2" aria-label="2"/>it was the season of Light');
+    expect(ch2).toContain('<span epub:type="pagebreak" role="doc-pagebreak" id="page_3" aria-label="3"/>Chapter Two');
+    expect(nav).toContain('<nav epub:type="page-list" role="doc-pagelist" aria-label="Page list" hidden="hidden" class="hidden_content">');
+    expect(nav).toContain('<li><a href="text/ch1.xhtml#page_2">2</a></li>');
+    expect(opf).toContain('<meta property="a11y:pageBreakSource">urn:isbn:9780141439600</meta>');
+    expect(opf).not.toContain('property="pageBreakSource"');
+    expect(opf).toContain('<meta property="schema:accessibilityFeature">printPageNumbers</meta>');
+
+    expect(result).toMatchObject({ source: 'page-map', totalPages: 3, matched: 3, needsReview: 0 });
+    expect(result.pageBreaks.map(b => [b.label, b.filePath, b.confidence])).toEqual([
+      ['1', 'OEBPS/text/ch1.xhtml', 1],
+      ['2', 'OEBPS/text/ch1.xhtml', 1],
+      ['3', 'OEBPS/text/ch2.xhtml', 1],
+    ]);
+  });
+
+  it('refuses to add page breaks to an EPUB that already has them', async () => {
+    const zip = await buildEpub(
+      xhtml('Chapter One', chapterOne).replace('<h1>', '<span epub:type="pagebreak" aria-label="1"/><h1>')
+    );
+
+    await expect(pageListGenerator.generate(zip, pageMap, 'page-map')).rejects.toMatchObject({
+      statusCode: 409,
+      code: 'PAGE_BREAKS_EXIST',
+    });
+  });
+});
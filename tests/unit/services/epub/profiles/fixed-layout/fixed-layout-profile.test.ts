@@ -0,0 +1,180 @@
+import { describe, it, expect, vi } from 'vitest';
+import JSZip from 'jszip';
+
+vi.mock('../../../../../../src/lib/logger', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import {
+  detectRenditionProfile,
+  runFixedLayoutValidators,
+  fixFixedLayoutViewport,
+  addFixedLayoutSummaryCaveat,
+  FIXED_LAYOUT_SUMMARY_CAVEAT,
+} from '../../../../../../src/services/epub/profiles/fixed-layout';
+import { acrGeneratorService } from '../../../../../../src/services/acr/acr-generator.service';
+
+function page(title: string, body: string, viewport: string | null = 'width=1200, height=1600'): string {
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<html xmlns="http://www.w3.org/1999/xhtml" lang="en">',
+    `<head><title>${title}</title>${viewport === null ? '' : `<meta name="viewport" content="${viewport}"/>`}</head>`,
+    `<body>${body}</body>`,
+    '</html>',
+  ].join('\n');
+}
+
+function opf(metadata: string, spine: string, layoutMeta = true): string {
+  return [
+    '<package xmlns="http://www.idpf.org/2007/opf" version="3.0">',
+    '  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">',
+    '    <dc:title>The Gingerbread Man</dc:title>',
+    '    <dc:language>en</dc:language>',
+    layoutMeta ? '    <meta property="rendition:layout">pre-paginated</meta>' : '',
+    '    <meta property="rendition:spread">landscape</meta>',
+    metadata,
+    '  </metadata>',
+    '  <manifest>',
+    '    <item id="cover-img" href="images/cover.jpg" media-type="image/jpeg" properties="cover-image"/>',
+    '    <item id="cover" href="text/cover.xhtml" media-type="application/xhtml+xml"/>',
+    '    <item id="p1" href="text/p1.xhtml" media-type="application/xhtml+xml"/>',
+    '    <item id="p2" href="text/p2.xhtml" media-type="application/xhtml+xml"/>',
+    '    <item id="p3" href="text/p3.xhtml" media-type="application/xhtml+xml"/>',
+    '  </manifest>',
+    spine,
+    '</package>',
+  ].join('\n');
+}
+
+async function buildFixedLayoutEpub(): Promise<JSZip> {
+  const zip = new JSZip();
+  zip.file('mimetype', 'application/epub+zip');
+  zip.file(
+    'META-INF/container.xml',
+    '<container><rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles></container>'
+  );
+  zip.file('OEBPS/content.opf', opf(
+    '    <meta property="schema:accessibilitySummary">Images have alternative text</meta>',
+    [
+      '  <spine>',
+      '    <itemref idref="cover" properties="rendition:page-spread-center"/>',
+      '    <itemref idref="p1" properties="page-spread-right"/>',
+      '    <itemref idref="p2" properties="page-spread-right"/>',
+      '    <itemref idref="p3" properties="page-spread-left"/>',
+      '  </spine>',
+    ].join('\n'),
+  ));
+  zip.file('OEBPS/text/cover.xhtml', page('Cover', '<img src="../images/cover.jpg" alt="Cover"/>'));
+  zip.file('OEBPS/text/p1.xhtml', page(
+    'Page 1',
+    '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 1200 1600"/><p>Run, run, as fast as you can!</p>',
+    null,
+  ));
+  zip.file('OEBPS/text/p2.xhtml', page(
+    'Page 2',
+    '<div><img src="../images/p2.jpg" alt="The fox by the river"/></div>',
+    'width=device-width',
+  ));
+  zip.file('OEBPS/text/p3.xhtml', page(
+    'Page 3',
+    [
+      '<div style="position:absolute; top:900px; left:100px">The fox snapped him up.</div>',
+      '<div style="position:absolute; top:100px; left:100px"><span>Once upon a time</span></div>',
+    ].join(''),
+  ));
+  return zip;
+}
+
+describe('detectRenditionProfile', () => {
+  it('resolves the package layout, itemref overrides and spread sides', () => {
+    const profile = detectRenditionProfile(
+      opf('', [
+        '  <spine page-progression-direction="rtl">',
+        '    <itemref idref="cover"/>',
+        '    <itemref idref="p1" properties="rendition:layout-pre-paginated page-spread-left"/>',
+        '  </spine>',
+      ].join('\n'), false),
+      'OEBPS/content.opf',
+    );
+
+    expect(profile).toMatchObject({ layout: 'reflowable', spread: 'landscape', pageProgression: 'rtl', hasFixedLayout: true });
+    expect(profile.spine).toEqual([
+      { idref: 'cover', path: 'OEBPS/text/cover.xhtml', linear: true, layout: 'reflowable', spread: null },
+      { idref: 'p1', path: 'OEBPS/text/p1.xhtml', linear: true, layout: 'pre-paginated', spread: 'left' },
+    ]);
+  });
+});
+
+describe('runFixedLayoutValidators', () => {
+  it('reports viewport, baked-in text, reading order, spread and summary problems', async () => {
+    const zip = await buildFixedLayoutEpub();
+    const buffer = await zip.generateAsync({ type: 'nodebuffer' });
+
+    const { rendition, issues } = await runFixedLayoutValidators(buffer);
+
+    expect(rendition?.layout).toBe('pre-paginated');
+    expect(issues.map(i => [i.code, i.location])).toEqual([
+      ['FXL-VIEWPORT-MISSING', 'OEBPS/text/p1.xhtml'],
+      ['FXL-VIEWPORT-INVALID', 'OEBPS/text/p2.xhtml'],
+      ['FXL-TEXT-IN-IMAGE', 'OEBPS/text/p2.xhtml'],
+      ['FXL-READING-ORDER', 'OEBPS/text/p3.xhtml'],
+      ['FXL-SPREAD-ORDER', 'OEBPS/content.opf'],
+      ['FXL-SUMMARY-CAVEAT', 'OEBPS/content.opf'],
+    ]);
+    expect(issues[3].message).toContain('"The fox snapped him up." but "Once upon a time" comes first');
+    expect(issues[4].message).toContain('p1.xhtml and p2.xhtml (both right)');
+  });
+
+  it('returns no issues for reflowable packages', async () => {
+    const zip = await buildFixedLayoutEpub();
+    const opfText = await zip.file('OEBPS/content.opf')!.async('text');
+    zip.file('OEBPS/content.opf', opfText.replace('<meta property="rendition:layout">pre-paginated</meta>', ''));
+
+    const result = await runFixedLayoutValidators(await zip.generateAsync({ type: 'nodebuffer' }));
+
+    expect(result.rendition?.hasFixedLayout).toBe(false);
+    expect(result.issues).toEqual([]);
+  });
+});
+
+describe('fixed-layout remediators', () => {
+  it('derives missing and invalid viewports from the SVG viewBox and the other pages', async () => {
+    const zip = await buildFixedLayoutEpub();
+
+    const results = await fixFixedLayoutViewport(zip);
+
+    expect(results.every(r => r.success)).toBe(true);
+    expect(await zip.file('OEBPS/text/p1.xhtml')!.async('text'))
+      .toContain('<meta name="viewport" content="width=1200, height=1600"/>');
+    const p2 = await zip.file('OEBPS/text/p2.xhtml')!.async('text');
+    expect(p2).toContain('<meta name="viewport" content="width=1200, height=1600"/>');
+    expect(p2).not.toContain('device-width');
+  });
+
+  it('appends the fixed-layout caveat to the accessibility summary once', async () => {
+    const zip = await buildFixedLayoutEpub();
+
+    await addFixedLayoutSummaryCaveat(zip);
+    const second = await addFixedLayoutSummaryCaveat(zip);
+
+    expect(await zip.file('OEBPS/content.opf')!.async('text')).toContain(
+      `<meta property="schema:accessibilitySummary">Images have alternative text. ${FIXED_LAYOUT_SUMMARY_CAVEAT}</meta>`
+    );
+    expect(second[0].description).toContain('no change');
+  });
+});
+
+describe('AcrGeneratorService.hydrateCriteriaRemarks', () => {
+  it('uses fixed-layout remarks for pre-paginated books unless a reviewer left notes', () => {
+    const criteria = [
+      { id: '1.4.10', remarks: '' },
+      { id: '1.3.2', remarks: '' },
+    ] as Parameters<typeof acrGeneratorService.hydrateCriteriaRemarks>[0];
+    const verification = new Map([['1.3.2', { status: 'VERIFIED_PASS', isAiGenerated: false, notes: 'Checked by hand.' }]]);
+
+    const [reflow, readingOrder] = acrGeneratorService.hydrateCriteriaRemarks(criteria, verification, 'pre-paginated');
+
+    expect(reflow.remarks).toMatch(/^Fixed-layout publication: pages keep their printed/);
+    expect(readingOrder.remarks).toBe('Checked by hand.');
+  });
+});
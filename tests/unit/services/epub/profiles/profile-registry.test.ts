@@ -0,0 +1,128 @@
+import { describe, it, expect } from 'vitest';
+import JSZip from 'jszip';
+import { detectPublisherProfile } from '../../../../../src/services/epub/profiles/profile-detector.service';
+import {
+  findProfileRemediator,
+  getProfileDefinition,
+  resolveProfiles,
+} from '../../../../../src/services/epub/profiles/profile-registry';
+import {
+  buildDeclarativeProfile,
+  type DeclarativeProfileConfig,
+} from '../../../../../src/services/epub/profiles/declarative-profile';
+
+async function buildEpub(files: Record<string, string>): Promise<Buffer> {
+  const zip = new JSZip();
+  zip.file(
+    'META-INF/container.xml',
+    `<?xml version="1.0"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="EPUB/package.opf" media-type="application/oebps-package+xml"/>
+  </rootfiles>
+</container>`,
+  );
+  for (const [path, content] of Object.entries(files)) {
+    zip.file(path, content);
+  }
+  return zip.generateAsync({ type: 'nodebuffer' });
+}
+
+function opf(publisher: string): string {
+  return `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:title>Test</dc:title>
+    <dc:publisher>${publisher}</dc:publisher>
+  </metadata>
+</package>`;
+}
+
+const HACHETTE: DeclarativeProfileConfig = {
+  id: 'HACHETTE-UK',
+  displayName: 'Hachette UK',
+  signals: {
+    publisherText: ['Hachette UK'],
+    urlFragments: ['hachette.co.uk'],
+    filePathFragments: ['hachette_assets'],
+  },
+  imprints: [
+    {
+      id: 'little-brown',
+      displayName: 'Little, Brown',
+      textFragments: ['Little, Brown Book Group'],
+      urlFragments: ['littlebrown.co.uk'],
+      filePathFragments: [],
+    },
+  ],
+  acrEdition: 'VPAT2.5-EU',
+};
+
+describe('declarative publisher profiles', () => {
+  it('detects a tenant profile and its imprint from configured signals', async () => {
+    const buffer = await buildEpub({
+      'EPUB/package.opf': opf('Hachette UK'),
+      'EPUB/xhtml/copyright.xhtml':
+        '<html><body><p>Little, Brown Book Group, an imprint of Hachette — littlebrown.co.uk</p></body></html>',
+    });
+    const profiles = resolveProfiles({ custom: [HACHETTE] });
+    const profile = await detectPublisherProfile(buffer, profiles);
+
+    expect(profile.publisher).toBe('HACHETTE-UK');
+    expect(profile.imprint).toBe('little-brown');
+    expect(profile.confidence).toBe('high');
+    expect(getProfileDefinition('HACHETTE-UK', profiles)?.acrEdition).toBe('VPAT2.5-EU');
+  });
+
+  it('does not match on publisher text outside dc:publisher', () => {
+    const result = buildDeclarativeProfile(HACHETTE).detect({
+      opfContent: opf('Independent Press').replace('<dc:title>Test', '<dc:title>Hachette UK reader'),
+      filePaths: [],
+    });
+    expect(result.matched).toBe(false);
+  });
+});
+
+describe('profile ranking', () => {
+  it('picks the strongest match and reports runners-up as weak signals', async () => {
+    const buffer = await buildEpub({
+      'EPUB/package.opf': opf('Penguin Random House UK'),
+      'EPUB/prh_core_assets/images/prh_uk_logo.jpg': 'binary',
+      'EPUB/hachette_assets/logo.png': 'binary',
+    });
+    const profile = await detectPublisherProfile(buffer, resolveProfiles({ custom: [HACHETTE] }));
+
+    expect(profile.publisher).toBe('PRH-UK');
+    expect(profile.confidence).toBe('high');
+    const runnerUp = profile.signals.find((s) => s.id === 'runner-up-hachette-uk');
+    expect(runnerUp).toMatchObject({ strength: 'weak' });
+    expect(runnerUp?.description).toContain('Hachette UK (low confidence, 1 signal)');
+  });
+
+  it('lets a tenant profile win over a weaker built-in match', async () => {
+    const buffer = await buildEpub({
+      'EPUB/package.opf': opf('Hachette UK'),
+      'EPUB/images/prh_uk_logo.jpg': 'binary',
+    });
+    const profile = await detectPublisherProfile(buffer, resolveProfiles({ custom: [HACHETTE] }));
+
+    expect(profile.publisher).toBe('HACHETTE-UK');
+    expect(profile.confidence).toBe('medium');
+    expect(profile.signals.map((s) => s.id)).toContain('runner-up-prh-uk');
+  });
+});
+
+describe('resolveProfiles', () => {
+  it('drops built-ins that are not enabled and skips custom ids that clash', () => {
+    const profiles = resolveProfiles({
+      enabled: [],
+      custom: [HACHETTE, { ...HACHETTE, id: 'PRH-UK', displayName: 'Impostor' }],
+    });
+    expect(profiles.map((p) => p.id)).toEqual(['HACHETTE-UK']);
+  });
+
+  it('resolves publisher remediators through the registry', () => {
+    expect(findProfileRemediator('PRH-META-CONFORMS-TO')).toBeTypeOf('function');
+    expect(findProfileRemediator('EPUB-META-001')).toBeUndefined();
+  });
+});
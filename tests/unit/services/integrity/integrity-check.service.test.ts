@@ -70,6 +70,11 @@ vi.mock('../../../../src/services/integrity/checks/ai-integrity.check', () => ({
   ]),
 }));
 
+vi.mock('../../../../src/services/integrity/checks/retracted-reference.check', () => ({
+  retractedReferenceCheck: vi.fn().mockResolvedValue([]),
+  RETRACTED_REFERENCE_CHECK_TYPE: 'RETRACTED_REFERENCE',
+}));
+
 import { integrityCheckService } from '../../../../src/services/integrity/integrity-check.service';
 
 const TENANT_ID = 'tenant-1';
@@ -169,6 +174,32 @@ describe('integrityCheckService', () => {
       const data = (capturedCreate as { data: { checkTypes: string[] } }).data;
       expect(data.checkTypes).toEqual(['FIGURE_REF', 'TABLE_REF']);
     });
+
+    it('accepts the retracted reference check alongside the AI check types', async () => {
+      mockDocFindFirst.mockResolvedValue({ id: DOCUMENT_ID });
+
+      let capturedCreate: unknown;
+      mockTransaction.mockImplementation(async (cb: (tx: unknown) => Promise<unknown>) => {
+        const tx = {
+          integrityCheckJob: {
+            count: vi.fn().mockResolvedValue(0),
+            findFirst: vi.fn().mockResolvedValue(null),
+            create: vi.fn().mockImplementation((args: unknown) => {
+              capturedCreate = args;
+              return { id: JOB_ID };
+            }),
+          },
+        };
+        return cb(tx);
+      });
+      mockJobUpdate.mockResolvedValue({});
+      mockDocContentFindUnique.mockResolvedValue(null);
+
+      await integrityCheckService.startCheck(TENANT_ID, DOCUMENT_ID, ['RETRACTED_REFERENCE', 'FIGURE_REF']);
+
+      const data = (capturedCreate as { data: { checkTypes: string[] } }).data;
+      expect(data.checkTypes).toEqual(['RETRACTED_REFERENCE', 'FIGURE_REF']);
+    });
   });
 
   // =========================================================================
@@ -0,0 +1,185 @@
+/**
+ * Tests for form-field tooltip proposals and the /Form tagging written
+ * alongside approved tooltips.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PDFDocument, PDFDict, PDFName, PDFArray, PDFHexString, PDFNumber, PDFRef, StandardFonts } from 'pdf-lib';
+import prisma from '../../../../src/lib/prisma';
+import {
+  groupTextRuns,
+  proposeFieldLabel,
+  pdfFormFieldService,
+  type TextRun,
+} from '../../../../src/services/pdf/pdf-form-field.service';
+import { pdfModifierService } from '../../../../src/services/pdf/pdf-modifier.service';
+
+vi.mock('../../../../src/lib/prisma', () => ({
+  default: {
+    generatedFormTooltip: {
+      findMany: vi.fn(),
+      upsert: vi.fn(),
+      updateMany: vi.fn(),
+    },
+  },
+}));
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function run(text: string, x: number, y: number, width = text.length * 5, height = 10): TextRun {
+  return { text, x, y, width, height };
+}
+
+describe('groupTextRuns', () => {
+  it('joins adjacent items on one baseline and keeps distant ones apart', () => {
+    const runs = groupTextRuns([
+      run('Date of', 50, 700, 35),
+      run('birth:', 88, 700, 30),
+      run('Signature:', 300, 700, 50),
+    ]);
+    expect(runs.map((r) => r.text)).toEqual(['Date of birth:', 'Signature:']);
+  });
+});
+
+describe('proposeFieldLabel', () => {
+  const textField = { name: 'Text1', type: 'text' as const, rect: { x: 130, y: 695, width: 200, height: 20 } };
+
+  it('uses the label to the left of a text field', () => {
+    const proposal = proposeFieldLabel(textField, [run('Full name: *', 50, 700, 70)]);
+    expect(proposal).toMatchObject({ text: 'Full name', source: 'left', flags: [] });
+    expect(proposal.confidence).toBeGreaterThan(0.9);
+  });
+
+  it('falls back to a label directly above the field', () => {
+    const proposal = proposeFieldLabel(textField, [run('Email address', 130, 722, 70)]);
+    expect(proposal).toMatchObject({ text: 'Email address', source: 'above' });
+  });
+
+  it('prefers the caption to the right of a checkbox', () => {
+    const checkbox = { name: 'Check Box3', type: 'checkbox' as const, rect: { x: 50, y: 600, width: 12, height: 12 } };
+    const proposal = proposeFieldLabel(checkbox, [run('I agree to the terms', 68, 602, 100)]);
+    expect(proposal).toMatchObject({ text: 'I agree to the terms', source: 'right' });
+  });
+
+  it('flags equally close competing labels for review', () => {
+    const proposal = proposeFieldLabel(
+      { name: 'Text2', type: 'text', rect: { x: 130, y: 695, width: 100, height: 20 } },
+      [run('Name', 30, 700, 40), run('Surname', 130, 722, 40)],
+    );
+    expect(proposal.flags).toContain('AMBIGUOUS_LABEL');
+    expect(proposal.confidence).toBeLessThanOrEqual(0.6);
+  });
+
+  it('humanises a descriptive field name when no text is nearby', () => {
+    const proposal = proposeFieldLabel({ ...textField, name: 'applicant.dateOfBirth' }, []);
+    expect(proposal).toMatchObject({ text: 'Date of birth', source: 'field-name', flags: ['LOW_CONFIDENCE'] });
+  });
+
+  it('reports no label for a generic name with no nearby text', () => {
+    expect(proposeFieldLabel(textField, [])).toMatchObject({ text: '', source: 'none', flags: ['NO_LABEL_FOUND'] });
+  });
+});
+
+async function buildFormPdf(tagged: boolean): Promise<PDFDocument> {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([612, 792]);
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  page.drawText('Full name:', { x: 50, y: 700, size: 10, font });
+  page.drawText('I agree to the terms', { x: 68, y: 602, size: 10, font });
+
+  const form = doc.getForm();
+  form.createTextField('Text1').addToPage(page, { x: 130, y: 695, width: 200, height: 20 });
+  form.createCheckBox('Check Box2').addToPage(page, { x: 50, y: 600, width: 12, height: 12 });
+
+  if (tagged) {
+    const documentElem = doc.context.obj({ Type: PDFName.of('StructElem'), S: PDFName.of('Document'), K: [] });
+    const documentRef = doc.context.register(documentElem);
+    const root = doc.context.obj({ Type: PDFName.of('StructTreeRoot'), K: documentRef });
+    const rootRef = doc.context.register(root);
+    documentElem.set(PDFName.of('P'), rootRef);
+    doc.catalog.set(PDFName.of('StructTreeRoot'), rootRef);
+  }
+  return doc;
+}
+
+describe('pdfFormFieldService.proposeTooltips', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('queues proposals from the label text printed beside each field', async () => {
+    const doc = await buildFormPdf(false);
+    vi.mocked(prisma.generatedFormTooltip.findMany).mockResolvedValue([]);
+
+    const result = await pdfFormFieldService.proposeTooltips('job-1', Buffer.from(await doc.save()));
+
+    expect(result).toEqual({ fields: 2, proposed: 2, alreadyLabeled: 0, alreadyReviewed: 0 });
+    const upserts = vi.mocked(prisma.generatedFormTooltip.upsert).mock.calls.map(([args]) => args.create);
+    expect(upserts).toEqual(expect.arrayContaining([
+      expect.objectContaining({ fieldName: 'Text1', proposedTooltip: 'Full name', labelSource: 'left', status: 'pending' }),
+      expect.objectContaining({ fieldName: 'Check Box2', proposedTooltip: 'I agree to the terms', labelSource: 'right' }),
+    ]));
+  });
+
+  it('leaves reviewed proposals alone when re-run', async () => {
+    const doc = await buildFormPdf(false);
+    vi.mocked(prisma.generatedFormTooltip.findMany).mockResolvedValue([{ fieldName: 'Text1' }] as never);
+
+    const result = await pdfFormFieldService.proposeTooltips('job-1', Buffer.from(await doc.save()));
+
+    expect(result).toEqual({ fields: 2, proposed: 1, alreadyLabeled: 0, alreadyReviewed: 1 });
+    expect(prisma.generatedFormTooltip.upsert).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('pdfModifierService form remediation', () => {
+  it('sets the field tooltip', async () => {
+    const doc = await buildFormPdf(false);
+    const result = await pdfModifierService.setFieldTooltip(doc, 'Text1', 'Full name');
+
+    expect(result).toMatchObject({ success: true, before: 'None', after: 'Full name' });
+    const tu = doc.getForm().getField('Text1').acroField.dict.lookup(PDFName.of('TU'), PDFHexString);
+    expect(tu.decodeText()).toBe('Full name');
+  });
+
+  it('tags each widget as /Form via OBJR, registers it in the ParentTree and sets /Tabs /S', async () => {
+    const doc = await buildFormPdf(true);
+    const result = await pdfModifierService.tagFormFields(doc);
+    expect(result.success).toBe(true);
+
+    const reloaded = await PDFDocument.load(await doc.save());
+    const page = reloaded.getPage(0);
+    expect(page.node.get(PDFName.of('Tabs'))).toBe(PDFName.of('S'));
+
+    const root = reloaded.catalog.lookup(PDFName.of('StructTreeRoot'), PDFDict);
+    expect(root.lookup(PDFName.of('ParentTreeNextKey'), PDFNumber).asNumber()).toBe(2);
+    const nums = root.lookup(PDFName.of('ParentTree'), PDFDict).lookup(PDFName.of('Nums'), PDFArray);
+    expect(nums.size()).toBe(4);
+
+    const annots = page.node.lookup(PDFName.of('Annots'), PDFArray);
+    const widgetRef = annots.get(0) as PDFRef;
+    const widget = reloaded.context.lookup(widgetRef, PDFDict);
+    const key = widget.lookup(PDFName.of('StructParent'), PDFNumber).asNumber();
+    const formElem = reloaded.context.lookup(nums.get(nums.asArray().findIndex((n) => n instanceof PDFNumber && n.asNumber() === key) + 1), PDFDict);
+    expect(formElem.get(PDFName.of('S'))).toBe(PDFName.of('Form'));
+    const objr = formElem.lookup(PDFName.of('K'), PDFDict);
+    expect(objr.get(PDFName.of('Type'))).toBe(PDFName.of('OBJR'));
+    expect(objr.get(PDFName.of('Obj'))?.toString()).toBe(widgetRef.toString());
+
+    const again = await pdfModifierService.tagFormFields(reloaded);
+    expect(again.after).toBe('0 /Form element(s) added');
+  });
+
+  it('does not tag an untagged PDF', async () => {
+    const doc = await buildFormPdf(false);
+    const result = await pdfModifierService.tagFormFields(doc);
+    expect(result.success).toBe(false);
+  });
+});
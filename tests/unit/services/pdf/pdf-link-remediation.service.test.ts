@@ -0,0 +1,185 @@
+/**
+ * Tests for link remediation: /Contents proposals, bare URL detection and
+ * the annotations and /Link tags written to the PDF.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { PDFDocument, PDFDict, PDFName, PDFArray, PDFHexString, PDFString, PDFNumber, PDFRef, StandardFonts } from 'pdf-lib';
+import {
+  describeLinkTarget,
+  proposeLinkContents,
+  linkTextInRect,
+  findBareUrls,
+  pdfLinkRemediationService,
+} from '../../../../src/services/pdf/pdf-link-remediation.service';
+import type { TextRun } from '../../../../src/services/pdf/pdf-form-field.service';
+
+const { logChangesSafely } = vi.hoisted(() => ({ logChangesSafely: vi.fn() }));
+
+vi.mock('../../../../src/lib/prisma', () => ({ default: {} }));
+
+vi.mock('../../../../src/services/comparison', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../../../../src/services/comparison')>()),
+  ComparisonService: vi.fn(function () {
+    return { logChangesSafely };
+  }),
+}));
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function run(text: string, x: number, y: number, width = text.length * 5, height = 10): TextRun {
+  return { text, x, y, width, height };
+}
+
+describe('describeLinkTarget', () => {
+  it('describes web, email and internal targets', () => {
+    expect(describeLinkTarget({ uri: 'https://www.example.com/reports/annual%202024.pdf' }))
+      .toBe('example.com/reports/annual 2024.pdf');
+    expect(describeLinkTarget({ uri: 'mailto:help@example.com?subject=Hi' })).toBe('Email help@example.com');
+    expect(describeLinkTarget({ destPage: 4 })).toBe('Go to page 4');
+    expect(describeLinkTarget({})).toBeNull();
+  });
+});
+
+describe('proposeLinkContents', () => {
+  const target = { uri: 'https://example.com/reports/2024' };
+
+  it('keeps descriptive visible text', () => {
+    expect(proposeLinkContents('Annual report 2024', target)).toBe('Annual report 2024');
+  });
+
+  it('replaces a raw URL with a readable target', () => {
+    expect(proposeLinkContents('https://example.com/reports/2024', target)).toBe('example.com/reports/2024');
+  });
+
+  it('keeps a generic phrase and adds the target', () => {
+    expect(proposeLinkContents('Read more', target)).toBe('Read more (example.com/reports/2024)');
+    expect(proposeLinkContents('click here', {})).toBeNull();
+  });
+});
+
+describe('linkTextInRect', () => {
+  it('cuts runs at the link rectangle', () => {
+    const runs = [run('See the annual report here.', 50, 700, 135)];
+    expect(linkTextInRect(runs, { x: 70, y: 698, width: 85, height: 14 })).toBe('the annual report');
+  });
+});
+
+describe('findBareUrls', () => {
+  it('finds URLs not covered by a link and trims trailing punctuation', () => {
+    const runs = [run('Visit www.example.org/help.', 50, 600, 135), run('Or https://a.example.com', 50, 580, 120)];
+    const found = findBareUrls(runs, 1, [{ x: 60, y: 578, width: 120, height: 12 }]);
+
+    expect(found).toHaveLength(1);
+    expect(found[0]).toMatchObject({ url: 'https://www.example.org/help', pageNumber: 1 });
+    expect(found[0].rect).toMatchObject({ x: 80, width: 100 });
+  });
+});
+
+async function buildLinkPdf(): Promise<{ doc: PDFDocument; buffer: Buffer }> {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([612, 792]);
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  page.drawText('Read more', { x: 50, y: 700, size: 10, font });
+  page.drawText('Visit www.example.org/help for details', { x: 50, y: 600, size: 10, font });
+
+  const link = doc.context.obj({
+    Type: PDFName.of('Annot'),
+    Subtype: PDFName.of('Link'),
+    Rect: [48, 697, 100, 711],
+    Border: [0, 0, 0],
+    A: { S: PDFName.of('URI'), URI: PDFString.of('https://example.com/reports/2024') },
+  });
+  page.node.set(PDFName.of('Annots'), doc.context.obj([doc.context.register(link)]));
+
+  const documentElem = doc.context.obj({ Type: PDFName.of('StructElem'), S: PDFName.of('Document'), K: [] });
+  const documentRef = doc.context.register(documentElem);
+  const root = doc.context.obj({ Type: PDFName.of('StructTreeRoot'), K: documentRef });
+  const rootRef = doc.context.register(root);
+  documentElem.set(PDFName.of('P'), rootRef);
+  doc.catalog.set(PDFName.of('StructTreeRoot'), rootRef);
+
+  const buffer = Buffer.from(await doc.save());
+  return { doc: await PDFDocument.load(buffer), buffer };
+}
+
+describe('pdfLinkRemediationService.remediateLinks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('describes links, links bare URLs and tags every link as /Link', async () => {
+    const { doc, buffer } = await buildLinkPdf();
+
+    const result = await pdfLinkRemediationService.remediateLinks(doc, buffer);
+
+    expect(result).toMatchObject({ descriptionsSet: 1, linksAdded: 1 });
+    expect(result.changes.map((c) => c.ruleId)).toEqual(['LINK-NO-CONTENTS', 'LINK-BARE-URL', 'LINK-NOT-TAGGED']);
+
+    const reloaded = await PDFDocument.load(await doc.save());
+    const annots = reloaded.getPage(0).node.lookup(PDFName.of('Annots'), PDFArray);
+    expect(annots.size()).toBe(2);
+
+    const existing = annots.lookup(0, PDFDict);
+    expect(existing.lookup(PDFName.of('Contents'), PDFHexString).decodeText())
+      .toBe('Read more (example.com/reports/2024)');
+
+    const added = annots.lookup(1, PDFDict);
+    const action = added.lookup(PDFName.of('A'), PDFDict);
+    expect(action.lookup(PDFName.of('URI'), PDFString).decodeText()).toBe('https://www.example.org/help');
+    expect(added.lookup(PDFName.of('Contents'), PDFHexString).decodeText()).toBe('example.org/help');
+
+    const root = reloaded.catalog.lookup(PDFName.of('StructTreeRoot'), PDFDict);
+    const nums = root.lookup(PDFName.of('ParentTree'), PDFDict).lookup(PDFName.of('Nums'), PDFArray);
+    expect(nums.size()).toBe(4);
+    const key = added.lookup(PDFName.of('StructParent'), PDFNumber).asNumber();
+    const linkElem = reloaded.context.lookup(
+      nums.get(nums.asArray().findIndex((n) => n instanceof PDFNumber && n.asNumber() === key) + 1),
+      PDFDict
+    );
+    expect(linkElem.get(PDFName.of('S'))).toBe(PDFName.of('Link'));
+    const objr = linkElem.lookup(PDFName.of('K'), PDFDict);
+    expect(objr.get(PDFName.of('Obj'))?.toString()).toBe((annots.get(1) as PDFRef).toString());
+  });
+
+  it('makes no changes on a second run', async () => {
+    const { doc, buffer } = await buildLinkPdf();
+    await pdfLinkRemediationService.remediateLinks(doc, buffer);
+    const saved = Buffer.from(await doc.save());
+
+    const again = await pdfLinkRemediationService.remediateLinks(await PDFDocument.load(saved), saved);
+    expect(again.changes).toEqual([]);
+  });
+
+  it('logs each change for the comparison report', async () => {
+    logChangesSafely.mockResolvedValue(1);
+    await pdfLinkRemediationService.logChanges('job-1', 'doc.pdf', [{
+      success: true,
+      ruleId: 'LINK-BARE-URL',
+      description: 'Made URL clickable on page 1',
+      pageNumber: 1,
+      before: 'Plain text: https://example.org',
+      after: 'Link annotation → https://example.org',
+    }], 'user-1');
+
+    expect(logChangesSafely).toHaveBeenCalledWith(
+      [expect.objectContaining({
+        jobId: 'job-1',
+        ruleId: 'LINK-BARE-URL',
+        filePath: 'doc.pdf',
+        changeType: 'add-link-annotation',
+        wcagCriteria: '2.4.4',
+        severity: 'MINOR',
+        appliedBy: 'user-1',
+      })],
+      { jobId: 'job-1', source: 'PdfLinkRemediation' }
+    );
+  });
+});
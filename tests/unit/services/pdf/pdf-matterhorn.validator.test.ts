@@ -0,0 +1,171 @@
+import { describe, it, expect } from 'vitest';
+import { PDFDocument, PDFName, PDFDict, PDFRef, PDFString, PDFArray } from 'pdf-lib';
+import {
+  pdfMatterhornValidator,
+  MATTERHORN_VALIDATOR_CONDITIONS,
+} from '../../../../src/services/pdf/validators/pdf-matterhorn.validator';
+import type { ParsedPDF } from '../../../../src/services/pdf/pdf-parser.service';
+
+// The validator only touches parsedPdf.pdfLibDoc.
+const asParsed = (doc: PDFDocument): ParsedPDF => ({ pdfLibDoc: doc } as unknown as ParsedPDF);
+
+interface ElemSpec {
+  S: string;
+  K?: Array<ElemSpec | number | { annot: PDFRef }>;
+  extra?: Record<string, unknown>;
+}
+
+/** Tagged one-page PDF from a nested element spec; returns the refs of OBJR'd annotations' parents. */
+async function taggedPdf(
+  kids: ElemSpec[],
+  options: { roleMap?: Record<string, string>; lang?: string; annots?: Array<Record<string, unknown>>; tabs?: string } = {}
+): Promise<{ doc: PDFDocument; annotRefs: PDFRef[] }> {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([600, 800]);
+  const ctx = doc.context;
+
+  const annotRefs = (options.annots ?? []).map((a) =>
+    ctx.register(ctx.obj({ Type: 'Annot', Rect: [100, 700, 200, 720], ...a } as Record<string, never>))
+  );
+  if (annotRefs.length > 0) page.node.set(PDFName.of('Annots'), ctx.obj(annotRefs));
+  if (options.tabs) page.node.set(PDFName.of('Tabs'), PDFName.of(options.tabs));
+
+  const rootRef = ctx.nextRef();
+  const build = (spec: ElemSpec, parent: PDFRef): PDFRef => {
+    const ref = ctx.nextRef();
+    const dict = ctx.obj({ Type: 'StructElem', S: spec.S, P: parent, Pg: page.ref, ...(spec.extra ?? {}) } as Record<string, never>);
+    const k = (spec.K ?? []).map((kid) => {
+      if (typeof kid === 'number') return ctx.obj(kid);
+      if ('annot' in kid) return ctx.obj({ Type: 'OBJR', Obj: kid.annot });
+      return build(kid, ref);
+    });
+    dict.set(PDFName.of('K'), ctx.obj(k));
+    ctx.assign(ref, dict);
+    return ref;
+  };
+  const root = ctx.obj({ Type: 'StructTreeRoot' });
+  root.set(PDFName.of('K'), ctx.obj(kids.map((k) => build(k, rootRef))));
+  if (options.roleMap) root.set(PDFName.of('RoleMap'), ctx.obj(options.roleMap));
+  ctx.assign(rootRef, root);
+  doc.catalog.set(PDFName.of('StructTreeRoot'), rootRef);
+  if (options.lang !== undefined) doc.catalog.set(PDFName.of('Lang'), PDFString.of(options.lang));
+  return { doc, annotRefs };
+}
+
+const conditionsOf = (issues: Array<{ matterhornCheckpoint?: string }>) =>
+  [...new Set(issues.map((i) => i.matterhornCheckpoint).filter(Boolean))].sort();
+
+describe('pdfMatterhornValidator', () => {
+  it('passes a well-formed tagged document on structure and annotation conditions', async () => {
+    const { doc: tagged } = await taggedPdf(
+      [{ S: 'Document', K: [{ S: 'H1', K: [0] }, { S: 'L', K: [{ S: 'LI', K: [{ S: 'Lbl', K: [1] }, { S: 'LBody', K: [2] }] }] }] }],
+      { lang: 'en-GB' }
+    );
+    tagged.setTitle('Report', { showInWindowTitleBar: true });
+
+    const result = await pdfMatterhornValidator.validate(asParsed(tagged));
+
+    expect(result.testedConditions).toEqual([...MATTERHORN_VALIDATOR_CONDITIONS]);
+    expect(result.metadata.structureElements).toBe(6);
+    // pdf-lib writes no XMP stream; nothing else should fail
+    expect(conditionsOf(result.issues)).toEqual(['06-001']);
+  });
+
+  it('reports role-map cycles, remapped standard types and unmapped custom types', async () => {
+    const { doc } = await taggedPdf([{ S: 'Chapter', K: [0] }, { S: 'Aside', K: [1] }, { S: 'Weird', K: [2] }], {
+      lang: 'en',
+      roleMap: { Chapter: 'Sect', P: 'Span', Aside: 'Box', Box: 'Aside', Weird: 'Other' },
+    });
+
+    const { issues } = await pdfMatterhornValidator.validate(asParsed(doc));
+
+    expect(issues.find((i) => i.code === 'MATTERHORN-02-004')?.message).toContain('"P" is remapped');
+    expect(issues.filter((i) => i.code === 'MATTERHORN-02-003')).toHaveLength(1);
+    expect(issues.find((i) => i.code === 'MATTERHORN-02-001')?.message).toContain('"Weird"');
+  });
+
+  it('groups misnested table and list elements, bad /Lang values and empty elements per page', async () => {
+    const { doc } = await taggedPdf(
+      [{
+        S: 'Document',
+        K: [
+          { S: 'Table', K: [{ S: 'TD', K: [0] }, { S: 'TR', K: [{ S: 'TD' }] }] },
+          { S: 'LI', K: [{ S: 'P', K: [1] }] },
+          { S: 'Span', K: [2], extra: { Lang: PDFString.of('') } },
+          { S: 'Span', K: [3], extra: { Lang: PDFString.of('English') } },
+          { S: 'P' },
+        ],
+      }],
+      { lang: 'en' }
+    );
+
+    const { issues } = await pdfMatterhornValidator.validate(asParsed(doc));
+
+    const table = issues.find((i) => i.code === 'MATTERHORN-09-004')!;
+    expect(table.message).toBe('2 Table structure element(s) on page 1 are nested incorrectly');
+    // the same problem is listed once in the context sample
+    expect(table.context).toBe('TD inside Table');
+    expect(issues.find((i) => i.code === 'MATTERHORN-09-005')?.context).toBe('LI inside Document; P inside LI');
+    expect(issues.find((i) => i.code === 'MATTERHORN-11-001')?.context).toBe('Span with an empty /Lang; Span /Lang "English"');
+    // the empty TD keeps its table slot; the empty P is reported
+    expect(issues.find((i) => i.code === 'PDF-EMPTY-STRUCTURE-ELEMENT')?.context).toBe('P');
+  });
+
+  it('flags mixed H / Hn headings, several H in one node and a first heading other than H1', async () => {
+    const { doc } = await taggedPdf([{ S: 'Sect', K: [{ S: 'H2', K: [0] }, { S: 'H', K: [1] }, { S: 'H', K: [2] }] }], { lang: 'en' });
+
+    const { issues } = await pdfMatterhornValidator.validate(asParsed(doc));
+
+    expect(conditionsOf(issues)).toEqual(expect.arrayContaining(['14-002', '14-006', '14-007']));
+  });
+
+  it('checks annotations are nested in the right tags, described and visited in structure order', async () => {
+    const { doc, annotRefs } = await taggedPdf([], {
+      lang: 'en',
+      annots: [
+        { Subtype: 'Link' },
+        { Subtype: 'Widget', FT: 'Tx', T: PDFString.of('name'), TU: PDFString.of('Full name') },
+        { Subtype: 'Text' },
+        { Subtype: 'Popup' },
+        { Subtype: 'TrapNet', F: 2 },
+      ],
+    });
+
+    // Put the widget into a Form tag; the link and text annotation stay untagged
+    const root = doc.context.lookup(doc.catalog.get(PDFName.of('StructTreeRoot')), PDFDict);
+    const formRef = doc.context.register(
+      doc.context.obj({ Type: 'StructElem', S: 'Form', K: [doc.context.obj({ Type: 'OBJR', Obj: annotRefs[1] })] })
+    );
+    root.set(PDFName.of('K'), doc.context.obj([formRef]));
+
+    const { issues } = await pdfMatterhornValidator.validate(asParsed(doc));
+
+    expect(conditionsOf(issues.filter((i) => i.category !== 'metadata'))).toEqual([
+      '28-002', '28-004', '28-007', '28-008', '28-011', '28-012',
+    ]);
+    const link = issues.find((i) => i.code === 'MATTERHORN-28-011')!;
+    expect(link.pageNumber).toBe(1);
+    expect(link.boundingBox).toMatchObject({ x: 100, y: 80, width: 100, height: 20 });
+  });
+
+  it('reports language conditions when the document has no /Lang', async () => {
+    const { doc } = await taggedPdf([{ S: 'Figure', K: [0], extra: { Alt: PDFString.of('Chart') } }], {
+      annots: [{ Subtype: 'Link', Contents: PDFString.of('Go to page 2') }],
+      tabs: 'S',
+    });
+    doc.setTitle('Untitled');
+    const outline = doc.context.register(doc.context.obj({ Type: 'Outlines', First: doc.context.obj([]) as PDFArray }));
+    doc.catalog.set(PDFName.of('Outlines'), outline);
+
+    const { issues } = await pdfMatterhornValidator.validate(asParsed(doc));
+
+    expect(conditionsOf(issues)).toEqual(expect.arrayContaining(['11-002', '11-003', '11-004', '11-006']));
+    expect(conditionsOf(issues)).not.toContain('11-001');
+  });
+
+  it('returns nothing tested without a pdf-lib document', async () => {
+    const result = await pdfMatterhornValidator.validate({} as ParsedPDF);
+    expect(result.issues).toEqual([]);
+    expect(result.testedConditions).toEqual([]);
+  });
+});
@@ -0,0 +1,125 @@
+/**
+ * Tests for bookmark (outline) generation: heading nesting and the
+ * /Outlines tree written by pdfModifierService.addOutline.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { PDFDocument, PDFDict, PDFName, PDFArray, PDFHexString, PDFNumber, PDFRef } from 'pdf-lib';
+import { buildOutlineTree, pdfOutlineService, type OutlineHeading } from '../../../../src/services/pdf/pdf-outline.service';
+import { pdfModifierService } from '../../../../src/services/pdf/pdf-modifier.service';
+
+vi.mock('../../../../src/lib/prisma', () => ({
+  default: {
+    job: { findUnique: vi.fn() },
+    zone: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function heading(level: number, title: string, pageNumber: number, top = 700): OutlineHeading {
+  return { level, title, pageNumber, x: 72, top };
+}
+
+describe('buildOutlineTree', () => {
+  it('nests headings under the nearest preceding lower level', () => {
+    const tree = buildOutlineTree([
+      heading(1, 'Introduction', 1),
+      heading(2, 'Background', 2),
+      heading(3, 'Prior work', 2, 400),
+      heading(2, 'Scope', 3),
+      heading(1, 'Method', 4),
+    ]);
+
+    expect(tree.map((n) => n.title)).toEqual(['Introduction', 'Method']);
+    expect(tree[0].children.map((n) => n.title)).toEqual(['Background', 'Scope']);
+    expect(tree[0].children[0].children[0]).toMatchObject({ title: 'Prior work', pageNumber: 2, top: 400 });
+  });
+
+  it('keeps skipped levels under the previous heading', () => {
+    const tree = buildOutlineTree([heading(1, 'Part One', 1), heading(3, 'A detail', 1, 500)]);
+    expect(tree[0].children[0].title).toBe('A detail');
+  });
+
+  it('merges a generic heading with the descriptive heading that follows it', () => {
+    const tree = buildOutlineTree([
+      heading(1, 'Chapter 3', 5),
+      heading(2, '  Financial   Risk ', 5, 650),
+      heading(2, 'Exposure', 6),
+    ]);
+
+    expect(tree).toHaveLength(1);
+    expect(tree[0].title).toBe('Chapter 3: Financial Risk');
+    expect(tree[0].children.map((n) => n.title)).toEqual(['Exposure']);
+  });
+
+  it('drops empty headings', () => {
+    expect(buildOutlineTree([heading(1, '   ', 1)])).toEqual([]);
+  });
+});
+
+describe('pdfModifierService.addOutline', () => {
+  it('writes a nested outline with XYZ destinations on the right pages', async () => {
+    const doc = await PDFDocument.create();
+    for (let i = 0; i < 3; i++) doc.addPage([612, 792]);
+
+    const result = await pdfModifierService.addOutline(
+      doc,
+      buildOutlineTree([
+        heading(1, 'Introduction', 1, 720),
+        heading(2, 'Background', 2, 500),
+        heading(1, 'Method', 3, 680),
+      ]),
+    );
+    expect(result.success).toBe(true);
+    expect(result.after).toBe('3 bookmark(s)');
+
+    const reloaded = await PDFDocument.load(await doc.save());
+    const outlines = reloaded.catalog.lookup(PDFName.of('Outlines'), PDFDict);
+    expect(reloaded.catalog.get(PDFName.of('PageMode'))).toBe(PDFName.of('UseOutlines'));
+    expect(outlines.lookup(PDFName.of('Count'), PDFNumber).asNumber()).toBe(2);
+
+    const first = outlines.lookup(PDFName.of('First'), PDFDict);
+    expect(first.lookup(PDFName.of('Title'), PDFHexString).decodeText()).toBe('Introduction');
+    expect(first.lookup(PDFName.of('Count'), PDFNumber).asNumber()).toBe(-1);
+
+    const child = first.lookup(PDFName.of('First'), PDFDict);
+    expect(child.lookup(PDFName.of('Title'), PDFHexString).decodeText()).toBe('Background');
+    const dest = child.lookup(PDFName.of('Dest'), PDFArray);
+    expect((dest.get(0) as PDFRef).toString()).toBe(reloaded.getPage(1).ref.toString());
+    expect(dest.get(1)).toBe(PDFName.of('XYZ'));
+    expect((dest.get(3) as PDFNumber).asNumber()).toBe(500);
+
+    const second = first.lookup(PDFName.of('Next'), PDFDict);
+    expect(second.lookup(PDFName.of('Title'), PDFHexString).decodeText()).toBe('Method');
+    expect(outlines.get(PDFName.of('Last'))?.toString()).toBe(first.get(PDFName.of('Next'))?.toString());
+  });
+
+  it('fails without touching the catalog when there is nothing to write', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage();
+
+    const result = await pdfModifierService.addOutline(doc, []);
+    expect(result.success).toBe(false);
+    expect(doc.catalog.get(PDFName.of('Outlines'))).toBeUndefined();
+  });
+});
+
+describe('pdfOutlineService.generateOutline', () => {
+  it('reports failure and leaves the document alone when it has no headings', async () => {
+    const doc = await PDFDocument.create();
+    doc.addPage();
+
+    const result = await pdfOutlineService.generateOutline(doc);
+    expect(result.success).toBe(false);
+    expect(result.error).toMatch(/no H1–H6/);
+    expect(doc.catalog.get(PDFName.of('Outlines'))).toBeUndefined();
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * Tests for the reading-order editor: listing the structure tree as blocks
+ * per page, reorder / merge / split / retag edits (including the ParentTree
+ * entries of moved MCIDs), and undoing edits within a remediation session.
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { createHash } from 'crypto';
+import { PDFDocument, PDFDict, PDFName, PDFArray, PDFNumber, PDFRef } from 'pdf-lib';
+
+vi.mock('../../../../src/lib/prisma', () => ({
+  default: {
+    remediationSession: { findUnique: vi.fn() },
+    structureEdit: { create: vi.fn(), findFirst: vi.fn(), findMany: vi.fn(), update: vi.fn(), updateMany: vi.fn() },
+  },
+}));
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../../../../src/services/storage/file-storage.service', () => ({
+  fileStorageService: {
+    getFile: vi.fn(),
+    saveFile: vi.fn(),
+    deleteFile: vi.fn(),
+    getRemediatedFile: vi.fn(),
+    saveRemediatedFile: vi.fn(),
+  },
+}));
+
+import prisma from '../../../../src/lib/prisma';
+import { fileStorageService } from '../../../../src/services/storage/file-storage.service';
+import {
+  buildReadingOrder,
+  pdfReadingOrderService,
+} from '../../../../src/services/pdf/pdf-reading-order.service';
+import {
+  pdfStructureWriterService,
+  structureElementId,
+} from '../../../../src/services/pdf/pdf-structure-writer.service';
+
+const mockPrisma = prisma as unknown as {
+  remediationSession: { findUnique: ReturnType<typeof vi.fn> };
+  structureEdit: {
+    create: ReturnType<typeof vi.fn>;
+    findFirst: ReturnType<typeof vi.fn>;
+    findMany: ReturnType<typeof vi.fn>;
+    update: ReturnType<typeof vi.fn>;
+    updateMany: ReturnType<typeof vi.fn>;
+  };
+};
+const mockStorage = fileStorageService as unknown as Record<string, ReturnType<typeof vi.fn>>;
+
+interface TaggedPdf {
+  doc: PDFDocument;
+  ids: { document: string; p1: string; h1: string; p2: string; p3: string };
+}
+
+/**
+ * Two-page tagged PDF: Document > P1 (mcid 0), H1 (mcid 1), P2 (mcids 2, 3)
+ * on page 1 and P3 (mcid 0) on page 2, with a ParentTree for both pages.
+ */
+async function buildTaggedPdf(): Promise<TaggedPdf> {
+  const doc = await PDFDocument.create();
+  const page1 = doc.addPage([612, 792]);
+  const page2 = doc.addPage([612, 792]);
+  const ctx = doc.context;
+  page1.node.set(PDFName.of('StructParents'), PDFNumber.of(0));
+  page2.node.set(PDFName.of('StructParents'), PDFNumber.of(1));
+
+  const rootRef = ctx.register(ctx.obj({ Type: PDFName.of('StructTreeRoot') }));
+  const documentRef = ctx.register(ctx.obj({ Type: PDFName.of('StructElem'), S: PDFName.of('Document'), P: rootRef }));
+  const elem = (tag: string, pg: PDFRef, k: number | number[]) =>
+    ctx.register(ctx.obj({ Type: PDFName.of('StructElem'), S: PDFName.of(tag), P: documentRef, Pg: pg, K: k }));
+  const p1 = elem('P', page1.ref, [0]);
+  const h1 = elem('H1', page1.ref, 1);
+  const p2 = elem('P', page1.ref, [2, 3]);
+  const p3 = elem('P', page2.ref, [0]);
+
+  ctx.lookup(documentRef, PDFDict).set(PDFName.of('K'), ctx.obj([p1, h1, p2, p3]));
+  const root = ctx.lookup(rootRef, PDFDict);
+  root.set(PDFName.of('K'), documentRef);
+  root.set(PDFName.of('ParentTree'), ctx.obj({ Nums: [0, ctx.register(ctx.obj([p1, h1, p2, p2])), 1, [p3]] }));
+  doc.catalog.set(PDFName.of('StructTreeRoot'), rootRef);
+
+  const id = structureElementId;
+  return { doc, ids: { document: id(documentRef), p1: id(p1), h1: id(h1), p2: id(p2), p3: id(p3) } };
+}
+
+function sha256(buffer: Buffer): string {
+  return createHash('sha256').update(buffer).digest('hex');
+}
+
+function dictOf(doc: PDFDocument, id: string): PDFDict {
+  const [obj, gen] = id.split('-').map(Number);
+  return doc.context.lookup(PDFRef.of(obj, gen), PDFDict);
+}
+
+function kidIds(doc: PDFDocument, id: string): string[] {
+  return dictOf(doc, id).lookup(PDFName.of('K'), PDFArray).asArray().map((k) => structureElementId(k as PDFRef));
+}
+
+function parentTreeEntry(doc: PDFDocument, key: number, mcid: number): string {
+  const root = doc.catalog.lookup(PDFName.of('StructTreeRoot'), PDFDict);
+  const nums = root.lookup(PDFName.of('ParentTree'), PDFDict).lookup(PDFName.of('Nums'), PDFArray);
+  const entries = nums.lookup(key * 2 + 1, PDFArray);
+  return structureElementId(entries.get(mcid) as PDFRef);
+}
+
+describe('listStructureBlocks', () => {
+  it('lists the children of grouping elements in tree order with their marked content', async () => {
+    const { doc, ids } = await buildTaggedPdf();
+    const blocks = pdfStructureWriterService.listStructureBlocks(doc);
+
+    expect(blocks.map((b) => [b.id, b.type, b.pageNumber])).toEqual([
+      [ids.p1, 'P', 1],
+      [ids.h1, 'H1', 1],
+      [ids.p2, 'P', 1],
+      [ids.p3, 'P', 2],
+    ]);
+    expect(blocks.every((b) => b.parentId === ids.document)).toBe(true);
+    expect(blocks[2].content).toEqual([{ pageNumber: 1, mcid: 2 }, { pageNumber: 1, mcid: 3 }]);
+  });
+});
+
+describe('structure edits', () => {
+  it('reorders the blocks of a page and leaves other pages in place', async () => {
+    const { doc, ids } = await buildTaggedPdf();
+    const result = pdfReadingOrderService.applyToDocument(doc, {
+      operation: 'reorder',
+      pageNumber: 1,
+      order: [ids.h1, ids.p1, ids.p2],
+    });
+
+    expect(result.success).toBe(true);
+    const reloaded = await PDFDocument.load(await doc.save());
+    expect(kidIds(reloaded, ids.document)).toEqual([ids.h1, ids.p1, ids.p2, ids.p3]);
+  });
+
+  it('rejects an order that does not list every block of the page', async () => {
+    const { doc, ids } = await buildTaggedPdf();
+    const result = pdfReadingOrderService.applyToDocument(doc, {
+      operation: 'reorder',
+      pageNumber: 1,
+      order: [ids.h1, ids.p1],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('each of the 3 block(s) on page 1');
+  });
+
+  it('fails without editing when a block is missing from its parent /K', async () => {
+    const { doc, ids } = await buildTaggedPdf();
+    const blocks = pdfStructureWriterService.listStructureBlocks(doc);
+    vi.spyOn(pdfStructureWriterService, 'listStructureBlocks').mockReturnValueOnce(
+      blocks.map((b) => (b.id === ids.p1 ? { ...b, parentId: ids.p2 } : b))
+    );
+
+    const result = pdfReadingOrderService.applyToDocument(doc, {
+      operation: 'reorder',
+      pageNumber: 1,
+      order: [ids.h1, ids.p1, ids.p2],
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(`Block ${ids.p1} is not listed in its parent's /K`);
+    expect(kidIds(doc, ids.document)).toEqual([ids.p1, ids.h1, ids.p2, ids.p3]);
+  });
+
+  it('merges elements and repoints the ParentTree entries of the moved MCIDs', async () => {
+    const { doc, ids } = await buildTaggedPdf();
+    const result = pdfReadingOrderService.applyToDocument(doc, { operation: 'merge', ids: [ids.p2, ids.p3] });
+
+    expect(result.success).toBe(true);
+    expect(kidIds(doc, ids.document)).toEqual([ids.p1, ids.h1, ids.p2]);
+    // MCID 0 of page 2 now belongs to P2, whose /Pg is page 1 → marked-content reference
+    const moved = dictOf(doc, ids.p2).lookup(PDFName.of('K'), PDFArray).lookup(2, PDFDict);
+    expect(moved.get(PDFName.of('Type'))).toBe(PDFName.of('MCR'));
+    expect(moved.get(PDFName.of('Pg'))).toBe(doc.getPages()[1].ref);
+    expect(parentTreeEntry(doc, 1, 0)).toBe(ids.p2);
+  });
+
+  it('refuses to merge an element into its own descendant', async () => {
+    const { doc, ids } = await buildTaggedPdf();
+    const result = pdfReadingOrderService.applyToDocument(doc, { operation: 'merge', ids: [ids.p1, ids.document] });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain(`${ids.document} contains ${ids.p1}`);
+  });
+
+  it('splits an element after its first child into a new sibling', async () => {
+    const { doc, ids } = await buildTaggedPdf();
+    const result = pdfReadingOrderService.applyToDocument(doc, { operation: 'split', id: ids.p2, at: 1 });
+
+    expect(result.success).toBe(true);
+    const created = result.createdId!;
+    expect(kidIds(doc, ids.document)).toEqual([ids.p1, ids.h1, ids.p2, created, ids.p3]);
+    expect(dictOf(doc, created).get(PDFName.of('S'))).toBe(PDFName.of('P'));
+    expect(dictOf(doc, created).lookup(PDFName.of('K'), PDFArray).asArray()).toEqual([PDFNumber.of(3)]);
+    expect(parentTreeEntry(doc, 0, 3)).toBe(created);
+    expect(parentTreeEntry(doc, 0, 2)).toBe(ids.p2);
+  });
+
+  it('retags an element and reports unknown ids', async () => {
+    const { doc, ids } = await buildTaggedPdf();
+
+    expect(pdfReadingOrderService.applyToDocument(doc, { operation: 'retag', id: ids.p1, type: 'H2' })).toMatchObject({
+      success: true,
+      description: `Retagged ${ids.p1} from P to H2`,
+    });
+    expect(pdfReadingOrderService.applyToDocument(doc, { operation: 'retag', id: '9999-0', type: 'P' })).toMatchObject({
+      success: false,
+      error: 'Unknown structure element 9999-0',
+    });
+  });
+});
+
+describe('buildReadingOrder', () => {
+  it('groups blocks per page with the text of their marked content', async () => {
+    const { doc, ids } = await buildTaggedPdf();
+    const text = new Map([
+      ['1:2', 'Second '],
+      ['1:3', 'paragraph'],
+      ['2:0', 'Page two'],
+    ]);
+    const order = buildReadingOrder(pdfStructureWriterService.listStructureBlocks(doc), text);
+
+    expect(order.tagged).toBe(true);
+    expect(order.pages.map((p) => p.items.map((i) => i.id))).toEqual([[ids.p1, ids.h1, ids.p2], [ids.p3]]);
+    expect(order.pages[0].items[2]).toMatchObject({ text: 'Second paragraph', mcids: [2, 3], spansPages: false });
+  });
+});
+
+describe('pdfReadingOrderService.undoLastEdit', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.remediationSession.findUnique.mockResolvedValue({ id: 'sess-1', jobId: 'job-1', endedAt: null });
+  });
+
+  it('restores the snapshot of the newest edit and marks it undone', async () => {
+    const snapshot = Buffer.from('%PDF-before');
+    const edited = Buffer.from('%PDF-after');
+    mockPrisma.structureEdit.findFirst.mockResolvedValue({
+      id: 'edit-2',
+      sessionId: 'sess-1',
+      snapshotFileName: 'structure-edit-2.pdf',
+      resultSha256: sha256(edited),
+      description: 'Split',
+    });
+    mockStorage.getRemediatedFile.mockResolvedValue(edited);
+    mockStorage.getFile.mockResolvedValue(snapshot);
+    mockStorage.saveRemediatedFile.mockResolvedValue('/storage/job-1/remediated/doc.pdf');
+    mockPrisma.structureEdit.update.mockResolvedValue({ id: 'edit-2' });
+
+    const { savedPath } = await pdfReadingOrderService.undoLastEdit('job-1', 'doc.pdf', 'sess-1');
+
+    expect(mockStorage.saveRemediatedFile).toHaveBeenCalledWith('job-1', 'doc.pdf', snapshot);
+    expect(mockPrisma.structureEdit.update).toHaveBeenCalledWith({
+      where: { id: 'edit-2' },
+      data: { undoneAt: expect.any(Date) },
+    });
+    expect(mockStorage.deleteFile).toHaveBeenCalledWith('job-1', 'structure-edit-2.pdf');
+    expect(savedPath).toBe('/storage/job-1/remediated/doc.pdf');
+  });
+
+  it('refuses to undo when the PDF changed after the edit', async () => {
+    mockPrisma.structureEdit.findFirst.mockResolvedValue({
+      id: 'edit-2',
+      sessionId: 'sess-1',
+      snapshotFileName: 'structure-edit-2.pdf',
+      resultSha256: sha256(Buffer.from('%PDF-after')),
+      description: 'Split',
+    });
+    mockStorage.getRemediatedFile.mockResolvedValue(Buffer.from('%PDF-after-link-remediation'));
+
+    await expect(pdfReadingOrderService.undoLastEdit('job-1', 'doc.pdf', 'sess-1')).rejects.toMatchObject({
+      statusCode: 409,
+      message: 'The PDF has changed since this structure edit, so it can no longer be undone',
+    });
+    expect(mockStorage.saveRemediatedFile).not.toHaveBeenCalled();
+    expect(mockPrisma.structureEdit.update).not.toHaveBeenCalled();
+  });
+
+  it('refuses to undo past a later edit from another session', async () => {
+    mockPrisma.structureEdit.findFirst
+      .mockResolvedValueOnce({ id: 'edit-3', sessionId: 'sess-2' })
+      .mockResolvedValueOnce({ id: 'edit-2', sessionId: 'sess-1' });
+
+    await expect(pdfReadingOrderService.undoLastEdit('job-1', 'doc.pdf', 'sess-1')).rejects.toMatchObject({
+      statusCode: 409,
+    });
+    expect(mockStorage.saveRemediatedFile).not.toHaveBeenCalled();
+  });
+
+  it('rejects edits in a session that has ended', async () => {
+    mockPrisma.remediationSession.findUnique.mockResolvedValue({ id: 'sess-1', jobId: 'job-1', endedAt: new Date() });
+
+    await expect(pdfReadingOrderService.undoLastEdit('job-1', 'doc.pdf', 'sess-1')).rejects.toMatchObject({
+      statusCode: 409,
+    });
+  });
+});
+
+describe('pdfReadingOrderService.applyEdit', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPrisma.remediationSession.findUnique.mockResolvedValue({ id: 'sess-1', jobId: 'job-1', endedAt: null });
+    mockPrisma.structureEdit.create.mockImplementation(async ({ data }) => ({ id: 'edit-new', ...data }));
+    mockStorage.saveRemediatedFile.mockResolvedValue('/storage/job-1/remediated/doc.pdf');
+  });
+
+  it('records the hash of the saved PDF and prunes snapshots another writer made stale', async () => {
+    const { doc, ids } = await buildTaggedPdf();
+    const current = Buffer.from(await doc.save());
+    mockStorage.getRemediatedFile.mockResolvedValue(current);
+    mockPrisma.structureEdit.findMany.mockResolvedValue([
+      { id: 'edit-2', snapshotFileName: 'structure-edit-2.pdf', resultSha256: 'before-table-apply' },
+      { id: 'edit-1', snapshotFileName: 'structure-edit-1.pdf', resultSha256: 'older' },
+    ]);
+
+    const { edit } = await pdfReadingOrderService.applyEdit('job-1', 'doc.pdf', 'sess-1', 'user-1', {
+      operation: 'retag',
+      id: ids.p1,
+      type: 'H2',
+    });
+
+    expect(mockStorage.deleteFile).toHaveBeenCalledWith('job-1', 'structure-edit-2.pdf');
+    expect(mockStorage.deleteFile).toHaveBeenCalledWith('job-1', 'structure-edit-1.pdf');
+    expect(mockPrisma.structureEdit.updateMany).toHaveBeenCalledWith({
+      where: { id: { in: ['edit-2', 'edit-1'] } },
+      data: { snapshotFileName: null },
+    });
+    const saved = mockStorage.saveRemediatedFile.mock.calls[0][2] as Buffer;
+    expect(edit.resultSha256).toBe(sha256(saved));
+  });
+
+  it('keeps the snapshots of edits that can still be undone', async () => {
+    const { doc, ids } = await buildTaggedPdf();
+    const current = Buffer.from(await doc.save());
+    mockStorage.getRemediatedFile.mockResolvedValue(current);
+    mockPrisma.structureEdit.findMany.mockResolvedValue([
+      { id: 'edit-1', snapshotFileName: 'structure-edit-1.pdf', resultSha256: sha256(current) },
+    ]);
+
+    await pdfReadingOrderService.applyEdit('job-1', 'doc.pdf', 'sess-1', 'user-1', {
+      operation: 'retag',
+      id: ids.p1,
+      type: 'H2',
+    });
+
+    expect(mockStorage.deleteFile).not.toHaveBeenCalled();
+    expect(mockPrisma.structureEdit.updateMany).not.toHaveBeenCalled();
+  });
+});
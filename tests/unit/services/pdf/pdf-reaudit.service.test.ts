@@ -226,6 +226,90 @@ describe('PdfReauditService', () => {
       ]);
     });
 
+    it('should re-audit at the original scan level so bookmark fixes are checked', async () => {
+      const bookmarkIssue: AuditIssue = {
+        id: 'issue-bookmark',
+        source: 'bookmark-validator',
+        severity: 'serious',
+        code: 'BOOKMARK-MISSING',
+        message: 'Document has no bookmarks',
+        wcagCriteria: ['2.4.5'],
+        category: 'navigation',
+      };
+
+      vi.mocked(prisma.job.findUnique).mockResolvedValue({
+        id: mockJobId,
+        output: {
+          auditReport: { ...mockOriginalAuditReport, issues: [bookmarkIssue] },
+          scanLevel: 'comprehensive',
+        },
+      } as any);
+
+      vi.mocked(pdfAuditService.runAuditFromBuffer).mockResolvedValue({
+        ...mockOriginalAuditReport,
+        jobId: `${mockJobId}-reaudit`,
+        issues: [],
+      });
+      vi.mocked(fileStorageService.saveRemediatedFile).mockResolvedValue('/path/to/remediated.pdf');
+
+      const result = await pdfReauditService.reauditAndCompare(
+        mockJobId,
+        mockBuffer,
+        mockFileName
+      );
+
+      expect(pdfAuditService.runAuditFromBuffer).toHaveBeenCalledWith(
+        mockBuffer,
+        `${mockJobId}-reaudit`,
+        mockFileName,
+        'comprehensive',
+        undefined
+      );
+      expect(result.comparison.resolved.map(i => i.code)).toEqual(['BOOKMARK-MISSING']);
+    });
+
+    it('should re-run a custom scan with its original validators', async () => {
+      vi.mocked(prisma.job.findUnique).mockResolvedValue({
+        id: mockJobId,
+        output: {
+          auditReport: mockOriginalAuditReport,
+          scanLevel: 'custom',
+          customValidators: ['bookmarks', 'headings'],
+        },
+      } as any);
+      vi.mocked(pdfAuditService.runAuditFromBuffer).mockResolvedValue(mockOriginalAuditReport);
+      vi.mocked(fileStorageService.saveRemediatedFile).mockResolvedValue('/path/to/remediated.pdf');
+
+      await pdfReauditService.reauditAndCompare(mockJobId, mockBuffer, mockFileName);
+
+      expect(pdfAuditService.runAuditFromBuffer).toHaveBeenCalledWith(
+        mockBuffer,
+        `${mockJobId}-reaudit`,
+        mockFileName,
+        'custom',
+        ['bookmarks', 'headings']
+      );
+    });
+
+    it('should re-run a custom scan without recorded validators as comprehensive', async () => {
+      vi.mocked(prisma.job.findUnique).mockResolvedValue({
+        id: mockJobId,
+        output: { auditReport: mockOriginalAuditReport, scanLevel: 'custom' },
+      } as any);
+      vi.mocked(pdfAuditService.runAuditFromBuffer).mockResolvedValue(mockOriginalAuditReport);
+      vi.mocked(fileStorageService.saveRemediatedFile).mockResolvedValue('/path/to/remediated.pdf');
+
+      await pdfReauditService.reauditAndCompare(mockJobId, mockBuffer, mockFileName);
+
+      expect(pdfAuditService.runAuditFromBuffer).toHaveBeenCalledWith(
+        mockBuffer,
+        `${mockJobId}-reaudit`,
+        mockFileName,
+        'comprehensive',
+        undefined
+      );
+    });
+
     it('should identify regressions (new issues introduced)', async () => {
       // Setup: Original has 3 issues, new has 5 issues (2 new regressions)
       const mockNewIssues: AuditIssue[] = [
@@ -0,0 +1,188 @@
+/**
+ * Tests for table structure remediation: resolving an edited grid into
+ * scope / spans / headers, and rewriting the /Table subtree of a tagged PDF.
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import { PDFDocument, PDFDict, PDFName, PDFArray, PDFNumber, PDFRef, PDFString } from 'pdf-lib';
+import {
+  resolveTableGrid,
+  proposeGridFromTable,
+  pdfTableStructureService,
+} from '../../../../src/services/pdf/pdf-table-structure.service';
+import type { TableGrid, TableGridCell } from '../../../../src/schemas/pdf-table.schemas';
+import type { TableInfo } from '../../../../src/services/pdf/structure-analyzer.service';
+
+vi.mock('../../../../src/lib/prisma', () => ({ default: {} }));
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+function cell(type: 'TH' | 'TD', extra: Partial<TableGridCell> = {}): TableGridCell {
+  return { type, content: '', colspan: 1, rowspan: 1, align: 'left', ...extra };
+}
+
+function grid(...rows: TableGridCell[][]): TableGrid {
+  return { rows: rows.map((cells) => ({ cells })) };
+}
+
+describe('resolveTableGrid', () => {
+  it('scopes a header row and header column without ids for a simple table', () => {
+    const resolved = resolveTableGrid(
+      grid(
+        [cell('TH'), cell('TH'), cell('TH')],
+        [cell('TH'), cell('TD'), cell('TD')],
+      ),
+      'table_p1_0'
+    );
+
+    expect(resolved.complex).toBe(false);
+    expect(resolved.rows[0].map((c) => c.scope)).toEqual(['Column', 'Column', 'Column']);
+    expect(resolved.rows[1][0].scope).toBe('Row');
+    expect(resolved.rows.flat().every((c) => !c.id && c.headers.length === 0)).toBe(true);
+  });
+
+  it('assigns ids and headers in a table with spanned headers', () => {
+    const resolved = resolveTableGrid(
+      grid(
+        [cell('TH', { rowspan: 2 }), cell('TH', { colspan: 2 })],
+        [cell('TH'), cell('TH')],
+        [cell('TH'), cell('TD'), cell('TD')],
+      ),
+      't1'
+    );
+
+    expect(resolved.complex).toBe(true);
+    // Row 2 cells sit in columns 1 and 2 because the first column is spanned
+    expect(resolved.rows[1].map((c) => c.column)).toEqual([1, 2]);
+    expect(resolved.rows[0][1]).toMatchObject({ id: 't1-r1c2', colSpan: 2, scope: 'Column' });
+    expect(resolved.rows[2][2].headers).toEqual(['t1-r1c2', 't1-r2c3', 't1-r3c1']);
+    expect(resolved.rows[1][0].headers).toEqual(['t1-r1c2']);
+  });
+
+  it('keeps operator ids and headers and reports unknown references', () => {
+    const resolved = resolveTableGrid(
+      grid(
+        [cell('TH', { id: 'name' }), cell('TH', { id: 'qty' })],
+        [cell('TD', { headers: ['name'] }), cell('TD', { headers: ['amount'] })],
+      ),
+      't'
+    );
+
+    expect(resolved.rows[1][0].headers).toEqual(['name']);
+    expect(resolved.unknownHeaderIds).toEqual(['amount']);
+  });
+});
+
+describe('proposeGridFromTable', () => {
+  it('marks the proposed header row and column as TH', () => {
+    const table = {
+      cells: [
+        { row: 0, column: 1, text: 'Q1', isHeader: false, rowSpan: 1, colSpan: 1 },
+        { row: 0, column: 0, text: '', isHeader: false, rowSpan: 1, colSpan: 1 },
+        { row: 1, column: 0, text: 'Sales', isHeader: false, rowSpan: 1, colSpan: 1 },
+        { row: 1, column: 1, text: '10', isHeader: false, rowSpan: 1, colSpan: 1 },
+      ],
+    } as TableInfo;
+
+    const proposed = proposeGridFromTable(table, { headerRow: true, headerColumn: true });
+    expect(proposed.rows[0].cells.map((c) => [c.type, c.content, c.scope])).toEqual([
+      ['TH', '', 'Column'],
+      ['TH', 'Q1', 'Column'],
+    ]);
+    expect(proposed.rows[1].cells.map((c) => [c.type, c.scope])).toEqual([['TH', 'Row'], ['TD', undefined]]);
+  });
+});
+
+/** Tagged PDF with one 3×3 table of TD cells: Table > TR > TD. */
+async function buildTablePdf(): Promise<PDFDocument> {
+  const doc = await PDFDocument.create();
+  const page = doc.addPage([612, 792]);
+  const ctx = doc.context;
+
+  const root = ctx.obj({ Type: PDFName.of('StructTreeRoot') });
+  const rootRef = ctx.register(root);
+  const tableRef = ctx.register(ctx.obj({ Type: PDFName.of('StructElem'), S: PDFName.of('Table'), P: rootRef, Pg: page.ref }));
+  const rows: PDFRef[] = [];
+  for (let r = 0; r < 3; r++) {
+    const trRef = ctx.register(ctx.obj({ Type: PDFName.of('StructElem'), S: PDFName.of('TR'), P: tableRef }));
+    const cells: PDFRef[] = [];
+    for (let c = 0; c < (r === 0 ? 2 : 3); c++) {
+      cells.push(ctx.register(ctx.obj({ Type: PDFName.of('StructElem'), S: PDFName.of('TD'), P: trRef, K: r * 3 + c })));
+    }
+    ctx.lookup(trRef, PDFDict).set(PDFName.of('K'), ctx.obj(cells));
+    rows.push(trRef);
+  }
+  ctx.lookup(tableRef, PDFDict).set(PDFName.of('K'), ctx.obj(rows));
+  root.set(PDFName.of('K'), tableRef);
+  doc.catalog.set(PDFName.of('StructTreeRoot'), rootRef);
+  return doc;
+}
+
+function cellsOf(doc: PDFDocument): PDFDict[][] {
+  const root = doc.catalog.lookup(PDFName.of('StructTreeRoot'), PDFDict);
+  const table = root.lookup(PDFName.of('K'), PDFDict);
+  const trs = table.lookup(PDFName.of('K'), PDFArray);
+  return trs.asArray().map((tr) => {
+    const kids = doc.context.lookup(tr, PDFDict).lookup(PDFName.of('K'), PDFArray);
+    return kids.asArray().map((c) => doc.context.lookup(c, PDFDict));
+  });
+}
+
+function tableAttr(elem: PDFDict): PDFDict {
+  return elem.lookup(PDFName.of('A'), PDFArray).lookup(0, PDFDict);
+}
+
+describe('pdfTableStructureService.applyGrid', () => {
+  it('retags cells with scope, spans, ids and headers', async () => {
+    const doc = await buildTablePdf();
+    const result = await pdfTableStructureService.applyGrid(
+      doc,
+      'table_p1_0',
+      grid(
+        [cell('TD'), cell('TH', { colspan: 2 })],
+        [cell('TH'), cell('TD'), cell('TD')],
+        [cell('TH'), cell('TD'), cell('TD')],
+      )
+    );
+    expect(result.success).toBe(true);
+
+    const reloaded = await PDFDocument.load(await doc.save());
+    const cells = cellsOf(reloaded);
+    expect(cells.map((row) => row.map((c) => c.get(PDFName.of('S'))?.toString()))).toEqual([
+      ['/TD', '/TH'],
+      ['/TH', '/TD', '/TD'],
+      ['/TH', '/TD', '/TD'],
+    ]);
+
+    const spanned = tableAttr(cells[0][1]);
+    expect(spanned.get(PDFName.of('Scope'))).toBe(PDFName.of('Column'));
+    expect(spanned.lookup(PDFName.of('ColSpan'), PDFNumber).asNumber()).toBe(2);
+    expect(cells[0][1].lookup(PDFName.of('ID'), PDFString).decodeText()).toBe('table_p1_0-r1c2');
+
+    expect(tableAttr(cells[1][0]).get(PDFName.of('Scope'))).toBe(PDFName.of('Row'));
+    const headers = tableAttr(cells[2][2]).lookup(PDFName.of('Headers'), PDFArray);
+    expect(headers.asArray().map((h) => (h as PDFString).decodeText())).toEqual(['table_p1_0-r1c2', 'table_p1_0-r3c1']);
+    // Cell content (MCIDs) is untouched
+    expect(cells[2][2].lookup(PDFName.of('K'), PDFNumber).asNumber()).toBe(8);
+  });
+
+  it('rejects a grid that does not match the tagged table', async () => {
+    const doc = await buildTablePdf();
+    const result = await pdfTableStructureService.applyGrid(
+      doc,
+      'table_p1_0',
+      grid([cell('TH'), cell('TH')], [cell('TD'), cell('TD')])
+    );
+
+    expect(result.success).toBe(false);
+    expect(result.error).toContain('tagged table has 3 row(s) [2, 3, 3]');
+    expect(cellsOf(doc)[0][0].get(PDFName.of('S'))).toBe(PDFName.of('TD'));
+  });
+});
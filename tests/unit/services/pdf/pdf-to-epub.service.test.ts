@@ -0,0 +1,243 @@
+/**
+ * Tests for PDF → EPUB conversion: planning content blocks from verified
+ * zones and building the EPUB package (nav, noterefs, tables, figures,
+ * accessibility metadata).
+ */
+
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import JSZip from 'jszip';
+import type { Job } from '@prisma/client';
+
+vi.mock('../../../../src/lib/prisma', () => ({
+  default: {
+    zone: { count: vi.fn() },
+  },
+}));
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../../../../src/queues', () => ({
+  JOB_TYPES: { PDF_ACCESSIBILITY: 'PDF_ACCESSIBILITY', PDF_TO_EPUB: 'PDF_TO_EPUB' },
+}));
+
+vi.mock('../../../../src/services/queue.service', () => ({
+  queueService: { createJob: vi.fn() },
+}));
+
+vi.mock('../../../../src/services/storage/file-storage.service', () => ({
+  fileStorageService: {},
+}));
+
+vi.mock('../../../../src/services/epub/epub-audit.service', () => ({
+  epubAuditService: { runAudit: vi.fn() },
+}));
+
+import prisma from '../../../../src/lib/prisma';
+import { queueService } from '../../../../src/services/queue.service';
+import {
+  planEpubBlocks,
+  buildEpub,
+  findFootnoteMarker,
+  pdfToEpubService,
+  type ConversionZone,
+} from '../../../../src/services/pdf/pdf-to-epub.service';
+
+let zoneCounter = 0;
+
+function zone(pageNumber: number, type: string, content: string, extra: Partial<ConversionZone> = {}): ConversionZone {
+  return {
+    id: `z${++zoneCounter}`,
+    pageNumber,
+    type,
+    operatorLabel: null,
+    content,
+    altText: null,
+    longDesc: null,
+    bounds: { x: 10, y: 10, w: 100, h: 50 },
+    operatorBbox: null,
+    tableStructure: null,
+    childZones: [],
+    ...extra,
+  };
+}
+
+const TABLE_GRID = {
+  rows: [
+    { cells: [{ type: 'TH', content: 'Year', colspan: 1, rowspan: 1, align: 'left' }, { type: 'TH', content: 'Sales', colspan: 1, rowspan: 1, align: 'left' }] },
+    { cells: [{ type: 'TH', content: '2024', colspan: 1, rowspan: 1, align: 'left' }, { type: 'TD', content: '10', colspan: 1, rowspan: 1, align: 'left' }] },
+  ],
+};
+
+async function unzip(buffer: Buffer): Promise<(name: string) => Promise<string>> {
+  const zip = await JSZip.loadAsync(buffer);
+  return (name: string) => zip.file(name)!.async('string');
+}
+
+describe('planEpubBlocks', () => {
+  it('drops page furniture and rejected labels, groups list items and attaches captions', () => {
+    const blocks = planEpubBlocks([
+      zone(1, 'page-header', 'Running head'),
+      zone(1, 'section-header', 'Introduction'),
+      zone(1, 'list-item', '• First'),
+      zone(1, 'list-item', '• Second'),
+      zone(1, 'picture', '', { altText: 'A chart' }),
+      zone(1, 'caption', 'Figure 1. Sales'),
+      zone(2, 'text', 'Body', { operatorLabel: 'footer' }),
+      zone(2, 'text', 'More text'),
+      zone(2, 'footnote', '1 A note.'),
+    ]);
+
+    expect(blocks.map((b) => b.kind)).toEqual([
+      'pagebreak', 'heading', 'list', 'figure', 'pagebreak', 'paragraph', 'footnote',
+    ]);
+    expect(blocks[2]).toMatchObject({ items: ['First', 'Second'] });
+    expect(blocks[3]).toMatchObject({
+      altText: 'A chart',
+      caption: 'Figure 1. Sales',
+      bounds: { left: 10, top: 10, width: 100, height: 50 },
+    });
+    expect(blocks[6]).toMatchObject({ marker: '1', text: 'A note.' });
+  });
+
+  it('crops figures to the operator-corrected box when there is one', () => {
+    const [, figure] = planEpubBlocks([
+      zone(1, 'picture', '', { operatorBbox: { x: 40, y: 120, w: 300, h: 200 } }),
+    ]);
+
+    expect(figure).toMatchObject({ kind: 'figure', bounds: { left: 40, top: 120, width: 300, height: 200 } });
+  });
+});
+
+describe('findFootnoteMarker', () => {
+  it('finds markers after words and punctuation but not inside numbers', () => {
+    expect(findFootnoteMarker('Sales grew in 2021 strongly.1 Next', '1')).toBe(28);
+    expect(findFootnoteMarker('Sales grew in 2021', '1')).toBe(-1);
+    expect(findFootnoteMarker('A claim* here', '*')).toBe(7);
+  });
+});
+
+describe('buildEpub', () => {
+  beforeEach(() => {
+    zoneCounter = 0;
+  });
+
+  it('builds chapters, nav, noterefs, tables and figures with accessibility metadata', async () => {
+    const blocks = planEpubBlocks([
+      zone(1, 'h1', 'Chapter One'),
+      zone(1, 'h2', 'Background'),
+      zone(1, 'text', 'Prices rose sharply.1 Then fell.'),
+      zone(1, 'table', '', { tableStructure: TABLE_GRID }),
+      zone(1, 'footnote', '1 Source: survey.'),
+      zone(2, 'h1', 'Chapter Two'),
+      zone(2, 'picture', '', { altText: 'Bar chart', longDesc: 'Sales doubled from 2020 to 2024.' }),
+    ]);
+    const images = new Map([[blocks.find((b) => b.kind === 'figure')!.zoneId, Buffer.from('png')]]);
+
+    const { buffer, report } = await buildEpub(blocks, {
+      title: 'Annual <Report>',
+      language: 'en-GB',
+      images,
+      verification: { total: 7, verified: 7 },
+      sourceFileName: 'annual-report.pdf',
+    });
+    const read = await unzip(buffer);
+
+    expect(report).toMatchObject({ chapters: 2, pages: 2, headings: 3, tables: 1, figures: 1, footnotes: 1, noterefsLinked: 1 });
+    expect(await read('mimetype')).toBe('application/epub+zip');
+
+    const chapter1 = await read('OEBPS/text/chapter-001.xhtml');
+    expect(chapter1).toContain('<h1 id="h-1">Chapter One</h1>');
+    expect(chapter1).toContain('<h2 id="h-2">Background</h2>');
+    expect(chapter1).toContain('sharply.<a href="#fn-1" id="fn-1-ref" epub:type="noteref" role="doc-noteref">1</a> Then fell.');
+    expect(chapter1).toContain('<aside id="fn-1" epub:type="footnote" role="doc-footnote">');
+    expect(chapter1).toContain('<thead><tr><th scope="col">Year</th><th scope="col">Sales</th></tr></thead>');
+    expect(chapter1).toContain('<th scope="row">2024</th><td>10</td>');
+    expect(chapter1).toContain('<span epub:type="pagebreak" role="doc-pagebreak" id="page-1" aria-label="1"></span>');
+
+    const chapter2 = await read('OEBPS/text/chapter-002.xhtml');
+    expect(chapter2).toContain('id="page-2"');
+    expect(chapter2).toContain('<img src="../images/figure-1.png" alt="Bar chart" aria-details="figure-1-desc"/>');
+    expect(chapter2).toContain('<details id="figure-1-desc"><summary>Image description</summary>');
+
+    const nav = await read('OEBPS/nav.xhtml');
+    expect(nav).toContain(
+      '<ol><li><a href="text/chapter-001.xhtml#h-1">Chapter One</a><ol><li><a href="text/chapter-001.xhtml#h-2">Background</a></li></ol></li>' +
+        '<li><a href="text/chapter-002.xhtml#h-3">Chapter Two</a></li></ol>'
+    );
+    expect(nav).toContain('epub:type="page-list"');
+
+    const opf = await read('OEBPS/content.opf');
+    expect(opf).toContain('<dc:title>Annual &lt;Report&gt;</dc:title>');
+    expect(opf).toContain('<dc:language>en-GB</dc:language>');
+    for (const feature of ['alternativeText', 'longDescription', 'readingOrder', 'tableOfContents', 'printPageNumbers']) {
+      expect(opf).toContain(`<meta property="schema:accessibilityFeature">${feature}</meta>`);
+    }
+    expect(opf).toContain('<meta property="schema:accessModeSufficient">textual</meta>');
+    expect(opf).toContain('<meta property="a11y:pageBreakSource">annual-report.pdf</meta>');
+    expect(opf).toContain('href="images/figure-1.png" media-type="image/png"');
+  });
+
+  it('makes no alt-text or reading-order claims the zones do not support', async () => {
+    const blocks = planEpubBlocks([zone(1, 'p', 'Text'), zone(1, 'picture', '')]);
+
+    const { buffer, report } = await buildEpub(blocks, {
+      title: 'Doc',
+      language: 'en',
+      images: new Map([[blocks[2].kind === 'figure' ? blocks[2].zoneId : '', Buffer.from('png')]]),
+      verification: { total: 2, verified: 1 },
+    });
+    const opf = await (await unzip(buffer))('OEBPS/content.opf');
+    const chapter = await (await unzip(buffer))('OEBPS/text/chapter-001.xhtml');
+
+    expect(report.figuresWithoutAlt).toBe(1);
+    expect(chapter).toContain('<img src="../images/figure-1.png"/>');
+    expect(opf).not.toContain('>alternativeText<');
+    expect(opf).not.toContain('>readingOrder<');
+    expect(opf).not.toContain('<meta property="schema:accessModeSufficient">textual</meta>');
+  });
+});
+
+describe('pdfToEpubService.startConversion', () => {
+  const sourceJob = {
+    id: 'job-1',
+    tenantId: 'tenant-1',
+    type: 'PDF_ACCESSIBILITY',
+    input: { fileId: 'file-1', fileName: 'report.pdf' },
+    output: null,
+  } as unknown as Job;
+
+  beforeEach(() => {
+    vi.mocked(prisma.zone.count).mockReset();
+    vi.mocked(queueService.createJob).mockReset();
+  });
+
+  it('refuses unverified zones unless allowed', async () => {
+    vi.mocked(prisma.zone.count).mockResolvedValueOnce(10).mockResolvedValueOnce(8);
+
+    await expect(pdfToEpubService.startConversion(sourceJob, 'user-1', false)).rejects.toMatchObject({
+      statusCode: 422,
+      message: expect.stringContaining('2 of 10 zone(s) are not verified'),
+    });
+    expect(queueService.createJob).not.toHaveBeenCalled();
+  });
+
+  it('queues a PDF_TO_EPUB job without attaching the source file', async () => {
+    vi.mocked(prisma.zone.count).mockResolvedValueOnce(10).mockResolvedValueOnce(10);
+    vi.mocked(queueService.createJob).mockResolvedValue('conv-1');
+
+    await expect(pdfToEpubService.startConversion(sourceJob, 'user-1', false)).resolves.toBe('conv-1');
+    expect(queueService.createJob).toHaveBeenCalledWith({
+      type: 'PDF_TO_EPUB',
+      tenantId: 'tenant-1',
+      userId: 'user-1',
+      options: { sourceJobId: 'job-1', sourceFileId: 'file-1', fileName: 'report.pdf' },
+    });
+  });
+});
@@ -53,4 +53,50 @@ describe('WCAGCriteriaService', () => {
       expect(levelAA.every(c => c.level === 'AA')).toBe(true);
     });
   });
+
+  describe('getCriteriaForVersion', () => {
+    it('should return the 38 WCAG 2.0 Level A and AA criteria', () => {
+      const criteria = service.getCriteriaForVersion('2.0', ['A', 'AA']);
+      expect(criteria).toHaveLength(38);
+      expect(criteria.some(c => c.id === '1.3.4')).toBe(false);
+    });
+
+    it('should add the WCAG 2.2 criteria and drop 4.1.1 Parsing in 2.2', () => {
+      const ids = service.getCriteriaForVersion('2.2').map(c => c.id);
+      expect(ids).toEqual(expect.arrayContaining(['2.4.11', '2.5.8', '3.3.8']));
+      expect(ids).not.toContain('4.1.1');
+      expect(service.getCriteriaForVersion('2.1').map(c => c.id)).toContain('4.1.1');
+    });
+  });
+
+  describe('getReportCriteria', () => {
+    it('should keep obsolete criteria as report rows', () => {
+      const ids = service.getReportCriteria('2.2', ['A']).map(c => c.id);
+      expect(ids).toContain('4.1.1');
+      expect(ids).toContain('3.2.6');
+    });
+  });
+
+  describe('getVersionNotApplicableRemarks', () => {
+    it('should justify 4.1.1 as obsolete in WCAG 2.2', () => {
+      const remarks = service.getVersionNotApplicableRemarks('4.1.1', '2.2');
+      expect(remarks).toMatch(/^Justification: .*obsolete.*WCAG 2\.2/);
+    });
+
+    it('should justify criteria introduced after the evaluated version', () => {
+      expect(service.getVersionNotApplicableRemarks('2.5.8', '2.1')).toMatch(/introduced in WCAG 2\.2/);
+    });
+
+    it('should return undefined for criteria in the version', () => {
+      expect(service.getVersionNotApplicableRemarks('1.1.1', '2.2')).toBeUndefined();
+      expect(service.getVersionNotApplicableRemarks('4.1.1', '2.1')).toBeUndefined();
+    });
+  });
+
+  describe('getUnderstandingUrl', () => {
+    it('should link to the Understanding documents of the version', () => {
+      expect(service.getUnderstandingUrl('1.1.1', '2.2')).toBe('https://www.w3.org/WAI/WCAG22/Understanding/non-text-content.html');
+      expect(service.getUnderstandingUrl('1.1.1', '2.0')).toBe('https://www.w3.org/WAI/WCAG21/Understanding/non-text-content.html');
+    });
+  });
 });
@@ -0,0 +1,209 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../../src/lib/prisma', () => ({
+  default: {
+    file: { findUnique: vi.fn() },
+    batchWorkflow: { findUnique: vi.fn() },
+    product: { findUnique: vi.fn(), findFirst: vi.fn(), update: vi.fn() },
+    job: { findUnique: vi.fn() },
+    workflowInstance: { findFirst: vi.fn(), update: vi.fn() },
+  },
+}));
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../../../../src/services/workflow/workflow-config.service', () => ({
+  workflowConfigService: { getEffectiveConfig: vi.fn() },
+}));
+
+import prisma from '../../../../src/lib/prisma';
+import { workflowConfigService } from '../../../../src/services/workflow/workflow-config.service';
+import {
+  autoApprovalPolicyService,
+  isFullyHeadless,
+} from '../../../../src/services/workflow/auto-approval-policy.service';
+
+const tenantId = 'tenant-1';
+
+function workflow(overrides: Record<string, unknown> = {}): any {
+  return {
+    id: 'wf-1',
+    fileId: 'file-1',
+    batchId: null,
+    productId: null,
+    definitionId: null,
+    currentState: 'RUNNING_ACE',
+    stateData: {},
+    autoApprovalPolicy: null,
+    ...overrides,
+  };
+}
+
+describe('AutoApprovalPolicyService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.file.findUnique).mockResolvedValue({ tenantId } as any);
+    vi.mocked(prisma.batchWorkflow.findUnique).mockResolvedValue(null);
+    vi.mocked(prisma.product.findUnique).mockResolvedValue(null);
+    vi.mocked(workflowConfigService.getEffectiveConfig).mockResolvedValue({ enabled: true } as any);
+  });
+
+  describe('resolveGatePolicy', () => {
+    it('returns null when no level defines the gate', async () => {
+      expect(await autoApprovalPolicyService.resolveGatePolicy(workflow(), 'AI_REVIEW')).toBeNull();
+    });
+
+    it('falls back to the tenant default for single workflows', async () => {
+      vi.mocked(workflowConfigService.getEffectiveConfig).mockResolvedValue({
+        enabled: true,
+        autoApprovalPolicy: { gates: { AI_REVIEW: 'auto-accept' } },
+      } as any);
+
+      const resolved = await autoApprovalPolicyService.resolveGatePolicy(workflow(), 'AI_REVIEW');
+
+      expect(resolved).toEqual({ source: 'tenant', sourceId: tenantId, policy: 'auto-accept' });
+    });
+
+    it('prefers the product policy over the tenant default', async () => {
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({
+        tenantId,
+        autoApprovalPolicy: { gates: { AI_REVIEW: 'require-manual' } },
+      } as any);
+      vi.mocked(workflowConfigService.getEffectiveConfig).mockResolvedValue({
+        enabled: true,
+        autoApprovalPolicy: { gates: { AI_REVIEW: 'auto-accept' } },
+      } as any);
+
+      const resolved = await autoApprovalPolicyService.resolveGatePolicy(
+        workflow({ productId: 'prod-1' }),
+        'AI_REVIEW'
+      );
+
+      expect(resolved).toEqual({ source: 'product', sourceId: 'prod-1', policy: 'require-manual' });
+    });
+
+    it('inherits the product of the audit job when the workflow has none', async () => {
+      vi.mocked(prisma.job.findUnique).mockResolvedValue({ productId: 'prod-2' } as any);
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({
+        tenantId,
+        autoApprovalPolicy: { gates: { ACR_SIGNOFF: 'auto-accept' } },
+      } as any);
+
+      const resolved = await autoApprovalPolicyService.resolveGatePolicy(
+        workflow({ stateData: { jobId: 'job-1' } }),
+        'ACR_SIGNOFF'
+      );
+
+      expect(resolved?.sourceId).toBe('prod-2');
+    });
+
+    it('ignores a product policy from another tenant', async () => {
+      vi.mocked(prisma.product.findUnique).mockResolvedValue({
+        tenantId: 'other-tenant',
+        autoApprovalPolicy: { gates: { AI_REVIEW: 'auto-accept' } },
+      } as any);
+
+      const resolved = await autoApprovalPolicyService.resolveGatePolicy(
+        workflow({ productId: 'prod-1' }),
+        'AI_REVIEW'
+      );
+
+      expect(resolved).toBeNull();
+    });
+
+    it('lets the workflow policy override the batch policy per gate', async () => {
+      vi.mocked(prisma.batchWorkflow.findUnique).mockResolvedValue({
+        autoApprovalPolicy: { gates: { AI_REVIEW: 'auto-accept', ACR_SIGNOFF: 'auto-accept' }, onError: 'continue-others' },
+      } as any);
+      const wf = workflow({
+        batchId: 'batch-1',
+        autoApprovalPolicy: { gates: { AI_REVIEW: 'require-manual' } },
+      });
+
+      const aiReview = await autoApprovalPolicyService.resolveGatePolicy(wf, 'AI_REVIEW');
+      const acrSignoff = await autoApprovalPolicyService.resolveGatePolicy(wf, 'ACR_SIGNOFF');
+
+      expect(aiReview).toEqual({ source: 'workflow', sourceId: 'wf-1', policy: 'require-manual' });
+      expect(acrSignoff).toEqual({ source: 'batch', sourceId: 'batch-1', policy: 'auto-accept' });
+    });
+
+    it('tolerates batch policies that only carry acrConfig', async () => {
+      vi.mocked(prisma.batchWorkflow.findUnique).mockResolvedValue({
+        autoApprovalPolicy: { acrConfig: { vendor: 'Acme' } },
+      } as any);
+
+      const resolved = await autoApprovalPolicyService.resolveGatePolicy(
+        workflow({ batchId: 'batch-1' }),
+        'AI_REVIEW'
+      );
+
+      expect(resolved).toBeNull();
+    });
+  });
+
+  describe('explain', () => {
+    it('reports the winning level, overridden levels and a dry-run at the current gate', async () => {
+      vi.mocked(prisma.workflowInstance.findFirst).mockResolvedValue(
+        workflow({
+          currentState: 'AWAITING_AI_REVIEW',
+          autoApprovalPolicy: { gates: { AI_REVIEW: 'auto-accept' } },
+        })
+      );
+      vi.mocked(workflowConfigService.getEffectiveConfig).mockResolvedValue({
+        enabled: true,
+        autoApprovalPolicy: { gates: { AI_REVIEW: 'require-manual' } },
+      } as any);
+
+      const explanation = await autoApprovalPolicyService.explain(tenantId, 'wf-1');
+
+      expect(explanation.precedence).toEqual(['workflow', 'batch', 'product', 'tenant']);
+      expect(explanation.gates.AI_REVIEW.effective).toEqual({
+        source: 'workflow',
+        sourceId: 'wf-1',
+        policy: 'auto-accept',
+      });
+      expect(explanation.gates.AI_REVIEW.reason).toBe(
+        'workflow policy applies (overrides tenant) — precedence is workflow > batch > product > tenant'
+      );
+      expect(explanation.gates.ACR_SIGNOFF.effective).toBeNull();
+      expect(explanation.currentGate).toBe('AI_REVIEW');
+      expect(explanation.evaluation).toMatchObject({ approved: true, policySource: 'workflow' });
+    });
+
+    it('throws 404 for workflows outside the tenant', async () => {
+      vi.mocked(prisma.workflowInstance.findFirst).mockResolvedValue(null);
+
+      await expect(autoApprovalPolicyService.explain(tenantId, 'wf-x')).rejects.toMatchObject({
+        statusCode: 404,
+      });
+    });
+  });
+
+  describe('headless policies', () => {
+    const headless = {
+      gates: {
+        AI_REVIEW: 'auto-accept' as const,
+        REMEDIATION_REVIEW: { mode: 'auto-accept' as const },
+        CONFORMANCE_REVIEW: 'auto-accept' as const,
+        ACR_SIGNOFF: 'auto-accept' as const,
+      },
+    };
+
+    it('detects policies that skip every gate', () => {
+      expect(isFullyHeadless(headless)).toBe(true);
+      expect(isFullyHeadless({ gates: { ...headless.gates, ACR_SIGNOFF: 'require-manual' } })).toBe(false);
+    });
+
+    it('rejects headless product policies unless the tenant allows them', async () => {
+      vi.mocked(prisma.product.findFirst).mockResolvedValue({ id: 'prod-1', autoApprovalPolicy: null } as any);
+
+      await expect(
+        autoApprovalPolicyService.setProductPolicy(tenantId, 'prod-1', headless)
+      ).rejects.toMatchObject({ statusCode: 400, code: 'HEADLESS_POLICY_NOT_ALLOWED' });
+      expect(prisma.product.update).not.toHaveBeenCalled();
+    });
+  });
+});
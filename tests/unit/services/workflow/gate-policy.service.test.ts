@@ -0,0 +1,233 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../../src/lib/prisma', () => {
+  const client = {
+    job: { findUnique: vi.fn(), findFirst: vi.fn() },
+    file: { findUnique: vi.fn() },
+    workflowInstance: { findUnique: vi.fn(), update: vi.fn() },
+    $transaction: vi.fn(async (fn: (tx: unknown) => unknown) => fn(client)),
+  };
+  return { default: client };
+});
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../../../../src/services/s3.service', () => ({
+  s3Service: { getFileBuffer: vi.fn() },
+}));
+
+import prisma from '../../../../src/lib/prisma';
+import {
+  evaluateGateConditions,
+  gatePolicyService,
+} from '../../../../src/services/workflow/gate-policy.service';
+
+const BATCH = { source: 'batch' as const, sourceId: 'batch-1' };
+
+function workflow(stateData: Record<string, unknown>): any {
+  return { id: 'wf-1', fileId: 'file-1', stateData };
+}
+
+describe('evaluateGateConditions', () => {
+  it('passes minConfidence when the audit score meets the threshold', () => {
+    const [check] = evaluateGateConditions('AI_REVIEW', { minConfidence: 0.8 }, { auditScore: 85 });
+    expect(check).toMatchObject({ condition: 'minConfidence', passed: true, actual: 0.85 });
+  });
+
+  it('fails a condition whose evidence is missing', () => {
+    const [check] = evaluateGateConditions('AI_REVIEW', { minConfidence: 0.8 }, {});
+    expect(check.passed).toBe(false);
+    expect(check.detail).toBe('No audit score recorded');
+  });
+
+  it('ignores issueTypeRules outside the AI review gate', () => {
+    const checks = evaluateGateConditions(
+      'REMEDIATION_REVIEW',
+      { issueTypeRules: { other: 'manual' } },
+      { issues: [{ code: 'X' }] }
+    );
+    expect(checks).toEqual([]);
+  });
+
+  it('checks residual issues per severity and in total', () => {
+    const checks = evaluateGateConditions(
+      'REMEDIATION_REVIEW',
+      { maxResidualIssues: { critical: 0, total: 10 } },
+      { residualBySeverity: { critical: 1, serious: 2, moderate: 0, minor: 0, total: 3 } }
+    );
+    expect(checks[0]).toMatchObject({ passed: false, detail: 'Exceeded for: critical' });
+  });
+
+  it('checks Does Not Support counts and blocking criteria', () => {
+    const checks = evaluateGateConditions(
+      'ACR_SIGNOFF',
+      { maxDoesNotSupport: 2, blockingCriteria: ['1.1.1'] },
+      { doesNotSupportCriteria: ['1.1.1', '1.4.3'] }
+    );
+    expect(checks.map(c => [c.condition, c.passed])).toEqual([
+      ['maxDoesNotSupport', true],
+      ['blockingCriteria', false],
+    ]);
+  });
+
+  it('computes the AI-suggested share', () => {
+    const [check] = evaluateGateConditions(
+      'CONFORMANCE_REVIEW',
+      { maxAiSuggestedShare: 0.5 },
+      { aiSuggestedCount: 3, humanVerifiedCount: 1 }
+    );
+    expect(check).toMatchObject({ passed: false, actual: 0.75 });
+  });
+
+  it('fails the AI-suggested share when no findings were recorded', () => {
+    const [check] = evaluateGateConditions('CONFORMANCE_REVIEW', { maxAiSuggestedShare: 1 }, {});
+    expect(check).toMatchObject({ passed: false, actual: null, detail: 'No findings recorded' });
+  });
+
+  it('matches the detected publisher profile', () => {
+    const [check] = evaluateGateConditions(
+      'ACR_SIGNOFF',
+      { publisherProfiles: ['PRH-UK'] },
+      { publisherProfile: 'none' }
+    );
+    expect(check.passed).toBe(false);
+  });
+});
+
+describe('GatePolicyService.evaluate', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('approves Phase 1 auto-accept policies without loading evidence', async () => {
+    const { rationale } = await gatePolicyService.evaluate(workflow({}), 'ACR_SIGNOFF', 'auto-accept', BATCH);
+
+    expect(rationale).toMatchObject({
+      gate: 'ACR_SIGNOFF',
+      approved: true,
+      policySource: 'batch',
+      policySourceId: 'batch-1',
+      policyMode: 'auto-accept',
+      summary: 'Gate policy is auto-accept',
+    });
+    expect(prisma.job.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('counts residual issues as original issues without a completed fix', async () => {
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      output: {
+        issues: [
+          { id: 'i1', severity: 'critical' },
+          { id: 'i2', severity: 'serious' },
+          { id: 'i3', severity: 'minor' },
+        ],
+      },
+    } as any);
+    vi.mocked(prisma.job.findFirst).mockResolvedValue({
+      output: { tasks: [{ issueId: 'i1', status: 'completed', completionMethod: 'auto' }] },
+    } as any);
+
+    const { rationale, evidence } = await gatePolicyService.evaluate(
+      workflow({ jobId: 'job-1' }),
+      'REMEDIATION_REVIEW',
+      { mode: 'conditional', conditions: { maxResidualIssues: { critical: 0, serious: 1 }, maxAiSuggestedShare: 1 } },
+      BATCH
+    );
+
+    expect(evidence.residualBySeverity).toEqual({ critical: 0, serious: 1, moderate: 0, minor: 1, total: 2 });
+    expect(evidence.aiSuggestedCount).toBe(1);
+    expect(rationale.approved).toBe(true);
+    expect(rationale.summary).toBe('All 2 condition(s) passed: maxResidualIssues, maxAiSuggestedShare');
+  });
+
+  it('prefers the verification audit for residual issues', async () => {
+    vi.mocked(prisma.job.findUnique).mockResolvedValue({
+      output: {
+        issues: [{ id: 'i1', severity: 'critical' }],
+        verificationAudit: { combinedIssues: [{ id: 'v1', severity: 'serious' }] },
+      },
+    } as any);
+    vi.mocked(prisma.job.findFirst).mockResolvedValue(null);
+
+    const { evidence } = await gatePolicyService.evaluate(
+      workflow({ jobId: 'job-1' }),
+      'CONFORMANCE_REVIEW',
+      { mode: 'conditional', conditions: { maxResidualIssues: { critical: 0 } } },
+      BATCH
+    );
+
+    expect(evidence.residualBySeverity).toMatchObject({ critical: 0, serious: 1, total: 1 });
+  });
+
+  it('applies human conformance overrides before counting Does Not Support', async () => {
+    const { rationale, evidence } = await gatePolicyService.evaluate(
+      workflow({
+        conformanceMappings: [
+          { criterionId: '1.1.1', aiConformance: 'supports' },
+          { criterionId: '1.4.3', aiConformance: 'does_not_support' },
+        ],
+        conformanceReviewDecisions: [
+          { criterionId: '1.1.1', decision: 'OVERRIDE', overrideValue: 'does_not_support' },
+        ],
+      }),
+      'ACR_SIGNOFF',
+      { mode: 'conditional', conditions: { blockingCriteria: ['1.1.1'] } },
+      BATCH
+    );
+
+    expect(evidence.doesNotSupportCriteria).toEqual(['1.1.1', '1.4.3']);
+    expect(evidence.humanVerifiedCount).toBe(1);
+    expect(rationale.approved).toBe(false);
+    expect(rationale.summary).toBe('Failed condition(s): blockingCriteria');
+  });
+
+  it('reads the publisher profile from the PRH preflight result', async () => {
+    const { rationale } = await gatePolicyService.evaluate(
+      workflow({ prhPreflight: { skipped: false, imprint: 'vintage' } }),
+      'AI_REVIEW',
+      { mode: 'conditional', conditions: { publisherProfiles: ['PRH-UK'] } },
+      BATCH
+    );
+
+    expect(rationale.approved).toBe(true);
+    expect(prisma.file.findUnique).not.toHaveBeenCalled();
+  });
+
+  it('records no profile for non-EPUB files and merges it into the current stateData', async () => {
+    vi.mocked(prisma.file.findUnique).mockResolvedValue({ mimeType: 'application/pdf' } as any);
+    vi.mocked(prisma.workflowInstance.findUnique).mockResolvedValue({
+      stateData: { jobId: 'job-1', acrJobId: 'acr-1' },
+    } as any);
+
+    const { evidence } = await gatePolicyService.evaluate(
+      workflow({ jobId: 'job-1' }),
+      'AI_REVIEW',
+      { mode: 'conditional', conditions: { publisherProfiles: ['none'] } },
+      BATCH
+    );
+
+    expect(evidence.publisherProfile).toBe('none');
+    expect(prisma.workflowInstance.update).toHaveBeenCalledWith({
+      where: { id: 'wf-1' },
+      data: { stateData: { jobId: 'job-1', acrJobId: 'acr-1', publisherProfile: 'none' } },
+    });
+  });
+
+  it('does not cache the detected profile on a dry run', async () => {
+    vi.mocked(prisma.file.findUnique).mockResolvedValue({ mimeType: 'application/pdf' } as any);
+
+    const { evidence } = await gatePolicyService.evaluate(
+      workflow({ jobId: 'job-1' }),
+      'AI_REVIEW',
+      { mode: 'conditional', conditions: { publisherProfiles: ['none'] } },
+      BATCH,
+      { dryRun: true }
+    );
+
+    expect(evidence.publisherProfile).toBe('none');
+    expect(prisma.workflowInstance.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,220 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../../src/lib/prisma', () => ({
+  default: {
+    hITLGateAssignment: {
+      findFirst: vi.fn(),
+      findFirstOrThrow: vi.fn(),
+      findMany: vi.fn(),
+      create: vi.fn(),
+      update: vi.fn(),
+      groupBy: vi.fn(),
+    },
+    hITLAssignmentHistory: { updateMany: vi.fn(), create: vi.fn(), findMany: vi.fn() },
+    reviewerProfile: { findMany: vi.fn() },
+    workflowInstance: { findUnique: vi.fn() },
+    workflowEvent: { create: vi.fn() },
+    user: { findMany: vi.fn() },
+  },
+}));
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../../../../src/services/workflow/workflow-config.service', () => ({
+  workflowConfigService: { getEffectiveConfig: vi.fn(), getEscalationChain: vi.fn().mockResolvedValue([]) },
+}));
+
+vi.mock('../../../../src/services/metrics/workflow-metrics.service', () => ({
+  workflowMetricsService: { recordAssignment: vi.fn().mockResolvedValue(undefined) },
+}));
+
+vi.mock('../../../../src/services/notification/notification.service', () => ({
+  notificationService: { createHITLAssignmentNotification: vi.fn().mockResolvedValue(undefined) },
+}));
+
+import prisma from '../../../../src/lib/prisma';
+import { workflowConfigService } from '../../../../src/services/workflow/workflow-config.service';
+import { workflowMetricsService } from '../../../../src/services/metrics/workflow-metrics.service';
+import { notificationService } from '../../../../src/services/notification/notification.service';
+import {
+  hitlAssignmentService,
+  requiredSkillsFor,
+} from '../../../../src/services/workflow/hitl-assignment.service';
+import type { ReviewerSkillRule } from '../../../../src/types/workflow-config.types';
+
+const tenantId = 'tenant-1';
+
+const skillRules: ReviewerSkillRule[] = [
+  { skill: 'PDF tables', fileTypes: ['PDF'], gates: ['AWAITING_REMEDIATION_REVIEW'] },
+  { skill: 'PRH EPUB', fileTypes: ['EPUB'], publisherProfiles: ['PRH-UK'] },
+];
+
+function workflowRow(overrides: Record<string, unknown> = {}): any {
+  return {
+    createdBy: 'creator-1',
+    stateData: {},
+    file: { tenantId, mimeType: 'application/pdf', originalName: 'report.pdf' },
+    ...overrides,
+  };
+}
+
+describe('requiredSkillsFor', () => {
+  it('requires skills whose file type and gate match', () => {
+    expect(requiredSkillsFor(skillRules, { gate: 'REMEDIATION_REVIEW', fileType: 'PDF' })).toEqual(['PDF tables']);
+    expect(requiredSkillsFor(skillRules, { gate: 'AI_REVIEW', fileType: 'PDF' })).toEqual([]);
+  });
+
+  it('only matches publisher rules once the profile is known', () => {
+    expect(requiredSkillsFor(skillRules, { gate: 'AI_REVIEW', fileType: 'EPUB' })).toEqual([]);
+    expect(
+      requiredSkillsFor(skillRules, { gate: 'AI_REVIEW', fileType: 'EPUB', publisherProfile: 'PRH-UK' })
+    ).toEqual(['PRH EPUB']);
+  });
+});
+
+describe('HITLAssignmentService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.hITLGateAssignment.findFirst).mockResolvedValue(null);
+    vi.mocked(prisma.hITLGateAssignment.create).mockImplementation((args: any) =>
+      Promise.resolve({ id: 'asg-1', openedAt: new Date('2026-10-01T00:00:00Z'), assigneeRole: null, ...args.data })
+    );
+    vi.mocked(prisma.hITLAssignmentHistory.updateMany).mockResolvedValue({ count: 0 } as any);
+    vi.mocked(prisma.workflowInstance.findUnique).mockResolvedValue(workflowRow());
+  });
+
+  describe('openGate', () => {
+    it('auto-assigns the least-loaded reviewer with the required skills', async () => {
+      vi.mocked(workflowConfigService.getEffectiveConfig).mockResolvedValue({
+        enabled: true,
+        reviewerAssignment: { autoAssign: true, skillRules },
+      } as any);
+      vi.mocked(prisma.reviewerProfile.findMany).mockResolvedValue([
+        { userId: 'busy', gates: [], maxOpenGates: null },
+        { userId: 'full', gates: [], maxOpenGates: 1 },
+        { userId: 'free', gates: ['REMEDIATION_REVIEW'], maxOpenGates: null },
+        { userId: 'ai-only', gates: ['AI_REVIEW'], maxOpenGates: null },
+      ] as any);
+      vi.mocked(prisma.hITLGateAssignment.groupBy).mockResolvedValue([
+        { assigneeId: 'busy', _count: { _all: 3 } },
+        { assigneeId: 'full', _count: { _all: 1 } },
+        { assigneeId: 'free', _count: { _all: 2 } },
+      ] as any);
+
+      const assignment = await hitlAssignmentService.openGate('wf-1', 'REMEDIATION_REVIEW');
+
+      expect(prisma.reviewerProfile.findMany).toHaveBeenCalledWith(expect.objectContaining({
+        where: expect.objectContaining({ tenantId, active: true, skills: { hasEvery: ['PDF tables'] } }),
+      }));
+      expect(assignment).toMatchObject({ assigneeId: 'free', requiredSkills: ['PDF tables'] });
+      expect(prisma.hITLAssignmentHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ assigneeId: 'free', method: 'auto' }),
+      });
+      expect(workflowMetricsService.recordAssignment).toHaveBeenCalledWith(
+        'wf-1', 'REMEDIATION_REVIEW', 'free', new Date('2026-10-01T00:00:00Z'), false
+      );
+      expect(notificationService.createHITLAssignmentNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ gateName: 'Remediation Review' }), 'free', tenantId
+      );
+    });
+
+    it('falls back to the workflow creator when no reviewer qualifies', async () => {
+      vi.mocked(workflowConfigService.getEffectiveConfig).mockResolvedValue({
+        enabled: true,
+        reviewerAssignment: { autoAssign: true, skillRules },
+      } as any);
+      vi.mocked(prisma.reviewerProfile.findMany).mockResolvedValue([]);
+
+      const assignment = await hitlAssignmentService.openGate('wf-1', 'REMEDIATION_REVIEW');
+
+      expect(assignment?.assigneeId).toBe('creator-1');
+      expect(prisma.hITLAssignmentHistory.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({ method: 'creator' }),
+      });
+      expect(notificationService.createHITLAssignmentNotification).not.toHaveBeenCalled();
+    });
+
+    it('returns the open assignment when the gate is re-processed', async () => {
+      vi.mocked(prisma.hITLGateAssignment.findFirst).mockResolvedValue({ id: 'asg-0' } as any);
+
+      const assignment = await hitlAssignmentService.openGate('wf-1', 'AI_REVIEW');
+
+      expect(assignment).toEqual({ id: 'asg-0' });
+      expect(prisma.hITLGateAssignment.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('assign', () => {
+    const open = {
+      id: 'asg-1',
+      workflowId: 'wf-1',
+      tenantId,
+      gate: 'AI_REVIEW',
+      assigneeId: 'creator-1',
+      assigneeRole: null,
+      resolvedAt: null,
+      requiredSkills: [],
+    };
+
+    it('rejects assignees outside the tenant', async () => {
+      vi.mocked(prisma.hITLGateAssignment.findFirst).mockResolvedValue(open as any);
+      vi.mocked(prisma.user.findMany).mockResolvedValue([]);
+
+      await expect(
+        hitlAssignmentService.assign(tenantId, 'asg-1', { userId: 'stranger' }, { assignedById: 'admin-1' })
+      ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_ASSIGNEE' });
+      expect(prisma.hITLGateAssignment.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses to reassign a gate the workflow has left', async () => {
+      vi.mocked(prisma.hITLGateAssignment.findFirst).mockResolvedValue({ ...open, resolvedAt: new Date() } as any);
+
+      await expect(
+        hitlAssignmentService.assign(tenantId, 'asg-1', { role: 'OPERATOR' }, { assignedById: 'admin-1' })
+      ).rejects.toMatchObject({ statusCode: 409, code: 'ASSIGNMENT_RESOLVED' });
+    });
+
+    it('closes the previous owner and records the manual assignment', async () => {
+      vi.mocked(prisma.hITLGateAssignment.findFirst).mockResolvedValue(open as any);
+      vi.mocked(prisma.user.findMany).mockResolvedValue([{ id: 'rev-2' }] as any);
+      vi.mocked(prisma.hITLGateAssignment.update).mockResolvedValue({
+        ...open,
+        assigneeId: 'rev-2',
+        workflow: { file: { originalName: 'report.pdf' } },
+      } as any);
+      vi.mocked(prisma.hITLAssignmentHistory.updateMany).mockResolvedValue({ count: 1 } as any);
+      vi.mocked(prisma.hITLGateAssignment.findFirstOrThrow).mockResolvedValue({
+        ...open,
+        assigneeId: 'rev-2',
+        openedAt: new Date('2026-10-01T00:00:00Z'),
+        escalationLevel: 0,
+        lastEscalatedAt: null,
+        assignee: { email: 'rev2@example.com', firstName: 'Rae', lastName: 'Two' },
+        workflow: { currentState: 'AWAITING_AI_REVIEW', file: { originalName: 'report.pdf' } },
+      } as any);
+      vi.mocked(prisma.hITLAssignmentHistory.findMany).mockResolvedValue([]);
+
+      const detail = await hitlAssignmentService.assign(
+        tenantId, 'asg-1', { userId: 'rev-2' }, { assignedById: 'admin-1', reason: 'tables expert' }
+      );
+
+      expect(prisma.hITLAssignmentHistory.updateMany).toHaveBeenCalledWith({
+        where: { assignmentId: 'asg-1', unassignedAt: null },
+        data: { unassignedAt: expect.any(Date) },
+      });
+      expect(prisma.workflowEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          eventType: 'HITL_ASSIGNED',
+          payload: expect.objectContaining({ method: 'manual', assigneeId: 'rev-2', reason: 'tables expert' }),
+        }),
+      });
+      expect(workflowMetricsService.recordAssignment).toHaveBeenCalledWith(
+        'wf-1', 'AI_REVIEW', 'rev-2', expect.any(Date), true
+      );
+      expect(detail.owner).toEqual({ userId: 'rev-2', name: 'Rae Two', email: 'rev2@example.com' });
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../../src/lib/prisma', () => ({
+  default: {
+    hITLGateAssignment: { findMany: vi.fn(), updateMany: vi.fn() },
+    hITLAssignmentHistory: { updateMany: vi.fn(), create: vi.fn() },
+    user: { findMany: vi.fn() },
+    workflowEvent: { create: vi.fn() },
+  },
+}));
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../../../../src/services/workflow/workflow-config.service', () => ({
+  workflowConfigService: { getEscalationChain: vi.fn() },
+}));
+
+vi.mock('../../../../src/services/workflow/workflow-definition.service', () => ({
+  workflowDefinitionService: {
+    resolveStepAction: vi.fn((wf: { currentState: string }) => Promise.resolve(wf.currentState)),
+  },
+}));
+
+vi.mock('../../../../src/services/email/email.service', () => ({
+  emailService: { sendHITLEscalationEmail: vi.fn().mockResolvedValue(undefined) },
+}));
+
+vi.mock('../../../../src/services/metrics/workflow-metrics.service', () => ({
+  workflowMetricsService: { recordAssignment: vi.fn().mockResolvedValue(undefined) },
+}));
+
+vi.mock('../../../../src/services/notification/notification.service', () => ({
+  notificationService: { createHITLEscalationNotification: vi.fn().mockResolvedValue(undefined) },
+}));
+
+import prisma from '../../../../src/lib/prisma';
+import { workflowConfigService } from '../../../../src/services/workflow/workflow-config.service';
+import { emailService } from '../../../../src/services/email/email.service';
+import { notificationService } from '../../../../src/services/notification/notification.service';
+import { workflowMetricsService } from '../../../../src/services/metrics/workflow-metrics.service';
+import {
+  dueEscalationSteps,
+  hitlEscalationService,
+} from '../../../../src/services/workflow/hitl-escalation.service';
+import type { HitlEscalationStep } from '../../../../src/types/workflow-config.types';
+
+const openedAt = new Date('2026-10-01T00:00:00Z');
+const hoursLater = (hours: number) => new Date(openedAt.getTime() + hours * 60 * 60 * 1000);
+
+const chain: HitlEscalationStep[] = [
+  { afterHours: 24, action: 'remind' },
+  { afterHours: 48, action: 'reassign', userId: 'backup-1' },
+  { afterHours: 72, action: 'notify-manager', role: 'ADMIN' },
+];
+
+const owner = { id: 'owner-1', email: 'owner@example.com', firstName: 'Olive', lastName: 'Owner' };
+const backup = { id: 'backup-1', email: 'backup@example.com', firstName: 'Ben', lastName: 'Backup' };
+const admin = { id: 'admin-1', email: 'admin@example.com', firstName: null, lastName: null };
+
+function assignment(overrides: Record<string, unknown> = {}): any {
+  return {
+    id: 'asg-1',
+    workflowId: 'wf-1',
+    tenantId: 'tenant-1',
+    gate: 'AI_REVIEW',
+    assigneeId: 'owner-1',
+    assigneeRole: null,
+    assignee: owner,
+    openedAt,
+    escalationLevel: 0,
+    lastEscalatedAt: null,
+    resolvedAt: null,
+    workflow: { currentState: 'AWAITING_AI_REVIEW', definitionId: null, file: { originalName: 'book.epub' } },
+    ...overrides,
+  };
+}
+
+describe('dueEscalationSteps', () => {
+  it('returns nothing before the first step is due', () => {
+    expect(dueEscalationSteps(chain, 0, openedAt, hoursLater(23))).toEqual([]);
+  });
+
+  it('skips steps that were already applied', () => {
+    expect(dueEscalationSteps(chain, 1, openedAt, hoursLater(50))).toEqual([chain[1]]);
+  });
+
+  it('returns every overdue step in order when a sweep runs late', () => {
+    expect(dueEscalationSteps(chain, 0, openedAt, hoursLater(80))).toEqual(chain);
+  });
+});
+
+describe('HITLEscalationService.runSweep', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(workflowConfigService.getEscalationChain).mockResolvedValue(chain);
+    vi.mocked(prisma.hITLGateAssignment.updateMany).mockResolvedValue({ count: 1 } as any);
+    vi.mocked(prisma.hITLAssignmentHistory.updateMany).mockResolvedValue({ count: 1 } as any);
+  });
+
+  it('reminds the current owner and records the step', async () => {
+    vi.mocked(prisma.hITLGateAssignment.findMany).mockResolvedValue([assignment()]);
+    vi.mocked(prisma.user.findMany).mockResolvedValue([owner] as any);
+
+    const applied = await hitlEscalationService.runSweep(hoursLater(25));
+
+    expect(applied).toBe(1);
+    expect(prisma.hITLGateAssignment.updateMany).toHaveBeenCalledWith({
+      where: { id: 'asg-1', escalationLevel: 0, resolvedAt: null },
+      data: { escalationLevel: 1, lastEscalatedAt: hoursLater(25) },
+    });
+    expect(prisma.workflowEvent.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        workflowId: 'wf-1',
+        eventType: 'HITL_REMINDER_SENT',
+        payload: expect.objectContaining({ gate: 'AI_REVIEW', level: 1, hoursOpen: 25, recipients: ['owner-1'] }),
+      }),
+    });
+    expect(notificationService.createHITLEscalationNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ action: 'remind', ownerName: 'Olive Owner' }),
+      'owner-1',
+      'tenant-1'
+    );
+    expect(emailService.sendHITLEscalationEmail).toHaveBeenCalledWith(
+      expect.objectContaining({ userEmail: 'owner@example.com', reviewUrl: expect.stringContaining('/workflow/wf-1/hitl/ai-review') })
+    );
+  });
+
+  it('reassigns to the backup reviewer and then notifies the manager role', async () => {
+    vi.mocked(prisma.hITLGateAssignment.findMany).mockResolvedValue([assignment({ escalationLevel: 1 })]);
+    vi.mocked(prisma.user.findMany)
+      .mockResolvedValueOnce([backup] as any)
+      .mockResolvedValueOnce([admin] as any);
+
+    const applied = await hitlEscalationService.runSweep(hoursLater(73));
+
+    expect(applied).toBe(2);
+    expect(prisma.hITLGateAssignment.updateMany).toHaveBeenNthCalledWith(1, {
+      where: { id: 'asg-1', escalationLevel: 1, resolvedAt: null },
+      data: expect.objectContaining({ escalationLevel: 2, assigneeId: 'backup-1', assigneeRole: null }),
+    });
+    expect(prisma.user.findMany).toHaveBeenLastCalledWith(
+      expect.objectContaining({ where: { tenantId: 'tenant-1', deletedAt: null, role: 'ADMIN' } })
+    );
+    expect(prisma.hITLAssignmentHistory.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({ assigneeId: 'backup-1', method: 'escalation', assignedAt: hoursLater(73) }),
+    });
+    expect(workflowMetricsService.recordAssignment).toHaveBeenCalledWith('wf-1', 'AI_REVIEW', 'backup-1', hoursLater(73), true);
+    expect(prisma.workflowEvent.create).toHaveBeenNthCalledWith(1, {
+      data: expect.objectContaining({
+        eventType: 'HITL_REASSIGNED',
+        payload: expect.objectContaining({
+          owner: { userId: 'backup-1', name: 'Ben Backup', email: 'backup@example.com' },
+          previousOwner: { userId: 'owner-1', name: 'Olive Owner', email: 'owner@example.com' },
+        }),
+      }),
+    });
+    expect(prisma.workflowEvent.create).toHaveBeenNthCalledWith(2, {
+      data: expect.objectContaining({
+        eventType: 'HITL_MANAGER_NOTIFIED',
+        payload: expect.objectContaining({ level: 3, recipients: ['admin-1'] }),
+      }),
+    });
+    expect(notificationService.createHITLEscalationNotification).toHaveBeenLastCalledWith(
+      expect.objectContaining({ action: 'notify-manager', ownerName: 'Ben Backup' }),
+      'admin-1',
+      'tenant-1'
+    );
+  });
+
+  it('sends nothing when another instance already claimed the step', async () => {
+    vi.mocked(prisma.hITLGateAssignment.findMany).mockResolvedValue([assignment()]);
+    vi.mocked(prisma.user.findMany).mockResolvedValue([owner] as any);
+    vi.mocked(prisma.hITLGateAssignment.updateMany).mockResolvedValue({ count: 0 } as any);
+
+    const applied = await hitlEscalationService.runSweep(hoursLater(25));
+
+    expect(applied).toBe(0);
+    expect(prisma.workflowEvent.create).not.toHaveBeenCalled();
+    expect(emailService.sendHITLEscalationEmail).not.toHaveBeenCalled();
+  });
+
+  it('resolves assignments whose workflow has left the gate', async () => {
+    vi.mocked(prisma.hITLGateAssignment.findMany).mockResolvedValue([
+      assignment({ workflow: { currentState: 'AUTO_REMEDIATION', definitionId: null, file: { originalName: 'book.epub' } } }),
+    ]);
+
+    const applied = await hitlEscalationService.runSweep(hoursLater(25));
+
+    expect(applied).toBe(0);
+    expect(prisma.hITLGateAssignment.updateMany).toHaveBeenCalledWith({
+      where: { workflowId: 'wf-1', gate: 'AI_REVIEW', resolvedAt: null },
+      data: { resolvedAt: expect.any(Date) },
+    });
+    expect(workflowConfigService.getEscalationChain).not.toHaveBeenCalled();
+  });
+});
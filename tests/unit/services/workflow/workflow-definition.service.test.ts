@@ -0,0 +1,289 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createActor } from 'xstate';
+
+vi.mock('../../../../src/lib/prisma', () => {
+  const workflowDefinition = {
+    findFirst: vi.fn(),
+    findUnique: vi.fn(),
+    findMany: vi.fn(),
+    create: vi.fn(),
+    update: vi.fn(),
+    updateMany: vi.fn(),
+  };
+  return {
+    default: {
+      workflowDefinition,
+      $transaction: vi.fn(async (arg: unknown) =>
+        typeof arg === 'function' ? (arg as (tx: unknown) => unknown)({ workflowDefinition }) : Promise.all(arg as unknown[])
+      ),
+    },
+  };
+});
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+import prisma from '../../../../src/lib/prisma';
+import {
+  workflowDefinitionService,
+  validateWorkflowDefinitionSpec,
+  resolveCanonicalState,
+} from '../../../../src/services/workflow/workflow-definition.service';
+import { createDefinitionMachine } from '../../../../src/services/workflow/workflow-states';
+import {
+  DEFAULT_WORKFLOW_DEFINITION,
+  HITL_STEP_ACTIONS,
+  PROCESSING_STEP_ACTIONS,
+  type WorkflowDefinitionSpec,
+} from '../../../../src/types/workflow-definition.types';
+
+const PRH_SPEC: WorkflowDefinitionSpec = {
+  steps: [
+    { id: 'PREPROCESSING', action: 'PREPROCESSING' },
+    { id: 'RUNNING_EPUBCHECK', action: 'RUNNING_EPUBCHECK' },
+    { id: 'PRH_PREFLIGHT', action: 'PRH_PREFLIGHT' },
+    { id: 'RUNNING_AI_ANALYSIS', action: 'RUNNING_AI_ANALYSIS' },
+    { id: 'EDITOR_REVIEW', action: 'AWAITING_AI_REVIEW' },
+    { id: 'AUTO_REMEDIATION', action: 'AUTO_REMEDIATION' },
+  ],
+};
+
+function step(spec: WorkflowDefinitionSpec, from: string, event: string): string {
+  const machine = createDefinitionMachine(spec);
+  const snapshot = machine.resolveState({ value: from, context: machine.config.context as any });
+  const actor = createActor(machine, { snapshot });
+  actor.start();
+  actor.send({ type: event } as any);
+  const value = actor.getSnapshot().value as string;
+  actor.stop();
+  return value;
+}
+
+describe('validateWorkflowDefinitionSpec', () => {
+  it('accepts the built-in pipeline', () => {
+    expect(validateWorkflowDefinitionSpec(DEFAULT_WORKFLOW_DEFINITION)).toEqual([]);
+  });
+
+  it('accepts a pipeline with the PRH preflight step', () => {
+    expect(validateWorkflowDefinitionSpec(PRH_SPEC)).toEqual([]);
+  });
+
+  it('rejects reserved and duplicate step ids', () => {
+    const errors = validateWorkflowDefinitionSpec({
+      steps: [
+        { id: 'PAUSED', action: 'PREPROCESSING' },
+        { id: 'SCAN', action: 'RUNNING_EPUBCHECK' },
+        { id: 'SCAN', action: 'RUNNING_ACE' },
+      ],
+    });
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('reserved');
+    expect(errors[1]).toContain('more than once');
+  });
+
+  it('requires an audit step before job-dependent actions', () => {
+    const errors = validateWorkflowDefinitionSpec({
+      steps: [
+        { id: 'PREPROCESSING', action: 'PREPROCESSING' },
+        { id: 'AUTO_REMEDIATION', action: 'AUTO_REMEDIATION' },
+      ],
+    });
+    expect(errors).toEqual([
+      'Step "AUTO_REMEDIATION" (AUTO_REMEDIATION) requires an earlier RUNNING_EPUBCHECK step',
+    ]);
+  });
+
+  it('only allows onReject on AI review steps pointing backwards', () => {
+    const errors = validateWorkflowDefinitionSpec({
+      steps: [
+        { id: 'PREPROCESSING', action: 'PREPROCESSING', onReject: 'PREPROCESSING' },
+        { id: 'RUNNING_EPUBCHECK', action: 'RUNNING_EPUBCHECK' },
+        { id: 'REVIEW', action: 'AWAITING_AI_REVIEW', onReject: 'LATER' },
+        { id: 'LATER', action: 'RUNNING_ACE' },
+      ],
+    });
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toContain('only supported on AWAITING_AI_REVIEW');
+    expect(errors[1]).toContain('must reference an earlier step');
+  });
+});
+
+describe('createDefinitionMachine', () => {
+  it('advances through steps on their completion events', () => {
+    expect(step(PRH_SPEC, 'UPLOAD_RECEIVED', 'PREPROCESS')).toBe('PREPROCESSING');
+    expect(step(PRH_SPEC, 'RUNNING_EPUBCHECK', 'ACE_START')).toBe('PRH_PREFLIGHT');
+    expect(step(PRH_SPEC, 'PRH_PREFLIGHT', 'PREFLIGHT_DONE')).toBe('RUNNING_AI_ANALYSIS');
+    expect(step(PRH_SPEC, 'EDITOR_REVIEW', 'AI_ACCEPTED')).toBe('AUTO_REMEDIATION');
+  });
+
+  it('completes after the last step', () => {
+    expect(step(PRH_SPEC, 'AUTO_REMEDIATION', 'REMEDIATION_DONE')).toBe('COMPLETED');
+  });
+
+  it('loops AI rejection back to the closest earlier analysis step', () => {
+    expect(step(PRH_SPEC, 'EDITOR_REVIEW', 'AI_REJECTED')).toBe('RUNNING_AI_ANALYSIS');
+  });
+
+  it('honours an explicit onReject target', () => {
+    const spec: WorkflowDefinitionSpec = {
+      steps: [
+        { id: 'PREPROCESSING', action: 'PREPROCESSING' },
+        { id: 'RUNNING_EPUBCHECK', action: 'RUNNING_EPUBCHECK' },
+        { id: 'REVIEW', action: 'AWAITING_AI_REVIEW', onReject: 'PREPROCESSING' },
+      ],
+    };
+    expect(step(spec, 'REVIEW', 'AI_REJECTED')).toBe('PREPROCESSING');
+  });
+
+  it('ignores events that belong to other actions', () => {
+    expect(step(PRH_SPEC, 'PRH_PREFLIGHT', 'AI_DONE')).toBe('PRH_PREFLIGHT');
+  });
+
+  it('keeps lifecycle transitions', () => {
+    expect(step(PRH_SPEC, 'PRH_PREFLIGHT', 'ERROR')).toBe('FAILED');
+    expect(step(PRH_SPEC, 'EDITOR_REVIEW', 'TIMEOUT')).toBe('HITL_TIMEOUT');
+    expect(step(PRH_SPEC, 'PAUSED', 'RESUME')).toBe('PREPROCESSING');
+    expect(step(PRH_SPEC, 'RETRYING', 'RETRY_EXECUTE')).toBe('PREPROCESSING');
+  });
+});
+
+describe('resolveCanonicalState', () => {
+  it('maps step ids to their actions and passes through everything else', () => {
+    expect(resolveCanonicalState(PRH_SPEC, 'EDITOR_REVIEW')).toBe('AWAITING_AI_REVIEW');
+    expect(resolveCanonicalState(PRH_SPEC, 'FAILED')).toBe('FAILED');
+    expect(resolveCanonicalState(null, 'EDITOR_REVIEW')).toBe('EDITOR_REVIEW');
+  });
+});
+
+describe('WorkflowDefinitionService', () => {
+  const tenantId = 'tenant-1';
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    workflowDefinitionService.clearCache();
+  });
+
+  describe('saveDefinition', () => {
+    it('creates the next version and deactivates others when activating', async () => {
+      vi.mocked(prisma.workflowDefinition.findFirst).mockResolvedValue({ version: 2 } as any);
+      vi.mocked(prisma.workflowDefinition.create).mockImplementation((args: any) =>
+        Promise.resolve({ id: 'def-3', ...args.data }) as any
+      );
+
+      const result = await workflowDefinitionService.saveDefinition(tenantId, 'user-1', {
+        name: 'PRH',
+        spec: PRH_SPEC,
+        activate: true,
+      });
+
+      expect(result.version).toBe(3);
+      expect(prisma.workflowDefinition.updateMany).toHaveBeenCalledWith({
+        where: { tenantId, isActive: true },
+        data: { isActive: false },
+      });
+      expect(prisma.workflowDefinition.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ tenantId, name: 'PRH', isActive: true, createdBy: 'user-1' }),
+        })
+      );
+    });
+
+    it('starts at version 1 and leaves the active definition alone when not activating', async () => {
+      vi.mocked(prisma.workflowDefinition.findFirst).mockResolvedValue(null);
+      vi.mocked(prisma.workflowDefinition.create).mockImplementation((args: any) =>
+        Promise.resolve({ id: 'def-1', ...args.data }) as any
+      );
+
+      const result = await workflowDefinitionService.saveDefinition(tenantId, 'user-1', {
+        name: 'Draft',
+        spec: PRH_SPEC,
+        activate: false,
+      });
+
+      expect(result.version).toBe(1);
+      expect(prisma.workflowDefinition.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('rejects semantically invalid specs without touching the database', async () => {
+      await expect(
+        workflowDefinitionService.saveDefinition(tenantId, 'user-1', {
+          name: 'Broken',
+          spec: { steps: [{ id: 'AUTO_REMEDIATION', action: 'AUTO_REMEDIATION' }] },
+          activate: true,
+        })
+      ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_WORKFLOW_DEFINITION' });
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getSpec', () => {
+    it('caches specs by definition id', async () => {
+      vi.mocked(prisma.workflowDefinition.findUnique).mockResolvedValue({ spec: PRH_SPEC } as any);
+
+      await workflowDefinitionService.getSpec('def-1');
+      const spec = await workflowDefinitionService.getSpec('def-1');
+
+      expect(spec).toEqual(PRH_SPEC);
+      expect(prisma.workflowDefinition.findUnique).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('resolveStepAction', () => {
+    it('returns the current state for built-in workflows', async () => {
+      const action = await workflowDefinitionService.resolveStepAction({
+        definitionId: null,
+        currentState: 'RUNNING_ACE',
+      });
+      expect(action).toBe('RUNNING_ACE');
+      expect(prisma.workflowDefinition.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('maps custom step ids through the pinned definition', async () => {
+      vi.mocked(prisma.workflowDefinition.findUnique).mockResolvedValue({ spec: PRH_SPEC } as any);
+      const action = await workflowDefinitionService.resolveStepAction({
+        definitionId: 'def-1',
+        currentState: 'EDITOR_REVIEW',
+      });
+      expect(action).toBe('AWAITING_AI_REVIEW');
+    });
+  });
+
+  describe('buildStepActionFilter', () => {
+    it('matches built-in states, lifecycle states and declarative step ids by action', async () => {
+      vi.mocked(prisma.workflowDefinition.findMany).mockResolvedValue([{ id: 'def-1', spec: PRH_SPEC }] as any);
+      const scope = { batchId: 'batch-1' };
+
+      const filter = await workflowDefinitionService.buildStepActionFilter(
+        PROCESSING_STEP_ACTIONS,
+        ['RETRYING'],
+        scope
+      );
+
+      expect(prisma.workflowDefinition.findMany).toHaveBeenCalledWith({
+        where: { workflows: { some: scope } },
+        select: { id: true, spec: true },
+      });
+      const [builtIn, lifecycle, declarative] = filter.OR as any[];
+      expect(builtIn.definitionId).toBeNull();
+      expect(builtIn.currentState.in).toContain('PRH_PREFLIGHT');
+      expect(builtIn.currentState.in).not.toContain('AWAITING_AI_REVIEW');
+      expect(lifecycle).toEqual({ currentState: { in: ['RETRYING'] } });
+      expect(declarative).toEqual({
+        definitionId: 'def-1',
+        currentState: {
+          in: ['PREPROCESSING', 'RUNNING_EPUBCHECK', 'PRH_PREFLIGHT', 'RUNNING_AI_ANALYSIS', 'AUTO_REMEDIATION'],
+        },
+      });
+    });
+
+    it('matches custom gate step ids for HITL actions', async () => {
+      vi.mocked(prisma.workflowDefinition.findMany).mockResolvedValue([{ id: 'def-1', spec: PRH_SPEC }] as any);
+
+      const filter = await workflowDefinitionService.buildStepActionFilter(HITL_STEP_ACTIONS);
+
+      expect(filter.OR).toContainEqual({ definitionId: 'def-1', currentState: { in: ['EDITOR_REVIEW'] } });
+    });
+  });
+});
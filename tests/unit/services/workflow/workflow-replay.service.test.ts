@@ -0,0 +1,216 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+
+vi.mock('../../../../src/lib/prisma', () => {
+  const client: any = {
+    workflowInstance: { findFirst: vi.fn(), findMany: vi.fn(), create: vi.fn() },
+    workflowEvent: { findFirst: vi.fn(), create: vi.fn() },
+    workflowDefinition: { findUnique: vi.fn() },
+    job: { findUnique: vi.fn(), findFirst: vi.fn(), create: vi.fn() },
+  };
+  client.$transaction = vi.fn((fn: (tx: any) => unknown) => fn(client));
+  return { default: client };
+});
+
+vi.mock('../../../../src/lib/logger', () => ({
+  logger: { debug: vi.fn(), info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+}));
+
+vi.mock('../../../../src/queues/workflow.queue', () => ({
+  enqueueWorkflowEvent: vi.fn(),
+}));
+
+import prisma from '../../../../src/lib/prisma';
+import { enqueueWorkflowEvent } from '../../../../src/queues/workflow.queue';
+import {
+  planReplay,
+  workflowReplayService,
+} from '../../../../src/services/workflow/workflow-replay.service';
+import { DEFAULT_WORKFLOW_DEFINITION } from '../../../../src/types/workflow-definition.types';
+
+const tenantId = 'tenant-1';
+
+const completedRun = {
+  jobId: 'job-1',
+  auditScore: 72,
+  issueCount: 10,
+  aiReviewDecisions: [{ itemId: 'i1', decision: 'ACCEPT' }],
+  remediatedFilePath: 'uploads/book-remediated.epub',
+  totalIssuesFixed: 6,
+  verificationScore: 91,
+  conformanceMappings: [{ criterionId: '1.1.1', aiConformance: 'supports' }],
+  acrJobId: 'acr-1',
+  autoApproved: true,
+};
+
+function workflow(overrides: Record<string, unknown> = {}): any {
+  return {
+    id: 'wf-1',
+    fileId: 'file-1',
+    priority: 5,
+    definitionId: null,
+    productId: 'prod-1',
+    autoApprovalPolicy: null,
+    replayOfId: null,
+    replayFromState: null,
+    currentState: 'COMPLETED',
+    stateData: completedRun,
+    startedAt: new Date('2026-10-01T00:00:00Z'),
+    completedAt: new Date('2026-10-01T01:00:00Z'),
+    ...overrides,
+  };
+}
+
+describe('planReplay', () => {
+  it('keeps artifacts from steps before the restart step', () => {
+    const plan = planReplay(DEFAULT_WORKFLOW_DEFINITION, 'AUTO_REMEDIATION', completedRun);
+
+    expect(plan.stateData).toEqual({
+      jobId: 'job-1',
+      auditScore: 72,
+      issueCount: 10,
+      aiReviewDecisions: [{ itemId: 'i1', decision: 'ACCEPT' }],
+    });
+    expect(plan).toMatchObject({ reuseAuditJob: true, reuseRemediationPlan: false, dropVerificationAudit: true });
+  });
+
+  it('reuses the remediation plan when restarting after remediation', () => {
+    const plan = planReplay(DEFAULT_WORKFLOW_DEFINITION, 'CONFORMANCE_MAPPING', completedRun);
+
+    expect(plan.stateData).toMatchObject({ remediatedFilePath: 'uploads/book-remediated.epub', verificationScore: 91 });
+    expect(plan.stateData).not.toHaveProperty('conformanceMappings');
+    expect(plan).toMatchObject({ reuseRemediationPlan: true, dropVerificationAudit: false });
+  });
+
+  it('drops the audit job when the audit itself is replayed', () => {
+    const plan = planReplay(DEFAULT_WORKFLOW_DEFINITION, 'RUNNING_EPUBCHECK', completedRun);
+
+    expect(plan.stateData).toEqual({});
+    expect(plan.reuseAuditJob).toBe(false);
+  });
+});
+
+describe('WorkflowReplayService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(prisma.workflowEvent.findFirst).mockResolvedValue({ id: 'ev-1' } as any);
+    vi.mocked(prisma.workflowInstance.create).mockImplementation((args: any) => Promise.resolve(args.data));
+  });
+
+  describe('replayWorkflow', () => {
+    it('branches a new linked workflow with a copied audit job', async () => {
+      vi.mocked(prisma.workflowInstance.findFirst).mockResolvedValue(workflow());
+      vi.mocked(prisma.job.findUnique).mockResolvedValue({
+        id: 'job-1',
+        tenantId,
+        userId: 'user-0',
+        productId: 'prod-1',
+        type: 'EPUB_ACCESSIBILITY',
+        status: 'COMPLETED',
+        progress: 100,
+        input: { fileId: 'file-1' },
+        output: { score: 72, verificationAudit: { score: 91 } },
+      } as any);
+      vi.mocked(prisma.job.create).mockResolvedValue({ id: 'job-2' } as any);
+
+      const replay = await workflowReplayService.replayWorkflow(
+        tenantId, 'wf-1', 'AUTO_REMEDIATION', 'user-1', 'remediator fix'
+      );
+
+      expect(prisma.job.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          input: { fileId: 'file-1', replayOfJobId: 'job-1' },
+          output: { score: 72 },
+        }),
+      });
+      expect(replay).toMatchObject({
+        fileId: 'file-1',
+        createdBy: 'user-1',
+        productId: 'prod-1',
+        replayOfId: 'wf-1',
+        replayFromState: 'AUTO_REMEDIATION',
+        currentState: 'AUTO_REMEDIATION',
+      });
+      expect((replay.stateData as any).jobId).toBe('job-2');
+      expect(prisma.workflowEvent.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          workflowId: replay.id,
+          eventType: 'REPLAY_STARTED',
+          payload: expect.objectContaining({ replayOfId: 'wf-1', reason: 'remediator fix' }),
+        }),
+      });
+      expect(enqueueWorkflowEvent).toHaveBeenCalledWith(replay.id, 'REPROCESS_STATE');
+    });
+
+    it('refuses to replay a run that is still in progress', async () => {
+      vi.mocked(prisma.workflowInstance.findFirst).mockResolvedValue(workflow({ currentState: 'AUTO_REMEDIATION' }));
+
+      await expect(
+        workflowReplayService.replayWorkflow(tenantId, 'wf-1', 'AUTO_REMEDIATION', 'user-1')
+      ).rejects.toMatchObject({ statusCode: 409, code: 'WORKFLOW_STILL_RUNNING' });
+    });
+
+    it('rejects steps the original run never reached', async () => {
+      vi.mocked(prisma.workflowInstance.findFirst).mockResolvedValue(workflow({ currentState: 'FAILED' }));
+      vi.mocked(prisma.workflowEvent.findFirst).mockResolvedValue(null);
+
+      await expect(
+        workflowReplayService.replayWorkflow(tenantId, 'wf-1', 'ACR_GENERATION', 'user-1')
+      ).rejects.toMatchObject({ statusCode: 400, code: 'REPLAY_STATE_NOT_REACHED' });
+      expect(prisma.workflowInstance.create).not.toHaveBeenCalled();
+    });
+
+    it('rejects states that are not steps of the pipeline', async () => {
+      vi.mocked(prisma.workflowInstance.findFirst).mockResolvedValue(workflow());
+
+      await expect(
+        workflowReplayService.replayWorkflow(tenantId, 'wf-1', 'COMPLETED', 'user-1')
+      ).rejects.toMatchObject({ statusCode: 400, code: 'INVALID_REPLAY_STATE' });
+    });
+  });
+
+  describe('compare', () => {
+    it('lists criteria whose effective conformance changed', async () => {
+      vi.mocked(prisma.workflowInstance.findFirst)
+        .mockResolvedValueOnce(workflow({
+          id: 'wf-2',
+          replayOfId: 'wf-1',
+          replayFromState: 'AUTO_REMEDIATION',
+          stateData: {
+            conformanceMappings: [
+              { criterionId: '1.1.1', aiConformance: 'supports' },
+              { criterionId: '1.4.3', aiConformance: 'supports' },
+            ],
+          },
+        }))
+        .mockResolvedValueOnce(workflow({
+          stateData: {
+            conformanceMappings: [
+              { criterionId: '1.1.1', aiConformance: 'supports' },
+              { criterionId: '1.4.3', aiConformance: 'supports' },
+            ],
+            conformanceReviewDecisions: [
+              { criterionId: '1.4.3', decision: 'OVERRIDE', overrideValue: 'does_not_support' },
+            ],
+          },
+        }));
+
+      const comparison = await workflowReplayService.compare(tenantId, 'wf-2');
+
+      expect(comparison.replayFromState).toBe('AUTO_REMEDIATION');
+      expect(comparison.original.workflowId).toBe('wf-1');
+      expect(comparison.conformanceChanges).toEqual([
+        { criterionId: '1.4.3', original: 'does_not_support', replay: 'supports' },
+      ]);
+    });
+
+    it('rejects workflows that are not replays', async () => {
+      vi.mocked(prisma.workflowInstance.findFirst).mockResolvedValue(workflow());
+
+      await expect(workflowReplayService.compare(tenantId, 'wf-1')).rejects.toMatchObject({
+        statusCode: 400,
+        code: 'NOT_A_REPLAY',
+      });
+    });
+  });
+});